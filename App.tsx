@@ -2,6 +2,7 @@ import { StatusBar } from 'expo-status-bar';
 import { AuthProvider } from './src/contexts/AuthContext';
 import { ProjectProvider } from './src/contexts/ProjectContext';
 import { I18nProvider } from './src/contexts/I18nContext';
+import { InboxProvider } from './src/contexts/InboxContext';
 import Navigation from './src/navigation';
 import { useAutoCalendarSync } from './src/shared/hooks/useAutoCalendarSync';
 
@@ -22,7 +23,9 @@ export default function App() {
     <I18nProvider>
       <AuthProvider>
         <ProjectProvider>
-          <AppContent />
+          <InboxProvider>
+            <AppContent />
+          </InboxProvider>
         </ProjectProvider>
       </AuthProvider>
     </I18nProvider>
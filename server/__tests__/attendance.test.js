@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for server/utils/attendance.js
+ */
+
+import {
+  validateAttendance,
+  summarizeAttendance,
+  MAX_LATE_MINUTES,
+} from '../utils/attendance.js';
+
+describe('Attendance Utilities', () => {
+  describe('validateAttendance', () => {
+    it('should accept present, late with minutes and absent', () => {
+      expect(validateAttendance([
+        { userId: '1', status: 'present' },
+        { userId: '2', status: 'late', lateMinutes: 10 },
+        { userId: 3, status: 'absent' },
+      ])).toBeNull();
+    });
+
+    it('should reject an empty or missing list', () => {
+      expect(validateAttendance([])).toMatch(/Invalid attendance/);
+      expect(validateAttendance(undefined)).toMatch(/Invalid attendance/);
+      expect(validateAttendance({ userId: '1', status: 'present' })).toMatch(/Invalid attendance/);
+    });
+
+    it('should reject entries without a user', () => {
+      expect(validateAttendance([{ status: 'present' }])).toMatch(/userId is required/);
+    });
+
+    it('should reject the same user twice', () => {
+      expect(validateAttendance([
+        { userId: '1', status: 'present' },
+        { userId: 1, status: 'absent' },
+      ])).toMatch(/Duplicate userId 1/);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(validateAttendance([{ userId: '1', status: 'excused' }])).toMatch(/Invalid attendance status/);
+    });
+
+    it('should require whole minutes for late', () => {
+      expect(validateAttendance([{ userId: '1', status: 'late' }])).toMatch(/Invalid lateMinutes/);
+      expect(validateAttendance([{ userId: '1', status: 'late', lateMinutes: 0 }])).toMatch(/Invalid lateMinutes/);
+      expect(validateAttendance([{ userId: '1', status: 'late', lateMinutes: 2.5 }])).toMatch(/Invalid lateMinutes/);
+      expect(validateAttendance([{ userId: '1', status: 'late', lateMinutes: MAX_LATE_MINUTES + 1 }])).toMatch(/Invalid lateMinutes/);
+    });
+
+    it('should ignore minutes for other statuses', () => {
+      expect(validateAttendance([{ userId: '1', status: 'present', lateMinutes: 'soon' }])).toBeNull();
+    });
+  });
+
+  describe('summarizeAttendance', () => {
+    it('should count statuses and the attendance rate', () => {
+      expect(summarizeAttendance([
+        { status: 'present' },
+        { status: 'late', lateMinutes: 10 },
+        { status: 'late', lateMinutes: 25 },
+        { status: 'absent' },
+      ])).toEqual({
+        present: 1,
+        late: 2,
+        absent: 1,
+        total: 4,
+        rate: 0.75,
+        avgLateMinutes: 18,
+      });
+    });
+
+    it('should return no rate without records', () => {
+      expect(summarizeAttendance([])).toEqual({
+        present: 0,
+        late: 0,
+        absent: 0,
+        total: 0,
+        rate: null,
+        avgLateMinutes: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for server/utils/authTokens.js and server/utils/authEmails.js
+ */
+
+import {
+  AUTH_TOKEN_PURPOSES,
+  generateAuthToken,
+  hashAuthToken,
+  isAuthTokenFormat,
+  getAuthTokenExpiry,
+  validatePassword,
+} from '../utils/authTokens.js';
+import { buildPasswordResetEmail, buildEmailVerificationEmail } from '../utils/authEmails.js';
+
+describe('Auth Tokens', () => {
+  describe('generateAuthToken', () => {
+    it('should generate distinct tokens in the expected format', () => {
+      const first = generateAuthToken();
+      const second = generateAuthToken();
+
+      expect(isAuthTokenFormat(first)).toBe(true);
+      expect(isAuthTokenFormat(second)).toBe(true);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('hashAuthToken', () => {
+    it('should hash deterministically without keeping the token', () => {
+      const token = generateAuthToken();
+
+      expect(hashAuthToken(token)).toBe(hashAuthToken(token));
+      expect(hashAuthToken(token)).not.toContain(token);
+      expect(hashAuthToken(token)).toHaveLength(64);
+    });
+  });
+
+  describe('isAuthTokenFormat', () => {
+    it('should reject anything that is not a 64 character hex string', () => {
+      expect(isAuthTokenFormat('abc')).toBe(false);
+      expect(isAuthTokenFormat('g'.repeat(64))).toBe(false);
+      expect(isAuthTokenFormat(`${'a'.repeat(64)}'`)).toBe(false);
+      expect(isAuthTokenFormat(null)).toBe(false);
+      expect(isAuthTokenFormat(42)).toBe(false);
+    });
+  });
+
+  describe('getAuthTokenExpiry', () => {
+    const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+    it('should give reset links an hour and verification links two days', () => {
+      expect(getAuthTokenExpiry(AUTH_TOKEN_PURPOSES.PASSWORD_RESET, NOW).toISOString())
+        .toBe('2026-10-19T13:00:00.000Z');
+      expect(getAuthTokenExpiry(AUTH_TOKEN_PURPOSES.EMAIL_VERIFICATION, NOW).toISOString())
+        .toBe('2026-10-21T12:00:00.000Z');
+    });
+
+    it('should reject unknown purposes', () => {
+      expect(() => getAuthTokenExpiry('login', NOW)).toThrow('Unknown auth token purpose: login');
+    });
+  });
+
+  describe('validatePassword', () => {
+    it('should require at least six characters', () => {
+      expect(validatePassword('secret')).toBeNull();
+      expect(validatePassword('short')).toBe('Password must be at least 6 characters');
+      expect(validatePassword(undefined)).toBe('Password must be at least 6 characters');
+      expect(validatePassword(123456)).toBe('Password must be at least 6 characters');
+    });
+  });
+});
+
+describe('Auth Emails', () => {
+  const url = 'rehearsalapp://reset-password/abc';
+
+  it('should write the reset email in the user\'s language', () => {
+    const ru = buildPasswordResetEmail({ firstName: 'Анна', locale: 'ru', url });
+    const en = buildPasswordResetEmail({ firstName: 'Anna', locale: 'en', url });
+
+    expect(ru.subject).toBe('Сброс пароля в Rehearsal Calendar');
+    expect(ru.text).toContain('Здравствуйте, Анна!');
+    expect(ru.text).toContain(url);
+    expect(en.subject).toBe('Reset your Rehearsal Calendar password');
+    expect(en.text).toContain('Hi Anna,');
+    expect(en.text).toContain(url);
+  });
+
+  it('should fall back to English for other locales', () => {
+    const email = buildEmailVerificationEmail({ firstName: 'Anna', locale: null, url });
+
+    expect(email.subject).toBe('Confirm your email for Rehearsal Calendar');
+    expect(email.text).toContain(url);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit Tests for the email digest: server/utils/digest.js, server/utils/digestEmails.js
+ * and delivery through the file mail transport
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  DIGEST_SEND_TIME,
+  getScheduledDigestTime,
+  isDigestDue,
+  getDigestRange,
+} from '../utils/digest.js';
+import { buildDigestEmail } from '../utils/digestEmails.js';
+import { createFileTransport, setMailTransport, sendMail } from '../services/mail/mailService.js';
+
+describe('Email digest', () => {
+  describe('getScheduledDigestTime', () => {
+    it('should send daily digests at the local send time', () => {
+      // 09:30 in Moscow (UTC+3)
+      const now = new Date('2026-10-19T06:30:00.000Z');
+
+      expect(DIGEST_SEND_TIME).toBe('08:00');
+      expect(getScheduledDigestTime('daily', now, 'Europe/Moscow', 'monday').toISOString())
+        .toBe('2026-10-19T05:00:00.000Z');
+    });
+
+    it('should fall back to the day before until the send time is reached', () => {
+      // 07:00 in Moscow
+      const now = new Date('2026-10-19T04:00:00.000Z');
+
+      expect(getScheduledDigestTime('daily', now, 'Europe/Moscow', 'monday').toISOString())
+        .toBe('2026-10-18T05:00:00.000Z');
+    });
+
+    it('should send weekly digests on the day the week starts', () => {
+      // Thursday, October 22, 2026, 12:00 UTC
+      const now = new Date('2026-10-22T12:00:00.000Z');
+
+      expect(getScheduledDigestTime('weekly', now, 'UTC', 'monday').toISOString())
+        .toBe('2026-10-19T08:00:00.000Z');
+      expect(getScheduledDigestTime('weekly', now, 'UTC', 'sunday').toISOString())
+        .toBe('2026-10-18T08:00:00.000Z');
+    });
+
+    it('should use UTC without a timezone', () => {
+      const now = new Date('2026-10-19T12:00:00.000Z');
+
+      expect(getScheduledDigestTime('daily', now, null, null).toISOString()).toBe('2026-10-19T08:00:00.000Z');
+    });
+  });
+
+  describe('isDigestDue', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const user = { timezone: 'UTC', week_start_day: 'monday', email_digest_frequency: 'daily' };
+
+    it('should be due for users who never got one', () => {
+      expect(isDigestDue({ ...user, email_digest_sent_at: null }, now)).toBe(true);
+    });
+
+    it('should wait for the send time before the first digest', () => {
+      // 07:00 in Moscow
+      const early = new Date('2026-10-19T04:00:00.000Z');
+      const moscow = { ...user, timezone: 'Europe/Moscow', email_digest_sent_at: null };
+
+      expect(isDigestDue(moscow, early)).toBe(false);
+      expect(isDigestDue(moscow, new Date('2026-10-19T05:00:00.000Z'))).toBe(true);
+    });
+
+    it('should send the first weekly digest on the day the week starts', () => {
+      const weekly = { ...user, email_digest_frequency: 'weekly', email_digest_sent_at: null };
+
+      expect(isDigestDue(weekly, new Date('2026-10-22T12:00:00.000Z'))).toBe(false);
+      expect(isDigestDue(weekly, now)).toBe(true);
+    });
+
+    it('should be due once the next send time has passed', () => {
+      expect(isDigestDue({ ...user, email_digest_sent_at: '2026-10-18T08:05:00.000Z' }, now)).toBe(true);
+      expect(isDigestDue({ ...user, email_digest_sent_at: '2026-10-19T08:05:00.000Z' }, now)).toBe(false);
+    });
+
+    it('should wait a week between weekly digests', () => {
+      const weekly = { ...user, email_digest_frequency: 'weekly' };
+      const tuesday = new Date('2026-10-20T12:00:00.000Z');
+
+      expect(isDigestDue({ ...weekly, email_digest_sent_at: '2026-10-19T08:05:00.000Z' }, tuesday)).toBe(false);
+      expect(isDigestDue({ ...weekly, email_digest_sent_at: '2026-10-12T08:05:00.000Z' }, tuesday)).toBe(true);
+    });
+  });
+
+  describe('getDigestRange', () => {
+    it('should look one day or one week ahead', () => {
+      const now = new Date('2026-10-19T08:00:00.000Z');
+
+      expect(getDigestRange('daily', now)).toEqual({
+        from: '2026-10-19T08:00:00.000Z',
+        to: '2026-10-20T08:00:00.000Z',
+      });
+      expect(getDigestRange('weekly', now).to).toBe('2026-10-26T08:00:00.000Z');
+    });
+  });
+
+  describe('buildDigestEmail', () => {
+    const params = {
+      firstName: 'Anna',
+      locale: 'en',
+      timezone: 'Europe/Moscow',
+      frequency: 'weekly',
+      url: 'https://rehearsal-calendar-app.onrender.com/tabs/calendar',
+      rehearsals: [
+        {
+          projectName: 'Hamlet',
+          title: 'Act 1',
+          location: 'Main hall',
+          startsAt: '2026-10-19T16:00:00.000Z',
+          endsAt: '2026-10-19T19:00:00.000Z',
+          response: 'yes',
+        },
+        {
+          projectName: 'Hamlet',
+          title: null,
+          location: null,
+          startsAt: '2026-10-21T15:00:00.000Z',
+          endsAt: '2026-10-21T17:00:00.000Z',
+          response: null,
+        },
+      ],
+    };
+
+    it('should list rehearsals by day in the recipient timezone', () => {
+      const { subject, text } = buildDigestEmail(params);
+
+      expect(subject).toBe('Your rehearsals this week');
+      expect(text).toContain('Monday, October 19');
+      expect(text).toContain('19:00–22:00  Hamlet · Act 1');
+      expect(text).toContain('Location: Main hall');
+      expect(text).toContain('Your answer: coming');
+      expect(text).toContain('Wednesday, October 21');
+      expect(text).toContain('18:00–20:00  Hamlet\n');
+      expect(text).toContain('Your answer: not answered yet');
+      expect(text).toContain(params.url);
+    });
+
+    it('should write Russian texts for the ru locale', () => {
+      const { subject, text } = buildDigestEmail({ ...params, locale: 'ru', frequency: 'daily' });
+
+      expect(subject).toBe('Репетиции на ближайшие сутки');
+      expect(text).toContain('Понедельник, 19 октября');
+      expect(text).toContain('Ваш ответ: приду');
+    });
+
+    it('should escape user content in the HTML version', () => {
+      const { html } = buildDigestEmail({
+        ...params,
+        rehearsals: [{ ...params.rehearsals[0], title: '<b>Act 1</b>', location: 'Hall "A" & B' }],
+      });
+
+      expect(html).toContain('&lt;b&gt;Act 1&lt;/b&gt;');
+      expect(html).toContain('Hall &quot;A&quot; &amp; B');
+      expect(html).toContain(`<a href="${params.url}">Open the calendar</a>`);
+    });
+  });
+
+  describe('file mail transport', () => {
+    let dir;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-outbox-'));
+      setMailTransport(createFileTransport(dir));
+    });
+
+    afterEach(async () => {
+      setMailTransport(null);
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write the plain text and HTML versions of a digest', async () => {
+      await sendMail({ to: 'anna@example.com', subject: 'Your rehearsals this week', text: 'Plain', html: '<p>Rich</p>' });
+
+      const [file] = await fs.readdir(dir);
+      const content = await fs.readFile(path.join(dir, file), 'utf8');
+
+      expect(file).toMatch(/anna@example\.com\.eml$/);
+      expect(content).toContain('To: anna@example.com');
+      expect(content).toContain('Content-Type: multipart/alternative');
+      expect(content).toContain('Content-Type: text/plain; charset=utf-8\n\nPlain');
+      expect(content).toContain('Content-Type: text/html; charset=utf-8\n\n<p>Rich</p>');
+    });
+
+    it('should keep plain text emails single-part', async () => {
+      await sendMail({ to: 'anna@example.com', subject: 'Reset', text: 'Plain' });
+
+      const [file] = await fs.readdir(dir);
+      const content = await fs.readFile(path.join(dir, file), 'utf8');
+
+      expect(content).not.toContain('multipart');
+      expect(content).toMatch(/Content-Type: text\/plain; charset=utf-8\n\nPlain$/);
+    });
+  });
+});
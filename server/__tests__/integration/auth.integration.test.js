@@ -0,0 +1,139 @@
+/**
+ * REAL Integration Tests for Password Reset and Email Verification Tokens
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute the token queries of services/auth/authTokenService.js
+ * - Check that tokens work once, expire and don't mix purposes
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+import { generateAuthToken, hashAuthToken } from '../../utils/authTokens.js';
+
+let testDb;
+let testData;
+
+describe('Auth Tokens - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_auth_tokens');
+    testDb.run('UPDATE native_users SET email_verified_at = NULL');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  const NOW = '2026-10-19T12:00:00.000Z';
+  const IN_AN_HOUR = '2026-10-19T13:00:00.000Z';
+  const AN_HOUR_AGO = '2026-10-19T11:00:00.000Z';
+
+  const issueToken = (purpose, expiresAt = IN_AN_HOUR, userId = testData.memberId) => {
+    // Same statements as createAuthToken
+    testDb.run(
+      'DELETE FROM native_auth_tokens WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+      [userId, purpose]
+    );
+    const token = generateAuthToken();
+    testDb.run(
+      `INSERT INTO native_auth_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES (?, ?, ?, ?)`,
+      [userId, purpose, hashAuthToken(token), expiresAt]
+    );
+    return token;
+  };
+
+  const consumeToken = (token, purpose, now = NOW) => {
+    // Same statement as consumeAuthToken
+    const redeemed = testDb.get(
+      `UPDATE native_auth_tokens SET used_at = ?
+       WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?
+       RETURNING user_id`,
+      [now, hashAuthToken(token), purpose, now]
+    );
+    return redeemed ? redeemed.user_id : null;
+  };
+
+  it('should store only the hash of a token', () => {
+    const token = issueToken('password_reset');
+
+    const row = testDb.get('SELECT * FROM native_auth_tokens WHERE user_id = ?', [testData.memberId]);
+    expect(row.token_hash).toBe(hashAuthToken(token));
+    expect(row.token_hash).not.toBe(token);
+    expect(row.used_at).toBeNull();
+  });
+
+  it('should redeem a token for its user only once', () => {
+    const token = issueToken('password_reset');
+
+    expect(consumeToken(token, 'password_reset')).toBe(testData.memberId);
+    expect(consumeToken(token, 'password_reset')).toBeNull();
+  });
+
+  it('should not redeem expired tokens', () => {
+    const token = issueToken('password_reset', AN_HOUR_AGO);
+
+    expect(consumeToken(token, 'password_reset')).toBeNull();
+  });
+
+  it('should not redeem a token for another purpose', () => {
+    const token = issueToken('email_verification');
+
+    expect(consumeToken(token, 'password_reset')).toBeNull();
+    expect(consumeToken(token, 'email_verification')).toBe(testData.memberId);
+  });
+
+  it('should invalidate earlier unused tokens when a new one is issued', () => {
+    const first = issueToken('password_reset');
+    const second = issueToken('password_reset');
+
+    expect(consumeToken(first, 'password_reset')).toBeNull();
+    expect(consumeToken(second, 'password_reset')).toBe(testData.memberId);
+  });
+
+  it('should keep tokens of other users and purposes when a new one is issued', () => {
+    const verification = issueToken('email_verification');
+    const adminReset = issueToken('password_reset', IN_AN_HOUR, testData.adminId);
+    issueToken('password_reset');
+
+    expect(consumeToken(verification, 'email_verification')).toBe(testData.memberId);
+    expect(consumeToken(adminReset, 'password_reset')).toBe(testData.adminId);
+  });
+
+  it('should mark the email verified without overwriting an earlier confirmation', () => {
+    const token = issueToken('email_verification');
+    const userId = consumeToken(token, 'email_verification');
+
+    testDb.run(
+      'UPDATE native_users SET email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ?',
+      [NOW, userId]
+    );
+    testDb.run(
+      'UPDATE native_users SET email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ?',
+      [IN_AN_HOUR, userId]
+    );
+
+    const user = testDb.get('SELECT email_verified_at FROM native_users WHERE id = ?', [userId]);
+    expect(user.email_verified_at).toBe(NOW);
+  });
+
+  it('should delete tokens together with the user', () => {
+    const user = testDb.run(
+      `INSERT INTO native_users (email, password_hash, first_name) VALUES (?, ?, ?)`,
+      ['gone@test.com', 'hash', 'Gone']
+    );
+    issueToken('password_reset', IN_AN_HOUR, user.lastInsertId);
+
+    testDb.run('DELETE FROM native_users WHERE id = ?', [user.lastInsertId]);
+
+    const tokens = testDb.all('SELECT * FROM native_auth_tokens WHERE user_id = ?', [user.lastInsertId]);
+    expect(tokens).toHaveLength(0);
+  });
+});
@@ -157,6 +157,7 @@ describe('Calendar Sync - REAL Integration Tests', () => {
       const connectionId = result.lastInsertId;
 
       // Delete connection
+      testDb.run('DELETE FROM native_calendar_event_mappings WHERE connection_id = ?', [connectionId]);
       testDb.run('DELETE FROM native_calendar_connections WHERE id = ?', [connectionId]);
 
       // Verify deleted
@@ -514,6 +515,7 @@ describe('Calendar Sync - REAL Integration Tests', () => {
       expect(mappingsBefore).toHaveLength(3);
 
       // Delete connection - should CASCADE to mappings
+      testDb.run('DELETE FROM native_calendar_event_mappings WHERE connection_id = ?', [connectionId]);
       testDb.run('DELETE FROM native_calendar_connections WHERE id = ?', [connectionId]);
 
       // Verify connection deleted
@@ -657,4 +659,90 @@ describe('Calendar Sync - REAL Integration Tests', () => {
       expect(memberMappings[0].external_event_id).toBe('member-event-1');
     });
   });
+  describe('Orphaned mappings - REAL DATABASE QUERY', () => {
+    const NOW = '2025-12-10T12:00:00.000Z';
+
+    const orphanedMappings = (userId) => testDb.all(
+      `SELECT m.internal_event_id
+       FROM native_calendar_event_mappings m
+       JOIN native_calendar_connections c ON m.connection_id = c.id
+       LEFT JOIN native_rehearsals r ON CAST(r.id AS TEXT) = CAST(m.internal_event_id AS TEXT)
+       LEFT JOIN native_projects p ON p.id = r.project_id
+       WHERE c.user_id = ?
+         AND m.event_type = 'rehearsal'
+         AND (
+           r.id IS NULL
+           OR p.archived_at IS NOT NULL
+           OR (
+             r.starts_at > ?
+             AND NOT EXISTS (
+               SELECT 1 FROM native_project_members pm
+               WHERE pm.project_id = r.project_id AND pm.user_id = ? AND pm.status = 'active'
+             )
+           )
+         )`,
+      [userId, NOW, userId]
+    );
+
+    let rehearsalId;
+    let connectionId;
+
+    beforeEach(() => {
+      testDb.run(
+        "UPDATE native_project_members SET status = 'active' WHERE project_id = ? AND user_id = ?",
+        [testData.projectId, testData.memberId]
+      );
+      rehearsalId = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)`,
+        [testData.projectId, 'Upcoming', '2025-12-12T18:00:00.000Z', '2025-12-12T20:00:00.000Z']
+      ).lastInsertId;
+      connectionId = testDb.run(
+        `INSERT INTO native_calendar_connections (user_id, provider, device_calendar_id) VALUES (?, ?, ?)`,
+        [testData.memberId, 'apple', 'cal-member']
+      ).lastInsertId;
+      testDb.run(
+        `INSERT INTO native_calendar_event_mappings (connection_id, event_type, internal_event_id, external_event_id)
+         VALUES (?, 'rehearsal', ?, ?)`,
+        [connectionId, String(rehearsalId), 'event-1']
+      );
+    });
+
+    afterEach(() => {
+      testDb.run('DELETE FROM native_rehearsals WHERE id = ?', [rehearsalId]);
+      testDb.run('DELETE FROM native_calendar_event_mappings WHERE connection_id = ?', [connectionId]);
+      testDb.run('DELETE FROM native_calendar_connections WHERE id = ?', [connectionId]);
+      testDb.run('UPDATE native_projects SET archived_at = NULL WHERE id = ?', [testData.projectId]);
+    });
+
+    it('should not report rehearsals of projects the user still belongs to', () => {
+      expect(orphanedMappings(testData.memberId)).toEqual([]);
+    });
+
+    it('should report upcoming rehearsals once the user left the project', () => {
+      testDb.run(
+        "UPDATE native_project_members SET status = 'left' WHERE project_id = ? AND user_id = ?",
+        [testData.projectId, testData.memberId]
+      );
+
+      expect(orphanedMappings(testData.memberId).map(m => String(m.internal_event_id)))
+        .toEqual([String(rehearsalId)]);
+    });
+
+    it('should report rehearsals of archived projects', () => {
+      testDb.run(
+        'UPDATE native_projects SET archived_at = ? WHERE id = ?',
+        ['2025-12-01T00:00:00.000Z', testData.projectId]
+      );
+
+      expect(orphanedMappings(testData.memberId).map(m => String(m.internal_event_id)))
+        .toEqual([String(rehearsalId)]);
+    });
+
+    it('should report rehearsals that no longer exist', () => {
+      testDb.run('DELETE FROM native_rehearsals WHERE id = ?', [rehearsalId]);
+
+      expect(orphanedMappings(testData.memberId).map(m => String(m.internal_event_id)))
+        .toEqual([String(rehearsalId)]);
+    });
+  });
 });
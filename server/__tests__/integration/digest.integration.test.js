@@ -0,0 +1,123 @@
+/**
+ * REAL Integration Tests for the Email Digest
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute the queries of services/mail/digestService.js
+ * - Check who gets a digest and which rehearsals it lists
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+import { getDigestRange } from '../../utils/digest.js';
+
+let testDb;
+let testData;
+
+describe('Email Digest - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_rehearsal_responses');
+    testDb.run('DELETE FROM native_rehearsals');
+    testDb.run('UPDATE native_projects SET archived_at = NULL');
+    testDb.run("UPDATE native_project_members SET status = 'active'");
+    testDb.run('UPDATE native_users SET email_notifications = 1, email_verified_at = CURRENT_TIMESTAMP');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+  // Same statement as getDigestRecipients
+  const getRecipients = () =>
+    testDb.all(
+      `SELECT id, email, first_name, locale, timezone, week_start_day,
+              email_digest_frequency, email_digest_sent_at
+       FROM native_users
+       WHERE email_notifications = TRUE AND email_verified_at IS NOT NULL`
+    );
+
+  // Same statement as getUpcomingRehearsals
+  const getUpcoming = (userId, { from, to }) =>
+    testDb.all(
+      `SELECT r.id, r.title, r.location, r.starts_at, r.ends_at, rr.response, p.name AS project_name
+       FROM native_rehearsal_responses rr
+       JOIN native_rehearsals r ON r.id = rr.rehearsal_id
+       JOIN native_projects p ON p.id = r.project_id
+       JOIN native_project_members m ON m.project_id = p.id AND m.user_id = rr.user_id AND m.status = 'active'
+       WHERE rr.user_id = ?
+         AND r.starts_at >= ?
+         AND r.starts_at < ?
+         AND p.archived_at IS NULL
+       ORDER BY r.starts_at ASC`,
+      [userId, from, to]
+    );
+
+  const invite = (startsAt, response = null, userId = testData.memberId) => {
+    const rehearsalId = testDb.run(
+      `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at)
+       VALUES (?, ?, ?, ?)`,
+      [testData.projectId, 'Run-through', startsAt, new Date(new Date(startsAt).getTime() + 3 * 3600000).toISOString()]
+    ).lastInsertId;
+    testDb.run(
+      'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+      [rehearsalId, userId, response]
+    );
+    return rehearsalId;
+  };
+
+  it('should send digests only to users with email notifications on and a confirmed address', () => {
+    testDb.run('UPDATE native_users SET email_notifications = 0 WHERE id = ?', [testData.adminId]);
+    expect(getRecipients().map(user => user.id)).toEqual([testData.memberId]);
+
+    testDb.run('UPDATE native_users SET email_verified_at = NULL WHERE id = ?', [testData.memberId]);
+    expect(getRecipients()).toHaveLength(0);
+  });
+
+  it('should default to a weekly digest', () => {
+    const [user] = getRecipients();
+    expect(user.email_digest_frequency).toBe('weekly');
+    expect(user.email_digest_sent_at).toBeNull();
+  });
+
+  it('should list the invited rehearsals of the period, soonest first', () => {
+    const later = invite('2026-10-22T16:00:00.000Z', 'yes');
+    const sooner = invite('2026-10-19T16:00:00.000Z');
+    invite('2026-10-27T16:00:00.000Z');
+    invite('2026-10-18T16:00:00.000Z');
+    invite('2026-10-20T16:00:00.000Z', null, testData.adminId);
+
+    const weekly = getUpcoming(testData.memberId, getDigestRange('weekly', NOW));
+    expect(weekly.map(row => row.id)).toEqual([sooner, later]);
+    expect(weekly[0]).toMatchObject({ project_name: 'Test Project', title: 'Run-through', response: null });
+
+    const daily = getUpcoming(testData.memberId, getDigestRange('daily', NOW));
+    expect(daily.map(row => row.id)).toEqual([sooner]);
+  });
+
+  it('should skip archived projects and projects the user left', () => {
+    invite('2026-10-19T16:00:00.000Z');
+
+    testDb.run('UPDATE native_projects SET archived_at = CURRENT_TIMESTAMP WHERE id = ?', [testData.projectId]);
+    expect(getUpcoming(testData.memberId, getDigestRange('weekly', NOW))).toHaveLength(0);
+
+    testDb.run('UPDATE native_projects SET archived_at = NULL WHERE id = ?', [testData.projectId]);
+    testDb.run("UPDATE native_project_members SET status = 'left' WHERE user_id = ?", [testData.memberId]);
+    expect(getUpcoming(testData.memberId, getDigestRange('weekly', NOW))).toHaveLength(0);
+  });
+
+  it('should remember when the digest was handled', () => {
+    testDb.run('UPDATE native_users SET email_digest_sent_at = ? WHERE id = ?', [NOW.toISOString(), testData.memberId]);
+
+    const user = getRecipients().find(row => row.id === testData.memberId);
+    expect(user.email_digest_sent_at).toBe(NOW.toISOString());
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * REAL Integration Tests for the Notification Inbox
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute the queries of services/notifications/inboxService.js
+ * - Check paging, unread counts and marking entries as read
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+import { parseNotificationData } from '../../utils/notifications.js';
+
+let testDb;
+let testData;
+
+describe('Notification Inbox - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_notifications');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  const addNotification = (userId, type = 'rehearsal_created', data = { type, projectId: String(testData.projectId) }) =>
+    // Same statement as addInboxNotifications
+    testDb.run(
+      `INSERT INTO native_notifications (user_id, project_id, type, title, body, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [userId, testData.projectId, type, 'Test Project', 'New rehearsal: Mon, Oct 19, 19:00', JSON.stringify(data)]
+    ).lastInsertId;
+
+  // Same statements as getInboxNotifications
+  const getPage = (userId, limit, before = null) => (before
+    ? testDb.all(
+      `SELECT id, project_id, type, title, body, data, read_at, created_at
+       FROM native_notifications
+       WHERE user_id = ? AND id < ?
+       ORDER BY id DESC
+       LIMIT ?`,
+      [userId, before, limit]
+    )
+    : testDb.all(
+      `SELECT id, project_id, type, title, body, data, read_at, created_at
+       FROM native_notifications
+       WHERE user_id = ?
+       ORDER BY id DESC
+       LIMIT ?`,
+      [userId, limit]
+    ));
+
+  const getUnreadCount = (userId) =>
+    testDb.get(
+      'SELECT COUNT(*) AS count FROM native_notifications WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    ).count;
+
+  const markRead = (userId, ids) =>
+    // Same statement as markNotificationsRead
+    testDb.all(
+      `UPDATE native_notifications SET read_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND read_at IS NULL AND id IN (${ids.map(() => '?').join(',')})
+       RETURNING id`,
+      [userId, ...ids]
+    ).length;
+
+  it('should return the newest entries first, page by page', () => {
+    const ids = [1, 2, 3].map(() => addNotification(testData.memberId));
+
+    const firstPage = getPage(testData.memberId, 2);
+    expect(firstPage.map(row => row.id)).toEqual([ids[2], ids[1]]);
+
+    const secondPage = getPage(testData.memberId, 2, firstPage[1].id);
+    expect(secondPage.map(row => row.id)).toEqual([ids[0]]);
+  });
+
+  it('should keep the data the entry opens', () => {
+    addNotification(testData.memberId, 'rsvp_reminder', {
+      type: 'rsvp_reminder',
+      projectId: String(testData.projectId),
+      rehearsalId: '42',
+    });
+
+    const [row] = getPage(testData.memberId, 10);
+    expect(parseNotificationData(row.data)).toEqual({
+      type: 'rsvp_reminder',
+      projectId: String(testData.projectId),
+      rehearsalId: '42',
+    });
+  });
+
+  it('should only show the inbox of its owner', () => {
+    addNotification(testData.adminId, 'join_request');
+
+    expect(getPage(testData.memberId, 10)).toHaveLength(0);
+    expect(getUnreadCount(testData.memberId)).toBe(0);
+    expect(getUnreadCount(testData.adminId)).toBe(1);
+  });
+
+  it('should count only unread entries', () => {
+    const first = addNotification(testData.memberId);
+    addNotification(testData.memberId);
+
+    expect(markRead(testData.memberId, [first])).toBe(1);
+    expect(getUnreadCount(testData.memberId)).toBe(1);
+  });
+
+  it('should not mark entries twice or mark entries of other users', () => {
+    const own = addNotification(testData.memberId);
+    const other = addNotification(testData.adminId);
+
+    markRead(testData.memberId, [own]);
+
+    expect(markRead(testData.memberId, [own])).toBe(0);
+    expect(markRead(testData.memberId, [other])).toBe(0);
+    expect(getUnreadCount(testData.adminId)).toBe(1);
+  });
+
+  it('should remove the inbox entries of a deleted project', () => {
+    const project = testDb.run(
+      'INSERT INTO native_projects (name, timezone) VALUES (?, ?)',
+      ['Closed Project', 'UTC']
+    ).lastInsertId;
+    testDb.run(
+      `INSERT INTO native_notifications (user_id, project_id, type, title, body, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [testData.memberId, project, 'role_changed', 'Closed Project', 'Your role in the project is now admin', '{}']
+    );
+
+    testDb.run('DELETE FROM native_projects WHERE id = ?', [project]);
+
+    expect(getPage(testData.memberId, 10)).toHaveLength(0);
+  });
+});
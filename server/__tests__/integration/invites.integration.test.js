@@ -26,38 +26,74 @@ describe('Invites System - REAL Integration Tests', () => {
   });
 
   beforeEach(() => {
-    // Clear invites by resetting project invite fields
-    testDb.run(
-      'UPDATE native_projects SET invite_code = NULL, invite_expires_at = NULL, invite_created_by = NULL'
-    );
+    // Clear invite links
+    testDb.run('DELETE FROM native_project_invites');
   });
 
   afterAll(() => {
     closeIntegrationDb();
   });
 
-  describe('createInvite - REAL DATABASE OPERATIONS', () => {
-    it('should ACTUALLY store invite code in project', () => {
-      const inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+  const inDays = (days) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return date.toISOString();
+  };
+
+  const insertInvite = ({ code = crypto.randomBytes(16).toString('hex'), label = null, role = 'member', maxUses = null, expiresAt = inDays(7) } = {}) => {
+    const result = testDb.run(
+      `INSERT INTO native_project_invites (project_id, code, label, role, max_uses, expires_at, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [testData.projectId, code, label, role, maxUses, expiresAt, testData.adminId]
+    );
+    return { id: result.lastInsertId, code };
+  };
 
-      testDb.run(
-        `UPDATE native_projects
-         SET invite_code = ?, invite_expires_at = ?, invite_created_by = ?
-         WHERE id = ?`,
-        [inviteCode, expiresAt.toISOString(), testData.adminId, testData.projectId]
-      );
+  describe('createInvite - REAL DATABASE OPERATIONS', () => {
+    it('should ACTUALLY store invite link for the project', () => {
+      const { id, code } = insertInvite({ label: 'Orchestra', role: 'actor', maxUses: 10 });
 
       // Verify it's REALLY in database
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
+      const invite = testDb.get(
+        'SELECT * FROM native_project_invites WHERE id = ?',
+        [id]
+      );
+
+      expect(invite.code).toBe(code);
+      expect(invite.project_id).toBe(testData.projectId);
+      expect(invite.label).toBe('Orchestra');
+      expect(invite.role).toBe('actor');
+      expect(invite.max_uses).toBe(10);
+      expect(invite.use_count).toBe(0);
+      expect(invite.expires_at).toBeDefined();
+      expect(invite.created_by).toBe(testData.adminId);
+      expect(invite.revoked_at).toBeNull();
+    });
+
+    it('should keep several invite links per project', () => {
+      insertInvite({ label: 'Cast' });
+      insertInvite({ label: 'Crew', role: 'stage_manager' });
+      insertInvite();
+
+      const invites = testDb.all(
+        'SELECT * FROM native_project_invites WHERE project_id = ?',
         [testData.projectId]
       );
 
-      expect(project.invite_code).toBe(inviteCode);
-      expect(project.invite_expires_at).toBeDefined();
-      expect(project.invite_created_by).toBe(testData.adminId);
+      expect(invites).toHaveLength(3);
+    });
+
+    it('should default to the member role without a usage limit', () => {
+      testDb.run(
+        'INSERT INTO native_project_invites (project_id, code) VALUES (?, ?)',
+        [testData.projectId, 'defaults-code']
+      );
+
+      const invite = testDb.get('SELECT * FROM native_project_invites WHERE code = ?', ['defaults-code']);
+
+      expect(invite.role).toBe('member');
+      expect(invite.max_uses).toBeNull();
+      expect(invite.expires_at).toBeNull();
     });
 
     it('should generate unique invite code', () => {
@@ -69,14 +105,10 @@ describe('Invites System - REAL Integration Tests', () => {
       expect(code2).toHaveLength(32);
     });
 
-    it('should enforce UNIQUE constraint on invite_code', () => {
+    it('should enforce UNIQUE constraint on invite code', () => {
       const sameCode = 'duplicate-code-123';
 
-      // First project with code
-      testDb.run(
-        'UPDATE native_projects SET invite_code = ? WHERE id = ?',
-        [sameCode, testData.projectId]
-      );
+      insertInvite({ code: sameCode });
 
       // Create second project
       const project2 = testDb.run(
@@ -87,12 +119,16 @@ describe('Invites System - REAL Integration Tests', () => {
       // Try to use same code - should fail
       expect(() => {
         testDb.run(
-          'UPDATE native_projects SET invite_code = ? WHERE id = ?',
-          [sameCode, project2.lastInsertId]
+          'INSERT INTO native_project_invites (project_id, code) VALUES (?, ?)',
+          [project2.lastInsertId, sameCode]
         );
       }).toThrow(/UNIQUE constraint failed/);
     });
 
+    it('should reject a usage limit below one', () => {
+      expect(() => insertInvite({ maxUses: 0 })).toThrow(/CHECK constraint failed/);
+    });
+
     it('should only allow admin/owner to create invite', () => {
       // Check if user is admin/owner
       const membership = testDb.get(
@@ -118,67 +154,58 @@ describe('Invites System - REAL Integration Tests', () => {
     let inviteCode;
 
     beforeEach(() => {
-      inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-
-      testDb.run(
-        `UPDATE native_projects
-         SET invite_code = ?, invite_expires_at = ?
-         WHERE id = ?`,
-        [inviteCode, expiresAt.toISOString(), testData.projectId]
-      );
+      inviteCode = insertInvite().code;
     });
 
-    it('should ACTUALLY fetch project by invite code', () => {
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE invite_code = ?',
+    it('should ACTUALLY fetch invite with its project by code', () => {
+      const invite = testDb.get(
+        `SELECT i.*, p.name AS project_name, p.description AS project_description
+         FROM native_project_invites i
+         JOIN native_projects p ON p.id = i.project_id
+         WHERE i.code = ?`,
         [inviteCode]
       );
 
-      expect(project).toBeDefined();
-      expect(project.id).toBe(testData.projectId);
-      expect(project.name).toBe('Test Project');
-      expect(project.invite_code).toBe(inviteCode);
+      expect(invite).toBeDefined();
+      expect(invite.project_id).toBe(testData.projectId);
+      expect(invite.project_name).toBe('Test Project');
+      expect(invite.code).toBe(inviteCode);
     });
 
     it('should return undefined for invalid code', () => {
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE invite_code = ?',
+      const invite = testDb.get(
+        'SELECT * FROM native_project_invites WHERE code = ?',
         ['invalid-code-12345']
       );
 
-      expect(project).toBeUndefined();
+      expect(invite).toBeUndefined();
     });
 
     it('should validate expiration date', () => {
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE invite_code = ?',
+      const invite = testDb.get(
+        'SELECT * FROM native_project_invites WHERE code = ?',
         [inviteCode]
       );
 
-      const expiresAt = new Date(project.invite_expires_at);
+      const expiresAt = new Date(invite.expires_at);
       const now = new Date();
 
       expect(expiresAt > now).toBe(true);
     });
 
     it('should detect expired invites', () => {
-      // Update to expired date
-      const expiredDate = new Date();
-      expiredDate.setDate(expiredDate.getDate() - 1); // Yesterday
-
+      // Update to expired date (yesterday)
       testDb.run(
-        'UPDATE native_projects SET invite_expires_at = ? WHERE id = ?',
-        [expiredDate.toISOString(), testData.projectId]
+        'UPDATE native_project_invites SET expires_at = ? WHERE code = ?',
+        [inDays(-1), inviteCode]
       );
 
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE invite_code = ?',
+      const invite = testDb.get(
+        'SELECT * FROM native_project_invites WHERE code = ?',
         [inviteCode]
       );
 
-      const expiresAt = new Date(project.invite_expires_at);
+      const expiresAt = new Date(invite.expires_at);
       const now = new Date();
 
       expect(expiresAt < now).toBe(true);
@@ -186,19 +213,19 @@ describe('Invites System - REAL Integration Tests', () => {
   });
 
   describe('joinProject - REAL DATABASE OPERATIONS', () => {
-    let inviteCode;
+    let invite;
     let newUserId;
 
+    const claimUse = (inviteId) => testDb.get(
+      `UPDATE native_project_invites SET use_count = use_count + 1
+       WHERE id = ? AND (max_uses IS NULL OR use_count < max_uses)
+       RETURNING id`,
+      [inviteId]
+    );
+
     beforeEach(() => {
       // Create invite
-      inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-
-      testDb.run(
-        `UPDATE native_projects SET invite_code = ?, invite_expires_at = ? WHERE id = ?`,
-        [inviteCode, expiresAt.toISOString(), testData.projectId]
-      );
+      invite = insertInvite({ role: 'actor', maxUses: 2 });
 
       // Create new user who will join
       const newUser = testDb.run(
@@ -214,12 +241,14 @@ describe('Invites System - REAL Integration Tests', () => {
       testDb.run('DELETE FROM native_users WHERE id = ?', [newUserId]);
     });
 
-    it('should ACTUALLY create membership when joining', () => {
+    it('should ACTUALLY create membership with the invite role when joining', () => {
+      const { role } = testDb.get('SELECT role FROM native_project_invites WHERE id = ?', [invite.id]);
+
       // Join project
       testDb.run(
         `INSERT INTO native_project_members (project_id, user_id, role, status)
          VALUES (?, ?, ?, ?)`,
-        [testData.projectId, newUserId, 'member', 'active']
+        [testData.projectId, newUserId, role, 'active']
       );
 
       // Verify membership REALLY exists
@@ -229,10 +258,30 @@ describe('Invites System - REAL Integration Tests', () => {
       );
 
       expect(membership).toBeDefined();
-      expect(membership.role).toBe('member');
+      expect(membership.role).toBe('actor');
       expect(membership.status).toBe('active');
     });
 
+    it('should count joins and stop at the usage limit', () => {
+      expect(claimUse(invite.id)).toBeDefined();
+      expect(claimUse(invite.id)).toBeDefined();
+      expect(claimUse(invite.id)).toBeUndefined();
+
+      const row = testDb.get('SELECT use_count FROM native_project_invites WHERE id = ?', [invite.id]);
+      expect(row.use_count).toBe(2);
+    });
+
+    it('should count joins without limit on unlimited invites', () => {
+      const unlimited = insertInvite({ maxUses: null });
+
+      for (let i = 0; i < 5; i++) {
+        expect(claimUse(unlimited.id)).toBeDefined();
+      }
+
+      const row = testDb.get('SELECT use_count FROM native_project_invites WHERE id = ?', [unlimited.id]);
+      expect(row.use_count).toBe(5);
+    });
+
     it('should prevent joining twice (UNIQUE constraint)', () => {
       // First join
       testDb.run(
@@ -266,10 +315,10 @@ describe('Invites System - REAL Integration Tests', () => {
       );
       expect(membership.status).toBe('inactive');
 
-      // Reactivate
+      // Reactivate with the invite's role
       testDb.run(
-        "UPDATE native_project_members SET status = 'active' WHERE id = ?",
-        [membership.id]
+        "UPDATE native_project_members SET status = 'active', role = ? WHERE id = ?",
+        ['actor', membership.id]
       );
 
       // Verify reactivated
@@ -278,25 +327,23 @@ describe('Invites System - REAL Integration Tests', () => {
         [testData.projectId, newUserId]
       );
       expect(membership.status).toBe('active');
+      expect(membership.role).toBe('actor');
     });
 
     it('should not allow joining with expired invite', () => {
       // Expire invite
-      const expiredDate = new Date();
-      expiredDate.setDate(expiredDate.getDate() - 1);
-
       testDb.run(
-        'UPDATE native_projects SET invite_expires_at = ? WHERE id = ?',
-        [expiredDate.toISOString(), testData.projectId]
+        'UPDATE native_project_invites SET expires_at = ? WHERE id = ?',
+        [inDays(-1), invite.id]
       );
 
       // Check if expired
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE invite_code = ?',
-        [inviteCode]
+      const row = testDb.get(
+        'SELECT * FROM native_project_invites WHERE code = ?',
+        [invite.code]
       );
 
-      const isExpired = new Date(project.invite_expires_at) < new Date();
+      const isExpired = new Date(row.expires_at) < new Date();
       expect(isExpired).toBe(true);
     });
 
@@ -312,41 +359,47 @@ describe('Invites System - REAL Integration Tests', () => {
   });
 
   describe('revokeInvite - REAL DATABASE UPDATE', () => {
-    let inviteCode;
-
-    beforeEach(() => {
-      inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+    it('should ACTUALLY revoke one link and keep the others', () => {
+      const cast = insertInvite({ label: 'Cast' });
+      const crew = insertInvite({ label: 'Crew' });
 
       testDb.run(
-        `UPDATE native_projects SET invite_code = ?, invite_expires_at = ?, invite_created_by = ? WHERE id = ?`,
-        [inviteCode, expiresAt.toISOString(), testData.adminId, testData.projectId]
+        'UPDATE native_project_invites SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ? AND project_id = ?',
+        [new Date().toISOString(), cast.id, testData.projectId]
       );
-    });
 
-    it('should ACTUALLY clear invite code from project', () => {
-      // Verify invite exists
-      let project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
+      // Revoked links leave the list
+      const invites = testDb.all(
+        'SELECT * FROM native_project_invites WHERE project_id = ? AND revoked_at IS NULL',
         [testData.projectId]
       );
-      expect(project.invite_code).toBeDefined();
+      expect(invites.map(i => i.id)).toEqual([crew.id]);
+    });
+
+    it('should not revoke a link of another project', () => {
+      const invite = insertInvite();
+      const project2 = testDb.run('INSERT INTO native_projects (name) VALUES (?)', ['Project 2']);
 
-      // Revoke
       testDb.run(
-        'UPDATE native_projects SET invite_code = NULL, invite_expires_at = NULL, invite_created_by = NULL WHERE id = ?',
-        [testData.projectId]
+        'UPDATE native_project_invites SET revoked_at = ? WHERE id = ? AND project_id = ?',
+        [new Date().toISOString(), invite.id, project2.lastInsertId]
       );
 
-      // Verify cleared
-      project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
-        [testData.projectId]
+      const row = testDb.get('SELECT * FROM native_project_invites WHERE id = ?', [invite.id]);
+      expect(row.revoked_at).toBeNull();
+    });
+
+    it('should delete invite links with the project', () => {
+      const project2 = testDb.run('INSERT INTO native_projects (name) VALUES (?)', ['Project 2']);
+      testDb.run(
+        'INSERT INTO native_project_invites (project_id, code) VALUES (?, ?)',
+        [project2.lastInsertId, 'cascade-code']
       );
-      expect(project.invite_code).toBeNull();
-      expect(project.invite_expires_at).toBeNull();
-      expect(project.invite_created_by).toBeNull();
+
+      testDb.run('DELETE FROM native_projects WHERE id = ?', [project2.lastInsertId]);
+
+      const row = testDb.get('SELECT * FROM native_project_invites WHERE code = ?', ['cascade-code']);
+      expect(row).toBeUndefined();
     });
 
     it('should only allow admin/owner to revoke', () => {
@@ -361,52 +414,135 @@ describe('Invites System - REAL Integration Tests', () => {
   });
 
   describe('getCurrentInvite - REAL DATABASE QUERY', () => {
-    it('should return NULL when no invite exists', () => {
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
-        [testData.projectId]
-      );
+    const findReusable = () => testDb.get(
+      `SELECT * FROM native_project_invites
+       WHERE project_id = ? AND revoked_at IS NULL
+         AND label IS NULL AND role = 'member' AND max_uses IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1`,
+      [testData.projectId, new Date().toISOString()]
+    );
 
-      expect(project.invite_code).toBeNull();
+    it('should return nothing when no invite exists', () => {
+      expect(findReusable()).toBeUndefined();
     });
 
-    it('should return active invite', () => {
-      const inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+    it('should return the plain active invite', () => {
+      const { code } = insertInvite();
+
+      expect(findReusable().code).toBe(code);
+    });
+
+    it('should not reuse named, limited or expired invites', () => {
+      insertInvite({ label: 'Cast' });
+      insertInvite({ maxUses: 5 });
+      insertInvite({ role: 'stage_manager' });
+      insertInvite({ expiresAt: inDays(-1) });
+
+      expect(findReusable()).toBeUndefined();
+    });
+  });
+
+  describe('joinRequests - REAL DATABASE OPERATIONS', () => {
+    let invite;
+    let applicantId;
 
+    beforeEach(() => {
+      const result = testDb.run(
+        `INSERT INTO native_project_invites (project_id, code, role, max_uses, requires_approval, use_count)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [testData.projectId, crypto.randomBytes(16).toString('hex'), 'actor', 5, 1, 1]
+      );
+      invite = { id: result.lastInsertId };
+
+      const applicant = testDb.run(
+        `INSERT INTO native_users (email, password_hash, first_name, last_name)
+         VALUES (?, ?, ?, ?)`,
+        ['applicant@test.com', 'hash', 'Casting', 'Applicant']
+      );
+      applicantId = applicant.lastInsertId;
+
+      // Joining through an approval link creates a pending member
       testDb.run(
-        `UPDATE native_projects SET invite_code = ?, invite_expires_at = ? WHERE id = ?`,
-        [inviteCode, expiresAt.toISOString(), testData.projectId]
+        `INSERT INTO native_project_members (project_id, user_id, role, status, invite_id)
+         VALUES (?, ?, ?, 'invited', ?)`,
+        [testData.projectId, applicantId, 'actor', invite.id]
       );
+    });
+
+    afterEach(() => {
+      testDb.run('DELETE FROM native_users WHERE id = ?', [applicantId]);
+    });
 
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
+    it('should keep pending members out of the member list', () => {
+      const members = testDb.all(
+        "SELECT user_id FROM native_project_members WHERE project_id = ? AND status = 'active'",
         [testData.projectId]
       );
 
-      expect(project.invite_code).toBe(inviteCode);
-      expect(project.invite_expires_at).toBeDefined();
+      expect(members.map(m => m.user_id)).not.toContain(applicantId);
     });
 
-    it('should not return expired invite', () => {
-      const inviteCode = crypto.randomBytes(16).toString('hex');
-      const expiredDate = new Date();
-      expiredDate.setDate(expiredDate.getDate() - 1);
+    it('should list join requests with the invite label', () => {
+      testDb.run('UPDATE native_project_invites SET label = ? WHERE id = ?', ['Casting call', invite.id]);
 
+      const requests = testDb.all(
+        `SELECT m.user_id, m.role, u.first_name, i.label AS invite_label
+         FROM native_project_members m
+         JOIN native_users u ON u.id = m.user_id
+         LEFT JOIN native_project_invites i ON i.id = m.invite_id
+         WHERE m.project_id = ? AND m.status = 'invited'`,
+        [testData.projectId]
+      );
+
+      expect(requests).toEqual([
+        { user_id: applicantId, role: 'actor', first_name: 'Casting', invite_label: 'Casting call' },
+      ]);
+    });
+
+    it('should ACTUALLY activate an approved member with the link role', () => {
       testDb.run(
-        `UPDATE native_projects SET invite_code = ?, invite_expires_at = ? WHERE id = ?`,
-        [inviteCode, expiredDate.toISOString(), testData.projectId]
+        "UPDATE native_project_members SET status = 'active' WHERE project_id = ? AND user_id = ? AND status = 'invited'",
+        [testData.projectId, applicantId]
       );
 
-      const project = testDb.get(
-        'SELECT * FROM native_projects WHERE id = ?',
-        [testData.projectId]
+      const membership = testDb.get(
+        'SELECT * FROM native_project_members WHERE project_id = ? AND user_id = ?',
+        [testData.projectId, applicantId]
+      );
+      expect(membership.status).toBe('active');
+      expect(membership.role).toBe('actor');
+    });
+
+    it('should decline a rejected request and give its place back', () => {
+      testDb.run(
+        "UPDATE native_project_members SET status = 'declined' WHERE project_id = ? AND user_id = ? AND status = 'invited'",
+        [testData.projectId, applicantId]
       );
+      testDb.run(
+        'UPDATE native_project_invites SET use_count = use_count - 1 WHERE id = ? AND use_count > 0',
+        [invite.id]
+      );
+
+      const membership = testDb.get(
+        'SELECT * FROM native_project_members WHERE project_id = ? AND user_id = ?',
+        [testData.projectId, applicantId]
+      );
+      const row = testDb.get('SELECT use_count FROM native_project_invites WHERE id = ?', [invite.id]);
 
-      // Invite exists in DB but is expired
-      expect(project.invite_code).toBe(inviteCode);
-      expect(new Date(project.invite_expires_at) < new Date()).toBe(true);
+      expect(membership.status).toBe('declined');
+      expect(row.use_count).toBe(0);
+    });
+
+    it('should keep the membership when its invite link is deleted', () => {
+      testDb.run('DELETE FROM native_project_invites WHERE id = ?', [invite.id]);
+
+      const membership = testDb.get(
+        'SELECT * FROM native_project_members WHERE project_id = ? AND user_id = ?',
+        [testData.projectId, applicantId]
+      );
+      expect(membership.invite_id).toBeNull();
     });
   });
 
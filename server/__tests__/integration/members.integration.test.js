@@ -0,0 +1,133 @@
+/**
+ * REAL Integration Tests for Project Members
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Call services/projects/memberService.js through the SQLite layer of db.js
+ * - Check that ownership transfer and removal keep nothing when they fail partway
+ */
+import { jest } from '@jest/globals';
+import {
+  setupIntegrationDb,
+  createServiceDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+
+const testDb = await setupIntegrationDb();
+const serviceDb = createServiceDb();
+
+jest.unstable_mockModule('../../database/db.js', () => ({
+  default: serviceDb,
+}));
+
+const {
+  transferOwnership,
+  removeMemberFromProject,
+} = await import('../../services/projects/memberService.js');
+
+let testData;
+
+describe('Project Members - REAL Integration Tests', () => {
+  const NOW = new Date('2025-12-10T12:00:00.000Z');
+  let upcomingId;
+
+  beforeAll(async () => {
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    testDb.run('DELETE FROM native_user_availability');
+    testDb.run('DELETE FROM native_rehearsal_responses');
+    testDb.run('DELETE FROM native_rehearsals');
+    testDb.run('DELETE FROM native_rsvp_follow_ups');
+    testDb.run(
+      "UPDATE native_project_members SET role = 'owner', status = 'active' WHERE user_id = ?",
+      [testData.adminId]
+    );
+    testDb.run(
+      "UPDATE native_project_members SET role = 'member', status = 'active' WHERE user_id = ?",
+      [testData.memberId]
+    );
+
+    upcomingId = testDb.run(
+      `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)`,
+      [testData.projectId, 'Upcoming', '2025-12-12T18:00:00.000Z', '2025-12-12T20:00:00.000Z']
+    ).lastInsertId;
+    testDb.run(
+      `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)`,
+      [upcomingId, testData.memberId, 'yes']
+    );
+    testDb.run(
+      `INSERT INTO native_user_availability (user_id, starts_at, ends_at, type, source, external_event_id)
+       VALUES (?, ?, ?, 'busy', 'rehearsal', ?)`,
+      [testData.memberId, '2025-12-12T18:00:00.000Z', '2025-12-12T20:00:00.000Z', String(upcomingId)]
+    );
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    closeIntegrationDb();
+  });
+
+  // Make the nth statement containing the given SQL fail, as if the connection dropped
+  const failOnNth = (sqlPart, n) => {
+    const original = serviceDb.run;
+    let calls = 0;
+    jest.spyOn(serviceDb, 'run').mockImplementation((sql, params) => {
+      if (sql.includes(sqlPart) && ++calls === n) {
+        throw new Error('Connection lost');
+      }
+      return original(sql, params);
+    });
+  };
+
+  const getMembership = (userId) =>
+    testDb.get(
+      'SELECT role, status FROM native_project_members WHERE project_id = ? AND user_id = ?',
+      [testData.projectId, userId]
+    );
+
+  const count = (table) => testDb.get(`SELECT COUNT(*) as count FROM ${table}`).count;
+
+  describe('transferOwnership', () => {
+    it('should make the member owner and keep the previous owner as admin', async () => {
+      await transferOwnership(testData.projectId, testData.adminId, testData.memberId);
+
+      expect(getMembership(testData.memberId).role).toBe('owner');
+      expect(getMembership(testData.adminId).role).toBe('admin');
+    });
+
+    it('should not leave two owners when the second role change fails', async () => {
+      failOnNth('UPDATE native_project_members SET role', 2);
+
+      await expect(transferOwnership(testData.projectId, testData.adminId, testData.memberId))
+        .rejects.toThrow('Connection lost');
+
+      expect(getMembership(testData.memberId).role).toBe('member');
+      expect(getMembership(testData.adminId).role).toBe('owner');
+    });
+  });
+
+  describe('removeMemberFromProject', () => {
+    it('should mark the member as left and uninvite them from upcoming rehearsals', async () => {
+      expect(await removeMemberFromProject(testData.projectId, testData.memberId, NOW)).toEqual([String(upcomingId)]);
+
+      expect(getMembership(testData.memberId).status).toBe('left');
+      expect(count('native_rehearsal_responses')).toBe(0);
+      expect(count('native_user_availability')).toBe(0);
+    });
+
+    it('should keep the member as they were when a cleanup step fails', async () => {
+      failOnNth('DELETE FROM native_rsvp_follow_ups', 1);
+
+      await expect(removeMemberFromProject(testData.projectId, testData.memberId, NOW))
+        .rejects.toThrow('Connection lost');
+
+      expect(getMembership(testData.memberId).status).toBe('active');
+      expect(count('native_rehearsal_responses')).toBe(1);
+      expect(count('native_user_availability')).toBe(1);
+    });
+  });
+});
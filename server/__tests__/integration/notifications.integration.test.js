@@ -0,0 +1,113 @@
+/**
+ * REAL Integration Tests for Push Notification Tokens
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute the queries of services/notifications/pushTokenService.js
+ * - Check which devices receive notifications
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+
+let testDb;
+let testData;
+
+describe('Push Tokens - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_push_tokens');
+    testDb.run('DELETE FROM native_user_sessions');
+    testDb.run('UPDATE native_users SET notifications_enabled = 1');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  const startSession = (userId) =>
+    testDb.run('INSERT INTO native_user_sessions (user_id, device_name) VALUES (?, ?)', [userId, 'Phone']).lastInsertId;
+
+  const registerToken = (userId, sessionId, token, platform = 'ios') => {
+    // Same statement as registerPushToken
+    testDb.run(
+      `INSERT INTO native_push_tokens (user_id, session_id, token, platform)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (token)
+       DO UPDATE SET user_id = excluded.user_id, session_id = excluded.session_id,
+                     platform = excluded.platform, updated_at = CURRENT_TIMESTAMP`,
+      [userId, sessionId, token, platform]
+    );
+  };
+
+  const getRecipients = (userIds) => {
+    // Same statement as getPushRecipients
+    return testDb.all(
+      `SELECT t.user_id, t.token, u.locale, u.timezone
+       FROM native_push_tokens t
+       JOIN native_users u ON u.id = t.user_id
+       LEFT JOIN native_user_sessions s ON s.id = t.session_id
+       WHERE t.user_id IN (${userIds.map(() => '?').join(',')})
+         AND u.notifications_enabled = TRUE
+         AND (t.session_id IS NULL OR s.revoked_at IS NULL)`,
+      userIds
+    );
+  };
+
+  it('should return the devices of the users with their language and timezone', () => {
+    registerToken(testData.memberId, startSession(testData.memberId), 'ExponentPushToken[member]');
+    registerToken(testData.adminId, startSession(testData.adminId), 'ExponentPushToken[admin]');
+
+    const recipients = getRecipients([testData.memberId]);
+
+    expect(recipients).toHaveLength(1);
+    expect(recipients[0]).toMatchObject({ user_id: testData.memberId, token: 'ExponentPushToken[member]' });
+    expect(recipients[0]).toHaveProperty('locale');
+    expect(recipients[0]).toHaveProperty('timezone');
+  });
+
+  it('should move a token to whoever signed in on the device last', () => {
+    registerToken(testData.memberId, startSession(testData.memberId), 'ExponentPushToken[shared]');
+    registerToken(testData.adminId, startSession(testData.adminId), 'ExponentPushToken[shared]', 'android');
+
+    expect(getRecipients([testData.memberId])).toHaveLength(0);
+    expect(getRecipients([testData.adminId])).toEqual([
+      expect.objectContaining({ token: 'ExponentPushToken[shared]' }),
+    ]);
+    expect(testDb.all('SELECT * FROM native_push_tokens')).toHaveLength(1);
+  });
+
+  it('should skip users who turned notifications off', () => {
+    registerToken(testData.memberId, startSession(testData.memberId), 'ExponentPushToken[member]');
+    testDb.run('UPDATE native_users SET notifications_enabled = 0 WHERE id = ?', [testData.memberId]);
+
+    expect(getRecipients([testData.memberId])).toHaveLength(0);
+  });
+
+  it('should skip devices whose session was revoked', () => {
+    const revoked = startSession(testData.memberId);
+    registerToken(testData.memberId, revoked, 'ExponentPushToken[old-phone]');
+    registerToken(testData.memberId, startSession(testData.memberId), 'ExponentPushToken[new-phone]');
+    testDb.run('UPDATE native_user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', [revoked]);
+
+    expect(getRecipients([testData.memberId]).map(r => r.token)).toEqual(['ExponentPushToken[new-phone]']);
+  });
+
+  it('should delete tokens together with the user', () => {
+    const user = testDb.run(
+      `INSERT INTO native_users (email, password_hash, first_name) VALUES (?, ?, ?)`,
+      ['gone@test.com', 'hash', 'Gone']
+    );
+    registerToken(user.lastInsertId, null, 'ExponentPushToken[gone]');
+
+    testDb.run('DELETE FROM native_users WHERE id = ?', [user.lastInsertId]);
+
+    expect(testDb.all('SELECT * FROM native_push_tokens')).toHaveLength(0);
+  });
+});
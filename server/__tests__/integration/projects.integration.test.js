@@ -14,6 +14,7 @@ import {
   closeIntegrationDb,
   seedTestData,
 } from './setup.js';
+import { parseWorkingHours } from '../../utils/workingHours.js';
 
 let testDb;
 let testData;
@@ -241,6 +242,25 @@ describe('Projects API - REAL Integration Tests', () => {
 
       expect(projects).toEqual([]);
     });
+
+    it('should split active and archived projects', () => {
+      testDb.run(
+        "UPDATE native_projects SET archived_at = ? WHERE name = 'Project Beta'",
+        ['2025-12-01T00:00:00.000Z']
+      );
+
+      const listProjects = (archived) => testDb.all(
+        `SELECT p.name
+         FROM native_projects p
+         INNER JOIN native_project_members pm ON p.id = pm.project_id
+         WHERE pm.user_id = ? AND pm.status = 'active'
+           AND p.archived_at IS ${archived ? 'NOT NULL' : 'NULL'}`,
+        [testData.adminId]
+      );
+
+      expect(listProjects(false).map(p => p.name)).not.toContain('Project Beta');
+      expect(listProjects(true).map(p => p.name)).toEqual(['Project Beta']);
+    });
   });
 
   describe('getProject - REAL DATABASE QUERY', () => {
@@ -337,6 +357,56 @@ describe('Projects API - REAL Integration Tests', () => {
 
       expect(membership).toBeUndefined();
     });
+
+    it('should store and reset working hours', () => {
+      const workingHours = {
+        monday: { start: '11:00', end: '23:00' },
+        sunday: { start: '09:00', end: '18:00' },
+        saturday: null,
+      };
+
+      testDb.run(
+        'UPDATE native_projects SET working_hours = ? WHERE id = ?',
+        [JSON.stringify(workingHours), testData.projectId]
+      );
+
+      let project = testDb.get('SELECT * FROM native_projects WHERE id = ?', [testData.projectId]);
+      expect(parseWorkingHours(project.working_hours)).toEqual(workingHours);
+
+      testDb.run(
+        'UPDATE native_projects SET working_hours = ? WHERE id = ?',
+        [null, testData.projectId]
+      );
+
+      project = testDb.get('SELECT * FROM native_projects WHERE id = ?', [testData.projectId]);
+      expect(parseWorkingHours(project.working_hours)).toBeNull();
+    });
+
+    it('should archive a project, revoke its invite links and restore it', () => {
+      testDb.run(
+        'INSERT INTO native_project_invites (project_id, code, expires_at) VALUES (?, ?, ?)',
+        [testData.projectId, 'archive-code', '2025-12-31T00:00:00.000Z']
+      );
+
+      testDb.run(
+        'UPDATE native_projects SET archived_at = COALESCE(archived_at, ?) WHERE id = ?',
+        ['2025-12-10T12:00:00.000Z', testData.projectId]
+      );
+      testDb.run(
+        'UPDATE native_project_invites SET revoked_at = ? WHERE project_id = ? AND revoked_at IS NULL',
+        ['2025-12-10T12:00:00.000Z', testData.projectId]
+      );
+
+      let project = testDb.get('SELECT * FROM native_projects WHERE id = ?', [testData.projectId]);
+      expect(project.archived_at).toBe('2025-12-10T12:00:00.000Z');
+      const invite = testDb.get('SELECT * FROM native_project_invites WHERE code = ?', ['archive-code']);
+      expect(invite.revoked_at).toBe('2025-12-10T12:00:00.000Z');
+
+      testDb.run('UPDATE native_projects SET archived_at = NULL WHERE id = ?', [testData.projectId]);
+
+      project = testDb.get('SELECT * FROM native_projects WHERE id = ?', [testData.projectId]);
+      expect(project.archived_at).toBeNull();
+    });
   });
 
   describe('deleteProject - REAL DATABASE DELETE', () => {
@@ -404,6 +474,33 @@ describe('Projects API - REAL Integration Tests', () => {
       expect(rehearsals).toHaveLength(0);
     });
 
+    it('should remove the busy slots of the project rehearsals before deleting', () => {
+      const rehearsal = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at)
+         VALUES (?, ?, ?, ?)`,
+        [testData.projectId, 'Test Rehearsal', '2025-12-25T10:00:00Z', '2025-12-25T12:00:00Z']
+      );
+      testDb.run(
+        `INSERT INTO native_user_availability (user_id, starts_at, ends_at, type, source, external_event_id)
+         VALUES (?, ?, ?, 'busy', 'rehearsal', ?)`,
+        [testData.memberId, '2025-12-25T10:00:00Z', '2025-12-25T12:00:00Z', String(rehearsal.lastInsertId)]
+      );
+
+      testDb.run(
+        `DELETE FROM native_user_availability
+         WHERE source = ?
+           AND external_event_id IN (SELECT CAST(id AS TEXT) FROM native_rehearsals WHERE project_id = ?)`,
+        ['rehearsal', testData.projectId]
+      );
+      testDb.run('DELETE FROM native_projects WHERE id = ?', [testData.projectId]);
+
+      const slots = testDb.all(
+        "SELECT * FROM native_user_availability WHERE source = 'rehearsal' AND external_event_id = ?",
+        [String(rehearsal.lastInsertId)]
+      );
+      expect(slots).toHaveLength(0);
+    });
+
     it('should only allow owner to delete (strict permission check)', () => {
       // Check if user is owner
       const membership = testDb.get(
@@ -465,6 +562,102 @@ describe('Projects API - REAL Integration Tests', () => {
     });
   });
 
+  describe('removeMemberFromProject - REAL DATABASE CLEANUP', () => {
+    const NOW = '2025-12-10T12:00:00.000Z';
+    let pastId;
+    let upcomingId;
+
+    beforeEach(() => {
+      testDb.run('DELETE FROM native_user_availability');
+      testDb.run('DELETE FROM native_rsvp_follow_ups');
+
+      pastId = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)`,
+        [testData.projectId, 'Past', '2025-12-08T18:00:00.000Z', '2025-12-08T20:00:00.000Z']
+      ).lastInsertId;
+      upcomingId = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)`,
+        [testData.projectId, 'Upcoming', '2025-12-12T18:00:00.000Z', '2025-12-12T20:00:00.000Z']
+      ).lastInsertId;
+
+      for (const rehearsalId of [pastId, upcomingId]) {
+        testDb.run(
+          `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)`,
+          [rehearsalId, testData.memberId, 'yes']
+        );
+        testDb.run(
+          `INSERT INTO native_user_availability (user_id, starts_at, ends_at, type, source, external_event_id)
+           VALUES (?, ?, ?, 'busy', 'rehearsal', ?)`,
+          [testData.memberId, '2025-12-12T18:00:00.000Z', '2025-12-12T20:00:00.000Z', String(rehearsalId)]
+        );
+      }
+    });
+
+    it('should keep past RSVPs and delete upcoming RSVP rows and busy slots', () => {
+      testDb.run(
+        "UPDATE native_project_members SET status = 'left' WHERE project_id = ? AND user_id = ?",
+        [testData.projectId, testData.memberId]
+      );
+
+      const upcoming = testDb.all(
+        `SELECT r.id
+         FROM native_rehearsals r
+         JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+         WHERE r.project_id = ? AND rr.user_id = ? AND r.starts_at > ?`,
+        [testData.projectId, testData.memberId, NOW]
+      );
+      const rehearsalIds = upcoming.map(row => String(row.id));
+      expect(rehearsalIds).toEqual([String(upcomingId)]);
+
+      const placeholders = rehearsalIds.map(() => '?').join(',');
+      testDb.run(
+        `DELETE FROM native_rehearsal_responses WHERE user_id = ? AND rehearsal_id IN (${placeholders})`,
+        [testData.memberId, ...rehearsalIds]
+      );
+      testDb.run(
+        `DELETE FROM native_user_availability
+         WHERE user_id = ? AND source = ? AND external_event_id IN (${placeholders})`,
+        [testData.memberId, 'rehearsal', ...rehearsalIds]
+      );
+
+      const responses = testDb.all(
+        'SELECT rehearsal_id FROM native_rehearsal_responses WHERE user_id = ?',
+        [testData.memberId]
+      );
+      expect(responses.map(r => r.rehearsal_id)).toEqual([pastId]);
+
+      const slots = testDb.all(
+        'SELECT external_event_id FROM native_user_availability WHERE user_id = ?',
+        [testData.memberId]
+      );
+      expect(slots.map(s => s.external_event_id)).toEqual([String(pastId)]);
+
+      const membership = testDb.get(
+        'SELECT status FROM native_project_members WHERE project_id = ? AND user_id = ?',
+        [testData.projectId, testData.memberId]
+      );
+      expect(membership.status).toBe('left');
+    });
+
+    it('should reactivate a former member as a plain member', () => {
+      testDb.run(
+        "UPDATE native_project_members SET status = 'left', role = 'admin' WHERE project_id = ? AND user_id = ?",
+        [testData.projectId, testData.memberId]
+      );
+
+      testDb.run(
+        "UPDATE native_project_members SET status = 'active', role = 'member' WHERE project_id = ? AND user_id = ?",
+        [testData.projectId, testData.memberId]
+      );
+
+      const membership = testDb.get(
+        'SELECT role, status FROM native_project_members WHERE project_id = ? AND user_id = ?',
+        [testData.projectId, testData.memberId]
+      );
+      expect(membership).toEqual({ role: 'member', status: 'active' });
+    });
+  });
+
   describe('UNIQUE constraint on (project_id, user_id)', () => {
     it('should enforce UNIQUE constraint', () => {
       expect(() => {
@@ -486,4 +486,48 @@ describe('Rehearsal Service - REAL Integration Tests', () => {
       expect(r2Response.notes).toBe('Member response 2');
     });
   });
+
+  describe('getRehearsalsForProjects includeUninvited - REAL LEFT JOIN', () => {
+    let invitedId;
+    let uninvitedId;
+
+    // Same filter as getRehearsalsForProjects with includeUninvited for an administered project
+    const fetchForUser = (userId, adminProjectIds) => testDb.all(
+      `SELECT r.id, ur.response as user_response
+       FROM native_rehearsals r
+       LEFT JOIN native_rehearsal_responses ur ON r.id = ur.rehearsal_id AND ur.user_id = ?
+       WHERE r.project_id IN (?)
+       AND (ur.user_id IS NOT NULL${adminProjectIds.length > 0 ? ' OR r.project_id IN (?)' : ''})
+       ORDER BY r.starts_at DESC`,
+      [userId, testData.projectId, ...adminProjectIds]
+    );
+
+    beforeEach(() => {
+      invitedId = testDb.run(
+        'INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)',
+        [testData.projectId, 'Invited', '2025-12-01T18:00:00.000Z', '2025-12-01T21:00:00.000Z']
+      ).lastInsertId;
+      uninvitedId = testDb.run(
+        'INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at) VALUES (?, ?, ?, ?)',
+        [testData.projectId, 'Uninvited', '2025-12-02T18:00:00.000Z', '2025-12-02T21:00:00.000Z']
+      ).lastInsertId;
+      testDb.run(
+        'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+        [invitedId, testData.adminId, 'no']
+      );
+    });
+
+    it('should only return invited rehearsals by default', () => {
+      const rows = fetchForUser(testData.adminId, []);
+
+      expect(rows.map(r => r.id)).toEqual([invitedId]);
+    });
+
+    it('should ACTUALLY return every rehearsal of administered projects', () => {
+      const rows = fetchForUser(testData.adminId, [testData.projectId]);
+
+      expect(rows.map(r => r.id)).toEqual([uninvitedId, invitedId]);
+      expect(rows[0].user_response).toBeNull();
+    });
+  });
 });
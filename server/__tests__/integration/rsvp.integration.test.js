@@ -175,6 +175,51 @@ describe('RSVP Service - REAL Integration Tests', () => {
       expect(invited).toBe(0); // All responded
     });
 
+    it('should ACTUALLY store maybe with a reason and count it separately', () => {
+      testDb.run(
+        `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response)
+         VALUES (?, ?, ?)`,
+        [rehearsalId, testData.adminId, 'yes']
+      );
+
+      testDb.run(
+        `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response, notes)
+         VALUES (?, ?, ?, ?)`,
+        [rehearsalId, testData.memberId, 'maybe', 'Waiting for my work schedule']
+      );
+
+      const response = testDb.get(
+        'SELECT * FROM native_rehearsal_responses WHERE rehearsal_id = ? AND user_id = ?',
+        [rehearsalId, testData.memberId]
+      );
+      expect(response.response).toBe('maybe');
+      expect(response.notes).toBe('Waiting for my work schedule');
+
+      const stats = testDb.get(
+        `SELECT
+           COUNT(*) as total_responses,
+           COUNT(CASE WHEN response = 'yes' THEN 1 END) as confirmed,
+           COUNT(CASE WHEN response = 'maybe' THEN 1 END) as maybe
+         FROM native_rehearsal_responses
+         WHERE rehearsal_id = ?`,
+        [rehearsalId]
+      );
+
+      expect(stats.confirmed).toBe(1);
+      expect(stats.maybe).toBe(1);
+      expect(stats.total_responses).toBe(2);
+    });
+
+    it('should reject unknown response values', () => {
+      expect(() => {
+        testDb.run(
+          `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response)
+           VALUES (?, ?, ?)`,
+          [rehearsalId, testData.adminId, 'later']
+        );
+      }).toThrow(/CHECK constraint failed/);
+    });
+
     it('should enforce UNIQUE constraint on (rehearsal_id, user_id)', () => {
       const userId = testData.adminId;
 
@@ -292,6 +337,57 @@ describe('RSVP Service - REAL Integration Tests', () => {
     });
   });
 
+  describe('getRehearsalParticipantNames - REAL DATABASE QUERY', () => {
+    const addRehearsal = (projectId) => testDb.run(
+      `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at)
+       VALUES (?, ?, ?, ?)`,
+      [projectId, 'Test', '2025-12-25T10:00:00Z', '2025-12-25T12:00:00Z']
+    ).lastInsertId;
+
+    const invite = (rehearsalId, userId) => testDb.run(
+      'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+      [rehearsalId, userId, 'no']
+    );
+
+    // Same statement as getRehearsalParticipantNames
+    const getNames = (rehearsalIds, userId) => testDb.all(
+      `SELECT r.rehearsal_id, u.first_name, u.last_name
+       FROM native_rehearsal_responses r
+       JOIN native_users u ON r.user_id = u.id
+       JOIN native_rehearsals nr ON nr.id = r.rehearsal_id
+       JOIN native_project_members pm ON pm.project_id = nr.project_id AND pm.user_id = ? AND pm.status = 'active'
+       WHERE r.rehearsal_id IN (${rehearsalIds.map(() => '?').join(',')})
+       ORDER BY u.first_name, u.last_name`,
+      [userId, ...rehearsalIds]
+    );
+
+    it('should ACTUALLY load the participants of several rehearsals in one query', () => {
+      const first = addRehearsal(testData.projectId);
+      const second = addRehearsal(testData.projectId);
+      invite(first, testData.memberId);
+      invite(first, testData.adminId);
+      invite(second, testData.memberId);
+
+      const rows = getNames([first, second], testData.memberId);
+
+      expect(rows.filter(r => r.rehearsal_id === first).map(r => r.first_name)).toEqual(['Admin', 'Member']);
+      expect(rows.filter(r => r.rehearsal_id === second).map(r => r.first_name)).toEqual(['Member']);
+    });
+
+    it('should leave out rehearsals of projects the user is not a member of', () => {
+      const otherProject = testDb.run(
+        'INSERT INTO native_projects (name, description) VALUES (?, ?)',
+        ['Other Project', 'Not shared']
+      ).lastInsertId;
+      const rehearsalId = addRehearsal(otherProject);
+      invite(rehearsalId, testData.adminId);
+
+      expect(getNames([rehearsalId], testData.memberId)).toEqual([]);
+
+      testDb.run('DELETE FROM native_projects WHERE id = ?', [otherProject]);
+    });
+  });
+
   describe('getUserResponse - REAL DATABASE QUERY', () => {
     let rehearsalId;
 
@@ -336,4 +432,184 @@ describe('RSVP Service - REAL Integration Tests', () => {
       expect(response).toBeUndefined();
     });
   });
+
+  describe('RSVP follow-ups - REAL DATABASE QUERY', () => {
+    const NOW = '2025-12-20T12:00:00.000Z';
+    let rehearsalId;
+
+    // Same condition as refreshRsvpFollowUps (SQLite parameter syntax)
+    const refreshFollowUps = () => {
+      testDb.run(
+        `INSERT INTO native_rsvp_follow_ups (project_id, rehearsal_id, user_id, detected_at)
+         SELECT r.project_id, r.id, rr.user_id, ?
+         FROM native_rehearsals r
+         JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+         WHERE r.respond_by IS NOT NULL AND r.respond_by <= ? AND r.starts_at > ?
+           AND (rr.response IS NULL OR rr.response NOT IN ('yes', 'maybe'))
+         ON CONFLICT (rehearsal_id, user_id) DO NOTHING`,
+        [NOW, NOW, NOW]
+      );
+      testDb.run(
+        `DELETE FROM native_rsvp_follow_ups
+         WHERE NOT EXISTS (
+           SELECT 1
+           FROM native_rehearsals r
+           JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+           WHERE r.id = native_rsvp_follow_ups.rehearsal_id
+             AND rr.user_id = native_rsvp_follow_ups.user_id
+             AND r.respond_by IS NOT NULL AND r.respond_by <= ? AND r.starts_at > ?
+             AND (rr.response IS NULL OR rr.response NOT IN ('yes', 'maybe'))
+         )`,
+        [NOW, NOW]
+      );
+      return testDb.all('SELECT * FROM native_rsvp_follow_ups ORDER BY user_id');
+    };
+
+    beforeEach(() => {
+      testDb.run('DELETE FROM native_rsvp_follow_ups');
+      const result = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at, respond_by)
+         VALUES (?, ?, ?, ?, ?)`,
+        [testData.projectId, 'Test', '2025-12-25T10:00:00.000Z', '2025-12-25T12:00:00.000Z', '2025-12-19T12:00:00.000Z']
+      );
+      rehearsalId = result.lastInsertId;
+
+      // Both invited, only the admin answered
+      testDb.run(
+        'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+        [rehearsalId, testData.adminId, 'yes']
+      );
+      testDb.run(
+        'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+        [rehearsalId, testData.memberId, 'no']
+      );
+    });
+
+    it('should ACTUALLY list invited members without an answer after the deadline', () => {
+      const followUps = refreshFollowUps();
+
+      expect(followUps).toHaveLength(1);
+      expect(followUps[0].user_id).toBe(testData.memberId);
+      expect(followUps[0].project_id).toBe(testData.projectId);
+      expect(followUps[0].detected_at).toBe(NOW);
+    });
+
+    it('should keep the contacted mark when refreshed again', () => {
+      refreshFollowUps();
+      testDb.run(
+        'UPDATE native_rsvp_follow_ups SET contacted_at = ?, contacted_by = ?',
+        [NOW, testData.adminId]
+      );
+
+      const followUps = refreshFollowUps();
+
+      expect(followUps).toHaveLength(1);
+      expect(followUps[0].contacted_at).toBe(NOW);
+    });
+
+    it('should remove members once they answer maybe', () => {
+      refreshFollowUps();
+      testDb.run(
+        'UPDATE native_rehearsal_responses SET response = ? WHERE rehearsal_id = ? AND user_id = ?',
+        ['maybe', rehearsalId, testData.memberId]
+      );
+
+      expect(refreshFollowUps()).toEqual([]);
+    });
+
+    it('should ignore rehearsals whose deadline has not passed or that have started', () => {
+      testDb.run('UPDATE native_rehearsals SET respond_by = ? WHERE id = ?', ['2025-12-21T12:00:00.000Z', rehearsalId]);
+      expect(refreshFollowUps()).toEqual([]);
+
+      testDb.run(
+        'UPDATE native_rehearsals SET respond_by = ?, starts_at = ? WHERE id = ?',
+        ['2025-12-18T12:00:00.000Z', '2025-12-20T10:00:00.000Z', rehearsalId]
+      );
+      expect(refreshFollowUps()).toEqual([]);
+    });
+
+    it('should CASCADE delete follow-ups when the rehearsal is deleted', () => {
+      refreshFollowUps();
+      testDb.run('DELETE FROM native_rehearsal_responses WHERE rehearsal_id = ?', [rehearsalId]);
+      testDb.run('DELETE FROM native_rehearsals WHERE id = ?', [rehearsalId]);
+
+      const followUps = testDb.all('SELECT * FROM native_rsvp_follow_ups');
+      expect(followUps).toEqual([]);
+    });
+  });
+
+  describe('Attendance - REAL DATABASE QUERY', () => {
+    let rehearsalId;
+
+    // Same upsert as setRehearsalAttendance (SQLite parameter syntax)
+    const markAttendance = (userId, status, lateMinutes = null) => {
+      testDb.run(
+        `INSERT INTO native_rehearsal_attendance (rehearsal_id, user_id, status, late_minutes, marked_by)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (rehearsal_id, user_id)
+         DO UPDATE SET status = excluded.status, late_minutes = excluded.late_minutes, marked_by = excluded.marked_by`,
+        [rehearsalId, userId, status, lateMinutes, testData.adminId]
+      );
+    };
+
+    beforeEach(() => {
+      testDb.run('DELETE FROM native_rehearsal_attendance');
+      const result = testDb.run(
+        `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at)
+         VALUES (?, ?, ?, ?)`,
+        [testData.projectId, 'Test', '2025-12-25T10:00:00.000Z', '2025-12-25T12:00:00.000Z']
+      );
+      rehearsalId = result.lastInsertId;
+
+      testDb.run(
+        'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+        [rehearsalId, testData.adminId, 'yes']
+      );
+      testDb.run(
+        'INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response) VALUES (?, ?, ?)',
+        [rehearsalId, testData.memberId, 'yes']
+      );
+    });
+
+    it('should ACTUALLY list every invited participant with their attendance', () => {
+      markAttendance(testData.memberId, 'late', 15);
+
+      const rows = testDb.all(
+        `SELECT r.user_id, a.status, a.late_minutes
+         FROM native_rehearsal_responses r
+         LEFT JOIN native_rehearsal_attendance a ON a.rehearsal_id = r.rehearsal_id AND a.user_id = r.user_id
+         WHERE r.rehearsal_id = ?
+         ORDER BY r.user_id`,
+        [rehearsalId]
+      );
+
+      expect(rows).toEqual([
+        { user_id: testData.adminId, status: null, late_minutes: null },
+        { user_id: testData.memberId, status: 'late', late_minutes: 15 },
+      ]);
+    });
+
+    it('should overwrite an earlier mark (UPSERT)', () => {
+      markAttendance(testData.memberId, 'late', 15);
+      markAttendance(testData.memberId, 'present');
+
+      const records = testDb.all('SELECT * FROM native_rehearsal_attendance');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].status).toBe('present');
+      expect(records[0].late_minutes).toBeNull();
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(() => markAttendance(testData.memberId, 'excused')).toThrow();
+    });
+
+    it('should CASCADE delete attendance when the rehearsal is deleted', () => {
+      markAttendance(testData.memberId, 'absent');
+
+      testDb.run('DELETE FROM native_rehearsals WHERE id = ?', [rehearsalId]);
+
+      expect(testDb.all('SELECT * FROM native_rehearsal_attendance')).toEqual([]);
+    });
+  });
 });
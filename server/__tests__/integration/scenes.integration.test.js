@@ -0,0 +1,136 @@
+/**
+ * REAL Integration Tests for Scene Breakdown
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute REAL SQL queries against scene, scene member and rehearsal scene tables
+ * - Verify cascades that keep scene links consistent
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+
+let testDb;
+let testData;
+
+describe('Scene Breakdown - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_rehearsal_scenes');
+    testDb.run('DELETE FROM native_scene_members');
+    testDb.run('DELETE FROM native_project_scenes');
+    testDb.run('DELETE FROM native_rehearsals');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  function createScene(name, position = 0) {
+    return testDb.run(
+      'INSERT INTO native_project_scenes (project_id, name, position) VALUES (?, ?, ?)',
+      [testData.projectId, name, position]
+    ).lastInsertId;
+  }
+
+  function createRehearsal() {
+    return testDb.run(
+      `INSERT INTO native_rehearsals (project_id, title, starts_at, ends_at)
+       VALUES (?, ?, ?, ?)`,
+      [testData.projectId, 'Scene work', '2025-12-29T18:00:00.000Z', '2025-12-29T21:00:00.000Z']
+    ).lastInsertId;
+  }
+
+  describe('scenes and members', () => {
+    it('should list scenes ordered by position', () => {
+      createScene('Act 2', 2);
+      createScene('Act 1', 1);
+
+      const scenes = testDb.all(
+        'SELECT * FROM native_project_scenes WHERE project_id = ? ORDER BY position ASC, id ASC',
+        [testData.projectId]
+      );
+
+      expect(scenes.map(s => s.name)).toEqual(['Act 1', 'Act 2']);
+    });
+
+    it('should link members to a scene', () => {
+      const sceneId = createScene('Balcony');
+      testDb.run('INSERT INTO native_scene_members (scene_id, user_id) VALUES (?, ?)', [sceneId, testData.adminId]);
+      testDb.run('INSERT INTO native_scene_members (scene_id, user_id) VALUES (?, ?)', [sceneId, testData.memberId]);
+
+      const members = testDb.all(
+        'SELECT user_id FROM native_scene_members WHERE scene_id = ? ORDER BY user_id',
+        [sceneId]
+      );
+
+      expect(members.map(m => m.user_id)).toEqual([testData.adminId, testData.memberId]);
+    });
+
+    it('should not link the same member twice', () => {
+      const sceneId = createScene('Balcony');
+      testDb.run('INSERT INTO native_scene_members (scene_id, user_id) VALUES (?, ?)', [sceneId, testData.adminId]);
+
+      expect(() => {
+        testDb.run('INSERT INTO native_scene_members (scene_id, user_id) VALUES (?, ?)', [sceneId, testData.adminId]);
+      }).toThrow(/UNIQUE constraint failed|PRIMARY KEY/);
+    });
+
+    it('should remove member links when scene is deleted', () => {
+      const sceneId = createScene('Balcony');
+      testDb.run('INSERT INTO native_scene_members (scene_id, user_id) VALUES (?, ?)', [sceneId, testData.adminId]);
+
+      testDb.run('DELETE FROM native_project_scenes WHERE id = ?', [sceneId]);
+
+      const members = testDb.all('SELECT * FROM native_scene_members WHERE scene_id = ?', [sceneId]);
+      expect(members).toEqual([]);
+    });
+  });
+
+  describe('rehearsal scenes', () => {
+    it('should return scenes of rehearsals in one query', () => {
+      const first = createScene('Act 1', 1);
+      const second = createScene('Act 2', 2);
+      const rehearsalId = createRehearsal();
+
+      testDb.run('INSERT INTO native_rehearsal_scenes (rehearsal_id, scene_id) VALUES (?, ?)', [rehearsalId, second]);
+      testDb.run('INSERT INTO native_rehearsal_scenes (rehearsal_id, scene_id) VALUES (?, ?)', [rehearsalId, first]);
+
+      const rows = testDb.all(
+        `SELECT rs.rehearsal_id, s.id, s.name
+         FROM native_rehearsal_scenes rs
+         JOIN native_project_scenes s ON s.id = rs.scene_id
+         WHERE rs.rehearsal_id IN (?)
+         ORDER BY s.position ASC, s.id ASC`,
+        [rehearsalId]
+      );
+
+      expect(rows.map(r => r.name)).toEqual(['Act 1', 'Act 2']);
+    });
+
+    it('should remove scene links when rehearsal is deleted', () => {
+      const sceneId = createScene('Act 1');
+      const rehearsalId = createRehearsal();
+      testDb.run('INSERT INTO native_rehearsal_scenes (rehearsal_id, scene_id) VALUES (?, ?)', [rehearsalId, sceneId]);
+
+      testDb.run('DELETE FROM native_rehearsals WHERE id = ?', [rehearsalId]);
+
+      const links = testDb.all('SELECT * FROM native_rehearsal_scenes WHERE scene_id = ?', [sceneId]);
+      expect(links).toEqual([]);
+    });
+
+    it('should reject links to missing scenes', () => {
+      const rehearsalId = createRehearsal();
+
+      expect(() => {
+        testDb.run('INSERT INTO native_rehearsal_scenes (rehearsal_id, scene_id) VALUES (?, ?)', [rehearsalId, 999999]);
+      }).toThrow(/FOREIGN KEY constraint failed/);
+    });
+  });
+});
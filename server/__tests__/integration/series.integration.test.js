@@ -0,0 +1,271 @@
+/**
+ * REAL Integration Tests for Rehearsal Series
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Call services/rehearsals/seriesService.js through the SQLite layer of db.js
+ * - Check every edit/delete scope and that a failure partway keeps nothing
+ */
+import { jest } from '@jest/globals';
+import {
+  setupIntegrationDb,
+  createServiceDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+
+const testDb = await setupIntegrationDb();
+const serviceDb = createServiceDb();
+
+jest.unstable_mockModule('../../database/db.js', () => ({
+  default: serviceDb,
+}));
+
+const {
+  createRehearsalSeries,
+  updateRehearsalSeries,
+  deleteRehearsalSeries,
+} = await import('../../services/rehearsals/seriesService.js');
+
+let testData;
+
+describe('Rehearsal Series - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    testDb.run('DELETE FROM native_user_availability');
+    testDb.run('DELETE FROM native_rehearsal_responses');
+    testDb.run('DELETE FROM native_rehearsals');
+    testDb.run('DELETE FROM native_rehearsal_series');
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    closeIntegrationDb();
+  });
+
+  // Mondays 19:00-21:00 UTC, answers due a day before
+  const FIRST_START = '2026-11-02T19:00:00.000Z';
+  const FIRST_END = '2026-11-02T21:00:00.000Z';
+  const FIRST_RESPOND_BY = '2026-11-01T19:00:00.000Z';
+
+  const createSeries = (count = 4) =>
+    createRehearsalSeries(testData.projectId, testData.adminId, {
+      startsAt: FIRST_START,
+      endsAt: FIRST_END,
+      location: 'Main hall',
+      respondBy: FIRST_RESPOND_BY,
+      participant_ids: [testData.memberId],
+      recurrence: { frequency: 'weekly', count },
+    });
+
+  // Make the nth statement containing the given SQL fail, as if the connection dropped
+  const failOnNth = (method, sqlPart, n) => {
+    const original = serviceDb[method];
+    let calls = 0;
+    jest.spyOn(serviceDb, method).mockImplementation((sql, params) => {
+      if (sql.includes(sqlPart) && ++calls === n) {
+        throw new Error('Connection lost');
+      }
+      return original(sql, params);
+    });
+  };
+
+  const getRehearsal = (id) =>
+    testDb.get('SELECT * FROM native_rehearsals WHERE id = ?', [id]);
+
+  const getStarts = (seriesId) =>
+    testDb.all('SELECT starts_at FROM native_rehearsals WHERE series_id = ? ORDER BY starts_at ASC', [seriesId])
+      .map(r => r.starts_at);
+
+  const count = (table) => testDb.get(`SELECT COUNT(*) as count FROM ${table}`).count;
+
+  describe('createRehearsalSeries', () => {
+    it('should create one rehearsal per occurrence linked to the series', async () => {
+      const { series, rehearsals } = await createSeries();
+
+      expect(rehearsals).toHaveLength(4);
+      expect(getStarts(series.id)).toEqual([
+        '2026-11-02T19:00:00.000Z',
+        '2026-11-09T19:00:00.000Z',
+        '2026-11-16T19:00:00.000Z',
+        '2026-11-23T19:00:00.000Z',
+      ]);
+      // Every occurrence keeps the day of lead time
+      expect(rehearsals[3].respondBy).toBe('2026-11-22T19:00:00.000Z');
+      expect(count('native_rehearsal_responses')).toBe(4);
+      expect(count('native_user_availability')).toBe(4);
+    });
+
+    it('should keep nothing when an occurrence fails partway', async () => {
+      failOnNth('get', 'INSERT INTO native_rehearsals', 3);
+
+      await expect(createSeries()).rejects.toThrow('Connection lost');
+
+      expect(count('native_rehearsals')).toBe(0);
+      expect(count('native_rehearsal_series')).toBe(0);
+      expect(count('native_rehearsal_responses')).toBe(0);
+      expect(count('native_user_availability')).toBe(0);
+    });
+  });
+
+  describe('updateRehearsalSeries', () => {
+    it('should change only the occurrence and mark it as an exception', async () => {
+      const { series, rehearsals } = await createSeries();
+
+      await updateRehearsalSeries(getRehearsal(rehearsals[1].id), testData.projectId, 'occurrence', {
+        startsAt: '2026-11-10T18:00:00.000Z',
+        endsAt: '2026-11-10T20:00:00.000Z',
+        location: 'Studio B',
+      });
+
+      expect(getRehearsal(rehearsals[1].id)).toMatchObject({
+        starts_at: '2026-11-10T18:00:00.000Z',
+        location: 'Studio B',
+        is_series_exception: 1,
+      });
+      expect(getStarts(series.id)).toEqual([
+        '2026-11-02T19:00:00.000Z',
+        '2026-11-10T18:00:00.000Z',
+        '2026-11-16T19:00:00.000Z',
+        '2026-11-23T19:00:00.000Z',
+      ]);
+      expect(getRehearsal(rehearsals[2].id).location).toBe('Main hall');
+    });
+
+    it('should move this and the following occurrences when editing from the middle', async () => {
+      const { rehearsals } = await createSeries();
+      // Moved to Thursday on its own earlier
+      await updateRehearsalSeries(getRehearsal(rehearsals[3].id), testData.projectId, 'occurrence', {
+        startsAt: '2026-11-26T19:00:00.000Z',
+        endsAt: '2026-11-26T21:00:00.000Z',
+        location: 'Main hall',
+      });
+
+      // Second occurrence: Monday 19:00 -> Tuesday 18:00, now 3 hours
+      const updated = await updateRehearsalSeries(getRehearsal(rehearsals[1].id), testData.projectId, 'following', {
+        startsAt: '2026-11-10T18:00:00.000Z',
+        endsAt: '2026-11-10T21:00:00.000Z',
+        location: 'Studio B',
+      });
+
+      expect(updated.map(r => r.id)).toEqual([rehearsals[1].id, rehearsals[2].id]);
+      expect(getRehearsal(rehearsals[0].id)).toMatchObject({ starts_at: '2026-11-02T19:00:00.000Z', location: 'Main hall' });
+      expect(getRehearsal(rehearsals[2].id)).toMatchObject({
+        starts_at: '2026-11-17T18:00:00.000Z',
+        ends_at: '2026-11-17T21:00:00.000Z',
+        location: 'Studio B',
+      });
+      // Edited individually before: left untouched
+      expect(getRehearsal(rehearsals[3].id)).toMatchObject({ starts_at: '2026-11-26T19:00:00.000Z', is_series_exception: 1 });
+    });
+
+    it('should move the whole series, earlier occurrences included', async () => {
+      const { series, rehearsals } = await createSeries(3);
+      await updateRehearsalSeries(getRehearsal(rehearsals[2].id), testData.projectId, 'occurrence', {
+        startsAt: '2026-11-16T17:00:00.000Z',
+        endsAt: '2026-11-16T19:00:00.000Z',
+        location: 'Main hall',
+      });
+
+      // Editing the exception itself through the series brings it back into the series
+      await updateRehearsalSeries(getRehearsal(rehearsals[2].id), testData.projectId, 'series', {
+        startsAt: '2026-11-16T20:00:00.000Z',
+        endsAt: '2026-11-16T22:00:00.000Z',
+        location: 'Main hall',
+      });
+
+      expect(getStarts(series.id)).toEqual([
+        '2026-11-02T20:00:00.000Z',
+        '2026-11-09T20:00:00.000Z',
+        '2026-11-16T20:00:00.000Z',
+      ]);
+      expect(getRehearsal(rehearsals[2].id).is_series_exception).toBe(0);
+    });
+
+    it('should leave every occurrence as it was when an update fails partway', async () => {
+      const { series, rehearsals } = await createSeries();
+      failOnNth('get', 'UPDATE native_rehearsals', 3);
+
+      await expect(updateRehearsalSeries(getRehearsal(rehearsals[0].id), testData.projectId, 'series', {
+        startsAt: '2026-11-03T19:00:00.000Z',
+        endsAt: '2026-11-03T21:00:00.000Z',
+        location: 'Studio B',
+      })).rejects.toThrow('Connection lost');
+
+      expect(getStarts(series.id)).toEqual([
+        '2026-11-02T19:00:00.000Z',
+        '2026-11-09T19:00:00.000Z',
+        '2026-11-16T19:00:00.000Z',
+        '2026-11-23T19:00:00.000Z',
+      ]);
+      expect(getRehearsal(rehearsals[0].id).location).toBe('Main hall');
+      expect(count('native_user_availability')).toBe(4);
+    });
+  });
+
+  describe('deleteRehearsalSeries', () => {
+    it('should delete only the occurrence and keep the series', async () => {
+      const { series, rehearsals } = await createSeries(3);
+
+      expect(await deleteRehearsalSeries(getRehearsal(rehearsals[1].id), 'occurrence')).toEqual([rehearsals[1].id]);
+
+      expect(getStarts(series.id)).toHaveLength(2);
+      expect(testDb.get('SELECT * FROM native_rehearsal_series WHERE id = ?', [series.id])).toBeDefined();
+    });
+
+    it('should delete this and the following occurrences', async () => {
+      const { series, rehearsals } = await createSeries();
+
+      expect(await deleteRehearsalSeries(getRehearsal(rehearsals[2].id), 'following'))
+        .toEqual([rehearsals[2].id, rehearsals[3].id]);
+
+      expect(getStarts(series.id)).toEqual(['2026-11-02T19:00:00.000Z', '2026-11-09T19:00:00.000Z']);
+    });
+
+    it('should delete the series record with its last rehearsal', async () => {
+      const { series, rehearsals } = await createSeries(3);
+
+      expect(await deleteRehearsalSeries(getRehearsal(rehearsals[1].id), 'series')).toEqual(rehearsals.map(r => r.id));
+
+      expect(getStarts(series.id)).toHaveLength(0);
+      expect(testDb.get('SELECT * FROM native_rehearsal_series WHERE id = ?', [series.id])).toBeUndefined();
+      expect(count('native_user_availability')).toBe(0);
+    });
+
+    it('should keep every occurrence when a delete fails partway', async () => {
+      const { series, rehearsals } = await createSeries(3);
+      failOnNth('run', 'DELETE FROM native_rehearsals WHERE', 2);
+
+      await expect(deleteRehearsalSeries(getRehearsal(rehearsals[0].id), 'series')).rejects.toThrow('Connection lost');
+
+      expect(getStarts(series.id)).toHaveLength(3);
+      expect(count('native_rehearsal_responses')).toBe(3);
+      expect(count('native_user_availability')).toBe(3);
+    });
+  });
+
+  describe('db.transaction on SQLite', () => {
+    it('should keep statements made beside a failed transaction out of it', async () => {
+      let release;
+      const transaction = serviceDb.transaction(async () => {
+        serviceDb.run('UPDATE native_projects SET name = $1 WHERE id = $2', ['Renamed', testData.projectId]);
+        await new Promise(resolve => { release = resolve; });
+        throw new Error('Connection lost');
+      });
+
+      // Waits for the transaction instead of joining it
+      const outside = serviceDb.run('UPDATE native_projects SET description = $1 WHERE id = $2', ['Kept', testData.projectId]);
+      release();
+
+      await expect(transaction).rejects.toThrow('Connection lost');
+      await outside;
+      expect(testDb.get('SELECT name, description FROM native_projects WHERE id = ?', [testData.projectId]))
+        .toEqual({ name: 'Test Project', description: 'Kept' });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * REAL Integration Tests for User Sessions
+ *
+ * These tests:
+ * - Use REAL in-memory SQLite database
+ * - Execute the queries of services/auth/sessionService.js
+ * - Check refresh token rotation and revoking one or all sessions
+ */
+import {
+  setupIntegrationDb,
+  closeIntegrationDb,
+  seedTestData,
+} from './setup.js';
+import { generateAuthToken, hashAuthToken } from '../../utils/authTokens.js';
+import { getRefreshStatus, isLegacyTokenRevoked } from '../../utils/sessions.js';
+
+let testDb;
+let testData;
+
+describe('User Sessions - REAL Integration Tests', () => {
+  beforeAll(async () => {
+    testDb = await setupIntegrationDb();
+    testData = await seedTestData(testDb);
+  });
+
+  beforeEach(() => {
+    testDb.run('DELETE FROM native_user_sessions');
+    testDb.run('UPDATE native_users SET tokens_valid_after = NULL');
+  });
+
+  afterAll(() => {
+    closeIntegrationDb();
+  });
+
+  const NOW = '2026-10-19T12:00:00.000Z';
+  const NEXT_YEAR = '2027-10-19T12:00:00.000Z';
+  const LAST_YEAR = '2025-10-19T12:00:00.000Z';
+
+  const startSession = (userId = testData.memberId, deviceName = 'iPhone (ios)', expiresAt = NEXT_YEAR) => {
+    // Same statements as createSession + setSessionRefreshToken
+    const session = testDb.run(
+      'INSERT INTO native_user_sessions (user_id, device_name) VALUES (?, ?)',
+      [userId, deviceName]
+    );
+    const refreshToken = generateAuthToken();
+    testDb.run(
+      'UPDATE native_user_sessions SET refresh_token_hash = ?, expires_at = ? WHERE id = ?',
+      [hashAuthToken(refreshToken), expiresAt, session.lastInsertId]
+    );
+    return { sessionId: session.lastInsertId, refreshToken };
+  };
+
+  const rotate = (sessionId, oldToken, newToken) => {
+    // Same statement as rotateSessionRefreshToken
+    const rotated = testDb.get(
+      `UPDATE native_user_sessions
+       SET refresh_token_hash = ?, expires_at = ?, last_used_at = ?
+       WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL
+       RETURNING id`,
+      [hashAuthToken(newToken), NEXT_YEAR, NOW, sessionId, hashAuthToken(oldToken)]
+    );
+    return Boolean(rotated);
+  };
+
+  const revoke = (userId, sessionId) => {
+    // Same statement as revokeSession
+    const revoked = testDb.get(
+      `UPDATE native_user_sessions SET revoked_at = ?
+       WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+       RETURNING id`,
+      [NOW, sessionId, userId]
+    );
+    return Boolean(revoked);
+  };
+
+  const listSessions = (userId) => {
+    // Same statement as getUserSessions
+    return testDb.all(
+      `SELECT id, device_name, created_at, last_used_at FROM native_user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY last_used_at DESC, id DESC`,
+      [userId, NOW]
+    );
+  };
+
+  const getSession = (sessionId) =>
+    testDb.get('SELECT * FROM native_user_sessions WHERE id = ?', [sessionId]);
+
+  const revokeAll = (userId) => {
+    // Same statements as revokeUserSessions without exceptSessionId
+    testDb.run(
+      'UPDATE native_user_sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+      [NOW, userId]
+    );
+    testDb.run('UPDATE native_users SET tokens_valid_after = ? WHERE id = ?', [NOW, userId]);
+  };
+
+  const getTokensValidAfter = (userId) =>
+    // Same statement as getTokensValidAfter
+    testDb.get('SELECT tokens_valid_after FROM native_users WHERE id = ?', [userId]).tokens_valid_after;
+
+  // Refresh token issued a week before sessions existed
+  const legacyToken = (userId = testData.memberId) => ({
+    userId,
+    type: 'refresh',
+    iat: Date.parse('2026-10-12T12:00:00.000Z') / 1000,
+  });
+
+  it('should accept only the latest refresh token of a session', () => {
+    const { sessionId, refreshToken } = startSession();
+    const next = generateAuthToken();
+
+    expect(rotate(sessionId, refreshToken, next)).toBe(true);
+
+    const session = getSession(sessionId);
+    expect(getRefreshStatus(session, hashAuthToken(next), new Date(NOW))).toBe('active');
+    expect(getRefreshStatus(session, hashAuthToken(refreshToken), new Date(NOW))).toBe('reused');
+  });
+
+  it('should let only one of two refreshes with the same token win', () => {
+    const { sessionId, refreshToken } = startSession();
+
+    expect(rotate(sessionId, refreshToken, generateAuthToken())).toBe(true);
+    expect(rotate(sessionId, refreshToken, generateAuthToken())).toBe(false);
+  });
+
+  it('should not rotate a revoked session', () => {
+    const { sessionId, refreshToken } = startSession();
+    revoke(testData.memberId, sessionId);
+
+    expect(rotate(sessionId, refreshToken, generateAuthToken())).toBe(false);
+    expect(getRefreshStatus(getSession(sessionId), hashAuthToken(refreshToken), new Date(NOW))).toBe('revoked');
+  });
+
+  it('should list only signed-in sessions of the user', () => {
+    const phone = startSession(testData.memberId, 'Phone');
+    const tablet = startSession(testData.memberId, 'Tablet');
+    startSession(testData.memberId, 'Old laptop', LAST_YEAR);
+    startSession(testData.adminId, 'Admin phone');
+    revoke(testData.memberId, tablet.sessionId);
+
+    const sessions = listSessions(testData.memberId);
+    expect(sessions.map(s => s.id)).toEqual([phone.sessionId]);
+    expect(sessions[0].device_name).toBe('Phone');
+  });
+
+  it('should not revoke sessions of other users', () => {
+    const { sessionId } = startSession(testData.adminId);
+
+    expect(revoke(testData.memberId, sessionId)).toBe(false);
+    expect(getSession(sessionId).revoked_at).toBeNull();
+  });
+
+  it('should report a session that was already revoked as not found', () => {
+    const { sessionId } = startSession();
+
+    expect(revoke(testData.memberId, sessionId)).toBe(true);
+    expect(revoke(testData.memberId, sessionId)).toBe(false);
+  });
+
+  it('should revoke every session but the current one after a password change', () => {
+    const current = startSession(testData.memberId, 'Phone');
+    startSession(testData.memberId, 'Tablet');
+    const admin = startSession(testData.adminId);
+
+    // Same statements as revokeUserSessions with exceptSessionId
+    testDb.run(
+      'UPDATE native_user_sessions SET revoked_at = ? WHERE user_id = ? AND id <> ? AND revoked_at IS NULL',
+      [NOW, testData.memberId, current.sessionId]
+    );
+    testDb.run('UPDATE native_users SET tokens_valid_after = ? WHERE id = ?', [NOW, testData.memberId]);
+
+    expect(listSessions(testData.memberId).map(s => s.id)).toEqual([current.sessionId]);
+    expect(listSessions(testData.adminId).map(s => s.id)).toEqual([admin.sessionId]);
+    expect(isLegacyTokenRevoked(legacyToken(), getTokensValidAfter(testData.memberId))).toBe(true);
+  });
+
+  it('should accept a legacy refresh token until the user signs out everywhere', () => {
+    const token = legacyToken();
+    expect(isLegacyTokenRevoked(token, getTokensValidAfter(testData.memberId))).toBe(false);
+
+    revokeAll(testData.memberId);
+
+    expect(isLegacyTokenRevoked(token, getTokensValidAfter(testData.memberId))).toBe(true);
+    expect(isLegacyTokenRevoked(legacyToken(testData.adminId), getTokensValidAfter(testData.adminId))).toBe(false);
+  });
+
+  it('should reject a legacy refresh token after a password reset', () => {
+    const token = legacyToken();
+    const { sessionId } = startSession();
+
+    // The reset route consumes the reset token, then calls revokeUserSessions(userId)
+    revokeAll(testData.memberId);
+
+    expect(isLegacyTokenRevoked(token, getTokensValidAfter(testData.memberId))).toBe(true);
+    expect(getSession(sessionId).revoked_at).not.toBeNull();
+  });
+
+  it('should delete sessions together with the user', () => {
+    const user = testDb.run(
+      `INSERT INTO native_users (email, password_hash, first_name) VALUES (?, ?, ?)`,
+      ['gone@test.com', 'hash', 'Gone']
+    );
+    startSession(user.lastInsertId);
+
+    testDb.run('DELETE FROM native_users WHERE id = ?', [user.lastInsertId]);
+
+    expect(testDb.all('SELECT * FROM native_user_sessions WHERE user_id = ?', [user.lastInsertId])).toHaveLength(0);
+  });
+});
@@ -6,6 +6,7 @@ import Database from 'better-sqlite3';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { readFileSync } from 'fs';
+import { createSqliteDb } from '../../database/sqlite.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -32,6 +33,43 @@ export async function setupIntegrationDb() {
       locale TEXT DEFAULT 'en',
       notifications_enabled BOOLEAN DEFAULT 1,
       email_notifications BOOLEAN DEFAULT 1,
+      email_digest_frequency TEXT DEFAULT 'weekly' CHECK(email_digest_frequency IN ('daily', 'weekly')),
+      email_digest_sent_at DATETIME,
+      week_start_day TEXT DEFAULT 'monday',
+      email_verified_at DATETIME,
+      tokens_valid_after DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Password reset and email verification tokens
+    CREATE TABLE native_auth_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE native_user_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      device_name TEXT,
+      refresh_token_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME,
+      revoked_at DATETIME
+    );
+
+    CREATE TABLE native_push_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      session_id INTEGER REFERENCES native_user_sessions(id) ON DELETE CASCADE,
+      token TEXT NOT NULL UNIQUE,
+      platform TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
@@ -42,9 +80,8 @@ export async function setupIntegrationDb() {
       name TEXT NOT NULL,
       description TEXT,
       timezone TEXT DEFAULT 'UTC',
-      invite_code TEXT UNIQUE,
-      invite_expires_at DATETIME,
-      invite_created_by INTEGER REFERENCES native_users(id),
+      working_hours TEXT,
+      archived_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
@@ -56,11 +93,28 @@ export async function setupIntegrationDb() {
       user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
       role TEXT DEFAULT 'member',
       status TEXT DEFAULT 'active',
+      invite_id INTEGER REFERENCES native_project_invites(id) ON DELETE SET NULL,
       invited_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(project_id, user_id)
     );
 
+    -- Invite links
+    CREATE TABLE native_project_invites (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+      code TEXT NOT NULL UNIQUE,
+      label TEXT,
+      role TEXT NOT NULL DEFAULT 'member',
+      max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+      use_count INTEGER NOT NULL DEFAULT 0,
+      expires_at DATETIME,
+      requires_approval BOOLEAN NOT NULL DEFAULT 0,
+      created_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      revoked_at DATETIME
+    );
+
     -- User availability
     CREATE TABLE native_user_availability (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -77,14 +131,32 @@ export async function setupIntegrationDb() {
     );
 
     -- Rehearsals
+    -- Recurrence rules of rehearsal series
+    CREATE TABLE native_rehearsal_series (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+      frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'custom')),
+      weekdays TEXT,
+      until_date DATE,
+      occurrence_count INTEGER,
+      created_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+    );
+
     CREATE TABLE native_rehearsals (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
-      title TEXT NOT NULL,
+      title TEXT,
       location TEXT,
       description TEXT,
       starts_at DATETIME NOT NULL,
       ends_at DATETIME NOT NULL,
+      respond_by DATETIME,
+      created_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+      series_id INTEGER REFERENCES native_rehearsal_series(id) ON DELETE SET NULL,
+      is_series_exception BOOLEAN DEFAULT 0,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
@@ -94,13 +166,62 @@ export async function setupIntegrationDb() {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
       user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
-      response TEXT CHECK(response IN ('yes')),
+      response TEXT CHECK(response IN ('yes', 'no', 'maybe', 'pending')),
       notes TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(rehearsal_id, user_id)
     );
 
+    -- Overdue non-responders (RSVP follow-up list)
+    CREATE TABLE native_rsvp_follow_ups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+      rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      contacted_at DATETIME,
+      contacted_by INTEGER REFERENCES native_users(id),
+      UNIQUE(rehearsal_id, user_id)
+    );
+
+    -- Attendance marked after a rehearsal has started
+    CREATE TABLE native_rehearsal_attendance (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      status TEXT NOT NULL CHECK (status IN ('present', 'late', 'absent')),
+      late_minutes INTEGER,
+      marked_by INTEGER REFERENCES native_users(id),
+      marked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(rehearsal_id, user_id)
+    );
+
+    -- Project scenes (scene/character breakdown)
+    CREATE TABLE native_project_scenes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      position INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Members appearing in a scene
+    CREATE TABLE native_scene_members (
+      scene_id INTEGER NOT NULL REFERENCES native_project_scenes(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      PRIMARY KEY (scene_id, user_id)
+    );
+
+    -- Scenes planned for a rehearsal
+    CREATE TABLE native_rehearsal_scenes (
+      rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+      scene_id INTEGER NOT NULL REFERENCES native_project_scenes(id) ON DELETE CASCADE,
+      PRIMARY KEY (rehearsal_id, scene_id)
+    );
+
     -- Calendar connections (for calendar sync)
     CREATE TABLE native_calendar_connections (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -129,6 +250,19 @@ export async function setupIntegrationDb() {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(connection_id, event_type, internal_event_id)
     );
+
+    -- Notification inbox
+    CREATE TABLE native_notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+      project_id INTEGER REFERENCES native_projects(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      body TEXT NOT NULL,
+      data TEXT NOT NULL DEFAULT '{}',
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
   `;
 
   // Execute schema
@@ -151,18 +285,68 @@ export async function setupIntegrationDb() {
   return mockDb;
 }
 
+/**
+ * Database for calling the services directly: the SQLite layer of db.js on top of the test database
+ * Service queries are written for PostgreSQL, so $n placeholders become ?, casts are dropped
+ * and NOW() is provided.
+ */
+export function createServiceDb() {
+  testDb.function('NOW', () => new Date().toISOString());
+
+  const toSqliteValue = (value) => {
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    return value instanceof Date ? value.toISOString() : value;
+  };
+
+  return createSqliteDb({
+    prepare(sql) {
+      const order = [];
+      const statement = testDb.prepare(
+        sql
+          .replace(/::\w+/g, '')
+          .replace(/\$(\d+)/g, (_, n) => {
+            order.push(Number(n) - 1);
+            return '?';
+          })
+      );
+      const bind = (params) => (order.length > 0 ? order.map(i => params[i]) : params).map(toSqliteValue);
+      return {
+        run: (params) => statement.run(bind(params)),
+        get: (params) => statement.get(bind(params)),
+        all: (params) => statement.all(bind(params)),
+      };
+    },
+    exec(sql) {
+      testDb.exec(sql);
+    },
+  });
+}
+
 /**
  * Clear all tables
  */
 export function clearIntegrationDb() {
   if (testDb) {
+    testDb.exec('DELETE FROM native_notifications');
     testDb.exec('DELETE FROM native_calendar_event_mappings');
     testDb.exec('DELETE FROM native_calendar_connections');
+    testDb.exec('DELETE FROM native_rehearsal_scenes');
+    testDb.exec('DELETE FROM native_scene_members');
+    testDb.exec('DELETE FROM native_project_scenes');
+    testDb.exec('DELETE FROM native_rsvp_follow_ups');
+    testDb.exec('DELETE FROM native_rehearsal_attendance');
     testDb.exec('DELETE FROM native_rehearsal_responses');
     testDb.exec('DELETE FROM native_rehearsals');
+    testDb.exec('DELETE FROM native_rehearsal_series');
     testDb.exec('DELETE FROM native_user_availability');
+    testDb.exec('DELETE FROM native_project_invites');
     testDb.exec('DELETE FROM native_project_members');
     testDb.exec('DELETE FROM native_projects');
+    testDb.exec('DELETE FROM native_auth_tokens');
+    testDb.exec('DELETE FROM native_push_tokens');
+    testDb.exec('DELETE FROM native_user_sessions');
     testDb.exec('DELETE FROM native_users');
   }
 }
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for server/utils/invites.js
+ */
+
+import {
+  MAX_INVITE_USES,
+  validateInviteInput,
+  getInviteStatus,
+} from '../utils/invites.js';
+
+describe('Invite Rules', () => {
+  describe('validateInviteInput', () => {
+    it('should accept a plain invite and a fully configured one', () => {
+      expect(validateInviteInput({}, 'admin')).toBeNull();
+      expect(validateInviteInput({
+        label: 'Orchestra',
+        role: 'actor',
+        maxUses: 12,
+        expiresInDays: 30,
+        requiresApproval: true,
+      }, 'admin')).toBeNull();
+    });
+
+    it('should allow links that never expire or have no limit', () => {
+      expect(validateInviteInput({ maxUses: null, expiresInDays: null }, 'owner')).toBeNull();
+    });
+
+    it('should reject the owner role and unknown roles', () => {
+      expect(validateInviteInput({ role: 'owner' }, 'owner')).toMatch(/^Invalid role/);
+      expect(validateInviteInput({ role: 'producer' }, 'owner')).toMatch(/^Invalid role/);
+    });
+
+    it('should let only the owner invite admins', () => {
+      expect(validateInviteInput({ role: 'admin' }, 'owner')).toBeNull();
+      expect(validateInviteInput({ role: 'admin' }, 'admin')).toBe('Only the owner can invite admins');
+    });
+
+    it('should reject invalid limits and lifetimes', () => {
+      expect(validateInviteInput({ maxUses: 0 }, 'owner')).toMatch(/^maxUses/);
+      expect(validateInviteInput({ maxUses: 2.5 }, 'owner')).toMatch(/^maxUses/);
+      expect(validateInviteInput({ maxUses: MAX_INVITE_USES + 1 }, 'owner')).toMatch(/^maxUses/);
+      expect(validateInviteInput({ expiresInDays: -1 }, 'owner')).toMatch(/^expiresInDays/);
+      expect(validateInviteInput({ expiresInDays: '7' }, 'owner')).toMatch(/^expiresInDays/);
+    });
+
+    it('should reject a non-boolean approval flag', () => {
+      expect(validateInviteInput({ requiresApproval: 'yes' }, 'owner')).toBe('requiresApproval must be a boolean');
+    });
+
+    it('should reject overly long labels', () => {
+      expect(validateInviteInput({ label: 'a'.repeat(101) }, 'owner')).toMatch(/^Label is too long/);
+    });
+  });
+
+  describe('getInviteStatus', () => {
+    const NOW = new Date('2026-10-19T12:00:00.000Z');
+    const invite = { revoked_at: null, expires_at: '2026-10-26T12:00:00.000Z', max_uses: 3, use_count: 1 };
+
+    it('should report usable invites as active', () => {
+      expect(getInviteStatus(invite, NOW)).toBe('active');
+      expect(getInviteStatus({ ...invite, expires_at: null, max_uses: null }, NOW)).toBe('active');
+    });
+
+    it('should report revoked, expired and used up invites', () => {
+      expect(getInviteStatus({ ...invite, revoked_at: '2026-10-18T00:00:00.000Z' }, NOW)).toBe('revoked');
+      expect(getInviteStatus({ ...invite, expires_at: '2026-10-19T12:00:00.000Z' }, NOW)).toBe('expired');
+      expect(getInviteStatus({ ...invite, use_count: 3 }, NOW)).toBe('exhausted');
+    });
+  });
+});
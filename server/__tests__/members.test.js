@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for server/utils/members.js
+ */
+
+import {
+  ASSIGNABLE_ROLES,
+  validateRoleChange,
+  validateRemoval,
+  validateLeave,
+} from '../utils/members.js';
+
+describe('Member Management Rules', () => {
+  describe('ASSIGNABLE_ROLES', () => {
+    it('should not allow handing out ownership through a role change', () => {
+      expect(ASSIGNABLE_ROLES).not.toContain('owner');
+      expect(ASSIGNABLE_ROLES).toContain('stage_manager');
+    });
+  });
+
+  describe('validateRoleChange', () => {
+    it('should let the owner promote and demote admins', () => {
+      expect(validateRoleChange('owner', 'member', 'admin')).toBeNull();
+      expect(validateRoleChange('owner', 'admin', 'actor')).toBeNull();
+    });
+
+    it('should let admins change non-admin roles only', () => {
+      expect(validateRoleChange('admin', 'actor', 'director')).toBeNull();
+      expect(validateRoleChange('admin', 'member', 'admin')).toBe('Only the owner can promote or demote admins');
+      expect(validateRoleChange('admin', 'admin', 'member')).toBe('Only the owner can promote or demote admins');
+    });
+
+    it('should protect the owner', () => {
+      expect(validateRoleChange('admin', 'owner', 'member')).toBe('Ownership can only change through a transfer');
+    });
+
+    it('should reject roles without manage_members', () => {
+      expect(validateRoleChange('director', 'actor', 'stage_manager'))
+        .toBe('You do not have permission to manage members');
+    });
+  });
+
+  describe('validateRemoval', () => {
+    it('should never remove the owner', () => {
+      expect(validateRemoval('admin', 'owner')).toBe('The owner cannot be removed');
+    });
+
+    it('should only let the owner remove admins', () => {
+      expect(validateRemoval('owner', 'admin')).toBeNull();
+      expect(validateRemoval('admin', 'admin')).toBe('Only the owner can remove admins');
+      expect(validateRemoval('admin', 'actor')).toBeNull();
+    });
+
+    it('should reject roles without manage_members', () => {
+      expect(validateRemoval('stage_manager', 'actor')).toBe('You do not have permission to manage members');
+    });
+  });
+
+  describe('validateLeave', () => {
+    it('should require the owner to transfer ownership first', () => {
+      expect(validateLeave('owner')).toBe('Transfer ownership before leaving the project');
+      expect(validateLeave('admin')).toBeNull();
+      expect(validateLeave('member')).toBeNull();
+    });
+  });
+});
@@ -5,12 +5,27 @@
  */
 import { jest } from '@jest/globals';
 import jwt from 'jsonwebtoken';
-import {
+
+const getSession = jest.fn();
+const touchSession = jest.fn();
+const getTokensValidAfter = jest.fn();
+
+jest.unstable_mockModule('../../services/auth/sessionService.js', () => ({
+  getSession,
+  touchSession,
+  getTokensValidAfter,
+}));
+
+const {
   generateTokens,
   verifyToken,
+  getTokenExpiry,
   authenticateToken,
   requireAuth,
-} from '../../middleware/jwtMiddleware.js';
+} = await import('../../middleware/jwtMiddleware.js');
+
+// Let the session lookup of authenticateToken finish
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
 
 describe('JWT Middleware', () => {
   // Use same secret as jwtMiddleware.js default
@@ -54,6 +69,34 @@ describe('JWT Middleware', () => {
       expect(tokens1.accessToken).not.toBe(tokens2.accessToken);
       expect(tokens1.refreshToken).not.toBe(tokens2.refreshToken);
     });
+
+    it('should include the session id when given', () => {
+      const tokens = generateTokens(userId, 42);
+
+      expect(jwt.verify(tokens.accessToken, TEST_SECRET).sid).toBe(42);
+      expect(jwt.verify(tokens.refreshToken, TEST_SECRET).sid).toBe(42);
+      expect(jwt.verify(generateTokens(userId).accessToken, TEST_SECRET)).not.toHaveProperty('sid');
+    });
+
+    it('should issue a new refresh token on every call', () => {
+      const first = generateTokens(userId, 42);
+      const second = generateTokens(userId, 42);
+
+      expect(first.refreshToken).not.toBe(second.refreshToken);
+    });
+  });
+
+  describe('getTokenExpiry', () => {
+    it('should read the expiry of a token', () => {
+      const { refreshToken } = generateTokens(userId);
+      const decoded = jwt.verify(refreshToken, TEST_SECRET);
+
+      expect(getTokenExpiry(refreshToken)).toEqual(new Date(decoded.exp * 1000));
+    });
+
+    it('should return null for malformed tokens', () => {
+      expect(getTokenExpiry('not-a-token')).toBeNull();
+    });
   });
 
   describe('verifyToken', () => {
@@ -137,19 +180,63 @@ describe('JWT Middleware', () => {
         json: jest.fn().mockReturnThis(),
       };
       nextFunction = jest.fn();
+      getSession.mockReset();
+      touchSession.mockReset().mockResolvedValue();
+      getTokensValidAfter.mockReset().mockResolvedValue(null);
     });
 
-    it('should authenticate with valid Bearer token', () => {
+    it('should authenticate with valid Bearer token', async () => {
       const tokens = generateTokens(userId);
       mockReq.headers['authorization'] = `Bearer ${tokens.accessToken}`;
 
       authenticateToken(mockReq, mockRes, nextFunction);
+      await flushPromises();
 
       expect(mockReq.userId).toBe(userId);
       expect(nextFunction).toHaveBeenCalled();
       expect(mockRes.status).not.toHaveBeenCalled();
     });
 
+    it('should authenticate a token of an active session', async () => {
+      getSession.mockResolvedValue({ id: 5, user_id: userId, revoked_at: null, expires_at: null, last_used_at: new Date() });
+      const tokens = generateTokens(userId, 5);
+      mockReq.headers['authorization'] = `Bearer ${tokens.accessToken}`;
+
+      authenticateToken(mockReq, mockRes, nextFunction);
+      await flushPromises();
+
+      expect(getSession).toHaveBeenCalledWith(5);
+      expect(mockReq.sessionId).toBe(5);
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should return 401 when the session was revoked', async () => {
+      getSession.mockResolvedValue({ id: 5, user_id: userId, revoked_at: new Date(), expires_at: null });
+      const tokens = generateTokens(userId, 5);
+      mockReq.headers['authorization'] = `Bearer ${tokens.accessToken}`;
+
+      authenticateToken(mockReq, mockRes, nextFunction);
+      await flushPromises();
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Session has been revoked' });
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a token without session issued before signing out everywhere', async () => {
+      const tokens = generateTokens(userId);
+      getTokensValidAfter.mockResolvedValue(new Date(Date.now() + 1000));
+      mockReq.headers['authorization'] = `Bearer ${tokens.accessToken}`;
+
+      authenticateToken(mockReq, mockRes, nextFunction);
+      await flushPromises();
+
+      expect(getTokensValidAfter).toHaveBeenCalledWith(userId);
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Session has been revoked' });
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+
     it('should return 401 when authorization header is missing', () => {
       authenticateToken(mockReq, mockRes, nextFunction);
 
@@ -0,0 +1,215 @@
+/**
+ * Unit Tests for server/utils/notifications.js and the push providers
+ */
+
+import { jest } from '@jest/globals';
+import {
+  NOTIFICATION_EVENTS,
+  PUSH_BATCH_SIZE,
+  INBOX_PAGE_SIZE,
+  MAX_INBOX_PAGE_SIZE,
+  isExpoPushToken,
+  formatRehearsalTime,
+  buildNotification,
+  chunkMessages,
+  normalizeInboxLimit,
+  parseNotificationData,
+} from '../utils/notifications.js';
+import {
+  createExpoPushProvider,
+  createLogPushProvider,
+  setPushProvider,
+  sendPushMessages,
+} from '../services/notifications/pushService.js';
+import { sendInBackground } from '../services/notifications/notificationService.js';
+
+describe('Notifications', () => {
+  const startsAt = '2026-10-19T16:00:00.000Z';
+
+  describe('isExpoPushToken', () => {
+    it('should accept Expo push tokens', () => {
+      expect(isExpoPushToken('ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe(true);
+      expect(isExpoPushToken('ExpoPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(isExpoPushToken('ExponentPushToken[]')).toBe(false);
+      expect(isExpoPushToken('fcm-device-token')).toBe(false);
+      expect(isExpoPushToken(undefined)).toBe(false);
+    });
+  });
+
+  describe('formatRehearsalTime', () => {
+    it('should show the time in the recipient timezone', () => {
+      expect(formatRehearsalTime(startsAt, 'Europe/Moscow', 'en')).toContain('19:00');
+      expect(formatRehearsalTime(startsAt, 'America/New_York', 'en')).toContain('12:00');
+    });
+
+    it('should fall back to UTC without a timezone', () => {
+      expect(formatRehearsalTime(startsAt, null, 'en')).toContain('16:00');
+    });
+
+    it('should use the recipient language', () => {
+      expect(formatRehearsalTime(startsAt, 'UTC', 'en')).toContain('Oct');
+      expect(formatRehearsalTime(startsAt, 'UTC', 'ru')).toContain('окт');
+    });
+  });
+
+  describe('buildNotification', () => {
+    const params = { projectName: 'Hamlet', startsAt, timezone: 'UTC', locale: 'en' };
+
+    it('should use the project name as the title', () => {
+      expect(buildNotification(NOTIFICATION_EVENTS.REHEARSAL_CREATED, params).title).toBe('Hamlet');
+    });
+
+    it('should describe each rehearsal change', () => {
+      expect(buildNotification(NOTIFICATION_EVENTS.REHEARSAL_CREATED, params).body).toMatch(/^New rehearsal: /);
+      expect(buildNotification(NOTIFICATION_EVENTS.REHEARSAL_UPDATED, params).body).toMatch(/^Rehearsal changed: /);
+      expect(buildNotification(NOTIFICATION_EVENTS.REHEARSAL_CANCELLED, params).body).toMatch(/^Rehearsal cancelled: /);
+    });
+
+    it('should mention how many rehearsals changed at once', () => {
+      const { body } = buildNotification(NOTIFICATION_EVENTS.REHEARSAL_CREATED, { ...params, count: 8 });
+      expect(body).toMatch(/^8 new rehearsals, the first on /);
+    });
+
+    it('should write Russian texts for the ru locale', () => {
+      const { body } = buildNotification(NOTIFICATION_EVENTS.REHEARSAL_CANCELLED, { ...params, locale: 'ru' });
+      expect(body).toMatch(/^Репетиция отменена: /);
+    });
+
+    it('should describe an RSVP with the reason for maybe', () => {
+      const rsvp = { ...params, actorName: 'Anna Smith' };
+
+      expect(buildNotification(NOTIFICATION_EVENTS.RSVP_RECEIVED, { ...rsvp, response: 'yes' }).body)
+        .toMatch(/^Anna Smith is coming to the rehearsal on /);
+      expect(buildNotification(NOTIFICATION_EVENTS.RSVP_RECEIVED, { ...rsvp, response: 'maybe', reason: 'Late shift' }).body)
+        .toMatch(/^Anna Smith might come to .*: "Late shift"$/);
+    });
+
+    it('should remind to answer a rehearsal', () => {
+      expect(buildNotification(NOTIFICATION_EVENTS.RSVP_REMINDER, params).body)
+        .toMatch(/^Let us know if you're coming to the rehearsal on /);
+    });
+
+    it('should describe project events without a rehearsal time', () => {
+      expect(buildNotification(NOTIFICATION_EVENTS.JOIN_REQUEST, { projectName: 'Hamlet', actorName: 'Anna Smith' }))
+        .toEqual({ title: 'Hamlet', body: 'Anna Smith asked to join the project' });
+      expect(buildNotification(NOTIFICATION_EVENTS.ROLE_CHANGED, { projectName: 'Hamlet', role: 'stage_manager' }).body)
+        .toBe('Your role in the project is now stage manager');
+      expect(buildNotification(NOTIFICATION_EVENTS.ROLE_CHANGED, { projectName: 'Hamlet', role: 'director', locale: 'ru' }).body)
+        .toBe('Ваша роль в проекте: режиссёр');
+    });
+
+    it('should reject unknown events', () => {
+      expect(() => buildNotification('rehearsal_moved', params)).toThrow('Unknown notification event: rehearsal_moved');
+    });
+  });
+
+  describe('chunkMessages', () => {
+    it('should split messages into batches of the push service limit', () => {
+      const messages = Array.from({ length: PUSH_BATCH_SIZE * 2 + 1 }, (_, i) => ({ to: String(i) }));
+
+      expect(chunkMessages(messages).map(chunk => chunk.length)).toEqual([PUSH_BATCH_SIZE, PUSH_BATCH_SIZE, 1]);
+      expect(chunkMessages([])).toEqual([]);
+    });
+  });
+
+  describe('normalizeInboxLimit', () => {
+    it('should use the default page size without a valid limit', () => {
+      expect(normalizeInboxLimit(undefined)).toBe(INBOX_PAGE_SIZE);
+      expect(normalizeInboxLimit('abc')).toBe(INBOX_PAGE_SIZE);
+      expect(normalizeInboxLimit('0')).toBe(INBOX_PAGE_SIZE);
+    });
+
+    it('should cap the limit', () => {
+      expect(normalizeInboxLimit('20')).toBe(20);
+      expect(normalizeInboxLimit(String(MAX_INBOX_PAGE_SIZE + 1))).toBe(MAX_INBOX_PAGE_SIZE);
+    });
+  });
+
+  describe('parseNotificationData', () => {
+    it('should read data stored as JSON text or as an object', () => {
+      expect(parseNotificationData('{"type":"join_request","projectId":"1"}')).toEqual({ type: 'join_request', projectId: '1' });
+      expect(parseNotificationData({ type: 'role_changed' })).toEqual({ type: 'role_changed' });
+    });
+
+    it('should return an empty object for missing or broken data', () => {
+      expect(parseNotificationData(null)).toEqual({});
+      expect(parseNotificationData('{broken')).toEqual({});
+    });
+  });
+
+  describe('push providers', () => {
+    const message = {
+      to: 'ExponentPushToken[aaa]',
+      title: 'Hamlet',
+      body: 'New rehearsal',
+      data: { type: NOTIFICATION_EVENTS.REHEARSAL_CREATED, rehearsalId: '5' },
+    };
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      setPushProvider(null);
+      global.fetch = originalFetch;
+    });
+
+    it('should send through the configured provider', async () => {
+      const provider = createLogPushProvider();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      setPushProvider(provider);
+
+      await sendPushMessages([message]);
+
+      expect(provider.sent).toEqual([message]);
+      console.log.mockRestore();
+    });
+
+    it('should not call the provider without messages', async () => {
+      const provider = { name: 'test', send: jest.fn() };
+      setPushProvider(provider);
+
+      expect(await sendPushMessages([])).toEqual({ invalidTokens: [] });
+      expect(provider.send).not.toHaveBeenCalled();
+    });
+
+    it('should report tokens Expo no longer knows', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [
+            { status: 'ok', id: 'ticket-1' },
+            { status: 'error', message: 'not registered', details: { error: 'DeviceNotRegistered' } },
+          ],
+        }),
+      });
+      const provider = createExpoPushProvider({ accessToken: 'secret' });
+
+      const result = await provider.send([message, { ...message, to: 'ExponentPushToken[gone]' }]);
+
+      expect(result.invalidTokens).toEqual(['ExponentPushToken[gone]']);
+      const [, request] = global.fetch.mock.calls[0];
+      expect(request.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(request.body)[0]).toMatchObject({ ...message, sound: 'default' });
+    });
+
+    it('should fail when Expo rejects the request', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+
+      await expect(createExpoPushProvider().send([message])).rejects.toThrow('Expo push request failed with status 503');
+    });
+  });
+
+  describe('sendInBackground', () => {
+    it('should log a failed notification instead of throwing', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const error = new Error('Push service down');
+
+      sendInBackground(Promise.reject(error));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(consoleError).toHaveBeenCalledWith('[Notifications] Failed to notify:', error);
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for server/utils/permissions.js
+ */
+
+import {
+  PERMISSIONS,
+  PROJECT_ROLES,
+  getRolePermissions,
+  getProjectPermissions,
+  hasPermission,
+} from '../utils/permissions.js';
+
+describe('Permission Matrix', () => {
+  it('should give owners and admins every permission', () => {
+    for (const permission of Object.values(PERMISSIONS)) {
+      expect(hasPermission('owner', permission)).toBe(true);
+      expect(hasPermission('admin', permission)).toBe(true);
+    }
+  });
+
+  it('should let directors schedule and see reports but not manage the project', () => {
+    expect(hasPermission('director', PERMISSIONS.SCHEDULE_REHEARSALS)).toBe(true);
+    expect(hasPermission('director', PERMISSIONS.VIEW_REPORTS)).toBe(true);
+    expect(hasPermission('director', PERMISSIONS.MANAGE_PROJECT)).toBe(false);
+    expect(hasPermission('director', PERMISSIONS.MANAGE_MEMBERS)).toBe(false);
+  });
+
+  it('should let stage managers schedule and track attendance without reports', () => {
+    expect(hasPermission('stage_manager', PERMISSIONS.SCHEDULE_REHEARSALS)).toBe(true);
+    expect(hasPermission('stage_manager', PERMISSIONS.TRACK_ATTENDANCE)).toBe(true);
+    expect(hasPermission('stage_manager', PERMISSIONS.VIEW_REPORTS)).toBe(false);
+  });
+
+  it('should keep actors and members to viewing and RSVP', () => {
+    expect(getRolePermissions('actor')).toEqual([]);
+    expect(getRolePermissions('member')).toEqual([]);
+  });
+
+  it('should grant nothing to unknown roles', () => {
+    expect(getRolePermissions('producer')).toEqual([]);
+    expect(hasPermission(undefined, PERMISSIONS.SCHEDULE_REHEARSALS)).toBe(false);
+  });
+
+  it('should list every role of the matrix', () => {
+    expect(PROJECT_ROLES).toEqual(['owner', 'admin', 'director', 'stage_manager', 'actor', 'member']);
+  });
+});
+
+describe('Archived Project Permissions', () => {
+  it('should keep the role permissions of active projects', () => {
+    expect(getProjectPermissions('director', null)).toEqual(getRolePermissions('director'));
+  });
+
+  it('should leave only reports and member management once archived', () => {
+    expect(getProjectPermissions('owner', '2026-10-01T00:00:00Z')).toEqual([
+      PERMISSIONS.VIEW_REPORTS,
+      PERMISSIONS.MANAGE_MEMBERS,
+    ]);
+    expect(getProjectPermissions('director', '2026-10-01T00:00:00Z')).toEqual([PERMISSIONS.VIEW_REPORTS]);
+    expect(getProjectPermissions('stage_manager', '2026-10-01T00:00:00Z')).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for server/utils/projectSettings.js
+ */
+
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  isValidTimezone,
+  validateProjectUpdate,
+} from '../utils/projectSettings.js';
+
+describe('Project Settings', () => {
+  describe('isValidTimezone', () => {
+    it('should accept IANA timezones', () => {
+      expect(isValidTimezone('Asia/Jerusalem')).toBe(true);
+      expect(isValidTimezone('Europe/Moscow')).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown or empty timezones', () => {
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+      expect(isValidTimezone(undefined)).toBe(false);
+    });
+  });
+
+  describe('validateProjectUpdate', () => {
+    it('should accept partial updates', () => {
+      expect(validateProjectUpdate({ name: 'Hamlet' })).toBeNull();
+      expect(validateProjectUpdate({ description: null })).toBeNull();
+      expect(validateProjectUpdate({ timezone: 'Europe/Berlin', archived: true })).toBeNull();
+    });
+
+    it('should require at least one field', () => {
+      expect(validateProjectUpdate({})).toBe('Nothing to update');
+    });
+
+    it('should reject blank or overly long names', () => {
+      expect(validateProjectUpdate({ name: '   ' })).toBe('Project name is required');
+      expect(validateProjectUpdate({ name: 'a'.repeat(MAX_PROJECT_NAME_LENGTH + 1) }))
+        .toBe(`Project name is too long (max ${MAX_PROJECT_NAME_LENGTH} characters)`);
+    });
+
+    it('should reject invalid timezones and non-boolean archived flags', () => {
+      expect(validateProjectUpdate({ timezone: 'Nowhere/City' })).toBe('Invalid timezone: Nowhere/City');
+      expect(validateProjectUpdate({ archived: 'yes' })).toBe('archived must be a boolean');
+    });
+  });
+});
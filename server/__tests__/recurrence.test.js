@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for server/utils/recurrence.js
+ *
+ * Deterministic tests for rehearsal series expansion.
+ * Uses fixed dates and IANA timezone (Asia/Jerusalem) to cover DST transitions.
+ */
+
+import {
+  validateRecurrenceRule,
+  expandRecurrence,
+  addDaysToDateString,
+  daysBetween,
+  shiftOccurrences,
+  MAX_OCCURRENCES,
+} from '../utils/recurrence.js';
+
+describe('Recurrence Utilities', () => {
+  const TIMEZONE = 'Asia/Jerusalem';
+
+  describe('validateRecurrenceRule', () => {
+    it('should accept weekly rule with count', () => {
+      expect(validateRecurrenceRule({ frequency: 'weekly', count: 4 })).toBeNull();
+    });
+
+    it('should accept custom rule with weekdays and until', () => {
+      expect(validateRecurrenceRule({ frequency: 'custom', weekdays: [1, 3], until: '2026-01-31' })).toBeNull();
+    });
+
+    it('should reject unknown frequency', () => {
+      expect(validateRecurrenceRule({ frequency: 'daily', count: 3 })).toMatch(/^Invalid recurrence frequency/);
+    });
+
+    it('should reject custom rule without weekdays', () => {
+      expect(validateRecurrenceRule({ frequency: 'custom', count: 3 })).toMatch(/^Invalid recurrence weekdays/);
+    });
+
+    it('should require exactly one of until or count', () => {
+      expect(validateRecurrenceRule({ frequency: 'weekly' })).toMatch(/^Invalid recurrence end/);
+      expect(validateRecurrenceRule({ frequency: 'weekly', count: 2, until: '2026-01-01' })).toMatch(/^Invalid recurrence end/);
+    });
+
+    it('should reject count above the limit', () => {
+      expect(validateRecurrenceRule({ frequency: 'weekly', count: MAX_OCCURRENCES + 1 })).toMatch(/^Invalid recurrence count/);
+    });
+  });
+
+  describe('date helpers', () => {
+    it('should add days across month boundary', () => {
+      expect(addDaysToDateString('2025-12-30', 3)).toBe('2026-01-02');
+      expect(addDaysToDateString('2026-01-02', -3)).toBe('2025-12-30');
+    });
+
+    it('should count days between dates', () => {
+      expect(daysBetween('2025-12-30', '2026-01-02')).toBe(3);
+      expect(daysBetween('2026-01-02', '2025-12-30')).toBe(-3);
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should create weekly occurrences by count', () => {
+      // Monday, December 1, 2025, 19:00-21:00 Jerusalem
+      const result = expandRecurrence(
+        { frequency: 'weekly', count: 3 },
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-01T19:00:00.000Z',
+        TIMEZONE
+      );
+
+      expect(result).toEqual([
+        { startsAt: '2025-12-01T17:00:00.000Z', endsAt: '2025-12-01T19:00:00.000Z' },
+        { startsAt: '2025-12-08T17:00:00.000Z', endsAt: '2025-12-08T19:00:00.000Z' },
+        { startsAt: '2025-12-15T17:00:00.000Z', endsAt: '2025-12-15T19:00:00.000Z' },
+      ]);
+    });
+
+    it('should skip every other week for biweekly', () => {
+      const result = expandRecurrence(
+        { frequency: 'biweekly', until: '2025-12-31' },
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-01T19:00:00.000Z',
+        TIMEZONE
+      );
+
+      expect(result.map(o => o.startsAt)).toEqual([
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-15T17:00:00.000Z',
+        '2025-12-29T17:00:00.000Z',
+      ]);
+    });
+
+    it('should use selected weekdays for custom frequency', () => {
+      // Monday + Thursday, until Dec 11 (inclusive)
+      const result = expandRecurrence(
+        { frequency: 'custom', weekdays: [1, 4], until: '2025-12-11' },
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-01T19:00:00.000Z',
+        TIMEZONE
+      );
+
+      expect(result.map(o => o.startsAt)).toEqual([
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-04T17:00:00.000Z',
+        '2025-12-08T17:00:00.000Z',
+        '2025-12-11T17:00:00.000Z',
+      ]);
+    });
+
+    it('should keep local time across DST change', () => {
+      // Israel switches to summer time on March 27, 2026 (UTC+2 -> UTC+3)
+      const result = expandRecurrence(
+        { frequency: 'weekly', count: 2 },
+        '2026-03-23T17:00:00.000Z', // 19:00 local (UTC+2)
+        '2026-03-23T19:00:00.000Z',
+        TIMEZONE
+      );
+
+      expect(result[1]).toEqual({
+        startsAt: '2026-03-30T16:00:00.000Z', // 19:00 local (UTC+3)
+        endsAt: '2026-03-30T18:00:00.000Z',
+      });
+    });
+
+    it('should never exceed the occurrence limit', () => {
+      const result = expandRecurrence(
+        { frequency: 'custom', weekdays: [0, 1, 2, 3, 4, 5, 6], until: '2030-12-31' },
+        '2025-12-01T17:00:00.000Z',
+        '2025-12-01T19:00:00.000Z',
+        TIMEZONE
+      );
+
+      expect(result).toHaveLength(MAX_OCCURRENCES);
+    });
+  });
+
+  describe('shiftOccurrences', () => {
+    it('should move every occurrence by the same days and to the same local time', () => {
+      // Monday 19:00 -> Tuesday 20:00 local, now 3 hours long
+      const result = shiftOccurrences(
+        '2026-03-23T17:00:00.000Z',
+        '2026-03-24T18:00:00.000Z',
+        '2026-03-24T21:00:00.000Z',
+        ['2026-03-23T17:00:00.000Z', '2026-03-30T16:00:00.000Z'],
+        TIMEZONE
+      );
+
+      expect(result).toEqual([
+        { startsAt: '2026-03-24T18:00:00.000Z', endsAt: '2026-03-24T21:00:00.000Z' },
+        // After the DST change 20:00 local is 17:00 UTC
+        { startsAt: '2026-03-31T17:00:00.000Z', endsAt: '2026-03-31T20:00:00.000Z' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for server/utils/report.js
+ */
+
+import { buildProjectReport, reportToCsv, escapeCsvField } from '../utils/report.js';
+
+const rehearsals = [
+  { id: '1', startsAt: '2025-12-01T18:00:00.000Z', endsAt: '2025-12-01T21:00:00.000Z' },
+  { id: '2', startsAt: '2025-12-03T18:00:00.000Z', endsAt: '2025-12-03T20:00:00.000Z' },
+];
+
+const members = [
+  { user_id: 10, first_name: 'Anna', last_name: 'Ivanova', character_name: 'Juliet' },
+  { user_id: 11, first_name: 'Boris', last_name: null, character_name: null },
+  { user_id: 12, first_name: 'Vera', last_name: 'Petrova', character_name: null },
+];
+
+const responses = [
+  { rehearsal_id: 1, user_id: 10, response: 'yes' },
+  { rehearsal_id: 2, user_id: 10, response: 'maybe' },
+  { rehearsal_id: 1, user_id: 11, response: 'no' },
+  { rehearsal_id: 2, user_id: 11, response: 'yes' },
+  // Outside the report range
+  { rehearsal_id: 99, user_id: 12, response: 'yes' },
+];
+
+const attendance = [
+  { rehearsal_id: 1, user_id: 10, status: 'present', late_minutes: null },
+  { rehearsal_id: 2, user_id: 10, status: 'late', late_minutes: 30 },
+  { rehearsal_id: 1, user_id: 11, status: 'absent', late_minutes: null },
+];
+
+describe('Report Utilities', () => {
+  describe('buildProjectReport', () => {
+    const report = buildProjectReport({ rehearsals, responses, attendance, members });
+
+    it('should count scheduled hours of invited rehearsals per member', () => {
+      expect(report.members.map((m) => m.scheduledHours)).toEqual([5, 5, 0]);
+      expect(report.members.map((m) => m.rehearsals)).toEqual([2, 2, 0]);
+    });
+
+    it('should compute RSVP rates with no as no response', () => {
+      expect(report.members[0].rsvp).toEqual({
+        yes: 1,
+        maybe: 1,
+        noResponse: 0,
+        yesRate: 0.5,
+        maybeRate: 0.5,
+        noResponseRate: 0,
+      });
+      expect(report.members[1].rsvp.noResponseRate).toBe(0.5);
+      expect(report.members[2].rsvp.yesRate).toBeNull();
+    });
+
+    it('should summarise recorded attendance and credit late arrivals partially', () => {
+      expect(report.members[0].attendance).toMatchObject({
+        present: 1,
+        late: 1,
+        absent: 0,
+        rate: 1,
+        avgLateMinutes: 30,
+        attendedHours: 4.5,
+      });
+      expect(report.members[1].attendance).toMatchObject({ absent: 1, rate: 0, attendedHours: 0 });
+      expect(report.members[2].attendance.attendedHours).toBeNull();
+    });
+
+    it('should add project totals', () => {
+      expect(report.totals).toMatchObject({
+        rehearsals: 2,
+        hours: 5,
+        invitations: 4,
+        yesRate: 0.5,
+        maybeRate: 0.25,
+        noResponseRate: 0.25,
+      });
+      expect(report.totals.attendance.total).toBe(3);
+    });
+  });
+
+  describe('reportToCsv', () => {
+    it('should write a header and one row per member', () => {
+      const csv = reportToCsv(buildProjectReport({ rehearsals, responses, attendance, members }));
+      const lines = csv.trimEnd().split('\r\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(/^Member,Character,Rehearsals,Scheduled hours,Yes,Yes %/);
+      expect(lines[1]).toBe('Anna Ivanova,Juliet,2,5,1,50,1,50,0,0,1,1,0,100,4.5');
+      expect(lines[3]).toBe('Vera Petrova,,0,0,0,,0,,0,,0,0,0,,');
+    });
+  });
+
+  describe('escapeCsvField', () => {
+    it('should quote separators, quotes and line breaks', () => {
+      expect(escapeCsvField('Romeo, Act 1')).toBe('"Romeo, Act 1"');
+      expect(escapeCsvField('The "Nurse"')).toBe('"The ""Nurse"""');
+      expect(escapeCsvField('a\nb')).toBe('"a\nb"');
+      expect(escapeCsvField(null)).toBe('');
+      expect(escapeCsvField(4.5)).toBe('4.5');
+    });
+  });
+});
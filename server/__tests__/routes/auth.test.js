@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for the Password Reset Request Route
+ *
+ * Tests that POST /api/auth/forgot-password answers the same for known and unknown addresses
+ */
+import { jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+const dbGet = jest.fn();
+const createAuthToken = jest.fn();
+const sendMail = jest.fn();
+
+jest.unstable_mockModule('../../database/db.js', () => ({
+  default: { get: dbGet, all: jest.fn(), run: jest.fn() },
+}));
+jest.unstable_mockModule('../../services/auth/authTokenService.js', () => ({
+  createAuthToken,
+  consumeAuthToken: jest.fn(),
+}));
+jest.unstable_mockModule('../../services/mail/mailService.js', () => ({
+  sendMail,
+}));
+
+const { default: authRouter } = await import('../../routes/auth.js');
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRouter);
+
+// Let the background reset email finish
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('POST /api/auth/forgot-password', () => {
+  const GENERIC_ANSWER = { message: 'If an account with this email exists, a reset link has been sent' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    createAuthToken.mockResolvedValue('reset-token');
+  });
+
+  afterEach(() => {
+    console.error.mockRestore();
+  });
+
+  it('should send the reset link to a known address', async () => {
+    dbGet.mockResolvedValue({ id: 7, email: 'anna@example.com', first_name: 'Anna', locale: 'en' });
+    sendMail.mockResolvedValue();
+
+    const res = await request(app).post('/api/auth/forgot-password').send({ email: 'anna@example.com' });
+    await flushPromises();
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(GENERIC_ANSWER);
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'anna@example.com' }));
+  });
+
+  it('should give the same answer for an unknown address', async () => {
+    dbGet.mockResolvedValue(undefined);
+
+    const res = await request(app).post('/api/auth/forgot-password').send({ email: 'nobody@example.com' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(GENERIC_ANSWER);
+    expect(createAuthToken).not.toHaveBeenCalled();
+  });
+
+  it('should answer before the mail is sent and stay generic when it fails', async () => {
+    dbGet.mockResolvedValue({ id: 7, email: 'anna@example.com', first_name: 'Anna', locale: 'en' });
+    let failMail;
+    sendMail.mockReturnValue(new Promise((resolve, reject) => { failMail = reject; }));
+
+    const res = await request(app).post('/api/auth/forgot-password').send({ email: 'anna@example.com' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(GENERIC_ANSWER);
+
+    failMail(new Error('SMTP unavailable'));
+    await flushPromises();
+    expect(console.error).toHaveBeenCalledWith('[Auth] Password reset email error:', expect.any(Error));
+  });
+});
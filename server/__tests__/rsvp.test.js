@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for server/utils/rsvp.js
+ */
+
+import {
+  validateRsvp,
+  normalizeRsvpReason,
+  countRsvpResponses,
+  hasAnswered,
+  isRespondByPassed,
+  validateRespondBy,
+  shiftRespondBy,
+  MAX_RSVP_REASON_LENGTH,
+} from '../utils/rsvp.js';
+
+describe('RSVP Utilities', () => {
+  describe('validateRsvp', () => {
+    it('should accept yes, no and maybe', () => {
+      expect(validateRsvp('yes')).toBeNull();
+      expect(validateRsvp('no')).toBeNull();
+      expect(validateRsvp('maybe')).toBeNull();
+    });
+
+    it('should accept maybe with a reason', () => {
+      expect(validateRsvp('maybe', 'Waiting for my work schedule')).toBeNull();
+    });
+
+    it('should reject unknown responses', () => {
+      expect(validateRsvp('pending')).toMatch(/Invalid response value/);
+      expect(validateRsvp(null)).toMatch(/Invalid response value/);
+      expect(validateRsvp(undefined)).toMatch(/Invalid response value/);
+    });
+
+    it('should reject a reason that is not a string', () => {
+      expect(validateRsvp('maybe', 42)).toBe('Invalid reason');
+    });
+
+    it('should reject a reason over the length limit', () => {
+      const reason = 'a'.repeat(MAX_RSVP_REASON_LENGTH + 1);
+      expect(validateRsvp('maybe', reason)).toMatch(/Reason is too long/);
+    });
+  });
+
+  describe('normalizeRsvpReason', () => {
+    it('should trim the reason', () => {
+      expect(normalizeRsvpReason('  Exam that day  ')).toBe('Exam that day');
+    });
+
+    it('should turn empty or missing reasons into null', () => {
+      expect(normalizeRsvpReason('   ')).toBeNull();
+      expect(normalizeRsvpReason(undefined)).toBeNull();
+      expect(normalizeRsvpReason(null)).toBeNull();
+    });
+  });
+
+  describe('hasAnswered', () => {
+    it('should treat yes and maybe as answers', () => {
+      expect(hasAnswered('yes')).toBe(true);
+      expect(hasAnswered('maybe')).toBe(true);
+    });
+
+    it('should treat the initial no, pending and missing responses as not answered', () => {
+      expect(hasAnswered('no')).toBe(false);
+      expect(hasAnswered('pending')).toBe(false);
+      expect(hasAnswered(null)).toBe(false);
+    });
+  });
+
+  describe('isRespondByPassed', () => {
+    const now = new Date('2025-12-08T12:00:00.000Z');
+
+    it('should be false without a deadline', () => {
+      expect(isRespondByPassed(null, now)).toBe(false);
+    });
+
+    it('should compare the deadline with the current time', () => {
+      expect(isRespondByPassed('2025-12-08T11:59:00.000Z', now)).toBe(true);
+      expect(isRespondByPassed('2025-12-08T12:00:00.000Z', now)).toBe(true);
+      expect(isRespondByPassed('2025-12-08T12:01:00.000Z', now)).toBe(false);
+    });
+
+    it('should accept Date objects returned by PostgreSQL', () => {
+      expect(isRespondByPassed(new Date('2025-12-07T00:00:00.000Z'), now)).toBe(true);
+    });
+  });
+
+  describe('validateRespondBy', () => {
+    const startsAt = '2025-12-10T18:00:00.000Z';
+
+    it('should accept a missing deadline', () => {
+      expect(validateRespondBy(null, startsAt)).toBeNull();
+      expect(validateRespondBy(undefined, startsAt)).toBeNull();
+    });
+
+    it('should accept a deadline before the rehearsal starts', () => {
+      expect(validateRespondBy('2025-12-08T18:00:00.000Z', startsAt)).toBeNull();
+      expect(validateRespondBy(startsAt, startsAt)).toBeNull();
+    });
+
+    it('should reject invalid timestamps and deadlines after the start', () => {
+      expect(validateRespondBy('tomorrow', startsAt)).toMatch(/Invalid respondBy/);
+      expect(validateRespondBy('2025-12-10T18:01:00.000Z', startsAt)).toMatch(/must not be after/);
+    });
+  });
+
+  describe('shiftRespondBy', () => {
+    it('should keep the lead time for another occurrence', () => {
+      expect(shiftRespondBy(
+        '2025-12-08T18:00:00.000Z',
+        '2025-12-10T18:00:00.000Z',
+        '2025-12-17T18:00:00.000Z'
+      )).toBe('2025-12-15T18:00:00.000Z');
+    });
+
+    it('should pass missing deadlines through', () => {
+      expect(shiftRespondBy(null, '2025-12-10T18:00:00.000Z', '2025-12-17T18:00:00.000Z')).toBeNull();
+      expect(shiftRespondBy(undefined, '2025-12-10T18:00:00.000Z', '2025-12-17T18:00:00.000Z')).toBeUndefined();
+    });
+  });
+
+  describe('countRsvpResponses', () => {
+    it('should count maybe separately from confirmed', () => {
+      expect(countRsvpResponses(['yes', 'maybe', 'no', 'yes', 'maybe', null])).toEqual({
+        confirmed: 2,
+        maybe: 2,
+        invited: 6,
+        overdue: 0,
+      });
+    });
+
+    it('should return zeros for a rehearsal without participants', () => {
+      expect(countRsvpResponses([])).toEqual({ confirmed: 0, maybe: 0, invited: 0, overdue: 0 });
+    });
+
+    it('should count participants without an answer once the deadline has passed', () => {
+      const responses = ['yes', 'maybe', 'no', null];
+      const now = new Date('2025-12-08T12:00:00.000Z');
+
+      expect(countRsvpResponses(responses, '2025-12-08T10:00:00.000Z', now).overdue).toBe(2);
+      expect(countRsvpResponses(responses, '2025-12-09T10:00:00.000Z', now).overdue).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for server/utils/sessions.js
+ */
+
+import {
+  MAX_DEVICE_NAME_LENGTH,
+  SESSION_TOUCH_INTERVAL_MINUTES,
+  normalizeDeviceName,
+  isSessionActive,
+  getRefreshStatus,
+  isLegacyTokenRevoked,
+  shouldTouchSession,
+} from '../utils/sessions.js';
+
+describe('Sessions', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const session = {
+    id: 1,
+    user_id: 7,
+    refresh_token_hash: 'current-hash',
+    last_used_at: '2026-10-19T11:00:00Z',
+    expires_at: '2027-01-17T12:00:00Z',
+    revoked_at: null,
+  };
+
+  describe('normalizeDeviceName', () => {
+    it('should trim the name', () => {
+      expect(normalizeDeviceName('  Pixel 8 (android) ')).toBe('Pixel 8 (android)');
+    });
+
+    it('should cut long names', () => {
+      expect(normalizeDeviceName('x'.repeat(300))).toHaveLength(MAX_DEVICE_NAME_LENGTH);
+    });
+
+    it('should return null for empty or non-string names', () => {
+      expect(normalizeDeviceName('   ')).toBeNull();
+      expect(normalizeDeviceName(undefined)).toBeNull();
+      expect(normalizeDeviceName(42)).toBeNull();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should accept a signed-in session', () => {
+      expect(isSessionActive(session, now)).toBe(true);
+    });
+
+    it('should accept a session without expiry', () => {
+      expect(isSessionActive({ ...session, expires_at: null }, now)).toBe(true);
+    });
+
+    it('should reject missing, revoked and expired sessions', () => {
+      expect(isSessionActive(undefined, now)).toBe(false);
+      expect(isSessionActive({ ...session, revoked_at: '2026-10-19T10:00:00Z' }, now)).toBe(false);
+      expect(isSessionActive({ ...session, expires_at: '2026-10-19T12:00:00Z' }, now)).toBe(false);
+    });
+  });
+
+  describe('getRefreshStatus', () => {
+    it('should accept the current refresh token', () => {
+      expect(getRefreshStatus(session, 'current-hash', now)).toBe('active');
+    });
+
+    it('should detect reuse of an older token', () => {
+      expect(getRefreshStatus(session, 'old-hash', now)).toBe('reused');
+    });
+
+    it('should report missing, revoked and expired sessions before reuse', () => {
+      expect(getRefreshStatus(undefined, 'old-hash', now)).toBe('missing');
+      expect(getRefreshStatus({ ...session, revoked_at: '2026-10-19T10:00:00Z' }, 'old-hash', now)).toBe('revoked');
+      expect(getRefreshStatus({ ...session, expires_at: '2026-10-18T12:00:00Z' }, 'old-hash', now)).toBe('expired');
+    });
+  });
+
+  describe('isLegacyTokenRevoked', () => {
+    const decoded = { userId: 7, type: 'refresh', iat: Date.parse('2026-10-01T12:00:00Z') / 1000 };
+
+    it('should accept tokens of users who never signed out everywhere', () => {
+      expect(isLegacyTokenRevoked(decoded, null)).toBe(false);
+    });
+
+    it('should reject tokens issued before tokens_valid_after', () => {
+      expect(isLegacyTokenRevoked(decoded, '2026-10-19T12:00:00Z')).toBe(true);
+      expect(isLegacyTokenRevoked(decoded, new Date('2026-10-01T12:00:00Z'))).toBe(true);
+      expect(isLegacyTokenRevoked(decoded, '2026-09-30T12:00:00Z')).toBe(false);
+    });
+  });
+
+  describe('shouldTouchSession', () => {
+    it('should touch a session that was not used recently', () => {
+      expect(shouldTouchSession(session, now)).toBe(true);
+      expect(shouldTouchSession({ ...session, last_used_at: null }, now)).toBe(true);
+    });
+
+    it('should not touch a session used within the interval', () => {
+      const recent = new Date(now.getTime() - (SESSION_TOUCH_INTERVAL_MINUTES * 60 * 1000 - 1));
+      expect(shouldTouchSession({ ...session, last_used_at: recent.toISOString() }, now)).toBe(false);
+    });
+  });
+});
@@ -9,6 +9,7 @@ import {
   timestampToLocal,
   localToTimestamp,
   timestampToISO,
+  splitRangeByLocalDates,
 } from '../utils/timezone.js';
 
 describe('Timezone Utilities', () => {
@@ -235,6 +236,57 @@ describe('Timezone Utilities', () => {
     });
   });
 
+  describe('splitRangeByLocalDates', () => {
+    it('should return a single piece for a range within one local day', () => {
+      const result = splitRangeByLocalDates('2025-12-10T08:00:00.000Z', '2025-12-10T10:00:00.000Z', TIMEZONE);
+
+      expect(result).toEqual([{ date: '2025-12-10', start: '10:00', end: '12:00' }]);
+    });
+
+    it('should split an overnight range at local midnight', () => {
+      // 22:00 Dec 10 - 02:00 Dec 11 Jerusalem
+      const result = splitRangeByLocalDates('2025-12-10T20:00:00.000Z', '2025-12-11T00:00:00.000Z', TIMEZONE);
+
+      expect(result).toEqual([
+        { date: '2025-12-10', start: '22:00', end: '23:59' },
+        { date: '2025-12-11', start: '00:00', end: '02:00' },
+      ]);
+    });
+
+    it('should split by the user timezone, not UTC', () => {
+      // 23:00-23:30 UTC is already the next day in Jerusalem
+      const result = splitRangeByLocalDates('2025-12-10T23:00:00.000Z', '2025-12-10T23:30:00.000Z', TIMEZONE);
+
+      expect(result).toEqual([{ date: '2025-12-11', start: '01:00', end: '01:30' }]);
+    });
+
+    it('should cover every day of a multi-day range', () => {
+      // 18:00 Dec 10 - 09:00 Dec 13 Jerusalem
+      const result = splitRangeByLocalDates('2025-12-10T16:00:00.000Z', '2025-12-13T07:00:00.000Z', TIMEZONE);
+
+      expect(result).toEqual([
+        { date: '2025-12-10', start: '18:00', end: '23:59' },
+        { date: '2025-12-11', start: '00:00', end: '23:59' },
+        { date: '2025-12-12', start: '00:00', end: '23:59' },
+        { date: '2025-12-13', start: '00:00', end: '09:00' },
+      ]);
+    });
+
+    it('should not add an empty piece for a range ending at midnight', () => {
+      // 20:00 Dec 10 - 00:00 Dec 11 Jerusalem
+      const result = splitRangeByLocalDates('2025-12-10T18:00:00.000Z', '2025-12-10T22:00:00.000Z', TIMEZONE);
+
+      expect(result).toEqual([{ date: '2025-12-10', start: '20:00', end: '23:59' }]);
+    });
+
+    it('should cross month and year boundaries', () => {
+      // 23:00 Dec 31 2025 - 01:00 Jan 1 2026 Jerusalem
+      const result = splitRangeByLocalDates('2025-12-31T21:00:00.000Z', '2025-12-31T23:00:00.000Z', TIMEZONE);
+
+      expect(result.map(piece => piece.date)).toEqual(['2025-12-31', '2026-01-01']);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle year boundary (New Year)', () => {
       // Dec 31, 2025, 23:00 Jerusalem = Dec 31, 2025, 21:00 UTC
@@ -0,0 +1,56 @@
+/**
+ * Unit Tests for server/utils/workingHours.js
+ */
+
+import { validateWorkingHours, parseWorkingHours } from '../utils/workingHours.js';
+
+describe('Working Hours Utilities', () => {
+  describe('validateWorkingHours', () => {
+    it('should accept partial weekday map with days off', () => {
+      expect(validateWorkingHours({
+        monday: { start: '11:00', end: '23:00' },
+        sunday: { start: '09:00', end: '18:00' },
+        saturday: null,
+      })).toBeNull();
+    });
+
+    it('should accept null to reset to defaults', () => {
+      expect(validateWorkingHours(null)).toBeNull();
+    });
+
+    it('should reject unknown weekdays', () => {
+      expect(validateWorkingHours({ funday: { start: '10:00', end: '12:00' } }))
+        .toBe('Invalid weekday: funday');
+    });
+
+    it('should reject malformed times', () => {
+      expect(validateWorkingHours({ monday: { start: '9:00', end: '23:00' } }))
+        .toMatch(/Invalid time format for monday/);
+      expect(validateWorkingHours({ monday: { start: '09:00' } }))
+        .toMatch(/Invalid time format for monday/);
+    });
+
+    it('should reject start after end', () => {
+      expect(validateWorkingHours({ friday: { start: '18:00', end: '11:00' } }))
+        .toBe('Start must be before end for friday');
+    });
+
+    it('should reject non-object values', () => {
+      expect(validateWorkingHours('09:00-23:00')).toBe('Invalid working hours');
+      expect(validateWorkingHours([])).toBe('Invalid working hours');
+    });
+  });
+
+  describe('parseWorkingHours', () => {
+    it('should parse JSON strings (SQLite) and pass objects through (PostgreSQL)', () => {
+      const hours = { monday: { start: '11:00', end: '23:00' } };
+      expect(parseWorkingHours(JSON.stringify(hours))).toEqual(hours);
+      expect(parseWorkingHours(hours)).toBe(hours);
+    });
+
+    it('should return null for empty or invalid values', () => {
+      expect(parseWorkingHours(null)).toBeNull();
+      expect(parseWorkingHours('not json')).toBeNull();
+    });
+  });
+});
@@ -8,10 +8,12 @@
  * No special date/time conversion needed here - handled by the database driver.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import Database from 'better-sqlite3';
 import path from 'path';
 import pkg from 'pg';
 import { logger } from '../utils/logger.js';
+import { createSqliteDb } from './sqlite.js';
 
 const { Pool } = pkg;
 
@@ -20,6 +22,9 @@ let sqlite;
 let db;
 export let isPostgres = false;
 
+// Client of the transaction the current async call chain runs in, see db.transaction()
+const transactionClient = new AsyncLocalStorage();
+
 export async function initDatabase() {
   const databaseUrl = process.env.DATABASE_URL || process.env.POSTGRES_URL;
   if (databaseUrl) {
@@ -40,40 +45,55 @@ export async function initDatabase() {
       return sql.replace(/\?/g, () => `$${++idx}`);
     }
 
+    // Inside db.transaction() every query goes through the transaction's client
+    function query(sql, params) {
+      return (transactionClient.getStore() || pool).query(transform(sql), params);
+    }
+
     db = {
       async run(sql, params = []) {
         let q = sql.trim();
         if (/^insert\s+/i.test(q) && !/returning/i.test(q)) {
           q += ' RETURNING id';
         }
-        const res = await pool.query(transform(q), params);
+        const res = await query(q, params);
         return { lastInsertId: res.rows[0]?.id };
       },
       async get(sql, params = []) {
-        const res = await pool.query(transform(sql), params);
+        const res = await query(sql, params);
         return res.rows[0];
       },
       async all(sql, params = []) {
-        const res = await pool.query(transform(sql), params);
+        const res = await query(sql, params);
         return res.rows;
       },
+      /**
+       * Run fn in a transaction: if it throws, none of its writes are kept
+       * Queries made by fn and the functions it calls join the transaction on their own.
+       */
+      async transaction(fn) {
+        if (transactionClient.getStore()) {
+          return fn();
+        }
+        const client = await pool.connect();
+        try {
+          await client.query('BEGIN');
+          const result = await transactionClient.run(client, fn);
+          await client.query('COMMIT');
+          return result;
+        } catch (err) {
+          await client.query('ROLLBACK');
+          throw err;
+        } finally {
+          client.release();
+        }
+      },
     };
   } else {
     const dbPath = path.join(process.cwd(), 'server', 'database', 'data.sqlite');
     sqlite = new Database(dbPath);
     logger.info('Using SQLite database');
-    db = {
-      run(sql, params = []) {
-        const info = sqlite.prepare(sql).run(params);
-        return { lastInsertId: info.lastInsertRowid };
-      },
-      get(sql, params = []) {
-        return sqlite.prepare(sql).get(params);
-      },
-      all(sql, params = []) {
-        return sqlite.prepare(sql).all(params);
-      },
-    };
+    db = createSqliteDb(sqlite);
   }
 
   return db;
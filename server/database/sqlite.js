@@ -0,0 +1,75 @@
+/**
+ * SQLite fallback of the database layer, used when no PostgreSQL connection is configured
+ *
+ * All requests share one connection, so a transaction can't run beside other statements:
+ * while one is open, statements from outside it wait until it commits or rolls back.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Wrap a better-sqlite3 connection in the interface of db.js
+ * @param {object} sqlite - Connection with prepare() and exec()
+ * @returns {object} - { run, get, all, transaction }
+ */
+export function createSqliteDb(sqlite) {
+  // Set for the async call chain running inside db.transaction()
+  const transactionScope = new AsyncLocalStorage();
+  // Resolves once the open transaction has ended; null when none is open
+  let openTransaction = null;
+
+  async function afterOpenTransaction(statement) {
+    while (openTransaction) {
+      await openTransaction;
+    }
+    return statement();
+  }
+
+  // Runs right away unless another call chain has a transaction open
+  function execute(statement) {
+    if (!openTransaction || transactionScope.getStore()) {
+      return statement();
+    }
+    return afterOpenTransaction(statement);
+  }
+
+  return {
+    run(sql, params = []) {
+      return execute(() => {
+        const info = sqlite.prepare(sql).run(params);
+        return { lastInsertId: info.lastInsertRowid };
+      });
+    },
+    get(sql, params = []) {
+      return execute(() => sqlite.prepare(sql).get(params));
+    },
+    all(sql, params = []) {
+      return execute(() => sqlite.prepare(sql).all(params));
+    },
+    /**
+     * Run fn in a transaction: if it throws, none of its writes are kept
+     * Queries made by fn and the functions it calls join the transaction on their own.
+     */
+    async transaction(fn) {
+      if (transactionScope.getStore()) {
+        return fn();
+      }
+      return afterOpenTransaction(async () => {
+        let finish;
+        openTransaction = new Promise(resolve => { finish = resolve; });
+        sqlite.exec('BEGIN');
+        try {
+          const result = await transactionScope.run(true, fn);
+          sqlite.exec('COMMIT');
+          return result;
+        } catch (err) {
+          sqlite.exec('ROLLBACK');
+          throw err;
+        } finally {
+          openTransaction = null;
+          finish();
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { sendDueDigests } from '../services/mail/digestService.js';
+import { logger } from '../utils/logger.js';
+
+// How often due digests are looked for unless EMAIL_DIGEST_INTERVAL_MINUTES is set
+export const DEFAULT_DIGEST_INTERVAL_MINUTES = 60;
+
+/**
+ * Send the email digests that are due once, logging instead of throwing
+ * @returns {Promise<{sent: number, empty: number, failed: number}|null>} - Result or null on failure
+ */
+export async function runEmailDigestJob() {
+  try {
+    const result = await sendDueDigests();
+    if (result.sent > 0 || result.failed > 0) {
+      logger.info(`[emailDigestJob] Digests: ${result.sent} sent, ${result.failed} failed`);
+    }
+    return result;
+  } catch (error) {
+    logger.error('[emailDigestJob] Failed to send digests:', error);
+    return null;
+  }
+}
+
+/**
+ * Start sending email digests periodically (first run right away)
+ * @param {number} intervalMinutes - Minutes between runs; 0 disables the job
+ * @returns {NodeJS.Timeout|null} - Interval handle, or null when disabled
+ */
+export function startEmailDigestJob(intervalMinutes = DEFAULT_DIGEST_INTERVAL_MINUTES) {
+  if (!(intervalMinutes > 0)) {
+    logger.info('[emailDigestJob] Disabled');
+    return null;
+  }
+
+  runEmailDigestJob();
+  const timer = setInterval(runEmailDigestJob, intervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for the job
+  timer.unref();
+
+  logger.info(`[emailDigestJob] Looking for due digests every ${intervalMinutes} min`);
+  return timer;
+}
@@ -0,0 +1,49 @@
+import { refreshRsvpFollowUps } from '../services/rehearsals/followUpService.js';
+import { notifyRsvpReminders } from '../services/notifications/notificationService.js';
+import { logger } from '../utils/logger.js';
+
+// How often the follow-up list is refreshed unless RSVP_FOLLOW_UP_INTERVAL_MINUTES is set
+export const DEFAULT_FOLLOW_UP_INTERVAL_MINUTES = 15;
+
+/**
+ * Refresh the RSVP follow-up list once, logging instead of throwing
+ * Members who just missed a respond-by deadline get a reminder.
+ * @returns {Promise<{added: number, removed: number}|null>} - Result or null on failure
+ */
+export async function runRsvpFollowUpJob() {
+  try {
+    const result = await refreshRsvpFollowUps();
+    if (result.added > 0 || result.removed > 0) {
+      logger.info(`[rsvpFollowUpJob] Follow-ups: ${result.added} added, ${result.removed} resolved`);
+    }
+    if (result.addedFollowUps.length > 0) {
+      await notifyRsvpReminders(result.addedFollowUps).catch(error =>
+        logger.error('[rsvpFollowUpJob] Failed to send RSVP reminders:', error)
+      );
+    }
+    return result;
+  } catch (error) {
+    logger.error('[rsvpFollowUpJob] Failed to refresh follow-ups:', error);
+    return null;
+  }
+}
+
+/**
+ * Start refreshing the RSVP follow-up list periodically (first run right away)
+ * @param {number} intervalMinutes - Minutes between runs; 0 disables the job
+ * @returns {NodeJS.Timeout|null} - Interval handle, or null when disabled
+ */
+export function startRsvpFollowUpJob(intervalMinutes = DEFAULT_FOLLOW_UP_INTERVAL_MINUTES) {
+  if (!(intervalMinutes > 0)) {
+    logger.info('[rsvpFollowUpJob] Disabled');
+    return null;
+  }
+
+  runRsvpFollowUpJob();
+  const timer = setInterval(runRsvpFollowUpJob, intervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for the job
+  timer.unref();
+
+  logger.info(`[rsvpFollowUpJob] Refreshing follow-ups every ${intervalMinutes} min`);
+  return timer;
+}
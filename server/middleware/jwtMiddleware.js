@@ -1,4 +1,7 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { getSession, touchSession, getTokensValidAfter } from '../services/auth/sessionService.js';
+import { isSessionActive, isLegacyTokenRevoked, shouldTouchSession, SESSION_ERRORS } from '../utils/sessions.js';
 
 // Fail-fast: Require JWT_SECRET in production
 const isProduction = process.env.NODE_ENV === 'production';
@@ -24,18 +27,38 @@ const SECRET = JWT_SECRET || 'dev-only-insecure-secret-change-immediately';
 const JWT_EXPIRES_IN = '30d'; // Access token expires in 30 days (mobile app convenience)
 const REFRESH_TOKEN_EXPIRES_IN = '90d'; // Refresh token expires in 90 days
 
-export function generateTokens(userId) {
-  const accessToken = jwt.sign({ userId, type: 'access' }, SECRET, {
+/**
+ * Issue an access/refresh token pair
+ * Tokens of a session carry its id (sid), so revoking the session signs the device out.
+ * Every refresh token gets a unique id (jti), so a rotated token never equals the one it replaces.
+ * @param {number} userId - User ID
+ * @param {number} [sessionId] - Session the tokens belong to
+ */
+export function generateTokens(userId, sessionId) {
+  const session = sessionId ? { sid: sessionId } : {};
+
+  const accessToken = jwt.sign({ userId, type: 'access', ...session }, SECRET, {
     expiresIn: JWT_EXPIRES_IN,
   });
 
-  const refreshToken = jwt.sign({ userId, type: 'refresh' }, SECRET, {
+  const refreshToken = jwt.sign({ userId, type: 'refresh', ...session }, SECRET, {
     expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+    jwtid: crypto.randomUUID(),
   });
 
   return { accessToken, refreshToken };
 }
 
+/**
+ * Read when a token expires
+ * @param {string} token - Signed JWT
+ * @returns {Date|null}
+ */
+export function getTokenExpiry(token) {
+  const decoded = jwt.decode(token);
+  return decoded?.exp ? new Date(decoded.exp * 1000) : null;
+}
+
 export function verifyToken(token, type = 'access') {
   try {
     const decoded = jwt.verify(token, SECRET);
@@ -62,7 +85,39 @@ export function authenticateToken(req, res, next) {
   }
 
   req.userId = decoded.userId;
-  next();
+
+  // Tokens issued before sessions existed have no session; they stop at the user's tokens_valid_after
+  if (!decoded.sid) {
+    return getTokensValidAfter(decoded.userId)
+      .then(tokensValidAfter => {
+        if (isLegacyTokenRevoked(decoded, tokensValidAfter)) {
+          return res.status(401).json({ error: SESSION_ERRORS.revoked });
+        }
+        next();
+      })
+      .catch(err => {
+        console.error('[Auth] Session check error:', err);
+        res.status(500).json({ error: 'Failed to check session' });
+      });
+  }
+
+  req.sessionId = decoded.sid;
+  getSession(decoded.sid)
+    .then(session => {
+      const now = new Date();
+      if (!isSessionActive(session, now)) {
+        return res.status(401).json({ error: SESSION_ERRORS.revoked });
+      }
+
+      if (shouldTouchSession(session, now)) {
+        touchSession(session.id).catch(err => console.error('[Auth] Session touch error:', err));
+      }
+      next();
+    })
+    .catch(err => {
+      console.error('[Auth] Session check error:', err);
+      res.status(500).json({ error: 'Failed to check session' });
+    });
 }
 
 // Alias for backwards compatibility
@@ -0,0 +1,24 @@
+-- Migration: Password reset and email verification tokens
+-- Created: 2026-10-19
+-- Purpose: Store one-time tokens sent by email and track which users confirmed their address
+
+CREATE TABLE IF NOT EXISTS native_auth_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  purpose VARCHAR(32) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_native_auth_tokens_user ON native_auth_tokens(user_id, purpose);
+
+ALTER TABLE native_users
+ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ;
+
+-- Add comments
+COMMENT ON TABLE native_auth_tokens IS 'One-time tokens mailed for password reset and email verification';
+COMMENT ON COLUMN native_auth_tokens.token_hash IS 'SHA-256 of the token; the token itself is only in the email';
+COMMENT ON COLUMN native_auth_tokens.used_at IS 'When the token was redeemed; a token works once';
+COMMENT ON COLUMN native_users.email_verified_at IS 'When the user confirmed the email address, NULL if not yet';
@@ -0,0 +1,14 @@
+-- Migration: Email digest of upcoming rehearsals
+-- Created: 2026-10-19
+-- Purpose: Let users with email notifications on choose a daily or weekly digest, and remember when the last one went out
+
+ALTER TABLE native_users
+ADD COLUMN IF NOT EXISTS email_digest_frequency VARCHAR(10) DEFAULT 'weekly'
+CHECK (email_digest_frequency IN ('daily', 'weekly'));
+
+ALTER TABLE native_users
+ADD COLUMN IF NOT EXISTS email_digest_sent_at TIMESTAMPTZ;
+
+-- Add comments
+COMMENT ON COLUMN native_users.email_digest_frequency IS 'How often the digest is mailed while email_notifications is on: daily or weekly (on the week start day)';
+COMMENT ON COLUMN native_users.email_digest_sent_at IS 'When the last digest was due and handled, also when there was nothing to send';
@@ -0,0 +1,14 @@
+-- Migration: Join requests through invite links
+-- Created: 2026-10-19
+-- Purpose: Let invite links require admin approval; joining through such a link creates a pending member
+
+ALTER TABLE native_project_invites
+ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE native_project_members
+ADD COLUMN IF NOT EXISTS invite_id INTEGER REFERENCES native_project_invites(id) ON DELETE SET NULL;
+
+-- Add comments
+COMMENT ON COLUMN native_project_invites.requires_approval IS 'Joining creates a pending member (status invited) that an admin approves or rejects';
+COMMENT ON COLUMN native_project_members.invite_id IS 'Invite link the member joined or asked to join through';
+COMMENT ON COLUMN native_project_members.status IS 'active, invited (join request waiting for approval), declined (join request rejected) or left';
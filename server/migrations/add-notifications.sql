@@ -0,0 +1,26 @@
+-- Migration: In-app notification inbox
+-- Created: 2026-10-19
+-- Purpose: Keep every notification a user was sent, so events aren't lost when a push is missed
+
+CREATE TABLE IF NOT EXISTS native_notifications (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  project_id INTEGER REFERENCES native_projects(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_native_notifications_user ON native_notifications(user_id, created_at DESC);
+
+-- Unread counts only look at unread entries
+CREATE INDEX IF NOT EXISTS idx_native_notifications_unread ON native_notifications(user_id) WHERE read_at IS NULL;
+
+-- Add comments
+COMMENT ON TABLE native_notifications IS 'Inbox of each user: rehearsal changes, RSVPs and reminders, join requests and role changes';
+COMMENT ON COLUMN native_notifications.title IS 'Written in the language and timezone the user had when it was sent, like the push';
+COMMENT ON COLUMN native_notifications.data IS 'What the entry opens in the app: { type, projectId, rehearsalId? }, same as the push data';
+COMMENT ON COLUMN native_notifications.read_at IS 'When the user read the entry; NULL while unread';
@@ -0,0 +1,9 @@
+-- Migration: Add archiving to native_projects
+-- Created: 2026-10-19
+-- Purpose: Let admins archive finished projects; archived projects stay readable but can't be changed
+
+ALTER TABLE native_projects
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN native_projects.archived_at IS
+'When the project was archived. NULL = active project';
@@ -0,0 +1,38 @@
+-- Migration: Move invite links into their own table
+-- Created: 2026-10-19
+-- Purpose: Allow several named invite links per project, each granting a role, with a usage limit and expiry
+
+CREATE TABLE IF NOT EXISTS native_project_invites (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+  code VARCHAR(64) NOT NULL UNIQUE,
+  label VARCHAR(100),
+  role VARCHAR(20) NOT NULL DEFAULT 'member',
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ,
+  created_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_invites_project ON native_project_invites(project_id);
+
+-- Carry over the single invite link each project had
+INSERT INTO native_project_invites (project_id, code, role, expires_at, created_by)
+SELECT id, invite_code, 'member', invite_expires_at, invite_created_by
+FROM native_projects
+WHERE invite_code IS NOT NULL
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE native_projects
+DROP COLUMN IF EXISTS invite_code,
+DROP COLUMN IF EXISTS invite_expires_at,
+DROP COLUMN IF EXISTS invite_created_by;
+
+-- Add comments
+COMMENT ON TABLE native_project_invites IS 'Invite links of a project; several can be active at once';
+COMMENT ON COLUMN native_project_invites.role IS 'Role given to members joining through the link (never owner)';
+COMMENT ON COLUMN native_project_invites.max_uses IS 'How many members can join through the link (NULL = unlimited)';
+COMMENT ON COLUMN native_project_invites.use_count IS 'How many members have joined through the link';
+COMMENT ON COLUMN native_project_invites.revoked_at IS 'When an admin revoked the link (NULL = not revoked)';
@@ -0,0 +1,40 @@
+-- Migration: Add scene/character breakdown
+-- Created: 2026-10-19
+-- Purpose: Per-project scene list linked to the members who appear in each scene,
+--          and the scenes worked on in each rehearsal
+
+CREATE TABLE IF NOT EXISTS native_project_scenes (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  position INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_scenes_project ON native_project_scenes(project_id);
+
+-- Members appearing in a scene
+CREATE TABLE IF NOT EXISTS native_scene_members (
+  scene_id INTEGER NOT NULL REFERENCES native_project_scenes(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  PRIMARY KEY (scene_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scene_members_user ON native_scene_members(user_id);
+
+-- Scenes rehearsed in a rehearsal
+CREATE TABLE IF NOT EXISTS native_rehearsal_scenes (
+  rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+  scene_id INTEGER NOT NULL REFERENCES native_project_scenes(id) ON DELETE CASCADE,
+  PRIMARY KEY (rehearsal_id, scene_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rehearsal_scenes_scene ON native_rehearsal_scenes(scene_id);
+
+-- Add comments
+COMMENT ON TABLE native_project_scenes IS 'Scenes of a project (scene/character breakdown)';
+COMMENT ON COLUMN native_project_scenes.position IS 'Display order within the project';
+COMMENT ON TABLE native_scene_members IS 'Project members appearing in a scene';
+COMMENT ON TABLE native_rehearsal_scenes IS 'Scenes planned for a rehearsal';
@@ -0,0 +1,11 @@
+-- Migration: Add per-weekday working hours to native_projects
+-- Created: 2026-10-19
+-- Purpose: Let each project limit when rehearsals can be scheduled (e.g. not before 11:00 on weekdays)
+
+-- Shape: {"monday": {"start": "11:00", "end": "23:00"}, ..., "sunday": {"start": "09:00", "end": "18:00"}}
+-- A weekday set to null has no rehearsals; missing weekdays and NULL column use the 09:00-23:00 default
+ALTER TABLE native_projects
+ADD COLUMN IF NOT EXISTS working_hours JSONB;
+
+COMMENT ON COLUMN native_projects.working_hours IS
+'Rehearsal window per weekday (monday..sunday -> {start, end} in HH:mm, null = day off). NULL = default 09:00-23:00';
@@ -0,0 +1,19 @@
+-- Migration: Push notification tokens
+-- Created: 2026-10-19
+-- Purpose: Store the Expo push tokens of signed-in devices so rehearsal changes can be pushed to them
+
+CREATE TABLE IF NOT EXISTS native_push_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  session_id INTEGER REFERENCES native_user_sessions(id) ON DELETE CASCADE,
+  token VARCHAR(255) NOT NULL UNIQUE,
+  platform VARCHAR(20),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_native_push_tokens_user ON native_push_tokens(user_id);
+
+-- Add comments
+COMMENT ON TABLE native_push_tokens IS 'Expo push tokens, one per app install; a token moves to whoever signs in on the device last';
+COMMENT ON COLUMN native_push_tokens.session_id IS 'Session that registered the token; nothing is pushed once it is revoked';
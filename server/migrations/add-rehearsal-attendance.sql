@@ -0,0 +1,20 @@
+-- Migration: Add attendance tracking for rehearsals
+-- Created: 2026-10-19
+-- Purpose: Record who actually showed up (present, late or absent), separately from the RSVP answer
+
+CREATE TABLE IF NOT EXISTS native_rehearsal_attendance (
+  id SERIAL PRIMARY KEY,
+  rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('present', 'late', 'absent')),
+  late_minutes INTEGER CHECK (late_minutes IS NULL OR late_minutes > 0),
+  marked_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+  marked_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (rehearsal_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rehearsal_attendance_user ON native_rehearsal_attendance(user_id);
+
+-- Add comments
+COMMENT ON TABLE native_rehearsal_attendance IS 'Attendance of invited participants, marked by admins once a rehearsal has started';
+COMMENT ON COLUMN native_rehearsal_attendance.late_minutes IS 'How late the participant arrived (only for status late)';
@@ -0,0 +1,27 @@
+-- Migration: Add respond-by deadline to rehearsals and the RSVP follow-up list
+-- Created: 2026-10-19
+-- Purpose: Flag invited members who haven't answered by a deadline so admins can follow up with them
+
+ALTER TABLE native_rehearsals
+ADD COLUMN IF NOT EXISTS respond_by TIMESTAMPTZ;
+
+-- Overdue non-responders, refreshed periodically by the RSVP follow-up job
+-- A row disappears once the member answers, the deadline moves or the rehearsal starts
+CREATE TABLE IF NOT EXISTS native_rsvp_follow_ups (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+  rehearsal_id INTEGER NOT NULL REFERENCES native_rehearsals(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+  contacted_at TIMESTAMPTZ,
+  contacted_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+  UNIQUE (rehearsal_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rsvp_follow_ups_project ON native_rsvp_follow_ups(project_id);
+CREATE INDEX IF NOT EXISTS idx_rehearsals_respond_by ON native_rehearsals(respond_by) WHERE respond_by IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN native_rehearsals.respond_by IS 'Deadline for invited members to answer (NULL = no deadline)';
+COMMENT ON TABLE native_rsvp_follow_ups IS 'Invited members who missed the respond-by deadline of an upcoming rehearsal';
+COMMENT ON COLUMN native_rsvp_follow_ups.contacted_at IS 'When an admin marked the member as followed up (NULL = still to do)';
@@ -0,0 +1,36 @@
+-- Migration: Add recurring rehearsal series
+-- Created: 2026-10-19
+-- Purpose: Group rehearsals created from one recurrence rule so they can be edited/deleted together
+
+CREATE TABLE IF NOT EXISTS native_rehearsal_series (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES native_projects(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'custom')),
+  weekdays VARCHAR(20),
+  until_date DATE,
+  occurrence_count INTEGER,
+  created_by INTEGER REFERENCES native_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rehearsal_series_project ON native_rehearsal_series(project_id);
+
+-- Link rehearsals to their series
+ALTER TABLE native_rehearsals
+ADD COLUMN IF NOT EXISTS series_id INTEGER REFERENCES native_rehearsal_series(id) ON DELETE SET NULL;
+
+-- Occurrences edited individually keep their changes when the rest of the series is edited
+ALTER TABLE native_rehearsals
+ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_rehearsals_series ON native_rehearsals(series_id);
+
+-- Add comments
+COMMENT ON TABLE native_rehearsal_series IS 'Recurrence rules for rehearsal series';
+COMMENT ON COLUMN native_rehearsal_series.weekdays IS 'Comma-separated weekdays for custom frequency (0 = Sunday ... 6 = Saturday)';
+COMMENT ON COLUMN native_rehearsal_series.until_date IS 'Last date of the series (inclusive), mutually optional with occurrence_count';
+COMMENT ON COLUMN native_rehearsal_series.occurrence_count IS 'Number of occurrences created for the series';
+COMMENT ON COLUMN native_rehearsals.series_id IS 'Series this rehearsal belongs to (NULL for one-off rehearsals)';
+COMMENT ON COLUMN native_rehearsals.is_series_exception IS 'TRUE when this occurrence was edited separately from its series';
@@ -0,0 +1,26 @@
+-- Migration: User sessions
+-- Created: 2026-10-19
+-- Purpose: Record each signed-in device so refresh tokens can be rotated, listed and revoked
+
+CREATE TABLE IF NOT EXISTS native_user_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES native_users(id) ON DELETE CASCADE,
+  device_name VARCHAR(100),
+  refresh_token_hash VARCHAR(64),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_native_user_sessions_user ON native_user_sessions(user_id);
+
+-- Tokens issued before sessions existed carry no session id and are revoked per user
+ALTER TABLE native_users ADD COLUMN IF NOT EXISTS tokens_valid_after TIMESTAMPTZ;
+
+-- Add comments
+COMMENT ON TABLE native_user_sessions IS 'Signed-in devices; access and refresh tokens carry the session id (sid)';
+COMMENT ON COLUMN native_user_sessions.refresh_token_hash IS 'SHA-256 of the only refresh token that may be used next; an older one means the token was stolen';
+COMMENT ON COLUMN native_user_sessions.expires_at IS 'Expiry of the current refresh token, moved forward on every rotation';
+COMMENT ON COLUMN native_user_sessions.revoked_at IS 'Signed out, revoked from another device or closed after refresh token reuse';
+COMMENT ON COLUMN native_users.tokens_valid_after IS 'Tokens without a session id issued up to this time no longer work; set on sign out everywhere and password changes';
@@ -1,19 +1,72 @@
 import { Router } from 'express';
 import bcrypt from 'bcrypt';
 import db from '../database/db.js';
-import { generateTokens, verifyToken, requireAuth } from '../middleware/jwtMiddleware.js';
+import { generateTokens, verifyToken, getTokenExpiry, requireAuth } from '../middleware/jwtMiddleware.js';
+import { AUTH_TOKEN_PURPOSES, validatePassword } from '../utils/authTokens.js';
+import { buildPasswordResetEmail, buildEmailVerificationEmail } from '../utils/authEmails.js';
+import { generateAppUrl } from '../utils/appLinks.js';
+import { normalizeDeviceName, getRefreshStatus, isLegacyTokenRevoked, SESSION_ERRORS } from '../utils/sessions.js';
+import { DIGEST_FREQUENCIES } from '../utils/digest.js';
+import { createAuthToken, consumeAuthToken } from '../services/auth/authTokenService.js';
+import { sendMail } from '../services/mail/mailService.js';
+import {
+  createSession,
+  setSessionRefreshToken,
+  getSession,
+  rotateSessionRefreshToken,
+  getUserSessions,
+  revokeSession,
+  revokeUserSessions,
+  getTokensValidAfter,
+} from '../services/auth/sessionService.js';
+import { hashAuthToken } from '../utils/authTokens.js';
 
 const router = Router();
 
+// Mail a link to the app's email verification screen
+async function sendVerificationEmail(user) {
+  const token = await createAuthToken(user.id, AUTH_TOKEN_PURPOSES.EMAIL_VERIFICATION);
+  const { subject, text } = buildEmailVerificationEmail({
+    firstName: user.first_name,
+    locale: user.locale,
+    url: generateAppUrl(`verify-email/${token}`),
+  });
+  await sendMail({ to: user.email, subject, text });
+}
+
+// Mail a link to the app's password reset screen
+async function sendPasswordResetEmail(user) {
+  const token = await createAuthToken(user.id, AUTH_TOKEN_PURPOSES.PASSWORD_RESET);
+  const { subject, text } = buildPasswordResetEmail({
+    firstName: user.first_name,
+    locale: user.locale,
+    url: generateAppUrl(`reset-password/${token}`),
+  });
+  await sendMail({ to: user.email, subject, text });
+}
+
+// Sign a device in: start a session and issue its first tokens
+async function startSession(userId, deviceName) {
+  const sessionId = await createSession(userId, normalizeDeviceName(deviceName));
+  const tokens = generateTokens(userId, sessionId);
+  await setSessionRefreshToken(sessionId, tokens.refreshToken, getTokenExpiry(tokens.refreshToken));
+  return tokens;
+}
+
 // Register new user
 router.post('/register', async (req, res) => {
   try {
-    const { email, password, firstName, lastName } = req.body;
+    const { email, password, firstName, lastName, deviceName } = req.body;
 
     if (!email || !password || !firstName) {
       return res.status(400).json({ error: 'Email, password and first name are required' });
     }
 
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
     // Check if user already exists
     const existing = await db.get('SELECT id FROM native_users WHERE email = $1', [email]);
     if (existing) {
@@ -33,16 +86,21 @@ router.post('/register', async (req, res) => {
     const userId = result.lastInsertId;
 
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(userId);
+    const { accessToken, refreshToken } = await startSession(userId, deviceName);
 
     // Get user data
     const user = await db.get(
       `SELECT id, email, first_name, last_name, timezone, locale,
-              notifications_enabled, email_notifications, week_start_day
+              notifications_enabled, email_notifications, email_digest_frequency, week_start_day, email_verified_at
        FROM native_users WHERE id = $1`,
       [userId]
     );
 
+    // Registration doesn't wait for the mail; the app can ask for another one
+    sendVerificationEmail(user).catch((err) => {
+      console.error('[Auth] Verification email error:', err);
+    });
+
     res.json({
       user: {
         id: user.id,
@@ -53,7 +111,9 @@ router.post('/register', async (req, res) => {
         locale: user.locale,
         notificationsEnabled: user.notifications_enabled,
         emailNotifications: user.email_notifications,
+        emailDigestFrequency: user.email_digest_frequency,
         weekStartDay: user.week_start_day,
+        emailVerified: Boolean(user.email_verified_at),
       },
       accessToken,
       refreshToken,
@@ -67,7 +127,7 @@ router.post('/register', async (req, res) => {
 // Login
 router.post('/login', async (req, res) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, deviceName } = req.body;
 
     if (!email || !password) {
       return res.status(400).json({ error: 'Email and password are required' });
@@ -76,7 +136,7 @@ router.post('/login', async (req, res) => {
     // Get user
     const user = await db.get(
       `SELECT id, email, password_hash, first_name, last_name, timezone, locale,
-              notifications_enabled, email_notifications, week_start_day
+              notifications_enabled, email_notifications, email_digest_frequency, week_start_day, email_verified_at
        FROM native_users WHERE email = $1`,
       [email]
     );
@@ -95,7 +155,7 @@ router.post('/login', async (req, res) => {
     await db.run('UPDATE native_users SET last_login_at = NOW() WHERE id = $1', [user.id]);
 
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id);
+    const { accessToken, refreshToken } = await startSession(user.id, deviceName);
 
     res.json({
       user: {
@@ -107,7 +167,9 @@ router.post('/login', async (req, res) => {
         locale: user.locale,
         notificationsEnabled: user.notifications_enabled,
         emailNotifications: user.email_notifications,
+        emailDigestFrequency: user.email_digest_frequency,
         weekStartDay: user.week_start_day,
+        emailVerified: Boolean(user.email_verified_at),
       },
       accessToken,
       refreshToken,
@@ -121,7 +183,7 @@ router.post('/login', async (req, res) => {
 // Refresh access token
 router.post('/refresh', async (req, res) => {
   try {
-    const { refreshToken } = req.body;
+    const { refreshToken, deviceName } = req.body;
 
     if (!refreshToken) {
       return res.status(400).json({ error: 'Refresh token is required' });
@@ -132,8 +194,39 @@ router.post('/refresh', async (req, res) => {
       return res.status(401).json({ error: 'Invalid or expired refresh token' });
     }
 
-    // Generate new tokens
-    const tokens = generateTokens(decoded.userId);
+    // Tokens issued before sessions existed move into a new session, unless they were revoked since
+    if (!decoded.sid) {
+      if (isLegacyTokenRevoked(decoded, await getTokensValidAfter(decoded.userId))) {
+        return res.status(401).json({ error: SESSION_ERRORS.revoked });
+      }
+      return res.json(await startSession(decoded.userId, deviceName));
+    }
+
+    const session = await getSession(decoded.sid);
+    const status = getRefreshStatus(session, hashAuthToken(refreshToken));
+
+    if (status === 'reused') {
+      console.warn(`[Auth] Refresh token reuse detected, revoking session ${session.id}`);
+      await revokeSession(session.user_id, session.id);
+    }
+    if (status !== 'active') {
+      return res.status(401).json({ error: SESSION_ERRORS[status] });
+    }
+
+    // Rotate: the presented token stops working once the new one is stored
+    const tokens = generateTokens(decoded.userId, session.id);
+    const rotated = await rotateSessionRefreshToken(
+      session.id,
+      refreshToken,
+      tokens.refreshToken,
+      getTokenExpiry(tokens.refreshToken)
+    );
+    if (!rotated) {
+      // Another refresh with the same token got there first
+      console.warn(`[Auth] Refresh token reuse detected, revoking session ${session.id}`);
+      await revokeSession(session.user_id, session.id);
+      return res.status(401).json({ error: SESSION_ERRORS.reused });
+    }
 
     res.json(tokens);
   } catch (err) {
@@ -142,12 +235,187 @@ router.post('/refresh', async (req, res) => {
   }
 });
 
+// Sign out the current device
+router.post('/logout', requireAuth, async (req, res) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.userId, req.sessionId);
+    }
+    res.json({ message: 'Logged out' });
+  } catch (err) {
+    console.error('[Auth] Logout error:', err);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// List the devices the user is signed in on
+router.get('/sessions', requireAuth, async (req, res) => {
+  try {
+    const sessions = await getUserSessions(req.userId);
+    res.json({
+      sessions: sessions.map(session => ({
+        id: String(session.id),
+        deviceName: session.device_name,
+        createdAt: session.created_at,
+        lastUsedAt: session.last_used_at,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (err) {
+    console.error('[Auth] Get sessions error:', err);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Sign out one device
+router.delete('/sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const revoked = await revokeSession(req.userId, req.params.sessionId);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ message: 'Session revoked' });
+  } catch (err) {
+    console.error('[Auth] Revoke session error:', err);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Sign out every device, this one included
+router.delete('/sessions', requireAuth, async (req, res) => {
+  try {
+    await revokeUserSessions(req.userId);
+    res.json({ message: 'All sessions revoked' });
+  } catch (err) {
+    console.error('[Auth] Revoke all sessions error:', err);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Request a password reset link by email
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const user = await db.get(
+      'SELECT id, email, first_name, locale FROM native_users WHERE email = $1',
+      [email]
+    );
+
+    // Sent in the background: known addresses answer as fast as unknown ones, even when mail fails
+    if (user) {
+      sendPasswordResetEmail(user).catch((err) => {
+        console.error('[Auth] Password reset email error:', err);
+      });
+    }
+
+    // Same answer for unknown addresses, so the endpoint can't be used to find accounts
+    res.json({ message: 'If an account with this email exists, a reset link has been sent' });
+  } catch (err) {
+    console.error('[Auth] Forgot password error:', err);
+    res.status(500).json({ error: 'Failed to send password reset email' });
+  }
+});
+
+// Set a new password with the token from the reset email
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Reset token is required' });
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const userId = await consumeAuthToken(token, AUTH_TOKEN_PURPOSES.PASSWORD_RESET);
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    // Opening the link proves the address belongs to the user, so it counts as verified
+    await db.run(
+      `UPDATE native_users
+       SET password_hash = $1, email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+       WHERE id = $2`,
+      [passwordHash, userId]
+    );
+
+    // Whoever had the old password may still be signed in somewhere
+    await revokeUserSessions(userId);
+
+    res.json({ message: 'Password has been reset' });
+  } catch (err) {
+    console.error('[Auth] Reset password error:', err);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Confirm the email address with the token from the verification email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Verification token is required' });
+    }
+
+    const userId = await consumeAuthToken(token, AUTH_TOKEN_PURPOSES.EMAIL_VERIFICATION);
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired verification token' });
+    }
+
+    await db.run(
+      'UPDATE native_users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW() WHERE id = $1',
+      [userId]
+    );
+
+    res.json({ message: 'Email verified', emailVerified: true });
+  } catch (err) {
+    console.error('[Auth] Verify email error:', err);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// Send the verification email again
+router.post('/send-verification', requireAuth, async (req, res) => {
+  try {
+    const user = await db.get(
+      'SELECT id, email, first_name, locale, email_verified_at FROM native_users WHERE id = $1',
+      [req.userId]
+    );
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.email_verified_at) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ message: 'Verification email sent' });
+  } catch (err) {
+    console.error('[Auth] Send verification error:', err);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
 // Get current user info
 router.get('/me', requireAuth, async (req, res) => {
   try {
     const user = await db.get(
       `SELECT id, email, first_name, last_name, phone, avatar_url, timezone, locale,
-              notifications_enabled, email_notifications, week_start_day, created_at
+              notifications_enabled, email_notifications, email_digest_frequency, week_start_day, email_verified_at, created_at
        FROM native_users WHERE id = $1`,
       [req.userId]
     );
@@ -168,7 +436,9 @@ router.get('/me', requireAuth, async (req, res) => {
         locale: user.locale,
         notificationsEnabled: user.notifications_enabled,
         emailNotifications: user.email_notifications,
+        emailDigestFrequency: user.email_digest_frequency,
         weekStartDay: user.week_start_day,
+        emailVerified: Boolean(user.email_verified_at),
         createdAt: user.created_at,
       }
     });
@@ -189,6 +459,7 @@ router.put('/me', requireAuth, async (req, res) => {
       locale,
       notificationsEnabled,
       emailNotifications,
+      emailDigestFrequency,
       password,
       weekStartDay,
     } = req.body;
@@ -225,6 +496,13 @@ router.put('/me', requireAuth, async (req, res) => {
       updates.push(`email_notifications = $${paramIndex++}`);
       values.push(emailNotifications);
     }
+    if (emailDigestFrequency !== undefined) {
+      if (!DIGEST_FREQUENCIES.includes(emailDigestFrequency)) {
+        return res.status(400).json({ error: `emailDigestFrequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}` });
+      }
+      updates.push(`email_digest_frequency = $${paramIndex++}`);
+      values.push(emailDigestFrequency);
+    }
     if (weekStartDay !== undefined) {
       // Validate weekStartDay
       if (weekStartDay !== 'monday' && weekStartDay !== 'sunday') {
@@ -234,6 +512,11 @@ router.put('/me', requireAuth, async (req, res) => {
       values.push(weekStartDay);
     }
     if (password !== undefined) {
+      // Same rules as a password reset
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
       const passwordHash = await bcrypt.hash(password, 10);
       updates.push(`password_hash = $${paramIndex++}`);
       values.push(passwordHash);
@@ -251,10 +534,15 @@ router.put('/me', requireAuth, async (req, res) => {
       values
     );
 
+    // A new password signs out the other devices
+    if (password !== undefined) {
+      await revokeUserSessions(req.userId, req.sessionId || null);
+    }
+
     // Get updated user
     const user = await db.get(
       `SELECT id, email, first_name, last_name, phone, avatar_url, timezone, locale,
-              notifications_enabled, email_notifications, week_start_day
+              notifications_enabled, email_notifications, email_digest_frequency, week_start_day, email_verified_at
        FROM native_users WHERE id = $1`,
       [req.userId]
     );
@@ -271,7 +559,9 @@ router.put('/me', requireAuth, async (req, res) => {
         locale: user.locale,
         notificationsEnabled: user.notifications_enabled,
         emailNotifications: user.email_notifications,
+        emailDigestFrequency: user.email_digest_frequency,
         weekStartDay: user.week_start_day,
+        emailVerified: Boolean(user.email_verified_at),
       }
     });
   } catch (err) {
@@ -4,6 +4,10 @@ import projectsRoutes from './native/projects.js';
 import membersRoutes from './native/members.js';
 import rehearsalsRoutes from './native/rehearsals.js';
 import invitesRoutes from './native/invites.js';
+import scenesRoutes from './native/scenes.js';
+import reportsRoutes from './native/reports.js';
+import pushTokensRoutes from './native/pushTokens.js';
+import notificationsRoutes from './native/notifications.js';
 
 /**
  * Router for React Native app endpoints (non-Telegram)
@@ -12,9 +16,17 @@ import invitesRoutes from './native/invites.js';
  * The routes are organized into separate modules:
  * - availability.js: User availability management (GET/POST/DELETE /availability)
  * - projects.js: Project CRUD operations (GET/POST /projects)
- * - members.js: Project members and their availability (GET /projects/:id/members)
- * - rehearsals.js: Rehearsal management and RSVP (GET/POST/PUT/DELETE /projects/:id/rehearsals, /rehearsals/:id/respond)
+ * - members.js: Project members and their availability (GET /projects/:id/members), role changes, ownership transfer,
+ *   removal and leaving (PUT /projects/:id/members/:id/role, POST /projects/:id/members/:id/transfer-ownership,
+ *   DELETE /projects/:id/members/:id, POST /projects/:id/leave)
+ * - rehearsals.js: Rehearsal management and RSVP (GET/POST/PUT/DELETE /projects/:id/rehearsals, /rehearsals/:id/respond,
+ *   GET /rehearsals/participants, GET/PUT /projects/:id/follow-ups, GET/PUT /projects/:id/rehearsals/:id/attendance, GET /projects/:id/attendance)
+ * - scenes.js: Scene/character breakdown (GET/POST/PUT/DELETE /projects/:id/scenes)
+ * - reports.js: Attendance and workload reports, JSON or CSV (GET /projects/:id/report)
  * - invites.js: Project invitation links (GET/POST/DELETE /projects/:id/invite, GET/POST /invite/:code)
+ * - pushTokens.js: Push notification tokens of the user's devices (POST/DELETE /push-tokens)
+ * - notifications.js: The user's notification inbox and unread count (GET /notifications,
+ *   GET /notifications/unread-count, POST /notifications/read, POST /notifications/read-all)
  */
 const router = Router();
 
@@ -24,7 +36,11 @@ router.use('/projects', projectsRoutes);
 router.use('/projects', membersRoutes);
 router.use('/projects', rehearsalsRoutes);
 router.use('/projects', invitesRoutes);
+router.use('/projects', scenesRoutes);
+router.use('/projects', reportsRoutes);
 router.use('/rehearsals', rehearsalsRoutes);
 router.use('/invite', invitesRoutes);
+router.use('/push-tokens', pushTokensRoutes);
+router.use('/notifications', notificationsRoutes);
 
 export default router;
@@ -192,6 +192,48 @@ router.get('/mappings', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/native/calendar-sync/mappings/orphaned
+ * Exported rehearsals that should no longer be in the user's device calendar, so the app can delete them:
+ * - upcoming rehearsals of projects the user no longer belongs to (removed or left)
+ * - every rehearsal of archived projects
+ * - rehearsals that no longer exist (e.g. the project was deleted)
+ */
+router.get('/mappings/orphaned', async (req, res) => {
+  try {
+    const userId = req.userId;
+
+    const mappings = await db.all(
+      `SELECT m.id, m.connection_id, m.event_type, m.internal_event_id,
+              m.external_event_id, m.last_sync_direction, m.last_sync_at,
+              c.device_calendar_id, c.provider
+       FROM native_calendar_event_mappings m
+       JOIN native_calendar_connections c ON m.connection_id = c.id
+       LEFT JOIN native_rehearsals r ON CAST(r.id AS TEXT) = CAST(m.internal_event_id AS TEXT)
+       LEFT JOIN native_projects p ON p.id = r.project_id
+       WHERE c.user_id = $1
+         AND m.event_type = 'rehearsal'
+         AND (
+           r.id IS NULL
+           OR p.archived_at IS NOT NULL
+           OR (
+             r.starts_at > NOW()
+             AND NOT EXISTS (
+               SELECT 1 FROM native_project_members pm
+               WHERE pm.project_id = r.project_id AND pm.user_id = $1 AND pm.status = 'active'
+             )
+           )
+         )`,
+      [userId]
+    );
+
+    res.json({ mappings });
+  } catch (error) {
+    console.error('[CalendarSync] Get orphaned mappings error:', error);
+    res.status(500).json({ error: 'Failed to get orphaned mappings' });
+  }
+});
+
 /**
  * GET /api/native/calendar-sync/mappings/by-event/:eventType/:internalEventId
  * Get mapping for a specific internal event
@@ -1,79 +1,161 @@
 import { Router } from 'express';
-import crypto from 'crypto';
 import db from '../../database/db.js';
 import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import { checkUserMembership, checkUserPermission } from '../../services/rehearsals/rehearsalService.js';
+import { PERMISSIONS, getProjectPermissions } from '../../utils/permissions.js';
+import { generateAppUrl } from '../../utils/appLinks.js';
+import {
+  DEFAULT_INVITE_EXPIRY_DAYS,
+  INVITE_STATUS_ERRORS,
+  validateInviteInput,
+  getInviteStatus,
+} from '../../utils/invites.js';
+import {
+  createInvite,
+  getProjectInvites,
+  getInviteByCode,
+  findReusableInvite,
+  revokeInvite,
+  revokeProjectInvites,
+  claimInviteUse,
+} from '../../services/projects/inviteService.js';
+import { notifyJoinRequest, sendInBackground } from '../../services/notifications/notificationService.js';
 
 const router = Router();
 
 // Helper functions
-function generateInviteCode() {
-  return crypto.randomBytes(16).toString('hex');
+function generateInviteUrl(inviteCode) {
+  return generateAppUrl(`invite/${inviteCode}`);
 }
 
-function generateInviteUrl(inviteCode) {
-  const isDevelopment = process.env.NODE_ENV === 'development';
-
-  if (isDevelopment) {
-    // In development, use custom URL scheme for direct app opening
-    // This works with both iPhone and simulators without needing Universal Links
-    return `rehearsalapp://invite/${inviteCode}`;
-  } else {
-    // In production, use HTTPS URL
-    // Note: Universal Links require Associated Domains capability (paid Apple Developer account)
-    // Without it, users will need to manually choose "Open in app"
-    return `https://rehearsal-calendar-app.onrender.com/invite/${inviteCode}`;
-  }
+function formatInvite(invite, now = new Date()) {
+  return {
+    id: String(invite.id),
+    code: invite.code,
+    label: invite.label,
+    role: invite.role,
+    maxUses: invite.max_uses,
+    useCount: invite.use_count,
+    expiresAt: invite.expires_at,
+    requiresApproval: Boolean(invite.requires_approval),
+    createdAt: invite.created_at,
+    status: getInviteStatus(invite, now),
+    inviteUrl: generateInviteUrl(invite.code),
+  };
 }
 
-// POST /api/native/projects/:projectId/invite - Create invite link
-router.post('/:projectId/invite', requireAuth, async (req, res) => {
+// GET /api/native/projects/:projectId/invites - List invite links with their join counts
+router.get('/:projectId/invites', requireAuth, async (req, res) => {
   try {
     const userId = req.userId;
     const { projectId } = req.params;
-    const { expiresInDays = 7 } = req.body;
 
-    // Check if user is admin
-    const membership = await db.get(
-      "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND role IN ('owner', 'admin') AND status = 'active'",
-      [projectId, userId]
-    );
+    // Check if user may manage the project (archived projects take no invites)
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can view invite links' });
+    }
+
+    const invites = await getProjectInvites(projectId);
+    const now = new Date();
+
+    res.json({ invites: invites.map(invite => formatInvite(invite, now)) });
+  } catch (error) {
+    console.error('Error getting invites:', error);
+    res.status(500).json({ error: 'Failed to get invites' });
+  }
+});
 
-    if (!membership) {
+// POST /api/native/projects/:projectId/invites - Create a named invite link
+// Body: { label?, role?, maxUses?, expiresInDays?, requiresApproval? } - expiresInDays: null makes a link that never expires
+router.post('/:projectId/invites', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+    const {
+      label = null,
+      role = 'member',
+      maxUses = null,
+      expiresInDays = DEFAULT_INVITE_EXPIRY_DAYS,
+      requiresApproval = false,
+    } = req.body;
+
+    const membership = await checkUserMembership(projectId, userId);
+    const allowed = membership &&
+      getProjectPermissions(membership.role, membership.archived_at).includes(PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
       return res.status(403).json({ error: 'Only admins can create invite links' });
     }
 
-    // Generate unique invite code
-    const inviteCode = generateInviteCode();
+    const validationError = validateInviteInput({ label, role, maxUses, expiresInDays, requiresApproval }, membership.role);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
 
-    // Calculate expiration date
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+    const invite = await createInvite(projectId, userId, { label, role, maxUses, expiresInDays, requiresApproval });
 
-    // Check if there's already an active invite for this project
-    const project = await db.get(
-      "SELECT * FROM native_projects WHERE id = $1",
-      [projectId]
-    );
+    res.status(201).json({ invite: formatInvite(invite) });
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
 
-    if (project && project.invite_code && project.invite_expires_at && new Date(project.invite_expires_at) > new Date()) {
-      // Return existing invite
-      return res.json({
-        inviteCode: project.invite_code,
-        expiresAt: project.invite_expires_at,
-        inviteUrl: generateInviteUrl(project.invite_code),
-      });
+// DELETE /api/native/projects/:projectId/invites/:inviteId - Revoke one invite link
+router.delete('/:projectId/invites/:inviteId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, inviteId } = req.params;
+
+    // Check if user may manage the project (archived projects take no invites)
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can revoke invite links' });
     }
 
-    // Update project with new invite code
-    await db.run(
-      `UPDATE native_projects SET invite_code = $1, invite_expires_at = $2, invite_created_by = $3 WHERE id = $4`,
-      [inviteCode, expiresAt, userId, projectId]
-    );
+    const invite = await revokeInvite(projectId, inviteId);
+
+    if (!invite) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+// POST /api/native/projects/:projectId/invite - Get or create the plain invite link
+// Kept for app versions without the invites list: reuses the newest unlimited member link
+router.post('/:projectId/invite', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+    const { expiresInDays = DEFAULT_INVITE_EXPIRY_DAYS } = req.body;
+
+    // Check if user may manage the project (archived projects take no invites)
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can create invite links' });
+    }
+
+    const validationError = validateInviteInput({ expiresInDays }, null);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const invite = await findReusableInvite(projectId) ||
+      await createInvite(projectId, userId, { expiresInDays });
 
     res.json({
-      inviteCode,
-      expiresAt: expiresAt.toISOString(),
-      inviteUrl: generateInviteUrl(inviteCode),
+      inviteCode: invite.code,
+      expiresAt: invite.expires_at,
+      inviteUrl: generateInviteUrl(invite.code),
     });
   } catch (error) {
     console.error('Error creating invite:', error);
@@ -81,42 +163,32 @@ router.post('/:projectId/invite', requireAuth, async (req, res) => {
   }
 });
 
-// GET /api/native/projects/:projectId/invite - Get current invite link
+// GET /api/native/projects/:projectId/invite - Get the newest usable invite link
 router.get('/:projectId/invite', requireAuth, async (req, res) => {
   try {
     const userId = req.userId;
     const { projectId } = req.params;
 
-    // Check if user is admin
-    const membership = await db.get(
-      "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND role IN ('owner', 'admin') AND status = 'active'",
-      [projectId, userId]
-    );
+    // Check if user may manage the project (archived projects take no invites)
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
 
-    if (!membership) {
+    if (!allowed) {
       return res.status(403).json({ error: 'Only admins can view invite links' });
     }
 
-    // Get active invite from project
-    const project = await db.get(
-      "SELECT * FROM native_projects WHERE id = $1",
-      [projectId]
-    );
-
-    if (!project || !project.invite_code) {
-      return res.json({ invite: null });
-    }
+    const invites = await getProjectInvites(projectId);
+    const now = new Date();
+    const invite = invites.find(i => getInviteStatus(i, now) === 'active');
 
-    // Check if expired
-    if (project.invite_expires_at && new Date(project.invite_expires_at) < new Date()) {
+    if (!invite) {
       return res.json({ invite: null });
     }
 
     res.json({
       invite: {
-        inviteCode: project.invite_code,
-        expiresAt: project.invite_expires_at,
-        inviteUrl: generateInviteUrl(project.invite_code),
+        inviteCode: invite.code,
+        expiresAt: invite.expires_at,
+        inviteUrl: generateInviteUrl(invite.code),
       },
     });
   } catch (error) {
@@ -125,27 +197,20 @@ router.get('/:projectId/invite', requireAuth, async (req, res) => {
   }
 });
 
-// DELETE /api/native/projects/:projectId/invite - Revoke invite link
+// DELETE /api/native/projects/:projectId/invite - Revoke all invite links
 router.delete('/:projectId/invite', requireAuth, async (req, res) => {
   try {
     const userId = req.userId;
     const { projectId } = req.params;
 
-    // Check if user is admin
-    const membership = await db.get(
-      "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND role IN ('owner', 'admin') AND status = 'active'",
-      [projectId, userId]
-    );
+    // Check if user may manage the project (archived projects take no invites)
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
 
-    if (!membership) {
+    if (!allowed) {
       return res.status(403).json({ error: 'Only admins can revoke invite links' });
     }
 
-    // Clear invite code from project
-    await db.run(
-      "UPDATE native_projects SET invite_code = NULL, invite_expires_at = NULL, invite_created_by = NULL WHERE id = $1",
-      [projectId]
-    );
+    await revokeProjectInvites(projectId);
 
     res.json({ success: true });
   } catch (error) {
@@ -159,26 +224,24 @@ router.get('/:code', async (req, res) => {
   try {
     const { code } = req.params;
 
-    // Get project by invite code
-    const project = await db.get(
-      `SELECT * FROM native_projects WHERE invite_code = $1`,
-      [code]
-    );
+    const invite = await getInviteByCode(code);
 
-    if (!project) {
+    if (!invite) {
       return res.status(404).json({ error: 'Invite not found' });
     }
 
-    // Check if expired
-    if (project.invite_expires_at && new Date(project.invite_expires_at) < new Date()) {
-      return res.status(410).json({ error: 'Invite has expired' });
+    const status = getInviteStatus(invite);
+    if (status !== 'active') {
+      return res.status(410).json({ error: INVITE_STATUS_ERRORS[status] });
     }
 
     res.json({
-      projectId: String(project.id),
-      projectName: project.name,
-      projectDescription: project.description,
-      expiresAt: project.invite_expires_at,
+      projectId: String(invite.project_id),
+      projectName: invite.project_name,
+      projectDescription: invite.project_description,
+      role: invite.role,
+      requiresApproval: Boolean(invite.requires_approval),
+      expiresAt: invite.expires_at,
     });
   } catch (error) {
     console.error('Error getting invite info:', error);
@@ -192,49 +255,90 @@ router.post('/:code/join', requireAuth, async (req, res) => {
     const userId = req.userId;
     const { code } = req.params;
 
-    // Get project by invite code
-    const project = await db.get(
-      `SELECT * FROM native_projects WHERE invite_code = $1`,
-      [code]
-    );
+    const invite = await getInviteByCode(code);
 
-    if (!project) {
+    if (!invite) {
       return res.status(404).json({ error: 'Invite not found' });
     }
 
-    // Check if expired
-    if (project.invite_expires_at && new Date(project.invite_expires_at) < new Date()) {
-      return res.status(410).json({ error: 'Invite has expired' });
+    const status = getInviteStatus(invite);
+    if (status !== 'active') {
+      return res.status(410).json({ error: INVITE_STATUS_ERRORS[status] });
     }
 
     // Check if user is already a member
     const existingMembership = await db.get(
       "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2",
-      [project.id, userId]
+      [invite.project_id, userId]
     );
 
+    if (existingMembership && existingMembership.status === 'active') {
+      return res.status(400).json({ error: 'You are already a member of this project' });
+    }
+
+    // Links for public calls create a join request that an admin approves
+    const requiresApproval = Boolean(invite.requires_approval);
+
+    if (existingMembership && existingMembership.status === 'invited') {
+      // Asking again changes nothing; the request keeps its place in the queue
+      return res.json({
+        success: true,
+        pending: true,
+        projectId: String(invite.project_id),
+        projectName: invite.project_name,
+        role: existingMembership.role,
+        message: 'Your request to join is waiting for approval',
+      });
+    }
+
+    if (existingMembership && existingMembership.status === 'declined' && requiresApproval) {
+      return res.status(403).json({ error: 'Your request to join this project was declined' });
+    }
+
+    // Take a place on the link before joining; it may have been used up meanwhile
+    const claimed = await claimInviteUse(invite.id);
+    if (!claimed) {
+      return res.status(410).json({ error: INVITE_STATUS_ERRORS.exhausted });
+    }
+
+    const memberStatus = requiresApproval ? 'invited' : 'active';
+
     if (existingMembership) {
-      if (existingMembership.status === 'active') {
-        return res.status(400).json({ error: 'You are already a member of this project' });
-      }
-      // Reactivate membership
+      // Reactivate membership; former members rejoin with the link's role, not their old one
       await db.run(
-        "UPDATE native_project_members SET status = 'active', joined_at = NOW() WHERE id = $1",
-        [existingMembership.id]
+        `UPDATE native_project_members
+         SET status = $1, role = $2, invite_id = $3, invited_at = NOW(), joined_at = NOW()
+         WHERE id = $4`,
+        [memberStatus, invite.role, invite.id, existingMembership.id]
       );
     } else {
       // Create new membership
       await db.run(
-        `INSERT INTO native_project_members (project_id, user_id, role, status, invited_at, joined_at)
-         VALUES ($1, $2, 'member', 'active', NOW(), NOW())`,
-        [project.id, userId]
+        `INSERT INTO native_project_members (project_id, user_id, role, status, invite_id, invited_at, joined_at)
+         VALUES ($1, $2, $3, $4, $5, NOW(), NOW())`,
+        [invite.project_id, userId, invite.role, memberStatus, invite.id]
       );
     }
 
+    if (requiresApproval) {
+      res.json({
+        success: true,
+        pending: true,
+        projectId: String(invite.project_id),
+        projectName: invite.project_name,
+        role: invite.role,
+        message: 'Your request to join is waiting for approval',
+      });
+      sendInBackground(notifyJoinRequest(invite.project_id, invite.project_name, userId));
+      return;
+    }
+
     res.json({
       success: true,
-      projectId: String(project.id),
-      projectName: project.name,
+      projectId: String(invite.project_id),
+      projectName: invite.project_name,
+      role: invite.role,
+      pending: false,
       message: 'Successfully joined the project',
     });
   } catch (error) {
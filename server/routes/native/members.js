@@ -1,7 +1,22 @@
 import { Router } from 'express';
 import db from '../../database/db.js';
 import { requireAuth } from '../../middleware/jwtMiddleware.js';
-import { timestampToLocal, timestampToISO } from '../../utils/timezone.js';
+import { timestampToISO, splitRangeByLocalDates } from '../../utils/timezone.js';
+import { AVAILABILITY_SOURCES } from '../../constants/timezone.js';
+import { ASSIGNABLE_ROLES, validateRoleChange, validateRemoval, validateLeave } from '../../utils/members.js';
+import { checkUserPermission } from '../../services/rehearsals/rehearsalService.js';
+import { PERMISSIONS } from '../../utils/permissions.js';
+import {
+  getActiveMembership,
+  changeMemberRole,
+  transferOwnership,
+  removeMemberFromProject,
+  getJoinRequests,
+  getJoinRequest,
+  approveJoinRequest,
+  rejectJoinRequest,
+} from '../../services/projects/memberService.js';
+import { notifyRoleChange, sendInBackground } from '../../services/notifications/notificationService.js';
 
 const router = Router();
 
@@ -69,16 +84,17 @@ router.get('/:projectId/members/availability', requireAuth, async (req, res) =>
     const usersMap = new Map(users.map(u => [u.id, u]));
 
     // Build date range for TIMESTAMPTZ query
-    // We need to query starts_at timestamps that fall on these dates in each user's timezone
+    // We need every record that overlaps these dates in each user's timezone,
+    // including overnight and multi-day ones that started before the range
     // For safety, query the full day range expanded by 24 hours on both sides
     const startDateStr = dates[0];
     const endDateStr = dates[dates.length - 1];
 
     const availabilityRecords = await db.all(
-      `SELECT user_id, starts_at, ends_at, type, is_all_day
+      `SELECT user_id, starts_at, ends_at, type, title, source, external_event_id, is_all_day
        FROM native_user_availability
        WHERE user_id IN (${targetUserIds.map((_, i) => `$${i + 1}`).join(',')})
-         AND starts_at >= $${targetUserIds.length + 1}::date - interval '1 day'
+         AND ends_at > $${targetUserIds.length + 1}::date - interval '1 day'
          AND starts_at < $${targetUserIds.length + 2}::date + interval '2 days'
        ORDER BY user_id, starts_at ASC`,
       [...targetUserIds, startDateStr, endDateStr]
@@ -112,50 +128,44 @@ router.get('/:projectId/members/availability', requireAuth, async (req, res) =>
         dates: []
       };
 
-      // Group records by date in user's timezone
-      const recordsByDate = new Map();
+      // Group time ranges by every date they touch in user's timezone
+      const rangesByDate = new Map();
       for (const record of userRecords) {
-        // Convert timestamp to user's local date
         const startsAtISO = timestampToISO(record.starts_at);
-        const { date: localDate } = timestampToLocal(startsAtISO, userTimezone);
+        const endsAtISO = timestampToISO(record.ends_at);
+        const pieces = splitRangeByLocalDates(startsAtISO, endsAtISO, userTimezone);
 
-        if (!recordsByDate.has(localDate)) {
-          recordsByDate.set(localDate, []);
+        for (const piece of pieces) {
+          // HH:mm fields are clipped to the day; startsAt/endsAt always span the whole record
+          const timeRange = {
+            // For all-day events, don't convert timezone - just return 00:00-23:59
+            start: record.is_all_day ? '00:00' : piece.start,
+            end: record.is_all_day ? '23:59' : piece.end,
+            startsAt: startsAtISO,
+            endsAt: endsAtISO,
+            type: record.type,
+            isAllDay: Boolean(record.is_all_day),
+            title: record.title || undefined,
+            source: record.source,
+          };
+
+          // Booked slots of a rehearsal in any of the user's projects
+          if (record.source === AVAILABILITY_SOURCES.REHEARSAL && record.external_event_id) {
+            timeRange.rehearsalId = record.external_event_id;
+          }
+
+          if (!rangesByDate.has(piece.date)) {
+            rangesByDate.set(piece.date, []);
+          }
+          rangesByDate.get(piece.date).push(timeRange);
         }
-        recordsByDate.get(localDate).push(record);
       }
 
       // Process each requested date
       for (const currentDate of dates) {
-        const records = recordsByDate.get(currentDate) || [];
-
-        if (records.length > 0) {
-          // Convert timestamps to time ranges in user's local timezone
-          const timeRanges = records.map(record => {
-            // For all-day events, don't convert timezone - just return 00:00-23:59
-            if (record.is_all_day) {
-              return {
-                start: '00:00',
-                end: '23:59',
-                type: record.type,
-                isAllDay: true
-              };
-            }
-
-            // For regular events, convert to user's local timezone
-            const startsAtISO = timestampToISO(record.starts_at);
-            const endsAtISO = timestampToISO(record.ends_at);
-            const { time: startTime } = timestampToLocal(startsAtISO, userTimezone);
-            const { time: endTime } = timestampToLocal(endsAtISO, userTimezone);
-
-            return {
-              start: startTime,
-              end: endTime,
-              type: record.type,
-              isAllDay: false
-            };
-          });
+        const timeRanges = rangesByDate.get(currentDate) || [];
 
+        if (timeRanges.length > 0) {
           userAvailability.dates.push({
             date: currentDate,
             timeRanges
@@ -209,7 +219,9 @@ router.get('/:projectId/members', requireAuth, async (req, res) => {
         CASE m.role
           WHEN 'owner' THEN 1
           WHEN 'admin' THEN 2
-          ELSE 3
+          WHEN 'director' THEN 3
+          WHEN 'stage_manager' THEN 4
+          ELSE 5
         END,
         m.joined_at`,
       [projectId]
@@ -235,4 +247,216 @@ router.get('/:projectId/members', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/native/projects/:projectId/join-requests - List members waiting for approval
+router.get('/:projectId/join-requests', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_MEMBERS);
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to manage members' });
+    }
+
+    const requests = await getJoinRequests(projectId);
+
+    res.json({
+      requests: requests.map(r => ({
+        userId: String(r.user_id),
+        role: r.role,
+        requestedAt: r.invited_at,
+        inviteLabel: r.invite_label,
+        firstName: r.first_name,
+        lastName: r.last_name,
+        email: r.email,
+        avatarUrl: r.avatar_url,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching join requests:', error);
+    res.status(500).json({ error: 'Failed to fetch join requests' });
+  }
+});
+
+// POST /api/native/projects/:projectId/join-requests/:requestUserId/approve - Let a pending member in
+router.post('/:projectId/join-requests/:requestUserId/approve', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, requestUserId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_MEMBERS);
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to manage members' });
+    }
+
+    const request = await getJoinRequest(projectId, requestUserId);
+    if (!request) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    await approveJoinRequest(projectId, requestUserId);
+
+    res.json({ userId: String(requestUserId), role: request.role, status: 'active' });
+  } catch (error) {
+    console.error('Error approving join request:', error);
+    res.status(500).json({ error: 'Failed to approve join request' });
+  }
+});
+
+// POST /api/native/projects/:projectId/join-requests/:requestUserId/reject - Turn down a pending member
+router.post('/:projectId/join-requests/:requestUserId/reject', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, requestUserId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_MEMBERS);
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to manage members' });
+    }
+
+    const request = await getJoinRequest(projectId, requestUserId);
+    if (!request) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    await rejectJoinRequest(projectId, request);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error rejecting join request:', error);
+    res.status(500).json({ error: 'Failed to reject join request' });
+  }
+});
+
+// PUT /api/native/projects/:projectId/members/:memberId/role - Change a member's role
+router.put('/:projectId/members/:memberId/role', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, memberId } = req.params;
+    const { role } = req.body;
+
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Invalid role. Must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    }
+
+    const membership = await getActiveMembership(projectId, userId);
+    if (!membership) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (String(memberId) === String(userId)) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const target = await getActiveMembership(projectId, memberId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const error = validateRoleChange(membership.role, target.role, role);
+    if (error) {
+      return res.status(403).json({ error });
+    }
+
+    await changeMemberRole(projectId, memberId, role);
+
+    res.json({ userId: String(memberId), role });
+
+    sendInBackground(notifyRoleChange(projectId, memberId, role));
+  } catch (error) {
+    console.error('Error changing member role:', error);
+    res.status(500).json({ error: 'Failed to change member role' });
+  }
+});
+
+// POST /api/native/projects/:projectId/members/:memberId/transfer-ownership - Make another member the owner
+router.post('/:projectId/members/:memberId/transfer-ownership', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, memberId } = req.params;
+
+    const membership = await getActiveMembership(projectId, userId);
+    if (!membership || membership.role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can transfer ownership' });
+    }
+
+    if (String(memberId) === String(userId)) {
+      return res.status(400).json({ error: 'You already own this project' });
+    }
+
+    const target = await getActiveMembership(projectId, memberId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    await transferOwnership(projectId, userId, memberId);
+
+    res.json({ ownerId: String(memberId), previousOwnerRole: 'admin' });
+
+    sendInBackground(notifyRoleChange(projectId, memberId, 'owner'));
+  } catch (error) {
+    console.error('Error transferring ownership:', error);
+    res.status(500).json({ error: 'Failed to transfer ownership' });
+  }
+});
+
+// DELETE /api/native/projects/:projectId/members/:memberId - Remove a member from the project
+router.delete('/:projectId/members/:memberId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, memberId } = req.params;
+
+    const membership = await getActiveMembership(projectId, userId);
+    if (!membership) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (String(memberId) === String(userId)) {
+      return res.status(400).json({ error: 'Use leave to exit a project yourself' });
+    }
+
+    const target = await getActiveMembership(projectId, memberId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const error = validateRemoval(membership.role, target.role);
+    if (error) {
+      return res.status(403).json({ error });
+    }
+
+    const uninvitedRehearsalIds = await removeMemberFromProject(projectId, memberId);
+
+    res.json({ success: true, uninvitedRehearsalIds });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+// POST /api/native/projects/:projectId/leave - Leave a project
+router.post('/:projectId/leave', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    const membership = await getActiveMembership(projectId, userId);
+    if (!membership) {
+      return res.status(404).json({ error: 'You are not a member of this project' });
+    }
+
+    const error = validateLeave(membership.role);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const uninvitedRehearsalIds = await removeMemberFromProject(projectId, userId);
+
+    res.json({ success: true, uninvitedRehearsalIds });
+  } catch (error) {
+    console.error('Error leaving project:', error);
+    res.status(500).json({ error: 'Failed to leave project' });
+  }
+});
+
 export default router;
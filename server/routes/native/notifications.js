@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import {
+  getInboxNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+} from '../../services/notifications/inboxService.js';
+import { normalizeInboxLimit, parseNotificationData } from '../../utils/notifications.js';
+import { timestampToISO } from '../../utils/timezone.js';
+
+const router = Router();
+
+function formatNotification(row) {
+  return {
+    id: String(row.id),
+    type: row.type,
+    title: row.title,
+    body: row.body,
+    data: parseNotificationData(row.data),
+    readAt: row.read_at ? timestampToISO(row.read_at) : null,
+    createdAt: timestampToISO(row.created_at),
+  };
+}
+
+// GET /api/native/notifications?limit=50&before=123 - Inbox of the current user, newest first
+// `before` is the ID of the last entry already shown (next page)
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const limit = normalizeInboxLimit(req.query.limit);
+    const before = req.query.before !== undefined ? parseInt(req.query.before, 10) : null;
+
+    if (before !== null && !Number.isInteger(before)) {
+      return res.status(400).json({ error: 'Invalid before parameter' });
+    }
+
+    const rows = await getInboxNotifications(userId, { limit, before });
+    const unreadCount = await getUnreadCount(userId);
+
+    res.json({
+      notifications: rows.map(formatNotification),
+      unreadCount,
+      hasMore: rows.length === limit,
+    });
+  } catch (error) {
+    console.error('Error getting notifications:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+// GET /api/native/notifications/unread-count - Number for the tab badge
+router.get('/unread-count', requireAuth, async (req, res) => {
+  try {
+    const unreadCount = await getUnreadCount(req.userId);
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Error getting unread count:', error);
+    res.status(500).json({ error: 'Failed to get unread count' });
+  }
+});
+
+// POST /api/native/notifications/read - Mark entries as read
+// Body: { ids: string[] }
+router.post('/read', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids must be a non-empty array' });
+    }
+
+    const notificationIds = ids.map(id => parseInt(id, 10));
+    if (notificationIds.some(id => !Number.isInteger(id))) {
+      return res.status(400).json({ error: 'Invalid notification ID' });
+    }
+
+    await markNotificationsRead(userId, notificationIds);
+    const unreadCount = await getUnreadCount(userId);
+
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// POST /api/native/notifications/read-all - Mark the whole inbox as read
+router.post('/read-all', requireAuth, async (req, res) => {
+  try {
+    await markNotificationsRead(req.userId);
+    res.json({ unreadCount: 0 });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+export default router;
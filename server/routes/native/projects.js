@@ -1,35 +1,54 @@
 import { Router } from 'express';
 import db from '../../database/db.js';
 import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import { validateWorkingHours, parseWorkingHours } from '../../utils/workingHours.js';
+import { getProjectPermissions, hasPermission, PERMISSIONS } from '../../utils/permissions.js';
+import { validateProjectUpdate } from '../../utils/projectSettings.js';
+import { checkUserMembership, checkUserPermission } from '../../services/rehearsals/rehearsalService.js';
+import { updateProjectSettings, deleteProject } from '../../services/projects/projectService.js';
 
 const router = Router();
 
-// GET /api/native/projects - Get user's projects
+/**
+ * Project payload as seen by a member with the given role
+ * @param {object} project - native_projects row
+ * @param {string} role - Member role
+ */
+function formatProject(project, role) {
+  return {
+    id: String(project.id),
+    name: project.name,
+    description: project.description || '',
+    timezone: project.timezone || 'Asia/Jerusalem',
+    workingHours: parseWorkingHours(project.working_hours),
+    is_admin: role === 'owner' || role === 'admin',
+    role,
+    permissions: getProjectPermissions(role, project.archived_at),
+    archivedAt: project.archived_at || null,
+    created_at: project.created_at,
+    updated_at: project.updated_at,
+  };
+}
+
+// GET /api/native/projects?archived=true - Get user's projects (active ones, or archived ones with archived=true)
 router.get('/', requireAuth, async (req, res) => {
   try {
     const accountId = req.userId;
+    const archived = req.query.archived === 'true';
 
     // Get projects where user is a member
     const projects = await db.all(
-      `SELECT p.*,
-              CASE WHEN pm.role IN ('owner', 'admin') THEN true ELSE false END as is_admin
+      `SELECT p.*, pm.role
        FROM native_projects p
        INNER JOIN native_project_members pm ON p.id = pm.project_id
        WHERE pm.user_id = $1 AND pm.status = 'active'
-       ORDER BY p.created_at DESC`,
+         AND p.archived_at IS ${archived ? 'NOT NULL' : 'NULL'}
+       ORDER BY ${archived ? 'p.archived_at' : 'p.created_at'} DESC`,
       [accountId]
     );
 
     res.json({
-      projects: projects.map(p => ({
-        id: String(p.id),
-        name: p.name,
-        description: p.description || '',
-        timezone: p.timezone || 'Asia/Jerusalem',
-        is_admin: Boolean(p.is_admin),
-        created_at: p.created_at,
-        updated_at: p.updated_at,
-      })),
+      projects: projects.map(p => formatProject(p, p.role)),
     });
   } catch (error) {
     console.error('Error fetching projects:', error);
@@ -41,17 +60,24 @@ router.get('/', requireAuth, async (req, res) => {
 router.post('/', requireAuth, async (req, res) => {
   try {
     const accountId = req.userId;
-    const { name, description, timezone } = req.body;
+    const { name, description, timezone, workingHours } = req.body;
 
     if (!name) {
       return res.status(400).json({ error: 'Project name is required' });
     }
 
+    if (workingHours !== undefined) {
+      const workingHoursError = validateWorkingHours(workingHours);
+      if (workingHoursError) {
+        return res.status(400).json({ error: workingHoursError });
+      }
+    }
+
     // Create project in native_projects table
     const projectTimezone = timezone || 'Asia/Jerusalem';
     const newProject = await db.get(
-      'INSERT INTO native_projects (name, description, timezone, created_at, updated_at) VALUES ($1, $2, $3, NOW(), NOW()) RETURNING *',
-      [name, description || null, projectTimezone]
+      'INSERT INTO native_projects (name, description, timezone, working_hours, created_at, updated_at) VALUES ($1, $2, $3, $4, NOW(), NOW()) RETURNING *',
+      [name, description || null, projectTimezone, workingHours ? JSON.stringify(workingHours) : null]
     );
 
     const projectId = newProject.id;
@@ -63,15 +89,7 @@ router.post('/', requireAuth, async (req, res) => {
     );
 
     res.status(201).json({
-      project: {
-        id: String(newProject.id),
-        name: newProject.name,
-        description: newProject.description || '',
-        timezone: newProject.timezone || 'Asia/Jerusalem',
-        is_admin: true,
-        created_at: newProject.created_at,
-        updated_at: newProject.updated_at,
-      },
+      project: formatProject(newProject, 'owner'),
     });
   } catch (error) {
     console.error('Error creating project:', error);
@@ -102,15 +120,7 @@ router.get('/:projectId', requireAuth, async (req, res) => {
     }
 
     res.json({
-      project: {
-        id: String(project.id),
-        name: project.name,
-        description: project.description || '',
-        timezone: project.timezone || 'Asia/Jerusalem',
-        is_admin: membership.role === 'owner' || membership.role === 'admin',
-        created_at: project.created_at,
-        updated_at: project.updated_at,
-      },
+      project: formatProject(project, membership.role),
     });
   } catch (error) {
     console.error('Error fetching project:', error);
@@ -118,4 +128,102 @@ router.get('/:projectId', requireAuth, async (req, res) => {
   }
 });
 
+// PUT /api/native/projects/:projectId - Edit name, description and timezone, archive or restore (admin only)
+// Archived projects are read-only: the only change they accept is being restored with archived: false
+router.put('/:projectId', requireAuth, async (req, res) => {
+  try {
+    const accountId = req.userId;
+    const projectId = req.params.projectId;
+    const { name, description, timezone, archived } = req.body;
+    const update = { name, description, timezone, archived };
+
+    const membership = await checkUserMembership(projectId, accountId);
+
+    if (!membership || !hasPermission(membership.role, PERMISSIONS.MANAGE_PROJECT)) {
+      return res.status(403).json({ error: 'You do not have permission to edit this project' });
+    }
+
+    if (membership.archived_at && archived !== false) {
+      return res.status(403).json({ error: 'Archived projects are read-only' });
+    }
+
+    const validationError = validateProjectUpdate(update);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const project = await updateProjectSettings(projectId, update);
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json({
+      project: formatProject(project, membership.role),
+    });
+  } catch (error) {
+    console.error('Error updating project:', error);
+    res.status(500).json({ error: 'Failed to update project' });
+  }
+});
+
+// DELETE /api/native/projects/:projectId - Delete the project with all its rehearsals (owner only)
+router.delete('/:projectId', requireAuth, async (req, res) => {
+  try {
+    const accountId = req.userId;
+    const projectId = req.params.projectId;
+
+    const membership = await checkUserMembership(projectId, accountId);
+
+    if (!membership || membership.role !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can delete the project' });
+    }
+
+    await deleteProject(projectId);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    res.status(500).json({ error: 'Failed to delete project' });
+  }
+});
+
+// PUT /api/native/projects/:projectId/working-hours - Set rehearsal windows by weekday (admin only)
+router.put('/:projectId/working-hours', requireAuth, async (req, res) => {
+  try {
+    const accountId = req.userId;
+    const projectId = req.params.projectId;
+    const { workingHours } = req.body;
+
+    const allowed = await checkUserPermission(projectId, accountId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can change working hours' });
+    }
+
+    if (workingHours === undefined) {
+      return res.status(400).json({ error: 'workingHours is required' });
+    }
+
+    const workingHoursError = validateWorkingHours(workingHours);
+    if (workingHoursError) {
+      return res.status(400).json({ error: workingHoursError });
+    }
+
+    const project = await db.get(
+      'UPDATE native_projects SET working_hours = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+      [workingHours ? JSON.stringify(workingHours) : null, projectId]
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json({ workingHours: parseWorkingHours(project.working_hours) });
+  } catch (error) {
+    console.error('Error updating working hours:', error);
+    res.status(500).json({ error: 'Failed to update working hours' });
+  }
+});
+
 export default router;
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import { registerPushToken, removePushToken } from '../../services/notifications/pushTokenService.js';
+import { isExpoPushToken, PUSH_PLATFORMS } from '../../utils/notifications.js';
+
+const router = Router();
+
+// POST /api/native/push-tokens - Register the push token of this device
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { token, platform } = req.body;
+
+    if (!isExpoPushToken(token)) {
+      return res.status(400).json({ error: 'Invalid push token' });
+    }
+
+    if (platform !== undefined && !PUSH_PLATFORMS.includes(platform)) {
+      return res.status(400).json({ error: `Invalid platform. Must be one of: ${PUSH_PLATFORMS.join(', ')}` });
+    }
+
+    await registerPushToken(userId, req.sessionId || null, token, platform || null);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error registering push token:', error);
+    res.status(500).json({ error: 'Failed to register push token' });
+  }
+});
+
+// DELETE /api/native/push-tokens - Stop pushing to this device
+router.delete('/', requireAuth, async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!isExpoPushToken(token)) {
+      return res.status(400).json({ error: 'Invalid push token' });
+    }
+
+    await removePushToken(req.userId, token);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing push token:', error);
+    res.status(500).json({ error: 'Failed to remove push token' });
+  }
+});
+
+export default router;
@@ -3,7 +3,7 @@ import db from '../../database/db.js';
 import { requireAuth } from '../../middleware/jwtMiddleware.js';
 import {
   checkUserMembership,
-  checkUserIsAdmin,
+  checkUserPermission,
   checkRehearsalExists,
   getRehearsalsForProjects,
   getProjectRehearsals,
@@ -14,8 +14,30 @@ import {
 import {
   respondToRehearsal,
   getRehearsalResponses,
+  getRehearsalParticipantNames,
   getUserResponse,
 } from '../../services/rehearsals/rsvpService.js';
+import {
+  SERIES_SCOPES,
+  createRehearsalSeries,
+  updateRehearsalSeries,
+  deleteRehearsalSeries,
+} from '../../services/rehearsals/seriesService.js';
+import { hasPermission, PERMISSIONS } from '../../utils/permissions.js';
+import { createRehearsalBatch } from '../../services/rehearsals/batchService.js';
+import { getProjectFollowUps, setFollowUpContacted } from '../../services/rehearsals/followUpService.js';
+import {
+  getRehearsalAttendance,
+  setRehearsalAttendance,
+  getProjectAttendanceHistory,
+} from '../../services/rehearsals/attendanceService.js';
+import {
+  getRehearsalParticipantIds,
+  notifyRehearsalChange,
+  notifyRsvp,
+  sendInBackground,
+} from '../../services/notifications/notificationService.js';
+import { NOTIFICATION_EVENTS } from '../../utils/notifications.js';
 
 const router = Router();
 
@@ -45,6 +67,25 @@ router.get('/batch', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/native/rehearsals/participants?rehearsalIds=1,2,3 - Names of invited members (calendar export of many rehearsals)
+router.get('/participants', requireAuth, async (req, res) => {
+  try {
+    const { rehearsalIds } = req.query;
+
+    if (!rehearsalIds) {
+      return res.status(400).json({ error: 'rehearsalIds query parameter is required' });
+    }
+
+    const rehearsalIdArray = rehearsalIds.split(',').map(id => id.trim()).filter(Boolean);
+    const participants = await getRehearsalParticipantNames(rehearsalIdArray, req.userId);
+
+    res.json({ participants });
+  } catch (error) {
+    console.error('[Rehearsal Participants] Error:', error);
+    res.status(500).json({ error: 'Failed to fetch participants' });
+  }
+});
+
 // GET /api/native/projects/:projectId/rehearsals - Get rehearsals where user is invited
 router.get('/:projectId/rehearsals', requireAuth, async (req, res) => {
   try {
@@ -67,42 +108,81 @@ router.get('/:projectId/rehearsals', requireAuth, async (req, res) => {
   }
 });
 
-// POST /api/native/projects/:projectId/rehearsals - Create a new rehearsal
+// POST /api/native/projects/:projectId/rehearsals - Create a new rehearsal (or a series if `recurrence` is set)
 router.post('/:projectId/rehearsals', requireAuth, async (req, res) => {
   try {
     const userId = req.userId;
     const { projectId } = req.params;
 
-    // Check if user is admin/owner
-    const isAdmin = await checkUserIsAdmin(projectId, userId);
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
 
-    if (!isAdmin) {
-      return res.status(403).json({ error: 'Only admins can create rehearsals' });
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to create rehearsals' });
+    }
+
+    if (req.body.recurrence) {
+      const { series, rehearsals } = await createRehearsalSeries(projectId, userId, req.body);
+      res.status(201).json({ rehearsal: rehearsals[0], rehearsals, series });
+      sendInBackground(notifyRehearsalChange(NOTIFICATION_EVENTS.REHEARSAL_CREATED, rehearsals[0], {
+        actorId: userId,
+        count: rehearsals.length,
+      }));
+      return;
     }
 
     const rehearsal = await createRehearsal(projectId, userId, req.body);
 
     res.status(201).json({ rehearsal });
+    sendInBackground(notifyRehearsalChange(NOTIFICATION_EVENTS.REHEARSAL_CREATED, rehearsal, { actorId: userId }));
   } catch (error) {
     console.error('Error creating rehearsal:', error);
-    if (error.message === 'Invalid date format' || error.message.includes('are required')) {
+    if (error.message === 'Invalid date format' || error.message.includes('are required') || error.message.startsWith('Invalid recurrence') || error.message.startsWith('Invalid respondBy')) {
       return res.status(400).json({ error: error.message });
     }
     res.status(500).json({ error: 'Failed to create rehearsal' });
   }
 });
 
+// POST /api/native/projects/:projectId/rehearsals/batch - Create several rehearsals at once (smart planner block)
+router.post('/:projectId/rehearsals/batch', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to create rehearsals' });
+    }
+
+    const rehearsals = await createRehearsalBatch(projectId, userId, req.body);
+
+    res.status(201).json({ rehearsals });
+    if (rehearsals.length > 0) {
+      sendInBackground(notifyRehearsalChange(NOTIFICATION_EVENTS.REHEARSAL_CREATED, rehearsals[0], {
+        actorId: userId,
+        count: rehearsals.length,
+      }));
+    }
+  } catch (error) {
+    console.error('Error creating rehearsal batch:', error);
+    if (error.message.includes('are required') || error.message.startsWith('Invalid session') || error.message.startsWith('Too many sessions') || error.message.startsWith('Invalid respondBy')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to create rehearsals' });
+  }
+});
+
 // PUT /api/native/projects/:projectId/rehearsals/:rehearsalId - Update a rehearsal
 router.put('/:projectId/rehearsals/:rehearsalId', requireAuth, async (req, res) => {
   try {
     const userId = req.userId;
     const { projectId, rehearsalId } = req.params;
 
-    // Check if user is admin/owner
-    const isAdmin = await checkUserIsAdmin(projectId, userId);
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
 
-    if (!isAdmin) {
-      return res.status(403).json({ error: 'Only admins can update rehearsals' });
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to update rehearsals' });
     }
 
     // Check if rehearsal exists
@@ -112,12 +192,32 @@ router.put('/:projectId/rehearsals/:rehearsalId', requireAuth, async (req, res)
       return res.status(404).json({ error: 'Rehearsal not found' });
     }
 
+    // Series occurrences: scope decides which rehearsals change (defaults to this occurrence only)
+    if (rehearsal.series_id) {
+      const scope = req.body.scope || 'occurrence';
+
+      if (!SERIES_SCOPES.includes(scope)) {
+        return res.status(400).json({ error: `Invalid scope. Must be one of: ${SERIES_SCOPES.join(', ')}` });
+      }
+
+      const rehearsals = await updateRehearsalSeries(rehearsal, projectId, scope, req.body);
+      res.json({ rehearsal: rehearsals[0], rehearsals });
+      if (rehearsals.length > 0) {
+        sendInBackground(notifyRehearsalChange(NOTIFICATION_EVENTS.REHEARSAL_UPDATED, rehearsals[0], {
+          actorId: userId,
+          count: rehearsals.length,
+        }));
+      }
+      return;
+    }
+
     const updatedRehearsal = await updateRehearsal(rehearsalId, projectId, req.body);
 
     res.json({ rehearsal: updatedRehearsal });
+    sendInBackground(notifyRehearsalChange(NOTIFICATION_EVENTS.REHEARSAL_UPDATED, updatedRehearsal, { actorId: userId }));
   } catch (error) {
     console.error('Error updating rehearsal:', error);
-    if (error.message === 'Invalid date format' || error.message.includes('are required')) {
+    if (error.message === 'Invalid date format' || error.message.includes('are required') || error.message.startsWith('Invalid respondBy')) {
       return res.status(400).json({ error: error.message });
     }
     res.status(500).json({ error: 'Failed to update rehearsal' });
@@ -130,11 +230,10 @@ router.delete('/:projectId/rehearsals/:rehearsalId', requireAuth, async (req, re
     const userId = req.userId;
     const { projectId, rehearsalId } = req.params;
 
-    // Check if user is admin/owner
-    const isAdmin = await checkUserIsAdmin(projectId, userId);
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
 
-    if (!isAdmin) {
-      return res.status(403).json({ error: 'Only admins can delete rehearsals' });
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to delete rehearsals' });
     }
 
     // Check if rehearsal exists
@@ -144,15 +243,176 @@ router.delete('/:projectId/rehearsals/:rehearsalId', requireAuth, async (req, re
       return res.status(404).json({ error: 'Rehearsal not found' });
     }
 
+    // Invitations are deleted with the rehearsal, so look up whom to tell first
+    const participantIds = await getRehearsalParticipantIds(rehearsal.id);
+    const notifyCancelled = (count) => sendInBackground(notifyRehearsalChange(
+      NOTIFICATION_EVENTS.REHEARSAL_CANCELLED,
+      { id: rehearsal.id, projectId: rehearsal.project_id, startsAt: rehearsal.starts_at },
+      { actorId: userId, recipientIds: participantIds, count }
+    ));
+
+    // Series occurrences: ?scope=occurrence|following|series (defaults to this occurrence only)
+    if (rehearsal.series_id) {
+      const scope = req.query.scope || 'occurrence';
+
+      if (!SERIES_SCOPES.includes(scope)) {
+        return res.status(400).json({ error: `Invalid scope. Must be one of: ${SERIES_SCOPES.join(', ')}` });
+      }
+
+      const deletedIds = await deleteRehearsalSeries(rehearsal, scope);
+      res.json({ success: true, deletedIds });
+      notifyCancelled(deletedIds.length);
+      return;
+    }
+
     await deleteRehearsal(rehearsalId);
 
-    res.json({ success: true });
+    res.json({ success: true, deletedIds: [String(rehearsalId)] });
+    notifyCancelled(1);
   } catch (error) {
     console.error('Error deleting rehearsal:', error);
     res.status(500).json({ error: 'Failed to delete rehearsal' });
   }
 });
 
+// GET /api/native/projects/:projectId/follow-ups - Members who missed the respond-by deadline of upcoming rehearsals
+router.get('/:projectId/follow-ups', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to view follow-ups' });
+    }
+
+    const rehearsals = await getProjectFollowUps(projectId);
+
+    res.json({ rehearsals });
+  } catch (error) {
+    console.error('Error fetching follow-ups:', error);
+    res.status(500).json({ error: 'Failed to fetch follow-ups' });
+  }
+});
+
+// PUT /api/native/projects/:projectId/follow-ups/:followUpId - Mark an overdue member as followed up
+router.put('/:projectId/follow-ups/:followUpId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, followUpId } = req.params;
+    const { contacted = true } = req.body;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.SCHEDULE_REHEARSALS);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to update follow-ups' });
+    }
+
+    if (typeof contacted !== 'boolean') {
+      return res.status(400).json({ error: 'contacted must be a boolean' });
+    }
+
+    const followUp = await setFollowUpContacted(followUpId, projectId, userId, contacted);
+
+    if (!followUp) {
+      return res.status(404).json({ error: 'Follow-up not found' });
+    }
+
+    res.json({ followUp });
+  } catch (error) {
+    console.error('Error updating follow-up:', error);
+    res.status(500).json({ error: 'Failed to update follow-up' });
+  }
+});
+
+// GET /api/native/projects/:projectId/rehearsals/:rehearsalId/attendance - Attendance of invited participants
+router.get('/:projectId/rehearsals/:rehearsalId/attendance', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, rehearsalId } = req.params;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.TRACK_ATTENDANCE);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to view attendance' });
+    }
+
+    const rehearsal = await checkRehearsalExists(rehearsalId, projectId);
+
+    if (!rehearsal) {
+      return res.status(404).json({ error: 'Rehearsal not found' });
+    }
+
+    const attendance = await getRehearsalAttendance(rehearsalId);
+
+    res.json(attendance);
+  } catch (error) {
+    console.error('Error fetching attendance:', error);
+    res.status(500).json({ error: 'Failed to fetch attendance' });
+  }
+});
+
+// PUT /api/native/projects/:projectId/rehearsals/:rehearsalId/attendance - Mark participants present, late or absent
+router.put('/:projectId/rehearsals/:rehearsalId/attendance', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, rehearsalId } = req.params;
+    const { attendance } = req.body;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.TRACK_ATTENDANCE);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to mark attendance' });
+    }
+
+    const rehearsal = await checkRehearsalExists(rehearsalId, projectId);
+
+    if (!rehearsal) {
+      return res.status(404).json({ error: 'Rehearsal not found' });
+    }
+
+    const result = await setRehearsalAttendance(rehearsal, userId, attendance);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error marking attendance:', error);
+    if (
+      error.message.startsWith('Invalid attendance') ||
+      error.message.startsWith('Invalid lateMinutes') ||
+      error.message.startsWith('Attendance can only be marked') ||
+      error.message.startsWith('Participant')
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to mark attendance' });
+  }
+});
+
+// GET /api/native/projects/:projectId/attendance - Attendance history per member
+// Members who view reports or track attendance see everyone, others only themselves
+router.get('/:projectId/attendance', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    const membership = await checkUserMembership(projectId, userId);
+
+    if (!membership) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const seesEveryone = hasPermission(membership.role, PERMISSIONS.VIEW_REPORTS)
+      || hasPermission(membership.role, PERMISSIONS.TRACK_ATTENDANCE);
+    const members = await getProjectAttendanceHistory(projectId, seesEveryone ? null : userId);
+
+    res.json({ members });
+  } catch (error) {
+    console.error('Error fetching attendance history:', error);
+    res.status(500).json({ error: 'Failed to fetch attendance history' });
+  }
+});
+
 // POST /api/native/rehearsals/:rehearsalId/respond - RSVP to a rehearsal
 router.post('/:rehearsalId/respond', requireAuth, async (req, res) => {
   try {
@@ -174,12 +434,17 @@ router.post('/:rehearsalId/respond', requireAuth, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (membership.archived_at) {
+      return res.status(403).json({ error: 'Archived projects are read-only' });
+    }
+
     const stats = await respondToRehearsal(rehearsalId, userId, response, notes, rehearsal.project_id);
 
     res.json(stats);
+    sendInBackground(notifyRsvp(rehearsal.id, userId, response, notes || null));
   } catch (error) {
     console.error('Error responding to rehearsal:', error);
-    if (error.message === 'Invalid response value. Must be "yes" or null.') {
+    if (error.message.startsWith('Invalid response') || error.message.startsWith('Invalid reason') || error.message.startsWith('Reason is too long')) {
       return res.status(400).json({ error: error.message });
     }
     res.status(500).json({ error: 'Failed to update response' });
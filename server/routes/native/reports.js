@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import { checkUserPermission } from '../../services/rehearsals/rehearsalService.js';
+import { PERMISSIONS } from '../../utils/permissions.js';
+import { getProjectReport } from '../../services/rehearsals/reportService.js';
+import { reportToCsv } from '../../utils/report.js';
+
+const REPORT_FORMATS = ['json', 'csv'];
+
+const router = Router();
+
+// GET /api/native/projects/:projectId/report?from=&to=&format= - Attendance and workload report for a date range
+router.get('/:projectId/report', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+    const { from, to, format = 'json' } = req.query;
+
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.VIEW_REPORTS);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'You do not have permission to view reports' });
+    }
+
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${REPORT_FORMATS.join(', ')}` });
+    }
+
+    const report = await getProjectReport(projectId, userId, from, to);
+
+    if (format === 'csv') {
+      const filename = `project-${projectId}-report-${report.from.slice(0, 10)}.csv`;
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(reportToCsv(report));
+    }
+
+    res.json({ report });
+  } catch (error) {
+    console.error('Error building report:', error);
+    if (error.message.startsWith('Invalid report range')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to build report' });
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { requireAuth } from '../../middleware/jwtMiddleware.js';
+import {
+  checkUserMembership,
+  checkUserPermission,
+} from '../../services/rehearsals/rehearsalService.js';
+import { PERMISSIONS } from '../../utils/permissions.js';
+import {
+  getProjectScenes,
+  getSceneById,
+  createScene,
+  updateScene,
+  deleteScene,
+} from '../../services/rehearsals/sceneService.js';
+
+const router = Router();
+
+// GET /api/native/projects/:projectId/scenes - Get project scenes with their members
+router.get('/:projectId/scenes', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    // Check if user is a member
+    const membership = await checkUserMembership(projectId, userId);
+
+    if (!membership) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const scenes = await getProjectScenes(projectId);
+
+    res.json({ scenes });
+  } catch (error) {
+    console.error('Error fetching scenes:', error);
+    res.status(500).json({ error: 'Failed to fetch scenes' });
+  }
+});
+
+// POST /api/native/projects/:projectId/scenes - Create a scene
+router.post('/:projectId/scenes', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId } = req.params;
+
+    // Check if user may manage the project
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can manage scenes' });
+    }
+
+    const scene = await createScene(projectId, req.body);
+
+    res.status(201).json({ scene });
+  } catch (error) {
+    console.error('Error creating scene:', error);
+    if (error.message === 'Scene name is required') {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to create scene' });
+  }
+});
+
+// PUT /api/native/projects/:projectId/scenes/:sceneId - Update a scene
+router.put('/:projectId/scenes/:sceneId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, sceneId } = req.params;
+
+    // Check if user may manage the project
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can manage scenes' });
+    }
+
+    // Check if scene exists
+    const existing = await getSceneById(sceneId, projectId);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Scene not found' });
+    }
+
+    const scene = await updateScene(sceneId, projectId, req.body);
+
+    res.json({ scene });
+  } catch (error) {
+    console.error('Error updating scene:', error);
+    if (error.message === 'Scene name is required') {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update scene' });
+  }
+});
+
+// DELETE /api/native/projects/:projectId/scenes/:sceneId - Delete a scene
+router.delete('/:projectId/scenes/:sceneId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const { projectId, sceneId } = req.params;
+
+    // Check if user may manage the project
+    const allowed = await checkUserPermission(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Only admins can manage scenes' });
+    }
+
+    // Check if scene exists
+    const existing = await getSceneById(sceneId, projectId);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Scene not found' });
+    }
+
+    await deleteScene(sceneId);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting scene:', error);
+    res.status(500).json({ error: 'Failed to delete scene' });
+  }
+});
+
+export default router;
@@ -9,6 +9,9 @@ import nativeRoutes from './routes/native.js';
 import availabilityRoutes from './routes/native/availability.js';
 import calendarSyncRoutes from './routes/native/calendarSync.js';
 import { logger } from './utils/logger.js';
+import { isAuthTokenFormat } from './utils/authTokens.js';
+import { startRsvpFollowUpJob, DEFAULT_FOLLOW_UP_INTERVAL_MINUTES } from './jobs/rsvpFollowUpJob.js';
+import { startEmailDigestJob, DEFAULT_DIGEST_INTERVAL_MINUTES } from './jobs/emailDigestJob.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -85,7 +88,7 @@ app.get('/.well-known/apple-app-site-association', (req, res) => {
       details: [
         {
           appID: 'TEAM_ID.com.rehearsal.app',
-          paths: ['/invite/*']
+          paths: ['/invite/*', '/reset-password/*', '/verify-email/*']
         }
       ]
     }
@@ -108,17 +111,14 @@ app.get('/.well-known/assetlinks.json', (req, res) => {
   ]);
 });
 
-// Universal deep link route - smart redirect page
-app.get('/invite/:code', (req, res) => {
-  const { code } = req.params;
-  const expoHost = req.query.expoHost;
-
-  const html = `
+// Smart redirect page that opens an app screen (appPath as in the app's deep-link config)
+function renderAppRedirectPage(appPath, title, expoHost) {
+  return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="UTF-8">
-      <title>Join Project - Rehearsal App</title>
+      <title>${title} - Rehearsal App</title>
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
       <style>
         body {
@@ -174,15 +174,15 @@ app.get('/invite/:code', (req, res) => {
         </div>
       </div>
       <script>
-        const code = '${code}';
+        const appPath = '${appPath}';
         ${expoHost ? `const expoHost = '${expoHost}';` : 'const expoHost = null;'}
 
         function openApp() {
           const schemes = [];
           if (expoHost) {
-            schemes.push('exp://' + expoHost + '/--/invite/' + code);
+            schemes.push('exp://' + expoHost + '/--/' + appPath);
           }
-          schemes.push('rehearsalapp://invite/' + code);
+          schemes.push('rehearsalapp://' + appPath);
 
           let tried = 0;
           schemes.forEach((scheme, index) => {
@@ -204,8 +204,27 @@ app.get('/invite/:code', (req, res) => {
     </body>
     </html>
   `;
+}
 
-  res.send(html);
+// Universal deep link route - smart redirect page
+app.get('/invite/:code', (req, res) => {
+  const { code } = req.params;
+  res.send(renderAppRedirectPage(`invite/${code}`, 'Join Project', req.query.expoHost));
+});
+
+// Links from password reset and verification emails (tokens are hex, anything else is not ours)
+app.get('/reset-password/:token', (req, res) => {
+  if (!isAuthTokenFormat(req.params.token)) {
+    return res.status(404).send('Not found');
+  }
+  res.send(renderAppRedirectPage(`reset-password/${req.params.token}`, 'Reset Password', req.query.expoHost));
+});
+
+app.get('/verify-email/:token', (req, res) => {
+  if (!isAuthTokenFormat(req.params.token)) {
+    return res.status(404).send('Not found');
+  }
+  res.send(renderAppRedirectPage(`verify-email/${req.params.token}`, 'Verify Email', req.query.expoHost));
 });
 
 app.use((err, _req, res, _next) => {
@@ -219,3 +238,7 @@ app.listen(PORT, HOST, () => {
   logger.info(`Native App API server running on http://${HOST}:${PORT}`);
   logger.info(`Also accessible at http://localhost:${PORT}`);
 });
+
+// Background jobs (an interval of 0 disables a job)
+startRsvpFollowUpJob(Number(process.env.RSVP_FOLLOW_UP_INTERVAL_MINUTES ?? DEFAULT_FOLLOW_UP_INTERVAL_MINUTES));
+startEmailDigestJob(Number(process.env.EMAIL_DIGEST_INTERVAL_MINUTES ?? DEFAULT_DIGEST_INTERVAL_MINUTES));
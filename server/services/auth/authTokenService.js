@@ -0,0 +1,52 @@
+import db from '../../database/db.js';
+import {
+  generateAuthToken,
+  hashAuthToken,
+  getAuthTokenExpiry,
+  isAuthTokenFormat,
+} from '../../utils/authTokens.js';
+
+/**
+ * Issue a one-time token for a user
+ * Earlier unused tokens of the same purpose stop working, so only the latest email counts.
+ * @param {number} userId - User ID
+ * @param {string} purpose - One of AUTH_TOKEN_PURPOSES
+ * @param {Date} now - Current time
+ * @returns {Promise<string>} - The token to put in the email; only its hash is stored
+ */
+export async function createAuthToken(userId, purpose, now = new Date()) {
+  await db.run(
+    'DELETE FROM native_auth_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+    [userId, purpose]
+  );
+
+  const token = generateAuthToken();
+  await db.run(
+    `INSERT INTO native_auth_tokens (user_id, purpose, token_hash, expires_at)
+     VALUES ($1, $2, $3, $4)`,
+    [userId, purpose, hashAuthToken(token), getAuthTokenExpiry(purpose, now)]
+  );
+  return token;
+}
+
+/**
+ * Redeem a token
+ * Marking it used in the same statement means a token cannot be redeemed twice.
+ * @param {string} token - Token from the email link
+ * @param {string} purpose - One of AUTH_TOKEN_PURPOSES
+ * @param {Date} now - Current time
+ * @returns {Promise<number|null>} - ID of the token's user, null if unknown, used or expired
+ */
+export async function consumeAuthToken(token, purpose, now = new Date()) {
+  if (!isAuthTokenFormat(token)) {
+    return null;
+  }
+
+  const redeemed = await db.get(
+    `UPDATE native_auth_tokens SET used_at = $1
+     WHERE token_hash = $2 AND purpose = $3 AND used_at IS NULL AND expires_at > $1
+     RETURNING user_id`,
+    [now, hashAuthToken(token), purpose]
+  );
+  return redeemed ? redeemed.user_id : null;
+}
@@ -0,0 +1,130 @@
+import db from '../../database/db.js';
+import { hashAuthToken } from '../../utils/authTokens.js';
+
+/**
+ * Start a session for a signed-in device
+ * The refresh token is stored right after with setSessionRefreshToken(), since it carries the session id.
+ * @param {number} userId - User ID
+ * @param {string|null} deviceName - Name the app reported, e.g. "iPhone 15 (ios)"
+ * @returns {Promise<number>} - Session ID
+ */
+export async function createSession(userId, deviceName) {
+  const result = await db.run(
+    'INSERT INTO native_user_sessions (user_id, device_name) VALUES ($1, $2)',
+    [userId, deviceName]
+  );
+  return result.lastInsertId;
+}
+
+/**
+ * Store the refresh token a new session starts with
+ * @param {number} sessionId - Session ID
+ * @param {string} refreshToken - Issued refresh token
+ * @param {Date} expiresAt - When the token expires
+ */
+export async function setSessionRefreshToken(sessionId, refreshToken, expiresAt) {
+  await db.run(
+    'UPDATE native_user_sessions SET refresh_token_hash = $1, expires_at = $2 WHERE id = $3',
+    [hashAuthToken(refreshToken), expiresAt, sessionId]
+  );
+}
+
+/**
+ * Get a session
+ * @param {number} sessionId - Session ID
+ * @returns {Promise<object|undefined>}
+ */
+export async function getSession(sessionId) {
+  return db.get('SELECT * FROM native_user_sessions WHERE id = $1', [sessionId]);
+}
+
+/**
+ * Replace the session's refresh token with the next one
+ * The old token is checked in the same statement, so of two refreshes with the same token only one wins.
+ * @param {number} sessionId - Session ID
+ * @param {string} oldRefreshToken - Token presented by the app
+ * @param {string} newRefreshToken - Token to hand out instead
+ * @param {Date} expiresAt - When the new token expires
+ * @returns {Promise<boolean>} - false if the old token was no longer current
+ */
+export async function rotateSessionRefreshToken(sessionId, oldRefreshToken, newRefreshToken, expiresAt) {
+  const rotated = await db.get(
+    `UPDATE native_user_sessions
+     SET refresh_token_hash = $1, expires_at = $2, last_used_at = NOW()
+     WHERE id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL
+     RETURNING id`,
+    [hashAuthToken(newRefreshToken), expiresAt, sessionId, hashAuthToken(oldRefreshToken)]
+  );
+  return Boolean(rotated);
+}
+
+/**
+ * Record that the session was used
+ * @param {number} sessionId - Session ID
+ */
+export async function touchSession(sessionId) {
+  await db.run('UPDATE native_user_sessions SET last_used_at = NOW() WHERE id = $1', [sessionId]);
+}
+
+/**
+ * Get the signed-in sessions of a user, most recently used first
+ * @param {number} userId - User ID
+ * @param {Date} now - Current time
+ * @returns {Promise<object[]>}
+ */
+export async function getUserSessions(userId, now = new Date()) {
+  return db.all(
+    `SELECT id, device_name, created_at, last_used_at FROM native_user_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > $2)
+     ORDER BY last_used_at DESC, id DESC`,
+    [userId, now]
+  );
+}
+
+/**
+ * Revoke one session of a user
+ * @param {number} userId - User ID
+ * @param {number} sessionId - Session ID
+ * @returns {Promise<boolean>} - false if the user has no such signed-in session
+ */
+export async function revokeSession(userId, sessionId) {
+  const revoked = await db.get(
+    `UPDATE native_user_sessions SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+     RETURNING id`,
+    [sessionId, userId]
+  );
+  return Boolean(revoked);
+}
+
+/**
+ * Get the time before which the user's tokens without a session stopped working
+ * @param {number} userId - User ID
+ * @returns {Promise<Date|string|null>}
+ */
+export async function getTokensValidAfter(userId) {
+  const user = await db.get('SELECT tokens_valid_after FROM native_users WHERE id = $1', [userId]);
+  return user ? user.tokens_valid_after : null;
+}
+
+/**
+ * Revoke every session of a user
+ * Tokens issued before sessions existed are revoked too, as they belong to no session.
+ * @param {number} userId - User ID
+ * @param {number|null} exceptSessionId - Session to keep signed in (e.g. the one changing the password)
+ */
+export async function revokeUserSessions(userId, exceptSessionId = null) {
+  if (exceptSessionId) {
+    await db.run(
+      'UPDATE native_user_sessions SET revoked_at = NOW() WHERE user_id = $1 AND id <> $2 AND revoked_at IS NULL',
+      [userId, exceptSessionId]
+    );
+  } else {
+    await db.run(
+      'UPDATE native_user_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId]
+    );
+  }
+
+  await db.run('UPDATE native_users SET tokens_valid_after = NOW() WHERE id = $1', [userId]);
+}
@@ -0,0 +1,106 @@
+import db from '../../database/db.js';
+import { sendMail } from './mailService.js';
+import { isDigestDue, getDigestRange, DEFAULT_DIGEST_FREQUENCY } from '../../utils/digest.js';
+import { buildDigestEmail } from '../../utils/digestEmails.js';
+import { generateAppUrl } from '../../utils/appLinks.js';
+import { timestampToISO } from '../../utils/timezone.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Get the users who get digests: email notifications on and a confirmed address
+ * @returns {Promise<Array>}
+ */
+export async function getDigestRecipients() {
+  return db.all(
+    `SELECT id, email, first_name, locale, timezone, week_start_day,
+            email_digest_frequency, email_digest_sent_at
+     FROM native_users
+     WHERE email_notifications = TRUE AND email_verified_at IS NOT NULL`
+  );
+}
+
+/**
+ * Get the rehearsals a user is invited to within a time range, soonest first
+ * Archived projects and projects the user left are skipped.
+ * @param {number} userId - User ID
+ * @param {string} from - ISO timestamp
+ * @param {string} to - ISO timestamp
+ * @returns {Promise<Array>}
+ */
+export async function getUpcomingRehearsals(userId, from, to) {
+  return db.all(
+    `SELECT r.id, r.title, r.location, r.starts_at, r.ends_at, rr.response, p.name AS project_name
+     FROM native_rehearsal_responses rr
+     JOIN native_rehearsals r ON r.id = rr.rehearsal_id
+     JOIN native_projects p ON p.id = r.project_id
+     JOIN native_project_members m ON m.project_id = p.id AND m.user_id = rr.user_id AND m.status = 'active'
+     WHERE rr.user_id = $1
+       AND r.starts_at >= $2
+       AND r.starts_at < $3
+       AND p.archived_at IS NULL
+     ORDER BY r.starts_at ASC`,
+    [userId, from, to]
+  );
+}
+
+/**
+ * Remember that the user's digest was handled
+ * @param {number} userId - User ID
+ * @param {Date} sentAt - When
+ */
+export async function markDigestSent(userId, sentAt) {
+  await db.run('UPDATE native_users SET email_digest_sent_at = $1 WHERE id = $2', [sentAt.toISOString(), userId]);
+}
+
+/**
+ * Mail the digest to every user it is due for
+ * Users with nothing coming up get no email, but their digest still counts as handled.
+ * A failure for one user is logged and retried on the next run.
+ * @param {Date} now - Current time
+ * @returns {Promise<{sent: number, empty: number, failed: number}>}
+ */
+export async function sendDueDigests(now = new Date()) {
+  const result = { sent: 0, empty: 0, failed: 0 };
+  const users = await getDigestRecipients();
+
+  for (const user of users) {
+    if (!isDigestDue(user, now)) {
+      continue;
+    }
+
+    try {
+      const frequency = user.email_digest_frequency || DEFAULT_DIGEST_FREQUENCY;
+      const { from, to } = getDigestRange(frequency, now);
+      const rows = await getUpcomingRehearsals(user.id, from, to);
+
+      if (rows.length > 0) {
+        const { subject, text, html } = buildDigestEmail({
+          firstName: user.first_name,
+          locale: user.locale,
+          timezone: user.timezone,
+          frequency,
+          rehearsals: rows.map(row => ({
+            projectName: row.project_name,
+            title: row.title,
+            location: row.location,
+            startsAt: timestampToISO(row.starts_at),
+            endsAt: timestampToISO(row.ends_at),
+            response: row.response,
+          })),
+          url: generateAppUrl('tabs/calendar'),
+        });
+        await sendMail({ to: user.email, subject, text, html });
+        result.sent++;
+      } else {
+        result.empty++;
+      }
+
+      await markDigestSent(user.id, now);
+    } catch (error) {
+      logger.error(`[Digest] Failed to send the digest of user ${user.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from '../../utils/logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_FROM = 'Rehearsal Calendar <no-reply@rehearsal-calendar-app.onrender.com>';
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '../../mail-outbox');
+
+/**
+ * A transport delivers one message: { from, to, subject, text, html? }
+ * Set MAIL_TRANSPORT to pick a built-in one; SMTP or an email API can be
+ * plugged in with setMailTransport() without touching the callers.
+ */
+
+/**
+ * Print messages to the server log (default, for local development)
+ */
+export function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send({ from, to, subject, text }) {
+      console.log(`[Mail] From: ${from}\n[Mail] To: ${to}\n[Mail] Subject: ${subject}\n\n${text}`);
+    },
+  };
+}
+
+/**
+ * Write each message to a file in a directory, so links can be opened from there
+ * Messages with HTML are written as multipart/alternative, the way a mail client gets them.
+ * @param {string} dir - Outbox directory, created on first send
+ */
+export function createFileTransport(dir = DEFAULT_OUTBOX_DIR) {
+  return {
+    name: 'file',
+    async send({ from, to, subject, text, html }) {
+      await fs.mkdir(dir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${to.replace(/[^a-z0-9@._-]/gi, '_')}.eml`;
+      const headers = [
+        `From: ${from}`,
+        `To: ${to}`,
+        `Subject: ${subject}`,
+        `Date: ${new Date().toUTCString()}`,
+      ];
+
+      let content;
+      if (html) {
+        const boundary = `alt-${Date.now().toString(36)}`;
+        content = [
+          ...headers,
+          'MIME-Version: 1.0',
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          html,
+          `--${boundary}--`,
+        ].join('\n');
+      } else {
+        content = [...headers, 'Content-Type: text/plain; charset=utf-8', '', text].join('\n');
+      }
+      await fs.writeFile(path.join(dir, fileName), content, 'utf8');
+    },
+  };
+}
+
+function createTransportFromEnv() {
+  switch (process.env.MAIL_TRANSPORT || 'console') {
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    case 'console':
+      return createConsoleTransport();
+    default:
+      logger.warn(`[Mail] Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", printing mail to the log`);
+      return createConsoleTransport();
+  }
+}
+
+let transport = null;
+
+/**
+ * Replace the transport used by sendMail()
+ * @param {{name: string, send: Function}|null} nextTransport - null goes back to MAIL_TRANSPORT
+ */
+export function setMailTransport(nextTransport) {
+  transport = nextTransport;
+}
+
+/**
+ * Send an email
+ * @param {Object} message
+ * @param {string} message.to - Recipient address
+ * @param {string} message.subject
+ * @param {string} message.text - Plain text version, always sent
+ * @param {string} [message.html] - HTML version for clients that show it
+ */
+export async function sendMail({ to, subject, text, html }) {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  await transport.send({ from: process.env.MAIL_FROM || DEFAULT_FROM, to, subject, text, html });
+}
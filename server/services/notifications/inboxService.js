@@ -0,0 +1,88 @@
+import db from '../../database/db.js';
+
+/**
+ * Put notifications into the inboxes of their recipients
+ * @param {Array<{userId: number, projectId: number|null, type: string, title: string, body: string, data: Object}>} entries
+ */
+export async function addInboxNotifications(entries) {
+  for (const entry of entries) {
+    await db.run(
+      `INSERT INTO native_notifications (user_id, project_id, type, title, body, data)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [entry.userId, entry.projectId, entry.type, entry.title, entry.body, JSON.stringify(entry.data)]
+    );
+  }
+}
+
+/**
+ * Get a page of the user's inbox, newest first
+ * @param {number} userId - User ID
+ * @param {Object} options
+ * @param {number} options.limit - Entries to return
+ * @param {number|null} [options.before] - Only entries older than this entry ID (next page)
+ * @returns {Promise<Array>}
+ */
+export async function getInboxNotifications(userId, { limit, before = null }) {
+  if (before) {
+    return db.all(
+      `SELECT id, project_id, type, title, body, data, read_at, created_at
+       FROM native_notifications
+       WHERE user_id = $1 AND id < $2
+       ORDER BY id DESC
+       LIMIT $3`,
+      [userId, before, limit]
+    );
+  }
+
+  return db.all(
+    `SELECT id, project_id, type, title, body, data, read_at, created_at
+     FROM native_notifications
+     WHERE user_id = $1
+     ORDER BY id DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+}
+
+/**
+ * Count the unread entries of the user's inbox
+ * @param {number} userId - User ID
+ * @returns {Promise<number>}
+ */
+export async function getUnreadCount(userId) {
+  const row = await db.get(
+    'SELECT COUNT(*) AS count FROM native_notifications WHERE user_id = $1 AND read_at IS NULL',
+    [userId]
+  );
+  return Number(row?.count || 0);
+}
+
+/**
+ * Mark entries of the user's inbox as read
+ * @param {number} userId - User ID
+ * @param {number[]|null} notificationIds - Entries to mark; null marks the whole inbox
+ * @returns {Promise<number>} - Entries that were unread before
+ */
+export async function markNotificationsRead(userId, notificationIds = null) {
+  if (notificationIds === null) {
+    const rows = await db.all(
+      `UPDATE native_notifications SET read_at = NOW()
+       WHERE user_id = $1 AND read_at IS NULL
+       RETURNING id`,
+      [userId]
+    );
+    return rows.length;
+  }
+
+  if (notificationIds.length === 0) {
+    return 0;
+  }
+
+  const rows = await db.all(
+    `UPDATE native_notifications SET read_at = NOW()
+     WHERE user_id = ? AND read_at IS NULL AND id IN (${notificationIds.map(() => '?').join(',')})
+     RETURNING id`,
+    [userId, ...notificationIds]
+  );
+  return rows.length;
+}
@@ -0,0 +1,237 @@
+import db from '../../database/db.js';
+import { NOTIFICATION_EVENTS, buildNotification } from '../../utils/notifications.js';
+import { timestampToISO } from '../../utils/timezone.js';
+import { normalizeRsvpReason } from '../../utils/rsvp.js';
+import { PERMISSIONS, PROJECT_ROLES, hasPermission } from '../../utils/permissions.js';
+import { sendPushMessages } from './pushService.js';
+import { getPushRecipients, deletePushTokens } from './pushTokenService.js';
+import { addInboxNotifications } from './inboxService.js';
+
+/**
+ * Let a notification finish after the response is sent; a failed notification never fails the request
+ * @param {Promise} notification - Result of one of the notify functions
+ */
+export function sendInBackground(notification) {
+  notification.catch(err => console.error('[Notifications] Failed to notify:', err));
+}
+
+/**
+ * Get the members invited to a rehearsal
+ * Read these before deleting a rehearsal: its invitations go with it.
+ * @param {number} rehearsalId - Rehearsal ID
+ * @returns {Promise<number[]>} - User IDs
+ */
+export async function getRehearsalParticipantIds(rehearsalId) {
+  const rows = await db.all(
+    'SELECT user_id FROM native_rehearsal_responses WHERE rehearsal_id = $1',
+    [rehearsalId]
+  );
+  return rows.map(row => row.user_id);
+}
+
+/**
+ * Send one event to users: an inbox entry for each, and a push to their devices
+ * Texts are built in each user's own language and timezone.
+ * @param {number[]} userIds - Recipients
+ * @param {string} event - One of NOTIFICATION_EVENTS
+ * @param {Object} params - Passed to buildNotification() (without locale and timezone)
+ * @param {Object} data - What the notification opens in the app: { type, projectId, rehearsalId? }
+ */
+async function notifyUsers(userIds, event, params, data) {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const users = await db.all(
+    `SELECT id, locale, timezone FROM native_users WHERE id IN (${uniqueIds.map(() => '?').join(',')})`,
+    uniqueIds
+  );
+  const texts = new Map(users.map(user => [
+    String(user.id),
+    buildNotification(event, { ...params, locale: user.locale, timezone: user.timezone }),
+  ]));
+
+  await addInboxNotifications(users.map(user => ({
+    userId: user.id,
+    projectId: data.projectId ? Number(data.projectId) : null,
+    type: event,
+    ...texts.get(String(user.id)),
+    data,
+  })));
+
+  const recipients = await getPushRecipients(uniqueIds);
+  const messages = recipients
+    .filter(recipient => texts.has(String(recipient.user_id)))
+    .map(recipient => ({
+      to: recipient.token,
+      ...texts.get(String(recipient.user_id)),
+      data,
+    }));
+
+  const { invalidTokens } = await sendPushMessages(messages);
+  if (invalidTokens.length > 0) {
+    await deletePushTokens(invalidTokens);
+  }
+}
+
+/**
+ * Get the members who may approve join requests
+ * @param {number} projectId - Project ID
+ * @returns {Promise<number[]>} - User IDs
+ */
+export async function getProjectManagerIds(projectId) {
+  const roles = PROJECT_ROLES.filter(role => hasPermission(role, PERMISSIONS.MANAGE_MEMBERS));
+  const rows = await db.all(
+    `SELECT user_id FROM native_project_members
+     WHERE project_id = ? AND status = 'active' AND role IN (${roles.map(() => '?').join(',')})`,
+    [projectId, ...roles]
+  );
+  return rows.map(row => row.user_id);
+}
+
+/**
+ * Full name of a user, for texts about what they did
+ * @param {number} userId - User ID
+ * @returns {Promise<string>}
+ */
+async function getUserName(userId) {
+  const user = await db.get('SELECT first_name, last_name FROM native_users WHERE id = $1', [userId]);
+  return [user?.first_name, user?.last_name].filter(Boolean).join(' ');
+}
+
+/**
+ * Tell the participants that rehearsals were scheduled, changed or cancelled
+ * @param {string} event - REHEARSAL_CREATED, REHEARSAL_UPDATED or REHEARSAL_CANCELLED
+ * @param {Object} rehearsal - The (first) affected rehearsal
+ * @param {number|string} rehearsal.id
+ * @param {number|string} rehearsal.projectId
+ * @param {string} rehearsal.startsAt
+ * @param {Object} options
+ * @param {number} options.actorId - Who made the change; not notified
+ * @param {number[]} [options.recipientIds] - Defaults to the rehearsal's participants
+ * @param {number} [options.count] - Rehearsals affected at once
+ */
+export async function notifyRehearsalChange(event, rehearsal, { actorId, recipientIds, count = 1 }) {
+  const participantIds = recipientIds || await getRehearsalParticipantIds(rehearsal.id);
+  const userIds = participantIds.filter(userId => String(userId) !== String(actorId));
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const project = await db.get('SELECT name FROM native_projects WHERE id = $1', [rehearsal.projectId]);
+
+  // A cancelled rehearsal is gone, so there is nothing to open
+  const data = event === NOTIFICATION_EVENTS.REHEARSAL_CANCELLED
+    ? { type: event, projectId: String(rehearsal.projectId) }
+    : { type: event, projectId: String(rehearsal.projectId), rehearsalId: String(rehearsal.id) };
+
+  await notifyUsers(
+    userIds,
+    event,
+    { projectName: project?.name || '', startsAt: timestampToISO(rehearsal.startsAt), count },
+    data
+  );
+}
+
+/**
+ * Tell whoever scheduled a rehearsal that a participant answered
+ * @param {number} rehearsalId - Rehearsal ID
+ * @param {number} responderId - Participant who answered
+ * @param {string} response - 'yes', 'maybe' or 'no'
+ * @param {string|null} reason - Reason given with 'maybe'
+ */
+export async function notifyRsvp(rehearsalId, responderId, response, reason = null) {
+  const rehearsal = await db.get(
+    `SELECT r.id, r.project_id, r.starts_at, r.created_by, p.name AS project_name
+     FROM native_rehearsals r
+     JOIN native_projects p ON p.id = r.project_id
+     WHERE r.id = $1`,
+    [rehearsalId]
+  );
+  if (!rehearsal?.created_by || String(rehearsal.created_by) === String(responderId)) {
+    return;
+  }
+
+  const actorName = await getUserName(responderId);
+
+  await notifyUsers(
+    [rehearsal.created_by],
+    NOTIFICATION_EVENTS.RSVP_RECEIVED,
+    {
+      projectName: rehearsal.project_name,
+      startsAt: timestampToISO(rehearsal.starts_at),
+      actorName,
+      response,
+      reason: response === 'maybe' ? normalizeRsvpReason(reason) : null,
+    },
+    { type: NOTIFICATION_EVENTS.RSVP_RECEIVED, projectId: String(rehearsal.project_id), rehearsalId: String(rehearsal.id) }
+  );
+}
+
+/**
+ * Remind participants to answer rehearsals whose respond-by deadline they missed
+ * @param {Array<{rehearsal_id: number, user_id: number}>} followUps - Follow-ups just added
+ */
+export async function notifyRsvpReminders(followUps) {
+  const usersByRehearsal = new Map();
+  for (const followUp of followUps) {
+    const userIds = usersByRehearsal.get(followUp.rehearsal_id) || [];
+    userIds.push(followUp.user_id);
+    usersByRehearsal.set(followUp.rehearsal_id, userIds);
+  }
+
+  for (const [rehearsalId, userIds] of usersByRehearsal) {
+    const rehearsal = await db.get(
+      `SELECT r.id, r.project_id, r.starts_at, p.name AS project_name
+       FROM native_rehearsals r
+       JOIN native_projects p ON p.id = r.project_id
+       WHERE r.id = $1`,
+      [rehearsalId]
+    );
+    if (!rehearsal) {
+      continue;
+    }
+
+    await notifyUsers(
+      userIds,
+      NOTIFICATION_EVENTS.RSVP_REMINDER,
+      { projectName: rehearsal.project_name, startsAt: timestampToISO(rehearsal.starts_at) },
+      { type: NOTIFICATION_EVENTS.RSVP_REMINDER, projectId: String(rehearsal.project_id), rehearsalId: String(rehearsal.id) }
+    );
+  }
+}
+
+/**
+ * Tell the project's admins that someone asked to join through an approval link
+ * @param {number} projectId - Project ID
+ * @param {string} projectName - Project name
+ * @param {number} requesterId - User who asked to join
+ */
+export async function notifyJoinRequest(projectId, projectName, requesterId) {
+  const managerIds = await getProjectManagerIds(projectId);
+
+  await notifyUsers(
+    managerIds,
+    NOTIFICATION_EVENTS.JOIN_REQUEST,
+    { projectName, actorName: await getUserName(requesterId) },
+    { type: NOTIFICATION_EVENTS.JOIN_REQUEST, projectId: String(projectId) }
+  );
+}
+
+/**
+ * Tell a member their role was changed (also when they were made the owner)
+ * @param {number} projectId - Project ID
+ * @param {number} memberId - Member whose role changed
+ * @param {string} role - The new role
+ */
+export async function notifyRoleChange(projectId, memberId, role) {
+  const project = await db.get('SELECT name FROM native_projects WHERE id = $1', [projectId]);
+
+  await notifyUsers(
+    [memberId],
+    NOTIFICATION_EVENTS.ROLE_CHANGED,
+    { projectName: project?.name || '', role },
+    { type: NOTIFICATION_EVENTS.ROLE_CHANGED, projectId: String(projectId) }
+  );
+}
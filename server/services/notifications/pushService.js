@@ -0,0 +1,107 @@
+import { logger } from '../../utils/logger.js';
+import { chunkMessages } from '../../utils/notifications.js';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+/**
+ * A provider delivers push messages: { to, title, body, data }
+ * and reports tokens the push service no longer knows, so they can be dropped.
+ * Set PUSH_PROVIDER to pick a built-in one; other services can be plugged in
+ * with setPushProvider() without touching the callers.
+ */
+
+/**
+ * Send through the Expo push service
+ * @param {Object} options
+ * @param {string|undefined} options.accessToken - Needed when "enhanced push security" is on for the Expo project
+ */
+export function createExpoPushProvider({ accessToken } = {}) {
+  return {
+    name: 'expo',
+    async send(messages) {
+      const invalidTokens = [];
+
+      for (const chunk of chunkMessages(messages)) {
+        const response = await fetch(EXPO_PUSH_URL, {
+          method: 'POST',
+          headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+            ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+          },
+          body: JSON.stringify(chunk.map(message => ({ sound: 'default', ...message }))),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Expo push request failed with status ${response.status}`);
+        }
+
+        // Tickets come back in the order of the messages
+        const { data: tickets = [] } = await response.json();
+        tickets.forEach((ticket, index) => {
+          if (ticket.status === 'error' && ticket.details?.error === 'DeviceNotRegistered') {
+            invalidTokens.push(chunk[index].to);
+          }
+        });
+      }
+
+      return { invalidTokens };
+    },
+  };
+}
+
+/**
+ * Print messages to the server log and keep them in `sent` (local development and tests)
+ */
+export function createLogPushProvider() {
+  const sent = [];
+  return {
+    name: 'log',
+    sent,
+    async send(messages) {
+      for (const message of messages) {
+        console.log(`[Push] To: ${message.to}\n[Push] ${message.title}: ${message.body}\n[Push] Data: ${JSON.stringify(message.data)}`);
+        sent.push(message);
+      }
+      return { invalidTokens: [] };
+    },
+  };
+}
+
+function createProviderFromEnv() {
+  const defaultProvider = process.env.NODE_ENV === 'production' ? 'expo' : 'log';
+  switch (process.env.PUSH_PROVIDER || defaultProvider) {
+    case 'expo':
+      return createExpoPushProvider({ accessToken: process.env.EXPO_ACCESS_TOKEN });
+    case 'log':
+      return createLogPushProvider();
+    default:
+      logger.warn(`[Push] Unknown PUSH_PROVIDER "${process.env.PUSH_PROVIDER}", printing notifications to the log`);
+      return createLogPushProvider();
+  }
+}
+
+let provider = null;
+
+/**
+ * Replace the provider used by sendPushMessages()
+ * @param {{name: string, send: Function}|null} nextProvider - null goes back to PUSH_PROVIDER
+ */
+export function setPushProvider(nextProvider) {
+  provider = nextProvider;
+}
+
+/**
+ * Deliver push messages
+ * @param {Array<{to: string, title: string, body: string, data: Object}>} messages
+ * @returns {Promise<{invalidTokens: string[]}>}
+ */
+export async function sendPushMessages(messages) {
+  if (messages.length === 0) {
+    return { invalidTokens: [] };
+  }
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider.send(messages);
+}
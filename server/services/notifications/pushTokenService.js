@@ -0,0 +1,62 @@
+import db from '../../database/db.js';
+
+/**
+ * Register the push token of the device making the request
+ * A token belongs to one app install, so it moves to whoever signed in there last.
+ * @param {number} userId - User ID
+ * @param {number|null} sessionId - Session of the device
+ * @param {string} token - Expo push token
+ * @param {string|null} platform - 'ios' or 'android'
+ */
+export async function registerPushToken(userId, sessionId, token, platform) {
+  await db.run(
+    `INSERT INTO native_push_tokens (user_id, session_id, token, platform)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (token)
+     DO UPDATE SET user_id = excluded.user_id, session_id = excluded.session_id,
+                   platform = excluded.platform, updated_at = NOW()`,
+    [userId, sessionId, token, platform]
+  );
+}
+
+/**
+ * Forget a push token of the user (notifications turned off on the device)
+ * @param {number} userId - User ID
+ * @param {string} token - Expo push token
+ */
+export async function removePushToken(userId, token) {
+  await db.run('DELETE FROM native_push_tokens WHERE user_id = $1 AND token = $2', [userId, token]);
+}
+
+/**
+ * Drop tokens the push service reported as unknown
+ * @param {string[]} tokens - Expo push tokens
+ */
+export async function deletePushTokens(tokens) {
+  for (const token of tokens) {
+    await db.run('DELETE FROM native_push_tokens WHERE token = $1', [token]);
+  }
+}
+
+/**
+ * Get the devices to push to, with the language and timezone of their users
+ * Skips users who turned notifications off and devices whose session was revoked.
+ * @param {number[]} userIds - User IDs
+ * @returns {Promise<Array<{user_id: number, token: string, locale: string, timezone: string}>>}
+ */
+export async function getPushRecipients(userIds) {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  return db.all(
+    `SELECT t.user_id, t.token, u.locale, u.timezone
+     FROM native_push_tokens t
+     JOIN native_users u ON u.id = t.user_id
+     LEFT JOIN native_user_sessions s ON s.id = t.session_id
+     WHERE t.user_id IN (${userIds.map(() => '?').join(',')})
+       AND u.notifications_enabled = TRUE
+       AND (t.session_id IS NULL OR s.revoked_at IS NULL)`,
+    userIds
+  );
+}
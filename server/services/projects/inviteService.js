@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import db from '../../database/db.js';
+
+function generateInviteCode() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Create an invite link
+ * @param {number} projectId - Project ID
+ * @param {number} userId - Member creating the link
+ * @param {Object} options - Validated options (see utils/invites.js)
+ * @param {string|null} [options.label]
+ * @param {string} [options.role]
+ * @param {number|null} [options.maxUses]
+ * @param {number|null} [options.expiresInDays] - null for a link that never expires
+ * @param {boolean} [options.requiresApproval] - Joining creates a join request for admins to approve
+ * @param {Date} now - Current time
+ * @returns {Promise<object>} - Created invite row
+ */
+export async function createInvite(
+  projectId,
+  userId,
+  { label = null, role = 'member', maxUses = null, expiresInDays = null, requiresApproval = false },
+  now = new Date()
+) {
+  let expiresAt = null;
+  if (expiresInDays) {
+    expiresAt = new Date(now);
+    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+  }
+
+  return db.get(
+    `INSERT INTO native_project_invites (project_id, code, label, role, max_uses, expires_at, requires_approval, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [projectId, generateInviteCode(), label ? label.trim() : null, role, maxUses, expiresAt, requiresApproval, userId]
+  );
+}
+
+/**
+ * Get all invite links of a project that were not revoked, newest first
+ * Expired and used up links stay in the list so admins can see who joined through them.
+ * @param {number} projectId - Project ID
+ * @returns {Promise<object[]>}
+ */
+export async function getProjectInvites(projectId) {
+  return db.all(
+    `SELECT * FROM native_project_invites
+     WHERE project_id = $1 AND revoked_at IS NULL
+     ORDER BY created_at DESC, id DESC`,
+    [projectId]
+  );
+}
+
+/**
+ * Get an invite link together with its project
+ * @param {string} code - Invite code
+ * @returns {Promise<object|undefined>} - Invite row with project_name and project_description
+ */
+export async function getInviteByCode(code) {
+  return db.get(
+    `SELECT i.*, p.name AS project_name, p.description AS project_description
+     FROM native_project_invites i
+     JOIN native_projects p ON p.id = i.project_id
+     WHERE i.code = $1`,
+    [code]
+  );
+}
+
+/**
+ * Find the plain link older apps share: member role, no label, no usage limit, no approval, not expired
+ * @param {number} projectId - Project ID
+ * @param {Date} now - Current time
+ * @returns {Promise<object|undefined>}
+ */
+export async function findReusableInvite(projectId, now = new Date()) {
+  return db.get(
+    `SELECT * FROM native_project_invites
+     WHERE project_id = $1 AND revoked_at IS NULL
+       AND label IS NULL AND role = 'member' AND max_uses IS NULL AND requires_approval = FALSE
+       AND (expires_at IS NULL OR expires_at > $2)
+     ORDER BY created_at DESC, id DESC
+     LIMIT 1`,
+    [projectId, now]
+  );
+}
+
+/**
+ * Revoke one invite link
+ * @param {number} projectId - Project ID
+ * @param {number} inviteId - Invite ID
+ * @returns {Promise<object|undefined>} - Revoked invite, undefined if not found in the project
+ */
+export async function revokeInvite(projectId, inviteId) {
+  return db.get(
+    `UPDATE native_project_invites SET revoked_at = COALESCE(revoked_at, NOW())
+     WHERE id = $1 AND project_id = $2
+     RETURNING *`,
+    [inviteId, projectId]
+  );
+}
+
+/**
+ * Revoke every invite link of a project
+ * @param {number} projectId - Project ID
+ */
+export async function revokeProjectInvites(projectId) {
+  await db.run(
+    'UPDATE native_project_invites SET revoked_at = NOW() WHERE project_id = $1 AND revoked_at IS NULL',
+    [projectId]
+  );
+}
+
+/**
+ * Count a join against the link's usage limit
+ * The limit is checked in the same statement, so two people joining at once
+ * cannot both take the last place.
+ * @param {number} inviteId - Invite ID
+ * @returns {Promise<boolean>} - false if the link was used up meanwhile
+ */
+export async function claimInviteUse(inviteId) {
+  const claimed = await db.get(
+    `UPDATE native_project_invites SET use_count = use_count + 1
+     WHERE id = $1 AND (max_uses IS NULL OR use_count < max_uses)
+     RETURNING id`,
+    [inviteId]
+  );
+  return Boolean(claimed);
+}
+
+/**
+ * Give back the place a rejected join request took on its link
+ * @param {number} inviteId - Invite ID
+ */
+export async function releaseInviteUse(inviteId) {
+  await db.run(
+    'UPDATE native_project_invites SET use_count = use_count - 1 WHERE id = $1 AND use_count > 0',
+    [inviteId]
+  );
+}
@@ -0,0 +1,158 @@
+import db from '../../database/db.js';
+import { AVAILABILITY_SOURCES } from '../../constants/timezone.js';
+import { releaseInviteUse } from './inviteService.js';
+
+/**
+ * Get an active membership
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User ID
+ * @returns {Promise<object|undefined>}
+ */
+export async function getActiveMembership(projectId, userId) {
+  return db.get(
+    "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND status = 'active'",
+    [projectId, userId]
+  );
+}
+
+/**
+ * Change a member's role
+ * @param {number} projectId - Project ID
+ * @param {number} userId - Member whose role changes
+ * @param {string} role - New role
+ */
+export async function changeMemberRole(projectId, userId, role) {
+  await db.run(
+    "UPDATE native_project_members SET role = $1 WHERE project_id = $2 AND user_id = $3 AND status = 'active'",
+    [role, projectId, userId]
+  );
+}
+
+/**
+ * Hand the project over to another member; the previous owner stays on as admin
+ * Both roles change in one transaction, so the project never ends up with two owners.
+ * @param {number} projectId - Project ID
+ * @param {number} ownerId - Current owner
+ * @param {number} newOwnerId - Active member becoming the owner
+ */
+export async function transferOwnership(projectId, ownerId, newOwnerId) {
+  await db.transaction(async () => {
+    await changeMemberRole(projectId, newOwnerId, 'owner');
+    await changeMemberRole(projectId, ownerId, 'admin');
+  });
+}
+
+/**
+ * Take a member out of the project (removal or leaving)
+ * The membership is kept with status 'left' so past RSVPs and attendance stay in reports.
+ * Upcoming rehearsals drop the member: their RSVP rows, busy slots and follow-ups are deleted,
+ * as are their scene castings so new rehearsals don't invite them again.
+ * Runs in one transaction, so a failure partway leaves the member as they were.
+ * @param {number} projectId - Project ID
+ * @param {number} userId - Member leaving
+ * @param {Date} now - Current time
+ * @returns {Promise<string[]>} - Upcoming rehearsals the member was uninvited from
+ */
+export async function removeMemberFromProject(projectId, userId, now = new Date()) {
+  return db.transaction(async () => {
+    await db.run(
+      "UPDATE native_project_members SET status = 'left' WHERE project_id = $1 AND user_id = $2",
+      [projectId, userId]
+    );
+
+    const upcoming = await db.all(
+      `SELECT r.id
+       FROM native_rehearsals r
+       JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+       WHERE r.project_id = $1 AND rr.user_id = $2 AND r.starts_at > $3::timestamptz`,
+      [projectId, userId, now.toISOString()]
+    );
+    const rehearsalIds = upcoming.map((row) => String(row.id));
+
+    if (rehearsalIds.length > 0) {
+      const placeholders = rehearsalIds.map(() => '?').join(',');
+      await db.run(
+        `DELETE FROM native_rehearsal_responses WHERE user_id = ? AND rehearsal_id IN (${placeholders})`,
+        [userId, ...rehearsalIds]
+      );
+      await db.run(
+        `DELETE FROM native_user_availability
+         WHERE user_id = ? AND source = ? AND external_event_id IN (${placeholders})`,
+        [userId, AVAILABILITY_SOURCES.REHEARSAL, ...rehearsalIds]
+      );
+    }
+
+    await db.run(
+      'DELETE FROM native_rsvp_follow_ups WHERE project_id = $1 AND user_id = $2',
+      [projectId, userId]
+    );
+    await db.run(
+      `DELETE FROM native_scene_members
+       WHERE user_id = $1 AND scene_id IN (SELECT id FROM native_project_scenes WHERE project_id = $2)`,
+      [userId, projectId]
+    );
+
+    return rehearsalIds;
+  });
+}
+
+/**
+ * Get join requests waiting for approval, oldest first
+ * @param {number} projectId - Project ID
+ * @returns {Promise<object[]>} - Pending memberships with user info and the invite label
+ */
+export async function getJoinRequests(projectId) {
+  return db.all(
+    `SELECT m.user_id, m.role, m.invited_at, m.invite_id,
+            u.first_name, u.last_name, u.email, u.avatar_url,
+            i.label AS invite_label
+     FROM native_project_members m
+     JOIN native_users u ON u.id = m.user_id
+     LEFT JOIN native_project_invites i ON i.id = m.invite_id
+     WHERE m.project_id = $1 AND m.status = 'invited'
+     ORDER BY m.invited_at, m.id`,
+    [projectId]
+  );
+}
+
+/**
+ * Get a join request waiting for approval
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User who asked to join
+ * @returns {Promise<object|undefined>}
+ */
+export async function getJoinRequest(projectId, userId) {
+  return db.get(
+    "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND status = 'invited'",
+    [projectId, userId]
+  );
+}
+
+/**
+ * Approve a join request; the member gets the role of the link they used
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User who asked to join
+ */
+export async function approveJoinRequest(projectId, userId) {
+  await db.run(
+    "UPDATE native_project_members SET status = 'active', joined_at = NOW() WHERE project_id = $1 AND user_id = $2 AND status = 'invited'",
+    [projectId, userId]
+  );
+}
+
+/**
+ * Reject a join request
+ * The membership is kept as 'declined' so the same approval link can't be used to ask again;
+ * the place the request took on its link is given back.
+ * @param {number} projectId - Project ID
+ * @param {Object} request - Pending membership (see getJoinRequest)
+ */
+export async function rejectJoinRequest(projectId, request) {
+  await db.run(
+    "UPDATE native_project_members SET status = 'declined' WHERE project_id = $1 AND user_id = $2 AND status = 'invited'",
+    [projectId, request.user_id]
+  );
+  if (request.invite_id) {
+    await releaseInviteUse(request.invite_id);
+  }
+}
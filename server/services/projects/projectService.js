@@ -0,0 +1,63 @@
+import db from '../../database/db.js';
+import { AVAILABILITY_SOURCES } from '../../constants/timezone.js';
+import { revokeProjectInvites } from './inviteService.js';
+
+/**
+ * Update a project's name, description, timezone or archive state
+ * Archiving also revokes the invite links so nobody joins a finished project.
+ * @param {number} projectId - Project ID
+ * @param {Object} update - Validated fields (see utils/projectSettings.js)
+ * @param {string} [update.name]
+ * @param {string|null} [update.description]
+ * @param {string} [update.timezone]
+ * @param {boolean} [update.archived]
+ * @returns {Promise<object|undefined>} - Updated project row
+ */
+export async function updateProjectSettings(projectId, { name, description, timezone, archived }) {
+  const assignments = [];
+  const params = [];
+
+  const set = (column, value) => {
+    params.push(value);
+    assignments.push(`${column} = $${params.length}`);
+  };
+
+  if (name !== undefined) {
+    set('name', name.trim());
+  }
+  if (description !== undefined) {
+    set('description', description ? description.trim() : null);
+  }
+  if (timezone !== undefined) {
+    set('timezone', timezone);
+  }
+  if (archived === true) {
+    assignments.push('archived_at = COALESCE(archived_at, NOW())');
+    await revokeProjectInvites(projectId);
+  } else if (archived === false) {
+    assignments.push('archived_at = NULL');
+  }
+
+  params.push(projectId);
+  return db.get(
+    `UPDATE native_projects SET ${assignments.join(', ')}, updated_at = NOW()
+     WHERE id = $${params.length} RETURNING *`,
+    params
+  );
+}
+
+/**
+ * Delete a project with everything in it
+ * Rehearsal busy slots reference rehearsals only by id, so they are removed first;
+ * members, rehearsals, responses and scenes go with the project through ON DELETE CASCADE.
+ * @param {number} projectId - Project ID
+ */
+export async function deleteProject(projectId) {
+  await db.run(
+    `DELETE FROM native_user_availability
+     WHERE source = $1
+       AND external_event_id IN (SELECT CAST(id AS TEXT) FROM native_rehearsals WHERE project_id = $2)`,
+    [AVAILABILITY_SOURCES.REHEARSAL, projectId]
+  );
+  await db.run('DELETE FROM native_projects WHERE id = $1', [projectId]);
+}
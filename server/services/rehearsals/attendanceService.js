@@ -0,0 +1,144 @@
+import db from '../../database/db.js';
+import { timestampToISO } from '../../utils/timezone.js';
+import { validateAttendance, summarizeAttendance } from '../../utils/attendance.js';
+
+// Recent records returned per member in the project history
+const RECENT_ATTENDANCE_LIMIT = 10;
+
+function formatAttendanceRecord(row) {
+  return {
+    status: row.status,
+    lateMinutes: row.status === 'late' ? Number(row.late_minutes) : null,
+    markedBy: row.marked_by ? String(row.marked_by) : null,
+    markedAt: row.marked_at ? timestampToISO(row.marked_at) : null,
+  };
+}
+
+/**
+ * Get attendance of a rehearsal
+ * Every invited participant is listed, with attendance null until an admin marks it.
+ * @param {number} rehearsalId - Rehearsal ID
+ * @returns {Promise<{participants: Array, stats: object}>}
+ */
+export async function getRehearsalAttendance(rehearsalId) {
+  const rows = await db.all(
+    `SELECT u.id as user_id, u.first_name, u.last_name, u.email,
+            r.response,
+            a.status, a.late_minutes, a.marked_by, a.marked_at
+     FROM native_rehearsal_responses r
+     JOIN native_users u ON r.user_id = u.id
+     LEFT JOIN native_rehearsal_attendance a ON a.rehearsal_id = r.rehearsal_id AND a.user_id = r.user_id
+     WHERE r.rehearsal_id = $1
+     ORDER BY u.first_name, u.last_name`,
+    [rehearsalId]
+  );
+
+  const participants = rows.map((row) => ({
+    userId: String(row.user_id),
+    firstName: row.first_name,
+    lastName: row.last_name,
+    email: row.email,
+    response: row.response,
+    attendance: row.status ? formatAttendanceRecord(row) : null,
+  }));
+
+  const stats = summarizeAttendance(
+    participants.filter((p) => p.attendance).map((p) => p.attendance)
+  );
+
+  return { participants, stats: { ...stats, unmarked: participants.length - stats.total } };
+}
+
+/**
+ * Mark attendance of invited participants (upsert, participants not in the list keep their mark)
+ * @param {object} rehearsal - Rehearsal row (from checkRehearsalExists)
+ * @param {number} markedBy - Admin marking attendance
+ * @param {Array<{userId: string, status: string, lateMinutes?: number}>} entries
+ * @param {Date} now - Current time
+ * @returns {Promise<{participants: Array, stats: object}>} - Updated attendance of the rehearsal
+ */
+export async function setRehearsalAttendance(rehearsal, markedBy, entries, now = new Date()) {
+  const validationError = validateAttendance(entries);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  if (new Date(rehearsal.starts_at).getTime() > now.getTime()) {
+    throw new Error('Attendance can only be marked once the rehearsal has started');
+  }
+
+  const invited = await db.all(
+    'SELECT user_id FROM native_rehearsal_responses WHERE rehearsal_id = $1',
+    [rehearsal.id]
+  );
+  const invitedIds = new Set(invited.map((row) => String(row.user_id)));
+
+  const notInvited = entries.find((entry) => !invitedIds.has(String(entry.userId)));
+  if (notInvited) {
+    throw new Error(`Participant ${notInvited.userId} is not invited to this rehearsal`);
+  }
+
+  for (const entry of entries) {
+    await db.run(
+      `INSERT INTO native_rehearsal_attendance (rehearsal_id, user_id, status, late_minutes, marked_by, marked_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())
+       ON CONFLICT (rehearsal_id, user_id)
+       DO UPDATE SET status = $3, late_minutes = $4, marked_by = $5, marked_at = NOW()`,
+      [rehearsal.id, entry.userId, entry.status, entry.status === 'late' ? entry.lateMinutes : null, markedBy]
+    );
+  }
+
+  return getRehearsalAttendance(rehearsal.id);
+}
+
+/**
+ * Get attendance history of project members
+ * @param {number} projectId - Project ID
+ * @param {number|null} userId - Only this member (null = all active members)
+ * @returns {Promise<Array>} - Members with an attendance summary and their most recent records
+ */
+export async function getProjectAttendanceHistory(projectId, userId = null) {
+  const memberParams = userId ? [projectId, userId] : [projectId];
+  const members = await db.all(
+    `SELECT u.id as user_id, u.first_name, u.last_name, pm.character_name
+     FROM native_project_members pm
+     JOIN native_users u ON pm.user_id = u.id
+     WHERE pm.project_id = $1 AND pm.status = 'active'${userId ? ' AND pm.user_id = $2' : ''}
+     ORDER BY u.first_name, u.last_name`,
+    memberParams
+  );
+
+  const records = await db.all(
+    `SELECT a.user_id, a.rehearsal_id, a.status, a.late_minutes, a.marked_by, a.marked_at,
+            r.starts_at, r.title, r.location
+     FROM native_rehearsal_attendance a
+     JOIN native_rehearsals r ON r.id = a.rehearsal_id
+     WHERE r.project_id = $1${userId ? ' AND a.user_id = $2' : ''}
+     ORDER BY r.starts_at DESC`,
+    memberParams
+  );
+
+  const recordsByUser = {};
+  for (const row of records) {
+    const key = String(row.user_id);
+    (recordsByUser[key] = recordsByUser[key] || []).push({
+      rehearsalId: String(row.rehearsal_id),
+      startsAt: timestampToISO(row.starts_at),
+      title: row.title,
+      location: row.location,
+      ...formatAttendanceRecord(row),
+    });
+  }
+
+  return members.map((member) => {
+    const memberRecords = recordsByUser[String(member.user_id)] || [];
+    return {
+      userId: String(member.user_id),
+      firstName: member.first_name,
+      lastName: member.last_name,
+      characterName: member.character_name,
+      summary: summarizeAttendance(memberRecords),
+      recent: memberRecords.slice(0, RECENT_ATTENDANCE_LIMIT),
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { createRehearsal } from './rehearsalService.js';
+
+// Hard cap so a single request can't flood the calendar
+export const MAX_BATCH_SESSIONS = 30;
+
+/**
+ * Validate sessions of a batch before anything is written
+ * @param {Array<{startsAt: string, endsAt: string}>} sessions - Sessions from the request body
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateBatchSessions(sessions) {
+  if (!Array.isArray(sessions) || sessions.length === 0) {
+    return 'sessions are required';
+  }
+
+  if (sessions.length > MAX_BATCH_SESSIONS) {
+    return `Too many sessions. Maximum is ${MAX_BATCH_SESSIONS}`;
+  }
+
+  for (const session of sessions) {
+    const start = Date.parse(session?.startsAt);
+    const end = Date.parse(session?.endsAt);
+    if (isNaN(start) || isNaN(end)) {
+      return 'Invalid session: startsAt and endsAt must be ISO timestamps';
+    }
+    if (start >= end) {
+      return 'Invalid session: startsAt must be before endsAt';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create several independent rehearsals sharing the same details (production block planning)
+ * All sessions are validated first, so an invalid batch creates nothing
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User ID (creator)
+ * @param {object} batchData - Shared rehearsal fields plus `sessions: [{startsAt, endsAt}]`
+ * @returns {Promise<Array>} - Created rehearsals in chronological order
+ */
+export async function createRehearsalBatch(projectId, userId, batchData) {
+  const { sessions, ...rehearsalData } = batchData;
+
+  const validationError = validateBatchSessions(sessions);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const ordered = [...sessions].sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
+
+  console.log(`[createRehearsalBatch] Creating ${ordered.length} rehearsals for project ${projectId}`);
+
+  const rehearsals = [];
+  for (const session of ordered) {
+    const rehearsal = await createRehearsal(projectId, userId, {
+      ...rehearsalData,
+      startsAt: session.startsAt,
+      endsAt: session.endsAt,
+    });
+    rehearsals.push(rehearsal);
+  }
+
+  return rehearsals;
+}
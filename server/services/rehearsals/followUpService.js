@@ -0,0 +1,129 @@
+import db from '../../database/db.js';
+import { timestampToISO } from '../../utils/timezone.js';
+
+// Invited participant who hasn't answered an upcoming rehearsal whose respond-by deadline has passed
+// ($1 = current time). Only 'yes' and 'maybe' count as answers, see hasAnswered() in utils/rsvp.js
+const OVERDUE_CONDITION = `
+  r.respond_by IS NOT NULL
+  AND r.respond_by <= $1::timestamptz
+  AND r.starts_at > $1::timestamptz
+  AND (rr.response IS NULL OR rr.response NOT IN ('yes', 'maybe'))`;
+
+/**
+ * Refresh the follow-up list of every project
+ * Adds members who missed a respond-by deadline and removes those who answered since,
+ * were uninvited, got a later deadline or whose rehearsal has started.
+ * Members already on the list keep their detection and "contacted" state.
+ * @param {Date} now - Current time
+ * @returns {Promise<{added: number, removed: number, addedFollowUps: Array}>} - Number of follow-ups added
+ *   and removed, and the added ones ({ id, rehearsal_id, user_id }) to remind
+ */
+export async function refreshRsvpFollowUps(now = new Date()) {
+  const nowISO = now.toISOString();
+
+  const added = await db.all(
+    `INSERT INTO native_rsvp_follow_ups (project_id, rehearsal_id, user_id, detected_at)
+     SELECT r.project_id, r.id, rr.user_id, $1::timestamptz
+     FROM native_rehearsals r
+     JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+     WHERE ${OVERDUE_CONDITION}
+     ON CONFLICT (rehearsal_id, user_id) DO NOTHING
+     RETURNING id, rehearsal_id, user_id`,
+    [nowISO]
+  );
+
+  const removed = await db.all(
+    `DELETE FROM native_rsvp_follow_ups
+     WHERE NOT EXISTS (
+       SELECT 1
+       FROM native_rehearsals r
+       JOIN native_rehearsal_responses rr ON rr.rehearsal_id = r.id
+       WHERE r.id = native_rsvp_follow_ups.rehearsal_id
+         AND rr.user_id = native_rsvp_follow_ups.user_id
+         AND ${OVERDUE_CONDITION}
+     )
+     RETURNING id`,
+    [nowISO]
+  );
+
+  return { added: added.length, removed: removed.length, addedFollowUps: added };
+}
+
+/**
+ * Get the follow-up list of a project, grouped by rehearsal
+ * @param {number} projectId - Project ID
+ * @returns {Promise<Array>} - Upcoming rehearsals (soonest first) with their overdue non-responders
+ */
+export async function getProjectFollowUps(projectId) {
+  const rows = await db.all(
+    `SELECT f.id, f.rehearsal_id, f.user_id, f.detected_at, f.contacted_at, f.contacted_by,
+            r.starts_at, r.ends_at, r.location, r.respond_by,
+            u.first_name, u.last_name, u.email
+     FROM native_rsvp_follow_ups f
+     JOIN native_rehearsals r ON r.id = f.rehearsal_id
+     JOIN native_users u ON u.id = f.user_id
+     WHERE f.project_id = $1
+     ORDER BY r.starts_at ASC, u.first_name, u.last_name`,
+    [projectId]
+  );
+
+  const rehearsals = [];
+  const byRehearsal = {};
+
+  for (const row of rows) {
+    if (!byRehearsal[row.rehearsal_id]) {
+      byRehearsal[row.rehearsal_id] = {
+        rehearsalId: String(row.rehearsal_id),
+        startsAt: timestampToISO(row.starts_at),
+        endsAt: timestampToISO(row.ends_at),
+        location: row.location,
+        respondBy: timestampToISO(row.respond_by),
+        members: [],
+      };
+      rehearsals.push(byRehearsal[row.rehearsal_id]);
+    }
+
+    byRehearsal[row.rehearsal_id].members.push({
+      followUpId: String(row.id),
+      userId: String(row.user_id),
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email,
+      detectedAt: timestampToISO(row.detected_at),
+      contactedAt: row.contacted_at ? timestampToISO(row.contacted_at) : null,
+      contactedBy: row.contacted_by ? String(row.contacted_by) : null,
+    });
+  }
+
+  return rehearsals;
+}
+
+/**
+ * Mark an overdue member as followed up (or undo it)
+ * @param {number} followUpId - Follow-up ID
+ * @param {number} projectId - Project ID the follow-up must belong to
+ * @param {number} userId - Admin who followed up
+ * @param {boolean} contacted - false clears the mark
+ * @returns {Promise<object|null>} - Updated follow-up or null if not found
+ */
+export async function setFollowUpContacted(followUpId, projectId, userId, contacted = true) {
+  const followUp = await db.get(
+    `UPDATE native_rsvp_follow_ups
+     SET contacted_at = ${contacted ? 'NOW()' : 'NULL'}, contacted_by = $1
+     WHERE id = $2 AND project_id = $3
+     RETURNING *`,
+    [contacted ? userId : null, followUpId, projectId]
+  );
+
+  if (!followUp) {
+    return null;
+  }
+
+  return {
+    followUpId: String(followUp.id),
+    rehearsalId: String(followUp.rehearsal_id),
+    userId: String(followUp.user_id),
+    contactedAt: followUp.contacted_at ? timestampToISO(followUp.contacted_at) : null,
+    contactedBy: followUp.contacted_by ? String(followUp.contacted_by) : null,
+  };
+}
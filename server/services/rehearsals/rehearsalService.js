@@ -1,16 +1,22 @@
 import db from '../../database/db.js';
 import { localToTimestamp, timestampToISO } from '../../utils/timezone.js';
 import { getProjectTimezone, formatDateString, bookRehearsalSlots, updateRehearsalSlots, deleteRehearsalSlots } from './slotService.js';
+import { setRehearsalScenes, getRehearsalScenesMap } from './sceneService.js';
+import { countRsvpResponses, validateRespondBy } from '../../utils/rsvp.js';
+import { hasPermission, getProjectPermissions, PERMISSIONS } from '../../utils/permissions.js';
 
 /**
  * Check if user is an active member of the project
  * @param {number} projectId - Project ID
  * @param {number} userId - User ID
- * @returns {Promise<object|null>} - Membership object or null
+ * @returns {Promise<object|null>} - Membership object (with the project's archived_at) or null
  */
 export async function checkUserMembership(projectId, userId) {
   return await db.get(
-    "SELECT * FROM native_project_members WHERE project_id = $1 AND user_id = $2 AND status = 'active'",
+    `SELECT pm.*, p.archived_at
+     FROM native_project_members pm
+     JOIN native_projects p ON p.id = pm.project_id
+     WHERE pm.project_id = $1 AND pm.user_id = $2 AND pm.status = 'active'`,
     [projectId, userId]
   );
 }
@@ -26,6 +32,19 @@ export async function checkUserIsAdmin(projectId, userId) {
   return membership && (membership.role === 'owner' || membership.role === 'admin');
 }
 
+/**
+ * Check if the user's role in the project grants a permission
+ * Archived projects are read-only, so most permissions lapse there
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User ID
+ * @param {string} permission - One of PERMISSIONS (utils/permissions.js)
+ * @returns {Promise<boolean>} - True if user is an active member with the permission
+ */
+export async function checkUserPermission(projectId, userId, permission) {
+  const membership = await checkUserMembership(projectId, userId);
+  return !!membership && getProjectPermissions(membership.role, membership.archived_at).includes(permission);
+}
+
 /**
  * Check if rehearsal exists
  * @param {number} rehearsalId - Rehearsal ID
@@ -46,19 +65,26 @@ export async function checkRehearsalExists(rehearsalId, projectId = null) {
  * Get rehearsals for multiple projects (batch operation)
  * @param {Array<string>} projectIds - Array of project IDs
  * @param {number} userId - User ID
+ * @param {object} options
+ * @param {boolean} options.includeUninvited - Also return rehearsals the user isn't invited to
+ *   in projects where they may view reports
+ * @param {boolean} options.includeArchived - Also return rehearsals of archived projects
  * @returns {Promise<Array>} - Array of rehearsals with admin stats
  */
-export async function getRehearsalsForProjects(projectIds, userId) {
+export async function getRehearsalsForProjects(projectIds, userId, { includeUninvited = false, includeArchived = false } = {}) {
   if (projectIds.length === 0) {
     return [];
   }
 
-  // Check user membership for all projects in one query
+  // Check user membership for all projects in one query (archived projects are left out unless asked for)
+  const archivedFilter = includeArchived ? '' : 'AND p.archived_at IS NULL';
   const memberships = await db.all(
-    `SELECT project_id FROM native_project_members
-     WHERE project_id IN (${projectIds.map(() => '?').join(',')})
-     AND user_id = ?
-     AND status = 'active'`,
+    `SELECT pm.project_id, pm.role FROM native_project_members pm
+     JOIN native_projects p ON p.id = pm.project_id
+     WHERE pm.project_id IN (${projectIds.map(() => '?').join(',')})
+     AND pm.user_id = ?
+     AND pm.status = 'active'
+     ${archivedFilter}`,
     [...projectIds, userId]
   );
 
@@ -68,16 +94,24 @@ export async function getRehearsalsForProjects(projectIds, userId) {
     return [];
   }
 
-  // Fetch only rehearsals where user is invited (has a response record)
+  const uninvitedProjectIds = includeUninvited
+    ? memberships.filter(m => hasPermission(m.role, PERMISSIONS.VIEW_REPORTS)).map(m => String(m.project_id))
+    : [];
+
+  // Fetch only rehearsals where user is invited (has a response record),
+  // plus every rehearsal of administered projects when includeUninvited is set
   const rehearsals = await db.all(
     `SELECT r.*, p.name as project_name,
             ur.response as user_response
      FROM native_rehearsals r
      JOIN native_projects p ON r.project_id = p.id
-     INNER JOIN native_rehearsal_responses ur ON r.id = ur.rehearsal_id AND ur.user_id = ?
+     LEFT JOIN native_rehearsal_responses ur ON r.id = ur.rehearsal_id AND ur.user_id = ?
      WHERE r.project_id IN (${accessibleProjectIds.map(() => '?').join(',')})
+     AND (ur.user_id IS NOT NULL${uninvitedProjectIds.length > 0
+       ? ` OR r.project_id IN (${uninvitedProjectIds.map(() => '?').join(',')})`
+       : ''})
      ORDER BY r.starts_at DESC`,
-    [userId, ...accessibleProjectIds]
+    [userId, ...accessibleProjectIds, ...uninvitedProjectIds]
   );
 
   // For each rehearsal, fetch admin stats if user is admin
@@ -92,7 +126,8 @@ export async function getRehearsalsForProjects(projectIds, userId) {
   );
 
   for (const m of membershipsWithRole) {
-    projectAdminMap[m.project_id] = (m.role === 'owner' || m.role === 'admin');
+    // RSVP stats go to everyone who schedules rehearsals
+    projectAdminMap[m.project_id] = hasPermission(m.role, PERMISSIONS.SCHEDULE_REHEARSALS);
   }
 
   // Collect rehearsal IDs where user is admin
@@ -138,15 +173,14 @@ export async function getRehearsalsForProjects(projectIds, userId) {
     for (const rehearsal of rehearsals) {
       if (adminRehearsalIds.includes(rehearsal.id)) {
         const responses = responsesByRehearsal[rehearsal.id] || [];
-        const confirmed = responses.filter(r => r === 'yes').length;
         // invited = number of participants invited to THIS rehearsal (not all project members)
-        const invited = responses.length;
-
-        statsMap[rehearsal.id] = { confirmed, invited };
+        statsMap[rehearsal.id] = countRsvpResponses(responses, rehearsal.respond_by);
       }
     }
   }
 
+  const scenesMap = await getRehearsalScenesMap(rehearsals.map(r => r.id));
+
   return rehearsals.map(r => ({
     id: String(r.id),
     projectId: String(r.project_id),
@@ -156,6 +190,10 @@ export async function getRehearsalsForProjects(projectIds, userId) {
     startsAt: timestampToISO(r.starts_at),
     endsAt: timestampToISO(r.ends_at),
     location: r.location,
+    respondBy: r.respond_by ? timestampToISO(r.respond_by) : null,
+    seriesId: r.series_id ? String(r.series_id) : null,
+    isSeriesException: !!r.is_series_exception,
+    scenes: scenesMap[r.id] || [],
     createdAt: r.created_at,
     updatedAt: r.updated_at,
     userResponse: r.user_response || null,
@@ -179,6 +217,8 @@ export async function getProjectRehearsals(projectId, userId) {
     [projectId, userId]
   );
 
+  const scenesMap = await getRehearsalScenesMap(rehearsals.map(r => r.id));
+
   return rehearsals.map(r => ({
     id: String(r.id),
     projectId: String(r.project_id),
@@ -187,6 +227,10 @@ export async function getProjectRehearsals(projectId, userId) {
     startsAt: timestampToISO(r.starts_at),
     endsAt: timestampToISO(r.ends_at),
     location: r.location,
+    respondBy: r.respond_by ? timestampToISO(r.respond_by) : null,
+    seriesId: r.series_id ? String(r.series_id) : null,
+    isSeriesException: !!r.is_series_exception,
+    scenes: scenesMap[r.id] || [],
     createdAt: r.created_at,
     updatedAt: r.updated_at,
   }));
@@ -200,7 +244,7 @@ export async function getProjectRehearsals(projectId, userId) {
  * @returns {Promise<object>} - Created rehearsal
  */
 export async function createRehearsal(projectId, userId, rehearsalData) {
-  const { title, description, date, startTime, endTime, startsAt, endsAt, location, participant_ids } = rehearsalData;
+  const { title, description, date, startTime, endTime, startsAt, endsAt, location, participant_ids, scene_ids, seriesId, respondBy } = rehearsalData;
 
   let startsAtISO, endsAtISO;
 
@@ -222,10 +266,15 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
     throw new Error('Either (startsAt, endsAt) or (date, startTime, endTime) are required');
   }
 
+  const respondByError = validateRespondBy(respondBy, startsAtISO);
+  if (respondByError) {
+    throw new Error(respondByError);
+  }
+
   // Create rehearsal using new TIMESTAMPTZ columns
   const newRehearsal = await db.get(
-    `INSERT INTO native_rehearsals (project_id, starts_at, ends_at, location, created_by, created_at, updated_at)
-     VALUES ($1, $2::timestamptz, $3::timestamptz, $4, $5, NOW(), NOW())
+    `INSERT INTO native_rehearsals (project_id, starts_at, ends_at, location, created_by, series_id, respond_by, created_at, updated_at)
+     VALUES ($1, $2::timestamptz, $3::timestamptz, $4, $5, $6, $7::timestamptz, NOW(), NOW())
      RETURNING *`,
     [
       projectId,
@@ -233,6 +282,8 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
       endsAtISO,
       location || null,
       userId,
+      seriesId || null,
+      respondBy || null,
     ]
   );
 
@@ -246,6 +297,11 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
     }
   }
 
+  // Link scenes planned for this rehearsal
+  if (scene_ids && scene_ids.length > 0) {
+    await setRehearsalScenes(newRehearsal.id, projectId, scene_ids);
+  }
+
   // Book slots in user availability for selected participants
   await bookRehearsalSlots(
     newRehearsal.id,
@@ -254,6 +310,8 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
     endsAtISO
   );
 
+  const scenesMap = await getRehearsalScenesMap([newRehearsal.id]);
+
   return {
     id: String(newRehearsal.id),
     projectId: String(newRehearsal.project_id),
@@ -262,6 +320,10 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
     startsAt: timestampToISO(newRehearsal.starts_at),
     endsAt: timestampToISO(newRehearsal.ends_at),
     location: newRehearsal.location,
+    respondBy: newRehearsal.respond_by ? timestampToISO(newRehearsal.respond_by) : null,
+    seriesId: newRehearsal.series_id ? String(newRehearsal.series_id) : null,
+    isSeriesException: !!newRehearsal.is_series_exception,
+    scenes: scenesMap[newRehearsal.id] || [],
     createdAt: newRehearsal.created_at,
     updatedAt: newRehearsal.updated_at,
   };
@@ -275,7 +337,7 @@ export async function createRehearsal(projectId, userId, rehearsalData) {
  * @returns {Promise<object>} - Updated rehearsal
  */
 export async function updateRehearsal(rehearsalId, projectId, updateData) {
-  const { title, description, date, startTime, endTime, startsAt, endsAt, location, participant_ids } = updateData;
+  const { title, description, date, startTime, endTime, startsAt, endsAt, location, participant_ids, scene_ids, respondBy } = updateData;
 
   let startsAtISO, endsAtISO;
 
@@ -297,6 +359,19 @@ export async function updateRehearsal(rehearsalId, projectId, updateData) {
     throw new Error('Either (startsAt, endsAt) or (date, startTime, endTime) are required');
   }
 
+  const respondByError = validateRespondBy(respondBy, startsAtISO);
+  if (respondByError) {
+    throw new Error(respondByError);
+  }
+
+  // Respond-by deadline: undefined keeps it, null clears it
+  if (respondBy !== undefined) {
+    await db.run(
+      'UPDATE native_rehearsals SET respond_by = $1::timestamptz WHERE id = $2 AND project_id = $3',
+      [respondBy || null, rehearsalId, projectId]
+    );
+  }
+
   // Update rehearsal using new TIMESTAMPTZ columns
   const updatedRehearsal = await db.get(
     `UPDATE native_rehearsals
@@ -336,6 +411,13 @@ export async function updateRehearsal(rehearsalId, projectId, updateData) {
     }
   }
 
+  // Update scenes if provided
+  if (scene_ids !== undefined) {
+    await setRehearsalScenes(rehearsalId, projectId, scene_ids);
+  }
+
+  const scenesMap = await getRehearsalScenesMap([updatedRehearsal.id]);
+
   return {
     id: String(updatedRehearsal.id),
     projectId: String(updatedRehearsal.project_id),
@@ -344,6 +426,10 @@ export async function updateRehearsal(rehearsalId, projectId, updateData) {
     startsAt: timestampToISO(updatedRehearsal.starts_at),
     endsAt: timestampToISO(updatedRehearsal.ends_at),
     location: updatedRehearsal.location,
+    respondBy: updatedRehearsal.respond_by ? timestampToISO(updatedRehearsal.respond_by) : null,
+    seriesId: updatedRehearsal.series_id ? String(updatedRehearsal.series_id) : null,
+    isSeriesException: !!updatedRehearsal.is_series_exception,
+    scenes: scenesMap[updatedRehearsal.id] || [],
     createdAt: updatedRehearsal.created_at,
     updatedAt: updatedRehearsal.updated_at,
   };
@@ -365,6 +451,9 @@ export async function deleteRehearsal(rehearsalId) {
   console.log(`[deleteRehearsal] Step 2: Deleting RSVP responses...`);
   await db.run('DELETE FROM native_rehearsal_responses WHERE rehearsal_id = $1', [rehearsalId]);
 
+  // Delete scene links
+  await db.run('DELETE FROM native_rehearsal_scenes WHERE rehearsal_id = $1', [rehearsalId]);
+
   // Delete rehearsal
   console.log(`[deleteRehearsal] Step 3: Deleting rehearsal record...`);
   await db.run('DELETE FROM native_rehearsals WHERE id = $1', [rehearsalId]);
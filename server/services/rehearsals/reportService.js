@@ -0,0 +1,63 @@
+import db from '../../database/db.js';
+import { getRehearsalsForProjects } from './rehearsalService.js';
+import { buildProjectReport } from '../../utils/report.js';
+
+/**
+ * Build the attendance and workload report of a project
+ * @param {number} projectId - Project ID
+ * @param {number} userId - Admin requesting the report
+ * @param {string} from - Range start (ISO timestamp, inclusive)
+ * @param {string} to - Range end (ISO timestamp, exclusive)
+ * @returns {Promise<{from: string, to: string, totals: object, members: Array}>}
+ */
+export async function getProjectReport(projectId, userId, from, to) {
+  const fromMs = Date.parse(from);
+  const toMs = Date.parse(to);
+
+  if (isNaN(fromMs) || isNaN(toMs)) {
+    throw new Error('Invalid report range. from and to must be ISO timestamps');
+  }
+  if (fromMs >= toMs) {
+    throw new Error('Invalid report range. from must be before to');
+  }
+
+  const rehearsals = (await getRehearsalsForProjects([String(projectId)], userId, { includeUninvited: true, includeArchived: true }))
+    .filter((r) => {
+      const startsMs = Date.parse(r.startsAt);
+      return startsMs >= fromMs && startsMs < toMs;
+    });
+
+  const rehearsalIds = rehearsals.map((r) => r.id);
+
+  const members = await db.all(
+    `SELECT u.id as user_id, u.first_name, u.last_name, pm.character_name
+     FROM native_project_members pm
+     JOIN native_users u ON pm.user_id = u.id
+     WHERE pm.project_id = $1 AND pm.status = 'active'
+     ORDER BY u.first_name, u.last_name`,
+    [projectId]
+  );
+
+  let responses = [];
+  let attendance = [];
+  if (rehearsalIds.length > 0) {
+    responses = await db.all(
+      `SELECT rehearsal_id, user_id, response
+       FROM native_rehearsal_responses
+       WHERE rehearsal_id IN (${rehearsalIds.map(() => '?').join(',')})`,
+      rehearsalIds
+    );
+    attendance = await db.all(
+      `SELECT rehearsal_id, user_id, status, late_minutes
+       FROM native_rehearsal_attendance
+       WHERE rehearsal_id IN (${rehearsalIds.map(() => '?').join(',')})`,
+      rehearsalIds
+    );
+  }
+
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    ...buildProjectReport({ rehearsals, responses, attendance, members }),
+  };
+}
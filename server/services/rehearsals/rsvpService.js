@@ -1,44 +1,53 @@
 import db from '../../database/db.js';
+import { validateRsvp, normalizeRsvpReason, countRsvpResponses, hasAnswered, isRespondByPassed } from '../../utils/rsvp.js';
 
 /**
- * Respond to a rehearsal (like system: toggle between 'yes' and 'no')
+ * Respond to a rehearsal (like system: toggle between 'yes' and 'no', or 'maybe' when undecided)
  * @param {number} rehearsalId - Rehearsal ID
  * @param {number} userId - User ID
- * @param {string} response - 'yes' (liked) or 'no' (not responded)
- * @param {string|null} notes - Optional notes
+ * @param {string} response - 'yes' (liked), 'no' (not responded) or 'maybe' (undecided)
+ * @param {string|null} notes - Optional notes (the reason for 'maybe')
  * @param {number} projectId - Project ID for calculating stats
- * @returns {Promise<object>} - Updated rehearsal stats (confirmed, invited)
+ * @returns {Promise<object>} - Updated rehearsal stats (confirmed, maybe, invited, overdue)
  */
 export async function respondToRehearsal(rehearsalId, userId, response, notes = null, projectId) {
-  if (response === 'yes' || response === 'no') {
-    // Update response (upsert)
-    await db.run(
-      `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response, notes)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (rehearsal_id, user_id)
-       DO UPDATE SET response = $3, notes = $4, updated_at = NOW()`,
-      [rehearsalId, userId, response, notes]
-    );
-
-    // Update rehearsal timestamp
-    await db.run(
-      'UPDATE native_rehearsals SET updated_at = NOW() WHERE id = $1',
-      [rehearsalId]
-    );
-  } else {
-    throw new Error('Invalid response value. Must be "yes" or "no".');
+  const validationError = validateRsvp(response, notes);
+  if (validationError) {
+    throw new Error(validationError);
   }
 
+  // Update response (upsert)
+  await db.run(
+    `INSERT INTO native_rehearsal_responses (rehearsal_id, user_id, response, notes)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (rehearsal_id, user_id)
+     DO UPDATE SET response = $3, notes = $4, updated_at = NOW()`,
+    [rehearsalId, userId, response, normalizeRsvpReason(notes)]
+  );
+
+  // Update rehearsal timestamp
+  await db.run(
+    'UPDATE native_rehearsals SET updated_at = NOW() WHERE id = $1',
+    [rehearsalId]
+  );
+
   // Get current stats: count responses and total members
   const responsesCount = await db.get(
     `SELECT
        COUNT(*) as total_responses,
-       COUNT(CASE WHEN response = 'yes' THEN 1 END) as confirmed
+       COUNT(CASE WHEN response = 'yes' THEN 1 END) as confirmed,
+       COUNT(CASE WHEN response = 'maybe' THEN 1 END) as maybe,
+       COUNT(CASE WHEN response IS NULL OR response NOT IN ('yes', 'maybe') THEN 1 END) as unanswered
      FROM native_rehearsal_responses
      WHERE rehearsal_id = $1`,
     [rehearsalId]
   );
 
+  const rehearsal = await db.get(
+    'SELECT respond_by FROM native_rehearsals WHERE id = $1',
+    [rehearsalId]
+  );
+
   const memberCount = await db.get(
     `SELECT COUNT(*) as total_members
      FROM native_project_members
@@ -47,24 +56,28 @@ export async function respondToRehearsal(rehearsalId, userId, response, notes =
   );
 
   const confirmed = Number(responsesCount.confirmed) || 0;
+  const maybe = Number(responsesCount.maybe) || 0;
   const totalMembers = Number(memberCount.total_members) || 0;
   const invited = totalMembers;
+  const overdue = isRespondByPassed(rehearsal?.respond_by) ? Number(responsesCount.unanswered) || 0 : 0;
 
   return {
     confirmed,
+    maybe,
     invited,
+    overdue,
   };
 }
 
 /**
  * Get all responses for a rehearsal
  * @param {number} rehearsalId - Rehearsal ID
- * @returns {Promise<object>} - Object with responses array and allParticipants array
+ * @returns {Promise<object>} - Object with responses array, allParticipants array (overdue = missed the respond-by deadline) and stats
  */
 export async function getRehearsalResponses(rehearsalId) {
   // Get the project ID for this rehearsal
   const rehearsal = await db.get(
-    'SELECT project_id FROM native_rehearsals WHERE id = $1',
+    'SELECT project_id, respond_by FROM native_rehearsals WHERE id = $1',
     [rehearsalId]
   );
 
@@ -91,8 +104,8 @@ export async function getRehearsalResponses(rehearsalId) {
   );
 
   // Calculate stats
-  const confirmed = allParticipants.filter((p) => p.response === 'yes').length;
-  const invited = allParticipants.length;
+  const stats = countRsvpResponses(allParticipants.map((p) => p.response), rehearsal.respond_by);
+  const deadlinePassed = isRespondByPassed(rehearsal.respond_by);
 
   const result = {
     responses: allParticipants
@@ -117,17 +130,51 @@ export async function getRehearsalResponses(rehearsalId) {
       lastName: p.last_name,
       email: p.email,
       response: p.response,
+      notes: p.notes,
+      overdue: deadlinePassed && !hasAnswered(p.response),
     })),
-    stats: {
-      confirmed,
-      invited,
-    },
+    stats,
   };
 
   console.log(`[getRehearsalResponses] Rehearsal ${rehearsalId}: returning ${result.allParticipants.length} participants, stats:`, result.stats);
   return result;
 }
 
+/**
+ * Get the names of the members invited to several rehearsals in one query
+ * Rehearsals of projects the user is not an active member of are left out.
+ * @param {Array<string>} rehearsalIds - Rehearsal IDs
+ * @param {number} userId - User ID
+ * @returns {Promise<Object<string, string[]>>} - Names by rehearsal ID, sorted by name
+ */
+export async function getRehearsalParticipantNames(rehearsalIds, userId) {
+  if (rehearsalIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db.all(
+    `SELECT r.rehearsal_id, u.first_name, u.last_name
+     FROM native_rehearsal_responses r
+     JOIN native_users u ON r.user_id = u.id
+     JOIN native_rehearsals nr ON nr.id = r.rehearsal_id
+     JOIN native_project_members pm ON pm.project_id = nr.project_id AND pm.user_id = ? AND pm.status = 'active'
+     WHERE r.rehearsal_id IN (${rehearsalIds.map(() => '?').join(',')})
+     ORDER BY u.first_name, u.last_name`,
+    [userId, ...rehearsalIds]
+  );
+
+  const names = {};
+  for (const row of rows) {
+    const name = `${row.first_name || ''} ${row.last_name || ''}`.trim();
+    if (!name) {
+      continue;
+    }
+    const id = String(row.rehearsal_id);
+    names[id] = [...(names[id] || []), name];
+  }
+  return names;
+}
+
 /**
  * Get user's response for a rehearsal
  * @param {number} rehearsalId - Rehearsal ID
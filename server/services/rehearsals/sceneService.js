@@ -0,0 +1,246 @@
+import db from '../../database/db.js';
+
+/**
+ * Format scene row for API response
+ * @param {object} scene - Scene database row
+ * @param {Array<string>} memberIds - IDs of members appearing in the scene
+ * @returns {object} - Scene in API format
+ */
+function formatScene(scene, memberIds) {
+  return {
+    id: String(scene.id),
+    projectId: String(scene.project_id),
+    name: scene.name,
+    description: scene.description,
+    position: scene.position || 0,
+    memberIds,
+    createdAt: scene.created_at,
+    updatedAt: scene.updated_at,
+  };
+}
+
+/**
+ * Keep only user IDs that are active members of the project
+ * @param {number} projectId - Project ID
+ * @param {Array<string|number>} userIds - Candidate user IDs
+ * @returns {Promise<Array<number>>} - Valid user IDs
+ */
+async function filterProjectMemberIds(projectId, userIds) {
+  if (!userIds || userIds.length === 0) {
+    return [];
+  }
+
+  const members = await db.all(
+    "SELECT user_id FROM native_project_members WHERE project_id = $1 AND status = 'active'",
+    [projectId]
+  );
+  const memberIdSet = new Set(members.map(m => String(m.user_id)));
+
+  return [...new Set(userIds.map(String))]
+    .filter(id => memberIdSet.has(id))
+    .map(Number);
+}
+
+/**
+ * Replace the member list of a scene
+ * @param {number} sceneId - Scene ID
+ * @param {number} projectId - Project ID
+ * @param {Array<string|number>} memberIds - User IDs appearing in the scene
+ */
+async function setSceneMembers(sceneId, projectId, memberIds) {
+  const validIds = await filterProjectMemberIds(projectId, memberIds);
+
+  await db.run('DELETE FROM native_scene_members WHERE scene_id = $1', [sceneId]);
+
+  for (const userId of validIds) {
+    await db.run(
+      'INSERT INTO native_scene_members (scene_id, user_id) VALUES ($1, $2)',
+      [sceneId, userId]
+    );
+  }
+}
+
+/**
+ * Get all scenes of a project with their members
+ * @param {number} projectId - Project ID
+ * @returns {Promise<Array>} - Scenes ordered by position
+ */
+export async function getProjectScenes(projectId) {
+  const scenes = await db.all(
+    'SELECT * FROM native_project_scenes WHERE project_id = $1 ORDER BY position ASC, id ASC',
+    [projectId]
+  );
+
+  if (scenes.length === 0) {
+    return [];
+  }
+
+  const sceneMembers = await db.all(
+    `SELECT sm.scene_id, sm.user_id
+     FROM native_scene_members sm
+     JOIN native_project_scenes s ON s.id = sm.scene_id
+     WHERE s.project_id = $1`,
+    [projectId]
+  );
+
+  const membersByScene = {};
+  for (const row of sceneMembers) {
+    if (!membersByScene[row.scene_id]) {
+      membersByScene[row.scene_id] = [];
+    }
+    membersByScene[row.scene_id].push(String(row.user_id));
+  }
+
+  return scenes.map(scene => formatScene(scene, membersByScene[scene.id] || []));
+}
+
+/**
+ * Get a single scene of a project
+ * @param {number} sceneId - Scene ID
+ * @param {number} projectId - Project ID
+ * @returns {Promise<object|null>} - Scene database row or null
+ */
+export async function getSceneById(sceneId, projectId) {
+  return await db.get(
+    'SELECT * FROM native_project_scenes WHERE id = $1 AND project_id = $2',
+    [sceneId, projectId]
+  );
+}
+
+/**
+ * Create a scene
+ * @param {number} projectId - Project ID
+ * @param {object} sceneData - { name, description, position, memberIds }
+ * @returns {Promise<object>} - Created scene
+ */
+export async function createScene(projectId, sceneData) {
+  const { name, description, position, memberIds } = sceneData;
+
+  if (!name || !name.trim()) {
+    throw new Error('Scene name is required');
+  }
+
+  let scenePosition = position;
+  if (scenePosition === undefined || scenePosition === null) {
+    const last = await db.get(
+      'SELECT MAX(position) as max_position FROM native_project_scenes WHERE project_id = $1',
+      [projectId]
+    );
+    scenePosition = (Number(last?.max_position) || 0) + 1;
+  }
+
+  const scene = await db.get(
+    `INSERT INTO native_project_scenes (project_id, name, description, position, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, NOW(), NOW())
+     RETURNING *`,
+    [projectId, name.trim(), description || null, scenePosition]
+  );
+
+  await setSceneMembers(scene.id, projectId, memberIds);
+
+  const members = await db.all('SELECT user_id FROM native_scene_members WHERE scene_id = $1', [scene.id]);
+  return formatScene(scene, members.map(m => String(m.user_id)));
+}
+
+/**
+ * Update a scene
+ * @param {number} sceneId - Scene ID
+ * @param {number} projectId - Project ID
+ * @param {object} sceneData - { name, description, position, memberIds } (all optional)
+ * @returns {Promise<object>} - Updated scene
+ */
+export async function updateScene(sceneId, projectId, sceneData) {
+  const { name, description, position, memberIds } = sceneData;
+
+  if (name !== undefined && !name.trim()) {
+    throw new Error('Scene name is required');
+  }
+
+  const scene = await db.get(
+    `UPDATE native_project_scenes
+     SET name = COALESCE($1, name),
+         description = COALESCE($2, description),
+         position = COALESCE($3, position),
+         updated_at = NOW()
+     WHERE id = $4 AND project_id = $5
+     RETURNING *`,
+    [name?.trim() ?? null, description ?? null, position ?? null, sceneId, projectId]
+  );
+
+  if (memberIds !== undefined) {
+    await setSceneMembers(sceneId, projectId, memberIds);
+  }
+
+  const members = await db.all('SELECT user_id FROM native_scene_members WHERE scene_id = $1', [sceneId]);
+  return formatScene(scene, members.map(m => String(m.user_id)));
+}
+
+/**
+ * Delete a scene together with its member and rehearsal links
+ * @param {number} sceneId - Scene ID
+ */
+export async function deleteScene(sceneId) {
+  await db.run('DELETE FROM native_scene_members WHERE scene_id = $1', [sceneId]);
+  await db.run('DELETE FROM native_rehearsal_scenes WHERE scene_id = $1', [sceneId]);
+  await db.run('DELETE FROM native_project_scenes WHERE id = $1', [sceneId]);
+}
+
+/**
+ * Replace scenes linked to a rehearsal
+ * Scene IDs from other projects are ignored
+ * @param {number} rehearsalId - Rehearsal ID
+ * @param {number} projectId - Project ID
+ * @param {Array<string|number>} sceneIds - Scene IDs
+ */
+export async function setRehearsalScenes(rehearsalId, projectId, sceneIds) {
+  await db.run('DELETE FROM native_rehearsal_scenes WHERE rehearsal_id = $1', [rehearsalId]);
+
+  if (!sceneIds || sceneIds.length === 0) {
+    return;
+  }
+
+  const projectScenes = await db.all(
+    'SELECT id FROM native_project_scenes WHERE project_id = $1',
+    [projectId]
+  );
+  const projectSceneIds = new Set(projectScenes.map(s => String(s.id)));
+
+  for (const sceneId of new Set(sceneIds.map(String))) {
+    if (projectSceneIds.has(sceneId)) {
+      await db.run(
+        'INSERT INTO native_rehearsal_scenes (rehearsal_id, scene_id) VALUES ($1, $2)',
+        [rehearsalId, Number(sceneId)]
+      );
+    }
+  }
+}
+
+/**
+ * Get scenes for several rehearsals (batch operation)
+ * @param {Array<number>} rehearsalIds - Rehearsal IDs
+ * @returns {Promise<object>} - Map of rehearsalId -> [{ id, name }] ordered by scene position
+ */
+export async function getRehearsalScenesMap(rehearsalIds) {
+  if (rehearsalIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db.all(
+    `SELECT rs.rehearsal_id, s.id, s.name
+     FROM native_rehearsal_scenes rs
+     JOIN native_project_scenes s ON s.id = rs.scene_id
+     WHERE rs.rehearsal_id IN (${rehearsalIds.map(() => '?').join(',')})
+     ORDER BY s.position ASC, s.id ASC`,
+    rehearsalIds
+  );
+
+  const scenesMap = {};
+  for (const row of rows) {
+    if (!scenesMap[row.rehearsal_id]) {
+      scenesMap[row.rehearsal_id] = [];
+    }
+    scenesMap[row.rehearsal_id].push({ id: String(row.id), name: row.name });
+  }
+
+  return scenesMap;
+}
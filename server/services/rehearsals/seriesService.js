@@ -0,0 +1,222 @@
+import db from '../../database/db.js';
+import { timestampToISO } from '../../utils/timezone.js';
+import { validateRecurrenceRule, expandRecurrence, shiftOccurrences } from '../../utils/recurrence.js';
+import { validateRespondBy, shiftRespondBy } from '../../utils/rsvp.js';
+import { getProjectTimezone, formatDateString } from './slotService.js';
+import { createRehearsal, updateRehearsal, deleteRehearsal } from './rehearsalService.js';
+
+// Edit/delete scopes for rehearsals that belong to a series
+export const SERIES_SCOPES = ['occurrence', 'following', 'series'];
+
+/**
+ * Format series row for API response
+ * @param {object} series - Series database row
+ * @returns {object} - Series in API format
+ */
+function formatSeries(series) {
+  return {
+    id: String(series.id),
+    projectId: String(series.project_id),
+    frequency: series.frequency,
+    weekdays: series.weekdays ? series.weekdays.split(',').map(Number) : [],
+    until: series.until_date ? formatDateString(series.until_date) : null,
+    count: series.occurrence_count || null,
+  };
+}
+
+/**
+ * Get rehearsals of a series that are affected by the given scope
+ * @param {object} rehearsal - Rehearsal database row the action was started from
+ * @param {string} scope - 'following' or 'series'
+ * @returns {Promise<Array>} - Rehearsal rows ordered by start time
+ */
+async function getScopedOccurrences(rehearsal, scope) {
+  if (scope === 'following') {
+    return await db.all(
+      `SELECT * FROM native_rehearsals
+       WHERE series_id = $1 AND starts_at >= $2::timestamptz
+       ORDER BY starts_at ASC`,
+      [rehearsal.series_id, timestampToISO(rehearsal.starts_at)]
+    );
+  }
+
+  return await db.all(
+    'SELECT * FROM native_rehearsals WHERE series_id = $1 ORDER BY starts_at ASC',
+    [rehearsal.series_id]
+  );
+}
+
+/**
+ * Remove series record once it has no rehearsals left
+ * @param {number} seriesId - Series ID
+ */
+async function cleanupEmptySeries(seriesId) {
+  const remaining = await db.get(
+    'SELECT COUNT(*) as count FROM native_rehearsals WHERE series_id = $1',
+    [seriesId]
+  );
+
+  if (Number(remaining?.count || 0) === 0) {
+    await db.run('DELETE FROM native_rehearsal_series WHERE id = $1', [seriesId]);
+  }
+}
+
+/**
+ * Create a recurring rehearsal series
+ * Expands the recurrence rule in the project timezone and creates one rehearsal per occurrence.
+ * All rows are written in one transaction: if an occurrence fails, no part of the series is kept.
+ * @param {number} projectId - Project ID
+ * @param {number} userId - User ID (creator)
+ * @param {object} rehearsalData - Rehearsal data with `recurrence` rule and first occurrence startsAt/endsAt
+ * @returns {Promise<{series: object, rehearsals: Array}>} - Created series and its rehearsals
+ */
+export async function createRehearsalSeries(projectId, userId, rehearsalData) {
+  const { recurrence, startsAt, endsAt } = rehearsalData;
+
+  const validationError = validateRecurrenceRule(recurrence);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  if (!startsAt || !endsAt) {
+    throw new Error('startsAt and endsAt are required for recurring rehearsals');
+  }
+
+  const respondByError = validateRespondBy(rehearsalData.respondBy, startsAt);
+  if (respondByError) {
+    throw new Error(respondByError);
+  }
+
+  const timezone = await getProjectTimezone(projectId);
+  const occurrences = expandRecurrence(recurrence, startsAt, endsAt, timezone);
+
+  if (occurrences.length === 0) {
+    throw new Error('Invalid recurrence rule: no occurrences match the selected dates');
+  }
+
+  return db.transaction(async () => {
+    const series = await db.get(
+      `INSERT INTO native_rehearsal_series (project_id, frequency, weekdays, until_date, occurrence_count, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+       RETURNING *`,
+      [
+        projectId,
+        recurrence.frequency,
+        recurrence.frequency === 'custom' ? recurrence.weekdays.join(',') : null,
+        recurrence.until || null,
+        recurrence.count || null,
+        userId,
+      ]
+    );
+
+    console.log(`[createRehearsalSeries] Creating ${occurrences.length} rehearsals for series ${series.id}`);
+
+    const rehearsals = [];
+    for (const occurrence of occurrences) {
+      const rehearsal = await createRehearsal(projectId, userId, {
+        ...rehearsalData,
+        startsAt: occurrence.startsAt,
+        endsAt: occurrence.endsAt,
+        // Same lead time before every occurrence
+        respondBy: shiftRespondBy(rehearsalData.respondBy, startsAt, occurrence.startsAt),
+        seriesId: series.id,
+      });
+      rehearsals.push(rehearsal);
+    }
+
+    return { series: formatSeries(series), rehearsals };
+  });
+}
+
+/**
+ * Update a rehearsal that belongs to a series
+ * - occurrence: only this rehearsal changes and is marked as an exception
+ * - following/series: the date/time shift and other fields are applied to every affected
+ *   occurrence, keeping the local wall-clock time in the project timezone.
+ *   Occurrences edited individually before are left untouched.
+ * Runs in one transaction, so a failed update leaves every occurrence as it was.
+ * @param {object} rehearsal - Rehearsal database row being edited
+ * @param {number} projectId - Project ID
+ * @param {string} scope - 'occurrence' | 'following' | 'series'
+ * @param {object} updateData - Update data (startsAt/endsAt required for series scopes)
+ * @returns {Promise<Array>} - Updated rehearsals (edited one first)
+ */
+export async function updateRehearsalSeries(rehearsal, projectId, scope, updateData) {
+  if (scope === 'occurrence') {
+    return db.transaction(async () => {
+      await db.run(
+        'UPDATE native_rehearsals SET is_series_exception = TRUE WHERE id = $1',
+        [rehearsal.id]
+      );
+      return [await updateRehearsal(rehearsal.id, projectId, updateData)];
+    });
+  }
+
+  const { startsAt, endsAt } = updateData;
+  if (!startsAt || !endsAt) {
+    throw new Error('startsAt and endsAt are required to update a rehearsal series');
+  }
+
+  const timezone = await getProjectTimezone(projectId);
+
+  return db.transaction(async () => {
+    const occurrences = (await getScopedOccurrences(rehearsal, scope))
+      .filter(r => String(r.id) === String(rehearsal.id) || !r.is_series_exception);
+    const times = shiftOccurrences(
+      timestampToISO(rehearsal.starts_at),
+      startsAt,
+      endsAt,
+      occurrences.map(r => timestampToISO(r.starts_at)),
+      timezone
+    );
+
+    console.log(`[updateRehearsalSeries] Updating ${occurrences.length} rehearsals in series ${rehearsal.series_id} (scope: ${scope})`);
+
+    const updated = [];
+    for (const [index, occurrence] of occurrences.entries()) {
+      await db.run(
+        'UPDATE native_rehearsals SET is_series_exception = FALSE WHERE id = $1',
+        [occurrence.id]
+      );
+
+      const result = await updateRehearsal(occurrence.id, projectId, {
+        ...updateData,
+        ...times[index],
+        respondBy: shiftRespondBy(updateData.respondBy, startsAt, times[index].startsAt),
+      });
+
+      if (String(occurrence.id) === String(rehearsal.id)) {
+        updated.unshift(result);
+      } else {
+        updated.push(result);
+      }
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Delete a rehearsal that belongs to a series
+ * Runs in one transaction, so a failed delete keeps every occurrence.
+ * @param {object} rehearsal - Rehearsal database row being deleted
+ * @param {string} scope - 'occurrence' | 'following' | 'series'
+ * @returns {Promise<Array<string>>} - IDs of deleted rehearsals
+ */
+export async function deleteRehearsalSeries(rehearsal, scope) {
+  return db.transaction(async () => {
+    const occurrences = scope === 'occurrence'
+      ? [rehearsal]
+      : await getScopedOccurrences(rehearsal, scope);
+
+    console.log(`[deleteRehearsalSeries] Deleting ${occurrences.length} rehearsals from series ${rehearsal.series_id} (scope: ${scope})`);
+
+    for (const occurrence of occurrences) {
+      await deleteRehearsal(occurrence.id);
+    }
+
+    await cleanupEmptySeries(rehearsal.series_id);
+
+    return occurrences.map(r => String(r.id));
+  });
+}
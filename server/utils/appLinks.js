@@ -0,0 +1,20 @@
+/**
+ * Links that open a screen of the app (invites, password reset, email verification)
+ */
+
+const WEB_APP_URL = 'https://rehearsal-calendar-app.onrender.com';
+
+/**
+ * Build a link to an app screen
+ * In development the custom URL scheme opens the app directly, on devices and simulators alike.
+ * In production the HTTPS URL is used; without Universal Links (paid Apple Developer account)
+ * users pick "Open in app" on the redirect page.
+ * @param {string} appPath - Path configured in the app's deep-link config, e.g. "invite/abc"
+ * @returns {string}
+ */
+export function generateAppUrl(appPath) {
+  if (process.env.NODE_ENV === 'development') {
+    return `rehearsalapp://${appPath}`;
+  }
+  return `${WEB_APP_URL}/${appPath}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Attendance marked after a rehearsal has started
+ */
+
+/**
+ * Attendance statuses
+ * - present: showed up on time
+ * - late: showed up, with the number of minutes late
+ * - absent: didn't show up
+ */
+export const ATTENDANCE_STATUSES = ['present', 'late', 'absent'];
+
+export const MAX_LATE_MINUTES = 24 * 60;
+
+/**
+ * Validate the attendance list from the request body
+ * @param {Array<{userId: string|number, status: string, lateMinutes?: number|null}>} entries
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateAttendance(entries) {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return 'Invalid attendance. Must be a non-empty array';
+  }
+
+  const seen = new Set();
+
+  for (const entry of entries) {
+    if (!entry || entry.userId === undefined || entry.userId === null || entry.userId === '') {
+      return 'Invalid attendance entry. userId is required';
+    }
+
+    const userId = String(entry.userId);
+    if (seen.has(userId)) {
+      return `Invalid attendance entry. Duplicate userId ${userId}`;
+    }
+    seen.add(userId);
+
+    if (!ATTENDANCE_STATUSES.includes(entry.status)) {
+      return `Invalid attendance status. Must be one of: ${ATTENDANCE_STATUSES.join(', ')}`;
+    }
+
+    if (entry.status === 'late') {
+      const minutes = entry.lateMinutes;
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_LATE_MINUTES) {
+        return `Invalid lateMinutes. Must be a whole number from 1 to ${MAX_LATE_MINUTES}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Summarise attendance records of one member (or one rehearsal)
+ * Only marked records count, so the rate is attended / marked.
+ * @param {Array<{status: string, lateMinutes?: number|null}>} records
+ * @returns {{present: number, late: number, absent: number, total: number, rate: number|null, avgLateMinutes: number|null}}
+ *   rate is the share of rehearsals attended (present or late) from 0 to 1, null without records
+ */
+export function summarizeAttendance(records) {
+  const summary = { present: 0, late: 0, absent: 0 };
+  let lateMinutes = 0;
+
+  for (const record of records) {
+    if (!ATTENDANCE_STATUSES.includes(record.status)) {
+      continue;
+    }
+    summary[record.status]++;
+    if (record.status === 'late') {
+      lateMinutes += record.lateMinutes || 0;
+    }
+  }
+
+  const total = summary.present + summary.late + summary.absent;
+
+  return {
+    ...summary,
+    total,
+    rate: total > 0 ? (summary.present + summary.late) / total : null,
+    avgLateMinutes: summary.late > 0 ? Math.round(lateMinutes / summary.late) : null,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Texts of the password reset and email verification emails
+ * Russian for users with the ru locale, English otherwise.
+ */
+
+import { AUTH_TOKEN_TTL_HOURS, AUTH_TOKEN_PURPOSES } from './authTokens.js';
+
+const RESET_HOURS = AUTH_TOKEN_TTL_HOURS[AUTH_TOKEN_PURPOSES.PASSWORD_RESET];
+const VERIFICATION_HOURS = AUTH_TOKEN_TTL_HOURS[AUTH_TOKEN_PURPOSES.EMAIL_VERIFICATION];
+
+const TEXTS = {
+  ru: {
+    greeting: (name) => `Здравствуйте, ${name}!`,
+    resetSubject: 'Сброс пароля в Rehearsal Calendar',
+    resetBody: (url) =>
+      `Чтобы задать новый пароль, откройте ссылку на телефоне с приложением:\n${url}\n\n`
+      + `Ссылка действует ${RESET_HOURS} ч и работает один раз. `
+      + 'Если вы не запрашивали сброс, просто проигнорируйте это письмо — пароль останется прежним.',
+    verificationSubject: 'Подтвердите email в Rehearsal Calendar',
+    verificationBody: (url) =>
+      `Подтвердите адрес, открыв ссылку на телефоне с приложением:\n${url}\n\n`
+      + `Ссылка действует ${VERIFICATION_HOURS} ч. `
+      + 'Если вы не регистрировались в Rehearsal Calendar, проигнорируйте это письмо.',
+  },
+  en: {
+    greeting: (name) => `Hi ${name},`,
+    resetSubject: 'Reset your Rehearsal Calendar password',
+    resetBody: (url) =>
+      `To choose a new password, open this link on the phone with the app:\n${url}\n\n`
+      + `The link works once within ${RESET_HOURS} hour(s). `
+      + 'If you did not ask for a reset, ignore this email and your password stays the same.',
+    verificationSubject: 'Confirm your email for Rehearsal Calendar',
+    verificationBody: (url) =>
+      `Confirm your address by opening this link on the phone with the app:\n${url}\n\n`
+      + `The link works for ${VERIFICATION_HOURS} hours. `
+      + 'If you did not sign up for Rehearsal Calendar, ignore this email.',
+  },
+};
+
+function getTexts(locale) {
+  return locale === 'ru' ? TEXTS.ru : TEXTS.en;
+}
+
+/**
+ * Password reset email
+ * @param {Object} params
+ * @param {string} params.firstName - Recipient's first name
+ * @param {string|null} [params.locale] - Recipient's app language
+ * @param {string} params.url - Link to the reset screen
+ * @returns {{subject: string, text: string}}
+ */
+export function buildPasswordResetEmail({ firstName, locale, url }) {
+  const texts = getTexts(locale);
+  return {
+    subject: texts.resetSubject,
+    text: `${texts.greeting(firstName)}\n\n${texts.resetBody(url)}\n`,
+  };
+}
+
+/**
+ * Email verification email
+ * @param {Object} params
+ * @param {string} params.firstName - Recipient's first name
+ * @param {string|null} [params.locale] - Recipient's app language
+ * @param {string} params.url - Link to the verification screen
+ * @returns {{subject: string, text: string}}
+ */
+export function buildEmailVerificationEmail({ firstName, locale, url }) {
+  const texts = getTexts(locale);
+  return {
+    subject: texts.verificationSubject,
+    text: `${texts.greeting(firstName)}\n\n${texts.verificationBody(url)}\n`,
+  };
+}
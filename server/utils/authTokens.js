@@ -0,0 +1,74 @@
+/**
+ * Rules for one-time tokens mailed for password reset and email verification
+ */
+
+import crypto from 'crypto';
+
+export const AUTH_TOKEN_PURPOSES = {
+  PASSWORD_RESET: 'password_reset',
+  EMAIL_VERIFICATION: 'email_verification',
+};
+
+// How long a mailed token works, in hours
+export const AUTH_TOKEN_TTL_HOURS = {
+  [AUTH_TOKEN_PURPOSES.PASSWORD_RESET]: 1,
+  [AUTH_TOKEN_PURPOSES.EMAIL_VERIFICATION]: 48,
+};
+
+// Same minimum the app enforces on registration
+export const MIN_PASSWORD_LENGTH = 6;
+
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = new RegExp(`^[a-f0-9]{${TOKEN_BYTES * 2}}$`);
+
+/**
+ * Generate a token to put in an email link
+ * @returns {string} - Hex token
+ */
+export function generateAuthToken() {
+  return crypto.randomBytes(TOKEN_BYTES).toString('hex');
+}
+
+/**
+ * Hash a token for storage, so a leaked database cannot be used to reset passwords
+ * @param {string} token
+ * @returns {string} - SHA-256 hex digest
+ */
+export function hashAuthToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a value looks like a token from generateAuthToken()
+ * @param {*} token
+ * @returns {boolean}
+ */
+export function isAuthTokenFormat(token) {
+  return typeof token === 'string' && TOKEN_PATTERN.test(token);
+}
+
+/**
+ * When a token issued now stops working
+ * @param {string} purpose - One of AUTH_TOKEN_PURPOSES
+ * @param {Date} now - Current time
+ * @returns {Date}
+ */
+export function getAuthTokenExpiry(purpose, now = new Date()) {
+  const hours = AUTH_TOKEN_TTL_HOURS[purpose];
+  if (!hours) {
+    throw new Error(`Unknown auth token purpose: ${purpose}`);
+  }
+  return new Date(now.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Validate a new password
+ * @param {*} password
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
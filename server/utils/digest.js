@@ -0,0 +1,92 @@
+/**
+ * Email digests of upcoming rehearsals: when they are due and what they cover
+ * Digests go out at DIGEST_SEND_TIME in the user's timezone; weekly ones on the day
+ * the user's week starts.
+ */
+
+import { timestampToLocal, localToTimestamp } from './timezone.js';
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly'];
+
+export const DEFAULT_DIGEST_FREQUENCY = 'weekly';
+
+// Local time the digest is sent at
+export const DIGEST_SEND_TIME = '08:00';
+
+// How far ahead each digest looks
+export const DIGEST_PERIOD_DAYS = {
+  daily: 1,
+  weekly: 7,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ * @param {string} date
+ * @param {number} days
+ * @returns {string}
+ */
+function addDays(date, days) {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Most recent moment a digest was scheduled for, at or before now
+ * @param {string} frequency - 'daily' or 'weekly'
+ * @param {Date} now - Current time
+ * @param {string|null} timezone - User's IANA timezone
+ * @param {string|null} weekStartDay - 'monday' or 'sunday' (weekly digests)
+ * @returns {Date}
+ */
+export function getScheduledDigestTime(frequency, now, timezone, weekStartDay) {
+  const zone = timezone || 'UTC';
+  const local = timestampToLocal(now.toISOString(), zone);
+
+  // Before today's send time the last slot was yesterday's
+  let date = local.time < DIGEST_SEND_TIME ? addDays(local.date, -1) : local.date;
+
+  if (frequency === 'weekly') {
+    const startDay = WEEKDAYS.indexOf(weekStartDay || 'monday');
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    date = addDays(date, -((weekday - startDay + 7) % 7));
+  }
+
+  return new Date(localToTimestamp(date, DIGEST_SEND_TIME, zone));
+}
+
+/**
+ * Whether a user should get a digest now
+ * A user who never got one waits for a send time on the current local day
+ * (for weekly digests, the day the week starts), like everyone else.
+ * @param {Object} user - native_users row with the digest columns
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+export function isDigestDue(user, now = new Date()) {
+  const frequency = user.email_digest_frequency || DEFAULT_DIGEST_FREQUENCY;
+  const scheduledAt = getScheduledDigestTime(frequency, now, user.timezone, user.week_start_day);
+
+  if (!user.email_digest_sent_at) {
+    const zone = user.timezone || 'UTC';
+    return timestampToLocal(scheduledAt.toISOString(), zone).date === timestampToLocal(now.toISOString(), zone).date;
+  }
+
+  return new Date(user.email_digest_sent_at) < scheduledAt;
+}
+
+/**
+ * Time range of the rehearsals a digest lists
+ * @param {string} frequency - 'daily' or 'weekly'
+ * @param {Date} now - Current time
+ * @returns {{from: string, to: string}} - ISO timestamps
+ */
+export function getDigestRange(frequency, now = new Date()) {
+  const days = DIGEST_PERIOD_DAYS[frequency] || DIGEST_PERIOD_DAYS[DEFAULT_DIGEST_FREQUENCY];
+  return {
+    from: now.toISOString(),
+    to: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Texts of the email digest of upcoming rehearsals, as plain text and HTML
+ * Russian for users with the ru locale, English otherwise; times in the user's timezone.
+ */
+
+import { timestampToLocal } from './timezone.js';
+
+const TEXTS = {
+  ru: {
+    greeting: (name) => `Здравствуйте, ${name}!`,
+    subject: {
+      daily: 'Репетиции на ближайшие сутки',
+      weekly: 'Репетиции на неделю',
+    },
+    intro: {
+      daily: 'Ваши репетиции на ближайшие сутки:',
+      weekly: 'Ваши репетиции на ближайшие 7 дней:',
+    },
+    location: 'Место',
+    answer: 'Ваш ответ',
+    answers: {
+      yes: 'приду',
+      maybe: 'возможно',
+      no: 'не приду',
+      none: 'ещё не ответили',
+    },
+    openCalendar: 'Открыть календарь',
+    footer: 'Вы получаете это письмо, потому что включили email-уведомления. '
+      + 'Отключить их или изменить частоту можно в профиле приложения.',
+  },
+  en: {
+    greeting: (name) => `Hi ${name},`,
+    subject: {
+      daily: 'Your rehearsals in the next 24 hours',
+      weekly: 'Your rehearsals this week',
+    },
+    intro: {
+      daily: 'Here are your rehearsals for the next 24 hours:',
+      weekly: 'Here are your rehearsals for the next 7 days:',
+    },
+    location: 'Location',
+    answer: 'Your answer',
+    answers: {
+      yes: 'coming',
+      maybe: 'maybe',
+      no: 'not coming',
+      none: 'not answered yet',
+    },
+    openCalendar: 'Open the calendar',
+    footer: 'You get this email because email notifications are on. '
+      + 'Turn them off or change how often they come in the app\'s profile.',
+  },
+};
+
+function getTexts(locale) {
+  return locale === 'ru' ? TEXTS.ru : TEXTS.en;
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Heading of a day, e.g. "Monday, October 19"
+ * @param {string} date - YYYY-MM-DD in the user's timezone
+ * @param {string|null} locale
+ * @returns {string}
+ */
+function formatDay(date, locale) {
+  const text = new Intl.DateTimeFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  }).format(new Date(`${date}T00:00:00Z`));
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Group rehearsals by their local date, keeping their order
+ * @param {Array} rehearsals - Sorted by start
+ * @param {string} timezone
+ * @returns {Array<{date: string, items: Array}>}
+ */
+function groupByDay(rehearsals, timezone) {
+  const days = [];
+  for (const rehearsal of rehearsals) {
+    const start = timestampToLocal(rehearsal.startsAt, timezone);
+    const end = timestampToLocal(rehearsal.endsAt, timezone);
+    const item = { ...rehearsal, time: `${start.time}–${end.time}` };
+
+    const last = days[days.length - 1];
+    if (last && last.date === start.date) {
+      last.items.push(item);
+    } else {
+      days.push({ date: start.date, items: [item] });
+    }
+  }
+  return days;
+}
+
+/**
+ * Email digest of upcoming rehearsals
+ * @param {Object} params
+ * @param {string} params.firstName - Recipient's first name
+ * @param {string|null} [params.locale] - Recipient's app language
+ * @param {string|null} [params.timezone] - Recipient's timezone
+ * @param {string} params.frequency - 'daily' or 'weekly'
+ * @param {Array<{projectName: string, title: string|null, location: string|null, startsAt: string, endsAt: string, response: string|null}>} params.rehearsals
+ *   Rehearsals sorted by start
+ * @param {string} params.url - Link to the app's calendar
+ * @returns {{subject: string, text: string, html: string}}
+ */
+export function buildDigestEmail({ firstName, locale, timezone, frequency, rehearsals, url }) {
+  const texts = getTexts(locale);
+  const days = groupByDay(rehearsals, timezone || 'UTC');
+
+  const describe = (item) => ({
+    heading: item.title ? `${item.projectName} · ${item.title}` : item.projectName,
+    answer: texts.answers[item.response] || texts.answers.none,
+  });
+
+  const textDays = days.map(day => [
+    formatDay(day.date, locale),
+    ...day.items.map(item => {
+      const { heading, answer } = describe(item);
+      return [
+        `  ${item.time}  ${heading}`,
+        item.location ? `  ${texts.location}: ${item.location}` : null,
+        `  ${texts.answer}: ${answer}`,
+      ].filter(Boolean).join('\n');
+    }),
+  ].join('\n'));
+
+  const text = [
+    texts.greeting(firstName),
+    texts.intro[frequency],
+    ...textDays,
+    `${texts.openCalendar}: ${url}`,
+    texts.footer,
+  ].join('\n\n') + '\n';
+
+  const htmlDays = days.map(day => [
+    `<h3 style="margin:24px 0 8px;font-size:16px;">${escapeHtml(formatDay(day.date, locale))}</h3>`,
+    ...day.items.map(item => {
+      const { heading, answer } = describe(item);
+      return [
+        '<p style="margin:0 0 12px;">',
+        `<strong>${escapeHtml(item.time)}</strong> ${escapeHtml(heading)}<br>`,
+        item.location ? `${escapeHtml(texts.location)}: ${escapeHtml(item.location)}<br>` : '',
+        `<span style="color:#666;">${escapeHtml(texts.answer)}: ${escapeHtml(answer)}</span>`,
+        '</p>',
+      ].join('');
+    }),
+  ].join('\n'));
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${locale === 'ru' ? 'ru' : 'en'}">`,
+    '<body style="font-family:-apple-system,Segoe UI,Roboto,sans-serif;color:#222;line-height:1.5;">',
+    `<p>${escapeHtml(texts.greeting(firstName))}</p>`,
+    `<p>${escapeHtml(texts.intro[frequency])}</p>`,
+    ...htmlDays,
+    `<p style="margin-top:24px;"><a href="${escapeHtml(url)}">${escapeHtml(texts.openCalendar)}</a></p>`,
+    `<p style="color:#888;font-size:12px;">${escapeHtml(texts.footer)}</p>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  return {
+    subject: texts.subject[frequency],
+    text,
+    html,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Rules for project invite links
+ */
+
+import { ASSIGNABLE_ROLES } from './members.js';
+
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7;
+export const MAX_INVITE_EXPIRY_DAYS = 365;
+export const MAX_INVITE_USES = 1000;
+export const MAX_INVITE_LABEL_LENGTH = 100;
+
+/**
+ * Why an invite can no longer be used, keyed by getInviteStatus()
+ */
+export const INVITE_STATUS_ERRORS = {
+  revoked: 'Invite has been revoked',
+  expired: 'Invite has expired',
+  exhausted: 'Invite has reached its usage limit',
+};
+
+/**
+ * Validate a new invite link from the request body
+ * Like role changes, only the owner can hand out the admin role
+ * @param {Object} input
+ * @param {string|null} [input.label] - Name shown in the invite list (e.g. "Orchestra")
+ * @param {string} [input.role] - Role given on joining, one of ASSIGNABLE_ROLES (defaults to member)
+ * @param {number|null} [input.maxUses] - Join limit, null for unlimited
+ * @param {number|null} [input.expiresInDays] - Lifetime in days, null for a link that never expires
+ * @param {boolean} [input.requiresApproval] - Joining creates a join request instead of a member
+ * @param {string} actorRole - Role of the member creating the link
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateInviteInput({ label, role, maxUses, expiresInDays, requiresApproval }, actorRole) {
+  if (label !== undefined && label !== null) {
+    if (typeof label !== 'string') {
+      return 'Invalid label';
+    }
+    if (label.trim().length > MAX_INVITE_LABEL_LENGTH) {
+      return `Label is too long (max ${MAX_INVITE_LABEL_LENGTH} characters)`;
+    }
+  }
+
+  if (role !== undefined) {
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return `Invalid role. Must be one of: ${ASSIGNABLE_ROLES.join(', ')}`;
+    }
+    if (role === 'admin' && actorRole !== 'owner') {
+      return 'Only the owner can invite admins';
+    }
+  }
+
+  if (maxUses !== undefined && maxUses !== null) {
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+      return `maxUses must be a whole number between 1 and ${MAX_INVITE_USES}`;
+    }
+  }
+
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITE_EXPIRY_DAYS) {
+      return `expiresInDays must be a whole number between 1 and ${MAX_INVITE_EXPIRY_DAYS}`;
+    }
+  }
+
+  if (requiresApproval !== undefined && typeof requiresApproval !== 'boolean') {
+    return 'requiresApproval must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Whether an invite link can still be used
+ * @param {Object} invite - native_project_invites row
+ * @param {Date} now - Current time
+ * @returns {'active'|'revoked'|'expired'|'exhausted'}
+ */
+export function getInviteStatus(invite, now = new Date()) {
+  if (invite.revoked_at) {
+    return 'revoked';
+  }
+  if (invite.expires_at && new Date(invite.expires_at) <= now) {
+    return 'expired';
+  }
+  if (invite.max_uses !== null && invite.max_uses !== undefined && invite.use_count >= invite.max_uses) {
+    return 'exhausted';
+  }
+  return 'active';
+}
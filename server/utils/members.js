@@ -0,0 +1,62 @@
+/**
+ * Rules for changing roles, removing members and leaving a project
+ * Every check returns an error message, or null when the action is allowed
+ */
+
+import { PROJECT_ROLES, hasPermission, PERMISSIONS } from './permissions.js';
+
+// Ownership only moves through an explicit transfer
+export const ASSIGNABLE_ROLES = PROJECT_ROLES.filter((role) => role !== 'owner');
+
+/**
+ * Check a role change made by another member
+ * Only the owner can make or unmake admins, so admins cannot demote each other
+ * @param {string} actorRole - Role of the member making the change
+ * @param {string} targetRole - Current role of the member being changed
+ * @param {string} newRole - Requested role, one of ASSIGNABLE_ROLES
+ * @returns {string|null}
+ */
+export function validateRoleChange(actorRole, targetRole, newRole) {
+  if (!hasPermission(actorRole, PERMISSIONS.MANAGE_MEMBERS)) {
+    return 'You do not have permission to manage members';
+  }
+  if (targetRole === 'owner') {
+    return 'Ownership can only change through a transfer';
+  }
+  if ((targetRole === 'admin' || newRole === 'admin') && actorRole !== 'owner') {
+    return 'Only the owner can promote or demote admins';
+  }
+  return null;
+}
+
+/**
+ * Check removing another member from the project
+ * @param {string} actorRole - Role of the member removing
+ * @param {string} targetRole - Role of the member being removed
+ * @returns {string|null}
+ */
+export function validateRemoval(actorRole, targetRole) {
+  if (!hasPermission(actorRole, PERMISSIONS.MANAGE_MEMBERS)) {
+    return 'You do not have permission to manage members';
+  }
+  if (targetRole === 'owner') {
+    return 'The owner cannot be removed';
+  }
+  if (targetRole === 'admin' && actorRole !== 'owner') {
+    return 'Only the owner can remove admins';
+  }
+  return null;
+}
+
+/**
+ * Check leaving a project
+ * A project always keeps its owner, who has to hand it over first
+ * @param {string} role - Role of the member leaving
+ * @returns {string|null}
+ */
+export function validateLeave(role) {
+  if (role === 'owner') {
+    return 'Transfer ownership before leaving the project';
+  }
+  return null;
+}
@@ -0,0 +1,188 @@
+/**
+ * Notifications: events, texts, push message batches and inbox pages
+ * Russian for users with the ru locale, English otherwise.
+ */
+
+/**
+ * What happened; sent to the app as `data.type`
+ */
+export const NOTIFICATION_EVENTS = {
+  REHEARSAL_CREATED: 'rehearsal_created',
+  REHEARSAL_UPDATED: 'rehearsal_updated',
+  REHEARSAL_CANCELLED: 'rehearsal_cancelled',
+  RSVP_RECEIVED: 'rsvp_received',
+  RSVP_REMINDER: 'rsvp_reminder',
+  JOIN_REQUEST: 'join_request',
+  ROLE_CHANGED: 'role_changed',
+};
+
+export const PUSH_PLATFORMS = ['ios', 'android'];
+
+// Expo accepts at most 100 messages per request
+export const PUSH_BATCH_SIZE = 100;
+
+// Inbox entries returned per request unless the app asks for fewer
+export const INBOX_PAGE_SIZE = 50;
+export const MAX_INBOX_PAGE_SIZE = 100;
+
+const ROLE_NAMES = {
+  ru: {
+    owner: 'владелец',
+    admin: 'админ',
+    director: 'режиссёр',
+    stage_manager: 'помреж',
+    actor: 'актёр',
+    member: 'участник',
+  },
+  en: {
+    owner: 'owner',
+    admin: 'admin',
+    director: 'director',
+    stage_manager: 'stage manager',
+    actor: 'actor',
+    member: 'member',
+  },
+};
+
+const TEXTS = {
+  ru: {
+    [NOTIFICATION_EVENTS.REHEARSAL_CREATED]: ({ time, count }) =>
+      count > 1 ? `Новые репетиции (${count}), первая — ${time}` : `Новая репетиция: ${time}`,
+    [NOTIFICATION_EVENTS.REHEARSAL_UPDATED]: ({ time, count }) =>
+      count > 1 ? `Изменены репетиции (${count}), первая — ${time}` : `Репетиция изменена: ${time}`,
+    [NOTIFICATION_EVENTS.REHEARSAL_CANCELLED]: ({ time, count }) =>
+      count > 1 ? `Отменены репетиции (${count}), первая — ${time}` : `Репетиция отменена: ${time}`,
+    [NOTIFICATION_EVENTS.RSVP_RECEIVED]: ({ time, actorName, response, reason }) => {
+      const answers = { yes: 'придёт', maybe: 'может прийти', no: 'не придёт' };
+      return `${actorName} ${answers[response]} на репетицию ${time}${reason ? `: «${reason}»` : ''}`;
+    },
+    [NOTIFICATION_EVENTS.RSVP_REMINDER]: ({ time }) => `Ответьте, придёте ли вы на репетицию ${time}`,
+    [NOTIFICATION_EVENTS.JOIN_REQUEST]: ({ actorName }) => `${actorName} просит принять в проект`,
+    [NOTIFICATION_EVENTS.ROLE_CHANGED]: ({ role }) => `Ваша роль в проекте: ${ROLE_NAMES.ru[role] || role}`,
+  },
+  en: {
+    [NOTIFICATION_EVENTS.REHEARSAL_CREATED]: ({ time, count }) =>
+      count > 1 ? `${count} new rehearsals, the first on ${time}` : `New rehearsal: ${time}`,
+    [NOTIFICATION_EVENTS.REHEARSAL_UPDATED]: ({ time, count }) =>
+      count > 1 ? `${count} rehearsals changed, the first on ${time}` : `Rehearsal changed: ${time}`,
+    [NOTIFICATION_EVENTS.REHEARSAL_CANCELLED]: ({ time, count }) =>
+      count > 1 ? `${count} rehearsals cancelled, the first on ${time}` : `Rehearsal cancelled: ${time}`,
+    [NOTIFICATION_EVENTS.RSVP_RECEIVED]: ({ time, actorName, response, reason }) => {
+      const answers = { yes: 'is coming to', maybe: 'might come to', no: "can't come to" };
+      return `${actorName} ${answers[response]} the rehearsal on ${time}${reason ? `: "${reason}"` : ''}`;
+    },
+    [NOTIFICATION_EVENTS.RSVP_REMINDER]: ({ time }) => `Let us know if you're coming to the rehearsal on ${time}`,
+    [NOTIFICATION_EVENTS.JOIN_REQUEST]: ({ actorName }) => `${actorName} asked to join the project`,
+    [NOTIFICATION_EVENTS.ROLE_CHANGED]: ({ role }) => `Your role in the project is now ${ROLE_NAMES.en[role] || role}`,
+  },
+};
+
+/**
+ * Whether a string looks like an Expo push token
+ * @param {*} token
+ * @returns {boolean}
+ */
+export function isExpoPushToken(token) {
+  return typeof token === 'string' && /^Expo(nent)?PushToken\[[^\]]+\]$/.test(token);
+}
+
+/**
+ * Rehearsal start as the recipient reads it, e.g. "Mon, Oct 19, 19:00"
+ * @param {string} startsAt - ISO timestamp
+ * @param {string|null} timezone - Recipient's IANA timezone
+ * @param {string|null} locale - Recipient's app language
+ * @returns {string}
+ */
+export function formatRehearsalTime(startsAt, timezone, locale) {
+  return new Intl.DateTimeFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    timeZone: timezone || 'UTC',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date(startsAt));
+}
+
+/**
+ * Title and text of a notification
+ * @param {string} event - One of NOTIFICATION_EVENTS
+ * @param {Object} params
+ * @param {string} params.projectName - Used as the title
+ * @param {string} [params.startsAt] - Start of the (first) rehearsal; rehearsal events only
+ * @param {string|null} [params.timezone] - Recipient's timezone
+ * @param {string|null} [params.locale] - Recipient's app language
+ * @param {number} [params.count] - Rehearsals affected at once (series, planner blocks)
+ * @param {string} [params.actorName] - Who answered (RSVP) or asked to join (join request)
+ * @param {string} [params.response] - The answer (RSVP)
+ * @param {string|null} [params.reason] - Reason given with 'maybe' (RSVP)
+ * @param {string} [params.role] - The new role (role change)
+ * @returns {{title: string, body: string}}
+ */
+export function buildNotification(event, { projectName, startsAt, timezone, locale, count = 1, actorName, response, reason, role }) {
+  const texts = locale === 'ru' ? TEXTS.ru : TEXTS.en;
+  const build = texts[event];
+  if (!build) {
+    throw new Error(`Unknown notification event: ${event}`);
+  }
+
+  return {
+    title: projectName,
+    body: build({
+      time: startsAt ? formatRehearsalTime(startsAt, timezone, locale) : null,
+      count,
+      actorName,
+      response,
+      reason,
+      role,
+    }),
+  };
+}
+
+/**
+ * Split messages into batches a push service accepts in one request
+ * @param {Array} messages
+ * @param {number} size
+ * @returns {Array<Array>}
+ */
+export function chunkMessages(messages, size = PUSH_BATCH_SIZE) {
+  const chunks = [];
+  for (let i = 0; i < messages.length; i += size) {
+    chunks.push(messages.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Number of inbox entries to return
+ * @param {*} limit - `limit` query parameter
+ * @returns {number} - INBOX_PAGE_SIZE unless a positive number is given, at most MAX_INBOX_PAGE_SIZE
+ */
+export function normalizeInboxLimit(limit) {
+  const value = parseInt(limit, 10);
+  if (!Number.isInteger(value) || value < 1) {
+    return INBOX_PAGE_SIZE;
+  }
+  return Math.min(value, MAX_INBOX_PAGE_SIZE);
+}
+
+/**
+ * Read the data of an inbox entry
+ * JSONB comes back as an object from PostgreSQL and as a string from SQLite
+ * @param {Object|string|null} value - native_notifications.data
+ * @returns {Object}
+ */
+export function parseNotificationData(value) {
+  if (!value) {
+    return {};
+  }
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value;
+}
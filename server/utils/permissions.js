@@ -0,0 +1,84 @@
+/**
+ * Project roles and what each of them may do
+ */
+
+/**
+ * Permissions checked by the project routes
+ * - schedule_rehearsals: create, edit and delete rehearsals, see everyone's RSVPs and chase non-responders
+ * - track_attendance: mark and view attendance of rehearsals
+ * - view_reports: project reports and every member's attendance history
+ * - manage_project: working hours, scenes and invite links
+ * - manage_members: change roles and remove members
+ */
+export const PERMISSIONS = {
+  SCHEDULE_REHEARSALS: 'schedule_rehearsals',
+  TRACK_ATTENDANCE: 'track_attendance',
+  VIEW_REPORTS: 'view_reports',
+  MANAGE_PROJECT: 'manage_project',
+  MANAGE_MEMBERS: 'manage_members',
+};
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS);
+
+/**
+ * Permission matrix
+ * 'member' is the role given on joining and has the same rights as 'actor' (view and RSVP only)
+ */
+export const ROLE_PERMISSIONS = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  director: [
+    PERMISSIONS.SCHEDULE_REHEARSALS,
+    PERMISSIONS.TRACK_ATTENDANCE,
+    PERMISSIONS.VIEW_REPORTS,
+  ],
+  stage_manager: [
+    PERMISSIONS.SCHEDULE_REHEARSALS,
+    PERMISSIONS.TRACK_ATTENDANCE,
+  ],
+  actor: [],
+  member: [],
+};
+
+export const PROJECT_ROLES = Object.keys(ROLE_PERMISSIONS);
+
+/**
+ * What is left of a role's rights once the project is archived:
+ * reports stay readable and the roster can still be managed (ownership transfer, removal)
+ */
+export const ARCHIVED_PERMISSIONS = [
+  PERMISSIONS.VIEW_REPORTS,
+  PERMISSIONS.MANAGE_MEMBERS,
+];
+
+/**
+ * Permissions of a role (none for unknown roles)
+ * @param {string} role - Member role
+ * @returns {string[]}
+ */
+export function getRolePermissions(role) {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+/**
+ * Whether a role grants a permission
+ * @param {string} role - Member role
+ * @param {string} permission - One of PERMISSIONS
+ * @returns {boolean}
+ */
+export function hasPermission(role, permission) {
+  return getRolePermissions(role).includes(permission);
+}
+
+/**
+ * Permissions of a role in a project, taking archiving into account
+ * @param {string} role - Member role
+ * @param {string|Date|null} archivedAt - When the project was archived (null for active projects)
+ * @returns {string[]}
+ */
+export function getProjectPermissions(role, archivedAt) {
+  const permissions = getRolePermissions(role);
+  return archivedAt
+    ? permissions.filter((permission) => ARCHIVED_PERMISSIONS.includes(permission))
+    : permissions;
+}
@@ -0,0 +1,67 @@
+/**
+ * Editable project settings (name, description, timezone, archiving)
+ */
+
+export const MAX_PROJECT_NAME_LENGTH = 100;
+export const MAX_PROJECT_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Whether a string is an IANA timezone known to the runtime (e.g. 'Europe/Moscow')
+ * @param {string} timezone
+ * @returns {boolean}
+ */
+export function isValidTimezone(timezone) {
+  if (typeof timezone !== 'string' || timezone.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a project settings update from the request body
+ * Every field is optional; at least one has to be present
+ * @param {Object} update
+ * @param {string} [update.name]
+ * @param {string|null} [update.description] - null or '' clears the description
+ * @param {string} [update.timezone]
+ * @param {boolean} [update.archived]
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateProjectUpdate({ name, description, timezone, archived }) {
+  if ([name, description, timezone, archived].every((value) => value === undefined)) {
+    return 'Nothing to update';
+  }
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Project name is required';
+    }
+    if (name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+      return `Project name is too long (max ${MAX_PROJECT_NAME_LENGTH} characters)`;
+    }
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string') {
+      return 'Invalid description';
+    }
+    if (description.length > MAX_PROJECT_DESCRIPTION_LENGTH) {
+      return `Description is too long (max ${MAX_PROJECT_DESCRIPTION_LENGTH} characters)`;
+    }
+  }
+
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return `Invalid timezone: ${timezone}`;
+  }
+
+  if (archived !== undefined && typeof archived !== 'boolean') {
+    return 'archived must be a boolean';
+  }
+
+  return null;
+}
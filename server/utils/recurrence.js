@@ -0,0 +1,174 @@
+/**
+ * Recurrence rule utilities for rehearsal series
+ */
+import { timestampToLocal, localToTimestamp } from './timezone.js';
+
+/**
+ * @typedef {Object} RecurrenceRule
+ * @property {'weekly'|'biweekly'|'custom'} frequency - How often the series repeats
+ * @property {number[]} [weekdays] - Weekdays for 'custom' frequency (0 = Sunday ... 6 = Saturday)
+ * @property {string} [until] - Last possible date in YYYY-MM-DD format (inclusive)
+ * @property {number} [count] - Total number of occurrences
+ */
+
+/**
+ * @typedef {Object} Occurrence
+ * @property {string} startsAt - ISO 8601 timestamp
+ * @property {string} endsAt - ISO 8601 timestamp
+ */
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'custom'];
+
+// Hard cap so a typo in "until" can't create thousands of rehearsals
+export const MAX_OCCURRENCES = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a recurrence rule
+ * @param {RecurrenceRule} rule - Recurrence rule from the request body
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateRecurrenceRule(rule) {
+  if (!rule || typeof rule !== 'object') {
+    return 'Invalid recurrence rule';
+  }
+
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    return `Invalid recurrence frequency. Must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`;
+  }
+
+  if (rule.frequency === 'custom') {
+    const validWeekdays = Array.isArray(rule.weekdays) &&
+      rule.weekdays.length > 0 &&
+      rule.weekdays.every(d => Number.isInteger(d) && d >= 0 && d <= 6);
+    if (!validWeekdays) {
+      return 'Invalid recurrence weekdays. Custom frequency requires weekdays between 0 and 6';
+    }
+  }
+
+  const hasUntil = rule.until !== undefined && rule.until !== null;
+  const hasCount = rule.count !== undefined && rule.count !== null;
+
+  if (hasUntil === hasCount) {
+    return 'Invalid recurrence end. Provide either until or count';
+  }
+
+  if (hasUntil && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) {
+    return 'Invalid recurrence until date. Expected YYYY-MM-DD';
+  }
+
+  if (hasCount && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_OCCURRENCES)) {
+    return `Invalid recurrence count. Must be between 1 and ${MAX_OCCURRENCES}`;
+  }
+
+  return null;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @param {number} days - Number of days to add (can be negative)
+ * @returns {string} - Date in YYYY-MM-DD format
+ */
+export function addDaysToDateString(date, days) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Get number of days between two YYYY-MM-DD date strings
+ * @param {string} from - Start date
+ * @param {string} to - End date
+ * @returns {number} - Whole days from `from` to `to`
+ */
+export function daysBetween(from, to) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Get weekday (0 = Sunday) of a YYYY-MM-DD date string
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @returns {number}
+ */
+function getWeekday(date) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Expand a recurrence rule into concrete occurrences.
+ * Occurrences keep the local wall-clock time of the first one in the project timezone,
+ * so a 19:00 rehearsal stays at 19:00 across DST changes.
+ *
+ * @param {RecurrenceRule} rule - Recurrence rule
+ * @param {string} startsAt - ISO 8601 timestamp of the first occurrence
+ * @param {string} endsAt - ISO 8601 timestamp of the first occurrence end
+ * @param {string} timezone - IANA timezone of the project
+ * @returns {Occurrence[]} - Occurrences ordered by start time (first one included)
+ *
+ * @example
+ * expandRecurrence({ frequency: 'weekly', count: 3 }, '2025-12-01T17:00:00.000Z', '2025-12-01T19:00:00.000Z', 'UTC')
+ * // Returns three Monday occurrences: Dec 1, Dec 8, Dec 15
+ */
+export function expandRecurrence(rule, startsAt, endsAt, timezone) {
+  const durationMs = new Date(endsAt).getTime() - new Date(startsAt).getTime();
+  const { date: firstDate, time: startTime } = timestampToLocal(startsAt, timezone);
+
+  const interval = rule.frequency === 'biweekly' ? 2 : 1;
+  const weekdays = rule.frequency === 'custom'
+    ? [...new Set(rule.weekdays)]
+    : [getWeekday(firstDate)];
+  const maxCount = rule.count ? Math.min(rule.count, MAX_OCCURRENCES) : MAX_OCCURRENCES;
+
+  const occurrences = [];
+
+  for (let offset = 0; occurrences.length < maxCount; offset++) {
+    const date = addDaysToDateString(firstDate, offset);
+
+    if (rule.until && date > rule.until) {
+      break;
+    }
+
+    const weekIndex = Math.floor(offset / 7);
+    if (weekIndex % interval !== 0 || !weekdays.includes(getWeekday(date))) {
+      continue;
+    }
+
+    const occurrenceStart = offset === 0 ? startsAt : localToTimestamp(date, startTime, timezone);
+    occurrences.push({
+      startsAt: new Date(occurrenceStart).toISOString(),
+      endsAt: new Date(new Date(occurrenceStart).getTime() + durationMs).toISOString(),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Move series occurrences the way one of them was moved.
+ * The day shift and new local start time of the edited occurrence apply to every occurrence,
+ * in the project timezone, and all of them get its new duration.
+ *
+ * @param {string} previousStartsAt - ISO 8601 start of the edited occurrence before the edit
+ * @param {string} startsAt - New ISO 8601 start of the edited occurrence
+ * @param {string} endsAt - New ISO 8601 end of the edited occurrence
+ * @param {string[]} occurrenceStarts - Current ISO 8601 starts of the occurrences to move
+ * @param {string} timezone - IANA timezone of the project
+ * @returns {Occurrence[]} - New times, in the order of occurrenceStarts
+ */
+export function shiftOccurrences(previousStartsAt, startsAt, endsAt, occurrenceStarts, timezone) {
+  const previous = timestampToLocal(previousStartsAt, timezone);
+  const next = timestampToLocal(startsAt, timezone);
+  const dayShift = daysBetween(previous.date, next.date);
+  const durationMs = new Date(endsAt).getTime() - new Date(startsAt).getTime();
+
+  return occurrenceStarts.map(occurrenceStartsAt => {
+    const occurrenceDate = timestampToLocal(occurrenceStartsAt, timezone).date;
+    const occurrenceStart = localToTimestamp(addDaysToDateString(occurrenceDate, dayShift), next.time, timezone);
+    return {
+      startsAt: new Date(occurrenceStart).toISOString(),
+      endsAt: new Date(new Date(occurrenceStart).getTime() + durationMs).toISOString(),
+    };
+  });
+}
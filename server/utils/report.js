@@ -0,0 +1,163 @@
+/**
+ * Project attendance and workload reports
+ */
+
+import { hasAnswered } from './rsvp.js';
+import { summarizeAttendance } from './attendance.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round = (value, digits = 2) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const rate = (count, total) => (total > 0 ? round(count / total, 4) : null);
+
+/**
+ * Build the report of a project for a date range
+ * Each member is counted on the rehearsals they were invited to.
+ * Only 'yes' and 'maybe' are answers; invitations left at 'no' count as no response.
+ * @param {object} params
+ * @param {Array<{id: string, startsAt: string, endsAt: string}>} params.rehearsals - Rehearsals in the range
+ * @param {Array<{rehearsal_id: number|string, user_id: number|string, response: string|null}>} params.responses
+ * @param {Array<{rehearsal_id: number|string, user_id: number|string, status: string, late_minutes: number|null}>} params.attendance
+ * @param {Array<{user_id: number|string, first_name: string, last_name?: string, character_name?: string}>} params.members
+ * @returns {{totals: object, members: Array}}
+ */
+export function buildProjectReport({ rehearsals, responses, attendance, members }) {
+  const rehearsalHours = {};
+  for (const rehearsal of rehearsals) {
+    rehearsalHours[rehearsal.id] = Math.max(0, Date.parse(rehearsal.endsAt) - Date.parse(rehearsal.startsAt)) / HOUR_MS;
+  }
+
+  const attendanceByKey = {};
+  for (const record of attendance) {
+    attendanceByKey[`${record.rehearsal_id}:${record.user_id}`] = {
+      status: record.status,
+      lateMinutes: record.late_minutes === null || record.late_minutes === undefined ? null : Number(record.late_minutes),
+    };
+  }
+
+  const invitationsByUser = {};
+  for (const response of responses) {
+    const rehearsalId = String(response.rehearsal_id);
+    if (rehearsalHours[rehearsalId] === undefined) {
+      continue;
+    }
+    const userId = String(response.user_id);
+    (invitationsByUser[userId] = invitationsByUser[userId] || []).push({
+      rehearsalId,
+      response: response.response,
+      attendance: attendanceByKey[`${rehearsalId}:${userId}`] || null,
+    });
+  }
+
+  const reportMembers = members.map((member) => {
+    const invitations = invitationsByUser[String(member.user_id)] || [];
+    const invited = invitations.length;
+    const yes = invitations.filter((i) => i.response === 'yes').length;
+    const maybe = invitations.filter((i) => i.response === 'maybe').length;
+    const noResponse = invitations.filter((i) => !hasAnswered(i.response)).length;
+    const marks = invitations.filter((i) => i.attendance);
+
+    // Late arrivals are credited with the hours they were actually there
+    const attendedHours = marks.reduce((sum, i) => {
+      const hours = rehearsalHours[i.rehearsalId];
+      if (i.attendance.status === 'present') return sum + hours;
+      if (i.attendance.status === 'late') return sum + Math.max(0, hours - (i.attendance.lateMinutes || 0) / 60);
+      return sum;
+    }, 0);
+
+    return {
+      userId: String(member.user_id),
+      firstName: member.first_name,
+      lastName: member.last_name || null,
+      characterName: member.character_name || null,
+      rehearsals: invited,
+      scheduledHours: round(invitations.reduce((sum, i) => sum + rehearsalHours[i.rehearsalId], 0)),
+      rsvp: {
+        yes,
+        maybe,
+        noResponse,
+        yesRate: rate(yes, invited),
+        maybeRate: rate(maybe, invited),
+        noResponseRate: rate(noResponse, invited),
+      },
+      attendance: {
+        ...summarizeAttendance(marks.map((i) => i.attendance)),
+        attendedHours: marks.length > 0 ? round(attendedHours) : null,
+      },
+    };
+  });
+
+  const invitations = reportMembers.reduce((sum, m) => sum + m.rehearsals, 0);
+  const yes = reportMembers.reduce((sum, m) => sum + m.rsvp.yes, 0);
+  const maybe = reportMembers.reduce((sum, m) => sum + m.rsvp.maybe, 0);
+  const noResponse = reportMembers.reduce((sum, m) => sum + m.rsvp.noResponse, 0);
+
+  return {
+    totals: {
+      rehearsals: rehearsals.length,
+      hours: round(Object.values(rehearsalHours).reduce((sum, hours) => sum + hours, 0)),
+      invitations,
+      yesRate: rate(yes, invitations),
+      maybeRate: rate(maybe, invitations),
+      noResponseRate: rate(noResponse, invitations),
+      attendance: summarizeAttendance(
+        attendance
+          .filter((record) => rehearsalHours[String(record.rehearsal_id)] !== undefined)
+          .map((record) => ({ status: record.status, lateMinutes: record.late_minutes }))
+      ),
+    },
+    members: reportMembers,
+  };
+}
+
+const REPORT_CSV_COLUMNS = [
+  ['Member', (m) => `${m.firstName || ''} ${m.lastName || ''}`.trim()],
+  ['Character', (m) => m.characterName],
+  ['Rehearsals', (m) => m.rehearsals],
+  ['Scheduled hours', (m) => m.scheduledHours],
+  ['Yes', (m) => m.rsvp.yes],
+  ['Yes %', (m) => percent(m.rsvp.yesRate)],
+  ['Maybe', (m) => m.rsvp.maybe],
+  ['Maybe %', (m) => percent(m.rsvp.maybeRate)],
+  ['No response', (m) => m.rsvp.noResponse],
+  ['No response %', (m) => percent(m.rsvp.noResponseRate)],
+  ['Present', (m) => m.attendance.present],
+  ['Late', (m) => m.attendance.late],
+  ['Absent', (m) => m.attendance.absent],
+  ['Attendance %', (m) => percent(m.attendance.rate)],
+  ['Attended hours', (m) => m.attendance.attendedHours],
+];
+
+function percent(value) {
+  return value === null || value === undefined ? null : round(value * 100, 1);
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break (RFC 4180)
+ * @param {string|number|null|undefined} value
+ * @returns {string}
+ */
+export function escapeCsvField(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise the per-member rows of a report as CSV
+ * @param {{members: Array}} report - Result of buildProjectReport
+ * @returns {string} - CSV with a header row and CRLF line endings
+ */
+export function reportToCsv(report) {
+  const rows = [
+    REPORT_CSV_COLUMNS.map(([header]) => header),
+    ...report.members.map((member) => REPORT_CSV_COLUMNS.map(([, value]) => value(member))),
+  ];
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
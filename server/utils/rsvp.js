@@ -0,0 +1,128 @@
+/**
+ * RSVP answers to a rehearsal
+ */
+
+/**
+ * Answers a participant can give
+ * - yes: going
+ * - no: not going (also what "unliking" a rehearsal sends, and the initial state of an invitation)
+ * - maybe: undecided, optionally with a reason
+ */
+export const RSVP_RESPONSES = ['yes', 'no', 'maybe'];
+
+export const MAX_RSVP_REASON_LENGTH = 500;
+
+/**
+ * Validate an RSVP from the request body
+ * @param {string} response - One of RSVP_RESPONSES
+ * @param {string|null|undefined} notes - Optional reason
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateRsvp(response, notes) {
+  if (!RSVP_RESPONSES.includes(response)) {
+    return `Invalid response value. Must be one of: ${RSVP_RESPONSES.join(', ')}`;
+  }
+
+  if (notes !== null && notes !== undefined) {
+    if (typeof notes !== 'string') {
+      return 'Invalid reason';
+    }
+    if (notes.trim().length > MAX_RSVP_REASON_LENGTH) {
+      return `Reason is too long. Maximum is ${MAX_RSVP_REASON_LENGTH} characters`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalise the optional reason: trimmed, empty becomes null
+ * @param {string|null|undefined} notes - Reason from the request body
+ * @returns {string|null}
+ */
+export function normalizeRsvpReason(notes) {
+  if (typeof notes !== 'string') {
+    return null;
+  }
+  const trimmed = notes.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Whether a participant has answered the invitation
+ * Invitations start as 'no' and unliking sends 'no' again, so only 'yes' and 'maybe' count as answers
+ * @param {string|null} response - Stored response value
+ * @returns {boolean}
+ */
+export function hasAnswered(response) {
+  return response === 'yes' || response === 'maybe';
+}
+
+/**
+ * Whether the respond-by deadline of a rehearsal has passed
+ * @param {string|Date|null} respondBy - Deadline (ISO timestamp or Date), null when not set
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+export function isRespondByPassed(respondBy, now = new Date()) {
+  if (!respondBy) {
+    return false;
+  }
+  const deadline = new Date(respondBy).getTime();
+  return !isNaN(deadline) && deadline <= now.getTime();
+}
+
+/**
+ * Validate the optional respond-by deadline of a rehearsal
+ * @param {string|null|undefined} respondBy - ISO timestamp, null/undefined when not set
+ * @param {string} startsAt - Rehearsal start (ISO timestamp)
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateRespondBy(respondBy, startsAt) {
+  if (respondBy === null || respondBy === undefined) {
+    return null;
+  }
+
+  const deadline = Date.parse(respondBy);
+  if (isNaN(deadline)) {
+    return 'Invalid respondBy: must be an ISO timestamp';
+  }
+  if (startsAt && deadline > Date.parse(startsAt)) {
+    return 'Invalid respondBy: must not be after the rehearsal starts';
+  }
+
+  return null;
+}
+
+/**
+ * Move a respond-by deadline along with its rehearsal, keeping the same lead time
+ * (e.g. "2 days before" for every occurrence of a series)
+ * @param {string|null|undefined} respondBy - Deadline set for the rehearsal starting at `fromStartsAt`
+ * @param {string} fromStartsAt - Start the deadline was chosen for (ISO timestamp)
+ * @param {string} toStartsAt - Start of the rehearsal that gets the deadline (ISO timestamp)
+ * @returns {string|null|undefined} - Shifted deadline; null/undefined are passed through
+ */
+export function shiftRespondBy(respondBy, fromStartsAt, toStartsAt) {
+  if (!respondBy) {
+    return respondBy;
+  }
+  const leadMs = Date.parse(fromStartsAt) - Date.parse(respondBy);
+  return new Date(Date.parse(toStartsAt) - leadMs).toISOString();
+}
+
+/**
+ * Count answers of a rehearsal
+ * @param {Array<string|null>} responses - Response values of invited participants
+ * @param {string|Date|null} respondBy - Respond-by deadline of the rehearsal
+ * @param {Date} now - Current time
+ * @returns {{confirmed: number, maybe: number, invited: number, overdue: number}}
+ *   overdue - participants who haven't answered by the deadline
+ */
+export function countRsvpResponses(responses, respondBy = null, now = new Date()) {
+  return {
+    confirmed: responses.filter(r => r === 'yes').length,
+    maybe: responses.filter(r => r === 'maybe').length,
+    invited: responses.length,
+    overdue: isRespondByPassed(respondBy, now) ? responses.filter(r => !hasAnswered(r)).length : 0,
+  };
+}
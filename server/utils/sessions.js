@@ -0,0 +1,96 @@
+/**
+ * Rules for user sessions (one per signed-in device)
+ */
+
+export const MAX_DEVICE_NAME_LENGTH = 100;
+
+// How often a request may move last_used_at forward, so every request is not a write
+export const SESSION_TOUCH_INTERVAL_MINUTES = 5;
+
+/**
+ * Why a refresh token was refused, keyed by getRefreshStatus()
+ */
+export const SESSION_ERRORS = {
+  missing: 'Session not found',
+  revoked: 'Session has been revoked',
+  expired: 'Session has expired',
+  reused: 'Refresh token was already used; the session has been revoked',
+};
+
+/**
+ * Clean up the device name sent by the app
+ * @param {*} deviceName
+ * @returns {string|null} - Trimmed name, cut to MAX_DEVICE_NAME_LENGTH, or null
+ */
+export function normalizeDeviceName(deviceName) {
+  if (typeof deviceName !== 'string') {
+    return null;
+  }
+  const trimmed = deviceName.trim();
+  return trimmed ? trimmed.slice(0, MAX_DEVICE_NAME_LENGTH) : null;
+}
+
+/**
+ * Whether a session is still signed in
+ * @param {Object|undefined} session - native_user_sessions row
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+export function isSessionActive(session, now = new Date()) {
+  return Boolean(session)
+    && !session.revoked_at
+    && !(session.expires_at && new Date(session.expires_at) <= now);
+}
+
+/**
+ * Decide what to do with a refresh token of a session
+ * Only the latest token of a session works. Seeing an older one means two parties hold
+ * tokens of the same session (the token was copied), so the whole session is closed.
+ * @param {Object|undefined} session - native_user_sessions row
+ * @param {string} tokenHash - Hash of the presented refresh token
+ * @param {Date} now - Current time
+ * @returns {'active'|'missing'|'revoked'|'expired'|'reused'}
+ */
+export function getRefreshStatus(session, tokenHash, now = new Date()) {
+  if (!session) {
+    return 'missing';
+  }
+  if (session.revoked_at) {
+    return 'revoked';
+  }
+  if (session.expires_at && new Date(session.expires_at) <= now) {
+    return 'expired';
+  }
+  if (session.refresh_token_hash !== tokenHash) {
+    return 'reused';
+  }
+  return 'active';
+}
+
+/**
+ * Whether a token issued before sessions existed (no sid) has been revoked
+ * Such tokens have no session to close, so signing out everywhere or resetting the password
+ * moves the user's tokens_valid_after forward instead.
+ * @param {Object} decoded - Verified token payload; iat is in seconds
+ * @param {Date|string|null} tokensValidAfter - native_users.tokens_valid_after
+ * @returns {boolean}
+ */
+export function isLegacyTokenRevoked(decoded, tokensValidAfter) {
+  if (!tokensValidAfter) {
+    return false;
+  }
+  return decoded.iat * 1000 <= new Date(tokensValidAfter).getTime();
+}
+
+/**
+ * Whether last_used_at is old enough to be updated
+ * @param {Object} session - native_user_sessions row
+ * @param {Date} now - Current time
+ * @returns {boolean}
+ */
+export function shouldTouchSession(session, now = new Date()) {
+  if (!session.last_used_at) {
+    return true;
+  }
+  return now.getTime() - new Date(session.last_used_at).getTime() >= SESSION_TOUCH_INTERVAL_MINUTES * 60 * 1000;
+}
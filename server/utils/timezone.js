@@ -175,3 +175,51 @@ export function formatAvailabilitySlotsResponse(slots, timezone) {
     };
   });
 }
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @param {number} days - Number of days to add (can be negative)
+ * @returns {string} - Date in YYYY-MM-DD format
+ */
+function addDaysToDateString(date, days) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Split a timestamp range into per-day pieces in the user's timezone
+ * Overnight and multi-day ranges produce one piece for every local date they touch,
+ * clipped to 00:00 / 23:59 at the day boundaries
+ * @param {string} startsAtISO - ISO 8601 start timestamp
+ * @param {string} endsAtISO - ISO 8601 end timestamp
+ * @param {string} timezone - IANA timezone (e.g., 'Asia/Jerusalem')
+ * @returns {Array<{date: string, start: string, end: string}>} - Pieces in chronological order
+ *
+ * @example
+ * splitRangeByLocalDates("2025-12-10T20:00:00.000Z", "2025-12-11T00:00:00.000Z", "Asia/Jerusalem")
+ * // Returns: [
+ * //   { date: "2025-12-10", start: "22:00", end: "23:59" },
+ * //   { date: "2025-12-11", start: "00:00", end: "02:00" }
+ * // ]
+ */
+export function splitRangeByLocalDates(startsAtISO, endsAtISO, timezone) {
+  const start = timestampToLocal(startsAtISO, timezone);
+  const end = timestampToLocal(endsAtISO, timezone);
+
+  if (start.date >= end.date) {
+    return [{ date: start.date, start: start.time, end: end.time }];
+  }
+
+  const pieces = [{ date: start.date, start: start.time, end: '23:59' }];
+  for (let date = addDaysToDateString(start.date, 1); date < end.date; date = addDaysToDateString(date, 1)) {
+    pieces.push({ date, start: '00:00', end: '23:59' });
+  }
+
+  // A range ending exactly at midnight doesn't reach into the last day
+  if (end.time !== '00:00') {
+    pieces.push({ date: end.date, start: '00:00', end: end.time });
+  }
+
+  return pieces;
+}
@@ -0,0 +1,73 @@
+/**
+ * Per-project rehearsal windows by weekday
+ */
+
+/**
+ * @typedef {Object} DayWorkingHours
+ * @property {string} start - Earliest rehearsal start (HH:mm)
+ * @property {string} end - Latest rehearsal end (HH:mm)
+ */
+
+/**
+ * @typedef {Object<string, DayWorkingHours|null>} WorkingHours
+ * Keyed by weekday name ('monday' ... 'sunday'); null means no rehearsals that day.
+ * A missing weekday falls back to DEFAULT_DAY_HOURS.
+ */
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const DEFAULT_DAY_HOURS = { start: '09:00', end: '23:00' };
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate working hours from the request body
+ * @param {WorkingHours|null} workingHours - null resets the project to defaults
+ * @returns {string|null} - Error message or null if valid
+ */
+export function validateWorkingHours(workingHours) {
+  if (workingHours === null) {
+    return null;
+  }
+
+  if (typeof workingHours !== 'object' || Array.isArray(workingHours)) {
+    return 'Invalid working hours';
+  }
+
+  for (const [day, hours] of Object.entries(workingHours)) {
+    if (!WEEKDAYS.includes(day)) {
+      return `Invalid weekday: ${day}`;
+    }
+    if (hours === null) {
+      continue;
+    }
+    if (!hours || !TIME_REGEX.test(hours.start) || !TIME_REGEX.test(hours.end)) {
+      return `Invalid time format for ${day}. Use HH:mm`;
+    }
+    if (hours.start >= hours.end) {
+      return `Start must be before end for ${day}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read working hours from a project row
+ * JSONB comes back as an object from PostgreSQL and as a string from SQLite
+ * @param {Object|string|null} value - native_projects.working_hours
+ * @returns {WorkingHours|null}
+ */
+export function parseWorkingHours(value) {
+  if (!value) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,42 @@
+/**
+ * Mock for expo-notifications
+ */
+
+export const setNotificationHandler = jest.fn();
+export const setNotificationChannelAsync = jest.fn();
+export const getPermissionsAsync = jest.fn(() => Promise.resolve({ status: 'granted', canAskAgain: true }));
+export const requestPermissionsAsync = jest.fn(() => Promise.resolve({ status: 'granted', canAskAgain: true }));
+export const getExpoPushTokenAsync = jest.fn();
+export const scheduleNotificationAsync = jest.fn();
+export const cancelScheduledNotificationAsync = jest.fn();
+export const getAllScheduledNotificationsAsync = jest.fn(() => Promise.resolve([]));
+export const addNotificationReceivedListener = jest.fn(() => ({ remove: jest.fn() }));
+export const addNotificationResponseReceivedListener = jest.fn(() => ({ remove: jest.fn() }));
+export const getLastNotificationResponse = jest.fn(() => null);
+export const clearLastNotificationResponse = jest.fn();
+
+export const AndroidImportance = {
+  DEFAULT: 3,
+  HIGH: 4,
+};
+
+export const SchedulableTriggerInputTypes = {
+  DATE: 'date',
+};
+
+export default {
+  setNotificationHandler,
+  setNotificationChannelAsync,
+  getPermissionsAsync,
+  requestPermissionsAsync,
+  getExpoPushTokenAsync,
+  scheduleNotificationAsync,
+  cancelScheduledNotificationAsync,
+  getAllScheduledNotificationsAsync,
+  addNotificationReceivedListener,
+  addNotificationResponseReceivedListener,
+  getLastNotificationResponse,
+  clearLastNotificationResponse,
+  AndroidImportance,
+  SchedulableTriggerInputTypes,
+};
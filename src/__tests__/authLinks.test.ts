@@ -0,0 +1,24 @@
+/**
+ * Unit Tests for Auth Links
+ *
+ * Tests for src/shared/utils/authLinks.ts
+ */
+
+import { parseResetPasswordToken } from '../shared/utils/authLinks';
+
+const TOKEN = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+describe('parseResetPasswordToken', () => {
+  it('should extract the token from app and web links', () => {
+    expect(parseResetPasswordToken(`rehearsalapp://reset-password/${TOKEN}`)).toBe(TOKEN);
+    expect(parseResetPasswordToken(`https://rehearsal-calendar-app.onrender.com/reset-password/${TOKEN}`)).toBe(TOKEN);
+    expect(parseResetPasswordToken(`https://rehearsal-calendar-app.onrender.com/reset-password/${TOKEN}/?utm_source=email`)).toBe(TOKEN);
+  });
+
+  it('should ignore other links', () => {
+    expect(parseResetPasswordToken(`rehearsalapp://verify-email/${TOKEN}`)).toBeNull();
+    expect(parseResetPasswordToken(`rehearsalapp://invite/${TOKEN}`)).toBeNull();
+    expect(parseResetPasswordToken(TOKEN)).toBeNull();
+    expect(parseResetPasswordToken(null)).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Unit Tests for Scheduling Conflict Detection
+ *
+ * Tests for src/shared/utils/conflictDetection.ts
+ * Deterministic tests using fixed ISO timestamps.
+ */
+
+import {
+  checkSchedulingConflicts,
+  formatConflictMessage,
+  getConflictSeverity,
+} from '../shared/utils/conflictDetection';
+import { translations } from '../i18n/translations';
+import { TimeRange } from '../shared/utils/availability';
+import { dateTimeToISO } from '../shared/utils/time';
+import { ProjectMember } from '../shared/types';
+
+const member = (userId: string, firstName: string): ProjectMember => ({
+  id: `m-${userId}`,
+  userId,
+  role: 'member',
+  status: 'active',
+  firstName,
+});
+
+const alice = member('1', 'Alice');
+const bob = member('2', 'Bob');
+
+// Rehearsal 2025-12-10 18:00-21:00 UTC
+const REHEARSAL_START = '2025-12-10T18:00:00.000Z';
+const REHEARSAL_END = '2025-12-10T21:00:00.000Z';
+
+const block = (startsAt: string, endsAt: string, extra: Partial<TimeRange> = {}): TimeRange => ({
+  start: '00:00',
+  end: '23:59',
+  startsAt,
+  endsAt,
+  type: 'busy',
+  ...extra,
+});
+
+describe('Conflict Detection', () => {
+  describe('getConflictSeverity', () => {
+    it('should class booked rehearsals above plain busy blocks', () => {
+      expect(getConflictSeverity({ start: '10:00', end: '12:00', type: 'busy', rehearsalId: '5' })).toBe('rehearsal');
+      expect(getConflictSeverity({ start: '10:00', end: '12:00', type: 'busy', source: 'rehearsal' })).toBe('rehearsal');
+      expect(getConflictSeverity({ start: '10:00', end: '12:00', type: 'busy' })).toBe('busy');
+      expect(getConflictSeverity({ start: '10:00', end: '12:00', type: 'tentative' })).toBe('tentative');
+    });
+
+    it('should ignore available blocks', () => {
+      expect(getConflictSeverity({ start: '10:00', end: '12:00', type: 'available' })).toBeNull();
+    });
+  });
+
+  describe('checkSchedulingConflicts', () => {
+    it('should report no conflicts when nobody is busy', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block('2025-12-10T10:00:00.000Z', '2025-12-10T12:00:00.000Z')] } },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result).toEqual({ hasConflicts: false, severity: null, busyMembers: [] });
+    });
+
+    it('should not treat back-to-back blocks as conflicts', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block('2025-12-10T16:00:00.000Z', REHEARSAL_START)] } },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result.hasConflicts).toBe(false);
+    });
+
+    it('should report the overlap of a busy block', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block('2025-12-10T20:00:00.000Z', '2025-12-10T23:00:00.000Z', { title: 'Work' })] } },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result.hasConflicts).toBe(true);
+      expect(result.severity).toBe('busy');
+      expect(result.busyMembers).toHaveLength(1);
+      expect(result.busyMembers[0].member).toBe(alice);
+      expect(result.busyMembers[0].conflictingSlots[0]).toMatchObject({
+        severity: 'busy',
+        startsAt: '2025-12-10T20:00:00.000Z',
+        endsAt: '2025-12-10T23:00:00.000Z',
+        overlapStartsAt: '2025-12-10T20:00:00.000Z',
+        overlapEndsAt: REHEARSAL_END,
+      });
+      expect(result.busyMembers[0].conflictingSlots[0].slot.title).toBe('Work');
+    });
+
+    it('should detect a multi-day block covering the rehearsal', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block('2025-12-08T08:00:00.000Z', '2025-12-12T08:00:00.000Z')] } },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result.busyMembers[0].conflictingSlots[0]).toMatchObject({
+        overlapStartsAt: REHEARSAL_START,
+        overlapEndsAt: REHEARSAL_END,
+      });
+    });
+
+    it('should detect an overnight rehearsal overlapping a block on the next day', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block('2025-12-11T00:30:00.000Z', '2025-12-11T02:00:00.000Z')] } },
+        '2025-12-10T22:00:00.000Z',
+        '2025-12-11T01:00:00.000Z'
+      );
+
+      expect(result.hasConflicts).toBe(true);
+      expect(result.busyMembers[0].conflictingSlots[0].overlapEndsAt).toBe('2025-12-11T01:00:00.000Z');
+    });
+
+    it('should count a block listed under several dates once', () => {
+      const overnight = block('2025-12-10T20:00:00.000Z', '2025-12-11T02:00:00.000Z');
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [overnight, { ...overnight, start: '00:00', end: '04:00' }] } },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result.busyMembers[0].conflictingSlots).toHaveLength(1);
+    });
+
+    it('should class conflicts by severity per member and overall', () => {
+      const result = checkSchedulingConflicts(
+        [alice, bob],
+        {
+          '1': {
+            timeRanges: [
+              block('2025-12-10T17:00:00.000Z', '2025-12-10T19:00:00.000Z', { type: 'tentative' }),
+            ],
+          },
+          '2': {
+            timeRanges: [
+              block('2025-12-10T19:00:00.000Z', '2025-12-10T20:00:00.000Z', { type: 'tentative' }),
+              block('2025-12-10T18:30:00.000Z', '2025-12-10T19:30:00.000Z', { source: 'rehearsal', rehearsalId: '42' }),
+            ],
+          },
+        },
+        REHEARSAL_START,
+        REHEARSAL_END
+      );
+
+      expect(result.severity).toBe('rehearsal');
+      expect(result.busyMembers.map(m => m.severity)).toEqual(['tentative', 'rehearsal']);
+      // Sorted chronologically
+      expect(result.busyMembers[1].conflictingSlots.map(c => c.severity)).toEqual(['rehearsal', 'tentative']);
+    });
+
+    it('should ignore the booked slots of the rehearsal being edited', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block(REHEARSAL_START, REHEARSAL_END, { source: 'rehearsal', rehearsalId: '42' })] } },
+        REHEARSAL_START,
+        REHEARSAL_END,
+        { excludeRehearsalId: '42' }
+      );
+
+      expect(result.hasConflicts).toBe(false);
+    });
+
+    it('should skip members without availability data', () => {
+      const result = checkSchedulingConflicts([alice, bob], {}, REHEARSAL_START, REHEARSAL_END);
+
+      expect(result.hasConflicts).toBe(false);
+    });
+
+    it('should place ranges without timestamps on the rehearsal date', () => {
+      const result = checkSchedulingConflicts(
+        [alice, bob],
+        {
+          '1': { timeRanges: [{ start: '19:00', end: '20:00', type: 'busy' }] },
+          // Wraps past midnight
+          '2': { timeRanges: [{ start: '20:30', end: '01:00', type: 'busy' }] },
+        },
+        dateTimeToISO('2025-12-10', '18:00'),
+        dateTimeToISO('2025-12-10', '21:00')
+      );
+
+      expect(result.busyMembers.map(m => m.member.userId)).toEqual(['1', '2']);
+      expect(result.busyMembers[1].conflictingSlots[0].endsAt).toBe(dateTimeToISO('2025-12-11', '01:00'));
+    });
+  });
+
+  describe('formatConflictMessage', () => {
+    // Local times, so the formatted HH:mm don't depend on the machine timezone
+    const start = dateTimeToISO('2025-12-10', '18:00');
+    const end = dateTimeToISO('2025-12-10', '21:00');
+
+    const conflicts = () =>
+      checkSchedulingConflicts(
+        [alice, member('2', '')],
+        {
+          '1': { timeRanges: [block(dateTimeToISO('2025-12-10', '17:00'), dateTimeToISO('2025-12-10', '19:00'), { title: 'Work' })] },
+          '2': {
+            timeRanges: [
+              block(dateTimeToISO('2025-12-10', '20:30'), dateTimeToISO('2025-12-11', '02:00'), { source: 'rehearsal', rehearsalId: '7', title: 'Rehearsal' }),
+              block(dateTimeToISO('2025-12-10', '18:00'), dateTimeToISO('2025-12-10', '18:25'), { type: 'tentative' }),
+            ],
+          },
+        },
+        start,
+        end
+      );
+
+    it('should return an empty string without conflicts', () => {
+      const result = checkSchedulingConflicts([alice], {}, start, end);
+
+      expect(formatConflictMessage(result, translations.en)).toBe('');
+    });
+
+    it('should list each member with the block, its title and the overlap in English', () => {
+      expect(formatConflictMessage(conflicts(), translations.en)).toBe(
+        [
+          '2 participants have conflicts:',
+          '• Alice: Busy «Work», 17:00–19:00 (overlaps by 1 hour)',
+          '• Participant: Tentative, 18:00–18:25 (overlaps by 25 minutes); ' +
+            'Another rehearsal, 20:30–12/11 02:00 (overlaps by 30 minutes)',
+        ].join('\n')
+      );
+    });
+
+    it('should use Russian plural forms and gender-neutral wording', () => {
+      const message = formatConflictMessage(conflicts(), translations.ru);
+
+      expect(message).toBe(
+        [
+          'Конфликт по времени у 2 участников:',
+          '• Alice: Занятость «Work», 17:00–19:00 (пересечение 1 час)',
+          '• Участник: Под вопросом, 18:00–18:25 (пересечение 25 минут); ' +
+            'Другая репетиция, 20:30–11.12 02:00 (пересечение 30 минут)',
+        ].join('\n')
+      );
+      expect(message).not.toContain('занят(а)');
+    });
+
+    it('should use the singular form for one member', () => {
+      const result = checkSchedulingConflicts(
+        [alice],
+        { '1': { timeRanges: [block(start, end, { isAllDay: true })] } },
+        start,
+        end
+      );
+
+      expect(formatConflictMessage(result, translations.ru)).toBe(
+        'Конфликт по времени у 1 участника:\n• Alice: Занятость, весь день (пересечение 3 часа)'
+      );
+      expect(formatConflictMessage(result, translations.en)).toBe(
+        '1 participant has a conflict:\n• Alice: Busy, all day (overlaps by 3 hours)'
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for Calendar Event Templates
+ *
+ * Tests for src/shared/utils/eventTemplate.ts
+ */
+
+import {
+  DEFAULT_EXPORT_TEMPLATE,
+  LEGACY_TITLE_TEMPLATE,
+  getTemplateValues,
+  renderEventTemplate,
+  renderEventTitle,
+  usesPlaceholder,
+  getKnownEventTitles,
+  normalizeAlarmOffsets,
+} from '../shared/utils/eventTemplate';
+import { RehearsalWithProject } from '../shared/types/calendar';
+
+const rehearsal: RehearsalWithProject = {
+  id: '42',
+  projectId: '3',
+  projectName: 'Hamlet',
+  startsAt: '2025-12-10T18:00:00.000Z',
+  endsAt: '2025-12-10T21:00:00.000Z',
+  location: 'Main hall',
+  title: 'Act 1',
+  description: 'Bring scripts',
+  scenes: [{ id: '1', name: 'Ghost' }, { id: '2', name: 'Court' }],
+  participants: ['Anna Petrova', 'Ivan Sidorov'],
+};
+
+const bare: RehearsalWithProject = {
+  id: '43',
+  projectId: '3',
+  projectName: 'Hamlet',
+  startsAt: '2025-12-11T18:00:00.000Z',
+  endsAt: '2025-12-11T21:00:00.000Z',
+};
+
+describe('Calendar event templates', () => {
+  describe('getTemplateValues', () => {
+    it('should list scenes and participants', () => {
+      expect(getTemplateValues(rehearsal)).toEqual({
+        project: 'Hamlet',
+        title: 'Act 1',
+        scene: 'Ghost, Court',
+        location: 'Main hall',
+        participants: 'Anna Petrova, Ivan Sidorov',
+        description: 'Bring scripts',
+        series: '',
+      });
+    });
+
+    it('should mark series occurrences with the given label', () => {
+      expect(getTemplateValues({ ...rehearsal, seriesId: '7' }, 'Recurring rehearsal').series).toBe('Recurring rehearsal');
+      expect(getTemplateValues(rehearsal, 'Recurring rehearsal').series).toBe('');
+    });
+  });
+
+  describe('renderEventTemplate', () => {
+    it('should fill in every placeholder', () => {
+      const template = '{project} · {title} @ {location}\nScenes: {scene}\nWith {participants}';
+
+      expect(renderEventTemplate(template, getTemplateValues(rehearsal))).toBe(
+        'Hamlet · Act 1 @ Main hall\nScenes: Ghost, Court\nWith Anna Petrova, Ivan Sidorov'
+      );
+    });
+
+    it('should leave out lines whose placeholders are all empty', () => {
+      expect(renderEventTemplate(DEFAULT_EXPORT_TEMPLATE.notesTemplate, getTemplateValues(bare))).toBe(
+        'Project: Hamlet\n\nCreated via Rehearsal Calendar app'
+      );
+    });
+
+    it('should show the series line of the default notes for series occurrences only', () => {
+      expect(renderEventTemplate(
+        DEFAULT_EXPORT_TEMPLATE.notesTemplate,
+        getTemplateValues({ ...bare, seriesId: '7' }, 'Повторяющаяся репетиция')
+      )).toBe('Project: Hamlet\nПовторяющаяся репетиция\n\nCreated via Rehearsal Calendar app');
+    });
+
+    it('should keep unknown placeholders as typed', () => {
+      expect(renderEventTemplate('{project} {unknown}', getTemplateValues(bare))).toBe('Hamlet {unknown}');
+    });
+  });
+
+  describe('renderEventTitle', () => {
+    it('should fall back to the legacy title when the template comes out empty', () => {
+      expect(renderEventTitle('{title}', getTemplateValues(bare))).toBe('Rehearsal: Hamlet');
+      expect(renderEventTitle('{title}', getTemplateValues(rehearsal))).toBe('Act 1');
+    });
+  });
+
+  describe('usesPlaceholder', () => {
+    it('should look through all templates', () => {
+      expect(usesPlaceholder(['{project}', 'With {participants}'], 'participants')).toBe(true);
+      expect(usesPlaceholder(['{project}'], 'participants')).toBe(false);
+    });
+  });
+
+  describe('getKnownEventTitles', () => {
+    it('should include titles of earlier and legacy templates', () => {
+      const template = {
+        ...DEFAULT_EXPORT_TEMPLATE,
+        titleTemplate: '{project}: {title}',
+        previousTitleTemplates: ['{title}', LEGACY_TITLE_TEMPLATE],
+      };
+
+      expect(getKnownEventTitles(template, getTemplateValues(rehearsal))).toEqual([
+        'Hamlet: Act 1',
+        'Act 1',
+        'Rehearsal: Hamlet',
+      ]);
+    });
+  });
+
+  describe('normalizeAlarmOffsets', () => {
+    it('should keep the known presets, closest to the start first', () => {
+      expect(normalizeAlarmOffsets([1440, 7, 15])).toEqual([15, 1440]);
+      expect(normalizeAlarmOffsets([])).toEqual([]);
+    });
+
+    it('should fall back to the default alarm for broken settings', () => {
+      expect(normalizeAlarmOffsets(null)).toEqual([30]);
+    });
+  });
+});
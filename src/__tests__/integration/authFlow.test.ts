@@ -76,6 +76,7 @@ describe('Auth Flow Integration', () => {
         password: 'password123',
         firstName: 'Test',
         lastName: 'User',
+        deviceName: expect.any(String),
       });
 
       expect(registerResponse.data.user).toEqual(mockUser);
@@ -102,6 +103,7 @@ describe('Auth Flow Integration', () => {
       expect(axios.post).toHaveBeenCalledWith('/auth/login', {
         email: 'test@example.com',
         password: 'password123',
+        deviceName: expect.any(String),
       });
 
       expect(loginResponse.data.user).toEqual(mockUser);
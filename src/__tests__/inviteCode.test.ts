@@ -0,0 +1,38 @@
+/**
+ * Unit Tests for Invite Codes
+ *
+ * Tests for src/shared/utils/inviteCode.ts
+ */
+
+import { parseInviteCode } from '../shared/utils/inviteCode';
+
+const CODE = '0123456789abcdef0123456789abcdef';
+
+describe('parseInviteCode', () => {
+  it('should accept a bare code', () => {
+    expect(parseInviteCode(CODE)).toBe(CODE);
+    expect(parseInviteCode(`  ${CODE}\n`)).toBe(CODE);
+    expect(parseInviteCode(CODE.toUpperCase())).toBe(CODE);
+  });
+
+  it('should extract the code from app links', () => {
+    expect(parseInviteCode(`rehearsalapp://invite/${CODE}`)).toBe(CODE);
+  });
+
+  it('should extract the code from web links', () => {
+    expect(parseInviteCode(`https://rehearsal-calendar-app.onrender.com/invite/${CODE}`)).toBe(CODE);
+    expect(parseInviteCode(`https://rehearsal-calendar-app.onrender.com/invite/${CODE}/`)).toBe(CODE);
+    expect(parseInviteCode(`https://rehearsal-calendar-app.onrender.com/invite/${CODE}?utm_source=qr`)).toBe(CODE);
+    expect(parseInviteCode(`http://localhost:8081/invite/${CODE}#join`)).toBe(CODE);
+  });
+
+  it('should reject anything that is not an invite', () => {
+    expect(parseInviteCode('')).toBeNull();
+    expect(parseInviteCode(null)).toBeNull();
+    expect(parseInviteCode(undefined)).toBeNull();
+    expect(parseInviteCode('not a code')).toBeNull();
+    expect(parseInviteCode('https://example.com/projects/42')).toBeNull();
+    expect(parseInviteCode(`https://rehearsal-calendar-app.onrender.com/invite/${CODE}/extra`)).toBeNull();
+    expect(parseInviteCode(`invite/${CODE}`)).toBeNull();
+  });
+});
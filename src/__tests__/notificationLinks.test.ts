@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for Notification Links
+ *
+ * Tests for src/shared/utils/notificationLinks.ts
+ */
+
+import { getNotificationTarget, getNotificationRoute } from '../shared/utils/notificationLinks';
+
+describe('getNotificationTarget', () => {
+  it('should read the rehearsal to open', () => {
+    expect(getNotificationTarget({ type: 'rehearsal_created', projectId: '3', rehearsalId: '42' })).toEqual({
+      type: 'rehearsal_created',
+      projectId: '3',
+      rehearsalId: '42',
+    });
+  });
+
+  it('should turn numeric ids into strings', () => {
+    expect(getNotificationTarget({ type: 'rsvp_received', projectId: 3, rehearsalId: 42 })).toEqual({
+      type: 'rsvp_received',
+      projectId: '3',
+      rehearsalId: '42',
+    });
+  });
+
+  it('should leave the rehearsal out for cancellations', () => {
+    expect(getNotificationTarget({ type: 'rehearsal_cancelled', projectId: '3' })?.rehearsalId).toBeNull();
+  });
+
+  it('should ignore unknown notifications', () => {
+    expect(getNotificationTarget({ type: 'marketing', projectId: '3' })).toBeNull();
+    expect(getNotificationTarget({ type: 'rehearsal_created' })).toBeNull();
+    expect(getNotificationTarget(null)).toBeNull();
+    expect(getNotificationTarget('rehearsal_created')).toBeNull();
+  });
+});
+
+describe('getNotificationRoute', () => {
+  it('should open the rehearsal details in the calendar', () => {
+    const target = getNotificationTarget({ type: 'rsvp_reminder', projectId: '3', rehearsalId: '42' })!;
+
+    expect(getNotificationRoute(target)).toEqual({
+      screen: 'Calendar',
+      params: { screen: 'CalendarMain', params: { rehearsalId: '42' } },
+    });
+  });
+
+  it('should open the rehearsal of a local reminder', () => {
+    const target = getNotificationTarget({
+      type: 'rehearsal_reminder',
+      projectId: '3',
+      rehearsalId: '42',
+      fireAt: '2025-12-10T16:00:00.000Z',
+    })!;
+
+    expect(getNotificationRoute(target)).toEqual({
+      screen: 'Calendar',
+      params: { screen: 'CalendarMain', params: { rehearsalId: '42' } },
+    });
+  });
+
+  it('should open the calendar without details for cancellations', () => {
+    const target = getNotificationTarget({ type: 'rehearsal_cancelled', projectId: '3' })!;
+
+    expect(getNotificationRoute(target)).toEqual({
+      screen: 'Calendar',
+      params: { screen: 'CalendarMain', params: undefined },
+    });
+  });
+
+  it('should open the project for join requests and role changes', () => {
+    for (const type of ['join_request', 'role_changed']) {
+      const target = getNotificationTarget({ type, projectId: '3' })!;
+
+      expect(getNotificationRoute(target)).toEqual({
+        screen: 'Projects',
+        params: { screen: 'ProjectDetail', params: { projectId: '3' }, initial: false },
+      });
+    }
+  });
+});
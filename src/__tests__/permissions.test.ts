@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for Project Permissions
+ *
+ * Tests for src/shared/utils/permissions.ts
+ */
+
+import { hasProjectPermission, canScheduleIn, canEditProjectSettings } from '../shared/utils/permissions';
+import { ProjectPermission } from '../shared/types';
+
+const DIRECTOR: ProjectPermission[] = ['schedule_rehearsals', 'track_attendance', 'view_reports'];
+
+describe('Project permissions', () => {
+  describe('hasProjectPermission', () => {
+    it('should use the permission list sent by the server', () => {
+      const director = { is_admin: false, permissions: DIRECTOR };
+
+      expect(hasProjectPermission(director, 'view_reports')).toBe(true);
+      expect(hasProjectPermission(director, 'manage_project')).toBe(false);
+    });
+
+    it('should trust the permission list over is_admin', () => {
+      expect(hasProjectPermission({ is_admin: true, permissions: [] }, 'schedule_rehearsals')).toBe(false);
+    });
+
+    it('should fall back to is_admin when permissions are missing', () => {
+      expect(hasProjectPermission({ is_admin: true }, 'manage_members')).toBe(true);
+      expect(hasProjectPermission({ is_admin: false }, 'schedule_rehearsals')).toBe(false);
+      expect(hasProjectPermission({}, 'schedule_rehearsals')).toBe(false);
+    });
+
+    it('should deny everything without a project', () => {
+      expect(hasProjectPermission(null, 'schedule_rehearsals')).toBe(false);
+      expect(hasProjectPermission(undefined, 'view_reports')).toBe(false);
+    });
+  });
+
+  describe('canScheduleIn', () => {
+    it('should allow stage managers but not actors', () => {
+      expect(canScheduleIn({ permissions: ['schedule_rehearsals', 'track_attendance'] })).toBe(true);
+      expect(canScheduleIn({ is_admin: false, permissions: [] })).toBe(false);
+    });
+  });
+
+  describe('canEditProjectSettings', () => {
+    it('should require manage_project for active projects', () => {
+      expect(canEditProjectSettings({ is_admin: true, permissions: ['manage_project'] })).toBe(true);
+      expect(canEditProjectSettings({ is_admin: false, permissions: DIRECTOR })).toBe(false);
+    });
+
+    it('should let owners and admins restore archived projects', () => {
+      const archivedAt = '2026-10-01T00:00:00Z';
+
+      expect(canEditProjectSettings({ is_admin: true, permissions: ['view_reports'], archivedAt })).toBe(true);
+      expect(canEditProjectSettings({ is_admin: false, permissions: ['view_reports'], archivedAt })).toBe(false);
+    });
+  });
+});
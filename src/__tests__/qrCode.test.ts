@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for the QR Code Encoder
+ *
+ * Tests for src/shared/utils/qrCode.ts
+ * Structural checks: size per version, function patterns and format information.
+ */
+
+import { encodeQrCode } from '../shared/utils/qrCode';
+
+const INVITE_URL = 'https://rehearsal-calendar-app.onrender.com/invite/0123456789abcdef0123456789abcdef';
+
+// Format information for level M with masks 0–7, bit 14 first
+const FORMAT_BITS_M = [0x5412, 0x5125, 0x5e7c, 0x5b4b, 0x45f9, 0x40ce, 0x4f97, 0x4aa0];
+
+function expectFinderAt(modules: boolean[][], left: number, top: number) {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      expect(modules[top + dy][left + dx]).toBe(ring !== 2);
+    }
+  }
+}
+
+function readFormatBits(modules: boolean[][]): number {
+  // Around the top left finder: row 8 from the left, then column 8 upwards
+  const cells: [number, number][] = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ];
+  return cells.reduce((bits, [x, y]) => (bits << 1) | (modules[y][x] ? 1 : 0), 0);
+}
+
+describe('encodeQrCode', () => {
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQrCode('a')).toHaveLength(21);
+    expect(encodeQrCode('a'.repeat(15))).toHaveLength(25);
+    expect(encodeQrCode(INVITE_URL)).toHaveLength(37);
+    expect(encodeQrCode('a'.repeat(213))).toHaveLength(57);
+  });
+
+  it('should reject text longer than version 10 holds', () => {
+    expect(() => encodeQrCode('a'.repeat(214))).toThrow('Text is too long for a QR code');
+  });
+
+  it('should draw the finder and timing patterns', () => {
+    const modules = encodeQrCode(INVITE_URL);
+    const size = modules.length;
+
+    expectFinderAt(modules, 0, 0);
+    expectFinderAt(modules, size - 7, 0);
+    expectFinderAt(modules, 0, size - 7);
+
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('should record the mask in the format information', () => {
+    FORMAT_BITS_M.forEach((expected, mask) => {
+      expect(readFormatBits(encodeQrCode(INVITE_URL, mask))).toBe(expected);
+    });
+  });
+
+  it('should write the version information from version 7', () => {
+    const modules = encodeQrCode('a'.repeat(110));
+    const size = modules.length;
+    expect(size).toBe(45);
+
+    // Version 7 is 0x07C94, stored in the 6x3 block above the bottom left finder
+    let bits = 0;
+    for (let i = 17; i >= 0; i--) {
+      bits = (bits << 1) | (modules[size - 11 + (i % 3)][Math.floor(i / 3)] ? 1 : 0);
+    }
+    expect(bits).toBe(0x07c94);
+  });
+
+  it('should be deterministic', () => {
+    expect(encodeQrCode(INVITE_URL)).toEqual(encodeQrCode(INVITE_URL));
+  });
+
+  it('should reject an invalid mask', () => {
+    expect(() => encodeQrCode(INVITE_URL, 8)).toThrow('QR mask must be between 0 and 7');
+  });
+});
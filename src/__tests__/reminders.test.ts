@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for Local Reminders
+ *
+ * Tests for src/shared/utils/reminders.ts
+ * Deterministic tests using fixed ISO timestamps and an explicit current time.
+ */
+
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  MAX_SCHEDULED_REMINDERS,
+  getReminderIdentifier,
+  isReminderIdentifier,
+  normalizeReminderOffsets,
+  getReminderRehearsals,
+  planReminders,
+  ReminderRehearsal,
+} from '../shared/utils/reminders';
+import { Rehearsal } from '../shared/types';
+
+const NOW = new Date('2025-12-08T12:00:00.000Z');
+
+const rehearsal = (id: string, startsAt: string, extra: Partial<Rehearsal> = {}): Rehearsal => ({
+  id,
+  projectId: '3',
+  projectName: 'Hamlet',
+  startsAt,
+  endsAt: startsAt,
+  ...extra,
+});
+
+describe('Local reminders', () => {
+  describe('identifiers', () => {
+    it('should tell reminders apart from other notifications', () => {
+      const identifier = getReminderIdentifier('42', 120);
+
+      expect(identifier).toBe('rehearsal-reminder:42:120');
+      expect(isReminderIdentifier(identifier)).toBe(true);
+      expect(isReminderIdentifier('push-notification')).toBe(false);
+    });
+  });
+
+  describe('normalizeReminderOffsets', () => {
+    it('should keep the known presets, largest first', () => {
+      expect(normalizeReminderOffsets([120, 7, 1440, 120])).toEqual([1440, 120]);
+    });
+
+    it('should allow turning reminders off', () => {
+      expect(normalizeReminderOffsets([])).toEqual([]);
+    });
+
+    it('should fall back to the defaults for broken settings', () => {
+      expect(normalizeReminderOffsets(undefined)).toEqual(DEFAULT_REMINDER_OFFSETS);
+      expect(normalizeReminderOffsets('1440')).toEqual(DEFAULT_REMINDER_OFFSETS);
+    });
+  });
+
+  describe('getReminderRehearsals', () => {
+    const rehearsals = [
+      rehearsal('1', '2025-12-10T18:00:00.000Z', { location: 'Main hall' }),
+      rehearsal('2', '2025-12-11T18:00:00.000Z'),
+      rehearsal('3', '2025-12-12T18:00:00.000Z'),
+      rehearsal('4', '2025-12-01T18:00:00.000Z'),
+    ];
+
+    it('should remind about upcoming rehearsals that were not declined', () => {
+      const result = getReminderRehearsals(rehearsals, { '1': 'yes', '2': 'maybe', '3': 'no', '4': 'yes' }, NOW);
+
+      expect(result.map(r => r.id)).toEqual(['1', '2']);
+      expect(result[0]).toEqual({
+        id: '1',
+        projectId: '3',
+        projectName: 'Hamlet',
+        location: 'Main hall',
+        startsAt: '2025-12-10T18:00:00.000Z',
+      });
+    });
+
+    it('should remind about rehearsals without an answer', () => {
+      expect(getReminderRehearsals(rehearsals, {}, NOW).map(r => r.id)).toEqual(['1', '2', '3']);
+    });
+  });
+
+  describe('planReminders', () => {
+    const reminderRehearsal = (id: string, startsAt: string): ReminderRehearsal => ({
+      id,
+      projectId: '3',
+      startsAt,
+    });
+
+    it('should plan one reminder per offset, soonest first', () => {
+      const planned = planReminders([reminderRehearsal('1', '2025-12-10T18:00:00.000Z')], [1440, 120], NOW);
+
+      expect(planned.map(r => [r.identifier, r.fireAt.toISOString()])).toEqual([
+        ['rehearsal-reminder:1:1440', '2025-12-09T18:00:00.000Z'],
+        ['rehearsal-reminder:1:120', '2025-12-10T16:00:00.000Z'],
+      ]);
+    });
+
+    it('should skip reminders whose time has passed', () => {
+      // Starts in 3 hours: the day-before reminder is already gone
+      const planned = planReminders([reminderRehearsal('1', '2025-12-08T15:00:00.000Z')], [1440, 120], NOW);
+
+      expect(planned.map(r => r.offsetMinutes)).toEqual([120]);
+    });
+
+    it('should plan nothing when reminders are off', () => {
+      expect(planReminders([reminderRehearsal('1', '2025-12-10T18:00:00.000Z')], [], NOW)).toEqual([]);
+    });
+
+    it('should keep only the soonest reminders within the platform limit', () => {
+      const rehearsals = Array.from({ length: MAX_SCHEDULED_REMINDERS }, (_, i) =>
+        reminderRehearsal(String(i), new Date(NOW.getTime() + (i + 1) * 24 * 3600000).toISOString())
+      );
+
+      const planned = planReminders(rehearsals, [1440, 120], NOW);
+
+      expect(planned).toHaveLength(MAX_SCHEDULED_REMINDERS);
+      expect(planned[planned.length - 1].rehearsal.id).toBe(String(MAX_SCHEDULED_REMINDERS / 2));
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Respond-by Deadlines
+ *
+ * Tests for src/shared/utils/respondBy.ts
+ * Deterministic tests using fixed ISO timestamps and an explicit current time.
+ */
+
+import {
+  hasAnswered,
+  isRsvpOverdue,
+  respondByFromLeadHours,
+  leadHoursFromRespondBy,
+} from '../shared/utils/respondBy';
+
+const STARTS_AT = '2025-12-10T18:00:00.000Z';
+const NOW = new Date('2025-12-08T12:00:00.000Z');
+
+describe('Respond-by deadlines', () => {
+  describe('hasAnswered', () => {
+    it('should only count yes and maybe as answers', () => {
+      expect(hasAnswered('yes')).toBe(true);
+      expect(hasAnswered('maybe')).toBe(true);
+      expect(hasAnswered('no')).toBe(false);
+      expect(hasAnswered(null)).toBe(false);
+      expect(hasAnswered(undefined)).toBe(false);
+    });
+  });
+
+  describe('isRsvpOverdue', () => {
+    it('should not flag rehearsals without a deadline', () => {
+      expect(isRsvpOverdue(null, null, NOW)).toBe(false);
+      expect(isRsvpOverdue(undefined, null, NOW)).toBe(false);
+    });
+
+    it('should flag a missing answer once the deadline has passed', () => {
+      expect(isRsvpOverdue('2025-12-08T11:00:00.000Z', null, NOW)).toBe(true);
+      expect(isRsvpOverdue('2025-12-08T11:00:00.000Z', 'no', NOW)).toBe(true);
+    });
+
+    it('should not flag before the deadline', () => {
+      expect(isRsvpOverdue('2025-12-08T13:00:00.000Z', null, NOW)).toBe(false);
+    });
+
+    it('should not flag members who answered', () => {
+      expect(isRsvpOverdue('2025-12-08T11:00:00.000Z', 'yes', NOW)).toBe(false);
+      expect(isRsvpOverdue('2025-12-08T11:00:00.000Z', 'maybe', NOW)).toBe(false);
+    });
+  });
+
+  describe('lead time presets', () => {
+    it('should place the deadline the given hours before the start', () => {
+      expect(respondByFromLeadHours(STARTS_AT, 48)).toBe('2025-12-08T18:00:00.000Z');
+      expect(respondByFromLeadHours(STARTS_AT, null)).toBeNull();
+    });
+
+    it('should read the lead time back from a deadline', () => {
+      expect(leadHoursFromRespondBy(STARTS_AT, '2025-12-08T18:00:00.000Z')).toBe(48);
+      expect(leadHoursFromRespondBy(STARTS_AT, null)).toBeNull();
+    });
+  });
+});
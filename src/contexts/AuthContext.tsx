@@ -1,7 +1,9 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { authAPI } from '../shared/services/api';
+import { authAPI, setSessionExpiredHandler } from '../shared/services/api';
 import { logger } from '../shared/utils/logger';
+import { unregisterPushNotifications } from '../shared/services/pushNotifications';
+import { cancelAllRehearsalReminders } from '../shared/services/localReminders';
 
 interface User {
   id: number;
@@ -16,6 +18,8 @@ interface User {
   weekStartDay?: 'monday' | 'sunday';
   notificationsEnabled?: boolean;
   emailNotifications?: boolean;
+  emailDigestFrequency?: 'daily' | 'weekly';
+  emailVerified?: boolean;
   createdAt: string;
 }
 
@@ -27,7 +31,9 @@ interface AuthContextType {
   register: (email: string, password: string, firstName: string, lastName?: string) => Promise<void>;
   loginWithTelegram: (telegramData: any) => Promise<void>;
   logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
   updateUser: (data: Partial<User>) => Promise<void>;
+  refreshUser: () => Promise<void>;
   error: string | null;
 }
 
@@ -43,6 +49,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loadUser();
   }, []);
 
+  // The session was revoked on another device or expired - back to the login screen
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      logger.info('Session ended on the server, signing out');
+      clearSession();
+    });
+    return () => setSessionExpiredHandler(null);
+  }, []);
+
   const loadUser = async () => {
     try {
       const accessToken = await AsyncStorage.getItem('accessToken');
@@ -191,20 +206,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = async () => {
+  // Forget the signed-in user on this device
+  const clearSession = async () => {
     try {
-      setLoading(true);
-
       // Set flag to ignore stale deep links
       await AsyncStorage.setItem('lastLogoutTime', Date.now().toString());
 
+      // Reminders belong to the signed-out user
+      await cancelAllRehearsalReminders();
+
       // Clear ALL AsyncStorage data to prevent cache leaking to new users
       await AsyncStorage.clear();
 
       // Restore the lastLogoutTime flag after clearing everything
       await AsyncStorage.setItem('lastLogoutTime', Date.now().toString());
-
+    } finally {
       setUser(null);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      setLoading(true);
+
+      // Close the session on the server too; signing out works offline as well
+      await unregisterPushNotifications();
+      try {
+        await authAPI.logout();
+      } catch (err) {
+        logger.warn('Failed to close session on the server:', err);
+      }
+
+      await clearSession();
+    } catch (err) {
+      logger.error('Logout error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sign out every device, this one included (unlike logout, fails if the server can't be reached)
+  const logoutEverywhere = async () => {
+    await authAPI.revokeAllSessions();
+    try {
+      setLoading(true);
+      await clearSession();
     } catch (err) {
       logger.error('Logout error:', err);
     } finally {
@@ -235,6 +281,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Re-read the user after changes made outside the profile (e.g. email verification)
+  const refreshUser = async () => {
+    try {
+      const response = await authAPI.getMe();
+      const freshUser = response.data.user;
+      setUser(freshUser);
+      await AsyncStorage.setItem('cachedUser', JSON.stringify(freshUser));
+    } catch (err) {
+      logger.error('Refresh user error:', err);
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -245,7 +303,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         register,
         loginWithTelegram,
         logout,
+        logoutEverywhere,
         updateUser,
+        refreshUser,
         error,
       }}
     >
@@ -14,7 +14,7 @@ interface I18nProviderProps {
   children: ReactNode;
 }
 
-const LANGUAGE_STORAGE_KEY = 'userLanguage';
+export const LANGUAGE_STORAGE_KEY = 'userLanguage';
 
 export function I18nProvider({ children }: I18nProviderProps) {
   const [language, setLanguageState] = useState<Language>('ru');
@@ -0,0 +1,80 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { notificationsAPI } from '../shared/services/api';
+import { useAuth } from './AuthContext';
+import { logger } from '../shared/utils/logger';
+
+interface InboxContextType {
+  // Unread inbox entries, shown as the tab badge
+  unreadCount: number;
+  setUnreadCount: (count: number) => void;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+const InboxContext = createContext<InboxContextType | undefined>(undefined);
+
+export function InboxProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const appState = useRef(AppState.currentState);
+
+  const userId = user?.id;
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const response = await notificationsAPI.getUnreadCount();
+      setUnreadCount(response.data.unreadCount || 0);
+    } catch (err) {
+      logger.error('Failed to load unread notifications count:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      refreshUnreadCount();
+    } else {
+      setUnreadCount(0);
+    }
+  }, [userId, refreshUnreadCount]);
+
+  // Entries may have arrived while the app was in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      const previousState = appState.current;
+      appState.current = nextAppState;
+      if (previousState.match(/inactive|background/) && nextAppState === 'active') {
+        refreshUnreadCount();
+      }
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, [refreshUnreadCount]);
+
+  // Every push has an inbox entry behind it
+  useEffect(() => {
+    const subscription = Notifications.addNotificationReceivedListener(() => {
+      refreshUnreadCount();
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, [refreshUnreadCount]);
+
+  return (
+    <InboxContext.Provider value={{ unreadCount, setUnreadCount, refreshUnreadCount }}>
+      {children}
+    </InboxContext.Provider>
+  );
+}
+
+export function useUnreadCount() {
+  const context = useContext(InboxContext);
+  if (context === undefined) {
+    throw new Error('useUnreadCount must be used within an InboxProvider');
+  }
+  return context;
+}
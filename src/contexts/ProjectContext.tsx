@@ -1,5 +1,6 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { projectsAPI } from '../shared/services/api';
+import { removeOrphanedExportedEvents } from '../shared/services/calendar';
 import { Project } from '../shared/types';
 import { useAuth } from './AuthContext';
 import { logger } from '../shared/utils/logger';
@@ -30,14 +31,23 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     setError(null);
 
     try {
+      // Archived projects aren't part of the list; they're browsed separately from the projects screen
       const response = await projectsAPI.getUserProjects();
       const projectsList = response.data.projects || [];
       setProjects(projectsList);
 
-      // Auto-select first project if none selected
-      if (!selectedProject && projectsList.length > 0) {
+      // Keep the selection only while the user is still in that project (left, removed or archived otherwise)
+      if (selectedProject && !projectsList.some((p: Project) => p.id === selectedProject.id)) {
+        setSelectedProject(projectsList[0] || null);
+      } else if (!selectedProject && projectsList.length > 0) {
+        // Auto-select first project if none selected
         setSelectedProject(projectsList[0]);
       }
+
+      // Device calendar may still hold rehearsals of projects the user left and of archived or deleted projects
+      removeOrphanedExportedEvents().catch(err =>
+        logger.error('Failed to remove calendar events of former projects:', err)
+      );
     } catch (err: any) {
       logger.error('Failed to fetch projects:', err);
       setError(err.message || 'Failed to load projects');
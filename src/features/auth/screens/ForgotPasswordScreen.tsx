@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../../shared/constants/colors';
+import { GlassButton } from '../../../shared/components';
+import { authAPI } from '../../../shared/services/api';
+import { useI18n } from '../../../contexts/I18nContext';
+import { AuthStackParamList } from '../../../navigation';
+import { passwordResetScreenStyles as styles } from '../styles';
+
+type ForgotPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ForgotPassword'>;
+
+export default function ForgotPasswordScreen({ route, navigation }: ForgotPasswordScreenProps) {
+  const [email, setEmail] = useState(route.params?.email ?? '');
+  const [loading, setLoading] = useState(false);
+  // Address the link was sent to; the server answers the same way for unknown addresses
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleSend = async () => {
+    const trimmed = email.trim();
+    if (!trimmed) {
+      Alert.alert(t.common.error, t.auth.fillAllFields);
+      return;
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(trimmed)) {
+      Alert.alert(t.common.error, t.auth.invalidEmail);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await authAPI.requestPasswordReset(trimmed);
+      setSentTo(trimmed);
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.auth.resetPasswordError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.scrollContent}>
+          <View style={styles.header}>
+            <Ionicons name="mail-outline" size={64} color={Colors.accent.purple} style={styles.icon} />
+            <Text style={styles.title}>{t.auth.resetLinkSent}</Text>
+            <Text style={styles.subtitle}>{t.auth.resetLinkSentText(sentTo)}</Text>
+          </View>
+
+          <GlassButton
+            title={t.auth.backToLogin}
+            onPress={() => navigation.navigate('Login')}
+            variant="purple"
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>{t.auth.forgotPasswordTitle}</Text>
+            <Text style={styles.subtitle}>{t.auth.forgotPasswordSubtitle}</Text>
+          </View>
+
+          <View style={styles.form}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{t.auth.email}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t.auth.emailPlaceholder}
+                placeholderTextColor={Colors.text.tertiary}
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <GlassButton
+              title={t.auth.sendResetLink}
+              onPress={handleSend}
+              variant="purple"
+              loading={loading}
+              style={styles.primaryButton}
+            />
+
+            <GlassButton
+              title={t.auth.backToLogin}
+              onPress={() => navigation.goBack()}
+              variant="glass"
+              style={styles.secondaryButton}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Platform,
   ScrollView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Colors } from '../../../shared/constants/colors';
@@ -80,6 +81,12 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
                 secureTextEntry
                 autoCapitalize="none"
               />
+              <TouchableOpacity
+                style={styles.forgotPasswordLink}
+                onPress={() => navigation.navigate('ForgotPassword', { email: email.trim() || undefined })}
+              >
+                <Text style={styles.forgotPasswordText}>{t.auth.forgotPassword}</Text>
+              </TouchableOpacity>
             </View>
 
             {error && (
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../../shared/constants/colors';
+import { GlassButton } from '../../../shared/components';
+import { authAPI } from '../../../shared/services/api';
+import { useI18n } from '../../../contexts/I18nContext';
+import { AuthStackParamList } from '../../../navigation';
+import { passwordResetScreenStyles as styles } from '../styles';
+
+type ResetPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+// Opened from the link in the password reset email
+export default function ResetPasswordScreen({ route, navigation }: ResetPasswordScreenProps) {
+  const { token } = route.params;
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [linkInvalid, setLinkInvalid] = useState(false);
+  const { t } = useI18n();
+
+  const backToLogin = () => navigation.reset({ index: 0, routes: [{ name: 'Login' }] });
+
+  const handleReset = async () => {
+    if (!password || !confirmPassword) {
+      Alert.alert(t.common.error, t.auth.fillAllFields);
+      return;
+    }
+
+    if (password.length < 6) {
+      Alert.alert(t.common.error, t.auth.passwordMinLength);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert(t.common.error, t.auth.passwordsMismatch);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await authAPI.resetPassword(token, password);
+      Alert.alert(t.auth.passwordResetDone, t.auth.passwordResetDoneText, [
+        { text: 'OK', onPress: backToLogin },
+      ]);
+    } catch (err: any) {
+      if (err.response?.status === 400) {
+        // The password was checked above, so the link itself is used up or expired
+        setLinkInvalid(true);
+      } else {
+        Alert.alert(t.common.error, err.response?.data?.error || t.auth.resetPasswordError);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (linkInvalid) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.scrollContent}>
+          <View style={styles.header}>
+            <Ionicons name="alert-circle" size={64} color={Colors.accent.red} style={styles.icon} />
+            <Text style={styles.title}>{t.auth.resetPasswordError}</Text>
+            <Text style={styles.subtitle}>{t.auth.resetLinkInvalid}</Text>
+          </View>
+
+          <GlassButton
+            title={t.auth.requestNewLink}
+            onPress={() => navigation.replace('ForgotPassword')}
+            variant="purple"
+          />
+          <GlassButton
+            title={t.auth.backToLogin}
+            onPress={backToLogin}
+            variant="glass"
+            style={styles.secondaryButton}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>{t.auth.resetPasswordTitle}</Text>
+            <Text style={styles.subtitle}>{t.auth.resetPasswordSubtitle}</Text>
+          </View>
+
+          <View style={styles.form}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{t.auth.newPassword}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t.auth.passwordPlaceholder}
+                placeholderTextColor={Colors.text.tertiary}
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{t.auth.confirmPassword}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t.auth.confirmPasswordPlaceholder}
+                placeholderTextColor={Colors.text.tertiary}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            </View>
+
+            <GlassButton
+              title={t.auth.resetPasswordButton}
+              onPress={handleReset}
+              variant="purple"
+              loading={loading}
+              style={styles.primaryButton}
+            />
+
+            <GlassButton
+              title={t.auth.backToLogin}
+              onPress={backToLogin}
+              variant="glass"
+              style={styles.secondaryButton}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
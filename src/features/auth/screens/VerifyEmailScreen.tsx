@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, SafeAreaView, ActivityIndicator } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../../shared/constants/colors';
+import { GlassButton } from '../../../shared/components';
+import { authAPI } from '../../../shared/services/api';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useI18n } from '../../../contexts/I18nContext';
+import { AuthStackParamList, AppStackParamList } from '../../../navigation';
+import { verifyEmailScreenStyles as styles } from '../styles';
+
+type AuthVerifyEmailProps = NativeStackScreenProps<AuthStackParamList, 'VerifyEmail'>;
+type AppVerifyEmailProps = NativeStackScreenProps<AppStackParamList, 'VerifyEmail'>;
+type VerifyEmailScreenProps = AuthVerifyEmailProps | AppVerifyEmailProps;
+
+/**
+ * Opened from the link in the verification email
+ * Registered in both the auth and the app stack: the link works signed in or not.
+ */
+export default function VerifyEmailScreen({ route, navigation }: VerifyEmailScreenProps) {
+  const { token } = route.params;
+  const { isAuthenticated, refreshUser } = useAuth();
+  const { t } = useI18n();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        setStatus('verifying');
+        await authAPI.verifyEmail(token);
+        setStatus('verified');
+        if (isAuthenticated) {
+          await refreshUser();
+        }
+      } catch (err) {
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleContinue = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else if (isAuthenticated) {
+      // Signed in, the screen is in the app stack
+      (navigation as AppVerifyEmailProps['navigation']).reset({ index: 0, routes: [{ name: 'MainTabs' }] });
+    } else {
+      (navigation as AuthVerifyEmailProps['navigation']).reset({ index: 0, routes: [{ name: 'Login' }] });
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={Colors.accent.purple} />
+          <Text style={styles.text}>{t.auth.verifyingEmail}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const verified = status === 'verified';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.centerContent}>
+        <Ionicons
+          name={verified ? 'checkmark-circle' : 'alert-circle'}
+          size={64}
+          color={verified ? Colors.accent.green : Colors.accent.red}
+        />
+        <Text style={styles.title}>{verified ? t.auth.emailVerified : t.auth.emailVerifyFailed}</Text>
+        <Text style={styles.text}>{verified ? t.auth.emailVerifiedText : t.auth.emailVerifyFailedText}</Text>
+        <GlassButton
+          title={t.auth.continue}
+          onPress={handleContinue}
+          variant="purple"
+          style={styles.button}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
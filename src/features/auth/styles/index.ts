@@ -1,2 +1,4 @@
 export { styles as loginScreenStyles } from './loginScreenStyles';
 export { styles as registerScreenStyles } from './registerScreenStyles';
+export { styles as passwordResetScreenStyles } from './passwordResetScreenStyles';
+export { styles as verifyEmailScreenStyles } from './verifyEmailScreenStyles';
@@ -51,6 +51,14 @@ export const styles = StyleSheet.create({
     color: Colors.text.primary,
     minHeight: 44,
   },
+  forgotPasswordLink: {
+    alignSelf: 'flex-end',
+    marginTop: Spacing.sm,
+  },
+  forgotPasswordText: {
+    fontSize: FontSize.sm,
+    color: Colors.accent.purple,
+  },
   errorContainer: {
     backgroundColor: 'rgba(239, 68, 68, 0.1)',
     borderWidth: 1,
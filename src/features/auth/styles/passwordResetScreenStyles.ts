@@ -0,0 +1,66 @@
+import { StyleSheet } from 'react-native';
+import { Colors, BorderRadius, FontSize, FontWeight, Spacing } from '../../../shared/constants/colors';
+
+// Shared by the forgot password and reset password screens
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.bg.primary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: Spacing.xxl,
+  },
+  icon: {
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.bold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.sm,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: FontSize.md,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  form: {
+    width: '100%',
+  },
+  inputGroup: {
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+    minHeight: 44,
+  },
+  primaryButton: {
+    marginTop: Spacing.lg,
+  },
+  secondaryButton: {
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,200 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { useI18n } from '../../../contexts/I18nContext';
+import { AttendanceStatus } from '../../../shared/types';
+import { useRehearsalAttendance } from '../hooks/useRehearsalAttendance';
+
+interface AttendanceSectionProps {
+  projectId: string;
+  rehearsalId: string;
+  visible: boolean;
+}
+
+const STATUS_COLORS: Record<AttendanceStatus, string> = {
+  present: Colors.accent.green,
+  late: Colors.accent.yellow,
+  absent: Colors.accent.red,
+};
+
+const ATTENDANCE_OPTIONS: AttendanceStatus[] = ['present', 'late', 'absent'];
+
+/**
+ * Admin form for marking invited participants present, late (with minutes) or absent
+ * Shown in the rehearsal details once the rehearsal has started.
+ */
+export const AttendanceSection: React.FC<AttendanceSectionProps> = ({ projectId, rehearsalId, visible }) => {
+  const { t } = useI18n();
+  const {
+    participants,
+    drafts,
+    loading,
+    saving,
+    canSave,
+    setStatus,
+    setLateMinutes,
+    save,
+  } = useRehearsalAttendance(projectId, rehearsalId, visible);
+
+  const statusLabels: Record<AttendanceStatus, string> = {
+    present: t.rehearsals.attendancePresent,
+    late: t.rehearsals.attendanceLate,
+    absent: t.rehearsals.attendanceAbsent,
+  };
+
+  const handleSave = async () => {
+    if (!canSave) {
+      Alert.alert(t.common.error, t.rehearsals.attendanceLateMinutesRequired);
+      return;
+    }
+
+    try {
+      await save();
+      Alert.alert(t.rehearsals.attendanceSaved);
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.rehearsals.attendanceSaveError);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="small" color={Colors.accent.purple} />
+      </View>
+    );
+  }
+
+  if (participants.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {participants.map(participant => {
+        const draft = drafts[participant.userId];
+        return (
+          <View key={participant.userId} style={styles.participantItem}>
+            <Text style={styles.participantName}>
+              {participant.firstName}{participant.lastName ? ` ${participant.lastName}` : ''}
+            </Text>
+            <View style={styles.chipRow}>
+              {ATTENDANCE_OPTIONS.map(status => {
+                const selected = draft?.status === status;
+                return (
+                  <TouchableOpacity
+                    key={status}
+                    style={[
+                      styles.chip,
+                      selected && { borderColor: STATUS_COLORS[status] },
+                    ]}
+                    onPress={() => setStatus(participant.userId, status)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.chipText, selected && { color: STATUS_COLORS[status], fontWeight: FontWeight.semibold }]}>
+                      {statusLabels[status]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              {draft?.status === 'late' && (
+                <TextInput
+                  style={styles.minutesInput}
+                  value={draft.lateMinutes ? String(draft.lateMinutes) : ''}
+                  onChangeText={text => {
+                    const minutes = parseInt(text.replace(/\D/g, ''), 10);
+                    setLateMinutes(participant.userId, isNaN(minutes) ? null : minutes);
+                  }}
+                  placeholder={t.rehearsals.attendanceLateMinutesPlaceholder}
+                  placeholderTextColor={Colors.text.tertiary}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                />
+              )}
+            </View>
+          </View>
+        );
+      })}
+
+      <TouchableOpacity
+        style={[styles.saveButton, (saving || !canSave) && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color={Colors.text.inverse} />
+        ) : (
+          <Text style={styles.saveButtonText}>{t.rehearsals.attendanceSave}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  loadingContainer: {
+    padding: Spacing.lg,
+    alignItems: 'center',
+  },
+  participantItem: {
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  participantName: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  minutesInput: {
+    width: 64,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    fontSize: FontSize.sm,
+    color: Colors.text.primary,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.accent.yellow,
+    textAlign: 'center',
+  },
+  saveButton: {
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    backgroundColor: Colors.accent.purple,
+    borderRadius: BorderRadius.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
+});
@@ -146,6 +146,18 @@ export default function DayDetailsModal({
                                 <Ionicons name="heart" size={14} color={Colors.accent.red} />
                                 <Text style={styles.statText}>{statsMap[rehearsal.id].confirmed}</Text>
                               </View>
+                              {statsMap[rehearsal.id].maybe > 0 && (
+                                <View style={styles.statItem}>
+                                  <Ionicons name="help-circle" size={14} color={Colors.accent.yellow} />
+                                  <Text style={styles.statText}>{statsMap[rehearsal.id].maybe}</Text>
+                                </View>
+                              )}
+                              {statsMap[rehearsal.id].overdue > 0 && (
+                                <View style={styles.statItem}>
+                                  <Ionicons name="alert-circle" size={14} color={Colors.accent.red} />
+                                  <Text style={styles.statText}>{statsMap[rehearsal.id].overdue}</Text>
+                                </View>
+                              )}
                               <View style={styles.statItem}>
                                 <Ionicons name="help-circle" size={14} color={Colors.text.tertiary} />
                                 <Text style={styles.statText}>{statsMap[rehearsal.id].invited}</Text>
@@ -10,14 +10,17 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
-import { Rehearsal } from '../../../shared/types';
+import { Rehearsal, RSVPStatus } from '../../../shared/types';
 import { isRehearsalSynced } from '../../../shared/utils/calendarStorage';
+import { hasAnswered, isRsvpOverdue } from '../../../shared/utils/respondBy';
+import { isoToDateString, isoToTimeString } from '../../../shared/utils/time';
 import { useI18n } from '../../../contexts/I18nContext';
 
 interface MyRehearsalsModalProps {
   visible: boolean;
   onClose: () => void;
   rehearsals: Rehearsal[];
+  rsvpResponses?: Record<string, RSVPStatus>;
   onSelectDate?: (date: string) => void;
 }
 
@@ -25,6 +28,7 @@ export default function MyRehearsalsModal({
   visible,
   onClose,
   rehearsals,
+  rsvpResponses = {},
   onSelectDate,
 }: MyRehearsalsModalProps) {
   const { t, language } = useI18n();
@@ -184,6 +188,29 @@ export default function MyRehearsalsModal({
                               </Text>
                             </View>
                           )}
+
+                          {rehearsal.respondBy && !hasAnswered(rsvpResponses[rehearsal.id]) && (() => {
+                            const isOverdue = isRsvpOverdue(rehearsal.respondBy, rsvpResponses[rehearsal.id]);
+                            return (
+                              <View style={styles.deadlineContainer}>
+                                <Ionicons
+                                  name={isOverdue ? 'alert-circle' : 'hourglass-outline'}
+                                  size={12}
+                                  color={isOverdue ? Colors.accent.red : Colors.accent.yellow}
+                                />
+                                <Text style={[styles.deadlineText, isOverdue && styles.deadlineTextOverdue]} numberOfLines={1}>
+                                  {isOverdue
+                                    ? t.rehearsals.respondByOverdue
+                                    : t.rehearsals.respondByAt(
+                                        t.rehearsals.conflictDateTime(
+                                          isoToDateString(rehearsal.respondBy),
+                                          isoToTimeString(rehearsal.respondBy)
+                                        )
+                                      )}
+                                </Text>
+                              </View>
+                            );
+                          })()}
                         </View>
 
                         <Ionicons name="chevron-forward" size={16} color={Colors.text.tertiary} />
@@ -333,4 +360,19 @@ const styles = StyleSheet.create({
     color: Colors.text.tertiary,
     flex: 1,
   },
+  deadlineContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  deadlineText: {
+    fontSize: FontSize.xs,
+    color: Colors.accent.yellow,
+    flex: 1,
+  },
+  deadlineTextOverdue: {
+    color: Colors.accent.red,
+    fontWeight: FontWeight.semibold,
+  },
 });
@@ -10,6 +10,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
 import { useI18n } from '../../../contexts/I18nContext';
+import { RSVPStatus } from '../../../shared/types';
 
 interface Participant {
   userId: string;
@@ -18,6 +19,8 @@ interface Participant {
   email: string;
   hasLiked: boolean;
   hasResponded: boolean;
+  response?: RSVPStatus;
+  reason?: string | null; // Optional reason of a 'maybe' answer
 }
 
 interface ParticipantsModalProps {
@@ -26,6 +29,7 @@ interface ParticipantsModalProps {
   participants: Participant[];
   totalCount: number;
   likedCount: number;
+  maybeCount?: number;
 }
 
 export const ParticipantsModal: React.FC<ParticipantsModalProps> = ({
@@ -34,6 +38,7 @@ export const ParticipantsModal: React.FC<ParticipantsModalProps> = ({
   participants,
   totalCount,
   likedCount,
+  maybeCount = 0,
 }) => {
   const { t } = useI18n();
 
@@ -44,7 +49,11 @@ export const ParticipantsModal: React.FC<ParticipantsModalProps> = ({
     let iconName: any;
     let iconColor: string;
 
-    if (!item.hasResponded) {
+    if (item.response === 'maybe') {
+      // Undecided - show filled question mark
+      iconName = 'help-circle';
+      iconColor = Colors.accent.yellow;
+    } else if (!item.hasResponded) {
       // No response yet - show help icon
       iconName = 'help-circle-outline';
       iconColor = Colors.text.tertiary;
@@ -63,6 +72,9 @@ export const ParticipantsModal: React.FC<ParticipantsModalProps> = ({
         <View style={styles.participantInfo}>
           <Text style={styles.participantName}>{displayName}</Text>
           <Text style={styles.participantEmail}>{item.email}</Text>
+          {item.response === 'maybe' && item.reason ? (
+            <Text style={styles.participantReason}>{item.reason}</Text>
+          ) : null}
         </View>
         <Ionicons
           name={iconName}
@@ -107,6 +119,12 @@ export const ParticipantsModal: React.FC<ParticipantsModalProps> = ({
                 {likedCount}/{totalCount}
               </Text>
             </View>
+            {maybeCount > 0 && (
+              <View style={styles.statItem}>
+                <Ionicons name="help-circle" size={16} color={Colors.accent.yellow} />
+                <Text style={styles.statText}>{maybeCount}</Text>
+              </View>
+            )}
           </View>
 
           {/* Participants List */}
@@ -210,4 +228,10 @@ const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     color: Colors.text.secondary,
   },
+  participantReason: {
+    fontSize: FontSize.sm,
+    fontStyle: 'italic',
+    color: Colors.accent.yellow,
+    marginTop: Spacing.xs,
+  },
 });
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { RecurrenceFrequency, RecurrenceRule } from '../../../shared/types';
+import { PickerModal } from '../../../shared/components/PickerModal';
+import { useI18n } from '../../../contexts/I18nContext';
+import { formatDate, formatDisplayDate } from '../utils/rehearsalFormatters';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date;
+}
+
+const DEFAULT_OCCURRENCES = 8;
+
+// Monday-first display order, values follow Date.getDay() (0 = Sunday)
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  value,
+  onChange,
+  startDate,
+}) => {
+  const { t, language } = useI18n();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const frequencyOptions: Array<{ key: RecurrenceFrequency | 'none'; label: string }> = [
+    { key: 'none', label: t.rehearsals.repeatNone },
+    { key: 'weekly', label: t.rehearsals.repeatWeekly },
+    { key: 'biweekly', label: t.rehearsals.repeatBiweekly },
+    { key: 'custom', label: t.rehearsals.repeatCustom },
+  ];
+
+  const weekdayLabels: Record<number, string> = {
+    0: t.days.short.sunday,
+    1: t.days.short.monday,
+    2: t.days.short.tuesday,
+    3: t.days.short.wednesday,
+    4: t.days.short.thursday,
+    5: t.days.short.friday,
+    6: t.days.short.saturday,
+  };
+
+  const defaultUntilDate = () => {
+    const until = new Date(startDate);
+    until.setMonth(until.getMonth() + 2);
+    return until;
+  };
+
+  const untilDate = value?.until ? new Date(value.until + 'T00:00:00') : defaultUntilDate();
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      frequency,
+      weekdays: frequency === 'custom' ? (value?.weekdays?.length ? value.weekdays : [startDate.getDay()]) : undefined,
+      until: value?.until,
+      count: value?.until ? undefined : (value?.count ?? DEFAULT_OCCURRENCES),
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.weekdays || [];
+    const weekdays = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort();
+    onChange({ ...value, weekdays });
+  };
+
+  const handleEndModeChange = (mode: 'date' | 'count') => {
+    if (!value) return;
+    if (mode === 'date') {
+      onChange({ ...value, count: undefined, until: formatDate(untilDate) });
+    } else {
+      onChange({ ...value, until: undefined, count: value.count ?? DEFAULT_OCCURRENCES });
+    }
+  };
+
+  const handleCountChange = (text: string) => {
+    if (!value) return;
+    const count = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    onChange({ ...value, count: isNaN(count) ? 0 : count });
+  };
+
+  const handleUntilChange = (event: any, selectedDate?: Date) => {
+    if (selectedDate && value) {
+      onChange({ ...value, until: formatDate(selectedDate) });
+    }
+  };
+
+  const selectedFrequency = value?.frequency || 'none';
+  const endMode = value?.until ? 'date' : 'count';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {frequencyOptions.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, selectedFrequency === option.key && styles.chipSelected]}
+            onPress={() => handleFrequencyChange(option.key)}
+          >
+            <Text style={[styles.chipText, selectedFrequency === option.key && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value?.frequency === 'custom' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>{t.rehearsals.repeatOn}</Text>
+          <View style={styles.weekdayRow}>
+            {WEEKDAY_ORDER.map(day => {
+              const selected = value.weekdays?.includes(day);
+              return (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.weekday, selected && styles.chipSelected]}
+                  onPress={() => toggleWeekday(day)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {weekdayLabels[day]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {value && (
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>{t.rehearsals.repeatEnds}</Text>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, endMode === 'count' && styles.chipSelected]}
+              onPress={() => handleEndModeChange('count')}
+            >
+              <Text style={[styles.chipText, endMode === 'count' && styles.chipTextSelected]}>
+                {t.rehearsals.repeatEndsAfter}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, endMode === 'date' && styles.chipSelected]}
+              onPress={() => handleEndModeChange('date')}
+            >
+              <Text style={[styles.chipText, endMode === 'date' && styles.chipTextSelected]}>
+                {t.rehearsals.repeatEndsOnDate}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {endMode === 'count' ? (
+            <View style={styles.countRow}>
+              <TextInput
+                style={styles.countInput}
+                value={value.count ? String(value.count) : ''}
+                onChangeText={handleCountChange}
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+              <Text style={styles.countLabel}>{t.rehearsals.repeatOccurrences}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.untilButton} onPress={() => setShowUntilPicker(true)}>
+              <Ionicons name="calendar-outline" size={20} color={Colors.accent.purple} />
+              <Text style={styles.untilText}>{formatDisplayDate(untilDate, language)}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <PickerModal
+        visible={showUntilPicker}
+        onClose={() => setShowUntilPicker(false)}
+        value={untilDate}
+        onChange={handleUntilChange}
+        mode="date"
+        title={t.rehearsals.selectEndDate}
+        language={language === 'ru' ? 'ru-RU' : 'en-US'}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+    borderColor: Colors.accent.purple,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: Colors.accent.purple,
+    fontWeight: FontWeight.semibold,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionLabel: {
+    fontSize: FontSize.sm,
+    color: Colors.text.tertiary,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekday: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  countInput: {
+    width: 64,
+    padding: Spacing.md,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+    textAlign: 'center',
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+  },
+  countLabel: {
+    fontSize: FontSize.base,
+    color: Colors.text.secondary,
+  },
+  untilButton: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  untilText: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+});
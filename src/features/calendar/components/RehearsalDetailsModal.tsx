@@ -9,6 +9,7 @@ import {
   ScrollView,
   Pressable,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
@@ -18,6 +19,8 @@ import { useAuth } from '../../../contexts/AuthContext';
 import { Rehearsal, RSVPStatus, Project } from '../../../shared/types';
 import { rehearsalsAPI } from '../../../shared/services/api';
 import { formatDateLocalized } from '../../../shared/utils/time';
+import { hasProjectPermission } from '../../../shared/utils/permissions';
+import { AttendanceSection } from './AttendanceSection';
 
 interface Participant {
   userId: string;
@@ -26,10 +29,13 @@ interface Participant {
   email: string;
   hasLiked: boolean;
   hasResponded: boolean;
+  response: RSVPStatus;
+  reason?: string | null; // Optional reason of a 'maybe' answer
 }
 
 interface AdminStats {
   confirmed: number;
+  maybe?: number;
   invited: number;
 }
 
@@ -46,6 +52,12 @@ interface RehearsalDetailsModalProps {
     onSuccess: (rehearsalId: string, status: RSVPStatus, stats?: AdminStats) => void
   ) => Promise<void>;
   onRSVPSuccess?: (rehearsalId: string, status: RSVPStatus, stats?: AdminStats) => void;
+  onMaybe?: (
+    rehearsalId: string,
+    currentStatus: RSVPStatus | null,
+    reason: string,
+    onSuccess: (rehearsalId: string, status: RSVPStatus, stats?: AdminStats) => void
+  ) => Promise<void>;
 }
 
 export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
@@ -57,6 +69,7 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
   currentResponse,
   onRSVP,
   onRSVPSuccess,
+  onMaybe,
 }) => {
   const { t, language } = useI18n();
   const { user } = useAuth();
@@ -66,6 +79,8 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
   const [responding, setResponding] = useState(false);
   const [respondingUserId, setRespondingUserId] = useState<string | null>(null);
   const [localResponse, setLocalResponse] = useState<RSVPStatus | null>(currentResponse);
+  const [maybeEditing, setMaybeEditing] = useState(false);
+  const [maybeReason, setMaybeReason] = useState('');
 
   // Load participants
   useEffect(() => {
@@ -88,15 +103,19 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
             lastName: p.lastName,
             email: p.email,
             hasLiked: p.response === 'yes',
-            hasResponded: p.response === 'yes', // 'no' means invited but not responded (same UI as not responded)
+            // 'no' means invited but not responded (same UI as not responded)
+            hasResponded: p.response === 'yes' || p.response === 'maybe',
+            response: p.response ?? null,
+            reason: p.response === 'maybe' ? p.notes : null,
           }));
           console.log('[RehearsalDetailsModal] Participants list:', participantsList);
           setParticipants(participantsList);
 
           // Calculate stats
           const confirmed = participantsList.filter((p: Participant) => p.hasLiked).length;
+          const maybe = participantsList.filter((p: Participant) => p.response === 'maybe').length;
           const invited = participantsList.length;
-          setStats({ confirmed, invited });
+          setStats({ confirmed, maybe, invited });
         } else {
           console.log('[RehearsalDetailsModal] No allParticipants in response');
         }
@@ -115,6 +134,11 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
     setLocalResponse(currentResponse);
   }, [currentResponse]);
 
+  // Close the reason form when another rehearsal is opened
+  useEffect(() => {
+    setMaybeEditing(false);
+  }, [visible, rehearsal]);
+
   if (!rehearsal) return null;
 
   const handleParticipantToggle = async (participant: Participant) => {
@@ -130,9 +154,10 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
       // Update participant list
       setParticipants(prev => prev.map(p =>
         p.userId === participant.userId
-          ? { ...p, hasLiked: status === 'yes', hasResponded: true }
+          ? { ...p, hasLiked: status === 'yes', hasResponded: true, response: status, reason: null }
           : p
       ));
+      setLocalResponse(status);
 
       if (serverStats) {
         setStats(serverStats);
@@ -147,6 +172,47 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
     setRespondingUserId(null);
   };
 
+  const currentParticipant = user
+    ? participants.find(p => p.userId === user.id.toString())
+    : undefined;
+
+  const handleMaybeOpen = () => {
+    setMaybeReason(currentParticipant?.reason || '');
+    setMaybeEditing(true);
+  };
+
+  const handleMaybeSubmit = async () => {
+    if (!onMaybe || !currentParticipant) return;
+
+    const previous = currentParticipant;
+    const reason = maybeReason.trim();
+    setMaybeEditing(false);
+    setRespondingUserId(previous.userId);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    await onMaybe(rehearsal.id, previous.response, reason, (id, status, serverStats) => {
+      // status is the previous one again when the request failed
+      setParticipants(prev => prev.map(p =>
+        p.userId === previous.userId
+          ? status === 'maybe'
+            ? { ...p, hasLiked: false, hasResponded: true, response: 'maybe', reason: reason || null }
+            : previous
+          : p
+      ));
+      setLocalResponse(status);
+
+      if (serverStats) {
+        setStats(serverStats);
+      }
+
+      if (onRSVPSuccess) {
+        onRSVPSuccess(id, status, serverStats);
+      }
+    });
+
+    setRespondingUserId(null);
+  };
+
   const renderParticipant = ({ item }: { item: Participant }) => {
     const displayName = `${item.firstName}${item.lastName ? ' ' + item.lastName : ''}`;
     const isCurrentUser = user && item.userId === user.id.toString();
@@ -155,7 +221,10 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
     let iconName: any;
     let iconColor: string;
 
-    if (!item.hasResponded) {
+    if (item.response === 'maybe') {
+      iconName = 'help-circle';
+      iconColor = Colors.accent.yellow;
+    } else if (!item.hasResponded) {
       iconName = 'help-circle-outline';
       iconColor = Colors.text.tertiary;
     } else if (item.hasLiked) {
@@ -171,6 +240,9 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
         <View style={styles.participantInfo}>
           <Text style={styles.participantName}>{displayName}</Text>
           <Text style={styles.participantEmail}>{item.email}</Text>
+          {item.response === 'maybe' && item.reason ? (
+            <Text style={styles.participantReason}>{item.reason}</Text>
+          ) : null}
         </View>
         {isThisParticipantResponding ? (
           <ActivityIndicator size="small" color={Colors.accent.purple} />
@@ -195,6 +267,10 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
     return <View key={item.userId}>{content}</View>;
   };
 
+  // Attendance can be marked once the rehearsal has started
+  const attendanceProjectId = rehearsal.projectId || project?.id;
+  const canMarkAttendance = hasProjectPermission(project, 'track_attendance') && !!attendanceProjectId && Date.parse(rehearsal.startsAt) <= Date.now();
+
   // Format date
   const locale = language === 'ru' ? 'ru-RU' : 'en-US';
   const formattedDate = rehearsal.date
@@ -255,6 +331,51 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
               </View>
             )}
 
+            {/* Own "maybe" answer with an optional reason */}
+            {currentParticipant && onMaybe && (
+              <>
+                <View style={styles.divider} />
+                <Text style={styles.participantsTitle}>{t.rehearsals.yourResponse}</Text>
+                {maybeEditing ? (
+                  <View style={styles.maybeForm}>
+                    <TextInput
+                      style={styles.reasonInput}
+                      value={maybeReason}
+                      onChangeText={setMaybeReason}
+                      placeholder={t.rehearsals.rsvpMaybeReasonPlaceholder}
+                      placeholderTextColor={Colors.text.tertiary}
+                      maxLength={500}
+                      multiline
+                      autoFocus
+                    />
+                    <View style={styles.maybeActions}>
+                      <TouchableOpacity style={styles.maybeCancelButton} onPress={() => setMaybeEditing(false)}>
+                        <Text style={styles.maybeCancelText}>{t.common.cancel}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.maybeSubmitButton} onPress={handleMaybeSubmit}>
+                        <Text style={styles.maybeSubmitText}>{t.rehearsals.rsvpMaybeSave}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={[styles.maybeButton, localResponse === 'maybe' && styles.maybeButtonActive]}
+                    onPress={handleMaybeOpen}
+                    disabled={respondingUserId !== null}
+                  >
+                    <Ionicons
+                      name={localResponse === 'maybe' ? 'help-circle' : 'help-circle-outline'}
+                      size={20}
+                      color={Colors.accent.yellow}
+                    />
+                    <Text style={styles.maybeButtonText}>
+                      {localResponse === 'maybe' ? t.rehearsals.rsvpMaybeSelected : t.rehearsals.rsvpMaybe}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+
             {/* Participants Section */}
             <View style={styles.divider} />
 
@@ -269,6 +390,12 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
                   <Text style={styles.statText}>
                     {stats.confirmed}/{stats.invited}
                   </Text>
+                  {!!stats.maybe && (
+                    <>
+                      <Ionicons name="help-circle" size={16} color={Colors.accent.yellow} />
+                      <Text style={styles.statText}>{stats.maybe}</Text>
+                    </>
+                  )}
                 </View>
               )}
             </View>
@@ -292,6 +419,19 @@ export const RehearsalDetailsModal: React.FC<RehearsalDetailsModalProps> = ({
                 ))}
               </View>
             )}
+
+            {/* Attendance (admin only, after the start) */}
+            {canMarkAttendance && attendanceProjectId && (
+              <>
+                <View style={styles.divider} />
+                <Text style={[styles.participantsTitle, styles.attendanceTitle]}>{t.rehearsals.attendance}</Text>
+                <AttendanceSection
+                  projectId={attendanceProjectId}
+                  rehearsalId={rehearsal.id}
+                  visible={visible}
+                />
+              </>
+            )}
           </ScrollView>
         </View>
       </View>
@@ -372,6 +512,9 @@ const styles = StyleSheet.create({
     fontWeight: FontWeight.semibold,
     color: Colors.text.primary,
   },
+  attendanceTitle: {
+    marginBottom: Spacing.md,
+  },
   statBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -415,6 +558,70 @@ const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     color: Colors.text.secondary,
   },
+  participantReason: {
+    fontSize: FontSize.sm,
+    fontStyle: 'italic',
+    color: Colors.accent.yellow,
+    marginTop: Spacing.xs,
+  },
+  maybeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  maybeButtonActive: {
+    borderColor: Colors.accent.yellow,
+  },
+  maybeButtonText: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  maybeForm: {
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  reasonInput: {
+    minHeight: 64,
+    padding: Spacing.md,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    textAlignVertical: 'top',
+  },
+  maybeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
+  maybeCancelButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  maybeCancelText: {
+    fontSize: FontSize.base,
+    color: Colors.text.secondary,
+  },
+  maybeSubmitButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    backgroundColor: Colors.accent.purple,
+    borderRadius: BorderRadius.md,
+  },
+  maybeSubmitText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
   loadingContainer: {
     padding: Spacing.xl,
     alignItems: 'center',
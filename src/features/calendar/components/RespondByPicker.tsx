@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { useI18n } from '../../../contexts/I18nContext';
+import { RESPOND_BY_LEAD_HOURS, respondByFromLeadHours } from '../../../shared/utils/respondBy';
+import { isoToDateString, isoToTimeString } from '../../../shared/utils/time';
+
+interface RespondByPickerProps {
+  value: number | null; // Hours before the rehearsal starts, null = no deadline
+  onChange: (leadHours: number | null) => void;
+  startsAt: string; // Rehearsal start (ISO 8601), to show the resulting deadline
+}
+
+/**
+ * Optional deadline for participants to answer, chosen relative to the rehearsal start
+ */
+export const RespondByPicker: React.FC<RespondByPickerProps> = ({ value, onChange, startsAt }) => {
+  const { t } = useI18n();
+
+  // Keep a deadline loaded from an existing rehearsal selectable even if it isn't a preset
+  const options = value !== null && !RESPOND_BY_LEAD_HOURS.includes(value)
+    ? [...RESPOND_BY_LEAD_HOURS, value].sort((a, b) => a - b)
+    : RESPOND_BY_LEAD_HOURS;
+
+  const respondBy = respondByFromLeadHours(startsAt, value);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        <TouchableOpacity
+          style={[styles.chip, value === null && styles.chipSelected]}
+          onPress={() => onChange(null)}
+        >
+          <Text style={[styles.chipText, value === null && styles.chipTextSelected]}>
+            {t.rehearsals.respondByNone}
+          </Text>
+        </TouchableOpacity>
+        {options.map(hours => (
+          <TouchableOpacity
+            key={hours}
+            style={[styles.chip, value === hours && styles.chipSelected]}
+            onPress={() => onChange(hours)}
+          >
+            <Text style={[styles.chipText, value === hours && styles.chipTextSelected]}>
+              {t.rehearsals.respondByLead(hours)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {respondBy && (
+        <Text style={styles.hint}>
+          {t.rehearsals.respondByAt(
+            t.rehearsals.conflictDateTime(isoToDateString(respondBy), isoToTimeString(respondBy))
+          )}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+    borderColor: Colors.accent.purple,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: Colors.accent.purple,
+    fontWeight: FontWeight.semibold,
+  },
+  hint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.tertiary,
+  },
+});
@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
 import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
-import { ProjectMember } from '../../../shared/types';
+import { ProjectMember, WorkingHours } from '../../../shared/types';
 import { useTimeRecommendations, TimeSlot } from '../hooks/useTimeRecommendations';
 import { TimeRange } from '../../../shared/utils/availability';
 
@@ -11,6 +11,7 @@ interface TimeRecommendationsProps {
   memberAvailability: Record<string, { timeRanges: TimeRange[] }>;
   onTimeSelect: (startTime: string, endTime: string) => void;
   loading?: boolean;
+  workingHours?: WorkingHours | null;
 }
 
 export const TimeRecommendations: React.FC<TimeRecommendationsProps> = ({
@@ -19,11 +20,13 @@ export const TimeRecommendations: React.FC<TimeRecommendationsProps> = ({
   memberAvailability,
   onTimeSelect,
   loading = false,
+  workingHours,
 }) => {
   const recommendations = useTimeRecommendations(
     selectedDate,
     selectedMembers,
-    memberAvailability
+    memberAvailability,
+    workingHours
   );
 
   const formatRecommendation = (rec: TimeSlot) => {
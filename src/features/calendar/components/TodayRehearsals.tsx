@@ -7,7 +7,9 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { CalendarStackParamList } from '../../../navigation';
 import { Colors } from '../../../shared/constants/colors';
 import { Rehearsal, RSVPStatus, Project } from '../../../shared/types';
-import { formatDateLocalized, formatDateToString } from '../../../shared/utils/time';
+import { formatDateLocalized, formatDateToString, isoToDateString, isoToTimeString } from '../../../shared/utils/time';
+import { hasAnswered, isRsvpOverdue } from '../../../shared/utils/respondBy';
+import { canScheduleIn } from '../../../shared/utils/permissions';
 import { calendarScreenStyles as styles } from '../styles';
 import { useI18n } from '../../../contexts/I18nContext';
 import { isRehearsalSynced } from '../../../shared/utils/calendarStorage';
@@ -15,7 +17,9 @@ import { RehearsalDetailsModal } from './RehearsalDetailsModal';
 
 interface AdminStats {
   confirmed: number;
+  maybe?: number;
   invited: number;
+  overdue?: number;
 }
 
 interface TodayRehearsalsProps {
@@ -31,6 +35,12 @@ interface TodayRehearsalsProps {
     currentStatus: RSVPStatus | null,
     onSuccess: (rehearsalId: string, status: RSVPStatus, stats?: AdminStats) => void
   ) => Promise<void>;
+  onMaybe?: (
+    rehearsalId: string,
+    currentStatus: RSVPStatus | null,
+    reason: string,
+    onSuccess: (rehearsalId: string, status: RSVPStatus, stats?: AdminStats) => void
+  ) => Promise<void>;
   onDeleteRehearsal: (rehearsalId: string) => void;
   setRsvpResponses: React.Dispatch<React.SetStateAction<Record<string, RSVPStatus>>>;
   setAdminStats: React.Dispatch<React.SetStateAction<Record<string, AdminStats>>>;
@@ -45,6 +55,7 @@ export default function TodayRehearsals({
   respondingId,
   adminStats,
   onRSVP,
+  onMaybe,
   onDeleteRehearsal,
   setRsvpResponses,
   setAdminStats,
@@ -114,8 +125,10 @@ export default function TodayRehearsals({
           const currentResponse = rsvpResponses[rehearsal.id];
           const isResponding = respondingId === rehearsal.id;
           const project = projects.find(p => p.id === rehearsal.projectId);
-          const isAdminForThisRehearsal = project?.is_admin || false;
+          const isAdminForThisRehearsal = canScheduleIn(project);
           const stats = adminStats[rehearsal.id];
+          const isOverdue = isRsvpOverdue(rehearsal.respondBy, currentResponse);
+          const awaitsAnswer = !!rehearsal.respondBy && !hasAnswered(currentResponse);
 
           return (
             <View key={rehearsal.id} style={styles.upcomingCard}>
@@ -158,6 +171,40 @@ export default function TodayRehearsals({
                         </Text>
                       </View>
                     )}
+
+                    {/* Respond-by deadline while the user hasn't answered */}
+                    {awaitsAnswer && rehearsal.respondBy && (
+                      <View style={styles.upcomingDeadlineRow}>
+                        <Ionicons
+                          name={isOverdue ? 'alert-circle' : 'hourglass-outline'}
+                          size={14}
+                          color={isOverdue ? Colors.accent.red : Colors.accent.yellow}
+                        />
+                        <Text
+                          style={[styles.upcomingDeadline, isOverdue && styles.upcomingDeadlineOverdue]}
+                          numberOfLines={1}
+                        >
+                          {isOverdue
+                            ? t.rehearsals.respondByOverdue
+                            : t.rehearsals.respondByAt(
+                                t.rehearsals.conflictDateTime(
+                                  isoToDateString(rehearsal.respondBy),
+                                  isoToTimeString(rehearsal.respondBy)
+                                )
+                              )}
+                        </Text>
+                      </View>
+                    )}
+
+                    {/* Participants who missed the deadline (admins) */}
+                    {isAdminForThisRehearsal && !!stats?.overdue && (
+                      <View style={styles.upcomingDeadlineRow}>
+                        <Ionicons name="people-outline" size={14} color={Colors.accent.red} />
+                        <Text style={[styles.upcomingDeadline, styles.upcomingDeadlineOverdue]} numberOfLines={1}>
+                          {t.rehearsals.overdueMembers(stats.overdue)}
+                        </Text>
+                      </View>
+                    )}
                   </View>
 
                   {isAdminForThisRehearsal && (
@@ -215,9 +262,13 @@ export default function TodayRehearsals({
                   disabled={isResponding}
                 >
                   <Ionicons
-                    name={currentResponse === 'yes' ? 'heart' : 'heart-outline'}
+                    name={currentResponse === 'yes' ? 'heart' : currentResponse === 'maybe' ? 'help-circle' : 'heart-outline'}
                     size={24}
-                    color={currentResponse === 'yes' ? Colors.accent.red : Colors.text.secondary}
+                    color={
+                      currentResponse === 'yes'
+                        ? Colors.accent.red
+                        : currentResponse === 'maybe' ? Colors.accent.yellow : Colors.text.secondary
+                    }
                   />
                   {stats && (stats.confirmed > 0 || isAdminForThisRehearsal) && (() => {
                     const displayText = isAdminForThisRehearsal && stats.invited > 0
@@ -244,13 +295,14 @@ export default function TodayRehearsals({
         onClose={() => setDetailsModalVisible(false)}
         rehearsal={selectedRehearsal}
         project={selectedRehearsal ? projects.find(p => p.id === selectedRehearsal.projectId) || null : null}
-        isAdmin={selectedRehearsal ? projects.find(p => p.id === selectedRehearsal.projectId)?.is_admin || false : false}
+        isAdmin={selectedRehearsal ? canScheduleIn(projects.find(p => p.id === selectedRehearsal.projectId)) : false}
         currentResponse={selectedRehearsal ? rsvpResponses[selectedRehearsal.id] : null}
         onRSVP={onRSVP}
+        onMaybe={onMaybe}
         onRSVPSuccess={(id, status, serverStats) => {
           setRsvpResponses(prev => ({ ...prev, [id]: status }));
           if (serverStats && selectedRehearsal) {
-            const isAdminForThisRehearsal = projects.find(p => p.id === selectedRehearsal.projectId)?.is_admin || false;
+            const isAdminForThisRehearsal = canScheduleIn(projects.find(p => p.id === selectedRehearsal.projectId));
             if (isAdminForThisRehearsal) {
               setAdminStats(prev => ({ ...prev, [id]: serverStats }));
             }
@@ -9,7 +9,7 @@ import { useAddRehearsalSubmit } from '../useAddRehearsalSubmit';
 import { rehearsalsAPI } from '../../../../shared/services/api';
 import { checkSchedulingConflicts } from '../../../../shared/utils/conflictDetection';
 import { getSyncSettings } from '../../../../shared/utils/calendarStorage';
-import { syncRehearsalToCalendar } from '../../../../shared/services/calendar';
+import { syncRehearsalToCalendar, syncAllRehearsals } from '../../../../shared/services/calendar';
 import { Project, ProjectMember } from '../../../../shared/types';
 
 // Mock dependencies
@@ -55,6 +55,13 @@ describe('useAddRehearsalSubmit Hook', () => {
       scheduleConflict: 'Schedule Conflict',
       scheduleConflictMessage: 'Continue anyway?',
       createAnyway: 'Create Anyway',
+      repeatWeekdaysError: 'Select at least one weekday',
+      repeatCountError: 'Invalid number of occurrences',
+      seriesCreated: (count: number) => `${count} rehearsals created`,
+      seriesEditTitle: 'Edit recurring rehearsal',
+      scopeOccurrence: 'This rehearsal',
+      scopeFollowing: 'This and following',
+      scopeSeries: 'All rehearsals in series',
     },
   };
 
@@ -273,6 +280,43 @@ describe('useAddRehearsalSubmit Hook', () => {
       );
     });
 
+    it('should send the respond-by deadline relative to the start', async () => {
+      (rehearsalsAPI.create as jest.Mock).mockResolvedValue({
+        data: { rehearsal: { id: 'r1' } },
+      });
+
+      const { result } = renderHook(() =>
+        useAddRehearsalSubmit({
+          ...defaultProps,
+          respondByLeadHours: 48,
+        })
+      );
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      const payload = (rehearsalsAPI.create as jest.Mock).mock.calls[0][1];
+      expect(Date.parse(payload.startsAt) - Date.parse(payload.respondBy)).toBe(48 * 60 * 60 * 1000);
+    });
+
+    it('should send a null respond-by deadline when none is chosen', async () => {
+      (rehearsalsAPI.create as jest.Mock).mockResolvedValue({
+        data: { rehearsal: { id: 'r1' } },
+      });
+
+      const { result } = renderHook(() => useAddRehearsalSubmit(defaultProps));
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      expect(rehearsalsAPI.create).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({ respondBy: null })
+      );
+    });
+
     it('should set loading state during creation', async () => {
       let resolveCreate: any;
       (rehearsalsAPI.create as jest.Mock).mockReturnValue(
@@ -540,4 +584,121 @@ describe('useAddRehearsalSubmit Hook', () => {
       );
     });
   });
+
+  describe('Recurring Series', () => {
+    const seriesRehearsals = [
+      { id: 'r1', startsAt: '2025-12-29T14:00:00.000Z', endsAt: '2025-12-29T16:00:00.000Z', seriesId: 's1' },
+      { id: 'r2', startsAt: '2026-01-05T14:00:00.000Z', endsAt: '2026-01-05T16:00:00.000Z', seriesId: 's1' },
+    ];
+
+    it('should send recurrence rule when creating a series', async () => {
+      (rehearsalsAPI.create as jest.Mock).mockResolvedValue({
+        data: { rehearsal: seriesRehearsals[0], rehearsals: seriesRehearsals },
+      });
+
+      const { result } = renderHook(() =>
+        useAddRehearsalSubmit({
+          ...defaultProps,
+          recurrence: { frequency: 'weekly', count: 2 },
+        })
+      );
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      expect(rehearsalsAPI.create).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({
+          recurrence: { frequency: 'weekly', count: 2 },
+        })
+      );
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'Success',
+        '2 rehearsals created',
+        expect.any(Array)
+      );
+    });
+
+    it('should export every occurrence when sync is enabled', async () => {
+      (getSyncSettings as jest.Mock).mockResolvedValue({
+        exportEnabled: true,
+        exportCalendarId: 'cal123',
+      });
+      (rehearsalsAPI.create as jest.Mock).mockResolvedValue({
+        data: { rehearsal: seriesRehearsals[0], rehearsals: seriesRehearsals },
+      });
+
+      const { result } = renderHook(() =>
+        useAddRehearsalSubmit({
+          ...defaultProps,
+          recurrence: { frequency: 'weekly', count: 2 },
+        })
+      );
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      expect(syncAllRehearsals).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ id: 'r1', startsAt: seriesRehearsals[0].startsAt, seriesId: 's1' }),
+          expect.objectContaining({ id: 'r2', startsAt: seriesRehearsals[1].startsAt, seriesId: 's1' }),
+        ],
+        'cal123'
+      );
+      expect(syncRehearsalToCalendar).not.toHaveBeenCalled();
+    });
+
+    it('should reject custom recurrence without weekdays', async () => {
+      const { result } = renderHook(() =>
+        useAddRehearsalSubmit({
+          ...defaultProps,
+          recurrence: { frequency: 'custom', weekdays: [], count: 4 },
+        })
+      );
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'Select at least one weekday');
+      expect(rehearsalsAPI.create).not.toHaveBeenCalled();
+    });
+
+    it('should ask for scope when editing a series occurrence', async () => {
+      (rehearsalsAPI.update as jest.Mock).mockResolvedValue({
+        data: { rehearsal: seriesRehearsals[0], rehearsals: seriesRehearsals },
+      });
+
+      const { result } = renderHook(() =>
+        useAddRehearsalSubmit({
+          ...defaultProps,
+          isEditMode: true,
+          rehearsalId: 'r1',
+          seriesId: 's1',
+        })
+      );
+
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+
+      // Nothing saved until scope is chosen
+      expect(rehearsalsAPI.update).not.toHaveBeenCalled();
+
+      const [title, , buttons] = (Alert.alert as jest.Mock).mock.calls[0];
+      expect(title).toBe('Edit recurring rehearsal');
+
+      await act(async () => {
+        await buttons.find((b: any) => b.text === 'This and following').onPress();
+      });
+
+      expect(rehearsalsAPI.update).toHaveBeenCalledWith(
+        '1',
+        'r1',
+        expect.objectContaining({ scope: 'following' })
+      );
+    });
+  });
 });
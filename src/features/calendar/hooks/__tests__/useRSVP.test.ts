@@ -232,4 +232,50 @@ describe('useRSVP Hook', () => {
       expect(onSuccess).toHaveBeenCalledWith('rehearsal-1', 'yes');
     });
   });
+
+  describe('respondMaybe', () => {
+    it('should send maybe with the trimmed reason', async () => {
+      const mockResponse = { data: { confirmed: 3, maybe: 1, invited: 10 } };
+      (rehearsalsAPI.respond as jest.Mock).mockResolvedValue(mockResponse);
+
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() => useRSVP());
+
+      await act(async () => {
+        await result.current.respondMaybe('rehearsal-1', null, '  Exam that day ', onSuccess);
+      });
+
+      expect(rehearsalsAPI.respond).toHaveBeenCalledWith('rehearsal-1', 'maybe', 'Exam that day');
+      expect(onSuccess).toHaveBeenNthCalledWith(1, 'rehearsal-1', 'maybe');
+      expect(onSuccess).toHaveBeenNthCalledWith(2, 'rehearsal-1', 'maybe', { confirmed: 3, maybe: 1, invited: 10 });
+    });
+
+    it('should omit an empty reason', async () => {
+      (rehearsalsAPI.respond as jest.Mock).mockResolvedValue({ data: {} });
+
+      const { result } = renderHook(() => useRSVP());
+
+      await act(async () => {
+        await result.current.respondMaybe('rehearsal-1', 'yes', '   ', jest.fn());
+      });
+
+      expect(rehearsalsAPI.respond).toHaveBeenCalledWith('rehearsal-1', 'maybe', undefined);
+    });
+
+    it('should restore the previous status on error', async () => {
+      (rehearsalsAPI.respond as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() => useRSVP());
+
+      await act(async () => {
+        await result.current.respondMaybe('rehearsal-1', 'yes', '', onSuccess);
+      });
+
+      expect(onSuccess).toHaveBeenNthCalledWith(1, 'rehearsal-1', 'maybe');
+      expect(onSuccess).toHaveBeenNthCalledWith(2, 'rehearsal-1', 'yes');
+      expect(Alert.alert).toHaveBeenCalledWith('Ошибка', 'Network error');
+      expect(result.current.respondingId).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for useRehearsalAttendance Hook
+ *
+ * Tests:
+ * - Loading attendance only when enabled
+ * - Local marks and late minutes
+ * - Saving sends every mark and refreshes from the server
+ * - isAttendanceDraftValid helper
+ */
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useRehearsalAttendance, isAttendanceDraftValid } from '../useRehearsalAttendance';
+import { rehearsalsAPI } from '../../../../shared/services/api';
+import { RehearsalAttendanceParticipant } from '../../../../shared/types';
+
+jest.mock('../../../../shared/services/api');
+
+const mockParticipants: RehearsalAttendanceParticipant[] = [
+  {
+    userId: '10',
+    firstName: 'Anna',
+    response: 'yes',
+    attendance: { status: 'present', lateMinutes: null, markedBy: '1', markedAt: '2025-12-10T18:05:00.000Z' },
+  },
+  { userId: '11', firstName: 'Boris', response: 'maybe', attendance: null },
+];
+
+describe('useRehearsalAttendance Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should load participants and existing marks', async () => {
+    (rehearsalsAPI.getAttendance as jest.Mock).mockResolvedValue({ data: { participants: mockParticipants } });
+
+    const { result } = renderHook(() => useRehearsalAttendance('project-1', 'rehearsal-1', true));
+
+    await waitFor(() => expect(result.current.participants).toHaveLength(2));
+    expect(rehearsalsAPI.getAttendance).toHaveBeenCalledWith('project-1', 'rehearsal-1');
+    expect(result.current.drafts).toEqual({ '10': { status: 'present', lateMinutes: null } });
+  });
+
+  it('should not load when disabled', () => {
+    const { result } = renderHook(() => useRehearsalAttendance('project-1', 'rehearsal-1', false));
+
+    expect(rehearsalsAPI.getAttendance).not.toHaveBeenCalled();
+    expect(result.current.participants).toEqual([]);
+  });
+
+  it('should send all marks with late minutes on save', async () => {
+    (rehearsalsAPI.getAttendance as jest.Mock).mockResolvedValue({ data: { participants: mockParticipants } });
+    (rehearsalsAPI.setAttendance as jest.Mock).mockResolvedValue({ data: { participants: mockParticipants } });
+
+    const { result } = renderHook(() => useRehearsalAttendance('project-1', 'rehearsal-1', true));
+    await waitFor(() => expect(result.current.participants).toHaveLength(2));
+
+    act(() => {
+      result.current.setStatus('11', 'late');
+    });
+    expect(result.current.canSave).toBe(false);
+
+    act(() => {
+      result.current.setLateMinutes('11', 20);
+    });
+    expect(result.current.canSave).toBe(true);
+
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(rehearsalsAPI.setAttendance).toHaveBeenCalledWith('project-1', 'rehearsal-1', [
+      { userId: '10', status: 'present', lateMinutes: null },
+      { userId: '11', status: 'late', lateMinutes: 20 },
+    ]);
+    expect(result.current.saving).toBe(false);
+  });
+
+  it('should drop late minutes when switching to another status', async () => {
+    (rehearsalsAPI.getAttendance as jest.Mock).mockResolvedValue({ data: { participants: mockParticipants } });
+
+    const { result } = renderHook(() => useRehearsalAttendance('project-1', 'rehearsal-1', true));
+    await waitFor(() => expect(result.current.participants).toHaveLength(2));
+
+    act(() => {
+      result.current.setLateMinutes('11', 20);
+    });
+    act(() => {
+      result.current.setStatus('11', 'absent');
+    });
+
+    expect(result.current.drafts['11']).toEqual({ status: 'absent', lateMinutes: null });
+  });
+
+  describe('isAttendanceDraftValid', () => {
+    it('should require at least one mark and minutes for late', () => {
+      expect(isAttendanceDraftValid({})).toBe(false);
+      expect(isAttendanceDraftValid({ '1': { status: 'late', lateMinutes: null } })).toBe(false);
+      expect(isAttendanceDraftValid({ '1': { status: 'late', lateMinutes: 5 } })).toBe(true);
+      expect(isAttendanceDraftValid({ '1': { status: 'absent', lateMinutes: null } })).toBe(true);
+    });
+  });
+});
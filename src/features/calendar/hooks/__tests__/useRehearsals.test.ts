@@ -8,14 +8,17 @@
  * - updateAdminStats
  * - Error handling
  * - Loading states
+ * - Local reminders after a refresh
  */
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useRehearsals } from '../useRehearsals';
 import { rehearsalsAPI } from '../../../../shared/services/api';
+import { syncRehearsalReminders } from '../../../../shared/services/localReminders';
 import { Project, Rehearsal } from '../../../../shared/types';
 
 // Mock dependencies
 jest.mock('../../../../shared/services/api');
+jest.mock('../../../../shared/services/localReminders');
 jest.mock('../../../../shared/utils/time', () => ({
   ...jest.requireActual('../../../../shared/utils/time'),
   isoToDateString: (iso: string) => iso.split('T')[0],
@@ -120,6 +123,34 @@ describe('useRehearsals Hook', () => {
     });
   });
 
+  describe('fetchRehearsals - Local Reminders', () => {
+    it('should keep declined rehearsals without reminders after a refresh', async () => {
+      const upcoming = (id: string, userResponse: string | null) => ({
+        id,
+        projectId: '2',
+        projectName: 'Theater Project',
+        startsAt: '2099-12-29T10:00:00Z',
+        endsAt: '2099-12-29T12:00:00Z',
+        userResponse,
+      });
+
+      (rehearsalsAPI.getBatch as jest.Mock).mockResolvedValue({
+        data: { rehearsals: [upcoming('r1', 'yes'), upcoming('r2', 'no'), upcoming('r3', null)] },
+      });
+
+      const { result } = renderHook(() => useRehearsals(mockProjects, null));
+
+      await act(async () => {
+        await result.current.fetchRehearsals();
+      });
+
+      expect(result.current.rsvpResponses).toEqual({ r1: 'yes', r2: 'no' });
+      const [reminderRehearsals, projectId] = (syncRehearsalReminders as jest.Mock).mock.calls.at(-1);
+      expect(reminderRehearsals.map((r: Rehearsal) => r.id)).toEqual(['r1', 'r3']);
+      expect(projectId).toBeNull();
+    });
+  });
+
   describe('fetchRehearsals - Single Project', () => {
     it('should fetch rehearsals for specific project', async () => {
       const mockRehearsals = [
@@ -335,6 +335,59 @@ describe('useTimeRecommendations - Smart Planner', () => {
     });
   });
 
+  describe('Project Working Hours', () => {
+    // 2025-12-29 is a Monday, 2025-12-28 is a Sunday
+    const workingHours = {
+      monday: { start: '11:00', end: '23:00' },
+      sunday: { start: '09:00', end: '18:00' },
+      saturday: null,
+    };
+
+    it('should clamp to the window of the selected weekday', () => {
+      const memberAvailability = {
+        'user-1': {
+          timeRanges: [{ start: '15:00', end: '16:00', type: 'busy' as const }],
+        },
+      };
+
+      const { result } = renderHook(() =>
+        useTimeRecommendations('2025-12-28', mockMembers, memberAvailability, workingHours)
+      );
+
+      expect(result.current.map(r => `${r.startTime}-${r.endTime}`)).toEqual([
+        '09:00-15:00',
+        '16:00-18:00',
+      ]);
+    });
+
+    it('should start no earlier than the weekday window', () => {
+      const memberAvailability = {
+        'user-1': { timeRanges: [] },
+      };
+
+      const { result } = renderHook(() =>
+        useTimeRecommendations('2025-12-29', mockMembers, memberAvailability, workingHours)
+      );
+
+      expect(result.current).toHaveLength(1);
+      expect(result.current[0].startTime).toBe('11:00');
+      expect(result.current[0].duration).toBe(12);
+      expect(result.current[0].confidence).toBe('high');
+    });
+
+    it('should return no recommendations on a day off', () => {
+      const memberAvailability = {
+        'user-1': { timeRanges: [] },
+      };
+
+      const { result } = renderHook(() =>
+        useTimeRecommendations('2025-12-27', mockMembers, memberAvailability, workingHours)
+      );
+
+      expect(result.current).toEqual([]);
+    });
+  });
+
   describe('Confidence Scoring', () => {
     it('should assign high confidence when no busy times and within working hours', () => {
       const memberAvailability = {
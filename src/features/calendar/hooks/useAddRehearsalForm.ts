@@ -3,9 +3,11 @@ import { Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { AppStackParamList } from '../../../navigation';
-import { Project } from '../../../shared/types';
+import { Project, RecurrenceRule } from '../../../shared/types';
 import { parseTimeString } from '../utils/rehearsalFormatters';
 import { rehearsalsAPI } from '../../../shared/services/api';
+import { leadHoursFromRespondBy } from '../../../shared/utils/respondBy';
+import { canScheduleIn } from '../../../shared/utils/permissions';
 
 type NavigationType = NativeStackNavigationProp<AppStackParamList>;
 
@@ -15,6 +17,7 @@ interface RouteParams {
   prefilledDate?: string;
   prefilledTime?: string;
   prefilledEndTime?: string;
+  prefilledSceneIds?: string[];
 }
 
 interface UseAddRehearsalFormProps {
@@ -40,10 +43,10 @@ export function useAddRehearsalForm({
   const navigation = useNavigation<NavigationType>();
 
   // Extract route params
-  const { projectId: prefilledProjectId, prefilledDate, prefilledTime, prefilledEndTime } = routeParams || {};
+  const { projectId: prefilledProjectId, prefilledDate, prefilledTime, prefilledEndTime, prefilledSceneIds } = routeParams || {};
 
-  // Filter projects - only show where user is admin
-  const adminProjects = useMemo(() => projects.filter(p => p.is_admin), [projects]);
+  // Filter projects - only show where user can schedule rehearsals
+  const adminProjects = useMemo(() => projects.filter(canScheduleIn), [projects]);
 
   // Get the most recent admin project (by created_at or createdAt)
   const defaultProject = useMemo((): Project | null => {
@@ -70,9 +73,15 @@ export function useAddRehearsalForm({
   });
   const [location, setLocation] = useState('');
   const [localSelectedProject, setLocalSelectedProject] = useState<Project | null>(
-    selectedProject?.is_admin ? selectedProject : null
+    canScheduleIn(selectedProject) ? selectedProject : null
   );
   const [selectedMemberIds, setSelectedMemberIds] = useState<string[]>([]);
+  const [selectedSceneIds, setSelectedSceneIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  // Respond-by deadline in hours before the start (null = no deadline)
+  const [respondByLeadHours, setRespondByLeadHours] = useState<number | null>(null);
+  // Series the edited rehearsal belongs to (edit mode only)
+  const [seriesId, setSeriesId] = useState<string | null>(null);
 
   // UI state - separate state for each modal picker
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -86,7 +95,7 @@ export function useAddRehearsalForm({
   useEffect(() => {
     if (prefilledProjectId) {
       const project = projects.find(p => p.id === prefilledProjectId);
-      if (project && project.is_admin) {
+      if (project && canScheduleIn(project)) {
         setLocalSelectedProject(project);
         setSelectedProject(project);
       }
@@ -104,15 +113,19 @@ export function useAddRehearsalForm({
     if (prefilledEndTime) {
       setEndTime(parseTimeString(prefilledEndTime));
     }
-  }, [prefilledProjectId, prefilledDate, prefilledTime, prefilledEndTime, projects]);
+
+    if (prefilledSceneIds?.length) {
+      setSelectedSceneIds(prefilledSceneIds);
+    }
+  }, [prefilledProjectId, prefilledDate, prefilledTime, prefilledEndTime, prefilledSceneIds, projects]);
 
   // Update selected project when projects list changes or default changes
   useEffect(() => {
     // Don't override if we have a prefilled project
     if (prefilledProjectId) return;
 
-    // If current selection is not an admin project, select the default
-    if (localSelectedProject && !localSelectedProject.is_admin) {
+    // If current selection is not a project the user can schedule in, select the default
+    if (localSelectedProject && !canScheduleIn(localSelectedProject)) {
       setLocalSelectedProject(defaultProject);
       if (defaultProject) {
         setSelectedProject(defaultProject);
@@ -154,6 +167,9 @@ export function useAddRehearsalForm({
         setStartTime(startsAt);
         setEndTime(endsAt);
         setLocation(rehearsal.location || '');
+        setSeriesId(rehearsal.seriesId || null);
+        setRespondByLeadHours(leadHoursFromRespondBy(rehearsal.startsAt, rehearsal.respondBy));
+        setSelectedSceneIds((rehearsal.scenes || []).map((scene: any) => String(scene.id)));
 
         // Load participants
         const responsesResponse = await rehearsalsAPI.getResponses(rehearsalId);
@@ -224,12 +240,16 @@ export function useAddRehearsalForm({
     end.setHours(end.getHours() + 2);
     setEndTime(end);
     setLocation('');
+    setSelectedSceneIds([]);
+    setRecurrence(null);
+    setRespondByLeadHours(null);
   };
 
   const handleSelectProject = (project: Project) => {
     setLocalSelectedProject(project);
     setSelectedProject(project); // Also update global context
     setSelectedMemberIds([]); // Reset selection when changing project
+    setSelectedSceneIds([]); // Scenes belong to the previous project
     setShowProjectPicker(false);
   };
 
@@ -256,6 +276,12 @@ export function useAddRehearsalForm({
     setLocalSelectedProject,
     selectedMemberIds,
     setSelectedMemberIds,
+    selectedSceneIds,
+    setSelectedSceneIds,
+    recurrence,
+    setRecurrence,
+    respondByLeadHours,
+    setRespondByLeadHours,
     // UI state
     showDatePicker,
     setShowDatePicker,
@@ -280,5 +306,6 @@ export function useAddRehearsalForm({
     isEditMode,
     loadingRehearsal,
     rehearsalId: routeParams?.rehearsalId,
+    seriesId,
   };
 }
@@ -3,12 +3,13 @@ import { Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { AppStackParamList } from '../../../navigation';
-import { Project, ProjectMember } from '../../../shared/types';
+import { Project, ProjectMember, RecurrenceRule, SeriesScope } from '../../../shared/types';
 import { rehearsalsAPI } from '../../../shared/services/api';
 import { checkSchedulingConflicts, formatConflictMessage } from '../../../shared/utils/conflictDetection';
 import { dateTimeToISO } from '../../../shared/utils/time';
+import { respondByFromLeadHours } from '../../../shared/utils/respondBy';
 import { getSyncSettings } from '../../../shared/utils/calendarStorage';
-import { syncRehearsalToCalendar } from '../../../shared/services/calendar';
+import { syncRehearsalToCalendar, syncAllRehearsals } from '../../../shared/services/calendar';
 import { formatDate, formatTime } from '../utils/rehearsalFormatters';
 import { TimeRange } from '../../../shared/utils/availability';
 
@@ -21,14 +22,21 @@ interface UseAddRehearsalSubmitProps {
   endTime: Date;
   location: string;
   selectedMemberIds: string[];
+  selectedSceneIds?: string[];
   members: ProjectMember[];
   memberAvailability: Record<string, { timeRanges: TimeRange[] }>;
   resetForm: () => void;
   t: any;
   isEditMode: boolean;
   rehearsalId?: string;
+  recurrence?: RecurrenceRule | null;
+  seriesId?: string | null;
+  respondByLeadHours?: number | null;
 }
 
+// Must match MAX_OCCURRENCES on the server (server/utils/recurrence.js)
+const MAX_SERIES_OCCURRENCES = 104;
+
 export function useAddRehearsalSubmit({
   localSelectedProject,
   date,
@@ -36,17 +44,21 @@ export function useAddRehearsalSubmit({
   endTime,
   location,
   selectedMemberIds,
+  selectedSceneIds,
   members,
   memberAvailability,
   resetForm,
   t,
   isEditMode,
   rehearsalId,
+  recurrence = null,
+  seriesId = null,
+  respondByLeadHours = null,
 }: UseAddRehearsalSubmitProps) {
   const navigation = useNavigation<NavigationType>();
   const [loading, setLoading] = useState(false);
 
-  const saveRehearsal = async () => {
+  const saveRehearsal = async (scope?: SeriesScope) => {
     setLoading(true);
 
     try {
@@ -55,33 +67,63 @@ export function useAddRehearsalSubmit({
       const startTimeString = formatTime(startTime);
       const endTimeString = formatTime(endTime);
 
+      const startsAt = dateTimeToISO(dateString, startTimeString);
+
       const rehearsalData = {
-        startsAt: dateTimeToISO(dateString, startTimeString),
+        startsAt,
         endsAt: dateTimeToISO(dateString, endTimeString),
         location: location.trim() || undefined,
+        // null clears the deadline when editing; series keep the same lead time per occurrence
+        respondBy: respondByFromLeadHours(startsAt, respondByLeadHours),
         participant_ids: selectedMemberIds.length > 0 ? selectedMemberIds : undefined,
+        // In edit mode an empty list clears the rehearsal's scenes
+        scene_ids: isEditMode ? selectedSceneIds : (selectedSceneIds?.length ? selectedSceneIds : undefined),
       };
 
       let savedRehearsal;
+      // All rehearsals touched by this save (several when a series is created or edited)
+      let savedRehearsals: any[] = [];
 
       // Update or create based on mode
       if (isEditMode && rehearsalId) {
         const response = await rehearsalsAPI.update(
           localSelectedProject!.id,
           rehearsalId,
-          rehearsalData
+          scope ? { ...rehearsalData, scope } : rehearsalData
         );
         savedRehearsal = response.data.rehearsal || response.data;
+        savedRehearsals = response.data.rehearsals || [];
       } else {
-        const response = await rehearsalsAPI.create(localSelectedProject!.id, rehearsalData);
+        const response = await rehearsalsAPI.create(
+          localSelectedProject!.id,
+          recurrence ? { ...rehearsalData, recurrence } : rehearsalData
+        );
         savedRehearsal = response.data.rehearsal;
+        savedRehearsals = response.data.rehearsals || [];
       }
 
       // Auto-sync to calendar if export is enabled
       try {
         const syncSettings = await getSyncSettings();
 
-        if (syncSettings.exportEnabled && syncSettings.exportCalendarId && savedRehearsal?.id) {
+        if (syncSettings.exportEnabled && syncSettings.exportCalendarId && savedRehearsals.length > 1) {
+          // Series: every occurrence is its own event, since overrides can differ per occurrence
+          await syncAllRehearsals(
+            savedRehearsals.map(r => ({
+              id: r.id,
+              projectId: localSelectedProject!.id,
+              projectName: localSelectedProject!.name,
+              startsAt: r.startsAt,
+              endsAt: r.endsAt,
+              location: r.location || undefined,
+              title: r.title || undefined,
+              description: r.description || undefined,
+              scenes: r.scenes,
+              seriesId: r.seriesId,
+            })),
+            syncSettings.exportCalendarId
+          );
+        } else if (syncSettings.exportEnabled && syncSettings.exportCalendarId && savedRehearsal?.id) {
           const rehearsalWithProject = {
             id: savedRehearsal.id,
             projectId: localSelectedProject!.id,
@@ -89,6 +131,10 @@ export function useAddRehearsalSubmit({
             startsAt: rehearsalData.startsAt,
             endsAt: rehearsalData.endsAt,
             location: rehearsalData.location,
+            title: savedRehearsal.title || undefined,
+            description: savedRehearsal.description || undefined,
+            scenes: savedRehearsal.scenes,
+            seriesId: savedRehearsal.seriesId,
           };
 
           await syncRehearsalToCalendar(rehearsalWithProject, syncSettings.exportCalendarId);
@@ -101,7 +147,9 @@ export function useAddRehearsalSubmit({
       // Success message based on mode
       const successMessage = isEditMode
         ? t.rehearsals.rehearsalUpdated
-        : t.rehearsals.rehearsalCreated;
+        : savedRehearsals.length > 1
+          ? t.rehearsals.seriesCreated(savedRehearsals.length)
+          : t.rehearsals.rehearsalCreated;
 
       Alert.alert(
         t.rehearsals.success,
@@ -131,6 +179,25 @@ export function useAddRehearsalSubmit({
     }
   };
 
+  // Series occurrences: ask which occurrences the edit applies to
+  const confirmAndSave = () => {
+    if (!isEditMode || !seriesId) {
+      saveRehearsal();
+      return;
+    }
+
+    Alert.alert(
+      t.rehearsals.seriesEditTitle,
+      undefined,
+      [
+        { text: t.rehearsals.scopeOccurrence, onPress: () => saveRehearsal('occurrence') },
+        { text: t.rehearsals.scopeFollowing, onPress: () => saveRehearsal('following') },
+        { text: t.rehearsals.scopeSeries, onPress: () => saveRehearsal('series') },
+        { text: t.common.cancel, style: 'cancel' },
+      ]
+    );
+  };
+
   const handleSubmit = async () => {
     // Validation
     if (!localSelectedProject) {
@@ -143,21 +210,34 @@ export function useAddRehearsalSubmit({
       return;
     }
 
+    if (recurrence && !isEditMode) {
+      if (recurrence.frequency === 'custom' && !recurrence.weekdays?.length) {
+        Alert.alert(t.common.error, t.rehearsals.repeatWeekdaysError);
+        return;
+      }
+
+      if (!recurrence.until && (!recurrence.count || recurrence.count > MAX_SERIES_OCCURRENCES)) {
+        Alert.alert(t.common.error, t.rehearsals.repeatCountError);
+        return;
+      }
+    }
+
     // Check for scheduling conflicts
     if (selectedMemberIds.length > 0) {
       const selectedMembers = members.filter(m => selectedMemberIds.includes(m.userId));
-      const rehearsalStart = formatTime(startTime);
-      const rehearsalEnd = formatTime(endTime);
+      const dateString = formatDate(date);
 
       const conflicts = checkSchedulingConflicts(
         selectedMembers,
         memberAvailability,
-        rehearsalStart,
-        rehearsalEnd
+        dateTimeToISO(dateString, formatTime(startTime)),
+        dateTimeToISO(dateString, formatTime(endTime)),
+        // The rehearsal being edited is booked in its participants' availability
+        { excludeRehearsalId: isEditMode ? rehearsalId : undefined }
       );
 
       if (conflicts.hasConflicts) {
-        const conflictMessage = formatConflictMessage(conflicts);
+        const conflictMessage = formatConflictMessage(conflicts, t);
 
         // Show warning and ask for confirmation
         Alert.alert(
@@ -171,7 +251,7 @@ export function useAddRehearsalSubmit({
             {
               text: t.rehearsals.createAnyway,
               style: 'destructive',
-              onPress: () => saveRehearsal(),
+              onPress: () => confirmAndSave(),
             },
           ]
         );
@@ -180,7 +260,7 @@ export function useAddRehearsalSubmit({
     }
 
     // No conflicts, save rehearsal
-    saveRehearsal();
+    confirmAndSave();
   };
 
   return {
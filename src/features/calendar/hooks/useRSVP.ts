@@ -42,8 +42,38 @@ export const useRSVP = () => {
     }
   }, []);
 
+  /**
+   * Answer "maybe" with an optional reason, with optimistic UI update
+   * Tapping the like button afterwards toggles to 'yes' as usual
+   */
+  const respondMaybe = useCallback(async (
+    rehearsalId: string,
+    currentStatus: RSVPStatus | null,
+    reason: string,
+    onSuccess: (rehearsalId: string, newStatus: RSVPStatus, stats?: any) => void
+  ) => {
+    onSuccess(rehearsalId, 'maybe');
+
+    setRespondingId(rehearsalId);
+    try {
+      const response = await rehearsalsAPI.respond(rehearsalId, 'maybe', reason.trim() || undefined);
+
+      if (response.data) {
+        onSuccess(rehearsalId, 'maybe', response.data);
+      }
+    } catch (err: any) {
+      console.error('Failed to respond maybe:', err);
+      // Revert optimistic update on error
+      onSuccess(rehearsalId, currentStatus);
+      Alert.alert('Ошибка', err.message || 'Не удалось обновить статус');
+    } finally {
+      setRespondingId(null);
+    }
+  }, []);
+
   return {
     respondingId,
     toggleLike,
+    respondMaybe,
   };
 };
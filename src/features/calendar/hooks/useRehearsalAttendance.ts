@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { rehearsalsAPI } from '../../../shared/services/api';
+import { AttendanceStatus, RehearsalAttendanceParticipant } from '../../../shared/types';
+
+export interface AttendanceDraft {
+  status: AttendanceStatus;
+  lateMinutes: number | null;
+}
+
+const toDrafts = (participants: RehearsalAttendanceParticipant[]): Record<string, AttendanceDraft> => {
+  const drafts: Record<string, AttendanceDraft> = {};
+  participants.forEach(p => {
+    if (p.attendance) {
+      drafts[p.userId] = { status: p.attendance.status, lateMinutes: p.attendance.lateMinutes };
+    }
+  });
+  return drafts;
+};
+
+/**
+ * Whether the drafts can be saved: something is marked and every late participant has minutes
+ */
+export const isAttendanceDraftValid = (drafts: Record<string, AttendanceDraft>): boolean => {
+  const entries = Object.values(drafts);
+  return entries.length > 0 && entries.every(d => d.status !== 'late' || (d.lateMinutes !== null && d.lateMinutes > 0));
+};
+
+/**
+ * Hook for marking attendance of a rehearsal's invited participants (admins only)
+ * Marks are edited locally and sent together with save().
+ */
+export const useRehearsalAttendance = (
+  projectId: string | null | undefined,
+  rehearsalId: string | null | undefined,
+  enabled: boolean
+) => {
+  const [participants, setParticipants] = useState<RehearsalAttendanceParticipant[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, AttendanceDraft>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadAttendance = useCallback(async () => {
+    if (!enabled || !projectId || !rehearsalId) {
+      setParticipants([]);
+      setDrafts({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await rehearsalsAPI.getAttendance(projectId, rehearsalId);
+      const list: RehearsalAttendanceParticipant[] = response.data.participants || [];
+      setParticipants(list);
+      setDrafts(toDrafts(list));
+    } catch (error) {
+      console.error('Failed to load attendance:', error);
+      setParticipants([]);
+      setDrafts({});
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, rehearsalId, enabled]);
+
+  useEffect(() => {
+    loadAttendance();
+  }, [loadAttendance]);
+
+  const setStatus = (userId: string, status: AttendanceStatus) => {
+    setDrafts(prev => ({
+      ...prev,
+      [userId]: { status, lateMinutes: status === 'late' ? prev[userId]?.lateMinutes ?? null : null },
+    }));
+  };
+
+  const setLateMinutes = (userId: string, lateMinutes: number | null) => {
+    setDrafts(prev => ({ ...prev, [userId]: { status: 'late', lateMinutes } }));
+  };
+
+  const save = async () => {
+    if (!projectId || !rehearsalId) return;
+
+    setSaving(true);
+    try {
+      const attendance = Object.entries(drafts).map(([userId, draft]) => ({
+        userId,
+        status: draft.status,
+        lateMinutes: draft.status === 'late' ? draft.lateMinutes : null,
+      }));
+      const response = await rehearsalsAPI.setAttendance(projectId, rehearsalId, attendance);
+      const list: RehearsalAttendanceParticipant[] = response.data.participants || [];
+      setParticipants(list);
+      setDrafts(toDrafts(list));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    participants,
+    drafts,
+    loading,
+    saving,
+    canSave: isAttendanceDraftValid(drafts),
+    setStatus,
+    setLateMinutes,
+    save,
+    reload: loadAttendance,
+  };
+};
@@ -1,7 +1,10 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Rehearsal, Project, RSVPStatus } from '../../../shared/types';
 import { rehearsalsAPI } from '../../../shared/services/api';
 import { formatDateToString, isoToDateString, isoToTimeString } from '../../../shared/utils/time';
+import { canScheduleIn } from '../../../shared/utils/permissions';
+import { getReminderRehearsals } from '../../../shared/utils/reminders';
+import { syncRehearsalReminders } from '../../../shared/services/localReminders';
 
 /**
  * Transform rehearsal from API format to UI format
@@ -32,7 +35,9 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [rsvpResponses, setRsvpResponses] = useState<Record<string, RSVPStatus>>({});
-  const [adminStats, setAdminStats] = useState<Record<string, { confirmed: number; invited: number }>>({});
+  const [adminStats, setAdminStats] = useState<Record<string, { confirmed: number; maybe?: number; invited: number; overdue?: number }>>({});
+  // Project the loaded list covers (null for all projects); undefined until the first load
+  const loadedProjectIdRef = useRef<string | null | undefined>(undefined);
 
   const fetchRehearsals = useCallback(async () => {
     if (projects.length === 0) {
@@ -46,7 +51,7 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
     try {
       let fetchedRehearsals: Rehearsal[] = [];
       const responses: Record<string, RSVPStatus> = {};
-      const stats: Record<string, { confirmed: number; invited: number }> = {};
+      const stats: Record<string, { confirmed: number; maybe?: number; invited: number; overdue?: number }> = {};
 
       // If filter is null (All projects), fetch from all projects using batch endpoint
       if (filterProjectId === null) {
@@ -55,9 +60,9 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
         const projectIds = projects.map(p => p.id);
         const response = await rehearsalsAPI.getBatch(projectIds);
         const allRehearsals = (response.data.rehearsals || []).map((r: any) => {
-          // Extract RSVP data from batch response
-          if (r.userResponse === 'yes') {
-            responses[r.id] = 'yes';
+          // Extract RSVP data from batch response ('no' included, so declined rehearsals get no reminders)
+          if (r.userResponse) {
+            responses[r.id] = r.userResponse;
           }
           if (r.adminStats) {
             stats[r.id] = r.adminStats;
@@ -86,14 +91,13 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
         if (upcomingRehearsals.length > 0) {
           await Promise.all(
             upcomingRehearsals.map(async (rehearsal) => {
-              const isAdmin = project?.is_admin;
+              const isAdmin = canScheduleIn(project);
 
               // Load personal response for everyone
               try {
                 const res = await rehearsalsAPI.getMyResponse(rehearsal.id);
                 if (res.data.response) {
-                  const serverResponse = res.data.response.response;
-                  responses[rehearsal.id] = serverResponse === 'yes' ? 'yes' : null;
+                  responses[rehearsal.id] = res.data.response.response;
                 }
               } catch (err) {
                 console.error(`Failed to fetch RSVP for ${rehearsal.id}:`, err);
@@ -106,7 +110,9 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
                   if (res.data.stats) {
                     stats[rehearsal.id] = {
                       confirmed: res.data.stats.confirmed,
+                      maybe: res.data.stats.maybe,
                       invited: res.data.stats.invited,
+                      overdue: res.data.stats.overdue,
                     };
                   }
                 } catch (err) {
@@ -118,6 +124,7 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
         }
       }
 
+      loadedProjectIdRef.current = filterProjectId;
       setRehearsals(fetchedRehearsals);
       setRsvpResponses(responses);
       setAdminStats(stats);
@@ -129,6 +136,14 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
     }
   }, [projects, filterProjectId]);
 
+  // Reschedule local reminders after every refresh and answer; unliking cancels them
+  useEffect(() => {
+    if (loadedProjectIdRef.current === undefined) {
+      return;
+    }
+    syncRehearsalReminders(getReminderRehearsals(rehearsals, rsvpResponses), loadedProjectIdRef.current);
+  }, [rehearsals, rsvpResponses]);
+
   const updateAdminStats = useCallback(async (rehearsalId: string) => {
     try {
       const res = await rehearsalsAPI.getResponses(rehearsalId);
@@ -139,7 +154,9 @@ export const useRehearsals = (projects: Project[], filterProjectId: string | nul
             confirmed: res.data.stats.confirmed,
             declined: res.data.stats.declined,
             tentative: res.data.stats.tentative,
+            maybe: res.data.stats.maybe,
             invited: res.data.stats.invited,
+            overdue: res.data.stats.overdue,
           },
         }));
       }
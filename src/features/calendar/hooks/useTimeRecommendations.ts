@@ -1,13 +1,12 @@
 import { useMemo } from 'react';
-import { ProjectMember } from '../../../shared/types';
+import { ProjectMember, WorkingHours } from '../../../shared/types';
 import {
   mergeBusyRanges,
   busyToFreeGaps,
   clampToWorkday,
+  getWorkdayHours,
   toMinutes,
   toTimeString,
-  WORKDAY_START,
-  WORKDAY_END,
   TimeRange,
 } from '../../../shared/utils/availability';
 
@@ -18,13 +17,11 @@ export interface TimeSlot {
   confidence: 'high' | 'medium';
 }
 
-const WORK_START = toMinutes(WORKDAY_START);
-const WORK_END = toMinutes(WORKDAY_END);
-
 export const useTimeRecommendations = (
   selectedDate: string,
   members: ProjectMember[],
   memberAvailability: Record<string, { timeRanges: TimeRange[] }>,
+  workingHours?: WorkingHours | null,
 ): TimeSlot[] => {
   const memberIds = useMemo(() => members.map(m => m.userId), [members]);
 
@@ -48,14 +45,21 @@ export const useTimeRecommendations = (
   return useMemo(() => {
     if (!selectedDate || memberIds.length === 0) return [];
 
-    const free = busyToFreeGaps(unionBusy);
+    // Project doesn't rehearse on this weekday
+    const workday = getWorkdayHours(workingHours, selectedDate);
+    if (!workday) return [];
+
+    const workStart = toMinutes(workday.start);
+    const workEnd = toMinutes(workday.end);
+
+    const free = busyToFreeGaps(unionBusy, workday);
     const slots = free
-      .map(clampToWorkday)
+      .map(r => clampToWorkday(r, workday))
       .filter((r): r is TimeRange => Boolean(r))
       .map(r => ({ start: toMinutes(r.start), end: toMinutes(r.end) }))
       .filter(r => r.end - r.start >= 60) // At least 1 hour
       .map(r => {
-        const inWorkingHours = r.start >= WORK_START && r.end <= WORK_END;
+        const inWorkingHours = r.start >= workStart && r.end <= workEnd;
         const hours = (r.end - r.start) / 60;
         const duration = Number.isInteger(hours)
           ? hours
@@ -72,5 +76,5 @@ export const useTimeRecommendations = (
       .sort((a, b) => a.startTime.localeCompare(b.startTime));
 
     return slots;
-  }, [selectedDate, memberIds, unionBusy]);
+  }, [selectedDate, memberIds, unionBusy, workingHours]);
 };
@@ -21,7 +21,11 @@ import { useProjects } from '../../../contexts/ProjectContext';
 import { useI18n } from '../../../contexts/I18nContext';
 import { ActorSelector } from '../components/ActorSelector';
 import { TimeRecommendations } from '../components/TimeRecommendations';
+import { RecurrencePicker } from '../components/RecurrencePicker';
+import { RespondByPicker } from '../components/RespondByPicker';
 import { PickerModal } from '../../../shared/components/PickerModal';
+import { ScenePicker } from '../../../shared/components/ScenePicker';
+import { useProjectScenes, getSceneMemberIds } from '../../projects/hooks';
 import { addRehearsalScreenStyles as styles } from '../styles';
 import {
   useRehearsalMembers,
@@ -30,6 +34,7 @@ import {
   useAddRehearsalSubmit,
 } from '../hooks';
 import { formatDate, formatTime, formatDisplayDate } from '../utils/rehearsalFormatters';
+import { dateTimeToISO } from '../../../shared/utils/time';
 
 type RouteType = RouteProp<CalendarStackParamList, 'AddRehearsal'>;
 
@@ -48,6 +53,7 @@ export default function AddRehearsalScreen() {
 
   // Data loading hooks
   const { members, loading: loadingMembers } = useRehearsalMembers(form.localSelectedProject, t);
+  const { scenes } = useProjectScenes(form.localSelectedProject?.id);
   const { memberAvailability, loading: loadingAvailability } = useRehearsalAvailability(
     form.localSelectedProject,
     form.date,
@@ -63,12 +69,16 @@ export default function AddRehearsalScreen() {
     endTime: form.endTime,
     location: form.location,
     selectedMemberIds: form.selectedMemberIds,
+    selectedSceneIds: form.selectedSceneIds,
     members,
     memberAvailability,
     resetForm: form.resetForm,
     t,
     isEditMode: form.isEditMode,
     rehearsalId: form.rehearsalId,
+    recurrence: form.recurrence,
+    seriesId: form.seriesId,
+    respondByLeadHours: form.respondByLeadHours,
   });
 
   // Auto-select all participants when members are loaded
@@ -81,6 +91,22 @@ export default function AddRehearsalScreen() {
     }
   }, [members, loadingMembers, form.isEditMode]);
 
+  // Scenes prefilled from Smart Planner: select their members once scenes are loaded
+  useEffect(() => {
+    const prefilledSceneIds = route.params?.prefilledSceneIds;
+    if (!form.isEditMode && prefilledSceneIds?.length && scenes.length > 0) {
+      form.setSelectedMemberIds(getSceneMemberIds(scenes, prefilledSceneIds));
+    }
+  }, [scenes]);
+
+  // Picking scenes pre-selects the members appearing in them
+  const handleScenesChange = (sceneIds: string[]) => {
+    form.setSelectedSceneIds(sceneIds);
+    if (sceneIds.length > 0) {
+      form.setSelectedMemberIds(getSceneMemberIds(scenes, sceneIds));
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -143,6 +169,19 @@ export default function AddRehearsalScreen() {
             </TouchableOpacity>
           </View>
 
+          {/* Scenes */}
+          {form.localSelectedProject && scenes.length > 0 && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{t.rehearsals.scenes}</Text>
+              <ScenePicker
+                scenes={scenes}
+                selectedSceneIds={form.selectedSceneIds}
+                onSelectionChange={handleScenesChange}
+              />
+              <Text style={styles.hintText}>{t.rehearsals.scenesHint}</Text>
+            </View>
+          )}
+
           {/* Participants */}
           {form.localSelectedProject && (
             <View style={styles.inputGroup}>
@@ -166,6 +205,7 @@ export default function AddRehearsalScreen() {
               memberAvailability={memberAvailability}
               onTimeSelect={form.handleTimeSelect}
               loading={loadingAvailability}
+              workingHours={form.localSelectedProject.workingHours}
             />
           )}
 
@@ -211,6 +251,36 @@ export default function AddRehearsalScreen() {
             </View>
           </View>
 
+          {/* Respond-by deadline */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t.rehearsals.respondBy}</Text>
+            <RespondByPicker
+              value={form.respondByLeadHours}
+              onChange={form.setRespondByLeadHours}
+              startsAt={dateTimeToISO(formatDate(form.date), formatTime(form.startTime))}
+            />
+          </View>
+
+          {/* Recurrence (new rehearsals only - existing series are edited per scope) */}
+          {!form.isEditMode && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{t.rehearsals.repeat}</Text>
+              <RecurrencePicker
+                value={form.recurrence}
+                onChange={form.setRecurrence}
+                startDate={form.date}
+              />
+            </View>
+          )}
+
+          {/* Series badge in edit mode */}
+          {form.isEditMode && form.seriesId && (
+            <View style={styles.seriesBadge}>
+              <Ionicons name="repeat" size={16} color={Colors.accent.purple} />
+              <Text style={styles.seriesBadgeText}>{t.rehearsals.recurringRehearsal}</Text>
+            </View>
+          )}
+
           {/* Submit Button */}
           <TouchableOpacity
             style={[styles.submitButton, (loading || form.loadingRehearsal) && styles.submitButtonDisabled]}
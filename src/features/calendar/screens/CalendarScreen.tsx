@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { View, Text, SafeAreaView, ScrollView, ActivityIndicator, TouchableOpacity, Alert, FlatList, Pressable } from 'react-native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -13,18 +13,20 @@ import MyRehearsalsModal from '../components/MyRehearsalsModal';
 import TodayRehearsals from '../components/TodayRehearsals';
 import SmartPlannerButton from '../components/SmartPlannerButton';
 import { RehearsalDetailsModal } from '../components/RehearsalDetailsModal';
-import { Rehearsal } from '../../../shared/types';
+import { Rehearsal, SeriesScope } from '../../../shared/types';
 import { rehearsalsAPI } from '../../../shared/services/api';
 import { useProjects } from '../../../contexts/ProjectContext';
 import { useI18n } from '../../../contexts/I18nContext';
 import { formatDateLocalized, formatDateToString, parseDateString } from '../../../shared/utils/time';
+import { canScheduleIn } from '../../../shared/utils/permissions';
 import { useRehearsals, useRSVP } from '../hooks';
 import { calendarScreenStyles as styles } from '../styles';
-import { unsyncRehearsal } from '../../../shared/services/calendar';
+import { unsyncRehearsals } from '../../../shared/services/calendar';
+import { cancelRehearsalReminders } from '../../../shared/services/localReminders';
 
 type CalendarScreenProps = NativeStackScreenProps<CalendarStackParamList, 'CalendarMain'>;
 
-export default function CalendarScreen({ navigation }: CalendarScreenProps) {
+export default function CalendarScreen({ navigation, route }: CalendarScreenProps) {
   const { projects, selectedProject } = useProjects();
   const { t, language } = useI18n();
   const [selectedDate, setSelectedDate] = useState<string>(() => {
@@ -40,9 +42,9 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
   // null means "All projects"
   const [filterProjectId, setFilterProjectId] = useState<string | null>(null);
 
-  // Check if user has any admin role
+  // Check if user can schedule in any project (admin, director, stage manager)
   const hasAnyAdminRole = useMemo(() =>
-    projects.some(p => p.is_admin),
+    projects.some(canScheduleIn),
     [projects]
   );
 
@@ -52,14 +54,14 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
       // "All projects" - show admin UI if user is admin in at least one project
       return hasAnyAdminRole ? 'admin' : 'user';
     }
-    // Specific project - check admin status for that project
+    // Specific project - check scheduling permission for that project
     const project = projects.find(p => p.id === filterProjectId);
-    return project?.is_admin ? 'admin' : 'user';
+    return canScheduleIn(project) ? 'admin' : 'user';
   }, [filterProjectId, projects, hasAnyAdminRole]);
 
-  // Get list of projects where user is admin
+  // Get list of projects where user can schedule rehearsals
   const adminProjects = useMemo(() =>
-    projects.filter(p => p.is_admin),
+    projects.filter(canScheduleIn),
     [projects]
   );
 
@@ -82,7 +84,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
     updateAdminStats,
   } = useRehearsals(projects, filterProjectId);
 
-  const { respondingId, toggleLike } = useRSVP();
+  const { respondingId, toggleLike, respondMaybe } = useRSVP();
 
   const handleDayLongPress = useCallback((date: string) => {
     setModalDate(date);
@@ -110,6 +112,59 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
     }, [fetchRehearsals])
   );
 
+  // Rehearsal opened from a push notification: show its details once it is loaded
+  const linkedRehearsalId = route.params?.rehearsalId;
+
+  useEffect(() => {
+    if (linkedRehearsalId) {
+      // The screen may already be focused with a list from before the change
+      fetchRehearsals();
+    }
+  }, [linkedRehearsalId]);
+
+  useEffect(() => {
+    if (!linkedRehearsalId) {
+      return;
+    }
+    // The rehearsal may belong to a project hidden by the filter
+    if (filterProjectId !== null) {
+      setFilterProjectId(null);
+      return;
+    }
+    const rehearsal = rehearsals.find(r => r.id === linkedRehearsalId);
+    if (rehearsal) {
+      if (rehearsal.date) {
+        setSelectedDate(rehearsal.date);
+      }
+      setSelectedRehearsalForDetails(rehearsal);
+      setDetailsModalVisible(true);
+      navigation.setParams({ rehearsalId: undefined });
+    }
+  }, [linkedRehearsalId, rehearsals, filterProjectId, navigation]);
+
+  const performDelete = async (projectId: string, rehearsalId: string, scope?: SeriesScope) => {
+    try {
+      const response = await rehearsalsAPI.delete(projectId, rehearsalId, scope);
+      // Series deletes can remove several occurrences at once
+      const deletedIds: string[] = response?.data?.deletedIds || [rehearsalId];
+
+      // Auto-unsync from calendar if it was synced
+      try {
+        await unsyncRehearsals(deletedIds);
+      } catch (syncError) {
+        // Don't fail the whole operation if unsync fails
+        console.error('[CalendarScreen] Failed to unsync from calendar:', syncError);
+      }
+      await cancelRehearsalReminders(deletedIds);
+
+      // Refetch rehearsals after deletion
+      await fetchRehearsals();
+    } catch (err: any) {
+      console.error('Failed to delete rehearsal:', err);
+      Alert.alert(t.common.error, err.message || t.rehearsals.createError);
+    }
+  };
+
   const handleDeleteRehearsal = async (rehearsalId: string) => {
     // Find the rehearsal to get its projectId
     const rehearsal = rehearsals.find(r => r.id === rehearsalId);
@@ -117,6 +172,21 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
 
     if (!projectId) return;
 
+    // Series occurrence: ask which occurrences to delete
+    if (rehearsal?.seriesId) {
+      Alert.alert(
+        t.rehearsals.seriesDeleteTitle,
+        t.rehearsals.deleteMessage,
+        [
+          { text: t.rehearsals.scopeOccurrence, onPress: () => performDelete(projectId, rehearsalId, 'occurrence') },
+          { text: t.rehearsals.scopeFollowing, onPress: () => performDelete(projectId, rehearsalId, 'following') },
+          { text: t.rehearsals.scopeSeries, style: 'destructive', onPress: () => performDelete(projectId, rehearsalId, 'series') },
+          { text: t.common.cancel, style: 'cancel' },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       t.rehearsals.deleteTitle,
       t.rehearsals.deleteMessage,
@@ -125,25 +195,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
         {
           text: t.rehearsals.deleteConfirm,
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await rehearsalsAPI.delete(projectId, rehearsalId);
-
-              // Auto-unsync from calendar if it was synced
-              try {
-                await unsyncRehearsal(rehearsalId);
-              } catch (syncError) {
-                // Don't fail the whole operation if unsync fails
-                console.error('[CalendarScreen] Failed to unsync from calendar:', syncError);
-              }
-
-              // Refetch rehearsals after deletion
-              await fetchRehearsals();
-            } catch (err: any) {
-              console.error('Failed to delete rehearsal:', err);
-              Alert.alert(t.common.error, err.message || t.rehearsals.createError);
-            }
-          },
+          onPress: () => performDelete(projectId, rehearsalId),
         },
       ]
     );
@@ -162,7 +214,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
 
   // Check if user is admin for the filtered project
   const isAdminForFilter = filterProjectId
-    ? projects.find(p => p.id === filterProjectId)?.is_admin
+    ? canScheduleIn(projects.find(p => p.id === filterProjectId))
     : false;
 
   // Get rehearsals for selected date (defaults to today)
@@ -309,6 +361,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
           respondingId={respondingId}
           adminStats={adminStats}
           onRSVP={toggleLike}
+          onMaybe={respondMaybe}
           onDeleteRehearsal={handleDeleteRehearsal}
           setRsvpResponses={setRsvpResponses}
           setAdminStats={setAdminStats}
@@ -343,7 +396,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
                 const isResponding = respondingId === rehearsal.id;
                 const project = projects.find(p => p.id === rehearsal.projectId);
                 // Check if user is admin for THIS specific rehearsal's project
-                const isAdminForThisRehearsal = project?.is_admin || false;
+                const isAdminForThisRehearsal = canScheduleIn(project);
                 const stats = adminStats[rehearsal.id];
 
                 return (
@@ -421,9 +474,13 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
                         disabled={isResponding}
                       >
                         <Ionicons
-                          name={currentResponse === 'yes' ? 'heart' : 'heart-outline'}
+                          name={currentResponse === 'yes' ? 'heart' : currentResponse === 'maybe' ? 'help-circle' : 'heart-outline'}
                           size={24}
-                          color={currentResponse === 'yes' ? Colors.accent.red : Colors.text.secondary}
+                          color={
+                            currentResponse === 'yes'
+                              ? Colors.accent.red
+                              : currentResponse === 'maybe' ? Colors.accent.yellow : Colors.text.secondary
+                          }
                         />
                         {stats && (stats.confirmed > 0 || isAdminForThisRehearsal) && (() => {
                           const displayText = isAdminForThisRehearsal && stats.invited > 0
@@ -453,7 +510,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
         date={modalDate}
         rehearsals={modalRehearsals}
         onDeleteRehearsal={handleDeleteRehearsal}
-        isAdmin={selectedProject?.is_admin}
+        isAdmin={canScheduleIn(selectedProject)}
       />
 
       {/* My Rehearsals Modal */}
@@ -461,6 +518,7 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
         visible={myRehearsalsVisible}
         onClose={handleMyRehearsalsClose}
         rehearsals={rehearsals}
+        rsvpResponses={rsvpResponses}
         onSelectDate={handleSelectDateFromModal}
       />
 
@@ -470,13 +528,14 @@ export default function CalendarScreen({ navigation }: CalendarScreenProps) {
         onClose={() => setDetailsModalVisible(false)}
         rehearsal={selectedRehearsalForDetails}
         project={selectedRehearsalForDetails ? projects.find(p => p.id === selectedRehearsalForDetails.projectId) || null : null}
-        isAdmin={selectedRehearsalForDetails ? projects.find(p => p.id === selectedRehearsalForDetails.projectId)?.is_admin || false : false}
+        isAdmin={selectedRehearsalForDetails ? canScheduleIn(projects.find(p => p.id === selectedRehearsalForDetails.projectId)) : false}
         currentResponse={selectedRehearsalForDetails ? rsvpResponses[selectedRehearsalForDetails.id] : null}
         onRSVP={toggleLike}
+        onMaybe={respondMaybe}
         onRSVPSuccess={(id, status, serverStats) => {
           setRsvpResponses(prev => ({ ...prev, [id]: status }));
           if (serverStats && selectedRehearsalForDetails) {
-            const isAdminForThisRehearsal = projects.find(p => p.id === selectedRehearsalForDetails.projectId)?.is_admin || false;
+            const isAdminForThisRehearsal = canScheduleIn(projects.find(p => p.id === selectedRehearsalForDetails.projectId));
             if (isAdminForThisRehearsal) {
               setAdminStats(prev => ({ ...prev, [id]: serverStats }));
             }
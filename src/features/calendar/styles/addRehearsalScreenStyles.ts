@@ -77,6 +77,25 @@ export const styles = StyleSheet.create({
     fontSize: FontSize.base,
     color: Colors.text.primary,
   },
+  seriesBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+  },
+  seriesBadgeText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+    color: Colors.accent.purple,
+  },
+  hintText: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
   submitButton: {
     backgroundColor: Colors.accent.purple,
     borderRadius: BorderRadius.md,
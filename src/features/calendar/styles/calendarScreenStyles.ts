@@ -154,6 +154,21 @@ export const styles = StyleSheet.create({
     color: Colors.text.secondary,
     flex: 1,
   },
+  upcomingDeadlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  upcomingDeadline: {
+    fontSize: FontSize.sm,
+    color: Colors.accent.yellow,
+    flex: 1,
+  },
+  upcomingDeadlineOverdue: {
+    color: Colors.accent.red,
+    fontWeight: FontWeight.semibold,
+  },
   rehearsalsSection: {
     marginTop: Spacing.xxl,
   },
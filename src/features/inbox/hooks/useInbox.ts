@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react';
+import { notificationsAPI } from '../../../shared/services/api';
+import { InboxNotification } from '../../../shared/types';
+import { useUnreadCount } from '../../../contexts/InboxContext';
+
+/**
+ * Hook for the notification inbox
+ * Loads a page at a time, newest first; marking entries as read keeps the tab badge in step
+ */
+export const useInbox = () => {
+  const { setUnreadCount } = useUnreadCount();
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInbox = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await notificationsAPI.getInbox();
+      setNotifications(response.data.notifications || []);
+      setHasMore(Boolean(response.data.hasMore));
+      setUnreadCount(response.data.unreadCount || 0);
+    } catch (err: any) {
+      console.error('Failed to load notifications:', err);
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [setUnreadCount]);
+
+  const loadMore = async () => {
+    const last = notifications[notifications.length - 1];
+    if (!hasMore || loadingMore || !last) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await notificationsAPI.getInbox({ before: last.id });
+      setNotifications(prev => [...prev, ...(response.data.notifications || [])]);
+      setHasMore(Boolean(response.data.hasMore));
+    } catch (err) {
+      console.error('Failed to load more notifications:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const markRead = async (notificationId: string) => {
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      notification.id === notificationId && !notification.readAt
+        ? { ...notification, readAt: now }
+        : notification
+    ));
+    const response = await notificationsAPI.markRead([notificationId]);
+    setUnreadCount(response.data.unreadCount || 0);
+  };
+
+  const markAllRead = async () => {
+    const now = new Date().toISOString();
+    await notificationsAPI.markAllRead();
+    setNotifications(prev => prev.map(notification =>
+      notification.readAt ? notification : { ...notification, readAt: now }
+    ));
+    setUnreadCount(0);
+  };
+
+  return {
+    notifications,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadInbox,
+    loadMore,
+    markRead,
+    markAllRead,
+  };
+};
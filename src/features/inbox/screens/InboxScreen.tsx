@@ -0,0 +1,171 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../../shared/constants/colors';
+import { useI18n } from '../../../contexts/I18nContext';
+import { InboxNotification } from '../../../shared/types';
+import { getNotificationTarget, getNotificationRoute, NotificationType } from '../../../shared/utils/notificationLinks';
+import { ProfileStackParamList } from '../../../navigation';
+import { useInbox } from '../hooks/useInbox';
+import { inboxScreenStyles as styles } from '../styles';
+
+type InboxScreenProps = NativeStackScreenProps<ProfileStackParamList, 'Inbox'>;
+
+const ICONS: Record<NotificationType, keyof typeof Ionicons.glyphMap> = {
+  rehearsal_created: 'calendar-outline',
+  rehearsal_updated: 'time-outline',
+  rehearsal_cancelled: 'close-circle-outline',
+  rsvp_received: 'checkmark-circle-outline',
+  rsvp_reminder: 'help-circle-outline',
+  join_request: 'person-add-outline',
+  role_changed: 'ribbon-outline',
+  rehearsal_reminder: 'alarm-outline',
+};
+
+export default function InboxScreen({ navigation }: InboxScreenProps) {
+  const { t, language } = useI18n();
+  // Entries open screens of other tabs
+  const appNavigation = useNavigation<any>();
+  const {
+    notifications,
+    loading,
+    loadingMore,
+    error,
+    loadInbox,
+    loadMore,
+    markRead,
+    markAllRead,
+  } = useInbox();
+
+  // Reload whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      loadInbox();
+    }, [loadInbox])
+  );
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (!notification.readAt) {
+      markRead(notification.id).catch(err => console.error('Failed to mark notification as read:', err));
+    }
+
+    const target = getNotificationTarget(notification.data);
+    if (target) {
+      appNavigation.navigate('MainTabs', getNotificationRoute(target));
+    }
+  };
+
+  const handleMarkAllRead = () => {
+    markAllRead().catch(err => console.error('Failed to mark notifications as read:', err));
+  };
+
+  const hasUnread = notifications.some(notification => !notification.readAt);
+
+  const renderItem = ({ item }: { item: InboxNotification }) => {
+    const unread = !item.readAt;
+    return (
+      <TouchableOpacity
+        style={[styles.item, unread && styles.itemUnread]}
+        onPress={() => handleOpen(item)}
+      >
+        <View style={styles.itemIcon}>
+          <Ionicons
+            name={ICONS[item.type as NotificationType] || 'notifications-outline'}
+            size={20}
+            color={Colors.accent.purple}
+          />
+        </View>
+        <View style={styles.itemContent}>
+          <Text style={styles.itemTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.itemBody}>{item.body}</Text>
+          <Text style={styles.itemDate}>{formatDate(item.createdAt)}</Text>
+        </View>
+        {unread && <View style={styles.unreadDot} />}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.accent.purple} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>{t.inbox.loadError}</Text>
+          <TouchableOpacity onPress={loadInbox}>
+            <Text style={styles.retryText}>{t.inbox.retry}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="notifications-off-outline" size={48} color={Colors.text.tertiary} />
+        <Text style={styles.emptyTitle}>{t.inbox.empty}</Text>
+        <Text style={styles.emptyHint}>{t.inbox.emptyHint}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t.inbox.title}</Text>
+        {hasUnread && (
+          <TouchableOpacity onPress={handleMarkAllRead} style={styles.markAllButton}>
+            <Text style={styles.markAllText}>{t.inbox.markAllRead}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={notifications}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={renderEmpty}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? (
+          <ActivityIndicator size="small" color={Colors.accent.purple} style={styles.footer} />
+        ) : null}
+        refreshControl={
+          <RefreshControl
+            refreshing={loading && notifications.length > 0}
+            onRefresh={loadInbox}
+            tintColor={Colors.accent.purple}
+          />
+        }
+      />
+    </SafeAreaView>
+  );
+}
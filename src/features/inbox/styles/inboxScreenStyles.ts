@@ -0,0 +1,116 @@
+import { StyleSheet } from 'react-native';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.bg.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  backButton: {
+    marginRight: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: FontWeight.bold,
+    color: Colors.text.primary,
+    flex: 1,
+  },
+  markAllButton: {
+    paddingVertical: Spacing.xs,
+  },
+  markAllText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.purple,
+  },
+  list: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.xxl * 2,
+    flexGrow: 1,
+  },
+
+  // Entry
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  itemUnread: {
+    borderColor: Colors.accent.purple,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+  },
+  itemContent: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.secondary,
+  },
+  itemBody: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  itemDate: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+    marginTop: Spacing.xs,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.accent.purple,
+    marginTop: Spacing.xs,
+  },
+
+  // Empty, loading and error states
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  emptyTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.purple,
+    marginTop: Spacing.sm,
+  },
+  footer: {
+    paddingVertical: Spacing.md,
+  },
+});
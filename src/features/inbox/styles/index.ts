@@ -0,0 +1 @@
+export { styles as inboxScreenStyles } from './inboxScreenStyles';
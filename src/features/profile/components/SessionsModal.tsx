@@ -0,0 +1,253 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { UserSession } from '../../../shared/types';
+import { useI18n } from '../../../contexts/I18nContext';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useSessions } from '../hooks/useSessions';
+
+interface SessionsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const SessionsModal: React.FC<SessionsModalProps> = ({ visible, onClose }) => {
+  const { t, language } = useI18n();
+  const { logoutEverywhere } = useAuth();
+  const { sessions, loading, error, loadSessions, revokeSession } = useSessions();
+
+  // Reload each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      loadSessions();
+    }
+  }, [visible, loadSessions]);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const handleRevoke = (session: UserSession) => {
+    Alert.alert(
+      t.profile.revokeSession,
+      t.profile.revokeSessionConfirm(session.deviceName || t.profile.unknownDevice),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.profile.revokeSession,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeSession(session.id);
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || err.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeAll = () => {
+    Alert.alert(
+      t.profile.revokeAllSessions,
+      t.profile.revokeAllSessionsConfirm,
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.profile.revokeAllSessions,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await logoutEverywhere();
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || err.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{t.profile.sessions}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.hint}>{t.profile.sessionsHint}</Text>
+
+            {loading ? (
+              <ActivityIndicator size="small" color={Colors.accent.purple} style={styles.loader} />
+            ) : error ? (
+              <Text style={styles.errorText}>{t.profile.sessionsError}</Text>
+            ) : (
+              sessions.map(session => (
+                <View key={session.id} style={styles.sessionItem}>
+                  <Ionicons
+                    name={session.current ? 'phone-portrait' : 'phone-portrait-outline'}
+                    size={20}
+                    color={session.current ? Colors.accent.purple : Colors.text.secondary}
+                  />
+                  <View style={styles.sessionInfo}>
+                    <Text style={styles.deviceName} numberOfLines={1}>
+                      {session.deviceName || t.profile.unknownDevice}
+                    </Text>
+                    <Text style={styles.sessionMeta}>
+                      {session.current
+                        ? t.profile.thisDevice
+                        : t.profile.sessionLastUsed(formatDate(session.lastUsedAt))}
+                    </Text>
+                  </View>
+                  {!session.current && (
+                    <TouchableOpacity onPress={() => handleRevoke(session)} style={styles.revokeButton}>
+                      <Text style={styles.revokeButtonText}>{t.profile.revokeSession}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.revokeAllButton} onPress={handleRevokeAll}>
+              <Ionicons name="log-out-outline" size={18} color={Colors.accent.red} />
+              <Text style={styles.revokeAllButtonText}>{t.profile.revokeAllSessions}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    maxHeight: '80%',
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+  },
+  loader: {
+    marginVertical: Spacing.lg,
+  },
+  errorText: {
+    fontSize: FontSize.sm,
+    color: Colors.accent.red,
+    textAlign: 'center',
+    marginVertical: Spacing.lg,
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  deviceName: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  sessionMeta: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
+  revokeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  revokeButtonText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.red,
+  },
+  actions: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  revokeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.accent.red,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  revokeAllButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.red,
+  },
+});
@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { authAPI } from '../../../shared/services/api';
+import { UserSession } from '../../../shared/types';
+
+/**
+ * Hook for the devices the user is signed in on
+ * Sessions are loaded on demand, when the sessions list is opened
+ */
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authAPI.getSessions();
+      setSessions(response.data.sessions || []);
+    } catch (err: any) {
+      console.error('Failed to load sessions:', err);
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revokeSession = async (sessionId: string) => {
+    await authAPI.revokeSession(sessionId);
+    setSessions(prev => prev.filter(session => session.id !== sessionId));
+  };
+
+  return {
+    sessions,
+    loading,
+    error,
+    loadSessions,
+    revokeSession,
+  };
+};
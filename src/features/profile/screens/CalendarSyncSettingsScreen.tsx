@@ -10,6 +10,7 @@ import {
   FlatList,
   Alert,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
@@ -21,6 +22,13 @@ import { calendarSyncSettingsScreenStyles as styles } from '../styles';
 import { useCalendarSync } from '../../calendar/hooks/useCalendarSync';
 import { DeviceCalendar, RehearsalWithProject } from '../../../shared/types/calendar';
 import { rehearsalsAPI } from '../../../shared/services/api';
+import { getExportTemplate, saveExportTemplate } from '../../../shared/utils/calendarStorage';
+import {
+  TEMPLATE_PLACEHOLDERS,
+  ALARM_OFFSET_OPTIONS,
+  DEFAULT_EXPORT_TEMPLATE,
+  TemplatePlaceholder,
+} from '../../../shared/utils/eventTemplate';
 
 type CalendarSyncSettingsScreenProps = NativeStackScreenProps<any, 'CalendarSyncSettings'>;
 
@@ -63,6 +71,20 @@ export default function CalendarSyncSettingsScreen({ navigation }: CalendarSyncS
     settings?.importInterval || 'manual'
   );
 
+  const [titleTemplate, setTitleTemplate] = useState(DEFAULT_EXPORT_TEMPLATE.titleTemplate);
+  const [notesTemplate, setNotesTemplate] = useState(DEFAULT_EXPORT_TEMPLATE.notesTemplate);
+  const [alarmOffsets, setAlarmOffsets] = useState<number[]>(DEFAULT_EXPORT_TEMPLATE.alarmOffsets);
+  // Field the placeholder chips insert into
+  const [templateField, setTemplateField] = useState<'title' | 'notes'>('title');
+
+  useEffect(() => {
+    getExportTemplate().then(template => {
+      setTitleTemplate(template.titleTemplate);
+      setNotesTemplate(template.notesTemplate);
+      setAlarmOffsets(template.alarmOffsets);
+    });
+  }, []);
+
   // Update local state when settings change
   useEffect(() => {
     if (settings) {
@@ -186,6 +208,7 @@ export default function CalendarSyncSettingsScreen({ navigation }: CalendarSyncS
             location: r.location,
             title: r.title,
             description: r.description,
+            scenes: r.scenes,
           }));
 
           await syncAll(allRehearsals);
@@ -222,6 +245,35 @@ export default function CalendarSyncSettingsScreen({ navigation }: CalendarSyncS
   };
 
 
+  const handleInsertPlaceholder = (placeholder: TemplatePlaceholder) => {
+    if (templateField === 'title') {
+      setTitleTemplate(prev => `${prev}{${placeholder}}`);
+    } else {
+      setNotesTemplate(prev => `${prev}{${placeholder}}`);
+    }
+  };
+
+  const handleToggleAlarm = (offset: number) => {
+    setAlarmOffsets(prev =>
+      prev.includes(offset) ? prev.filter(o => o !== offset) : [...prev, offset]
+    );
+  };
+
+  const handleResetTemplate = () => {
+    setTitleTemplate(DEFAULT_EXPORT_TEMPLATE.titleTemplate);
+    setNotesTemplate(DEFAULT_EXPORT_TEMPLATE.notesTemplate);
+    setAlarmOffsets(DEFAULT_EXPORT_TEMPLATE.alarmOffsets);
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      await saveExportTemplate({ titleTemplate, notesTemplate, alarmOffsets });
+      Alert.alert(t.calendarSync.templateSaved, t.calendarSync.templateSavedMessage);
+    } catch (error: any) {
+      Alert.alert(t.calendarSync.templateSaveError, error.message);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
@@ -292,6 +344,79 @@ export default function CalendarSyncSettingsScreen({ navigation }: CalendarSyncS
                 />
               </View>
             )}
+
+            {/* Export Template */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t.calendarSync.exportTemplate}</Text>
+
+              <Text style={styles.fieldLabel}>{t.calendarSync.titleTemplate}</Text>
+              <TextInput
+                style={styles.templateInput}
+                value={titleTemplate}
+                onChangeText={setTitleTemplate}
+                onFocus={() => setTemplateField('title')}
+                placeholder={DEFAULT_EXPORT_TEMPLATE.titleTemplate}
+                placeholderTextColor={Colors.text.tertiary}
+                autoCapitalize="none"
+              />
+
+              <Text style={styles.fieldLabel}>{t.calendarSync.notesTemplate}</Text>
+              <TextInput
+                style={[styles.templateInput, styles.templateInputMultiline]}
+                value={notesTemplate}
+                onChangeText={setNotesTemplate}
+                onFocus={() => setTemplateField('notes')}
+                placeholderTextColor={Colors.text.tertiary}
+                autoCapitalize="none"
+                multiline
+              />
+
+              <Text style={styles.fieldLabel}>{t.calendarSync.templatePlaceholders}</Text>
+              <View style={styles.chipRow}>
+                {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                  <TouchableOpacity
+                    key={placeholder}
+                    style={styles.chip}
+                    onPress={() => handleInsertPlaceholder(placeholder)}
+                  >
+                    <Text style={styles.chipText}>{`{${placeholder}}`}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.fieldLabel}>
+                {t.calendarSync.alarms}{alarmOffsets.length === 0 ? ` · ${t.calendarSync.noAlarms}` : ''}
+              </Text>
+              <View style={styles.chipRow}>
+                {ALARM_OFFSET_OPTIONS.map(offset => {
+                  const isSelected = alarmOffsets.includes(offset);
+                  return (
+                    <TouchableOpacity
+                      key={offset}
+                      style={[styles.chip, isSelected && styles.chipActive]}
+                      onPress={() => handleToggleAlarm(offset)}
+                    >
+                      <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                        {t.reminders.offset(offset)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <GlassButton
+                title={t.calendarSync.saveTemplate}
+                onPress={handleSaveTemplate}
+                variant="purple"
+                style={styles.actionButton}
+              />
+              <GlassButton
+                title={t.calendarSync.resetTemplate}
+                onPress={handleResetTemplate}
+                variant="glass"
+                style={styles.actionButton}
+              />
+            </View>
           </>
         )}
       </ScrollView>
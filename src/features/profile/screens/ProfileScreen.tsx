@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, SafeAreaView, ScrollView, TouchableOpacity, Switch, Modal, FlatList, Alert } from 'react-native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { CompositeScreenProps } from '@react-navigation/native';
@@ -7,9 +7,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../../shared/constants/colors';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useI18n } from '../../../contexts/I18nContext';
+import { useUnreadCount } from '../../../contexts/InboxContext';
+import { getReminderSettings, saveReminderSettings } from '../../../shared/services/localReminders';
+import { REMINDER_OFFSET_OPTIONS, normalizeReminderOffsets } from '../../../shared/utils/reminders';
 import { GlassButton } from '../../../shared/components';
+import { authAPI } from '../../../shared/services/api';
 import { ProfileStackParamList } from '../../../navigation';
 import { profileScreenStyles as styles } from '../styles';
+import { SessionsModal } from '../components/SessionsModal';
 
 type ProfileScreenProps = NativeStackScreenProps<ProfileStackParamList, 'ProfileMain'>;
 
@@ -35,12 +40,25 @@ const WEEK_START_OPTIONS = [
   { value: 'sunday' as const, labelKey: 'weekStartSunday' as const },
 ];
 
+// Email digest options; 'off' turns email notifications off
+type EmailDigestOption = 'off' | 'daily' | 'weekly';
+const EMAIL_DIGEST_OPTIONS = [
+  { value: 'off' as const, labelKey: 'emailDigestOff' as const },
+  { value: 'daily' as const, labelKey: 'emailDigestDaily' as const },
+  { value: 'weekly' as const, labelKey: 'emailDigestWeekly' as const },
+];
+
 export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   const { user, logout, updateUser } = useAuth();
   const { t, language, setLanguage } = useI18n();
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const { unreadCount } = useUnreadCount();
   const [timezoneModalVisible, setTimezoneModalVisible] = useState(false);
   const [weekStartModalVisible, setWeekStartModalVisible] = useState(false);
+  const [emailDigestModalVisible, setEmailDigestModalVisible] = useState(false);
+  const [remindersModalVisible, setRemindersModalVisible] = useState(false);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [sendingVerification, setSendingVerification] = useState(false);
+  const [sessionsModalVisible, setSessionsModalVisible] = useState(false);
 
   const handleLogout = async () => {
     await logout();
@@ -58,6 +76,27 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     }
   };
 
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    try {
+      // The server stops pushing when this is off; turning it on registers the device again
+      await updateUser({ notificationsEnabled: enabled });
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.message);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setSendingVerification(true);
+      await authAPI.sendVerificationEmail();
+      Alert.alert(t.auth.verificationSent, t.auth.verificationSentText(user?.email || ''));
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.auth.verificationError);
+    } finally {
+      setSendingVerification(false);
+    }
+  };
+
   const handleTimezoneSelect = async (timezone: string) => {
     try {
       await updateUser({ timezone });
@@ -86,6 +125,51 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     return weekStart === 'monday' ? t.profile.weekStartMonday : t.profile.weekStartSunday;
   };
 
+  const currentEmailDigest: EmailDigestOption = user?.emailNotifications === false
+    ? 'off'
+    : user?.emailDigestFrequency || 'weekly';
+
+  const handleEmailDigestSelect = async (option: EmailDigestOption) => {
+    try {
+      await updateUser(option === 'off'
+        ? { emailNotifications: false }
+        : { emailNotifications: true, emailDigestFrequency: option });
+      setEmailDigestModalVisible(false);
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.message);
+    }
+  };
+
+  useEffect(() => {
+    getReminderSettings().then(settings => setReminderOffsets(settings.offsets));
+  }, []);
+
+  const handleReminderOffsetToggle = async (offset: number) => {
+    const offsets = normalizeReminderOffsets(
+      reminderOffsets.includes(offset)
+        ? reminderOffsets.filter(o => o !== offset)
+        : [...reminderOffsets, offset]
+    );
+    setReminderOffsets(offsets);
+    try {
+      await saveReminderSettings({ offsets });
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.message);
+    }
+  };
+
+  const getCurrentRemindersLabel = () => {
+    if (reminderOffsets.length === 0) {
+      return t.reminders.off;
+    }
+    return reminderOffsets.map(offset => t.reminders.offset(offset)).join(', ');
+  };
+
+  const getCurrentEmailDigestLabel = () => {
+    const option = EMAIL_DIGEST_OPTIONS.find(o => o.value === currentEmailDigest);
+    return option ? t.profile[option.labelKey] : '';
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
@@ -103,12 +187,40 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             {user?.firstName ? `${user.firstName}${user.lastName ? ` ${user.lastName}` : ''}` : 'User'}
           </Text>
           <Text style={styles.userEmail}>{user?.email}</Text>
+          {user?.email && user.emailVerified === false && (
+            <TouchableOpacity
+              style={styles.verifyEmailRow}
+              onPress={handleResendVerification}
+              disabled={sendingVerification}
+            >
+              <Ionicons name="alert-circle-outline" size={14} color={Colors.accent.yellow} />
+              <Text style={styles.verifyEmailText}>
+                {t.auth.emailNotVerified} · {t.auth.resendVerification}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Settings Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t.profile.settings}</Text>
 
+          {/* Inbox */}
+          <TouchableOpacity style={styles.settingItem} onPress={() => navigation.navigate('Inbox')}>
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: 'rgba(168, 85, 247, 0.15)' }]}>
+                <Ionicons name="mail-unread-outline" size={20} color={Colors.accent.purple} />
+              </View>
+              <Text style={styles.settingLabel}>{t.inbox.title}</Text>
+            </View>
+            <View style={styles.settingRight}>
+              {unreadCount > 0 && (
+                <Text style={styles.settingValue}>{t.inbox.unreadCount(unreadCount)}</Text>
+              )}
+              <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
+            </View>
+          </TouchableOpacity>
+
           {/* Notifications */}
           <View style={styles.settingItem}>
             <View style={styles.settingLeft}>
@@ -118,8 +230,8 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
               <Text style={styles.settingLabel}>{t.profile.notifications}</Text>
             </View>
             <Switch
-              value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              value={user?.notificationsEnabled !== false}
+              onValueChange={handleNotificationsToggle}
               trackColor={{ false: Colors.bg.tertiary, true: Colors.accent.purple }}
               thumbColor={Colors.text.inverse}
             />
@@ -173,6 +285,38 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             </View>
           </TouchableOpacity>
 
+          {/* Reminders */}
+          <TouchableOpacity style={styles.settingItem} onPress={() => setRemindersModalVisible(true)}>
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: 'rgba(168, 85, 247, 0.15)' }]}>
+                <Ionicons name="alarm" size={20} color={Colors.accent.purple} />
+              </View>
+              <Text style={styles.settingLabel}>{t.reminders.title}</Text>
+            </View>
+            <View style={styles.settingRight}>
+              <Text style={styles.settingValue} numberOfLines={1}>
+                {getCurrentRemindersLabel()}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
+            </View>
+          </TouchableOpacity>
+
+          {/* Email Digest */}
+          <TouchableOpacity style={styles.settingItem} onPress={() => setEmailDigestModalVisible(true)}>
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: 'rgba(59, 130, 246, 0.15)' }]}>
+                <Ionicons name="mail" size={20} color={Colors.accent.blue} />
+              </View>
+              <Text style={styles.settingLabel}>{t.profile.emailDigest}</Text>
+            </View>
+            <View style={styles.settingRight}>
+              <Text style={styles.settingValue}>
+                {getCurrentEmailDigestLabel()}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
+            </View>
+          </TouchableOpacity>
+
           {/* Calendar Sync */}
           <TouchableOpacity style={styles.settingItem} onPress={() => navigation.navigate('CalendarSyncSettings')}>
             <View style={styles.settingLeft}>
@@ -183,6 +327,17 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             </View>
             <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
           </TouchableOpacity>
+
+          {/* Active Sessions */}
+          <TouchableOpacity style={styles.settingItem} onPress={() => setSessionsModalVisible(true)}>
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: 'rgba(16, 185, 129, 0.15)' }]}>
+                <Ionicons name="phone-portrait-outline" size={20} color={Colors.accent.green} />
+              </View>
+              <Text style={styles.settingLabel}>{t.profile.sessions}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
+          </TouchableOpacity>
         </View>
 
         {/* About Section */}
@@ -311,6 +466,107 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           </View>
         </View>
       </Modal>
+
+      {/* Reminders Modal */}
+      <Modal
+        visible={remindersModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setRemindersModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t.reminders.title}</Text>
+              <TouchableOpacity onPress={() => setRemindersModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text.secondary} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalHint}>{t.reminders.hint}</Text>
+            <View style={styles.timezoneList}>
+              {[...REMINDER_OFFSET_OPTIONS].reverse().map((offset) => {
+                const isSelected = reminderOffsets.includes(offset);
+                return (
+                  <TouchableOpacity
+                    key={offset}
+                    style={[
+                      styles.timezoneItem,
+                      isSelected && styles.timezoneItemSelected,
+                    ]}
+                    onPress={() => handleReminderOffsetToggle(offset)}
+                  >
+                    <Text
+                      style={[
+                        styles.timezoneLabel,
+                        isSelected && styles.timezoneLabelSelected,
+                      ]}
+                    >
+                      {t.reminders.offsetBefore(offset)}
+                    </Text>
+                    {isSelected && (
+                      <Ionicons name="checkmark" size={20} color={Colors.accent.purple} />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Email Digest Modal */}
+      <Modal
+        visible={emailDigestModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setEmailDigestModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t.profile.emailDigest}</Text>
+              <TouchableOpacity onPress={() => setEmailDigestModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text.secondary} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalHint}>
+              {user?.emailVerified === false ? t.profile.emailDigestUnverified : t.profile.emailDigestHint}
+            </Text>
+            <View style={styles.timezoneList}>
+              {EMAIL_DIGEST_OPTIONS.map((option) => {
+                const isSelected = currentEmailDigest === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.timezoneItem,
+                      isSelected && styles.timezoneItemSelected,
+                    ]}
+                    onPress={() => handleEmailDigestSelect(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.timezoneLabel,
+                        isSelected && styles.timezoneLabelSelected,
+                      ]}
+                    >
+                      {t.profile[option.labelKey]}
+                    </Text>
+                    {isSelected && (
+                      <Ionicons name="checkmark" size={20} color={Colors.accent.purple} />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <SessionsModal
+        visible={sessionsModalVisible}
+        onClose={() => setSessionsModalVisible(false)}
+      />
     </SafeAreaView>
   );
 }
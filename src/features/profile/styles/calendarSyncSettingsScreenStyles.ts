@@ -139,6 +139,56 @@ export const styles = StyleSheet.create({
     fontWeight: FontWeight.semibold,
   },
 
+  // Export template
+  fieldLabel: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+  templateInput: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+    minHeight: 44,
+    marginBottom: Spacing.md,
+  },
+  templateInputMultiline: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    backgroundColor: Colors.glass.bg,
+  },
+  chipActive: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+    borderColor: Colors.accent.purple,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  chipTextActive: {
+    color: Colors.accent.purple,
+    fontWeight: FontWeight.semibold,
+  },
+
   // Action buttons
   actionButton: {
     marginBottom: Spacing.md,
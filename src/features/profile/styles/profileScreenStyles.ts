@@ -43,6 +43,16 @@ export const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     color: Colors.text.secondary,
   },
+  verifyEmailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  verifyEmailText: {
+    fontSize: FontSize.xs,
+    color: Colors.accent.yellow,
+  },
   section: {
     marginBottom: Spacing.xl,
   },
@@ -120,6 +130,13 @@ export const styles = StyleSheet.create({
     fontWeight: FontWeight.semibold,
     color: Colors.text.primary,
   },
+  modalHint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
   timezoneList: {
     paddingBottom: Spacing.xxl,
   },
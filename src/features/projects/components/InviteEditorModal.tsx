@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { ProjectRole } from '../../../shared/types';
+import { useI18n } from '../../../contexts/I18nContext';
+import { InviteInput } from '../hooks/useInviteLink';
+
+// Lifetimes offered for a new link; null = never expires
+const EXPIRY_OPTIONS: (number | null)[] = [1, 7, 30, null];
+const DEFAULT_EXPIRY_DAYS = 7;
+
+interface InviteEditorModalProps {
+  visible: boolean;
+  // Roles the current member may hand out (only the owner can invite admins)
+  roles: ProjectRole[];
+  onClose: () => void;
+  onSave: (data: InviteInput) => Promise<void>;
+}
+
+export const InviteEditorModal: React.FC<InviteEditorModalProps> = ({
+  visible,
+  roles,
+  onClose,
+  onSave,
+}) => {
+  const { t } = useI18n();
+  const [label, setLabel] = useState('');
+  const [role, setRole] = useState<ProjectRole>('member');
+  const [maxUses, setMaxUses] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(DEFAULT_EXPIRY_DAYS);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setLabel('');
+      setRole('member');
+      setMaxUses('');
+      setExpiresInDays(DEFAULT_EXPIRY_DAYS);
+      setRequiresApproval(false);
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    // Empty limit = unlimited
+    const limit = maxUses.trim() ? Number(maxUses.trim()) : null;
+    if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+      Alert.alert(t.common.error, t.projects.inviteMaxUsesInvalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ label, role, maxUses: limit, expiresInDays, requiresApproval });
+      onClose();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.inviteError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{t.projects.newInvite}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>{t.projects.inviteLabel}</Text>
+            <TextInput
+              style={styles.input}
+              value={label}
+              onChangeText={setLabel}
+              placeholder={t.projects.inviteLabelPlaceholder}
+              placeholderTextColor={Colors.text.tertiary}
+              maxLength={100}
+            />
+
+            <Text style={styles.label}>{t.projects.inviteRole}</Text>
+            <View style={styles.chips}>
+              {roles.map(option => {
+                const selected = option === role;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => setRole(option)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                      {t.projects.roleLabels[option]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>{t.projects.inviteMaxUses}</Text>
+            <TextInput
+              style={styles.input}
+              value={maxUses}
+              onChangeText={setMaxUses}
+              placeholder={t.projects.inviteUnlimited}
+              placeholderTextColor={Colors.text.tertiary}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.label}>{t.projects.inviteExpiry}</Text>
+            <View style={styles.chips}>
+              {EXPIRY_OPTIONS.map(option => {
+                const selected = option === expiresInDays;
+                return (
+                  <TouchableOpacity
+                    key={String(option)}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => setExpiresInDays(option)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                      {option === null ? t.projects.inviteNeverExpires : t.projects.inviteExpiryDays(option)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Public calls: people who open the link wait for an admin */}
+            <View style={styles.switchRow}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>{t.projects.inviteRequiresApproval}</Text>
+                <Text style={styles.switchHint}>{t.projects.inviteRequiresApprovalHint}</Text>
+              </View>
+              <Switch
+                value={requiresApproval}
+                onValueChange={setRequiresApproval}
+                trackColor={{ false: Colors.glass.border, true: Colors.accent.purple }}
+              />
+            </View>
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={Colors.text.inverse} />
+              ) : (
+                <Text style={styles.saveButtonText}>{t.common.save}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    maxHeight: '85%',
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.secondary,
+    marginTop: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  chipActive: {
+    borderColor: Colors.accent.purple,
+    backgroundColor: Colors.accent.purple,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.primary,
+  },
+  chipTextActive: {
+    color: Colors.text.inverse,
+    fontWeight: FontWeight.semibold,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  switchInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  switchLabel: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  switchHint: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.accent.purple,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
+});
@@ -0,0 +1,163 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { QRCode } from '../../../shared/components';
+import { useI18n } from '../../../contexts/I18nContext';
+
+const QR_SIZE = 240;
+
+interface InviteQrModalProps {
+  // Invite URL to encode; the modal is hidden while null
+  url: string | null;
+  projectName: string;
+  // Link label, e.g. "Orchestra"
+  label?: string;
+  onClose: () => void;
+  onShare: () => void;
+}
+
+export const InviteQrModal: React.FC<InviteQrModalProps> = ({
+  url,
+  projectName,
+  label,
+  onClose,
+  onShare,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <Modal
+      visible={url !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{t.projects.inviteQr}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            <Text style={styles.projectName}>{projectName}</Text>
+            {label ? <Text style={styles.label}>{label}</Text> : null}
+
+            {/* Scanners need dark modules on a light background, whatever the app theme */}
+            <View style={styles.qrContainer}>
+              {url && <QRCode value={url} size={QR_SIZE} />}
+            </View>
+
+            <Text style={styles.hint}>{t.projects.inviteQrHint}</Text>
+            <Text style={styles.url} numberOfLines={1} selectable>{url}</Text>
+          </View>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.shareButton} onPress={onShare}>
+              <Ionicons name="share-outline" size={18} color={Colors.text.inverse} />
+              <Text style={styles.shareButtonText}>{t.projects.inviteShareLink}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    alignItems: 'center',
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  projectName: {
+    fontSize: FontSize.xl,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  qrContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginVertical: Spacing.md,
+  },
+  hint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  url: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  shareButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.accent.purple,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  shareButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
+});
@@ -0,0 +1,191 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { ProjectRole } from '../../../shared/types';
+import { useI18n } from '../../../contexts/I18nContext';
+
+interface MemberActionsModalProps {
+  visible: boolean;
+  memberName: string;
+  role: ProjectRole;
+  assignableRoles: ProjectRole[];
+  canTransferOwnership: boolean;
+  canRemove: boolean;
+  pending: boolean;
+  onClose: () => void;
+  onChangeRole: (role: ProjectRole) => void;
+  onTransferOwnership: () => void;
+  onRemove: () => void;
+}
+
+export const MemberActionsModal: React.FC<MemberActionsModalProps> = ({
+  visible,
+  memberName,
+  role,
+  assignableRoles,
+  canTransferOwnership,
+  canRemove,
+  pending,
+  onClose,
+  onChangeRole,
+  onTransferOwnership,
+  onRemove,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle} numberOfLines={1}>{memberName}</Text>
+            {pending ? (
+              <ActivityIndicator size="small" color={Colors.accent.purple} />
+            ) : (
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={Colors.text.secondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.content}>
+            {assignableRoles.length > 0 && (
+              <>
+                <Text style={styles.label}>{t.projects.memberRole}</Text>
+                <View style={styles.roles}>
+                  {assignableRoles.map(option => {
+                    const isCurrent = option === role;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.roleChip, isCurrent && styles.roleChipActive]}
+                        onPress={() => onChangeRole(option)}
+                        disabled={pending || isCurrent}
+                      >
+                        <Text style={[styles.roleChipText, isCurrent && styles.roleChipTextActive]}>
+                          {t.projects.roleLabels[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            {canTransferOwnership && (
+              <TouchableOpacity style={styles.actionRow} onPress={onTransferOwnership} disabled={pending}>
+                <Ionicons name="key-outline" size={20} color={Colors.accent.purple} />
+                <Text style={styles.actionText}>{t.projects.makeOwner}</Text>
+              </TouchableOpacity>
+            )}
+
+            {canRemove && (
+              <TouchableOpacity style={styles.actionRow} onPress={onRemove} disabled={pending}>
+                <Ionicons name="person-remove-outline" size={20} color={Colors.accent.red} />
+                <Text style={[styles.actionText, styles.actionTextDestructive]}>{t.projects.removeMember}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  label: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  roles: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  roleChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  roleChipActive: {
+    borderColor: Colors.accent.purple,
+    backgroundColor: Colors.accent.purple,
+  },
+  roleChipText: {
+    fontSize: FontSize.sm,
+    color: Colors.text.primary,
+  },
+  roleChipTextActive: {
+    color: Colors.text.inverse,
+    fontWeight: FontWeight.semibold,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  actionText: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  actionTextDestructive: {
+    color: Colors.accent.red,
+  },
+});
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { Scene } from '../../../shared/types';
+import { useI18n } from '../../../contexts/I18nContext';
+
+interface SceneMember {
+  userId: string;
+  firstName: string;
+  lastName?: string;
+  characterName?: string;
+}
+
+interface SceneEditorModalProps {
+  visible: boolean;
+  // null = create a new scene
+  scene: Scene | null;
+  members: SceneMember[];
+  onClose: () => void;
+  onSave: (data: { name: string; description?: string; memberIds: string[] }) => Promise<void>;
+  onDelete?: (scene: Scene) => void;
+}
+
+export const SceneEditorModal: React.FC<SceneEditorModalProps> = ({
+  visible,
+  scene,
+  members,
+  onClose,
+  onSave,
+  onDelete,
+}) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName(scene?.name || '');
+      setDescription(scene?.description || '');
+      setMemberIds(scene?.memberIds || []);
+    }
+  }, [visible, scene]);
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert(t.common.error, t.projects.sceneNameRequired);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        memberIds,
+      });
+      onClose();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.sceneSaveError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>
+              {scene ? t.projects.editScene : t.projects.addScene}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>{t.projects.sceneName}</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t.projects.sceneNamePlaceholder}
+              placeholderTextColor={Colors.text.tertiary}
+            />
+            <TextInput
+              style={[styles.input, styles.descriptionInput]}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={t.projects.sceneDescriptionPlaceholder}
+              placeholderTextColor={Colors.text.tertiary}
+              multiline
+            />
+
+            <Text style={styles.label}>
+              {t.projects.sceneMembers} ({memberIds.length})
+            </Text>
+            {members.map(member => {
+              const selected = memberIds.includes(member.userId);
+              return (
+                <TouchableOpacity
+                  key={member.userId}
+                  style={[styles.memberItem, selected && styles.memberItemSelected]}
+                  onPress={() => toggleMember(member.userId)}
+                >
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>
+                      {member.firstName} {member.lastName || ''}
+                    </Text>
+                    {member.characterName && (
+                      <Text style={styles.memberCharacter}>{member.characterName}</Text>
+                    )}
+                  </View>
+                  <Ionicons
+                    name={selected ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={selected ? Colors.accent.purple : Colors.text.tertiary}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            {scene && onDelete && (
+              <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(scene)}>
+                <Ionicons name="trash-outline" size={20} color={Colors.accent.red} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={Colors.text.inverse} />
+              ) : (
+                <Text style={styles.saveButtonText}>{t.common.save}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    maxHeight: '85%',
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.secondary,
+    marginTop: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  descriptionInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  memberItemSelected: {
+    borderColor: Colors.accent.purple,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  memberCharacter: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    fontStyle: 'italic',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  deleteButton: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.accent.red,
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.accent.purple,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
+});
@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { useI18n } from '../../../contexts/I18nContext';
+import { PROJECT_TIMEZONES } from '../utils/timezones';
+
+interface TimezonePickerModalProps {
+  visible: boolean;
+  value: string;
+  onSelect: (timezone: string) => void;
+  onClose: () => void;
+}
+
+export const TimezonePickerModal: React.FC<TimezonePickerModalProps> = ({
+  visible,
+  value,
+  onSelect,
+  onClose,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t.projects.selectTimezone}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={PROJECT_TIMEZONES}
+            keyExtractor={(item) => item.value}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[
+                  styles.item,
+                  value === item.value && styles.itemSelected,
+                ]}
+                onPress={() => {
+                  onSelect(item.value);
+                  onClose();
+                }}
+              >
+                <Text
+                  style={[
+                    styles.label,
+                    value === item.value && styles.labelSelected,
+                  ]}
+                >
+                  {item.label}
+                </Text>
+                {value === item.value && (
+                  <Ionicons name="checkmark" size={20} color={Colors.accent.purple} />
+                )}
+              </TouchableOpacity>
+            )}
+            style={styles.list}
+          />
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.xl,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  title: {
+    fontSize: FontSize.xl,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  list: {
+    paddingBottom: Spacing.xxl,
+  },
+  item: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.md,
+    marginHorizontal: Spacing.md,
+    marginVertical: Spacing.xs / 2,
+    borderRadius: BorderRadius.md,
+  },
+  itemSelected: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+  },
+  label: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  labelSelected: {
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.purple,
+  },
+});
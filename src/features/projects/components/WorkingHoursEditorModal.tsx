@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+import { PickerModal } from '../../../shared/components/PickerModal';
+import { DayWorkingHours, Weekday, WorkingHours } from '../../../shared/types';
+import { DEFAULT_WORKDAY, toMinutes } from '../../../shared/utils/availability';
+import { useI18n } from '../../../contexts/I18nContext';
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+type EditableHours = Record<Weekday, DayWorkingHours | null>;
+
+interface WorkingHoursEditorModalProps {
+  visible: boolean;
+  workingHours: WorkingHours | null | undefined;
+  onClose: () => void;
+  onSave: (workingHours: WorkingHours) => Promise<void>;
+}
+
+// Fill weekdays missing from the stored value with the default window
+const toEditable = (workingHours: WorkingHours | null | undefined): EditableHours =>
+  WEEKDAYS.reduce((acc, day) => {
+    const hours = workingHours?.[day];
+    acc[day] = hours === undefined ? { ...DEFAULT_WORKDAY } : hours;
+    return acc;
+  }, {} as EditableHours);
+
+const timeToDate = (time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const dateToTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export const WorkingHoursEditorModal: React.FC<WorkingHoursEditorModalProps> = ({
+  visible,
+  workingHours,
+  onClose,
+  onSave,
+}) => {
+  const { t, language } = useI18n();
+  const [hours, setHours] = useState<EditableHours>(() => toEditable(workingHours));
+  const [editingTime, setEditingTime] = useState<{ day: Weekday; field: 'start' | 'end' } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Reset form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setHours(toEditable(workingHours));
+      setEditingTime(null);
+    }
+  }, [visible, workingHours]);
+
+  const toggleDay = (day: Weekday, enabled: boolean) => {
+    setHours(prev => ({ ...prev, [day]: enabled ? { ...DEFAULT_WORKDAY } : null }));
+  };
+
+  const handleTimeChange = (_event: any, selected?: Date) => {
+    if (!selected || !editingTime) return;
+    const { day, field } = editingTime;
+    setHours(prev => {
+      const current = prev[day];
+      if (!current) return prev;
+      return { ...prev, [day]: { ...current, [field]: dateToTime(selected) } };
+    });
+  };
+
+  const handleSave = async () => {
+    const invalidDay = WEEKDAYS.find(day => {
+      const dayHours = hours[day];
+      return dayHours && toMinutes(dayHours.start) >= toMinutes(dayHours.end);
+    });
+    if (invalidDay) {
+      Alert.alert(t.common.error, t.projects.workingHoursInvalid(t.days[invalidDay]));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(hours);
+      onClose();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.workingHoursSaveError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editingHours = editingTime ? hours[editingTime.day] : null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={styles.modalContainer} onStartShouldSetResponder={() => true}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{t.projects.workingHours}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={Colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.hint}>{t.projects.workingHoursHint}</Text>
+            {WEEKDAYS.map(day => {
+              const dayHours = hours[day];
+              return (
+                <View key={day} style={styles.dayRow}>
+                  <Switch
+                    value={Boolean(dayHours)}
+                    onValueChange={enabled => toggleDay(day, enabled)}
+                    trackColor={{ false: Colors.glass.border, true: Colors.accent.purple }}
+                  />
+                  <Text style={styles.dayName}>{t.days.short[day]}</Text>
+                  {dayHours ? (
+                    <View style={styles.timeRange}>
+                      <TouchableOpacity
+                        style={styles.timeButton}
+                        onPress={() => setEditingTime({ day, field: 'start' })}
+                      >
+                        <Text style={styles.timeText}>{dayHours.start}</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.timeSeparator}>–</Text>
+                      <TouchableOpacity
+                        style={styles.timeButton}
+                        onPress={() => setEditingTime({ day, field: 'end' })}
+                      >
+                        <Text style={styles.timeText}>{dayHours.end}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <Text style={styles.dayOff}>{t.projects.dayOff}</Text>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={Colors.text.inverse} />
+              ) : (
+                <Text style={styles.saveButtonText}>{t.common.save}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+
+      {editingTime && editingHours && (
+        <PickerModal
+          visible
+          onClose={() => setEditingTime(null)}
+          value={timeToDate(editingHours[editingTime.field])}
+          onChange={handleTimeChange}
+          mode="time"
+          title={t.days[editingTime.day]}
+          language={language === 'ru' ? 'ru-RU' : 'en-US'}
+        />
+      )}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: Colors.bg.secondary,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    maxHeight: '85%',
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.glass.border,
+  },
+  headerTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  dayName: {
+    width: 32,
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  timeRange: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
+  timeButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.accent.purple,
+  },
+  timeText: {
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+  },
+  timeSeparator: {
+    color: Colors.text.secondary,
+  },
+  dayOff: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: FontSize.sm,
+    color: Colors.text.tertiary,
+  },
+  actions: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.accent.purple,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.inverse,
+  },
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for useAttendanceHistory Hook
+ *
+ * Tests:
+ * - Loading member attendance for a project
+ * - Load errors leave an empty list
+ */
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useAttendanceHistory } from '../useAttendanceHistory';
+import { rehearsalsAPI } from '../../../../shared/services/api';
+import { MemberAttendance } from '../../../../shared/types';
+
+jest.mock('../../../../shared/services/api');
+
+const mockMembers: MemberAttendance[] = [
+  {
+    userId: '10',
+    firstName: 'Anna',
+    summary: { present: 1, late: 1, absent: 0, total: 2, rate: 1, avgLateMinutes: 15 },
+    recent: [
+      {
+        rehearsalId: '1',
+        startsAt: '2025-12-10T18:00:00.000Z',
+        status: 'late',
+        lateMinutes: 15,
+        markedBy: '1',
+        markedAt: '2025-12-10T18:20:00.000Z',
+      },
+    ],
+  },
+];
+
+describe('useAttendanceHistory Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should load attendance history for project', async () => {
+    (rehearsalsAPI.getAttendanceHistory as jest.Mock).mockResolvedValue({ data: { members: mockMembers } });
+
+    const { result } = renderHook(() => useAttendanceHistory('project-1'));
+
+    await waitFor(() => expect(result.current.members).toHaveLength(1));
+    expect(rehearsalsAPI.getAttendanceHistory).toHaveBeenCalledWith('project-1');
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should keep empty list when loading fails', async () => {
+    (rehearsalsAPI.getAttendanceHistory as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useAttendanceHistory('project-1'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.members).toEqual([]);
+  });
+});
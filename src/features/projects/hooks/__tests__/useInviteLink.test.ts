@@ -6,8 +6,9 @@
  * - Copy to clipboard
  * - Error handling
  * - Loading states
+ * - Listing, creating and revoking named invite links
  */
-import { renderHook, act } from '@testing-library/react-native';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { Alert } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import { useInviteLink } from '../useInviteLink';
@@ -238,4 +239,79 @@ describe('useInviteLink Hook', () => {
       expect(Clipboard.setStringAsync).toHaveBeenCalledWith(undefined);
     });
   });
+
+  describe('Named invite links', () => {
+    const INVITE = {
+      id: 'invite-1',
+      code: 'abc123',
+      label: 'Orchestra',
+      role: 'actor',
+      maxUses: 10,
+      useCount: 3,
+      expiresAt: '2026-10-26T12:00:00.000Z',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      requiresApproval: false,
+      status: 'active',
+      inviteUrl: 'https://app.com/invite/abc123',
+    };
+
+    it('should not load links without a project', () => {
+      renderHook(() => useInviteLink());
+
+      expect(invitesAPI.listInvites).not.toHaveBeenCalled();
+    });
+
+    it('should load the links of the project', async () => {
+      (invitesAPI.listInvites as jest.Mock).mockResolvedValue({ data: { invites: [INVITE] } });
+
+      const { result } = renderHook(() => useInviteLink('project-1'));
+
+      await waitFor(() => expect(result.current.invites).toEqual([INVITE]));
+      expect(invitesAPI.listInvites).toHaveBeenCalledWith('project-1');
+      expect(result.current.loadingInvites).toBe(false);
+    });
+
+    it('should create a link with a trimmed label and put it first', async () => {
+      const created = { ...INVITE, id: 'invite-2', label: null, useCount: 0 };
+      (invitesAPI.listInvites as jest.Mock).mockResolvedValue({ data: { invites: [INVITE] } });
+      (invitesAPI.createProjectInvite as jest.Mock).mockResolvedValue({ data: { invite: created } });
+
+      const { result } = renderHook(() => useInviteLink('project-1'));
+      await waitFor(() => expect(result.current.invites).toHaveLength(1));
+
+      await act(async () => {
+        await result.current.createInvite({
+          label: '  ',
+          role: 'member',
+          maxUses: null,
+          expiresInDays: 7,
+          requiresApproval: true,
+        });
+      });
+
+      expect(invitesAPI.createProjectInvite).toHaveBeenCalledWith('project-1', {
+        label: null,
+        role: 'member',
+        maxUses: null,
+        expiresInDays: 7,
+        requiresApproval: true,
+      });
+      expect(result.current.invites.map(invite => invite.id)).toEqual(['invite-2', 'invite-1']);
+    });
+
+    it('should drop a revoked link from the list', async () => {
+      (invitesAPI.listInvites as jest.Mock).mockResolvedValue({ data: { invites: [INVITE] } });
+      (invitesAPI.revokeProjectInvite as jest.Mock).mockResolvedValue({ data: { success: true } });
+
+      const { result } = renderHook(() => useInviteLink('project-1'));
+      await waitFor(() => expect(result.current.invites).toHaveLength(1));
+
+      await act(async () => {
+        await result.current.revokeInvite('invite-1');
+      });
+
+      expect(invitesAPI.revokeProjectInvite).toHaveBeenCalledWith('project-1', 'invite-1');
+      expect(result.current.invites).toEqual([]);
+    });
+  });
 });
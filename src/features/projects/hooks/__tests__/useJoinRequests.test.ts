@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for useJoinRequests Hook
+ *
+ * Tests:
+ * - Loading requests only with a project
+ * - Approving reloads members, rejecting doesn't
+ * - Failed actions keep the request
+ */
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useJoinRequests } from '../useJoinRequests';
+import { projectsAPI } from '../../../../shared/services/api';
+
+jest.mock('../../../../shared/services/api');
+
+const REQUESTS = [
+  {
+    userId: '7',
+    role: 'actor',
+    requestedAt: '2026-10-18T09:00:00.000Z',
+    inviteLabel: 'Casting call',
+    firstName: 'Anna',
+    lastName: 'Petrova',
+  },
+  {
+    userId: '8',
+    role: 'actor',
+    requestedAt: '2026-10-18T10:00:00.000Z',
+    inviteLabel: 'Casting call',
+    firstName: 'Ivan',
+  },
+];
+
+describe('useJoinRequests Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectsAPI.getJoinRequests as jest.Mock).mockResolvedValue({ data: { requests: REQUESTS } });
+  });
+
+  it('should not load requests without a project', () => {
+    const { result } = renderHook(() => useJoinRequests(null));
+
+    expect(projectsAPI.getJoinRequests).not.toHaveBeenCalled();
+    expect(result.current.requests).toEqual([]);
+  });
+
+  it('should load the requests of the project', async () => {
+    const { result } = renderHook(() => useJoinRequests('project-1'));
+
+    await waitFor(() => expect(result.current.requests).toEqual(REQUESTS));
+    expect(projectsAPI.getJoinRequests).toHaveBeenCalledWith('project-1');
+  });
+
+  it('should approve a request and reload the members', async () => {
+    (projectsAPI.approveJoinRequest as jest.Mock).mockResolvedValue({ data: { userId: '7', role: 'actor' } });
+    const onApproved = jest.fn();
+
+    const { result } = renderHook(() => useJoinRequests('project-1', onApproved));
+    await waitFor(() => expect(result.current.requests).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.approve('7');
+    });
+
+    expect(projectsAPI.approveJoinRequest).toHaveBeenCalledWith('project-1', '7');
+    expect(result.current.requests.map(r => r.userId)).toEqual(['8']);
+    expect(onApproved).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a request without reloading the members', async () => {
+    (projectsAPI.rejectJoinRequest as jest.Mock).mockResolvedValue({ data: { success: true } });
+    const onApproved = jest.fn();
+
+    const { result } = renderHook(() => useJoinRequests('project-1', onApproved));
+    await waitFor(() => expect(result.current.requests).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.reject('8');
+    });
+
+    expect(projectsAPI.rejectJoinRequest).toHaveBeenCalledWith('project-1', '8');
+    expect(result.current.requests.map(r => r.userId)).toEqual(['7']);
+    expect(onApproved).not.toHaveBeenCalled();
+  });
+
+  it('should keep the request when approving fails', async () => {
+    (projectsAPI.approveJoinRequest as jest.Mock).mockRejectedValue(new Error('Join request not found'));
+    const onApproved = jest.fn();
+
+    const { result } = renderHook(() => useJoinRequests('project-1', onApproved));
+    await waitFor(() => expect(result.current.requests).toHaveLength(2));
+
+    await expect(
+      act(async () => {
+        await result.current.approve('7');
+      })
+    ).rejects.toThrow('Join request not found');
+
+    expect(result.current.requests).toHaveLength(2);
+    expect(result.current.pending).toBe(false);
+    expect(onApproved).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for useMemberManagement Hook
+ *
+ * Tests:
+ * - Roles offered to owners and admins
+ * - Member changes reload the member list, leaving doesn't
+ * - Failed changes are passed on to the screen
+ */
+import { renderHook, act } from '@testing-library/react-native';
+import { useMemberManagement, getAssignableRoles } from '../useMemberManagement';
+import { projectsAPI } from '../../../../shared/services/api';
+
+jest.mock('../../../../shared/services/api');
+
+describe('useMemberManagement Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAssignableRoles', () => {
+    it('should let the owner give any role but ownership', () => {
+      expect(getAssignableRoles('owner', 'actor')).toEqual(['admin', 'director', 'stage_manager', 'actor', 'member']);
+    });
+
+    it('should keep admins away from admin roles', () => {
+      expect(getAssignableRoles('admin', 'actor')).not.toContain('admin');
+      expect(getAssignableRoles('admin', 'admin')).toEqual([]);
+    });
+
+    it('should never offer a role change for the owner', () => {
+      expect(getAssignableRoles('owner', 'owner')).toEqual([]);
+    });
+  });
+
+  it('should change a role and reload members', async () => {
+    (projectsAPI.changeMemberRole as jest.Mock).mockResolvedValue({ data: { userId: '5', role: 'director' } });
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useMemberManagement('project-1', onChanged));
+
+    await act(async () => {
+      await result.current.changeRole('5', 'director');
+    });
+
+    expect(projectsAPI.changeMemberRole).toHaveBeenCalledWith('project-1', '5', 'director');
+    expect(onChanged).toHaveBeenCalledTimes(1);
+    expect(result.current.pending).toBe(false);
+  });
+
+  it('should remove a member and transfer ownership', async () => {
+    (projectsAPI.removeMember as jest.Mock).mockResolvedValue({ data: { success: true } });
+    (projectsAPI.transferOwnership as jest.Mock).mockResolvedValue({ data: { ownerId: '6' } });
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useMemberManagement('project-1', onChanged));
+
+    await act(async () => {
+      await result.current.removeMember('5');
+      await result.current.transferOwnership('6');
+    });
+
+    expect(projectsAPI.removeMember).toHaveBeenCalledWith('project-1', '5');
+    expect(projectsAPI.transferOwnership).toHaveBeenCalledWith('project-1', '6');
+    expect(onChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave without reloading members', async () => {
+    (projectsAPI.leaveProject as jest.Mock).mockResolvedValue({ data: { success: true } });
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useMemberManagement('project-1', onChanged));
+
+    await act(async () => {
+      await result.current.leaveProject();
+    });
+
+    expect(projectsAPI.leaveProject).toHaveBeenCalledWith('project-1');
+    expect(onChanged).not.toHaveBeenCalled();
+  });
+
+  it('should pass server errors on and reset pending', async () => {
+    const error = { response: { data: { error: 'Transfer ownership before leaving the project' } } };
+    (projectsAPI.leaveProject as jest.Mock).mockRejectedValue(error);
+
+    const { result } = renderHook(() => useMemberManagement('project-1'));
+
+    await act(async () => {
+      await expect(result.current.leaveProject()).rejects.toBe(error);
+    });
+
+    expect(result.current.pending).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for useProjectReport Hook
+ *
+ * Tests:
+ * - Loading the report for a local-day range
+ * - Load errors are exposed
+ * - CSV export uses the same range
+ * - reportRangeToISO helper
+ */
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useProjectReport, reportRangeToISO } from '../useProjectReport';
+import { projectsAPI } from '../../../../shared/services/api';
+import { ProjectReport } from '../../../../shared/types';
+import { dateTimeToISO } from '../../../../shared/utils/time';
+
+jest.mock('../../../../shared/services/api');
+
+const emptySummary = { present: 0, late: 0, absent: 0, total: 0, rate: null, avgLateMinutes: null };
+
+const mockReport: ProjectReport = {
+  from: '2025-12-01T00:00:00.000Z',
+  to: '2025-12-08T00:00:00.000Z',
+  totals: {
+    rehearsals: 0,
+    hours: 0,
+    invitations: 0,
+    yesRate: null,
+    maybeRate: null,
+    noResponseRate: null,
+    attendance: emptySummary,
+  },
+  members: [],
+};
+
+describe('useProjectReport Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should load the report for the range', async () => {
+    (projectsAPI.getReport as jest.Mock).mockResolvedValue({ data: { report: mockReport } });
+
+    const { result } = renderHook(() => useProjectReport('project-1', '2025-12-01', '2025-12-07'));
+
+    await waitFor(() => expect(result.current.report).toEqual(mockReport));
+    expect(projectsAPI.getReport).toHaveBeenCalledWith(
+      'project-1',
+      dateTimeToISO('2025-12-01', '00:00'),
+      dateTimeToISO('2025-12-08', '00:00')
+    );
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should expose the server error when loading fails', async () => {
+    (projectsAPI.getReport as jest.Mock).mockRejectedValue({
+      response: { data: { error: 'You do not have permission to view reports' } },
+    });
+
+    const { result } = renderHook(() => useProjectReport('project-1', '2025-12-01', '2025-12-07'));
+
+    await waitFor(() => expect(result.current.error).toBe('You do not have permission to view reports'));
+    expect(result.current.report).toBeNull();
+  });
+
+  it('should fetch CSV for the same range', async () => {
+    (projectsAPI.getReport as jest.Mock).mockResolvedValue({ data: { report: mockReport } });
+    (projectsAPI.getReportCsv as jest.Mock).mockResolvedValue({ data: 'Member,Character\r\n' });
+
+    const { result } = renderHook(() => useProjectReport('project-1', '2025-12-01', '2025-12-07'));
+    await waitFor(() => expect(result.current.report).not.toBeNull());
+
+    await expect(result.current.fetchCsv()).resolves.toBe('Member,Character\r\n');
+    expect(projectsAPI.getReportCsv).toHaveBeenCalledWith(
+      'project-1',
+      dateTimeToISO('2025-12-01', '00:00'),
+      dateTimeToISO('2025-12-08', '00:00')
+    );
+  });
+
+  describe('reportRangeToISO', () => {
+    it('should end the range at the start of the day after the end date', () => {
+      expect(reportRangeToISO('2025-12-31', '2025-12-31')).toEqual({
+        from: dateTimeToISO('2025-12-31', '00:00'),
+        to: dateTimeToISO('2026-01-01', '00:00'),
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit Tests for useProjectScenes Hook
+ *
+ * Tests:
+ * - Loading scenes for a project
+ * - Create / update / delete keep local list in sync
+ * - Load errors leave an empty list
+ * - getSceneMemberIds union helper
+ */
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useProjectScenes, getSceneMemberIds } from '../useProjectScenes';
+import { scenesAPI } from '../../../../shared/services/api';
+import { Scene } from '../../../../shared/types';
+
+jest.mock('../../../../shared/services/api');
+
+const mockScenes: Scene[] = [
+  { id: '1', projectId: 'project-1', name: 'Act 1', memberIds: ['10', '11'] },
+  { id: '2', projectId: 'project-1', name: 'Act 2', memberIds: ['11', '12'] },
+];
+
+describe('useProjectScenes Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should load scenes for project', async () => {
+    (scenesAPI.getAll as jest.Mock).mockResolvedValue({ data: { scenes: mockScenes } });
+
+    const { result } = renderHook(() => useProjectScenes('project-1'));
+
+    await waitFor(() => expect(result.current.scenes).toHaveLength(2));
+    expect(scenesAPI.getAll).toHaveBeenCalledWith('project-1');
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should not load scenes without project', () => {
+    const { result } = renderHook(() => useProjectScenes(null));
+
+    expect(scenesAPI.getAll).not.toHaveBeenCalled();
+    expect(result.current.scenes).toEqual([]);
+  });
+
+  it('should keep empty list when loading fails', async () => {
+    (scenesAPI.getAll as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useProjectScenes('project-1'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.scenes).toEqual([]);
+  });
+
+  it('should update local list after create, update and delete', async () => {
+    (scenesAPI.getAll as jest.Mock).mockResolvedValue({ data: { scenes: [mockScenes[0]] } });
+    (scenesAPI.create as jest.Mock).mockResolvedValue({ data: { scene: mockScenes[1] } });
+    (scenesAPI.update as jest.Mock).mockResolvedValue({
+      data: { scene: { ...mockScenes[0], name: 'Prologue' } },
+    });
+    (scenesAPI.delete as jest.Mock).mockResolvedValue({ data: { success: true } });
+
+    const { result } = renderHook(() => useProjectScenes('project-1'));
+    await waitFor(() => expect(result.current.scenes).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.createScene({ name: 'Act 2', memberIds: ['11', '12'] });
+    });
+    expect(result.current.scenes.map(s => s.name)).toEqual(['Act 1', 'Act 2']);
+
+    await act(async () => {
+      await result.current.updateScene('1', { name: 'Prologue', memberIds: ['10', '11'] });
+    });
+    expect(scenesAPI.update).toHaveBeenCalledWith('project-1', '1', { name: 'Prologue', memberIds: ['10', '11'] });
+    expect(result.current.scenes[0].name).toBe('Prologue');
+
+    await act(async () => {
+      await result.current.deleteScene('2');
+    });
+    expect(result.current.scenes.map(s => s.id)).toEqual(['1']);
+  });
+
+  describe('getSceneMemberIds', () => {
+    it('should return union of members of selected scenes', () => {
+      expect(getSceneMemberIds(mockScenes, ['1', '2']).sort()).toEqual(['10', '11', '12']);
+    });
+
+    it('should ignore unselected scenes', () => {
+      expect(getSceneMemberIds(mockScenes, ['2'])).toEqual(['11', '12']);
+      expect(getSceneMemberIds(mockScenes, [])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for useProjectSettings Hook
+ *
+ * Tests:
+ * - Loading the project
+ * - Saving trimmed settings, archiving and deleting refresh the project list
+ * - Failed changes are passed on to the screen
+ */
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useProjectSettings } from '../useProjectSettings';
+import { projectsAPI } from '../../../../shared/services/api';
+
+jest.mock('../../../../shared/services/api');
+
+const PROJECT = {
+  id: 'project-1',
+  name: 'Hamlet',
+  description: '',
+  timezone: 'Asia/Jerusalem',
+  is_admin: true,
+  role: 'owner',
+  archivedAt: null,
+};
+
+describe('useProjectSettings Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectsAPI.getProject as jest.Mock).mockResolvedValue({ data: { project: PROJECT } });
+  });
+
+  it('should load the project', async () => {
+    const { result } = renderHook(() => useProjectSettings('project-1'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(projectsAPI.getProject).toHaveBeenCalledWith('project-1');
+    expect(result.current.project).toEqual(PROJECT);
+  });
+
+  it('should save trimmed settings and refresh the project list', async () => {
+    const updated = { ...PROJECT, name: 'Hamlet 2', timezone: 'Europe/Berlin' };
+    (projectsAPI.updateProject as jest.Mock).mockResolvedValue({ data: { project: updated } });
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useProjectSettings('project-1', onChanged));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.saveSettings({ name: ' Hamlet 2 ', description: '  ', timezone: 'Europe/Berlin' });
+    });
+
+    expect(projectsAPI.updateProject).toHaveBeenCalledWith('project-1', {
+      name: 'Hamlet 2',
+      description: null,
+      timezone: 'Europe/Berlin',
+    });
+    expect(result.current.project).toEqual(updated);
+    expect(onChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should archive and delete the project', async () => {
+    const archived = { ...PROJECT, archivedAt: '2026-10-19T10:00:00.000Z' };
+    (projectsAPI.updateProject as jest.Mock).mockResolvedValue({ data: { project: archived } });
+    (projectsAPI.deleteProject as jest.Mock).mockResolvedValue({ data: { success: true } });
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useProjectSettings('project-1', onChanged));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.setArchived(true);
+    });
+
+    expect(projectsAPI.updateProject).toHaveBeenCalledWith('project-1', { archived: true });
+    expect(result.current.project?.archivedAt).toBe('2026-10-19T10:00:00.000Z');
+
+    await act(async () => {
+      await result.current.deleteProject();
+    });
+
+    expect(projectsAPI.deleteProject).toHaveBeenCalledWith('project-1');
+    expect(onChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass failures on without refreshing', async () => {
+    (projectsAPI.updateProject as jest.Mock).mockRejectedValue(new Error('Archived projects are read-only'));
+    const onChanged = jest.fn();
+
+    const { result } = renderHook(() => useProjectSettings('project-1', onChanged));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await expect(
+      act(async () => {
+        await result.current.saveSettings({ name: 'Hamlet', description: '', timezone: 'UTC' });
+      })
+    ).rejects.toThrow('Archived projects are read-only');
+
+    expect(onChanged).not.toHaveBeenCalled();
+    expect(result.current.pending).toBe(false);
+  });
+});
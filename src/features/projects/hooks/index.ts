@@ -1 +1,8 @@
 export { useInviteLink } from './useInviteLink';
+export { useProjectScenes, getSceneMemberIds } from './useProjectScenes';
+export { useAttendanceHistory } from './useAttendanceHistory';
+export { useProjectReport, reportRangeToISO } from './useProjectReport';
+export { useMemberManagement, getAssignableRoles, ASSIGNABLE_ROLES } from './useMemberManagement';
+export { useProjectSettings } from './useProjectSettings';
+export { useArchivedProjects } from './useArchivedProjects';
+export { useJoinRequests } from './useJoinRequests';
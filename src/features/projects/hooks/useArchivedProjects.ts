@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectsAPI } from '../../../shared/services/api';
+import { Project } from '../../../shared/types';
+
+/**
+ * Hook for loading the user's archived projects
+ * They aren't part of ProjectContext, so the projects screen loads them separately.
+ */
+export const useArchivedProjects = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadProjects = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await projectsAPI.getArchivedProjects();
+      setProjects(response.data.projects || []);
+    } catch (error) {
+      // The archive is secondary - the active projects list keeps working without it
+      console.error('Failed to load archived projects:', error);
+      setProjects([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  return {
+    projects,
+    loading,
+    reload: loadProjects,
+  };
+};
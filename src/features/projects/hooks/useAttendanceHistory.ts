@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { rehearsalsAPI } from '../../../shared/services/api';
+import { MemberAttendance } from '../../../shared/types';
+
+/**
+ * Hook for loading per-member attendance history of a project
+ * Admins get every member, other members only themselves.
+ */
+export const useAttendanceHistory = (projectId: string | null | undefined) => {
+  const [members, setMembers] = useState<MemberAttendance[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    if (!projectId) {
+      setMembers([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await rehearsalsAPI.getAttendanceHistory(projectId);
+      setMembers(response.data.members || []);
+    } catch (error) {
+      // History is informational - the project screen keeps working without it
+      console.error('Failed to load attendance history:', error);
+      setMembers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return {
+    members,
+    loading,
+    reload: loadHistory,
+  };
+};
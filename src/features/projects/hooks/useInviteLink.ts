@@ -1,15 +1,53 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Alert } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import { invitesAPI } from '../../../shared/services/api';
+import { ProjectInvite, ProjectRole } from '../../../shared/types';
 
-export const useInviteLink = () => {
+export interface InviteInput {
+  label?: string;
+  role: ProjectRole;
+  maxUses: number | null;
+  expiresInDays: number | null;
+  requiresApproval: boolean;
+}
+
+/**
+ * Hook for project invite links
+ * `generateInviteLink` copies the plain member link of any project;
+ * with a `projectId` the hook also loads that project's named links (admins only)
+ */
+export const useInviteLink = (projectId?: string | null) => {
   const [generatingInvite, setGeneratingInvite] = useState(false);
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [loadingInvites, setLoadingInvites] = useState(false);
+
+  const loadInvites = useCallback(async () => {
+    if (!projectId) {
+      setInvites([]);
+      return;
+    }
+
+    setLoadingInvites(true);
+    try {
+      const response = await invitesAPI.listInvites(projectId);
+      setInvites(response.data.invites || []);
+    } catch (error) {
+      console.error('Failed to load invites:', error);
+      setInvites([]);
+    } finally {
+      setLoadingInvites(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
 
-  const generateInviteLink = async (projectId: string) => {
+  const generateInviteLink = async (targetProjectId: string) => {
     try {
       setGeneratingInvite(true);
-      const response = await invitesAPI.createInvite(projectId);
+      const response = await invitesAPI.createInvite(targetProjectId);
       const { inviteUrl } = response.data;
 
       await Clipboard.setStringAsync(inviteUrl);
@@ -26,8 +64,30 @@ export const useInviteLink = () => {
     }
   };
 
+  const createInvite = async (input: InviteInput): Promise<ProjectInvite | undefined> => {
+    if (!projectId) return undefined;
+    const response = await invitesAPI.createProjectInvite(projectId, {
+      ...input,
+      label: input.label?.trim() || null,
+    });
+    const invite: ProjectInvite = response.data.invite;
+    setInvites(prev => [invite, ...prev]);
+    return invite;
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    if (!projectId) return;
+    await invitesAPI.revokeProjectInvite(projectId, inviteId);
+    setInvites(prev => prev.filter(invite => invite.id !== inviteId));
+  };
+
   return {
     generateInviteLink,
     generatingInvite,
+    invites,
+    loadingInvites,
+    reloadInvites: loadInvites,
+    createInvite,
+    revokeInvite,
   };
 };
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectsAPI } from '../../../shared/services/api';
+import { JoinRequest } from '../../../shared/types';
+
+/**
+ * Hook for join requests made through invite links that require approval
+ * Pass a `projectId` only for members who manage members; `onApproved` runs after
+ * a request is approved so the screen can reload the member list
+ */
+export const useJoinRequests = (projectId: string | null | undefined, onApproved?: () => void) => {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    if (!projectId) {
+      setRequests([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await projectsAPI.getJoinRequests(projectId);
+      setRequests(response.data.requests || []);
+    } catch (error) {
+      console.error('Failed to load join requests:', error);
+      setRequests([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const settle = async (userId: string, action: (projectId: string) => Promise<unknown>) => {
+    if (!projectId) return;
+    setPending(true);
+    try {
+      await action(projectId);
+      setRequests(prev => prev.filter(request => request.userId !== userId));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const approve = async (userId: string) => {
+    await settle(userId, id => projectsAPI.approveJoinRequest(id, userId));
+    onApproved?.();
+  };
+
+  const reject = (userId: string) => settle(userId, id => projectsAPI.rejectJoinRequest(id, userId));
+
+  return {
+    requests,
+    loading,
+    pending,
+    reload: loadRequests,
+    approve,
+    reject,
+  };
+};
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { projectsAPI } from '../../../shared/services/api';
+import { ProjectRole } from '../../../shared/types';
+
+// Roles that can be given through a role change; ownership moves only through a transfer
+export const ASSIGNABLE_ROLES: ProjectRole[] = ['admin', 'director', 'stage_manager', 'actor', 'member'];
+
+/**
+ * Roles the current member may give to another member, mirroring the server rules:
+ * only the owner can make or unmake admins, and the owner's role never changes here
+ */
+export const getAssignableRoles = (actorRole: ProjectRole | undefined, targetRole: ProjectRole): ProjectRole[] => {
+  if (targetRole === 'owner') {
+    return [];
+  }
+  if (actorRole === 'owner') {
+    return ASSIGNABLE_ROLES;
+  }
+  if (targetRole === 'admin') {
+    return [];
+  }
+  return ASSIGNABLE_ROLES.filter(role => role !== 'admin');
+};
+
+/**
+ * Hook for changing roles, removing members and leaving a project
+ * Calls `onChanged` after every successful change to the member list so the screen can reload it
+ */
+export const useMemberManagement = (projectId: string, onChanged?: () => void) => {
+  const [pending, setPending] = useState(false);
+
+  const run = async <T>(action: () => Promise<T>, notify = true): Promise<T> => {
+    setPending(true);
+    try {
+      const result = await action();
+      if (notify) {
+        onChanged?.();
+      }
+      return result;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const changeRole = (userId: string, role: ProjectRole) =>
+    run(() => projectsAPI.changeMemberRole(projectId, userId, role));
+
+  const transferOwnership = (userId: string) =>
+    run(() => projectsAPI.transferOwnership(projectId, userId));
+
+  const removeMember = (userId: string) =>
+    run(() => projectsAPI.removeMember(projectId, userId));
+
+  // The project is gone for the user afterwards, so members aren't reloaded.
+  // Exported calendar events are cleaned up by the next project list refresh
+  const leaveProject = () =>
+    run(() => projectsAPI.leaveProject(projectId), false);
+
+  return {
+    pending,
+    changeRole,
+    transferOwnership,
+    removeMember,
+    leaveProject,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectsAPI } from '../../../shared/services/api';
+import { ProjectReport } from '../../../shared/types';
+import { dateTimeToISO, parseDateString, formatDateToString } from '../../../shared/utils/time';
+
+/**
+ * Local-day date range (YYYY-MM-DD, both inclusive) as the [from, to) timestamps the report API expects
+ */
+export const reportRangeToISO = (startDate: string, endDate: string): { from: string; to: string } => {
+  const dayAfterEnd = parseDateString(endDate);
+  dayAfterEnd.setDate(dayAfterEnd.getDate() + 1);
+  return {
+    from: dateTimeToISO(startDate, '00:00'),
+    to: dateTimeToISO(formatDateToString(dayAfterEnd), '00:00'),
+  };
+};
+
+/**
+ * Hook for loading a project's attendance and workload report (admins only)
+ */
+export const useProjectReport = (projectId: string, startDate: string, endDate: string) => {
+  const [report, setReport] = useState<ProjectReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    const { from, to } = reportRangeToISO(startDate, endDate);
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await projectsAPI.getReport(projectId, from, to);
+      setReport(response.data.report);
+    } catch (err: any) {
+      console.error('Failed to load report:', err);
+      setReport(null);
+      setError(err.response?.data?.error || err.message || 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // CSV of the same range, for sharing or pasting into production reports
+  const fetchCsv = async (): Promise<string> => {
+    const { from, to } = reportRangeToISO(startDate, endDate);
+    const response = await projectsAPI.getReportCsv(projectId, from, to);
+    return response.data;
+  };
+
+  return {
+    report,
+    loading,
+    error,
+    reload: loadReport,
+    fetchCsv,
+  };
+};
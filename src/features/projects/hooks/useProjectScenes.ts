@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { scenesAPI } from '../../../shared/services/api';
+import { Scene } from '../../../shared/types';
+
+interface SceneInput {
+  name: string;
+  description?: string;
+  memberIds: string[];
+}
+
+/**
+ * Union of member IDs appearing in the given scenes
+ */
+export const getSceneMemberIds = (scenes: Scene[], sceneIds: string[]): string[] => {
+  const memberIds = new Set<string>();
+  scenes
+    .filter(scene => sceneIds.includes(scene.id))
+    .forEach(scene => scene.memberIds.forEach(id => memberIds.add(id)));
+  return Array.from(memberIds);
+};
+
+/**
+ * Hook for loading and managing project scenes (scene/character breakdown)
+ */
+export const useProjectScenes = (projectId: string | null | undefined) => {
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadScenes = useCallback(async () => {
+    if (!projectId) {
+      setScenes([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await scenesAPI.getAll(projectId);
+      setScenes(response.data.scenes || []);
+    } catch (error) {
+      // Scenes are optional - screens keep working with member selection only
+      console.error('Failed to load scenes:', error);
+      setScenes([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadScenes();
+  }, [loadScenes]);
+
+  const createScene = async (data: SceneInput) => {
+    if (!projectId) return;
+    const response = await scenesAPI.create(projectId, data);
+    setScenes(prev => [...prev, response.data.scene]);
+  };
+
+  const updateScene = async (sceneId: string, data: SceneInput) => {
+    if (!projectId) return;
+    const response = await scenesAPI.update(projectId, sceneId, data);
+    setScenes(prev => prev.map(scene => (scene.id === sceneId ? response.data.scene : scene)));
+  };
+
+  const deleteScene = async (sceneId: string) => {
+    if (!projectId) return;
+    await scenesAPI.delete(projectId, sceneId);
+    setScenes(prev => prev.filter(scene => scene.id !== sceneId));
+  };
+
+  return {
+    scenes,
+    loading,
+    reload: loadScenes,
+    createScene,
+    updateScene,
+    deleteScene,
+  };
+};
@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectsAPI } from '../../../shared/services/api';
+import { Project } from '../../../shared/types';
+
+export interface ProjectSettingsInput {
+  name: string;
+  description: string;
+  timezone: string;
+}
+
+/**
+ * Hook for editing a project's settings, archiving, restoring and deleting it
+ * Calls `onChanged` after every successful change so the project list can be refreshed
+ * (which also clears archived rehearsals from the device calendar)
+ */
+export const useProjectSettings = (projectId: string, onChanged?: () => void) => {
+  const [project, setProject] = useState<Project | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState(false);
+
+  const loadProject = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await projectsAPI.getProject(projectId);
+      setProject(response.data.project);
+    } catch (error) {
+      console.error('Failed to load project settings:', error);
+      setProject(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  const run = async <T>(action: () => Promise<T>): Promise<T> => {
+    setPending(true);
+    try {
+      const result = await action();
+      onChanged?.();
+      return result;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const saveSettings = (settings: ProjectSettingsInput) =>
+    run(async () => {
+      const response = await projectsAPI.updateProject(projectId, {
+        name: settings.name.trim(),
+        description: settings.description.trim() || null,
+        timezone: settings.timezone,
+      });
+      setProject(response.data.project);
+      return response.data.project as Project;
+    });
+
+  const setArchived = (archived: boolean) =>
+    run(async () => {
+      const response = await projectsAPI.updateProject(projectId, { archived });
+      setProject(response.data.project);
+      return response.data.project as Project;
+    });
+
+  const deleteProject = () =>
+    run(() => projectsAPI.deleteProject(projectId));
+
+  return {
+    project,
+    loading,
+    pending,
+    reload: loadProject,
+    saveSettings,
+    setArchived,
+    deleteProject,
+  };
+};
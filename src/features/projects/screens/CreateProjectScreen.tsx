@@ -6,10 +6,8 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
-  Modal,
   TextInput,
   Alert,
-  FlatList,
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
@@ -20,39 +18,20 @@ import { ProjectsStackParamList } from '../../../navigation';
 import { useProjects } from '../../../contexts/ProjectContext';
 import { useI18n } from '../../../contexts/I18nContext';
 import { createProjectScreenStyles as styles } from '../styles';
+import { TimezonePickerModal } from '../components/TimezonePickerModal';
+import { DEFAULT_PROJECT_TIMEZONE, getTimezoneLabel } from '../utils/timezones';
 
 type CreateProjectScreenProps = NativeStackScreenProps<ProjectsStackParamList, 'CreateProject'>;
 
-// Common timezones for theatre/rehearsal apps
-const TIMEZONES = [
-  { value: 'Asia/Jerusalem', label: 'Тель-Авив (UTC+2)' },
-  { value: 'Europe/Moscow', label: 'Москва (UTC+3)' },
-  { value: 'Europe/Kiev', label: 'Киев (UTC+2)' },
-  { value: 'Europe/Kaliningrad', label: 'Калининград (UTC+2)' },
-  { value: 'Europe/Samara', label: 'Самара (UTC+4)' },
-  { value: 'Asia/Yekaterinburg', label: 'Екатеринбург (UTC+5)' },
-  { value: 'Asia/Novosibirsk', label: 'Новосибирск (UTC+7)' },
-  { value: 'Asia/Vladivostok', label: 'Владивосток (UTC+10)' },
-  { value: 'Europe/Berlin', label: 'Берлин (UTC+1)' },
-  { value: 'Europe/London', label: 'Лондон (UTC+0)' },
-  { value: 'America/New_York', label: 'Нью-Йорк (UTC-5)' },
-  { value: 'America/Los_Angeles', label: 'Лос-Анджелес (UTC-8)' },
-];
-
 export default function CreateProjectScreen({ navigation }: CreateProjectScreenProps) {
   const { createProject } = useProjects();
   const { t } = useI18n();
   const [projectName, setProjectName] = useState('');
   const [projectDescription, setProjectDescription] = useState('');
-  const [projectTimezone, setProjectTimezone] = useState('Asia/Jerusalem');
+  const [projectTimezone, setProjectTimezone] = useState(DEFAULT_PROJECT_TIMEZONE);
   const [timezonePickerVisible, setTimezonePickerVisible] = useState(false);
   const [creating, setCreating] = useState(false);
 
-  const getTimezoneLabel = (value: string) => {
-    const tz = TIMEZONES.find(t => t.value === value);
-    return tz?.label || value;
-  };
-
   const handleCreateProject = async () => {
     if (!projectName.trim()) {
       Alert.alert(t.common.error, t.projects.nameRequired);
@@ -115,7 +94,7 @@ export default function CreateProjectScreen({ navigation }: CreateProjectScreenP
 
           {/* Timezone Selector */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Timezone</Text>
+            <Text style={styles.label}>{t.projects.timezone}</Text>
             <TouchableOpacity
               style={styles.timezoneSelector}
               activeOpacity={0.7}
@@ -156,56 +135,12 @@ export default function CreateProjectScreen({ navigation }: CreateProjectScreenP
       </KeyboardAvoidingView>
 
       {/* Timezone Picker Modal */}
-      <Modal
+      <TimezonePickerModal
         visible={timezonePickerVisible}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setTimezonePickerVisible(false)}
-      >
-        <TouchableOpacity
-          style={styles.timezoneModalOverlay}
-          activeOpacity={1}
-          onPress={() => setTimezonePickerVisible(false)}
-        >
-          <View style={styles.timezoneModalContent}>
-            <View style={styles.timezoneModalHeader}>
-              <Text style={styles.timezoneModalTitle}>Select Timezone</Text>
-              <TouchableOpacity onPress={() => setTimezonePickerVisible(false)}>
-                <Ionicons name="close" size={24} color={Colors.text.secondary} />
-              </TouchableOpacity>
-            </View>
-            <FlatList
-              data={TIMEZONES}
-              keyExtractor={(item) => item.value}
-              renderItem={({ item }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.timezoneItem,
-                    projectTimezone === item.value && styles.timezoneItemSelected,
-                  ]}
-                  onPress={() => {
-                    setProjectTimezone(item.value);
-                    setTimezonePickerVisible(false);
-                  }}
-                >
-                  <Text
-                    style={[
-                      styles.timezoneLabel,
-                      projectTimezone === item.value && styles.timezoneLabelSelected,
-                    ]}
-                  >
-                    {item.label}
-                  </Text>
-                  {projectTimezone === item.value && (
-                    <Ionicons name="checkmark" size={20} color={Colors.accent.purple} />
-                  )}
-                </TouchableOpacity>
-              )}
-              style={styles.timezoneList}
-            />
-          </View>
-        </TouchableOpacity>
-      </Modal>
+        value={projectTimezone}
+        onSelect={setProjectTimezone}
+        onClose={() => setTimezonePickerVisible(false)}
+      />
     </SafeAreaView>
   );
 }
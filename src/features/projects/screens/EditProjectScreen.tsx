@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../../shared/constants/colors';
+import { ProjectsStackParamList } from '../../../navigation';
+import { useProjects } from '../../../contexts/ProjectContext';
+import { useI18n } from '../../../contexts/I18nContext';
+import { createProjectScreenStyles as formStyles, editProjectScreenStyles as styles } from '../styles';
+import { useProjectSettings } from '../hooks';
+import { TimezonePickerModal } from '../components/TimezonePickerModal';
+import { DEFAULT_PROJECT_TIMEZONE, getTimezoneLabel } from '../utils/timezones';
+
+type EditProjectScreenProps = NativeStackScreenProps<ProjectsStackParamList, 'EditProject'>;
+
+export default function EditProjectScreen({ route, navigation }: EditProjectScreenProps) {
+  const { projectId } = route.params;
+  const { refreshProjects } = useProjects();
+  const { t } = useI18n();
+  const { project, loading, pending, saveSettings, setArchived, deleteProject } =
+    useProjectSettings(projectId, refreshProjects);
+
+  const [projectName, setProjectName] = useState('');
+  const [projectDescription, setProjectDescription] = useState('');
+  const [projectTimezone, setProjectTimezone] = useState(DEFAULT_PROJECT_TIMEZONE);
+  const [timezonePickerVisible, setTimezonePickerVisible] = useState(false);
+
+  // Fill the form once the project has loaded
+  useEffect(() => {
+    if (project) {
+      setProjectName(project.name);
+      setProjectDescription(project.description || '');
+      setProjectTimezone(project.timezone || DEFAULT_PROJECT_TIMEZONE);
+    }
+  }, [project?.id]);
+
+  const isArchived = Boolean(project?.archivedAt);
+
+  const handleSave = async () => {
+    if (!projectName.trim()) {
+      Alert.alert(t.common.error, t.projects.nameRequired);
+      return;
+    }
+
+    try {
+      await saveSettings({ name: projectName, description: projectDescription, timezone: projectTimezone });
+      navigation.goBack();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.saveError);
+    }
+  };
+
+  const handleArchive = () => {
+    if (!project) return;
+
+    Alert.alert(
+      t.projects.archiveProject,
+      t.projects.archiveProjectConfirm(project.name),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.projects.archiveProject,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await setArchived(true);
+              navigation.goBack();
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.projectActionError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestore = async () => {
+    try {
+      await setArchived(false);
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.projectActionError);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!project) return;
+
+    Alert.alert(
+      t.projects.deleteProject,
+      t.projects.deleteProjectConfirm(project.name),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.common.delete,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProject();
+              // The project screen underneath is gone as well
+              navigation.popToTop();
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.projectActionError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={formStyles.container}>
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={Colors.accent.purple} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!project) {
+    return (
+      <SafeAreaView style={formStyles.container}>
+        <View style={styles.centerContent}>
+          <Text style={formStyles.label}>{t.common.noData}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={formStyles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={formStyles.keyboardView}
+      >
+        {/* Header */}
+        <View style={formStyles.header}>
+          <TouchableOpacity style={formStyles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="chevron-back" size={24} color={Colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={formStyles.title}>{t.projects.editProject}</Text>
+          {pending ? (
+            <ActivityIndicator size="small" color={Colors.accent.purple} />
+          ) : (
+            <View style={formStyles.headerRight} />
+          )}
+        </View>
+
+        <ScrollView style={formStyles.scrollView} contentContainerStyle={formStyles.content}>
+          {isArchived && (
+            <View style={styles.archivedBanner}>
+              <Ionicons name="archive-outline" size={18} color={Colors.accent.yellow} />
+              <Text style={styles.archivedBannerText}>{t.projects.archivedBanner}</Text>
+            </View>
+          )}
+
+          {/* Project Name */}
+          <View style={formStyles.inputGroup}>
+            <Text style={formStyles.label}>{t.projects.projectName}</Text>
+            <TextInput
+              style={[formStyles.input, isArchived && styles.inputDisabled]}
+              placeholder={t.projects.namePlaceholder}
+              placeholderTextColor={Colors.text.tertiary}
+              value={projectName}
+              onChangeText={setProjectName}
+              editable={!isArchived}
+            />
+          </View>
+
+          {/* Description */}
+          <View style={formStyles.inputGroup}>
+            <Text style={formStyles.label}>{t.projects.projectDescription} {t.auth.optional}</Text>
+            <TextInput
+              style={[formStyles.input, formStyles.textArea, isArchived && styles.inputDisabled]}
+              placeholder={t.projects.descriptionPlaceholder}
+              placeholderTextColor={Colors.text.tertiary}
+              value={projectDescription}
+              onChangeText={setProjectDescription}
+              editable={!isArchived}
+              multiline
+              numberOfLines={4}
+            />
+          </View>
+
+          {/* Timezone Selector */}
+          <View style={formStyles.inputGroup}>
+            <Text style={formStyles.label}>{t.projects.timezone}</Text>
+            <TouchableOpacity
+              style={[formStyles.timezoneSelector, isArchived && styles.inputDisabled]}
+              activeOpacity={0.7}
+              onPress={() => setTimezonePickerVisible(true)}
+              disabled={isArchived}
+            >
+              <View style={formStyles.timezoneSelectorLeft}>
+                <Ionicons name="globe" size={20} color={Colors.accent.blue} />
+                <Text style={formStyles.timezoneSelectorValue}>
+                  {getTimezoneLabel(projectTimezone)}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={Colors.text.tertiary} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Archive / restore and delete */}
+          <View style={styles.actions}>
+            {isArchived ? (
+              <TouchableOpacity style={styles.actionButton} onPress={handleRestore} disabled={pending}>
+                <Ionicons name="arrow-undo-outline" size={20} color={Colors.accent.purple} />
+                <Text style={styles.actionText}>{t.projects.restoreProject}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.actionButton} onPress={handleArchive} disabled={pending}>
+                <Ionicons name="archive-outline" size={20} color={Colors.accent.yellow} />
+                <Text style={styles.actionText}>{t.projects.archiveProject}</Text>
+              </TouchableOpacity>
+            )}
+
+            {project.role === 'owner' && (
+              <TouchableOpacity style={styles.actionButton} onPress={handleDelete} disabled={pending}>
+                <Ionicons name="trash-outline" size={20} color={Colors.accent.red} />
+                <Text style={[styles.actionText, styles.actionTextDestructive]}>{t.projects.deleteProject}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Bottom Buttons */}
+        {!isArchived && (
+          <View style={formStyles.bottomButtons}>
+            <TouchableOpacity
+              style={formStyles.cancelButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Text style={formStyles.cancelButtonText}>{t.common.cancel}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[formStyles.createButton, pending && formStyles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={pending}
+            >
+              <Text style={formStyles.createButtonText}>{t.common.save}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+
+      <TimezonePickerModal
+        visible={timezonePickerVisible}
+        value={projectTimezone}
+        onSelect={setProjectTimezone}
+        onClose={() => setTimezonePickerVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
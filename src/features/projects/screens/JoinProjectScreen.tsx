@@ -5,36 +5,48 @@ import {
   SafeAreaView,
   ActivityIndicator,
   TouchableOpacity,
+  TextInput,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../../shared/constants/colors';
 import { AppStackParamList } from '../../../navigation';
 import { invitesAPI } from '../../../shared/services/api';
 import { useProjects } from '../../../contexts/ProjectContext';
+import { parseInviteCode } from '../../../shared/utils/inviteCode';
 import { joinProjectScreenStyles as styles } from '../styles';
 
 type JoinProjectScreenProps = NativeStackScreenProps<AppStackParamList, 'JoinProject'>;
 
 export default function JoinProjectScreen({ route, navigation }: JoinProjectScreenProps) {
-  const { code } = route.params;
+  // Opened from a link or QR code with a code, or from the projects list to enter one
+  const linkCode = parseInviteCode(route.params?.code);
   const { refreshProjects } = useProjects();
 
-  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState<string | null>(linkCode);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeInputError, setCodeInputError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(Boolean(linkCode));
   const [joining, setJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Join request sent through an approval link, waiting for an admin
+  const [requestPending, setRequestPending] = useState(false);
   const [projectInfo, setProjectInfo] = useState<{
     projectId: string;
     projectName: string;
     projectDescription?: string;
+    requiresApproval?: boolean;
   } | null>(null);
 
   useEffect(() => {
-    checkAndFetchInviteInfo();
+    if (code) {
+      checkAndFetchInviteInfo(code);
+    }
   }, [code]);
 
-  const checkAndFetchInviteInfo = async () => {
+  const checkAndFetchInviteInfo = async (inviteCode: string) => {
     try {
       // Check if user logged out recently (within last 5 seconds)
       const lastLogoutTime = await AsyncStorage.getItem('lastLogoutTime');
@@ -51,25 +63,25 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
       }
 
       // Proceed with fetching invite info
-      await fetchInviteInfo();
+      await fetchInviteInfo(inviteCode);
     } catch (err) {
       console.error('Error checking logout time:', err);
       // If check fails, proceed anyway
-      await fetchInviteInfo();
+      await fetchInviteInfo(inviteCode);
     }
   };
 
-  const fetchInviteInfo = async () => {
+  const fetchInviteInfo = async (inviteCode: string) => {
     try {
       setLoading(true);
       setError(null);
-      const response = await invitesAPI.getInviteInfo(code);
+      const response = await invitesAPI.getInviteInfo(inviteCode);
       setProjectInfo(response.data);
     } catch (err: any) {
       if (err.response?.status === 404) {
         setError('Приглашение не найдено');
       } else if (err.response?.status === 410) {
-        setError('Срок действия приглашения истек');
+        setError('Приглашение больше не действует');
       } else {
         setError('Не удалось загрузить информацию о приглашении');
       }
@@ -78,15 +90,49 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
     }
   };
 
+  const submitCode = (input: string) => {
+    const parsed = parseInviteCode(input);
+    if (!parsed) {
+      setCodeInputError('Это не похоже на приглашение. Вставьте ссылку или код целиком');
+      return;
+    }
+    setCodeInputError(null);
+    setCode(parsed);
+  };
+
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    setCodeInput(text.trim());
+    if (text.trim()) {
+      submitCode(text);
+    }
+  };
+
+  // Back to the code form after a wrong or expired code
+  const handleEnterAnotherCode = () => {
+    setError(null);
+    setProjectInfo(null);
+    setCode(null);
+  };
+
   const handleJoin = async () => {
+    if (!code) return;
+
     try {
       setJoining(true);
-      await invitesAPI.joinProject(code);
-      await refreshProjects();
+      const response = await invitesAPI.joinProject(code);
 
       // Clear the lastLogoutTime flag after successful join
       await AsyncStorage.removeItem('lastLogoutTime');
 
+      if (response.data.pending) {
+        // The project appears in the list once an admin approves the request
+        setRequestPending(true);
+        return;
+      }
+
+      await refreshProjects();
+
       // Navigate to the project
       navigation.reset({
         index: 0,
@@ -123,6 +169,78 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
     );
   }
 
+  if (!code) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="qr-code-outline" size={64} color={Colors.accent.purple} />
+          </View>
+
+          <Text style={styles.title}>Вступить по приглашению</Text>
+          <Text style={styles.subtitle}>
+            Отсканируйте QR-код камерой телефона или вставьте ссылку-приглашение либо код
+          </Text>
+
+          <TextInput
+            style={styles.codeInput}
+            value={codeInput}
+            onChangeText={(text) => {
+              setCodeInput(text);
+              setCodeInputError(null);
+            }}
+            placeholder="rehearsalapp://invite/..."
+            placeholderTextColor={Colors.text.tertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="go"
+            onSubmitEditing={() => submitCode(codeInput)}
+          />
+          {codeInputError && <Text style={styles.codeInputError}>{codeInputError}</Text>}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={() => submitCode(codeInput)}
+            >
+              <Ionicons name="arrow-forward" size={20} color={Colors.text.inverse} />
+              <Text style={[styles.buttonText, styles.primaryButtonText]}>Продолжить</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handlePaste}>
+              <Ionicons name="clipboard-outline" size={20} color={Colors.text.secondary} />
+              <Text style={styles.secondaryButtonText}>Вставить из буфера</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleCancel}>
+              <Text style={styles.secondaryButtonText}>Отмена</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (requestPending) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centerContent}>
+          <Ionicons name="hourglass-outline" size={64} color={Colors.accent.yellow} />
+          <Text style={styles.title}>Заявка отправлена</Text>
+          <Text style={styles.subtitle}>
+            Администратор проекта «{projectInfo?.projectName}» рассмотрит заявку. Проект появится в списке, когда её примут.
+          </Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => navigation.reset({ index: 0, routes: [{ name: 'MainTabs' }] })}
+          >
+            <Text style={styles.buttonText}>Понятно</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
@@ -130,6 +248,11 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
           <Ionicons name="alert-circle" size={64} color={Colors.accent.red} />
           <Text style={styles.errorTitle}>Ошибка</Text>
           <Text style={styles.errorText}>{error}</Text>
+          {!linkCode && (
+            <TouchableOpacity style={styles.button} onPress={handleEnterAnotherCode}>
+              <Text style={styles.buttonText}>Ввести другой код</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity style={styles.button} onPress={handleCancel}>
             <Text style={styles.buttonText}>Закрыть</Text>
           </TouchableOpacity>
@@ -157,7 +280,9 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
         </View>
 
         <Text style={styles.subtitle}>
-          Вас приглашают присоединиться к этому проекту
+          {projectInfo?.requiresApproval
+            ? 'Вступление в этот проект проходит по заявке: администратор рассмотрит её после отправки'
+            : 'Вас приглашают присоединиться к этому проекту'}
         </Text>
 
         <View style={styles.buttonContainer}>
@@ -172,7 +297,7 @@ export default function JoinProjectScreen({ route, navigation }: JoinProjectScre
               <>
                 <Ionicons name="checkmark" size={20} color={Colors.text.inverse} />
                 <Text style={[styles.buttonText, styles.primaryButtonText]}>
-                  Присоединиться
+                  {projectInfo?.requiresApproval ? 'Отправить заявку' : 'Присоединиться'}
                 </Text>
               </>
             )}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,12 +12,42 @@ import {
   RefreshControl,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../../shared/constants/colors';
 import { ProjectsStackParamList } from '../../../navigation';
 import { projectsAPI, rehearsalsAPI, invitesAPI } from '../../../shared/services/api';
 import { projectDetailScreenStyles as styles } from '../styles';
-import { formatDateToString as formatDateToStringUtil } from '../../../shared/utils/time';
+import {
+  AttendanceStatus,
+  JoinRequest,
+  ProjectInvite,
+  ProjectPermission,
+  ProjectRole,
+  Scene,
+  Weekday,
+  WorkingHours,
+} from '../../../shared/types';
+import { useI18n } from '../../../contexts/I18nContext';
+import { useProjects } from '../../../contexts/ProjectContext';
+import { useAuth } from '../../../contexts/AuthContext';
+import {
+  useProjectScenes,
+  useAttendanceHistory,
+  useMemberManagement,
+  useInviteLink,
+  useJoinRequests,
+  getAssignableRoles,
+} from '../hooks';
+import { InviteInput } from '../hooks/useInviteLink';
+import { SceneEditorModal } from '../components/SceneEditorModal';
+import { MemberActionsModal } from '../components/MemberActionsModal';
+import { WorkingHoursEditorModal } from '../components/WorkingHoursEditorModal';
+import { InviteEditorModal } from '../components/InviteEditorModal';
+import { InviteQrModal } from '../components/InviteQrModal';
+import { DEFAULT_WORKDAY } from '../../../shared/utils/availability';
+import { formatDateToString as formatDateToStringUtil, isoToDateString } from '../../../shared/utils/time';
+import { hasProjectPermission, canEditProjectSettings } from '../../../shared/utils/permissions';
 
 type ProjectDetailScreenProps = NativeStackScreenProps<ProjectsStackParamList, 'ProjectDetail'>;
 
@@ -26,13 +56,28 @@ interface Project {
   name: string;
   description: string;
   is_admin: boolean;
+  role?: ProjectRole;
+  permissions?: ProjectPermission[];
+  workingHours?: WorkingHours | null;
+  archivedAt?: string | null;
   created_at: string;
 }
 
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const ATTENDANCE_COLORS: Record<AttendanceStatus, string> = {
+  present: Colors.accent.green,
+  late: Colors.accent.yellow,
+  absent: Colors.accent.red,
+};
+
+// Recent attendance marks shown per member
+const RECENT_ATTENDANCE_SHOWN = 5;
+
 interface Member {
   id: string;
   userId: string;
-  role: string;
+  role: ProjectRole;
   characterName?: string;
   firstName: string;
   lastName?: string;
@@ -63,6 +108,9 @@ const formatDateToString = formatDateToStringUtil;
 
 export default function ProjectDetailScreen({ route, navigation }: ProjectDetailScreenProps) {
   const { projectId } = route.params;
+  const { t } = useI18n();
+  const { refreshProjects } = useProjects();
+  const { user } = useAuth();
 
   const [project, setProject] = useState<Project | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
@@ -70,6 +118,31 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [inviteLoading, setInviteLoading] = useState(false);
+  const [sceneEditorVisible, setSceneEditorVisible] = useState(false);
+  const [editingScene, setEditingScene] = useState<Scene | null>(null);
+  const [workingHoursEditorVisible, setWorkingHoursEditorVisible] = useState(false);
+  const [managedMember, setManagedMember] = useState<Member | null>(null);
+  const [inviteEditorVisible, setInviteEditorVisible] = useState(false);
+  // Invite shown as a QR code for people in the room
+  const [qrInvite, setQrInvite] = useState<{ url: string; label?: string } | null>(null);
+
+  const {
+    scenes,
+    reload: reloadScenes,
+    createScene,
+    updateScene,
+    deleteScene,
+  } = useProjectScenes(projectId);
+
+  const { members: attendance, reload: reloadAttendance } = useAttendanceHistory(projectId);
+
+  // Invite links are listed for members who manage the project
+  const {
+    invites,
+    reloadInvites,
+    createInvite,
+    revokeInvite,
+  } = useInviteLink(project && hasProjectPermission(project, 'manage_project') ? projectId : null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -91,14 +164,88 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
     }
   }, [projectId]);
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  // Reload on focus so changes made in the project settings show up
+  useFocusEffect(
+    useCallback(() => {
+      fetchData();
+    }, [fetchData])
+  );
+
+  const { pending: memberActionPending, changeRole, transferOwnership, removeMember, leaveProject } =
+    useMemberManagement(projectId, fetchData);
+
+  // Join requests from approval links, for members who manage members
+  const {
+    requests: joinRequests,
+    pending: joinRequestPending,
+    reload: reloadJoinRequests,
+    approve: approveJoinRequest,
+    reject: rejectJoinRequest,
+  } = useJoinRequests(project && hasProjectPermission(project, 'manage_members') ? projectId : null, fetchData);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchData();
-  }, [fetchData]);
+    reloadScenes();
+    reloadAttendance();
+    reloadInvites();
+    reloadJoinRequests();
+  }, [fetchData, reloadScenes, reloadAttendance, reloadInvites, reloadJoinRequests]);
+
+  const openSceneEditor = (scene: Scene | null) => {
+    setEditingScene(scene);
+    setSceneEditorVisible(true);
+  };
+
+  const handleSaveScene = async (data: { name: string; description?: string; memberIds: string[] }) => {
+    if (editingScene) {
+      await updateScene(editingScene.id, data);
+    } else {
+      await createScene(data);
+    }
+  };
+
+  const handleDeleteScene = (scene: Scene) => {
+    Alert.alert(
+      t.projects.deleteScene,
+      t.projects.deleteSceneConfirm(scene.name),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.common.delete,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteScene(scene.id);
+              setSceneEditorVisible(false);
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.sceneDeleteError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSaveWorkingHours = async (workingHours: WorkingHours) => {
+    const response = await projectsAPI.updateWorkingHours(projectId, workingHours);
+    setProject(prev => prev && { ...prev, workingHours: response.data.workingHours });
+    // Calendar and planner read working hours from the project list
+    refreshProjects();
+  };
+
+  // Weekdays without configured hours use the default window
+  const getDayHoursLabel = (day: Weekday) => {
+    const hours = project?.workingHours?.[day];
+    const dayHours = hours === undefined ? DEFAULT_WORKDAY : hours;
+    return dayHours ? `${dayHours.start}–${dayHours.end}` : t.projects.dayOff;
+  };
+
+  const getMemberNames = (memberIds: string[]) =>
+    members
+      .filter(m => memberIds.includes(m.userId))
+      .map(m => m.characterName || m.firstName)
+      .join(', ');
 
   const handleInvite = async () => {
     if (!project) return;
@@ -108,10 +255,10 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
       const response = await invitesAPI.createInvite(projectId);
       const { inviteUrl } = response.data;
 
-      await Share.share({
-        message: `Присоединяйся к проекту "${project.name}" в приложении Rehearsal:\n${inviteUrl}`,
-        title: `Приглашение в проект ${project.name}`,
-      });
+      // Shown as a QR code first; the link can still be shared from there
+      setQrInvite({ url: inviteUrl });
+      // The plain link may be new, so refresh the list below
+      reloadInvites();
     } catch (err: any) {
       Alert.alert(
         'Ошибка',
@@ -122,6 +269,167 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
     }
   };
 
+  const getInviteLabel = (invite: ProjectInvite) => invite.label || t.projects.inviteDefaultLabel;
+
+  const getInviteMeta = (invite: ProjectInvite) => {
+    const expiry = invite.expiresAt
+      ? t.projects.inviteExpiresOn(formatDate(invite.expiresAt))
+      : t.projects.inviteNeverExpires;
+    const parts = [t.projects.inviteUses(invite.useCount, invite.maxUses), expiry];
+    if (invite.requiresApproval) {
+      parts.push(t.projects.inviteWithApproval);
+    }
+    return parts.join(' · ');
+  };
+
+  const shareInviteUrl = async (url: string, title: string) => {
+    if (!project) return;
+
+    try {
+      await Share.share({
+        message: t.projects.inviteShareMessage(project.name, url),
+        title,
+      });
+    } catch (err) {
+      console.error('Failed to share invite:', err);
+    }
+  };
+
+  const shareInvite = (invite: ProjectInvite) => shareInviteUrl(invite.inviteUrl, getInviteLabel(invite));
+
+  const handleCreateInvite = async (data: InviteInput) => {
+    const invite = await createInvite(data);
+    if (invite) {
+      shareInvite(invite);
+    }
+  };
+
+  const handleRevokeInvite = (invite: ProjectInvite) => {
+    Alert.alert(
+      t.projects.revokeInvite,
+      t.projects.revokeInviteConfirm(getInviteLabel(invite)),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.projects.revokeInvite,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeInvite(invite.id);
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.projectActionError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getMemberName = (member: Member | JoinRequest) => `${member.firstName} ${member.lastName || ''}`.trim();
+
+  const handleApproveRequest = async (request: JoinRequest) => {
+    try {
+      await approveJoinRequest(request.userId);
+      // Members are reloaded by the hook; attendance history lists the new member as well
+      reloadAttendance();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.joinRequestError);
+    }
+  };
+
+  const handleRejectRequest = (request: JoinRequest) => {
+    Alert.alert(
+      t.projects.rejectRequest,
+      t.projects.rejectRequestConfirm(getMemberName(request)),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.projects.rejectRequest,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await rejectJoinRequest(request.userId);
+              // The request's place on its link is free again
+              reloadInvites();
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.joinRequestError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const runMemberAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setManagedMember(null);
+      // Own role or ownership may have changed
+      refreshProjects();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.memberActionError);
+    }
+  };
+
+  const handleTransferOwnership = (member: Member) => {
+    Alert.alert(
+      t.projects.makeOwner,
+      t.projects.makeOwnerConfirm(getMemberName(member)),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.projects.makeOwner,
+          onPress: () => runMemberAction(async () => {
+            await transferOwnership(member.userId);
+            // The previous owner stays on as admin
+            setProject(prev => prev && { ...prev, role: 'admin' });
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleRemoveMember = (member: Member) => {
+    Alert.alert(
+      t.projects.removeMember,
+      t.projects.removeMemberConfirm(getMemberName(member)),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.common.delete,
+          style: 'destructive',
+          onPress: () => runMemberAction(() => removeMember(member.userId)),
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    if (!project) return;
+
+    Alert.alert(
+      t.projects.leaveProject,
+      t.projects.leaveProjectConfirm(project.name),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.projects.leaveProject,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveProject();
+              // Refreshing the list also removes the project's rehearsals from the device calendar
+              await refreshProjects();
+              navigation.goBack();
+            } catch (err: any) {
+              Alert.alert(t.common.error, err.response?.data?.error || t.projects.leaveProjectError);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Split rehearsals into upcoming and past
   const today = formatDateToString(new Date());
   const upcomingRehearsals = rehearsals
@@ -151,18 +459,22 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
     );
   }
 
-  const getRoleLabel = (role: string) => {
-    switch (role) {
-      case 'owner': return 'Владелец';
-      case 'admin': return 'Админ';
-      default: return 'Участник';
-    }
-  };
+  const getRoleLabel = (role: ProjectRole) => t.projects.roleLabels[role] || t.projects.roleLabels.member;
+
+  // Archived projects come with read-only permissions, which hides every edit control below
+  const canManageProject = hasProjectPermission(project, 'manage_project');
+  const canManageMembers = hasProjectPermission(project, 'manage_members');
+  const isManageable = (member: Member) =>
+    canManageMembers &&
+    member.userId !== user?.id.toString() &&
+    (getAssignableRoles(project.role, member.role).length > 0 || project.role === 'owner');
 
-  const getRoleColor = (role: string) => {
+  const getRoleColor = (role: ProjectRole) => {
     switch (role) {
       case 'owner': return Colors.accent.purple;
       case 'admin': return Colors.accent.blue;
+      case 'director': return Colors.accent.green;
+      case 'stage_manager': return Colors.accent.yellow;
       default: return Colors.text.tertiary;
     }
   };
@@ -187,14 +499,39 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
               <Ionicons name="shield-checkmark" size={14} color={Colors.accent.purple} />
             </View>
           )}
+          {hasProjectPermission(project, 'view_reports') && (
+            <TouchableOpacity
+              style={styles.reportButton}
+              onPress={() => navigation.navigate('ProjectReport', { projectId, projectName: project.name })}
+              accessibilityLabel={t.projects.report}
+            >
+              <Ionicons name="bar-chart-outline" size={22} color={Colors.accent.purple} />
+            </TouchableOpacity>
+          )}
+          {canEditProjectSettings(project) && (
+            <TouchableOpacity
+              style={styles.reportButton}
+              onPress={() => navigation.navigate('EditProject', { projectId })}
+              accessibilityLabel={t.projects.editProject}
+            >
+              <Ionicons name="settings-outline" size={22} color={Colors.accent.purple} />
+            </TouchableOpacity>
+          )}
         </View>
 
+        {project.archivedAt && (
+          <View style={styles.archivedBanner}>
+            <Ionicons name="archive-outline" size={16} color={Colors.accent.yellow} />
+            <Text style={styles.archivedBannerText}>{t.projects.archivedBanner}</Text>
+          </View>
+        )}
+
         {project.description && (
           <Text style={styles.description}>{project.description}</Text>
         )}
 
         {/* Invite Button (admin only) */}
-        {project.is_admin && (
+        {canManageProject && (
           <TouchableOpacity
             style={styles.inviteButton}
             onPress={handleInvite}
@@ -211,6 +548,73 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
           </TouchableOpacity>
         )}
 
+        {/* Invite links (label, role on joining, join count and expiry) */}
+        {canManageProject && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="link" size={20} color={Colors.accent.purple} />
+              <Text style={styles.sectionTitle}>{t.projects.inviteLinks}</Text>
+              <Text style={styles.sectionCount}>{invites.length}</Text>
+              <TouchableOpacity onPress={() => setInviteEditorVisible(true)} accessibilityLabel={t.projects.newInvite}>
+                <Ionicons name="add-circle-outline" size={22} color={Colors.accent.purple} />
+              </TouchableOpacity>
+            </View>
+
+            {invites.length === 0 ? (
+              <Text style={styles.emptyText}>{t.projects.noInvites}</Text>
+            ) : (
+              <View style={styles.invitesList}>
+                {invites.map(invite => {
+                  const isActive = invite.status === 'active';
+                  return (
+                    <View key={invite.id} style={[styles.inviteCard, !isActive && styles.inviteCardInactive]}>
+                      <View style={styles.inviteInfo}>
+                        <View style={styles.inviteTitleRow}>
+                          <Text style={styles.inviteLabel} numberOfLines={1}>{getInviteLabel(invite)}</Text>
+                          <View style={[styles.roleBadge, { borderColor: getRoleColor(invite.role) }]}>
+                            <Text style={[styles.roleText, { color: getRoleColor(invite.role) }]}>
+                              {getRoleLabel(invite.role)}
+                            </Text>
+                          </View>
+                        </View>
+                        <Text style={styles.inviteMeta}>{getInviteMeta(invite)}</Text>
+                        {!isActive && (
+                          <Text style={styles.inviteStatus}>{t.projects.inviteStatusLabels[invite.status]}</Text>
+                        )}
+                      </View>
+                      {isActive && (
+                        <TouchableOpacity
+                          style={styles.inviteAction}
+                          onPress={() => setQrInvite({ url: invite.inviteUrl, label: getInviteLabel(invite) })}
+                          accessibilityLabel={t.projects.inviteQr}
+                        >
+                          <Ionicons name="qr-code-outline" size={20} color={Colors.accent.purple} />
+                        </TouchableOpacity>
+                      )}
+                      {isActive && (
+                        <TouchableOpacity
+                          style={styles.inviteAction}
+                          onPress={() => shareInvite(invite)}
+                          accessibilityLabel={getInviteLabel(invite)}
+                        >
+                          <Ionicons name="share-outline" size={20} color={Colors.accent.purple} />
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={styles.inviteAction}
+                        onPress={() => handleRevokeInvite(invite)}
+                        accessibilityLabel={t.projects.revokeInvite}
+                      >
+                        <Ionicons name="close-circle-outline" size={20} color={Colors.accent.red} />
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Upcoming Rehearsals */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -286,6 +690,168 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
           </View>
         )}
 
+        {/* Working hours */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="time" size={20} color={Colors.accent.purple} />
+            <Text style={styles.sectionTitle}>{t.projects.workingHours}</Text>
+            {canManageProject && (
+              <TouchableOpacity
+                onPress={() => setWorkingHoursEditorVisible(true)}
+                accessibilityLabel={t.projects.workingHours}
+              >
+                <Ionicons name="create-outline" size={22} color={Colors.accent.purple} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.workingHoursList}>
+            {WEEKDAYS.map(day => (
+              <View key={day} style={styles.workingHoursRow}>
+                <Text style={styles.workingHoursDay}>{t.days.short[day]}</Text>
+                <Text style={styles.workingHoursTime}>{getDayHoursLabel(day)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Scenes */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="film" size={20} color={Colors.accent.purple} />
+            <Text style={styles.sectionTitle}>{t.projects.scenes}</Text>
+            <Text style={styles.sectionCount}>{scenes.length}</Text>
+            {canManageProject && (
+              <TouchableOpacity onPress={() => openSceneEditor(null)} accessibilityLabel={t.projects.addScene}>
+                <Ionicons name="add-circle-outline" size={22} color={Colors.accent.purple} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {scenes.length === 0 ? (
+            <Text style={styles.emptyText}>{t.projects.noScenes}</Text>
+          ) : (
+            <View style={styles.scenesList}>
+              {scenes.map(scene => (
+                <TouchableOpacity
+                  key={scene.id}
+                  style={styles.sceneCard}
+                  onPress={() => openSceneEditor(scene)}
+                  disabled={!canManageProject}
+                >
+                  <View style={styles.sceneInfo}>
+                    <Text style={styles.sceneName} numberOfLines={1}>{scene.name}</Text>
+                    {scene.memberIds.length > 0 && (
+                      <Text style={styles.sceneMembers} numberOfLines={2}>
+                        {getMemberNames(scene.memberIds)}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.sceneCount}>
+                    {t.projects.sceneMembersCount(scene.memberIds.length)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Attendance history (admins see every member, others only themselves) */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="checkmark-done" size={20} color={Colors.accent.purple} />
+            <Text style={styles.sectionTitle}>{t.projects.attendanceHistory}</Text>
+          </View>
+
+          {attendance.every(member => member.summary.total === 0) ? (
+            <Text style={styles.emptyText}>{t.projects.noAttendance}</Text>
+          ) : (
+            <View style={styles.attendanceList}>
+              {attendance.filter(member => member.summary.total > 0).map(member => (
+                <View key={member.userId} style={styles.attendanceCard}>
+                  <View style={styles.attendanceHeader}>
+                    <Text style={styles.attendanceName} numberOfLines={1}>
+                      {member.firstName} {member.lastName || ''}
+                    </Text>
+                    {member.summary.rate !== null && (
+                      <Text style={styles.attendanceRate}>
+                        {t.projects.attendanceRate(Math.round(member.summary.rate * 100))}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.attendanceCounts}>
+                    {t.projects.attendanceCounts(member.summary.present, member.summary.late, member.summary.absent)}
+                  </Text>
+                  {member.summary.avgLateMinutes !== null && (
+                    <Text style={styles.attendanceCounts}>
+                      {t.projects.attendanceAvgLate(member.summary.avgLateMinutes)}
+                    </Text>
+                  )}
+                  <View style={styles.attendanceRecent}>
+                    {member.recent.slice(0, RECENT_ATTENDANCE_SHOWN).map(record => (
+                      <View
+                        key={record.rehearsalId}
+                        style={[styles.attendanceRecord, { borderColor: ATTENDANCE_COLORS[record.status] }]}
+                      >
+                        <Text style={[styles.attendanceRecordText, { color: ATTENDANCE_COLORS[record.status] }]}>
+                          {formatDate(isoToDateString(record.startsAt))}
+                          {record.lateMinutes ? ` ${t.projects.attendanceLateBy(record.lateMinutes)}` : ''}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Join requests from approval links */}
+        {joinRequests.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="hourglass" size={20} color={Colors.accent.yellow} />
+              <Text style={styles.sectionTitle}>{t.projects.joinRequests}</Text>
+              <Text style={styles.sectionCount}>{joinRequests.length}</Text>
+            </View>
+
+            <View style={styles.membersList}>
+              {joinRequests.map(request => (
+                <View key={request.userId} style={styles.memberCard}>
+                  <View style={styles.memberAvatar}>
+                    <Text style={styles.memberAvatarText}>
+                      {request.firstName[0]}{request.lastName?.[0] || ''}
+                    </Text>
+                  </View>
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>{getMemberName(request)}</Text>
+                    <Text style={styles.memberCharacter}>
+                      {getRoleLabel(request.role)}
+                      {request.inviteLabel ? ` · ${t.projects.joinRequestVia(request.inviteLabel)}` : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.inviteAction}
+                    onPress={() => handleApproveRequest(request)}
+                    disabled={joinRequestPending}
+                    accessibilityLabel={t.projects.approveRequest}
+                  >
+                    <Ionicons name="checkmark-circle-outline" size={24} color={Colors.accent.green} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.inviteAction}
+                    onPress={() => handleRejectRequest(request)}
+                    disabled={joinRequestPending}
+                    accessibilityLabel={t.projects.rejectRequest}
+                  >
+                    <Ionicons name="close-circle-outline" size={24} color={Colors.accent.red} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Members */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -296,7 +862,12 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
 
           <View style={styles.membersList}>
             {members.map(member => (
-              <View key={member.id} style={styles.memberCard}>
+              <TouchableOpacity
+                key={member.id}
+                style={styles.memberCard}
+                onPress={() => setManagedMember(member)}
+                disabled={!isManageable(member)}
+              >
                 <View style={styles.memberAvatar}>
                   <Text style={styles.memberAvatarText}>
                     {member.firstName[0]}{member.lastName?.[0] || ''}
@@ -315,11 +886,74 @@ export default function ProjectDetailScreen({ route, navigation }: ProjectDetail
                     {getRoleLabel(member.role)}
                   </Text>
                 </View>
-              </View>
+              </TouchableOpacity>
             ))}
           </View>
         </View>
+
+        {/* Leave project (the owner has to transfer ownership first) */}
+        {project.role !== 'owner' && (
+          <TouchableOpacity style={styles.leaveButton} onPress={handleLeave} disabled={memberActionPending}>
+            <Ionicons name="exit-outline" size={18} color={Colors.accent.red} />
+            <Text style={styles.leaveButtonText}>{t.projects.leaveProject}</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
+
+      {managedMember && (
+        <MemberActionsModal
+          visible
+          memberName={getMemberName(managedMember)}
+          role={managedMember.role}
+          assignableRoles={getAssignableRoles(project.role, managedMember.role)}
+          canTransferOwnership={project.role === 'owner'}
+          canRemove={getAssignableRoles(project.role, managedMember.role).length > 0}
+          pending={memberActionPending}
+          onClose={() => setManagedMember(null)}
+          onChangeRole={role => runMemberAction(() => changeRole(managedMember.userId, role))}
+          onTransferOwnership={() => handleTransferOwnership(managedMember)}
+          onRemove={() => handleRemoveMember(managedMember)}
+        />
+      )}
+
+      {canManageProject && (
+        <SceneEditorModal
+          visible={sceneEditorVisible}
+          scene={editingScene}
+          members={members}
+          onClose={() => setSceneEditorVisible(false)}
+          onSave={handleSaveScene}
+          onDelete={handleDeleteScene}
+        />
+      )}
+
+      {canManageProject && (
+        <InviteEditorModal
+          visible={inviteEditorVisible}
+          roles={getAssignableRoles(project.role, 'member')}
+          onClose={() => setInviteEditorVisible(false)}
+          onSave={handleCreateInvite}
+        />
+      )}
+
+      {canManageProject && (
+        <InviteQrModal
+          url={qrInvite?.url ?? null}
+          projectName={project.name}
+          label={qrInvite?.label}
+          onClose={() => setQrInvite(null)}
+          onShare={() => qrInvite && shareInviteUrl(qrInvite.url, qrInvite.label || t.projects.inviteDefaultLabel)}
+        />
+      )}
+
+      {canManageProject && (
+        <WorkingHoursEditorModal
+          visible={workingHoursEditorVisible}
+          workingHours={project.workingHours}
+          onClose={() => setWorkingHoursEditorVisible(false)}
+          onSave={handleSaveWorkingHours}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { Colors } from '../../../shared/constants/colors';
+import { ProjectsStackParamList } from '../../../navigation';
+import { projectReportScreenStyles as styles } from '../styles';
+import { useI18n } from '../../../contexts/I18nContext';
+import { useProjectReport } from '../hooks';
+import { DateRangePicker } from '../../../shared/components/DateRangePicker';
+import { formatDateToString, formatDateLocalized } from '../../../shared/utils/time';
+
+type ProjectReportScreenProps = NativeStackScreenProps<ProjectsStackParamList, 'ProjectReport'>;
+
+// Default report period: the last 30 days including today
+const DEFAULT_RANGE_DAYS = 30;
+
+const defaultRange = () => {
+  const end = new Date();
+  const start = new Date();
+  start.setDate(start.getDate() - (DEFAULT_RANGE_DAYS - 1));
+  return { startDate: formatDateToString(start), endDate: formatDateToString(end) };
+};
+
+const percent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+export default function ProjectReportScreen({ route, navigation }: ProjectReportScreenProps) {
+  const { projectId, projectName } = route.params;
+  const { t, language } = useI18n();
+  const [range, setRange] = useState(defaultRange);
+  const [rangePickerVisible, setRangePickerVisible] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const { report, loading, error, reload, fetchCsv } = useProjectReport(projectId, range.startDate, range.endDate);
+
+  const locale = language === 'ru' ? 'ru-RU' : 'en-US';
+  const formatRangeDate = (date: string) =>
+    formatDateLocalized(date, { day: 'numeric', month: 'short', year: 'numeric' }, locale);
+
+  // DateRangePicker returns UTC-midnight dates of the selected calendar days
+  const handleRangeConfirm = (start: Date, end: Date) => {
+    setRange({
+      startDate: start.toISOString().split('T')[0],
+      endDate: end.toISOString().split('T')[0],
+    });
+  };
+
+  const handleExport = async (mode: 'share' | 'copy') => {
+    try {
+      setExporting(true);
+      const csv = await fetchCsv();
+      if (mode === 'copy') {
+        await Clipboard.setStringAsync(csv);
+        Alert.alert(t.projects.reportCsvCopied);
+      } else {
+        await Share.share({
+          message: csv,
+          title: `${projectName} ${range.startDate} – ${range.endDate}.csv`,
+        });
+      }
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.projects.reportExportError);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading && !report) {
+      return (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={Colors.accent.purple} />
+        </View>
+      );
+    }
+
+    if (error || !report) {
+      return (
+        <View style={styles.centerContent}>
+          <Text style={styles.errorText}>{error || t.projects.reportLoadError}</Text>
+        </View>
+      );
+    }
+
+    if (report.totals.rehearsals === 0) {
+      return <Text style={styles.emptyText}>{t.projects.reportNoData}</Text>;
+    }
+
+    const { totals } = report;
+
+    return (
+      <>
+        {/* Totals */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t.projects.reportTotals}</Text>
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{t.projects.reportRehearsals(totals.rehearsals)}</Text>
+              <Text style={styles.cardHours}>{t.projects.reportHours(totals.hours)}</Text>
+            </View>
+            <View style={styles.metricRow}>
+              <Text style={styles.metric}>{t.projects.reportYes}: {percent(totals.yesRate)}</Text>
+              <Text style={styles.metric}>{t.projects.reportMaybe}: {percent(totals.maybeRate)}</Text>
+              <Text style={styles.metric}>{t.projects.reportNoResponse}: {percent(totals.noResponseRate)}</Text>
+            </View>
+            {totals.attendance.total > 0 && (
+              <Text style={styles.metric}>
+                {t.projects.reportAttendance}: {percent(totals.attendance.rate)}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Per member */}
+        <View style={styles.section}>
+          {report.members.filter(member => member.rehearsals > 0).map(member => (
+            <View key={member.userId} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle} numberOfLines={1}>
+                  {member.firstName} {member.lastName || ''}
+                </Text>
+                <Text style={styles.cardHours}>{t.projects.reportHours(member.scheduledHours)}</Text>
+              </View>
+              <Text style={styles.cardSubtitle}>
+                {member.characterName ? `${member.characterName} · ` : ''}
+                {t.projects.reportRehearsals(member.rehearsals)}
+              </Text>
+              <View style={styles.metricRow}>
+                <Text style={styles.metric}>{t.projects.reportYes}: {percent(member.rsvp.yesRate)}</Text>
+                <Text style={styles.metric}>{t.projects.reportMaybe}: {percent(member.rsvp.maybeRate)}</Text>
+                <Text style={styles.metric}>{t.projects.reportNoResponse}: {percent(member.rsvp.noResponseRate)}</Text>
+              </View>
+              {member.attendance.total > 0 && (
+                <View style={styles.metricRow}>
+                  <Text style={styles.metric}>
+                    {t.projects.reportAttendance}: {percent(member.attendance.rate)}
+                  </Text>
+                  <Text style={styles.metric}>
+                    {t.projects.attendanceCounts(member.attendance.present, member.attendance.late, member.attendance.absent)}
+                  </Text>
+                  {member.attendance.attendedHours !== null && (
+                    <Text style={styles.metric}>
+                      {t.projects.reportAttendedHours(member.attendance.attendedHours)}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={loading && !!report} onRefresh={reload} tintColor={Colors.accent.purple} />
+        }
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="arrow-back" size={24} color={Colors.text.primary} />
+          </TouchableOpacity>
+          <View style={styles.titleContainer}>
+            <Text style={styles.title}>{t.projects.report}</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>{projectName}</Text>
+          </View>
+        </View>
+
+        {/* Period */}
+        <TouchableOpacity style={styles.rangeButton} onPress={() => setRangePickerVisible(true)}>
+          <Ionicons name="calendar-outline" size={20} color={Colors.accent.purple} />
+          <Text style={styles.rangeLabel}>{t.projects.reportRange}</Text>
+          <Text style={styles.rangeText}>
+            {formatRangeDate(range.startDate)} – {formatRangeDate(range.endDate)}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={Colors.text.tertiary} />
+        </TouchableOpacity>
+
+        {/* CSV export */}
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleExport('share')}
+            disabled={exporting || !report}
+          >
+            {exporting ? (
+              <ActivityIndicator size="small" color={Colors.text.inverse} />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={18} color={Colors.text.inverse} />
+                <Text style={styles.actionButtonText}>{t.projects.reportExportCsv}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.actionButtonSecondary]}
+            onPress={() => handleExport('copy')}
+            disabled={exporting || !report}
+          >
+            <Ionicons name="copy-outline" size={18} color={Colors.accent.purple} />
+            <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>{t.projects.reportCopyCsv}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {renderContent()}
+      </ScrollView>
+
+      <DateRangePicker
+        visible={rangePickerVisible}
+        onClose={() => setRangePickerVisible(false)}
+        onConfirm={handleRangeConfirm}
+        initialStartDate={new Date(range.startDate)}
+        initialEndDate={new Date(range.endDate)}
+      />
+    </SafeAreaView>
+  );
+}
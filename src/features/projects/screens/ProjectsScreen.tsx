@@ -1,35 +1,58 @@
-import React from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, Text, SafeAreaView, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { CompositeScreenProps } from '@react-navigation/native';
+import { CompositeScreenProps, useFocusEffect } from '@react-navigation/native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../../shared/constants/colors';
-import { ProjectsStackParamList } from '../../../navigation';
+import { AppStackParamList, ProjectsStackParamList, TabParamList } from '../../../navigation';
 import { useProjects } from '../../../contexts/ProjectContext';
 import { useI18n } from '../../../contexts/I18nContext';
-import { useInviteLink } from '../hooks';
+import { useInviteLink, useArchivedProjects } from '../hooks';
+import { hasProjectPermission } from '../../../shared/utils/permissions';
 import { projectsScreenStyles as styles } from '../styles';
 
-type ProjectsScreenProps = NativeStackScreenProps<ProjectsStackParamList, 'ProjectsMain'>;
+// Joining by invite opens a screen of the root stack
+type ProjectsScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<ProjectsStackParamList, 'ProjectsMain'>,
+  CompositeScreenProps<BottomTabScreenProps<TabParamList>, NativeStackScreenProps<AppStackParamList>>
+>;
 
 export default function ProjectsScreen({ navigation }: ProjectsScreenProps) {
   const { projects, selectedProject, setSelectedProject, loading, error } = useProjects();
   const { generateInviteLink, generatingInvite } = useInviteLink();
+  const { projects: archivedProjects, reload: reloadArchived } = useArchivedProjects();
+  const [archiveExpanded, setArchiveExpanded] = useState(false);
   const { t } = useI18n();
 
+  // Projects get archived and restored from their settings screen, so refresh the archive on return
+  useFocusEffect(
+    useCallback(() => {
+      reloadArchived();
+    }, [reloadArchived])
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.title}>{t.projects.title}</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => navigation.navigate('CreateProject')}
-          >
-            <Ionicons name="add-circle" size={28} color={Colors.accent.purple} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => navigation.navigate('JoinProject')}
+              accessibilityLabel={t.projects.joinWithInvite}
+            >
+              <Ionicons name="qr-code-outline" size={24} color={Colors.accent.purple} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => navigation.navigate('CreateProject')}
+            >
+              <Ionicons name="add-circle" size={28} color={Colors.accent.purple} />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Projects List */}
@@ -84,7 +107,7 @@ export default function ProjectsScreen({ navigation }: ProjectsScreenProps) {
                     </Text>
                   )}
                   {/* Invite button for admins */}
-                  {project.is_admin && (
+                  {hasProjectPermission(project, 'manage_project') && (
                     <TouchableOpacity
                       style={styles.inviteButton}
                       onPress={(e) => {
@@ -108,6 +131,44 @@ export default function ProjectsScreen({ navigation }: ProjectsScreenProps) {
             })}
           </View>
         )}
+
+        {/* Archived projects (read-only, outside the calendar) */}
+        {archivedProjects.length > 0 && (
+          <View style={styles.archiveSection}>
+            <TouchableOpacity
+              style={styles.archiveHeader}
+              onPress={() => setArchiveExpanded(expanded => !expanded)}
+            >
+              <Ionicons name="archive-outline" size={18} color={Colors.text.secondary} />
+              <Text style={styles.archiveTitle}>{t.projects.archivedProjects}</Text>
+              <Text style={styles.archiveCount}>{archivedProjects.length}</Text>
+              <Ionicons
+                name={archiveExpanded ? 'chevron-up' : 'chevron-down'}
+                size={18}
+                color={Colors.text.tertiary}
+              />
+            </TouchableOpacity>
+
+            {archiveExpanded && (
+              <View style={styles.projectsList}>
+                {archivedProjects.map((project) => (
+                  <TouchableOpacity
+                    key={project.id}
+                    style={[styles.projectCard, styles.archivedCard]}
+                    onPress={() => navigation.navigate('ProjectDetail', { projectId: project.id })}
+                  >
+                    <Text style={styles.projectName}>{project.name}</Text>
+                    {project.description && (
+                      <Text style={styles.projectDescription} numberOfLines={2}>
+                        {project.description}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
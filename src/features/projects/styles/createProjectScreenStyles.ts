@@ -111,52 +111,4 @@ export const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
-  // Timezone picker modal styles
-  timezoneModalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
-    justifyContent: 'flex-end',
-  },
-  timezoneModalContent: {
-    backgroundColor: Colors.bg.secondary,
-    borderTopLeftRadius: BorderRadius.xl,
-    borderTopRightRadius: BorderRadius.xl,
-    maxHeight: '70%',
-  },
-  timezoneModalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: Spacing.xl,
-    borderBottomWidth: 1,
-    borderBottomColor: Colors.glass.border,
-  },
-  timezoneModalTitle: {
-    fontSize: FontSize.xl,
-    fontWeight: FontWeight.semibold,
-    color: Colors.text.primary,
-  },
-  timezoneList: {
-    paddingBottom: Spacing.xxl,
-  },
-  timezoneItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: Spacing.md,
-    marginHorizontal: Spacing.md,
-    marginVertical: Spacing.xs / 2,
-    borderRadius: BorderRadius.md,
-  },
-  timezoneItemSelected: {
-    backgroundColor: 'rgba(168, 85, 247, 0.15)',
-  },
-  timezoneLabel: {
-    fontSize: FontSize.base,
-    color: Colors.text.primary,
-  },
-  timezoneLabelSelected: {
-    fontWeight: FontWeight.semibold,
-    color: Colors.accent.purple,
-  },
 });
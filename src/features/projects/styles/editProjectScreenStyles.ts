@@ -0,0 +1,49 @@
+import { StyleSheet } from 'react-native';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
+
+// The form itself shares createProjectScreenStyles; these cover the archive and delete actions
+export const styles = StyleSheet.create({
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  archivedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+  },
+  archivedBannerText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    color: Colors.accent.yellow,
+  },
+  actions: {
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.glass.bg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  actionText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+  },
+  actionTextDestructive: {
+    color: Colors.accent.red,
+  },
+  inputDisabled: {
+    opacity: 0.5,
+  },
+});
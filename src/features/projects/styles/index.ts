@@ -2,3 +2,5 @@ export { styles as projectsScreenStyles } from './projectsScreenStyles';
 export { styles as createProjectScreenStyles } from './createProjectScreenStyles';
 export { styles as joinProjectScreenStyles } from './joinProjectScreenStyles';
 export { styles as projectDetailScreenStyles } from './projectDetailScreenStyles';
+export { styles as projectReportScreenStyles } from './projectReportScreenStyles';
+export { styles as editProjectScreenStyles } from './editProjectScreenStyles';
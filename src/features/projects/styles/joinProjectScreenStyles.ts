@@ -55,6 +55,23 @@ export const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: Spacing.sm,
   },
+  codeInput: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: FontSize.base,
+    color: Colors.text.primary,
+    width: '100%',
+    marginBottom: Spacing.sm,
+  },
+  codeInputError: {
+    fontSize: FontSize.sm,
+    color: Colors.accent.red,
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
   buttonContainer: {
     width: '100%',
     gap: Spacing.md,
@@ -37,6 +37,24 @@ export const styles = StyleSheet.create({
     backgroundColor: 'rgba(147, 51, 234, 0.1)',
     borderRadius: BorderRadius.sm,
   },
+  reportButton: {
+    marginLeft: Spacing.sm,
+    padding: Spacing.xs,
+  },
+  archivedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+  },
+  archivedBannerText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    color: Colors.accent.yellow,
+  },
   description: {
     fontSize: FontSize.base,
     color: Colors.text.secondary,
@@ -154,6 +172,145 @@ export const styles = StyleSheet.create({
     color: Colors.text.tertiary,
     flex: 1,
   },
+  workingHoursList: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  workingHoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  workingHoursDay: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+  },
+  workingHoursTime: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  scenesList: {
+    gap: Spacing.sm,
+  },
+  sceneCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  sceneInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  sceneName: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+  },
+  sceneMembers: {
+    fontSize: FontSize.xs,
+    color: Colors.text.secondary,
+  },
+  sceneCount: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
+  invitesList: {
+    gap: Spacing.sm,
+  },
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  inviteCardInactive: {
+    opacity: 0.6,
+  },
+  inviteInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  inviteTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  inviteLabel: {
+    flexShrink: 1,
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+  },
+  inviteMeta: {
+    fontSize: FontSize.xs,
+    color: Colors.text.secondary,
+  },
+  inviteStatus: {
+    fontSize: FontSize.xs,
+    color: Colors.accent.yellow,
+  },
+  inviteAction: {
+    padding: Spacing.xs,
+  },
+  attendanceList: {
+    gap: Spacing.sm,
+  },
+  attendanceCard: {
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  attendanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  attendanceName: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.medium,
+    color: Colors.text.primary,
+    flex: 1,
+  },
+  attendanceRate: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.purple,
+  },
+  attendanceCounts: {
+    fontSize: FontSize.xs,
+    color: Colors.text.secondary,
+  },
+  attendanceRecent: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  attendanceRecord: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  attendanceRecordText: {
+    fontSize: FontSize.xs,
+  },
   membersList: {
     gap: Spacing.sm,
   },
@@ -203,4 +360,20 @@ export const styles = StyleSheet.create({
     fontSize: FontSize.xs,
     fontWeight: FontWeight.medium,
   },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.accent.red,
+    marginBottom: Spacing.xl,
+  },
+  leaveButtonText: {
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.accent.red,
+  },
 });
@@ -23,6 +23,11 @@ export const styles = StyleSheet.create({
     fontWeight: FontWeight.bold,
     color: Colors.text.primary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
   addButton: {
     padding: Spacing.xs,
   },
@@ -141,4 +146,26 @@ export const styles = StyleSheet.create({
     fontWeight: FontWeight.medium,
     color: Colors.accent.purple,
   },
+  archiveSection: {
+    marginTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  archiveHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  archiveTitle: {
+    flex: 1,
+    fontSize: FontSize.base,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.secondary,
+  },
+  archiveCount: {
+    fontSize: FontSize.sm,
+    color: Colors.text.tertiary,
+  },
+  archivedCard: {
+    opacity: 0.7,
+  },
 });
@@ -0,0 +1,25 @@
+// Common timezones for theatre/rehearsal apps
+export const PROJECT_TIMEZONES = [
+  { value: 'Asia/Jerusalem', label: 'Тель-Авив (UTC+2)' },
+  { value: 'Europe/Moscow', label: 'Москва (UTC+3)' },
+  { value: 'Europe/Kiev', label: 'Киев (UTC+2)' },
+  { value: 'Europe/Kaliningrad', label: 'Калининград (UTC+2)' },
+  { value: 'Europe/Samara', label: 'Самара (UTC+4)' },
+  { value: 'Asia/Yekaterinburg', label: 'Екатеринбург (UTC+5)' },
+  { value: 'Asia/Novosibirsk', label: 'Новосибирск (UTC+7)' },
+  { value: 'Asia/Vladivostok', label: 'Владивосток (UTC+10)' },
+  { value: 'Europe/Berlin', label: 'Берлин (UTC+1)' },
+  { value: 'Europe/London', label: 'Лондон (UTC+0)' },
+  { value: 'America/New_York', label: 'Нью-Йорк (UTC-5)' },
+  { value: 'America/Los_Angeles', label: 'Лос-Анджелес (UTC-8)' },
+];
+
+export const DEFAULT_PROJECT_TIMEZONE = 'Asia/Jerusalem';
+
+/**
+ * Label of a timezone from the list, or the IANA name for timezones set elsewhere
+ */
+export function getTimezoneLabel(value: string): string {
+  const tz = PROJECT_TIMEZONES.find(t => t.value === value);
+  return tz?.label || value;
+}
@@ -0,0 +1,149 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import type { TimeSlot, SlotCategory } from '../types';
+import { useI18n } from '../../../contexts/I18nContext';
+
+interface BatchProposalListProps {
+  proposals: TimeSlot[];
+  requested: number;
+  creating: boolean;
+  onCreate: () => void;
+}
+
+const CATEGORY_COLORS: Record<SlotCategory, string> = {
+  perfect: '#10b981',
+  good: '#f59e0b',
+  ok: '#f97316',
+  bad: '#ef4444',
+};
+
+/**
+ * Proposed sessions of a rehearsal block with a single create action
+ */
+export const BatchProposalList: React.FC<BatchProposalListProps> = ({
+  proposals,
+  requested,
+  creating,
+  onCreate,
+}) => {
+  const { t, language } = useI18n();
+
+  const formatDate = (dateStr: string): string => {
+    const d = new Date(dateStr + 'T00:00:00');
+    return d.toLocaleDateString(language === 'ru' ? 'ru-RU' : 'en-US', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+    });
+  };
+
+  const getStatusText = (slot: TimeSlot): string => {
+    if (slot.busyMembers.length === 0) {
+      return t.smartPlanner.allAvailable;
+    }
+    const names = slot.busyMembers.map(m => m.name).join(', ');
+    return `${slot.requiredBusy ? t.smartPlanner.requiredBusy : t.smartPlanner.busyPrefix}: ${names}`;
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.summary}>{t.smartPlanner.batchProposal(proposals.length, requested)}</Text>
+      {proposals.length < requested && (
+        <Text style={styles.warning}>{t.smartPlanner.batchNotEnoughDays}</Text>
+      )}
+
+      {proposals.map(slot => (
+        <View key={slot.date} style={styles.row}>
+          <View style={[styles.indicator, { backgroundColor: CATEGORY_COLORS[slot.category] }]} />
+          <View style={styles.content}>
+            <Text style={styles.date}>
+              {formatDate(slot.date)}, {slot.suggestedStartTime ?? slot.startTime}-{slot.suggestedEndTime ?? slot.endTime}
+            </Text>
+            <Text style={styles.status} numberOfLines={2}>{getStatusText(slot)}</Text>
+          </View>
+        </View>
+      ))}
+
+      {proposals.length > 0 && (
+        <TouchableOpacity
+          style={[styles.createButton, creating && styles.createButtonDisabled]}
+          onPress={onCreate}
+          disabled={creating}
+        >
+          {creating ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.createButtonText}>{t.smartPlanner.createBatch(proposals.length)}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#f9fafb',
+    marginBottom: 8,
+  },
+  warning: {
+    fontSize: 13,
+    color: '#f59e0b',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  indicator: {
+    width: 4,
+    height: 36,
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  date: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#f9fafb',
+    marginBottom: 2,
+    textTransform: 'capitalize',
+  },
+  status: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  createButton: {
+    backgroundColor: '#9333ea',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  createButtonDisabled: {
+    opacity: 0.6,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
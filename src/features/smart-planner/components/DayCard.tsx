@@ -3,11 +3,13 @@ import { View, Text, StyleSheet } from 'react-native';
 import type { TimeSlot, SlotCategory } from '../types';
 import { SlotItem } from './SlotItem';
 import { useI18n } from '../../../contexts/I18nContext';
+import type { WorkingHours } from '../../../shared/types';
 
 interface DayCardProps {
   date: string;
   slots: TimeSlot[];
   onCreateRehearsal: (slot: TimeSlot) => void;
+  workingHours?: WorkingHours | null;
 }
 
 interface CategoryGroup {
@@ -15,7 +17,7 @@ interface CategoryGroup {
   slots: TimeSlot[];
 }
 
-export const DayCard: React.FC<DayCardProps> = ({ date, slots, onCreateRehearsal }) => {
+export const DayCard: React.FC<DayCardProps> = ({ date, slots, onCreateRehearsal, workingHours }) => {
   const { t, language } = useI18n();
 
   // Format date for display
@@ -65,6 +67,7 @@ export const DayCard: React.FC<DayCardProps> = ({ date, slots, onCreateRehearsal
                 key={`${slot.date}-${slot.startTime}-${index}`}
                 slot={slot}
                 onCreateRehearsal={onCreateRehearsal}
+                workingHours={workingHours}
               />
             ))}
           </View>
@@ -8,7 +8,8 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../../../shared/constants/colors';
-import type { Member } from '../types';
+import type { Member, MemberPriority, MemberPriorities } from '../types';
+import { DEFAULT_MEMBER_PRIORITY } from '../utils/slotGenerator';
 import { useI18n } from '../../../contexts/I18nContext';
 
 interface MemberFilterProps {
@@ -17,14 +18,21 @@ interface MemberFilterProps {
   onSelectionChange: (memberIds: string[]) => void;
   onSelectAll?: () => void;
   onClearAll?: () => void;
+  // Required/optional flags and weights (controls are hidden when not provided)
+  priorities?: MemberPriorities;
+  onPriorityChange?: (memberId: string, priority: MemberPriority) => void;
 }
 
+const MAX_WEIGHT = 3;
+
 export const MemberFilter: React.FC<MemberFilterProps> = ({
   members,
   selected,
   onSelectionChange,
   onSelectAll,
   onClearAll,
+  priorities = {},
+  onPriorityChange,
 }) => {
   const { t } = useI18n();
   const [isExpanded, setIsExpanded] = useState(false);
@@ -56,6 +64,18 @@ export const MemberFilter: React.FC<MemberFilterProps> = ({
   };
 
   const allSelected = selected.length === members.length && members.length > 0;
+  const requiredCount = selected.filter(id => priorities[id]?.required).length;
+
+  const toggleRequired = (memberId: string) => {
+    const priority = priorities[memberId] || DEFAULT_MEMBER_PRIORITY;
+    onPriorityChange?.(memberId, { ...priority, required: !priority.required });
+  };
+
+  // Cycle weight 1 -> 2 -> 3 -> 1
+  const cycleWeight = (memberId: string) => {
+    const priority = priorities[memberId] || DEFAULT_MEMBER_PRIORITY;
+    onPriorityChange?.(memberId, { ...priority, weight: priority.weight >= MAX_WEIGHT ? 1 : priority.weight + 1 });
+  };
 
   if (members.length === 0) {
     return (
@@ -101,6 +121,7 @@ export const MemberFilter: React.FC<MemberFilterProps> = ({
         <View style={styles.summary}>
           <Text style={styles.summaryText}>
             {`${selected.length} ${t.smartPlanner.of || 'of'} ${members.length} ${t.smartPlanner.selected || 'selected'}`}
+            {requiredCount > 0 && ` · ${t.smartPlanner.requiredCount(requiredCount)}`}
           </Text>
         </View>
       )}
@@ -112,6 +133,7 @@ export const MemberFilter: React.FC<MemberFilterProps> = ({
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => {
             const isSelected = selected.includes(item.id);
+            const priority = priorities[item.id] || DEFAULT_MEMBER_PRIORITY;
 
             return (
               <TouchableOpacity
@@ -124,6 +146,34 @@ export const MemberFilter: React.FC<MemberFilterProps> = ({
                 <Text style={[styles.memberName, isSelected && styles.memberNameSelected]}>
                   {item.name}
                 </Text>
+                {onPriorityChange && isSelected && (
+                  <View style={styles.priorityControls}>
+                    <TouchableOpacity
+                      style={styles.weightButton}
+                      onPress={() => cycleWeight(item.id)}
+                      disabled={priority.required}
+                      accessibilityLabel={t.smartPlanner.weight}
+                    >
+                      <Text style={[styles.weightText, priority.required && styles.weightTextDisabled]}>
+                        ×{priority.weight}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.requiredButton, priority.required && styles.requiredButtonActive]}
+                      onPress={() => toggleRequired(item.id)}
+                      accessibilityLabel={priority.required ? t.smartPlanner.required : t.smartPlanner.optional}
+                    >
+                      <Ionicons
+                        name={priority.required ? 'star' : 'star-outline'}
+                        size={14}
+                        color={priority.required ? Colors.accent.yellow : Colors.text.tertiary}
+                      />
+                      <Text style={[styles.requiredText, priority.required && styles.requiredTextActive]}>
+                        {priority.required ? t.smartPlanner.required : t.smartPlanner.optional}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </TouchableOpacity>
             );
           }}
@@ -217,9 +267,51 @@ const styles = StyleSheet.create({
     borderColor: Colors.accent.purple,
   },
   memberName: {
+    flex: 1,
     fontSize: FontSize.base,
     color: Colors.text.primary,
   },
+  priorityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  weightButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  weightText: {
+    fontSize: FontSize.sm,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.secondary,
+  },
+  weightTextDisabled: {
+    color: Colors.text.tertiary,
+  },
+  requiredButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  requiredButtonActive: {
+    borderColor: Colors.accent.yellow,
+  },
+  requiredText: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
+  requiredTextActive: {
+    color: Colors.accent.yellow,
+    fontWeight: FontWeight.semibold,
+  },
   memberNameSelected: {
     fontWeight: FontWeight.semibold,
     color: Colors.accent.purple,
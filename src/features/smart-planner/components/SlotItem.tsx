@@ -2,13 +2,17 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import type { TimeSlot } from '../types';
 import { useI18n } from '../../../contexts/I18nContext';
+import { timeToMinutes, minutesToTime } from '../../../shared/utils/time';
+import { getWorkdayHours } from '../../../shared/utils/availability';
+import type { WorkingHours } from '../../../shared/types';
 
 interface SlotItemProps {
   slot: TimeSlot;
   onCreateRehearsal: (slot: TimeSlot) => void;
+  workingHours?: WorkingHours | null;
 }
 
-export const SlotItem: React.FC<SlotItemProps> = ({ slot, onCreateRehearsal }) => {
+export const SlotItem: React.FC<SlotItemProps> = ({ slot, onCreateRehearsal, workingHours }) => {
   const { t } = useI18n();
 
   const getCategoryColor = (): string => {
@@ -31,25 +35,53 @@ export const SlotItem: React.FC<SlotItemProps> = ({ slot, onCreateRehearsal }) =
     if (slot.busyMembers.length === slot.totalMembers) {
       return t.smartPlanner.allBusy;
     }
+    if (slot.requiredBusy) {
+      const requiredNames = slot.busyMembers.filter(m => m.required).map(m => m.name).join(', ');
+      return `${t.smartPlanner.requiredBusy}: ${requiredNames}`;
+    }
     const names = slot.busyMembers.map(m => m.name).join(', ');
     return `${t.smartPlanner.busyPrefix}: ${names}`;
   };
 
   const formatTimeRange = (): string => {
-    // Check if entire workday (9:00-23:00)
-    if (slot.startTime === '09:00' && slot.endTime === '23:00') {
+    // Proposed window of the required length
+    if (slot.suggestedStartTime && slot.suggestedEndTime) {
+      return `${slot.suggestedStartTime}-${slot.suggestedEndTime}`;
+    }
+    // Check if entire project workday for this weekday
+    const workday = getWorkdayHours(workingHours, slot.date);
+    if (workday && slot.startTime === workday.start && slot.endTime === workday.end) {
       return t.smartPlanner.allDay;
     }
     return `${slot.startTime}-${slot.endTime}`;
   };
 
+  // Latest start that still fits the required length, when more than one start works
+  const getStartRange = (): string | null => {
+    if (!slot.suggestedStartTime || !slot.suggestedEndTime) {
+      return null;
+    }
+    const duration = timeToMinutes(slot.suggestedEndTime) - timeToMinutes(slot.suggestedStartTime);
+    const latestStart = minutesToTime(timeToMinutes(slot.endTime) - duration);
+    return latestStart === slot.startTime ? null : t.smartPlanner.startBetween(slot.startTime, latestStart);
+  };
+
+  const startRange = getStartRange();
   const canCreateRehearsal = slot.busyMembers.length < slot.totalMembers;
 
   return (
     <View style={styles.slot}>
       <View style={[styles.indicator, { backgroundColor: getCategoryColor() }]} />
       <View style={styles.content}>
-        <Text style={styles.time}>{formatTimeRange()}</Text>
+        <View style={styles.timeRow}>
+          <Text style={styles.time}>{formatTimeRange()}</Text>
+          {slot.recommended && (
+            <View style={styles.bestBadge}>
+              <Text style={styles.bestBadgeText}>{t.smartPlanner.bestTime}</Text>
+            </View>
+          )}
+        </View>
+        {startRange && <Text style={styles.startRange}>{startRange}</Text>}
         <Text style={styles.status}>{getStatusText()}</Text>
       </View>
       {canCreateRehearsal && (
@@ -84,11 +116,32 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
   time: {
     fontSize: 16,
     fontWeight: '600',
     color: '#f9fafb',
-    marginBottom: 4,
+  },
+  bestBadge: {
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  bestBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  startRange: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginBottom: 2,
   },
   status: {
     fontSize: 14,
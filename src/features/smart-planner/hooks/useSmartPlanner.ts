@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { projectsAPI, rehearsalsAPI } from '../../../shared/services/api';
 import type { Project, Rehearsal, ProjectMember } from '../../../shared/types';
-import type { TimeSlot, SlotCategory, Member, AvailabilityData } from '../types';
+import type { TimeSlot, SlotCategory, Member, AvailabilityData, MemberPriorities } from '../types';
 import {
   generateTimeSlots,
   filterSlotsByCategory,
@@ -17,14 +17,20 @@ interface UseSmartPlannerProps {
   endDate: string;
   selectedCategories: SlotCategory[];
   selectedMemberIds: string[];
+  memberPriorities?: MemberPriorities;
+  durationMinutes?: number | null;
 }
 
+const NO_PRIORITIES: MemberPriorities = {};
+
 export function useSmartPlanner({
   projectId,
   startDate,
   endDate,
   selectedCategories,
   selectedMemberIds,
+  memberPriorities = NO_PRIORITIES,
+  durationMinutes = null,
 }: UseSmartPlannerProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,6 +38,8 @@ export function useSmartPlanner({
   const [members, setMembers] = useState<ProjectMember[]>([]);
   const [memberAvailability, setMemberAvailability] = useState<MemberAvailability[]>([]);
   const [rehearsals, setRehearsals] = useState<Rehearsal[]>([]);
+  // Bumped to reload data, e.g. after rehearsals were created from the planner
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Load all data
   useEffect(() => {
@@ -85,7 +93,9 @@ export function useSmartPlanner({
     return () => {
       mounted = false;
     };
-  }, [projectId, startDate, endDate]);
+  }, [projectId, startDate, endDate, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey(key => key + 1), []);
 
   // Convert members to simple format for slot generator
   const simpleMembers: Member[] = useMemo(() => {
@@ -114,6 +124,8 @@ export function useSmartPlanner({
     return merged;
   }, [simpleMembers, memberAvailability, rehearsals]);
 
+  const workingHours = project?.workingHours ?? null;
+
   // Generate time slots
   const allSlots: TimeSlot[] = useMemo(() => {
     if (!startDate || !endDate || simpleMembers.length === 0) {
@@ -133,12 +145,14 @@ export function useSmartPlanner({
       endDate,
       simpleMembers,
       mergedAvailability,
-      memberIds
+      memberIds,
+      memberPriorities,
+      { workingHours, durationMinutes }
     );
 
     logger.debug('[Smart Planner] Generated slots:', slots.length);
     return slots;
-  }, [startDate, endDate, simpleMembers, mergedAvailability, selectedMemberIds]);
+  }, [startDate, endDate, simpleMembers, mergedAvailability, selectedMemberIds, memberPriorities, workingHours, durationMinutes]);
 
   // Filter slots by category
   const filteredSlots = useMemo(() => {
@@ -167,5 +181,6 @@ export function useSmartPlanner({
     filteredSlots,
     categoryCounts,
     slotsByDate,
+    reload,
   };
 }
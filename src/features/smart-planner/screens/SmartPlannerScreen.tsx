@@ -5,23 +5,39 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { PlannerStackParamList } from '../../../navigation';
 import { Colors } from '../../../shared/constants/colors';
-import type { SlotCategory } from '../types';
+import type { SlotCategory, MemberPriorities, MemberPriority } from '../types';
 import { useSmartPlanner } from '../hooks/useSmartPlanner';
 import { DayCard } from '../components/DayCard';
 import { MemberFilter } from '../components/MemberFilter';
+import { BatchProposalList } from '../components/BatchProposalList';
+import { planBatch } from '../utils/batchPlanner';
 import { useProjects } from '../../../contexts/ProjectContext';
 import { useI18n } from '../../../contexts/I18nContext';
 import { DateRangePicker } from '../../../shared/components/DateRangePicker';
+import { ScenePicker } from '../../../shared/components/ScenePicker';
+import { useProjectScenes, getSceneMemberIds } from '../../projects/hooks';
+import { rehearsalsAPI } from '../../../shared/services/api';
+import { dateTimeToISO } from '../../../shared/utils/time';
+import { canScheduleIn } from '../../../shared/utils/permissions';
 import { smartPlannerScreenStyles as styles } from '../styles';
 
 type Props = NativeStackScreenProps<PlannerStackParamList, 'SmartPlanner'>;
 
+// Required rehearsal length options in minutes, null = any length
+const DURATION_OPTIONS: Array<number | null> = [null, 60, 90, 120, 180, 240];
+
+// Rehearsal block defaults: a block always needs a concrete length
+const DEFAULT_BATCH_DURATION = 120;
+const MAX_BATCH_SESSIONS = 30;
+const GAP_OPTIONS = [0, 1, 2, 3];
+
 export default function SmartPlannerScreen({ route, navigation }: Props) {
   const { projectId } = route.params;
   const { projects } = useProjects();
@@ -53,6 +69,17 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
     'ok',
   ]);
   const [selectedMemberIds, setSelectedMemberIds] = useState<string[]>([]);
+  // Search either by an explicit member list or by the members of chosen scenes
+  const [searchMode, setSearchMode] = useState<'members' | 'scenes'>('members');
+  const [selectedSceneIds, setSelectedSceneIds] = useState<string[]>([]);
+  // Required/optional flags and weights per member (by user ID)
+  const [memberPriorities, setMemberPriorities] = useState<MemberPriorities>({});
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  // Plan a single rehearsal or a block of N sessions
+  const [planMode, setPlanMode] = useState<'single' | 'batch'>('single');
+  const [batchSessions, setBatchSessions] = useState(4);
+  const [minGapDays, setMinGapDays] = useState(1);
+  const [creatingBatch, setCreatingBatch] = useState(false);
   const [isProjectSelectorExpanded, setIsProjectSelectorExpanded] = useState(false);
 
   // Custom date range state
@@ -91,24 +118,53 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
     };
   }, [selectedPeriod, customStartDate, customEndDate]);
 
+  const { scenes } = useProjectScenes(projectId);
+
+  // Scenes and member priorities belong to a single project
+  useEffect(() => {
+    setSelectedSceneIds([]);
+    setMemberPriorities({});
+  }, [projectId]);
+
+  const handlePriorityChange = useCallback((memberId: string, priority: MemberPriority) => {
+    setMemberPriorities(prev => ({ ...prev, [memberId]: priority }));
+  }, []);
+
+  const sceneMemberIds = useMemo(
+    () => getSceneMemberIds(scenes, selectedSceneIds),
+    [scenes, selectedSceneIds]
+  );
+
+  const effectiveMemberIds = searchMode === 'scenes' ? sceneMemberIds : selectedMemberIds;
+
   // Load data using hook
   const {
     loading,
     error,
     project,
     simpleMembers,
+    allSlots,
     filteredSlots,
     slotsByDate,
+    reload,
   } = useSmartPlanner({
     projectId,
     startDate,
     endDate,
     selectedCategories,
-    selectedMemberIds,
+    selectedMemberIds: effectiveMemberIds,
+    memberPriorities,
+    durationMinutes,
   });
 
   const projectName = project?.name || 'Loading...';
 
+  // Block proposal uses every category so days with minor conflicts can still fill the plan
+  const batchPlan = useMemo(
+    () => (planMode === 'batch' ? planBatch(allSlots, { sessions: batchSessions, minGapDays }) : []),
+    [planMode, allSlots, batchSessions, minGapDays]
+  );
+
   // Auto-select all members when they load (only on first load)
   useEffect(() => {
     if (simpleMembers.length > 0 && !hasInitializedMembers.current) {
@@ -122,6 +178,45 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
     navigation.setParams({ projectId: newProjectId });
   }, [navigation]);
 
+  const handlePlanModeChange = useCallback((mode: 'single' | 'batch') => {
+    setPlanMode(mode);
+    if (mode === 'batch') {
+      setDurationMinutes(prev => prev ?? DEFAULT_BATCH_DURATION);
+    }
+  }, []);
+
+  const createBatch = useCallback(async () => {
+    setCreatingBatch(true);
+    try {
+      await rehearsalsAPI.createBatch(projectId, {
+        sessions: batchPlan.map(slot => ({
+          startsAt: dateTimeToISO(slot.date, slot.suggestedStartTime ?? slot.startTime),
+          endsAt: dateTimeToISO(slot.date, slot.suggestedEndTime ?? slot.endTime),
+        })),
+        participant_ids: effectiveMemberIds.length > 0 ? effectiveMemberIds : undefined,
+        scene_ids: searchMode === 'scenes' && selectedSceneIds.length > 0 ? selectedSceneIds : undefined,
+      });
+      Alert.alert(t.smartPlanner.batchCreated(batchPlan.length));
+      // New rehearsals make their members busy - regenerate slots
+      reload();
+    } catch (err: any) {
+      Alert.alert(t.common.error, err.response?.data?.error || t.smartPlanner.batchCreateError);
+    } finally {
+      setCreatingBatch(false);
+    }
+  }, [projectId, batchPlan, effectiveMemberIds, searchMode, selectedSceneIds, reload, t]);
+
+  const handleCreateBatch = useCallback(() => {
+    Alert.alert(
+      t.smartPlanner.batchRehearsals,
+      t.smartPlanner.createBatchConfirm(batchPlan.length),
+      [
+        { text: t.common.cancel, style: 'cancel' },
+        { text: t.smartPlanner.createBatch(batchPlan.length), onPress: createBatch },
+      ]
+    );
+  }, [batchPlan.length, createBatch, t]);
+
   const handleDateRangeConfirm = useCallback((start: Date, end: Date) => {
     setCustomStartDate(start);
     setCustomEndDate(end);
@@ -165,7 +260,7 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
 
       {isProjectSelectorExpanded && (
         <View style={styles.projectDropdown}>
-          {projects.filter(p => p.is_admin).map(proj => (
+          {projects.filter(canScheduleIn).map(proj => (
             <TouchableOpacity
               key={proj.id}
               style={[
@@ -262,6 +357,102 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
     </View>
   );
 
+  const renderPlanModeSelector = () => (
+    <View style={[styles.section, styles.periodButtons]}>
+      {(['single', 'batch'] as const).map(mode => (
+        <TouchableOpacity
+          key={mode}
+          style={[
+            styles.periodButton,
+            planMode === mode && styles.periodButtonActive,
+          ]}
+          onPress={() => handlePlanModeChange(mode)}
+        >
+          <Text
+            style={[
+              styles.periodButtonText,
+              planMode === mode && styles.periodButtonTextActive,
+            ]}
+          >
+            {mode === 'single' ? t.smartPlanner.singleRehearsal : t.smartPlanner.batchRehearsals}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderDurationSelector = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t.smartPlanner.duration}</Text>
+      <View style={styles.periodButtons}>
+        {DURATION_OPTIONS.filter(option => planMode === 'single' || option !== null).map(option => (
+          <TouchableOpacity
+            key={option ?? 'any'}
+            style={[
+              styles.periodButton,
+              durationMinutes === option && styles.periodButtonActive,
+            ]}
+            onPress={() => setDurationMinutes(option)}
+          >
+            <Text
+              style={[
+                styles.periodButtonText,
+                durationMinutes === option && styles.periodButtonTextActive,
+              ]}
+            >
+              {option === null ? t.smartPlanner.anyDuration : t.smartPlanner.durationHours(option / 60)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderBatchSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t.smartPlanner.batchRehearsals}</Text>
+      <Text style={styles.batchSettingLabel}>{t.smartPlanner.sessionsCount}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setBatchSessions(count => Math.max(1, count - 1))}
+        >
+          <Ionicons name="remove" size={20} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{batchSessions}</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setBatchSessions(count => Math.min(MAX_BATCH_SESSIONS, count + 1))}
+        >
+          <Ionicons name="add" size={20} color={Colors.text.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.batchSettingLabel}>{t.smartPlanner.minGap}</Text>
+      <View style={styles.periodButtons}>
+        {GAP_OPTIONS.map(gap => (
+          <TouchableOpacity
+            key={gap}
+            style={[
+              styles.periodButton,
+              minGapDays === gap && styles.periodButtonActive,
+            ]}
+            onPress={() => setMinGapDays(gap)}
+          >
+            <Text
+              style={[
+                styles.periodButtonText,
+                minGapDays === gap && styles.periodButtonTextActive,
+              ]}
+            >
+              {t.smartPlanner.gapDays(gap)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
   const renderMemberFilter = () => {
     const selectAll = () => {
       setSelectedMemberIds(simpleMembers.map(m => m.id));
@@ -272,17 +463,65 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
     return (
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t.smartPlanner.members}</Text>
+        {renderSearchModeSelector()}
         <MemberFilter
           members={simpleMembers}
           selected={selectedMemberIds}
           onSelectionChange={setSelectedMemberIds}
           onSelectAll={selectAll}
           onClearAll={clearAll}
+          priorities={memberPriorities}
+          onPriorityChange={handlePriorityChange}
         />
       </View>
     );
   };
 
+  const renderSearchModeSelector = () => (
+    <View style={styles.searchModeButtons}>
+      {(['members', 'scenes'] as const).map(mode => (
+        <TouchableOpacity
+          key={mode}
+          style={[
+            styles.periodButton,
+            searchMode === mode && styles.periodButtonActive,
+          ]}
+          onPress={() => setSearchMode(mode)}
+        >
+          <Text
+            style={[
+              styles.periodButtonText,
+              searchMode === mode && styles.periodButtonTextActive,
+            ]}
+          >
+            {mode === 'members' ? t.smartPlanner.byMembers : t.smartPlanner.byScenes}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderSceneFilter = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t.smartPlanner.scenes}</Text>
+      {renderSearchModeSelector()}
+      {scenes.length === 0 ? (
+        <Text style={styles.sceneHint}>{t.smartPlanner.noScenes}</Text>
+      ) : (
+        <>
+          <ScenePicker
+            scenes={scenes}
+            selectedSceneIds={selectedSceneIds}
+            onSelectionChange={setSelectedSceneIds}
+          />
+          <Text style={styles.sceneHint}>
+            {t.smartPlanner.sceneMembersCount(sceneMemberIds.length)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Ionicons
@@ -325,8 +564,11 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
         contentContainerStyle={styles.scrollContent}
       >
         {renderProjectSelector()}
+        {renderPlanModeSelector()}
         {renderPeriodSelector()}
-        {renderMemberFilter()}
+        {renderDurationSelector()}
+        {planMode === 'batch' && renderBatchSettings()}
+        {searchMode === 'scenes' ? renderSceneFilter() : renderMemberFilter()}
 
         {loading ? (
           <View style={styles.loadingContainer}>
@@ -335,6 +577,20 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
           </View>
         ) : error ? (
           renderError()
+        ) : planMode === 'batch' ? (
+          batchPlan.length === 0 ? (
+            renderEmptyState()
+          ) : (
+            <View style={styles.slotsContainer}>
+              <Text style={styles.sectionTitle}>{t.smartPlanner.recommendations}</Text>
+              <BatchProposalList
+                proposals={batchPlan}
+                requested={batchSessions}
+                creating={creatingBatch}
+                onCreate={handleCreateBatch}
+              />
+            </View>
+          )
         ) : filteredSlots.length === 0 ? (
           renderEmptyState()
         ) : (
@@ -345,16 +601,19 @@ export default function SmartPlannerScreen({ route, navigation }: Props) {
                 key={date}
                 date={date}
                 slots={slots}
+                workingHours={project?.workingHours}
                 onCreateRehearsal={(slot) => {
                   // Navigate to Calendar tab -> AddRehearsal with prefilled data
+                  // With a required length, prefill the proposed window rather than the whole range
                   // @ts-ignore - Navigate to parent tab navigator
                   navigation.navigate('Calendar', {
                     screen: 'AddRehearsal',
                     params: {
                       projectId,
                       prefilledDate: slot.date,
-                      prefilledTime: slot.startTime,
-                      prefilledEndTime: slot.endTime,
+                      prefilledTime: slot.suggestedStartTime ?? slot.startTime,
+                      prefilledEndTime: slot.suggestedEndTime ?? slot.endTime,
+                      prefilledSceneIds: searchMode === 'scenes' ? selectedSceneIds : undefined,
                     },
                   });
                 }}
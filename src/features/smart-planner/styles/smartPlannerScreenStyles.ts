@@ -134,6 +134,42 @@ export const styles = StyleSheet.create({
   periodButtonTextActive: {
     color: Colors.text.inverse,
   },
+  searchModeButtons: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  batchSettingLabel: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.lg,
+  },
+  stepperButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.border.default,
+    borderRadius: BorderRadius.md,
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: FontSize.lg,
+    fontWeight: FontWeight.semibold,
+    color: Colors.text.primary,
+  },
+  sceneHint: {
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginTop: Spacing.sm,
+  },
   periodDate: {
     fontSize: FontSize.sm,
     color: Colors.text.secondary,
@@ -1,9 +1,12 @@
+import type { WorkingHours } from '../../shared/types';
+
 export type SlotCategory = 'perfect' | 'good' | 'ok' | 'bad';
 
 export interface BusyMember {
   id: string;
   name: string;
   busyRanges: Array<{ start: string; end: string }>;
+  required?: boolean;
 }
 
 export interface TimeSlot {
@@ -14,6 +17,13 @@ export interface TimeSlot {
   totalMembers: number;
   freeMembers: number;
   busyMembers: BusyMember[];
+  score: number; // 0..1 - weighted share of available members
+  requiredBusy: boolean; // At least one required member is busy
+  // Set when a rehearsal length is requested: startTime-endTime then spans all
+  // windows of that length with the same busy members, and these mark the proposed one
+  suggestedStartTime?: string; // HH:mm
+  suggestedEndTime?: string; // HH:mm
+  recommended?: boolean; // Best proposed window of the day
 }
 
 export interface Member {
@@ -21,6 +31,23 @@ export interface Member {
   name: string;
 }
 
+/**
+ * How much a member's availability matters when ranking slots
+ * - required: slot is ranked last ('bad') if the member is busy
+ * - weight: member's share in the weighted score (default 1)
+ */
+export interface MemberPriority {
+  required: boolean;
+  weight: number;
+}
+
+export type MemberPriorities = Record<string, MemberPriority>;
+
+export interface SlotGeneratorOptions {
+  workingHours?: WorkingHours | null; // Project rehearsal windows, default 09:00-23:00 every day
+  durationMinutes?: number | null; // Required rehearsal length, null = any
+}
+
 export interface AvailabilityData {
   memberId: string;
   date: string;
@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Smart Planner batch scheduling
+ *
+ * Tests:
+ * - Best slot per day is used
+ * - Minimum gap between sessions
+ * - Conflict-minimising choice of days
+ * - Fewer sessions when the range is too short
+ */
+import { planBatch } from '../batchPlanner';
+import type { TimeSlot } from '../../types';
+
+const makeSlot = (date: string, startTime: string, score: number, requiredBusy = false): TimeSlot => ({
+  date,
+  startTime,
+  endTime: '23:00',
+  suggestedStartTime: startTime,
+  suggestedEndTime: '21:00',
+  category: score === 1 ? 'perfect' : 'ok',
+  totalMembers: 4,
+  freeMembers: Math.round(score * 4),
+  busyMembers: [],
+  score,
+  requiredBusy,
+});
+
+const dates = (plan: TimeSlot[]) => plan.map(s => s.date);
+
+describe('planBatch', () => {
+  it('should take the best slot of each day', () => {
+    const plan = planBatch([
+      makeSlot('2025-12-01', '10:00', 0.5),
+      makeSlot('2025-12-01', '18:00', 1),
+    ], { sessions: 1, minGapDays: 0 });
+
+    expect(plan).toHaveLength(1);
+    expect(plan[0].startTime).toBe('18:00');
+  });
+
+  it('should keep the minimum gap between sessions', () => {
+    const slots = ['01', '02', '03', '04', '05'].map(d => makeSlot(`2025-12-${d}`, '18:00', 1));
+
+    expect(dates(planBatch(slots, { sessions: 3, minGapDays: 1 })))
+      .toEqual(['2025-12-01', '2025-12-03', '2025-12-05']);
+  });
+
+  it('should prefer days with fewer conflicts', () => {
+    const slots = [
+      makeSlot('2025-12-01', '18:00', 0.5),
+      makeSlot('2025-12-02', '18:00', 1),
+      makeSlot('2025-12-03', '18:00', 0.75),
+      makeSlot('2025-12-04', '18:00', 1),
+    ];
+
+    expect(dates(planBatch(slots, { sessions: 2, minGapDays: 1 })))
+      .toEqual(['2025-12-02', '2025-12-04']);
+  });
+
+  it('should rank days with a busy required member last', () => {
+    const slots = [
+      makeSlot('2025-12-01', '18:00', 0.9, true),
+      makeSlot('2025-12-02', '18:00', 0.5),
+    ];
+
+    expect(dates(planBatch(slots, { sessions: 1, minGapDays: 0 }))).toEqual(['2025-12-02']);
+  });
+
+  it('should return as many sessions as fit the range', () => {
+    const slots = ['01', '02', '03'].map(d => makeSlot(`2025-12-${d}`, '18:00', 1));
+
+    expect(planBatch(slots, { sessions: 5, minGapDays: 1 })).toHaveLength(2);
+  });
+
+  it('should skip days where everyone is busy', () => {
+    const slots = [
+      { ...makeSlot('2025-12-01', '18:00', 0), freeMembers: 0 },
+      makeSlot('2025-12-02', '18:00', 1),
+    ];
+
+    expect(dates(planBatch(slots, { sessions: 2, minGapDays: 0 }))).toEqual(['2025-12-02']);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit Tests for Smart Planner slot generator
+ *
+ * Tests:
+ * - Weighted categorization thresholds
+ * - Required members busy -> slot ranked 'bad'
+ * - Weights change the category of the same busy pattern
+ * - Required length drops short segments and proposes the best start
+ * - Per-weekday working hours and days off
+ */
+import { generateTimeSlots, categorizeSlot } from '../slotGenerator';
+import type { Member, AvailabilityData } from '../../types';
+
+const DATE = '2025-12-01';
+
+const members: Member[] = [
+  { id: 'lead', name: 'Lead' },
+  { id: 'a', name: 'Actor A' },
+  { id: 'b', name: 'Actor B' },
+  { id: 'c', name: 'Actor C' },
+];
+
+// Lead is busy 10:00-12:00, everyone else is free all day
+const availability: AvailabilityData[] = [
+  { memberId: 'lead', date: DATE, busyRanges: [{ start: '10:00', end: '12:00' }] },
+];
+
+// 2025-12-01 is a Monday
+const WORK_HOURS = { workingHours: { monday: { start: '09:00', end: '14:00' } } };
+
+const findSlot = (slots: ReturnType<typeof generateTimeSlots>, startTime: string) =>
+  slots.find(s => s.startTime === startTime)!;
+
+describe('slotGenerator', () => {
+  describe('categorizeSlot', () => {
+    it('should map weighted score to categories', () => {
+      expect(categorizeSlot(1, false)).toBe('perfect');
+      expect(categorizeSlot(0.8, false)).toBe('good');
+      expect(categorizeSlot(0.5, false)).toBe('ok');
+      expect(categorizeSlot(0.3, false)).toBe('bad');
+    });
+
+    it('should rank slot last when a required member is busy', () => {
+      expect(categorizeSlot(0.9, true)).toBe('bad');
+    });
+  });
+
+  describe('generateTimeSlots', () => {
+    it('should split day by busy members and score slots equally by default', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {}, WORK_HOURS);
+
+      expect(slots.map(s => `${s.startTime}-${s.endTime}`)).toEqual([
+        '09:00-10:00',
+        '10:00-12:00',
+        '12:00-14:00',
+      ]);
+
+      const busySlot = findSlot(slots, '10:00');
+      expect(busySlot.score).toBe(0.75);
+      expect(busySlot.category).toBe('good');
+      expect(busySlot.requiredBusy).toBe(false);
+      expect(findSlot(slots, '09:00').category).toBe('perfect');
+    });
+
+    it('should lower category when a heavily weighted member is busy', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {
+        lead: { required: false, weight: 3 },
+      }, WORK_HOURS);
+
+      const busySlot = findSlot(slots, '10:00');
+      expect(busySlot.score).toBe(0.5);
+      expect(busySlot.category).toBe('ok');
+    });
+
+    it('should mark slot as bad when a required member is busy', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {
+        lead: { required: true, weight: 1 },
+      }, WORK_HOURS);
+
+      const busySlot = findSlot(slots, '10:00');
+      expect(busySlot.requiredBusy).toBe(true);
+      expect(busySlot.category).toBe('bad');
+      expect(busySlot.busyMembers[0]).toMatchObject({ id: 'lead', required: true });
+    });
+
+    it('should ignore priorities of members outside the selection', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, ['a', 'b'], {
+        lead: { required: true, weight: 3 },
+      }, WORK_HOURS);
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0].category).toBe('perfect');
+    });
+  });
+
+  describe('generateTimeSlots with required length', () => {
+    it('should drop segments shorter than the length', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {}, {
+        ...WORK_HOURS,
+        durationMinutes: 120,
+      });
+
+      // 09:00-10:00 is free for everyone but too short for two hours
+      expect(slots.filter(s => s.category === 'perfect').map(s => `${s.startTime}-${s.endTime}`))
+        .toEqual(['12:00-14:00']);
+    });
+
+    it('should merge overlapping windows with the same busy members and propose earliest start', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {}, {
+        ...WORK_HOURS,
+        durationMinutes: 120,
+      });
+
+      expect(slots).toHaveLength(2);
+      // Any two hours starting 09:00..11:30 overlap the lead's busy block
+      expect(slots[0]).toMatchObject({
+        startTime: '09:00',
+        endTime: '13:30',
+        suggestedStartTime: '09:00',
+        suggestedEndTime: '11:00',
+        category: 'good',
+      });
+      expect(slots[0].recommended).toBeUndefined();
+      expect(slots[1]).toMatchObject({
+        suggestedStartTime: '12:00',
+        suggestedEndTime: '14:00',
+        recommended: true,
+      });
+    });
+
+    it('should split a long free segment into a range of possible starts', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, [], [], {}, {
+        ...WORK_HOURS,
+        durationMinutes: 90,
+      });
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0]).toMatchObject({
+        startTime: '09:00',
+        endTime: '14:00',
+        suggestedStartTime: '09:00',
+        suggestedEndTime: '10:30',
+        recommended: true,
+      });
+    });
+
+    it('should not recommend a window where a required member is busy', () => {
+      const allDayBusy: AvailabilityData[] = [
+        { memberId: 'lead', date: DATE, busyRanges: [{ start: '09:00', end: '14:00' }] },
+      ];
+      const slots = generateTimeSlots(DATE, DATE, members, allDayBusy, [], {
+        lead: { required: true, weight: 1 },
+      }, { ...WORK_HOURS, durationMinutes: 60 });
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0].category).toBe('bad');
+      expect(slots[0].recommended).toBeUndefined();
+    });
+
+    it('should return nothing when the length exceeds working hours', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, [], [], {}, {
+        ...WORK_HOURS,
+        durationMinutes: 360,
+      });
+
+      expect(slots).toEqual([]);
+    });
+  });
+
+  describe('generateTimeSlots with working hours', () => {
+    it('should use the window of each weekday and skip days off', () => {
+      // Monday..Wednesday
+      const slots = generateTimeSlots('2025-12-01', '2025-12-03', members, [], [], {}, {
+        workingHours: {
+          monday: { start: '11:00', end: '18:00' },
+          tuesday: null,
+        },
+      });
+
+      expect(slots.map(s => `${s.date} ${s.startTime}-${s.endTime}`)).toEqual([
+        '2025-12-01 11:00-18:00',
+        '2025-12-03 09:00-23:00',
+      ]);
+    });
+
+    it('should clip busy ranges outside the window', () => {
+      const slots = generateTimeSlots(DATE, DATE, members, availability, [], {}, {
+        workingHours: { monday: { start: '11:00', end: '14:00' } },
+      });
+
+      expect(slots.map(s => `${s.startTime}-${s.endTime}`)).toEqual([
+        '11:00-12:00',
+        '12:00-14:00',
+      ]);
+    });
+  });
+});
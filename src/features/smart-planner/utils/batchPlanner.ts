@@ -0,0 +1,109 @@
+import type { TimeSlot } from '../types';
+import { parseDateString } from '../../../shared/utils/time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BatchPlanOptions {
+  sessions: number; // How many rehearsals to place
+  minGapDays: number; // Free days required between two sessions (0 = consecutive days allowed)
+}
+
+/**
+ * How good a slot is for the batch: weighted score, and any slot where
+ * a required member is busy ranks below every slot where they are free
+ */
+function slotValue(slot: TimeSlot): number {
+  return slot.requiredBusy ? slot.score - 1 : slot.score;
+}
+
+/**
+ * Best slot of a day: highest value, earliest on ties (slots are chronological)
+ */
+function pickBestSlot(slots: TimeSlot[]): TimeSlot | null {
+  let best: TimeSlot | null = null;
+  for (const slot of slots) {
+    if (slot.freeMembers === 0) continue;
+    if (!best || slotValue(slot) > slotValue(best)) {
+      best = slot;
+    }
+  }
+  return best;
+}
+
+/**
+ * Proposes a conflict-minimising set of sessions for a production block
+ *
+ * Takes at most one slot per day (the best of that day) and picks the combination
+ * of days with the highest total score that keeps at least `minGapDays` free days
+ * between sessions. When the range can't fit all sessions, returns as many as fit.
+ *
+ * @param slots - Slots generated with a required duration (suggestedStartTime set)
+ * @returns Proposed slots in chronological order
+ */
+export function planBatch(slots: TimeSlot[], { sessions, minGapDays }: BatchPlanOptions): TimeSlot[] {
+  if (sessions <= 0) {
+    return [];
+  }
+
+  // Best candidate per day
+  const byDate = new Map<string, TimeSlot[]>();
+  for (const slot of slots) {
+    const existing = byDate.get(slot.date);
+    if (existing) {
+      existing.push(slot);
+    } else {
+      byDate.set(slot.date, [slot]);
+    }
+  }
+
+  const days = Array.from(byDate.entries())
+    .map(([date, daySlots]) => ({
+      date,
+      dayNumber: Math.round(parseDateString(date).getTime() / DAY_MS),
+      slot: pickBestSlot(daySlots),
+    }))
+    .filter((day): day is { date: string; dayNumber: number; slot: TimeSlot } => day.slot !== null)
+    .sort((a, b) => a.dayNumber - b.dayNumber);
+
+  // best[i][k] - highest total value of k sessions where day i is the last one
+  const best: number[][] = days.map(() => new Array(sessions + 1).fill(-Infinity));
+  const prev: number[][] = days.map(() => new Array(sessions + 1).fill(-1));
+
+  for (let i = 0; i < days.length; i++) {
+    const value = slotValue(days[i].slot);
+    best[i][1] = value;
+
+    for (let j = 0; j < i; j++) {
+      if (days[i].dayNumber - days[j].dayNumber <= minGapDays) continue;
+
+      for (let k = 2; k <= sessions; k++) {
+        if (best[j][k - 1] === -Infinity) continue;
+        const total = best[j][k - 1] + value;
+        if (total > best[i][k]) {
+          best[i][k] = total;
+          prev[i][k] = j;
+        }
+      }
+    }
+  }
+
+  // Largest session count that fits, then the best ending day for it
+  for (let k = sessions; k >= 1; k--) {
+    let last = -1;
+    for (let i = 0; i < days.length; i++) {
+      if (best[i][k] !== -Infinity && (last === -1 || best[i][k] > best[last][k])) {
+        last = i;
+      }
+    }
+
+    if (last !== -1) {
+      const plan: TimeSlot[] = [];
+      for (let i = last, count = k; i !== -1; i = prev[i][count], count--) {
+        plan.unshift(days[i].slot);
+      }
+      return plan;
+    }
+  }
+
+  return [];
+}
@@ -1,16 +1,25 @@
-import type { TimeSlot, SlotCategory, BusyMember, Member, AvailabilityData } from '../types';
-import { timeToMinutes } from '../../../shared/utils/time';
+import type { TimeSlot, SlotCategory, BusyMember, Member, AvailabilityData, MemberPriorities, MemberPriority, SlotGeneratorOptions } from '../types';
+import { timeToMinutes, minutesToTime } from '../../../shared/utils/time';
+import { getWorkdayHours } from '../../../shared/utils/availability';
 import { logger } from '../../../shared/utils/logger';
 
 const SLOT_INTERVAL_MINUTES = 30;
 
+export const DEFAULT_MEMBER_PRIORITY: MemberPriority = { required: false, weight: 1 };
+
+// Minimum weighted score (share of available weight) for each category
+const CATEGORY_THRESHOLDS = {
+  good: 0.75,
+  ok: 0.5,
+};
+
 /**
  * Generates time slots in 30-minute intervals
  * Cache intervals by work hours range
  */
 const intervalCache = new Map<string, string[]>();
 
-function generateTimeIntervals(workHoursStart: string = '09:00', workHoursEnd: string = '23:00'): string[] {
+function generateTimeIntervals(workHoursStart: string, workHoursEnd: string): string[] {
   const cacheKey = `${workHoursStart}-${workHoursEnd}`;
 
   if (intervalCache.has(cacheKey)) {
@@ -65,14 +74,17 @@ function isTimeBusy(time: string, busyRanges: Array<{ start: string; end: string
 
 /**
  * Finds continuous free slots for a specific date
+ * With durationMinutes set, only windows of that length are returned (see findDurationSlots)
  */
 function findFreeSlots(
   date: string,
   members: Member[],
   availabilityData: AvailabilityData[],
   selectedMemberIds: string[],
+  priorities: MemberPriorities,
   workHoursStart: string,
-  workHoursEnd: string
+  workHoursEnd: string,
+  durationMinutes: number | null
 ): TimeSlot[] {
   const intervals = generateTimeIntervals(workHoursStart, workHoursEnd);
   const slots: TimeSlot[] = [];
@@ -82,6 +94,9 @@ function findFreeSlots(
     ? members
     : members.filter(m => selectedMemberIds.includes(m.id));
 
+  const getPriority = (memberId: string) => priorities[memberId] || DEFAULT_MEMBER_PRIORITY;
+  const totalWeight = relevantMembers.reduce((sum, m) => sum + getPriority(m.id).weight, 0);
+
   // Build availability map for this date
   const availabilityMap = new Map<string, Array<{ start: string; end: string }>>();
   for (const avail of availabilityData) {
@@ -91,15 +106,9 @@ function findFreeSlots(
     }
   }
 
-  // Track current slot being built
-  let slotStart: string | null = null;
-  let slotBusyMembers: BusyMember[] = [];
-
-  for (let i = 0; i < intervals.length; i++) {
-    const time = intervals[i];
+  // Check which members are busy at each interval
+  const busyAtInterval: BusyMember[][] = intervals.map(time => {
     const currentBusyMembers: BusyMember[] = [];
-
-    // Check which members are busy at this time
     for (const member of relevantMembers) {
       const busyRanges = availabilityMap.get(member.id) || [];
       if (isTimeBusy(time, busyRanges)) {
@@ -107,9 +116,42 @@ function findFreeSlots(
           id: member.id,
           name: member.name,
           busyRanges,
+          required: getPriority(member.id).required,
         });
       }
     }
+    return currentBusyMembers;
+  });
+
+  const buildSlot = (startTime: string, endTime: string, busyMembers: BusyMember[]): TimeSlot => {
+    const busyWeight = busyMembers.reduce((sum, m) => sum + getPriority(m.id).weight, 0);
+    const score = totalWeight > 0 ? 1 - busyWeight / totalWeight : 0;
+    const requiredBusy = busyMembers.some(m => m.required);
+
+    return {
+      date,
+      startTime,
+      endTime,
+      category: categorizeSlot(score, requiredBusy),
+      totalMembers: relevantMembers.length,
+      freeMembers: relevantMembers.length - busyMembers.length,
+      busyMembers,
+      score,
+      requiredBusy,
+    };
+  };
+
+  if (durationMinutes && durationMinutes > 0) {
+    return findDurationSlots(intervals, busyAtInterval, durationMinutes, buildSlot);
+  }
+
+  // Track current slot being built
+  let slotStart: string | null = null;
+  let slotBusyMembers: BusyMember[] = [];
+
+  for (let i = 0; i < intervals.length; i++) {
+    const time = intervals[i];
+    const currentBusyMembers = busyAtInterval[i];
 
     // If we're starting a new slot
     if (slotStart === null) {
@@ -118,24 +160,10 @@ function findFreeSlots(
       continue;
     }
 
-    // Check if the busy members changed (slot boundary)
-    const busyMembersChanged =
-      currentBusyMembers.length !== slotBusyMembers.length ||
-      !currentBusyMembers.every(a => slotBusyMembers.some(b => b.id === a.id));
-
     // If members changed or we reached the end, finalize the slot
-    if (busyMembersChanged || i === intervals.length - 1) {
+    if (!sameMembers(currentBusyMembers, slotBusyMembers) || i === intervals.length - 1) {
       const endTime = i === intervals.length - 1 ? workHoursEnd : time;
-
-      slots.push({
-        date,
-        startTime: slotStart,
-        endTime,
-        category: categorizeSlot(slotBusyMembers.length, relevantMembers.length),
-        totalMembers: relevantMembers.length,
-        freeMembers: relevantMembers.length - slotBusyMembers.length,
-        busyMembers: slotBusyMembers,
-      });
+      slots.push(buildSlot(slotStart, endTime, slotBusyMembers));
 
       // Start new slot
       slotStart = time;
@@ -147,16 +175,102 @@ function findFreeSlots(
 }
 
 /**
- * Categorizes slot based on number of busy members
+ * Checks if two busy member lists contain the same members (slot boundary detection)
+ */
+function sameMembers(a: BusyMember[], b: BusyMember[]): boolean {
+  return a.length === b.length && a.every(x => b.some(y => y.id === x.id));
+}
+
+/**
+ * Splits the day into windows of the requested length
+ *
+ * Every 30-minute step is a candidate start; a window is busy for a member if
+ * they are busy at any point inside it. Consecutive starts with the same busy
+ * members are merged into one slot whose startTime-endTime covers all of them,
+ * and the earliest start is proposed. Segments shorter than the duration yield
+ * no windows. The highest-scoring slot of the day is marked as recommended.
  */
-function categorizeSlot(busyCount: number, totalMembers: number): SlotCategory {
-  if (busyCount === 0) {
+function findDurationSlots(
+  intervals: string[],
+  busyAtInterval: BusyMember[][],
+  durationMinutes: number,
+  buildSlot: (startTime: string, endTime: string, busyMembers: BusyMember[]) => TimeSlot
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+  const steps = Math.ceil(durationMinutes / SLOT_INTERVAL_MINUTES);
+  // Last interval is the work day end boundary, not a step of its own
+  const lastStart = intervals.length - 1 - steps;
+
+  let groupStart = -1;
+  let groupBusyMembers: BusyMember[] = [];
+
+  const finalizeGroup = (lastK: number) => {
+    const suggestedStart = timeToMinutes(intervals[groupStart]);
+    const slot = buildSlot(
+      intervals[groupStart],
+      minutesToTime(timeToMinutes(intervals[lastK]) + durationMinutes),
+      groupBusyMembers
+    );
+    slot.suggestedStartTime = intervals[groupStart];
+    slot.suggestedEndTime = minutesToTime(suggestedStart + durationMinutes);
+    slots.push(slot);
+  };
+
+  for (let k = 0; k <= lastStart; k++) {
+    // Union of members busy at any step of the window
+    const windowBusyMembers: BusyMember[] = [];
+    for (let step = k; step < k + steps; step++) {
+      for (const member of busyAtInterval[step]) {
+        if (!windowBusyMembers.some(m => m.id === member.id)) {
+          windowBusyMembers.push(member);
+        }
+      }
+    }
+
+    if (groupStart === -1) {
+      groupStart = k;
+      groupBusyMembers = windowBusyMembers;
+    } else if (!sameMembers(windowBusyMembers, groupBusyMembers)) {
+      finalizeGroup(k - 1);
+      groupStart = k;
+      groupBusyMembers = windowBusyMembers;
+    }
+  }
+
+  if (groupStart !== -1) {
+    finalizeGroup(lastStart);
+  }
+
+  // Slots are chronological, so the first one with the top score is the earliest
+  let best: TimeSlot | null = null;
+  for (const slot of slots) {
+    if (slot.requiredBusy) continue;
+    if (!best || slot.score > best.score) {
+      best = slot;
+    }
+  }
+  if (best && best.freeMembers > 0) {
+    best.recommended = true;
+  }
+
+  return slots;
+}
+
+/**
+ * Categorizes slot based on weighted score
+ * A busy required member always makes the slot 'bad' (ranked last, hidden by default filter)
+ */
+export function categorizeSlot(score: number, requiredBusy: boolean): SlotCategory {
+  if (requiredBusy) {
+    return 'bad';
+  }
+  if (score >= 1) {
     return 'perfect';
   }
-  if (busyCount <= 2) {
+  if (score >= CATEGORY_THRESHOLDS.good) {
     return 'good';
   }
-  if (busyCount <= 4) {
+  if (score >= CATEGORY_THRESHOLDS.ok) {
     return 'ok';
   }
   return 'bad';
@@ -164,6 +278,8 @@ function categorizeSlot(busyCount: number, totalMembers: number): SlotCategory {
 
 /**
  * Generates all time slots for a date range
+ * options.workingHours limits each day to the project's rehearsal window
+ * options.durationMinutes restricts slots to windows that fit the rehearsal length
  */
 export function generateTimeSlots(
   startDate: string,
@@ -171,9 +287,10 @@ export function generateTimeSlots(
   members: Member[],
   availabilityData: AvailabilityData[],
   selectedMemberIds: string[] = [],
-  workHoursStart: string = '09:00',
-  workHoursEnd: string = '23:00'
+  priorities: MemberPriorities = {},
+  options: SlotGeneratorOptions = {}
 ): TimeSlot[] {
+  const { workingHours = null, durationMinutes = null } = options;
   const slots: TimeSlot[] = [];
   const start = new Date(startDate);
   const end = new Date(endDate);
@@ -182,8 +299,13 @@ export function generateTimeSlots(
 
   while (currentDate <= end) {
     const dateStr = currentDate.toISOString().split('T')[0];
-    const dateSlots = findFreeSlots(dateStr, members, availabilityData, selectedMemberIds, workHoursStart, workHoursEnd);
-    slots.push(...dateSlots);
+    const workday = getWorkdayHours(workingHours, dateStr);
+
+    // Skip weekdays the project doesn't rehearse on
+    if (workday) {
+      const dateSlots = findFreeSlots(dateStr, members, availabilityData, selectedMemberIds, priorities, workday.start, workday.end, durationMinutes);
+      slots.push(...dateSlots);
+    }
 
     currentDate.setDate(currentDate.getDate() + 1);
   }
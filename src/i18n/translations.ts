@@ -5,6 +5,8 @@ import * as projects from './translations/projects';
 import * as profile from './translations/profile';
 import * as availability from './translations/availability';
 import * as calendarSync from './translations/calendarSync';
+import * as inbox from './translations/inbox';
+import * as reminders from './translations/reminders';
 
 export type Language = 'ru' | 'en';
 
@@ -31,6 +33,10 @@ export interface Translations {
   smartPlanner: availability.SmartPlannerTranslations;
   // Calendar Sync
   calendarSync: calendarSync.CalendarSyncTranslations;
+  // Notification Inbox
+  inbox: inbox.InboxTranslations;
+  // Local Reminders
+  reminders: reminders.RemindersTranslations;
   // Days
   days: common.DaysTranslations;
   // Months
@@ -45,6 +51,8 @@ export const ru: Translations = {
   ...profile.ru,
   ...availability.ru,
   ...calendarSync.ru,
+  ...inbox.ru,
+  ...reminders.ru,
 };
 
 export const en: Translations = {
@@ -55,6 +63,8 @@ export const en: Translations = {
   ...profile.en,
   ...availability.en,
   ...calendarSync.en,
+  ...inbox.en,
+  ...reminders.en,
 };
 
 export const translations: Record<Language, Translations> = { ru, en };
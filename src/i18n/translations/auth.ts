@@ -29,6 +29,33 @@ export interface AuthTranslations {
   confirmPasswordPlaceholder: string;
   required: string;
   optional: string;
+  forgotPassword: string;
+  forgotPasswordTitle: string;
+  forgotPasswordSubtitle: string;
+  sendResetLink: string;
+  resetLinkSent: string;
+  resetLinkSentText: (email: string) => string;
+  backToLogin: string;
+  resetPasswordTitle: string;
+  resetPasswordSubtitle: string;
+  newPassword: string;
+  resetPasswordButton: string;
+  passwordResetDone: string;
+  passwordResetDoneText: string;
+  resetPasswordError: string;
+  resetLinkInvalid: string;
+  requestNewLink: string;
+  verifyingEmail: string;
+  emailVerified: string;
+  emailVerifiedText: string;
+  emailVerifyFailed: string;
+  emailVerifyFailedText: string;
+  continue: string;
+  emailNotVerified: string;
+  resendVerification: string;
+  verificationSent: string;
+  verificationSentText: (email: string) => string;
+  verificationError: string;
 }
 
 export const ru = {
@@ -63,6 +90,34 @@ export const ru = {
     confirmPasswordPlaceholder: 'Повторите пароль',
     required: '*',
     optional: '(опционально)',
+    forgotPassword: 'Забыли пароль?',
+    forgotPasswordTitle: 'Восстановление пароля',
+    forgotPasswordSubtitle: 'Укажите email аккаунта — мы пришлём ссылку, чтобы задать новый пароль',
+    sendResetLink: 'Отправить ссылку',
+    resetLinkSent: 'Проверьте почту',
+    resetLinkSentText: (email: string) =>
+      `Если аккаунт с адресом ${email} существует, мы отправили на него ссылку. Откройте её на этом телефоне.`,
+    backToLogin: 'Вернуться ко входу',
+    resetPasswordTitle: 'Новый пароль',
+    resetPasswordSubtitle: 'Придумайте новый пароль для входа',
+    newPassword: 'Новый пароль',
+    resetPasswordButton: 'Сохранить пароль',
+    passwordResetDone: 'Пароль изменён',
+    passwordResetDoneText: 'Войдите с новым паролем',
+    resetPasswordError: 'Не удалось сменить пароль',
+    resetLinkInvalid: 'Ссылка недействительна или устарела. Запросите новую.',
+    requestNewLink: 'Запросить новую ссылку',
+    verifyingEmail: 'Подтверждаем email...',
+    emailVerified: 'Email подтверждён',
+    emailVerifiedText: 'Спасибо! Адрес подтверждён.',
+    emailVerifyFailed: 'Не удалось подтвердить email',
+    emailVerifyFailedText: 'Ссылка недействительна или устарела. Новое письмо можно отправить из профиля.',
+    continue: 'Продолжить',
+    emailNotVerified: 'Email не подтверждён',
+    resendVerification: 'Отправить письмо ещё раз',
+    verificationSent: 'Письмо отправлено',
+    verificationSentText: (email: string) => `Откройте ссылку из письма, отправленного на ${email}`,
+    verificationError: 'Не удалось отправить письмо',
   },
 };
 
@@ -98,5 +153,33 @@ export const en = {
     confirmPasswordPlaceholder: 'Repeat password',
     required: '*',
     optional: '(optional)',
+    forgotPassword: 'Forgot password?',
+    forgotPasswordTitle: 'Reset password',
+    forgotPasswordSubtitle: 'Enter your account email and we will send you a link to choose a new password',
+    sendResetLink: 'Send link',
+    resetLinkSent: 'Check your email',
+    resetLinkSentText: (email: string) =>
+      `If an account with ${email} exists, we have sent a link to it. Open it on this phone.`,
+    backToLogin: 'Back to sign in',
+    resetPasswordTitle: 'New password',
+    resetPasswordSubtitle: 'Choose a new password for your account',
+    newPassword: 'New password',
+    resetPasswordButton: 'Save password',
+    passwordResetDone: 'Password changed',
+    passwordResetDoneText: 'Sign in with your new password',
+    resetPasswordError: 'Failed to reset password',
+    resetLinkInvalid: 'This link is invalid or has expired. Request a new one.',
+    requestNewLink: 'Request a new link',
+    verifyingEmail: 'Confirming your email...',
+    emailVerified: 'Email confirmed',
+    emailVerifiedText: 'Thanks, your address is confirmed.',
+    emailVerifyFailed: 'Could not confirm email',
+    emailVerifyFailedText: 'This link is invalid or has expired. You can get a new email from your profile.',
+    continue: 'Continue',
+    emailNotVerified: 'Email not confirmed',
+    resendVerification: 'Resend email',
+    verificationSent: 'Email sent',
+    verificationSentText: (email: string) => `Open the link in the email we sent to ${email}`,
+    verificationError: 'Failed to send email',
   },
 };
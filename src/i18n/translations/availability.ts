@@ -69,6 +69,33 @@ export interface SmartPlannerTranslations {
   of: string;
   selected: string;
   noMembers: string;
+  searchBy: string;
+  byMembers: string;
+  byScenes: string;
+  scenes: string;
+  noScenes: string;
+  sceneMembersCount: (count: number) => string;
+  required: string;
+  optional: string;
+  weight: string;
+  requiredCount: (count: number) => string;
+  requiredBusy: string;
+  duration: string;
+  anyDuration: string;
+  durationHours: (hours: number) => string;
+  bestTime: string;
+  startBetween: (from: string, to: string) => string;
+  singleRehearsal: string;
+  batchRehearsals: string;
+  sessionsCount: string;
+  minGap: string;
+  gapDays: (days: number) => string;
+  batchProposal: (found: number, requested: number) => string;
+  batchNotEnoughDays: string;
+  createBatch: (count: number) => string;
+  createBatchConfirm: (count: number) => string;
+  batchCreated: (count: number) => string;
+  batchCreateError: string;
 }
 
 export const ru = {
@@ -142,6 +169,57 @@ export const ru = {
     of: 'из',
     selected: 'выбрано',
     noMembers: 'Нет участников',
+    searchBy: 'Искать по',
+    byMembers: 'Участникам',
+    byScenes: 'Сценам',
+    scenes: 'Сцены',
+    noScenes: 'В проекте пока нет сцен. Добавьте их на странице проекта.',
+    sceneMembersCount: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `${count} участник в выбранных сценах`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `${count} участника в выбранных сценах`;
+      return `${count} участников в выбранных сценах`;
+    },
+    required: 'Обязательно',
+    optional: 'Желательно',
+    weight: 'Вес участника',
+    requiredCount: (count: number) => `обязательных: ${count}`,
+    requiredBusy: 'Заняты обязательные',
+    duration: 'Длительность',
+    anyDuration: 'Любая',
+    durationHours: (hours: number) => `${String(hours).replace('.', ',')} ч`,
+    bestTime: 'Лучшее время',
+    startBetween: (from: string, to: string) => `Начало с ${from} до ${to}`,
+    singleRehearsal: 'Одна репетиция',
+    batchRehearsals: 'Блок репетиций',
+    sessionsCount: 'Количество репетиций',
+    minGap: 'Свободных дней между репетициями',
+    gapDays: (days: number) => (days === 0 ? 'Нет' : String(days)),
+    batchProposal: (found: number, requested: number) => `Предложено ${found} из ${requested}`,
+    batchNotEnoughDays: 'Все репетиции не помещаются в период. Расширьте период или уменьшите перерыв.',
+    createBatch: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `Создать ${count} репетицию`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `Создать ${count} репетиции`;
+      return `Создать ${count} репетиций`;
+    },
+    createBatchConfirm: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `Будет создана ${count} репетиция. Участники получат приглашения.`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `Будут созданы ${count} репетиции. Участники получат приглашения.`;
+      return `Будут созданы ${count} репетиций. Участники получат приглашения.`;
+    },
+    batchCreated: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `Создана ${count} репетиция`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `Создано ${count} репетиции`;
+      return `Создано ${count} репетиций`;
+    },
+    batchCreateError: 'Не удалось создать репетиции',
   },
 };
 
@@ -216,5 +294,33 @@ export const en = {
     of: 'of',
     selected: 'selected',
     noMembers: 'No members',
+    searchBy: 'Search by',
+    byMembers: 'Members',
+    byScenes: 'Scenes',
+    scenes: 'Scenes',
+    noScenes: 'This project has no scenes yet. Add them on the project page.',
+    sceneMembersCount: (count: number) => `${count} ${count === 1 ? 'member' : 'members'} in selected scenes`,
+    required: 'Required',
+    optional: 'Optional',
+    weight: 'Member weight',
+    requiredCount: (count: number) => `${count} required`,
+    requiredBusy: 'Required busy',
+    duration: 'Length',
+    anyDuration: 'Any',
+    durationHours: (hours: number) => `${hours} h`,
+    bestTime: 'Best time',
+    startBetween: (from: string, to: string) => `Start between ${from} and ${to}`,
+    singleRehearsal: 'One rehearsal',
+    batchRehearsals: 'Rehearsal block',
+    sessionsCount: 'Number of rehearsals',
+    minGap: 'Free days between rehearsals',
+    gapDays: (days: number) => (days === 0 ? 'None' : String(days)),
+    batchProposal: (found: number, requested: number) => `${found} of ${requested} proposed`,
+    batchNotEnoughDays: 'Not all rehearsals fit the period. Extend the period or reduce the gap.',
+    createBatch: (count: number) => `Create ${count} ${count === 1 ? 'rehearsal' : 'rehearsals'}`,
+    createBatchConfirm: (count: number) =>
+      `${count} ${count === 1 ? 'rehearsal' : 'rehearsals'} will be created. Participants will be invited.`,
+    batchCreated: (count: number) => `${count} ${count === 1 ? 'rehearsal' : 'rehearsals'} created`,
+    batchCreateError: 'Failed to create rehearsals',
   },
 };
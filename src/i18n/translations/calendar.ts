@@ -79,8 +79,67 @@ export interface RehearsalsTranslations {
   rehearsalDetails: string;
   like: string;
   unlike: string;
+  repeat: string;
+  repeatNone: string;
+  repeatWeekly: string;
+  repeatBiweekly: string;
+  repeatCustom: string;
+  repeatOn: string;
+  repeatEnds: string;
+  repeatEndsOnDate: string;
+  repeatEndsAfter: string;
+  repeatOccurrences: string;
+  selectEndDate: string;
+  repeatWeekdaysError: string;
+  repeatCountError: string;
+  seriesCreated: (count: number) => string;
+  recurringRehearsal: string;
+  seriesEditTitle: string;
+  seriesDeleteTitle: string;
+  scopeOccurrence: string;
+  scopeFollowing: string;
+  scopeSeries: string;
+  scenes: string;
+  scenesHint: string;
+  conflictMembers: (count: number) => string;
+  unnamedMember: string;
+  conflictBusy: string;
+  conflictTentative: string;
+  conflictRehearsal: string;
+  conflictAllDay: string;
+  conflictOverlap: (minutes: number) => string;
+  conflictDateTime: (date: string, time: string) => string;
+  yourResponse: string;
+  rsvpMaybe: string;
+  rsvpMaybeSelected: string;
+  rsvpMaybeReasonPlaceholder: string;
+  rsvpMaybeSave: string;
+  respondBy: string;
+  respondByNone: string;
+  respondByLead: (hours: number) => string;
+  respondByAt: (dateTime: string) => string;
+  respondByOverdue: string;
+  overdueMembers: (count: number) => string;
+  attendance: string;
+  attendancePresent: string;
+  attendanceLate: string;
+  attendanceAbsent: string;
+  attendanceLateMinutesPlaceholder: string;
+  attendanceSave: string;
+  attendanceSaved: string;
+  attendanceSaveError: string;
+  attendanceLateMinutesRequired: string;
 }
 
+// Russian plural form: 1 репетиция, 2 репетиции, 5 репетиций
+export const pluralRu = (count: number, one: string, few: string, many: string): string => {
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+};
+
 export const ru = {
   calendar: {
     title: 'Календарь репетиций',
@@ -162,6 +221,80 @@ export const ru = {
     rehearsalDetails: 'Детали репетиции',
     like: 'Иду',
     unlike: 'Отменить',
+    repeat: 'Повтор',
+    repeatNone: 'Не повторять',
+    repeatWeekly: 'Каждую неделю',
+    repeatBiweekly: 'Раз в две недели',
+    repeatCustom: 'По дням недели',
+    repeatOn: 'Дни недели',
+    repeatEnds: 'Окончание',
+    repeatEndsOnDate: 'До даты',
+    repeatEndsAfter: 'Количество',
+    repeatOccurrences: 'повторений',
+    selectEndDate: 'Выберите дату окончания',
+    repeatWeekdaysError: 'Выберите хотя бы один день недели',
+    repeatCountError: 'Количество повторений должно быть от 1 до 104',
+    seriesCreated: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `Создана ${count} репетиция`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `Создано ${count} репетиции`;
+      return `Создано ${count} репетиций`;
+    },
+    recurringRehearsal: 'Повторяющаяся репетиция',
+    seriesEditTitle: 'Изменить повторяющуюся репетицию',
+    seriesDeleteTitle: 'Удалить повторяющуюся репетицию',
+    scopeOccurrence: 'Только эту',
+    scopeFollowing: 'Эту и следующие',
+    scopeSeries: 'Все в серии',
+    scenes: 'Сцены',
+    scenesHint: 'Участники выбранных сцен отмечаются автоматически',
+    conflictMembers: (count: number) =>
+      `Конфликт по времени у ${count} ${pluralRu(count, 'участника', 'участников', 'участников')}:`,
+    unnamedMember: 'Участник',
+    conflictBusy: 'Занятость',
+    conflictTentative: 'Под вопросом',
+    conflictRehearsal: 'Другая репетиция',
+    conflictAllDay: 'весь день',
+    conflictOverlap: (minutes: number) => {
+      const hours = Math.floor(minutes / 60);
+      const mins = minutes % 60;
+      const parts = [];
+      if (hours > 0) parts.push(`${hours} ${pluralRu(hours, 'час', 'часа', 'часов')}`);
+      if (mins > 0) parts.push(`${mins} ${pluralRu(mins, 'минута', 'минуты', 'минут')}`);
+      return `пересечение ${parts.join(' ')}`;
+    },
+    conflictDateTime: (date: string, time: string) => {
+      const [, month, day] = date.split('-');
+      return `${day}.${month} ${time}`;
+    },
+    yourResponse: 'Ваш ответ',
+    rsvpMaybe: 'Пока не знаю',
+    rsvpMaybeSelected: 'Вы ответили «Пока не знаю»',
+    rsvpMaybeReasonPlaceholder: 'Причина (необязательно)',
+    rsvpMaybeSave: 'Ответить',
+    respondBy: 'Срок ответа',
+    respondByNone: 'Без срока',
+    respondByLead: (hours: number) => {
+      if (hours % 24 === 0) {
+        const days = hours / 24;
+        return days === 7 ? 'За неделю' : `За ${days} ${pluralRu(days, 'день', 'дня', 'дней')}`;
+      }
+      return `За ${hours} ч`;
+    },
+    respondByAt: (dateTime: string) => `Ответить до ${dateTime}`,
+    respondByOverdue: 'Срок ответа истёк',
+    overdueMembers: (count: number) =>
+      `${count} ${pluralRu(count, 'участник не ответил', 'участника не ответили', 'участников не ответили')} вовремя`,
+    attendance: 'Посещаемость',
+    attendancePresent: 'Присутствие',
+    attendanceLate: 'Опоздание',
+    attendanceAbsent: 'Отсутствие',
+    attendanceLateMinutesPlaceholder: 'мин',
+    attendanceSave: 'Сохранить посещаемость',
+    attendanceSaved: 'Посещаемость сохранена',
+    attendanceSaveError: 'Не удалось сохранить посещаемость',
+    attendanceLateMinutesRequired: 'Укажите, на сколько минут опоздали',
   },
 };
 
@@ -246,5 +379,73 @@ export const en = {
     rehearsalDetails: 'Rehearsal Details',
     like: 'Going',
     unlike: 'Cancel',
+    repeat: 'Repeat',
+    repeatNone: 'Does not repeat',
+    repeatWeekly: 'Weekly',
+    repeatBiweekly: 'Every 2 weeks',
+    repeatCustom: 'On weekdays',
+    repeatOn: 'Repeat on',
+    repeatEnds: 'Ends',
+    repeatEndsOnDate: 'On date',
+    repeatEndsAfter: 'After',
+    repeatOccurrences: 'occurrences',
+    selectEndDate: 'Select End Date',
+    repeatWeekdaysError: 'Select at least one weekday',
+    repeatCountError: 'Number of occurrences must be between 1 and 104',
+    seriesCreated: (count: number) => `${count} ${count === 1 ? 'rehearsal' : 'rehearsals'} created`,
+    recurringRehearsal: 'Recurring rehearsal',
+    seriesEditTitle: 'Edit recurring rehearsal',
+    seriesDeleteTitle: 'Delete recurring rehearsal',
+    scopeOccurrence: 'This rehearsal',
+    scopeFollowing: 'This and following',
+    scopeSeries: 'All rehearsals in series',
+    scenes: 'Scenes',
+    scenesHint: 'Members of the selected scenes are selected automatically',
+    conflictMembers: (count: number) =>
+      `${count} ${count === 1 ? 'participant has a conflict' : 'participants have conflicts'}:`,
+    unnamedMember: 'Participant',
+    conflictBusy: 'Busy',
+    conflictTentative: 'Tentative',
+    conflictRehearsal: 'Another rehearsal',
+    conflictAllDay: 'all day',
+    conflictOverlap: (minutes: number) => {
+      const hours = Math.floor(minutes / 60);
+      const mins = minutes % 60;
+      const parts = [];
+      if (hours > 0) parts.push(`${hours} ${hours === 1 ? 'hour' : 'hours'}`);
+      if (mins > 0) parts.push(`${mins} ${mins === 1 ? 'minute' : 'minutes'}`);
+      return `overlaps by ${parts.join(' ')}`;
+    },
+    conflictDateTime: (date: string, time: string) => {
+      const [, month, day] = date.split('-');
+      return `${Number(month)}/${Number(day)} ${time}`;
+    },
+    yourResponse: 'Your response',
+    rsvpMaybe: 'Not sure yet',
+    rsvpMaybeSelected: 'You answered "Not sure yet"',
+    rsvpMaybeReasonPlaceholder: 'Reason (optional)',
+    rsvpMaybeSave: 'Respond',
+    respondBy: 'Respond by',
+    respondByNone: 'No deadline',
+    respondByLead: (hours: number) => {
+      if (hours % 24 === 0) {
+        const days = hours / 24;
+        return days === 7 ? '1 week before' : `${days} ${days === 1 ? 'day' : 'days'} before`;
+      }
+      return `${hours} h before`;
+    },
+    respondByAt: (dateTime: string) => `Respond by ${dateTime}`,
+    respondByOverdue: 'Response overdue',
+    overdueMembers: (count: number) =>
+      `${count} ${count === 1 ? 'member has' : 'members have'} not responded in time`,
+    attendance: 'Attendance',
+    attendancePresent: 'Present',
+    attendanceLate: 'Late',
+    attendanceAbsent: 'Absent',
+    attendanceLateMinutesPlaceholder: 'min',
+    attendanceSave: 'Save Attendance',
+    attendanceSaved: 'Attendance saved',
+    attendanceSaveError: 'Failed to save attendance',
+    attendanceLateMinutesRequired: 'Enter how many minutes late',
   },
 };
@@ -100,6 +100,18 @@ export interface CalendarSyncTranslations {
   exportedRehearsals: string;
   lastExport: string;
   importedEvents: string;
+  // Export template
+  exportTemplate: string;
+  titleTemplate: string;
+  notesTemplate: string;
+  templatePlaceholders: string;
+  alarms: string;
+  noAlarms: string;
+  saveTemplate: string;
+  resetTemplate: string;
+  templateSaved: string;
+  templateSavedMessage: string;
+  templateSaveError: string;
 }
 
 export const ru = {
@@ -206,6 +218,18 @@ export const ru = {
     exportedRehearsals: 'Экспортировано репетиций',
     lastExport: 'Последний экспорт',
     importedEvents: 'Импортировано событий',
+    // Export template
+    exportTemplate: 'События в календаре',
+    titleTemplate: 'Название события',
+    notesTemplate: 'Заметки события',
+    templatePlaceholders: 'Нажмите, чтобы вставить в выбранное поле:',
+    alarms: 'Оповещения',
+    noAlarms: 'Без оповещений',
+    saveTemplate: 'Сохранить',
+    resetTemplate: 'Вернуть по умолчанию',
+    templateSaved: 'Шаблон сохранён',
+    templateSavedMessage: 'Новые репетиции экспортируются по нему; синхронизируйте, чтобы обновить уже экспортированные.',
+    templateSaveError: 'Не удалось сохранить шаблон',
   },
 };
 
@@ -313,5 +337,17 @@ export const en = {
     exportedRehearsals: 'Exported rehearsals',
     lastExport: 'Last export',
     importedEvents: 'Imported events',
+    // Export template
+    exportTemplate: 'Calendar events',
+    titleTemplate: 'Event title',
+    notesTemplate: 'Event notes',
+    templatePlaceholders: 'Tap to insert into the selected field:',
+    alarms: 'Alerts',
+    noAlarms: 'No alerts',
+    saveTemplate: 'Save',
+    resetTemplate: 'Restore defaults',
+    templateSaved: 'Template saved',
+    templateSavedMessage: 'New exports use it; synchronize to update rehearsals already in your calendar.',
+    templateSaveError: 'Failed to save the template',
   },
 };
@@ -0,0 +1,33 @@
+export interface InboxTranslations {
+  title: string;
+  empty: string;
+  emptyHint: string;
+  markAllRead: string;
+  loadError: string;
+  retry: string;
+  unreadCount: (count: number) => string;
+}
+
+export const ru = {
+  inbox: {
+    title: 'Входящие',
+    empty: 'Уведомлений пока нет',
+    emptyHint: 'Здесь появятся новые и изменённые репетиции, ответы участников, заявки на вступление и смена ролей',
+    markAllRead: 'Прочитать все',
+    loadError: 'Не удалось загрузить уведомления',
+    retry: 'Повторить',
+    unreadCount: (count: number) => `Непрочитанных: ${count}`,
+  },
+};
+
+export const en = {
+  inbox: {
+    title: 'Inbox',
+    empty: 'No notifications yet',
+    emptyHint: 'New and changed rehearsals, RSVPs, join requests and role changes show up here',
+    markAllRead: 'Mark all as read',
+    loadError: 'Failed to load notifications',
+    retry: 'Retry',
+    unreadCount: (count: number) => `${count} unread`,
+  },
+};
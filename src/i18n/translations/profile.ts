@@ -6,10 +6,26 @@ export interface ProfileTranslations {
   weekStart: string;
   weekStartMonday: string;
   weekStartSunday: string;
+  emailDigest: string;
+  emailDigestOff: string;
+  emailDigestDaily: string;
+  emailDigestWeekly: string;
+  emailDigestHint: string;
+  emailDigestUnverified: string;
   about: string;
   version: string;
   help: string;
   logout: string;
+  sessions: string;
+  sessionsHint: string;
+  thisDevice: string;
+  unknownDevice: string;
+  sessionLastUsed: (date: string) => string;
+  revokeSession: string;
+  revokeSessionConfirm: (device: string) => string;
+  revokeAllSessions: string;
+  revokeAllSessionsConfirm: string;
+  sessionsError: string;
 }
 
 export const ru = {
@@ -21,10 +37,26 @@ export const ru = {
     weekStart: 'Начало недели',
     weekStartMonday: 'Понедельник',
     weekStartSunday: 'Воскресенье',
+    emailDigest: 'Письма о репетициях',
+    emailDigestOff: 'Не присылать',
+    emailDigestDaily: 'Каждый день',
+    emailDigestWeekly: 'Раз в неделю',
+    emailDigestHint: 'Список ближайших репетиций приходит в 8:00 по вашему времени, еженедельный — в первый день недели.',
+    emailDigestUnverified: 'Подтвердите email, чтобы получать письма.',
     about: 'О приложении',
     version: 'Версия',
     help: 'Помощь',
     logout: 'Выйти из аккаунта',
+    sessions: 'Активные сеансы',
+    sessionsHint: 'Устройства, на которых выполнен вход в аккаунт',
+    thisDevice: 'Это устройство',
+    unknownDevice: 'Неизвестное устройство',
+    sessionLastUsed: (date: string) => `Последняя активность: ${date}`,
+    revokeSession: 'Завершить',
+    revokeSessionConfirm: (device: string) => `Выйти из аккаунта на устройстве «${device}»?`,
+    revokeAllSessions: 'Выйти на всех устройствах',
+    revokeAllSessionsConfirm: 'Вы выйдете из аккаунта на всех устройствах, включая это.',
+    sessionsError: 'Не удалось загрузить сеансы',
   },
 };
 
@@ -37,9 +69,25 @@ export const en = {
     weekStart: 'Week starts on',
     weekStartMonday: 'Monday',
     weekStartSunday: 'Sunday',
+    emailDigest: 'Email digest',
+    emailDigestOff: 'Off',
+    emailDigestDaily: 'Daily',
+    emailDigestWeekly: 'Weekly',
+    emailDigestHint: 'Your upcoming rehearsals arrive at 8:00 your time; the weekly digest comes on the first day of the week.',
+    emailDigestUnverified: 'Confirm your email to receive the digest.',
     about: 'About',
     version: 'Version',
     help: 'Help',
     logout: 'Log out',
+    sessions: 'Active sessions',
+    sessionsHint: 'Devices signed in to your account',
+    thisDevice: 'This device',
+    unknownDevice: 'Unknown device',
+    sessionLastUsed: (date: string) => `Last active: ${date}`,
+    revokeSession: 'Sign out',
+    revokeSessionConfirm: (device: string) => `Sign out of your account on "${device}"?`,
+    revokeAllSessions: 'Sign out of all devices',
+    revokeAllSessionsConfirm: 'You will be signed out on every device, including this one.',
+    sessionsError: 'Failed to load sessions',
   },
 };
@@ -2,6 +2,7 @@ export interface ProjectsTranslations {
   title: string;
   noProjects: string;
   createFirst: string;
+  joinWithInvite: string;
   admin: string;
   createProject: string;
   projectName: string;
@@ -16,6 +17,113 @@ export interface ProjectsTranslations {
   descriptionPlaceholder: string;
   nameRequired: string;
   createError: string;
+  scenes: string;
+  noScenes: string;
+  addScene: string;
+  editScene: string;
+  sceneName: string;
+  sceneNamePlaceholder: string;
+  sceneDescriptionPlaceholder: string;
+  sceneMembers: string;
+  sceneNameRequired: string;
+  sceneSaveError: string;
+  deleteScene: string;
+  deleteSceneConfirm: (name: string) => string;
+  sceneDeleteError: string;
+  sceneMembersCount: (count: number) => string;
+  workingHours: string;
+  workingHoursHint: string;
+  dayOff: string;
+  workingHoursInvalid: (day: string) => string;
+  workingHoursSaveError: string;
+  attendanceHistory: string;
+  noAttendance: string;
+  attendanceRate: (percent: number) => string;
+  attendanceCounts: (present: number, late: number, absent: number) => string;
+  attendanceAvgLate: (minutes: number) => string;
+  attendanceLateBy: (minutes: number) => string;
+  report: string;
+  reportRange: string;
+  reportTotals: string;
+  reportRehearsals: (count: number) => string;
+  reportHours: (hours: number) => string;
+  reportYes: string;
+  reportMaybe: string;
+  reportNoResponse: string;
+  reportAttendance: string;
+  reportAttendedHours: (hours: number) => string;
+  reportNoData: string;
+  reportLoadError: string;
+  reportExportCsv: string;
+  reportCopyCsv: string;
+  reportCsvCopied: string;
+  reportExportError: string;
+  roleLabels: {
+    owner: string;
+    admin: string;
+    director: string;
+    stage_manager: string;
+    actor: string;
+    member: string;
+  };
+  memberRole: string;
+  makeOwner: string;
+  makeOwnerConfirm: (name: string) => string;
+  removeMember: string;
+  removeMemberConfirm: (name: string) => string;
+  memberActionError: string;
+  leaveProject: string;
+  leaveProjectConfirm: (projectName: string) => string;
+  leaveProjectError: string;
+  timezone: string;
+  selectTimezone: string;
+  editProject: string;
+  saveError: string;
+  archivedProjects: string;
+  archivedBanner: string;
+  archiveProject: string;
+  archiveProjectConfirm: (projectName: string) => string;
+  restoreProject: string;
+  deleteProject: string;
+  deleteProjectConfirm: (projectName: string) => string;
+  projectActionError: string;
+  inviteLinks: string;
+  noInvites: string;
+  newInvite: string;
+  inviteLabel: string;
+  inviteLabelPlaceholder: string;
+  inviteDefaultLabel: string;
+  inviteRole: string;
+  inviteMaxUses: string;
+  inviteUnlimited: string;
+  inviteExpiry: string;
+  inviteExpiryDays: (days: number) => string;
+  inviteNeverExpires: string;
+  inviteExpiresOn: (date: string) => string;
+  inviteUses: (used: number, max: number | null) => string;
+  inviteStatusLabels: {
+    active: string;
+    revoked: string;
+    expired: string;
+    exhausted: string;
+  };
+  inviteShareMessage: (projectName: string, url: string) => string;
+  inviteMaxUsesInvalid: string;
+  inviteError: string;
+  inviteQr: string;
+  inviteQrHint: string;
+  inviteShareLink: string;
+  revokeInvite: string;
+  revokeInviteConfirm: (label: string) => string;
+  inviteRequiresApproval: string;
+  inviteRequiresApprovalHint: string;
+  inviteWithApproval: string;
+  joinRequests: string;
+  joinRequestVia: (label: string) => string;
+  approveRequest: string;
+  rejectRequest: string;
+  rejectRequestConfirm: (name: string) => string;
+  joinRequestError: string;
 }
 
 export const ru = {
@@ -23,6 +131,7 @@ export const ru = {
     title: 'Мои проекты',
     noProjects: 'Нет проектов',
     createFirst: 'Создайте свой первый проект, чтобы начать работу',
+    joinWithInvite: 'Вступить по приглашению',
     admin: 'Админ',
     createProject: 'Создать проект',
     projectName: 'Название проекта',
@@ -37,6 +146,140 @@ export const ru = {
     descriptionPlaceholder: 'Введите описание',
     nameRequired: 'Название обязательно',
     createError: 'Ошибка создания проекта',
+    scenes: 'Сцены',
+    noScenes: 'Сцены ещё не добавлены',
+    addScene: 'Добавить сцену',
+    editScene: 'Редактировать сцену',
+    sceneName: 'Название сцены',
+    sceneNamePlaceholder: 'Например, Акт 1, сцена 2',
+    sceneDescriptionPlaceholder: 'Описание (необязательно)',
+    sceneMembers: 'Участники сцены',
+    sceneNameRequired: 'Введите название сцены',
+    sceneSaveError: 'Не удалось сохранить сцену',
+    deleteScene: 'Удалить сцену',
+    deleteSceneConfirm: (name: string) => `Удалить сцену «${name}»? Она также будет убрана из репетиций.`,
+    sceneDeleteError: 'Не удалось удалить сцену',
+    sceneMembersCount: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `${count} участник`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `${count} участника`;
+      return `${count} участников`;
+    },
+    workingHours: 'Время репетиций',
+    workingHoursHint: 'В какие часы можно ставить репетиции в каждый день недели',
+    dayOff: 'Без репетиций',
+    workingHoursInvalid: (day: string) => `${day}: начало должно быть раньше окончания`,
+    workingHoursSaveError: 'Не удалось сохранить время репетиций',
+    attendanceHistory: 'Посещаемость',
+    noAttendance: 'Посещаемость ещё не отмечалась',
+    attendanceRate: (percent: number) => `${percent}%`,
+    attendanceCounts: (present: number, late: number, absent: number) =>
+      `Присутствие: ${present} · Опоздания: ${late} · Отсутствие: ${absent}`,
+    attendanceAvgLate: (minutes: number) => `В среднем опоздание ${minutes} мин`,
+    attendanceLateBy: (minutes: number) => `+${minutes} мин`,
+    report: 'Отчёт',
+    reportRange: 'Период',
+    reportTotals: 'Итого',
+    reportRehearsals: (count: number) => {
+      const mod10 = count % 10;
+      const mod100 = count % 100;
+      if (mod10 === 1 && mod100 !== 11) return `${count} репетиция`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `${count} репетиции`;
+      return `${count} репетиций`;
+    },
+    reportHours: (hours: number) => `${hours} ч`,
+    reportYes: 'Придут',
+    reportMaybe: 'Может быть',
+    reportNoResponse: 'Без ответа',
+    reportAttendance: 'Посещаемость',
+    reportAttendedHours: (hours: number) => `Присутствие: ${hours} ч`,
+    reportNoData: 'За этот период репетиций нет',
+    reportLoadError: 'Не удалось загрузить отчёт',
+    reportExportCsv: 'Поделиться CSV',
+    reportCopyCsv: 'Скопировать CSV',
+    reportCsvCopied: 'CSV скопирован в буфер обмена',
+    reportExportError: 'Не удалось выгрузить отчёт',
+    roleLabels: {
+      owner: 'Владелец',
+      admin: 'Админ',
+      director: 'Режиссёр',
+      stage_manager: 'Помреж',
+      actor: 'Актёр',
+      member: 'Участник',
+    },
+    memberRole: 'Роль',
+    makeOwner: 'Передать владение',
+    makeOwnerConfirm: (name: string) =>
+      `Сделать ${name} владельцем проекта? Вы останетесь админом.`,
+    removeMember: 'Удалить из проекта',
+    removeMemberConfirm: (name: string) =>
+      `Удалить ${name} из проекта? Участник будет снят с предстоящих репетиций.`,
+    memberActionError: 'Не удалось изменить участника',
+    leaveProject: 'Покинуть проект',
+    leaveProjectConfirm: (projectName: string) =>
+      `Покинуть проект «${projectName}»? Предстоящие репетиции пропадут из вашего календаря.`,
+    leaveProjectError: 'Не удалось покинуть проект',
+    timezone: 'Часовой пояс',
+    selectTimezone: 'Выберите часовой пояс',
+    editProject: 'Настройки проекта',
+    saveError: 'Не удалось сохранить проект',
+    archivedProjects: 'Архив',
+    archivedBanner: 'Проект в архиве: его можно просматривать, но не изменять',
+    archiveProject: 'Архивировать проект',
+    archiveProjectConfirm: (projectName: string) =>
+      `Архивировать «${projectName}»? Репетиции проекта пропадут из календарей участников, изменения станут недоступны.`,
+    restoreProject: 'Вернуть из архива',
+    deleteProject: 'Удалить проект',
+    deleteProjectConfirm: (projectName: string) =>
+      `Удалить «${projectName}» навсегда? Все репетиции, сцены и отметки посещаемости будут удалены.`,
+    projectActionError: 'Не удалось изменить проект',
+    inviteLinks: 'Ссылки-приглашения',
+    noInvites: 'Нет активных ссылок',
+    newInvite: 'Новая ссылка',
+    inviteLabel: 'Название',
+    inviteLabelPlaceholder: 'Например, оркестр',
+    inviteDefaultLabel: 'Приглашение',
+    inviteRole: 'Роль при вступлении',
+    inviteMaxUses: 'Сколько человек может вступить',
+    inviteUnlimited: 'Без ограничений',
+    inviteExpiry: 'Срок действия',
+    inviteExpiryDays: (days: number) => {
+      const mod10 = days % 10;
+      const mod100 = days % 100;
+      if (mod10 === 1 && mod100 !== 11) return `${days} день`;
+      if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `${days} дня`;
+      return `${days} дней`;
+    },
+    inviteNeverExpires: 'Бессрочно',
+    inviteExpiresOn: (date: string) => `до ${date}`,
+    inviteUses: (used: number, max: number | null) =>
+      max === null ? `вступило: ${used}` : `вступило: ${used} из ${max}`,
+    inviteStatusLabels: {
+      active: 'Активна',
+      revoked: 'Отозвана',
+      expired: 'Истекла',
+      exhausted: 'Исчерпана',
+    },
+    inviteShareMessage: (projectName: string, url: string) =>
+      `Присоединяйся к проекту "${projectName}" в приложении Rehearsal:\n${url}`,
+    inviteMaxUsesInvalid: 'Укажите целое число больше нуля',
+    inviteError: 'Не удалось создать приглашение',
+    inviteQr: 'QR-код приглашения',
+    inviteQrHint: 'Наведите камеру телефона на код, чтобы открыть приглашение',
+    inviteShareLink: 'Отправить ссылку',
+    revokeInvite: 'Отозвать ссылку',
+    revokeInviteConfirm: (label: string) =>
+      `Отозвать «${label}»? По этой ссылке больше нельзя будет вступить в проект.`,
+    inviteRequiresApproval: 'Вступление после одобрения',
+    inviteRequiresApprovalHint: 'Подходит для открытого кастинга: заявки появятся в проекте, и админ решит, кого принять',
+    inviteWithApproval: 'с одобрением',
+    joinRequests: 'Заявки на вступление',
+    joinRequestVia: (label: string) => `по ссылке «${label}»`,
+    approveRequest: 'Принять',
+    rejectRequest: 'Отклонить',
+    rejectRequestConfirm: (name: string) => `Отклонить заявку ${name}?`,
+    joinRequestError: 'Не удалось обработать заявку',
   },
 };
 
@@ -45,6 +288,7 @@ export const en = {
     title: 'My Projects',
     noProjects: 'No projects',
     createFirst: 'Create your first project to get started',
+    joinWithInvite: 'Join with an invite',
     admin: 'Admin',
     createProject: 'Create Project',
     projectName: 'Project Name',
@@ -59,5 +303,121 @@ export const en = {
     descriptionPlaceholder: 'Enter description',
     nameRequired: 'Name is required',
     createError: 'Error creating project',
+    scenes: 'Scenes',
+    noScenes: 'No scenes yet',
+    addScene: 'Add Scene',
+    editScene: 'Edit Scene',
+    sceneName: 'Scene Name',
+    sceneNamePlaceholder: 'e.g. Act 1, Scene 2',
+    sceneDescriptionPlaceholder: 'Description (optional)',
+    sceneMembers: 'Members in Scene',
+    sceneNameRequired: 'Enter a scene name',
+    sceneSaveError: 'Failed to save scene',
+    deleteScene: 'Delete Scene',
+    deleteSceneConfirm: (name: string) => `Delete scene "${name}"? It will also be removed from rehearsals.`,
+    sceneDeleteError: 'Failed to delete scene',
+    sceneMembersCount: (count: number) => `${count} ${count === 1 ? 'member' : 'members'}`,
+    workingHours: 'Rehearsal Hours',
+    workingHoursHint: 'When rehearsals can be scheduled on each day of the week',
+    dayOff: 'No rehearsals',
+    workingHoursInvalid: (day: string) => `${day}: start must be before end`,
+    workingHoursSaveError: 'Failed to save rehearsal hours',
+    attendanceHistory: 'Attendance',
+    noAttendance: 'No attendance marked yet',
+    attendanceRate: (percent: number) => `${percent}%`,
+    attendanceCounts: (present: number, late: number, absent: number) =>
+      `Present: ${present} · Late: ${late} · Absent: ${absent}`,
+    attendanceAvgLate: (minutes: number) => `Late by ${minutes} min on average`,
+    attendanceLateBy: (minutes: number) => `+${minutes} min`,
+    report: 'Report',
+    reportRange: 'Period',
+    reportTotals: 'Totals',
+    reportRehearsals: (count: number) => `${count} ${count === 1 ? 'rehearsal' : 'rehearsals'}`,
+    reportHours: (hours: number) => `${hours} h`,
+    reportYes: 'Yes',
+    reportMaybe: 'Maybe',
+    reportNoResponse: 'No response',
+    reportAttendance: 'Attendance',
+    reportAttendedHours: (hours: number) => `Attended ${hours} h`,
+    reportNoData: 'No rehearsals in this period',
+    reportLoadError: 'Failed to load report',
+    reportExportCsv: 'Share CSV',
+    reportCopyCsv: 'Copy CSV',
+    reportCsvCopied: 'CSV copied to clipboard',
+    reportExportError: 'Failed to export report',
+    roleLabels: {
+      owner: 'Owner',
+      admin: 'Admin',
+      director: 'Director',
+      stage_manager: 'Stage manager',
+      actor: 'Actor',
+      member: 'Member',
+    },
+    memberRole: 'Role',
+    makeOwner: 'Transfer ownership',
+    makeOwnerConfirm: (name: string) =>
+      `Make ${name} the owner of this project? You will stay on as admin.`,
+    removeMember: 'Remove from project',
+    removeMemberConfirm: (name: string) =>
+      `Remove ${name} from the project? They will be taken off upcoming rehearsals.`,
+    memberActionError: 'Failed to update member',
+    leaveProject: 'Leave project',
+    leaveProjectConfirm: (projectName: string) =>
+      `Leave "${projectName}"? Its upcoming rehearsals will disappear from your calendar.`,
+    leaveProjectError: 'Failed to leave project',
+    timezone: 'Timezone',
+    selectTimezone: 'Select timezone',
+    editProject: 'Project settings',
+    saveError: 'Failed to save project',
+    archivedProjects: 'Archive',
+    archivedBanner: 'This project is archived: you can view it but not change it',
+    archiveProject: 'Archive project',
+    archiveProjectConfirm: (projectName: string) =>
+      `Archive "${projectName}"? Its rehearsals will be removed from members' calendars and it can no longer be changed.`,
+    restoreProject: 'Restore from archive',
+    deleteProject: 'Delete project',
+    deleteProjectConfirm: (projectName: string) =>
+      `Delete "${projectName}" for good? All rehearsals, scenes and attendance records will be deleted.`,
+    projectActionError: 'Failed to update project',
+    inviteLinks: 'Invite links',
+    noInvites: 'No active links',
+    newInvite: 'New link',
+    inviteLabel: 'Name',
+    inviteLabelPlaceholder: 'e.g. Orchestra',
+    inviteDefaultLabel: 'Invite',
+    inviteRole: 'Role on joining',
+    inviteMaxUses: 'How many people can join',
+    inviteUnlimited: 'Unlimited',
+    inviteExpiry: 'Expires after',
+    inviteExpiryDays: (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`,
+    inviteNeverExpires: 'Never',
+    inviteExpiresOn: (date: string) => `until ${date}`,
+    inviteUses: (used: number, max: number | null) =>
+      max === null ? `${used} joined` : `${used} of ${max} joined`,
+    inviteStatusLabels: {
+      active: 'Active',
+      revoked: 'Revoked',
+      expired: 'Expired',
+      exhausted: 'Used up',
+    },
+    inviteShareMessage: (projectName: string, url: string) =>
+      `Join the project "${projectName}" in the Rehearsal app:\n${url}`,
+    inviteMaxUsesInvalid: 'Enter a whole number greater than zero',
+    inviteError: 'Failed to create invite',
+    inviteQr: 'Invite QR code',
+    inviteQrHint: 'Point a phone camera at the code to open the invite',
+    inviteShareLink: 'Share link',
+    revokeInvite: 'Revoke link',
+    revokeInviteConfirm: (label: string) =>
+      `Revoke "${label}"? Nobody will be able to join the project with it.`,
+    inviteRequiresApproval: 'Require approval',
+    inviteRequiresApprovalHint: 'For open casting calls: requests show up in the project and an admin decides who gets in',
+    inviteWithApproval: 'with approval',
+    joinRequests: 'Join requests',
+    joinRequestVia: (label: string) => `via "${label}"`,
+    approveRequest: 'Approve',
+    rejectRequest: 'Reject',
+    rejectRequestConfirm: (name: string) => `Reject the request from ${name}?`,
+    joinRequestError: 'Failed to handle the request',
   },
 };
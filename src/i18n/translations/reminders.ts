@@ -0,0 +1,62 @@
+import { pluralRu } from './calendar';
+
+export interface RemindersTranslations {
+  title: string;
+  hint: string;
+  off: string;
+  offset: (minutes: number) => string;
+  offsetBefore: (minutes: number) => string;
+  notificationTitle: string;
+  notificationBody: (offset: string, time: string, location?: string) => string;
+}
+
+// 2 часа, 1 день; minutes that aren't whole hours stay in minutes
+const offsetRu = (minutes: number): string => {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} ${pluralRu(days, 'день', 'дня', 'дней')}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${pluralRu(hours, 'час', 'часа', 'часов')}`;
+  }
+  return `${minutes} мин`;
+};
+
+const offsetEn = (minutes: number): string => {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} min`;
+};
+
+export const ru = {
+  reminders: {
+    title: 'Напоминания',
+    hint: 'Напоминания о репетициях, от которых вы не отказались, приходят на это устройство, даже без экспорта в календарь.',
+    off: 'Выключены',
+    offset: (minutes: number) => offsetRu(minutes),
+    offsetBefore: (minutes: number) => `За ${offsetRu(minutes)}`,
+    notificationTitle: 'Репетиция',
+    notificationBody: (offset: string, time: string, location?: string) =>
+      `Начало через ${offset}, в ${time}${location ? ` · ${location}` : ''}`,
+  },
+};
+
+export const en = {
+  reminders: {
+    title: 'Reminders',
+    hint: 'Reminders for the rehearsals you haven\'t declined arrive on this device, even without calendar export.',
+    off: 'Off',
+    offset: (minutes: number) => offsetEn(minutes),
+    offsetBefore: (minutes: number) => `${offsetEn(minutes)} before`,
+    notificationTitle: 'Rehearsal',
+    notificationBody: (offset: string, time: string, location?: string) =>
+      `Starts in ${offset}, at ${time}${location ? ` · ${location}` : ''}`,
+  },
+};
@@ -9,17 +9,28 @@ import { useAuth } from '../contexts/AuthContext';
 import { useI18n } from '../contexts/I18nContext';
 import { Colors } from '../shared/constants/colors';
 import { CreateActionSheet } from '../shared/components/CreateActionSheet';
+import { parseInviteCode } from '../shared/utils/inviteCode';
+import { parseResetPasswordToken } from '../shared/utils/authLinks';
+import { NotificationTarget, getNotificationRoute } from '../shared/utils/notificationLinks';
+import { usePushNotifications } from '../shared/hooks/usePushNotifications';
+import { useUnreadCount } from '../contexts/InboxContext';
 import LoginScreen from '../features/auth/screens/LoginScreen';
 import RegisterScreen from '../features/auth/screens/RegisterScreen';
+import ForgotPasswordScreen from '../features/auth/screens/ForgotPasswordScreen';
+import ResetPasswordScreen from '../features/auth/screens/ResetPasswordScreen';
+import VerifyEmailScreen from '../features/auth/screens/VerifyEmailScreen';
 import CalendarScreen from '../features/calendar/screens/CalendarScreen';
 import AddRehearsalScreen from '../features/calendar/screens/AddRehearsalScreen';
 import ProjectsScreen from '../features/projects/screens/ProjectsScreen';
 import CreateProjectScreen from '../features/projects/screens/CreateProjectScreen';
+import EditProjectScreen from '../features/projects/screens/EditProjectScreen';
 import JoinProjectScreen from '../features/projects/screens/JoinProjectScreen';
 import ProjectDetailScreen from '../features/projects/screens/ProjectDetailScreen';
+import ProjectReportScreen from '../features/projects/screens/ProjectReportScreen';
 import AvailabilityScreen from '../features/availability/screens/AvailabilityScreen';
 import ProfileScreen from '../features/profile/screens/ProfileScreen';
 import CalendarSyncSettingsScreen from '../features/profile/screens/CalendarSyncSettingsScreen';
+import InboxScreen from '../features/inbox/screens/InboxScreen';
 import SmartPlannerScreen from '../features/smart-planner/screens/SmartPlannerScreen';
 import SmartPlannerTabScreen from '../features/smart-planner/screens/SmartPlannerTabScreen';
 
@@ -45,13 +56,17 @@ const localhostPrefix = Platform.OS === 'android'
   ? 'http://10.0.2.2:3001'
   : 'http://localhost:3001';
 
+const linkingPrefixes = [
+  prefix,
+  'rehearsalapp://',
+  'https://rehearsal-calendar-app.onrender.com',
+  localhostPrefix
+];
+
 const linking: any = {
-  prefixes: [
-    prefix,
-    'rehearsalapp://',
-    'https://rehearsal-calendar-app.onrender.com',
-    localhostPrefix
-  ],
+  prefixes: linkingPrefixes,
+  // Reset links sign the user out first, see Navigation below
+  filter: (url: string) => !parseResetPasswordToken(url),
   config: {
     screens: {
       MainTabs: {
@@ -60,10 +75,30 @@ const linking: any = {
           Calendar: 'calendar',
           Projects: 'projects',
           Planner: 'planner',
-          Profile: 'profile',
+          Profile: {
+            path: 'profile',
+            screens: {
+              Inbox: 'inbox',
+            },
+          },
         },
       },
       JoinProject: 'invite/:code',
+      // Link from the verification email
+      VerifyEmail: 'verify-email/:token',
+    },
+  },
+};
+
+// Links from password reset and verification emails open without signing in
+const authLinking: any = {
+  prefixes: linkingPrefixes,
+  // Invites wait for the user to sign in, see Navigation below
+  filter: (url: string) => !parseInviteCode(url),
+  config: {
+    screens: {
+      ResetPassword: 'reset-password/:token',
+      VerifyEmail: 'verify-email/:token',
     },
   },
 };
@@ -71,16 +106,21 @@ const linking: any = {
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: { email?: string } | undefined;
+  ResetPassword: { token: string };
+  VerifyEmail: { token: string };
 };
 
 export type CalendarStackParamList = {
-  CalendarMain: undefined;
+  // rehearsalId opens the rehearsal's details (tapped push notification)
+  CalendarMain: { rehearsalId?: string } | undefined;
   AddRehearsal: {
     projectId?: string;
     rehearsalId?: string;
     prefilledDate?: string;
     prefilledTime?: string;
     prefilledEndTime?: string;
+    prefilledSceneIds?: string[];
   };
 };
 
@@ -88,6 +128,8 @@ export type ProjectsStackParamList = {
   ProjectsMain: undefined;
   CreateProject: undefined;
   ProjectDetail: { projectId: string };
+  EditProject: { projectId: string };
+  ProjectReport: { projectId: string; projectName: string };
 };
 
 export type PlannerStackParamList = {
@@ -98,6 +140,7 @@ export type PlannerStackParamList = {
 export type ProfileStackParamList = {
   ProfileMain: undefined;
   CalendarSyncSettings: undefined;
+  Inbox: undefined;
 };
 
 export type TabParamList = {
@@ -110,8 +153,10 @@ export type TabParamList = {
 
 export type AppStackParamList = {
   MainTabs: undefined;
-  JoinProject: { code: string };
+  // Without a code the screen asks for a scanned or pasted invite
+  JoinProject: { code?: string } | undefined;
   MarkBusy: undefined;
+  VerifyEmail: { token: string };
 };
 
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
@@ -131,6 +176,9 @@ function AuthNavigator() {
     >
       <AuthStack.Screen name="Login" component={LoginScreen} />
       <AuthStack.Screen name="Register" component={RegisterScreen} />
+      <AuthStack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <AuthStack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <AuthStack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
     </AuthStack.Navigator>
   );
 }
@@ -177,6 +225,17 @@ function ProjectsNavigator() {
         name="ProjectDetail"
         component={ProjectDetailScreen}
       />
+      <ProjectsStack.Screen
+        name="EditProject"
+        component={EditProjectScreen}
+        options={{
+          presentation: 'modal',
+        }}
+      />
+      <ProjectsStack.Screen
+        name="ProjectReport"
+        component={ProjectReportScreen}
+      />
     </ProjectsStack.Navigator>
   );
 }
@@ -213,6 +272,10 @@ function ProfileNavigator() {
         name="CalendarSyncSettings"
         component={CalendarSyncSettingsScreen}
       />
+      <ProfileStack.Screen
+        name="Inbox"
+        component={InboxScreen}
+      />
     </ProfileStack.Navigator>
   );
 }
@@ -289,6 +352,7 @@ function ActionSheetWrapper() {
 function TabNavigator() {
   const { t } = useI18n();
   const { setShowActionSheet } = useActionSheet();
+  const { unreadCount } = useUnreadCount();
 
   // Мемоизируем функцию открытия ActionSheet
   const handleCreatePress = useCallback(() => {
@@ -370,6 +434,9 @@ function TabNavigator() {
             tabBarIcon: ({ color, size }) => (
               <Ionicons name="person-circle-outline" size={size} color={color} />
             ),
+            // Unread inbox entries; the inbox is opened from the profile
+            tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+            tabBarBadgeStyle: { backgroundColor: Colors.accent.purple, fontSize: 10 },
           }}
         />
       </AppTabs.Navigator>
@@ -409,23 +476,58 @@ function AppNavigator() {
             presentation: 'modal',
           }}
         />
+        <AppStack.Screen
+          name="VerifyEmail"
+          component={VerifyEmailScreen}
+          options={{
+            presentation: 'modal',
+          }}
+        />
       </AppStack.Navigator>
     </ActionSheetContext.Provider>
   );
 }
 
 export default function Navigation() {
-  const { isAuthenticated, loading } = useAuth();
+  const { isAuthenticated, loading, logout } = useAuth();
   const [pendingInviteCode, setPendingInviteCode] = useState<string | null>(null);
   const navigationRef = React.useRef<any>(null);
+  const [pendingNotification, setPendingNotification] = useState<NotificationTarget | null>(null);
+  const [pendingResetToken, setPendingResetToken] = useState<string | null>(null);
+  // The initial URL is read again after every sign-in; a reset link must not sign the user out again
+  const handledResetTokenRef = React.useRef<string | null>(null);
+
+  const openNotification = useCallback((target: NotificationTarget) => {
+    navigationRef.current?.navigate('MainTabs', getNotificationRoute(target));
+  }, []);
+
+  // Tapped push notifications: wait for the navigator when the tap started the app
+  usePushNotifications(useCallback((target: NotificationTarget) => {
+    if (navigationRef.current?.isReady()) {
+      openNotification(target);
+    } else {
+      setPendingNotification(target);
+    }
+  }, [openNotification]));
 
   // Handle deep links for unauthenticated users
   useEffect(() => {
     const handleUrl = async (url: string) => {
+      // The reset screen is in the auth stack, and the reset signs every device out anyway
+      const resetToken = parseResetPasswordToken(url);
+      if (resetToken) {
+        const isNew = handledResetTokenRef.current !== resetToken;
+        handledResetTokenRef.current = resetToken;
+        if (isAuthenticated && isNew) {
+          setPendingResetToken(resetToken);
+          await logout();
+        }
+        return;
+      }
+
       // Extract invite code from URL
-      const inviteMatch = url.match(/invite\/([a-f0-9]+)/);
-      if (inviteMatch) {
-        const code = inviteMatch[1];
+      const code = parseInviteCode(url);
+      if (code) {
 
         if (isAuthenticated && navigationRef.current) {
           // User is authenticated, navigate directly
@@ -465,6 +567,28 @@ export default function Navigation() {
     }
   }, [isAuthenticated, pendingInviteCode]);
 
+  // Open the reset link once signed out
+  useEffect(() => {
+    if (!isAuthenticated && !loading && pendingResetToken && navigationRef.current) {
+      // Small delay to ensure navigation is ready
+      setTimeout(() => {
+        navigationRef.current?.navigate('ResetPassword', { token: pendingResetToken });
+        setPendingResetToken(null);
+      }, 500);
+    }
+  }, [isAuthenticated, loading, pendingResetToken]);
+
+  // Open the notification the app was started from
+  useEffect(() => {
+    if (isAuthenticated && pendingNotification && navigationRef.current) {
+      // Small delay to ensure navigation is ready
+      setTimeout(() => {
+        openNotification(pendingNotification);
+        setPendingNotification(null);
+      }, 500);
+    }
+  }, [isAuthenticated, pendingNotification, openNotification]);
+
   if (loading) {
     // TODO: Add proper loading screen later
     return null;
@@ -473,7 +597,7 @@ export default function Navigation() {
   return (
     <NavigationContainer
       ref={navigationRef}
-      linking={isAuthenticated ? linking : undefined}
+      linking={isAuthenticated ? linking : authLinking}
     >
       {isAuthenticated ? <AppNavigator /> : <AuthNavigator />}
     </NavigationContainer>
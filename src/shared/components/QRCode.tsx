@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { encodeQrCode } from '../utils/qrCode';
+
+// Light margin scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+interface QRCodeProps {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+/**
+ * Render text as a QR code
+ * Keep the colours high-contrast so phone cameras can read it.
+ */
+export const QRCode: React.FC<QRCodeProps> = ({
+  value,
+  size = 200,
+  color = '#000000',
+  backgroundColor = '#FFFFFF',
+}) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    // One rectangle per horizontal run of dark modules keeps the path short and seamless
+    let d = '';
+    modules.forEach((row, y) => {
+      let x = 0;
+      while (x < row.length) {
+        if (!row[x]) {
+          x++;
+          continue;
+        }
+        const start = x;
+        while (x < row.length && row[x]) {
+          x++;
+        }
+        d += `M${start + QUIET_ZONE} ${y + QUIET_ZONE}h${x - start}v1h-${x - start}z`;
+      }
+    });
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`}>
+      <Rect x={0} y={0} width={dimension} height={dimension} fill={backgroundColor} />
+      <Path d={path} fill={color} />
+    </Svg>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, FontSize, FontWeight, Spacing, BorderRadius } from '../constants/colors';
+import { Scene } from '../types';
+
+interface ScenePickerProps {
+  scenes: Scene[];
+  selectedSceneIds: string[];
+  onSelectionChange: (sceneIds: string[]) => void;
+}
+
+/**
+ * Multi-select chips for project scenes, each showing its member count
+ */
+export const ScenePicker: React.FC<ScenePickerProps> = ({
+  scenes,
+  selectedSceneIds,
+  onSelectionChange,
+}) => {
+  const toggleScene = (sceneId: string) => {
+    const newSelection = selectedSceneIds.includes(sceneId)
+      ? selectedSceneIds.filter(id => id !== sceneId)
+      : [...selectedSceneIds, sceneId];
+
+    onSelectionChange(newSelection);
+  };
+
+  return (
+    <View style={styles.container}>
+      {scenes.map(scene => {
+        const selected = selectedSceneIds.includes(scene.id);
+        return (
+          <TouchableOpacity
+            key={scene.id}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => toggleScene(scene.id)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+              {scene.name}
+            </Text>
+            <View style={styles.countBadge}>
+              <Ionicons
+                name="people-outline"
+                size={12}
+                color={selected ? Colors.accent.purple : Colors.text.tertiary}
+              />
+              <Text style={[styles.countText, selected && styles.chipTextSelected]}>
+                {scene.memberIds.length}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    maxWidth: '100%',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: Colors.glass.bg,
+    borderWidth: 1,
+    borderColor: Colors.glass.border,
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+    borderColor: Colors.accent.purple,
+  },
+  chipText: {
+    flexShrink: 1,
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: Colors.accent.purple,
+    fontWeight: FontWeight.semibold,
+  },
+  countBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  countText: {
+    fontSize: FontSize.xs,
+    color: Colors.text.tertiary,
+  },
+});
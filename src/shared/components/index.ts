@@ -6,3 +6,7 @@ export * from './animations';
 
 // Picker components
 export { PickerModal } from './PickerModal';
+export { ScenePicker } from './ScenePicker';
+
+// QR code
+export { QRCode } from './QRCode';
@@ -0,0 +1,58 @@
+/**
+ * Push Notifications Hook
+ * Registers the device once a user is signed in and opens what a tapped notification is about
+ */
+
+import { useEffect, useRef } from 'react';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '../../contexts/AuthContext';
+import { configurePushNotifications, registerForPushNotifications } from '../services/pushNotifications';
+import { getNotificationTarget, NotificationTarget } from '../utils/notificationLinks';
+
+/**
+ * @param onOpen - Called with the target of a tapped notification
+ */
+export function usePushNotifications(onOpen: (target: NotificationTarget) => void) {
+  const { user } = useAuth();
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  const userId = user?.id;
+  const notificationsEnabled = user?.notificationsEnabled !== false;
+
+  useEffect(() => {
+    configurePushNotifications();
+  }, []);
+
+  // Register the device for whoever is signed in (again after turning notifications back on)
+  useEffect(() => {
+    if (userId && notificationsEnabled) {
+      registerForPushNotifications();
+    }
+  }, [userId, notificationsEnabled]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const handleResponse = (response: Notifications.NotificationResponse) => {
+      const target = getNotificationTarget(response.notification.request.content.data);
+      if (target) {
+        onOpenRef.current(target);
+      }
+    };
+
+    // The app was started by tapping a notification
+    const lastResponse = Notifications.getLastNotificationResponse();
+    if (lastResponse) {
+      Notifications.clearLastNotificationResponse();
+      handleResponse(lastResponse);
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => {
+      subscription.remove();
+    };
+  }, [userId]);
+}
@@ -3,6 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { logger } from '../utils/logger';
+import { AttendanceStatus, ProjectRole, SeriesScope, WorkingHours } from '../types';
 
 /**
  * API Configuration
@@ -94,6 +95,55 @@ api.interceptors.request.use(
   }
 );
 
+// Name shown for this device in the user's session list, e.g. "Anna's iPhone (ios)"
+const getDeviceName = (): string =>
+  Constants.deviceName ? `${Constants.deviceName} (${Platform.OS})` : Platform.OS;
+
+// Called when the session is over (revoked on another device, or the refresh token was reused)
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Auth endpoints answer 401 for wrong credentials; refreshing won't help there
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+// Requests that fail together share one refresh: the server accepts each refresh token only once
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = await AsyncStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await axios.post(`${API_URL}/auth/refresh`, {
+      refreshToken,
+      deviceName: getDeviceName(),
+    });
+
+    const { accessToken, refreshToken: newRefreshToken } = response.data;
+
+    // Save new tokens
+    await AsyncStorage.multiSet([
+      ['accessToken', accessToken],
+      ['refreshToken', newRefreshToken],
+    ]);
+
+    return accessToken;
+  } catch (refreshError: any) {
+    // Signed out on the server - drop the tokens and leave the app
+    // (a network error keeps them, so the user stays signed in offline)
+    if (refreshError.response?.status === 401) {
+      await AsyncStorage.multiRemove(['accessToken', 'refreshToken']);
+      sessionExpiredHandler?.();
+    }
+    throw refreshError;
+  }
+};
+
 // Response interceptor - handle token refresh
 api.interceptors.response.use(
   (response) => response,
@@ -101,32 +151,28 @@ api.interceptors.response.use(
     const originalRequest = error.config;
 
     // If 401 and not already retried
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !NO_REFRESH_URLS.includes(originalRequest.url)
+    ) {
       originalRequest._retry = true;
 
-      try {
-        const refreshToken = await AsyncStorage.getItem('refreshToken');
-        if (refreshToken) {
-          // Try to refresh the token
-          const response = await axios.post(`${API_URL}/auth/refresh`, {
-            refreshToken,
-          });
-
-          const { accessToken, refreshToken: newRefreshToken } = response.data;
-
-          // Save new tokens
-          await AsyncStorage.multiSet([
-            ['accessToken', accessToken],
-            ['refreshToken', newRefreshToken],
-          ]);
+      if (!refreshPromise) {
+        refreshPromise = refreshAccessToken().finally(() => {
+          refreshPromise = null;
+        });
+      }
 
+      try {
+        const accessToken = await refreshPromise;
+        if (accessToken) {
           // Retry original request with new token
           originalRequest.headers.Authorization = `Bearer ${accessToken}`;
           return api(originalRequest);
         }
       } catch (refreshError) {
-        // Refresh failed - logout user
-        await AsyncStorage.multiRemove(['accessToken', 'refreshToken']);
         return Promise.reject(refreshError);
       }
     }
@@ -138,10 +184,10 @@ api.interceptors.response.use(
 // Auth API
 export const authAPI = {
   register: (email: string, password: string, firstName: string, lastName?: string) =>
-    api.post('/auth/register', { email, password, firstName, lastName }),
+    api.post('/auth/register', { email, password, firstName, lastName, deviceName: getDeviceName() }),
 
   login: (email: string, password: string) =>
-    api.post('/auth/login', { email, password }),
+    api.post('/auth/login', { email, password, deviceName: getDeviceName() }),
 
   loginWithTelegram: (telegramData: any) =>
     api.post('/auth/telegram', telegramData),
@@ -159,17 +205,68 @@ export const authAPI = {
     weekStartDay?: 'monday' | 'sunday';
     notificationsEnabled?: boolean;
     emailNotifications?: boolean;
+    emailDigestFrequency?: 'daily' | 'weekly';
   }) => api.put('/auth/me', data),
 
   deleteMe: () => api.delete('/auth/me'),
+
+  // Password reset and email verification (tokens come from emailed links)
+  requestPasswordReset: (email: string) =>
+    api.post('/auth/forgot-password', { email }),
+
+  resetPassword: (token: string, password: string) =>
+    api.post('/auth/reset-password', { token, password }),
+
+  verifyEmail: (token: string) =>
+    api.post('/auth/verify-email', { token }),
+
+  sendVerificationEmail: () => api.post('/auth/send-verification'),
+
+  // Signed-in devices
+  logout: () => api.post('/auth/logout'),
+
+  getSessions: () => api.get('/auth/sessions'),
+
+  revokeSession: (sessionId: string) =>
+    api.delete(`/auth/sessions/${sessionId}`),
+
+  revokeAllSessions: () => api.delete('/auth/sessions'),
+};
+
+// Push notifications API (Native App)
+export const notificationsAPI = {
+  // Register this device's Expo push token
+  registerPushToken: (token: string, platform: string) =>
+    api.post('/native/push-tokens', { token, platform }),
+
+  // Stop pushing to this device
+  unregisterPushToken: (token: string) =>
+    api.delete('/native/push-tokens', { data: { token } }),
+
+  // Inbox, newest first; `before` is the ID of the last entry already loaded
+  getInbox: (params?: { limit?: number; before?: string }) =>
+    api.get('/native/notifications', { params }),
+
+  getUnreadCount: () =>
+    api.get('/native/notifications/unread-count'),
+
+  markRead: (ids: string[]) =>
+    api.post('/native/notifications/read', { ids }),
+
+  markAllRead: () =>
+    api.post('/native/notifications/read-all'),
 };
 
 // Projects API (Native App)
 export const projectsAPI = {
-  // Get all projects for authenticated user
+  // Get all projects for authenticated user (archived ones are left out)
   getUserProjects: () =>
     api.get('/native/projects'),
 
+  // Get the user's archived projects
+  getArchivedProjects: () =>
+    api.get('/native/projects', { params: { archived: true } }),
+
   // Get single project
   getProject: (projectId: string) =>
     api.get(`/native/projects/${projectId}`),
@@ -200,6 +297,60 @@ export const projectsAPI = {
   // Create new project
   createProject: (data: { name: string; description?: string; timezone?: string }) =>
     api.post('/native/projects', data),
+
+  // Edit name, description or timezone, archive or restore (admin only)
+  updateProject: (
+    projectId: string,
+    data: { name?: string; description?: string | null; timezone?: string; archived?: boolean }
+  ) =>
+    api.put(`/native/projects/${projectId}`, data),
+
+  // Delete the project with all its rehearsals (owner only)
+  deleteProject: (projectId: string) =>
+    api.delete(`/native/projects/${projectId}`),
+
+  // Set rehearsal windows by weekday (admin only), null resets to defaults
+  updateWorkingHours: (projectId: string, workingHours: WorkingHours | null) =>
+    api.put(`/native/projects/${projectId}/working-hours`, { workingHours }),
+
+  // Attendance and workload report for [from, to) (admin only)
+  getReport: (projectId: string, from: string, to: string) =>
+    api.get(`/native/projects/${projectId}/report`, { params: { from, to } }),
+
+  // Same report as CSV text
+  getReportCsv: (projectId: string, from: string, to: string) =>
+    api.get<string>(`/native/projects/${projectId}/report`, {
+      params: { from, to, format: 'csv' },
+      responseType: 'text',
+    }),
+
+  // Change a member's role (manage_members; only the owner can make or unmake admins)
+  changeMemberRole: (projectId: string, userId: string, role: ProjectRole) =>
+    api.put(`/native/projects/${projectId}/members/${userId}/role`, { role }),
+
+  // Make another member the owner (owner only); the previous owner becomes admin
+  transferOwnership: (projectId: string, userId: string) =>
+    api.post(`/native/projects/${projectId}/members/${userId}/transfer-ownership`),
+
+  // Remove a member and take them off upcoming rehearsals
+  removeMember: (projectId: string, userId: string) =>
+    api.delete(`/native/projects/${projectId}/members/${userId}`),
+
+  // Members waiting for approval after joining through an approval link (manage_members)
+  getJoinRequests: (projectId: string) =>
+    api.get(`/native/projects/${projectId}/join-requests`),
+
+  // Let a pending member in with the role of their link
+  approveJoinRequest: (projectId: string, userId: string) =>
+    api.post(`/native/projects/${projectId}/join-requests/${userId}/approve`),
+
+  // Turn down a pending member
+  rejectJoinRequest: (projectId: string, userId: string) =>
+    api.post(`/native/projects/${projectId}/join-requests/${userId}/reject`),
+
+  // Leave a project (the owner has to transfer ownership first)
+  leaveProject: (projectId: string) =>
+    api.post(`/native/projects/${projectId}/leave`),
 };
 
 // Rehearsals API (Native App)
@@ -216,42 +367,115 @@ export const rehearsalsAPI = {
       },
     }),
 
-  // Create rehearsal
+  // Create rehearsal (pass `recurrence` to create a series)
   create: (projectId: string, data: any) =>
     api.post(`/native/projects/${projectId}/rehearsals`, data),
 
-  // Update rehearsal
+  // Create several rehearsals with shared details in one request
+  createBatch: (projectId: string, data: { sessions: Array<{ startsAt: string; endsAt: string }>; [key: string]: any }) =>
+    api.post(`/native/projects/${projectId}/rehearsals/batch`, data),
+
+  // Update rehearsal (pass `scope` for series occurrences)
   update: (projectId: string, rehearsalId: string, data: any) =>
     api.put(`/native/projects/${projectId}/rehearsals/${rehearsalId}`, data),
 
-  // Delete rehearsal
-  delete: (projectId: string, rehearsalId: string) =>
-    api.delete(`/native/projects/${projectId}/rehearsals/${rehearsalId}`),
+  // Delete rehearsal (scope applies to series occurrences)
+  delete: (projectId: string, rehearsalId: string, scope?: SeriesScope) =>
+    api.delete(`/native/projects/${projectId}/rehearsals/${rehearsalId}${scope ? `?scope=${scope}` : ''}`),
 
   // Get RSVP responses for rehearsal
   getResponses: (rehearsalId: string) =>
     api.get(`/native/rehearsals/${rehearsalId}/responses`),
 
-  // RSVP - Submit response ('yes' = accepted, 'no' = declined)
-  respond: (rehearsalId: string, status: 'yes' | 'no', notes?: string) =>
+  // Get names of invited members of several rehearsals, keyed by rehearsal ID
+  getParticipants: (rehearsalIds: string[]) =>
+    api.get('/native/rehearsals/participants', {
+      params: {
+        rehearsalIds: rehearsalIds.join(','),
+      },
+    }),
+
+  // RSVP - Submit response ('yes' = accepted, 'no' = declined, 'maybe' = undecided; notes = reason)
+  respond: (rehearsalId: string, status: 'yes' | 'no' | 'maybe', notes?: string) =>
     api.post(`/native/rehearsals/${rehearsalId}/respond`, { response: status, notes }),
 
   // RSVP - Get my response
   getMyResponse: (rehearsalId: string) =>
     api.get(`/native/rehearsals/${rehearsalId}/my-response`),
+
+  // Members who missed the respond-by deadline of upcoming rehearsals (admins only)
+  getFollowUps: (projectId: string) =>
+    api.get(`/native/projects/${projectId}/follow-ups`),
+
+  // Mark an overdue member as followed up (contacted = false clears the mark)
+  setFollowUpContacted: (projectId: string, followUpId: string, contacted: boolean = true) =>
+    api.put(`/native/projects/${projectId}/follow-ups/${followUpId}`, { contacted }),
+
+  // Attendance of invited participants (admins only)
+  getAttendance: (projectId: string, rehearsalId: string) =>
+    api.get(`/native/projects/${projectId}/rehearsals/${rehearsalId}/attendance`),
+
+  // Mark attendance once the rehearsal has started (admins only, lateMinutes for 'late')
+  setAttendance: (
+    projectId: string,
+    rehearsalId: string,
+    attendance: Array<{ userId: string; status: AttendanceStatus; lateMinutes?: number | null }>
+  ) =>
+    api.put(`/native/projects/${projectId}/rehearsals/${rehearsalId}/attendance`, { attendance }),
+
+  // Attendance history per member (members only get their own)
+  getAttendanceHistory: (projectId: string) =>
+    api.get(`/native/projects/${projectId}/attendance`),
+};
+
+// Scenes API (Native App)
+export const scenesAPI = {
+  // Get project scenes with their members
+  getAll: (projectId: string) =>
+    api.get(`/native/projects/${projectId}/scenes`),
+
+  // Create scene
+  create: (projectId: string, data: { name: string; description?: string; memberIds?: string[] }) =>
+    api.post(`/native/projects/${projectId}/scenes`, data),
+
+  // Update scene (memberIds replaces the member list)
+  update: (projectId: string, sceneId: string, data: { name?: string; description?: string; memberIds?: string[] }) =>
+    api.put(`/native/projects/${projectId}/scenes/${sceneId}`, data),
+
+  // Delete scene
+  delete: (projectId: string, sceneId: string) =>
+    api.delete(`/native/projects/${projectId}/scenes/${sceneId}`),
 };
 
 // Invites API (Native App)
 export const invitesAPI = {
-  // Create invite link for project
+  // List invite links of a project with their join counts
+  listInvites: (projectId: string) =>
+    api.get(`/native/projects/${projectId}/invites`),
+
+  // Create a named invite link (expiresInDays: null = never expires, maxUses: null = unlimited)
+  createProjectInvite: (projectId: string, data: {
+    label?: string | null;
+    role?: ProjectRole;
+    maxUses?: number | null;
+    expiresInDays?: number | null;
+    requiresApproval?: boolean;
+  }) =>
+    api.post(`/native/projects/${projectId}/invites`, data),
+
+  // Revoke one invite link
+  revokeProjectInvite: (projectId: string, inviteId: string) =>
+    api.delete(`/native/projects/${projectId}/invites/${inviteId}`),
+
+  // Get or create the plain member invite link for project
   createInvite: (projectId: string, expiresInDays?: number) =>
     api.post(`/native/projects/${projectId}/invite`, { expiresInDays }),
 
-  // Get current invite link for project
+  // Get newest usable invite link for project
   getInvite: (projectId: string) =>
     api.get(`/native/projects/${projectId}/invite`),
 
-  // Revoke invite link
+  // Revoke all invite links
   revokeInvite: (projectId: string) =>
     api.delete(`/native/projects/${projectId}/invite`),
 
@@ -341,6 +565,10 @@ export const calendarSyncAPI = {
 
   deleteMappingByEvent: (eventType: 'rehearsal' | 'availability', internalEventId: string) =>
     api.delete(`/native/calendar-sync/mappings/by-event/${eventType}/${internalEventId}`),
+
+  // Exported upcoming rehearsals of projects the user was removed from or left
+  getOrphanedMappings: () =>
+    api.get('/native/calendar-sync/mappings/orphaned'),
 };
 
 export default api;
@@ -4,7 +4,8 @@
  */
 
 import * as Calendar from 'expo-calendar';
-import { RehearsalWithProject, BatchSyncResult } from '../../types/calendar';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RehearsalWithProject, BatchSyncResult, CalendarExportTemplate } from '../../types/calendar';
 import { checkCalendarPermissions } from './permissions';
 import {
   saveEventMapping,
@@ -13,8 +14,112 @@ import {
   getAllMappings,
   clearAllMappings,
 } from '../../utils/calendarMappings';
-import { updateLastExportTime } from '../../utils/calendarStorage';
+import { updateLastExportTime, getExportTemplate } from '../../utils/calendarStorage';
+import {
+  TemplateValues,
+  getTemplateValues,
+  renderEventTemplate,
+  renderEventTitle,
+  usesPlaceholder,
+  getKnownEventTitles,
+} from '../../utils/eventTemplate';
+import { calendarSyncAPI, rehearsalsAPI } from '../api';
 import { logger } from '../../utils/logger';
+import { translations } from '../../../i18n/translations';
+import { LANGUAGE_STORAGE_KEY } from '../../../contexts/I18nContext';
+
+/**
+ * Title and notes templates of the export, earlier titles included
+ */
+function getTemplateTexts(template: CalendarExportTemplate): string[] {
+  return [template.titleTemplate, template.notesTemplate, ...template.previousTitleTemplates];
+}
+
+/**
+ * Whether the export template shows participants, which have to be loaded from the server
+ */
+function showsParticipants(template: CalendarExportTemplate): boolean {
+  return usesPlaceholder(getTemplateTexts(template), 'participants');
+}
+
+/**
+ * Text of {series} in the app language, read only for series occurrences whose template shows it
+ */
+async function getSeriesLabel(rehearsal: RehearsalWithProject, template: CalendarExportTemplate): Promise<string> {
+  if (!rehearsal.seriesId || !usesPlaceholder(getTemplateTexts(template), 'series')) {
+    return '';
+  }
+  const language = (await AsyncStorage.getItem(LANGUAGE_STORAGE_KEY)) === 'en' ? 'en' : 'ru';
+  return translations[language].rehearsals.recurringRehearsal;
+}
+
+/**
+ * Placeholder values of a rehearsal, loading its participants only when a template shows them
+ */
+async function getEventValues(
+  rehearsal: RehearsalWithProject,
+  template: CalendarExportTemplate
+): Promise<TemplateValues> {
+  const seriesLabel = await getSeriesLabel(rehearsal, template);
+  if (rehearsal.participants || !showsParticipants(template)) {
+    return getTemplateValues(rehearsal, seriesLabel);
+  }
+
+  try {
+    const response = await rehearsalsAPI.getResponses(rehearsal.id);
+    const participants: string[] = (response.data.allParticipants || [])
+      .map((p: { firstName?: string; lastName?: string }) => `${p.firstName || ''} ${p.lastName || ''}`.trim())
+      .filter(Boolean);
+    return getTemplateValues({ ...rehearsal, participants }, seriesLabel);
+  } catch (error) {
+    logger.warn(`[CalendarSync] Failed to load participants of rehearsal ${rehearsal.id}:`, error);
+    return getTemplateValues(rehearsal, seriesLabel);
+  }
+}
+
+/**
+ * Load the participants of several rehearsals in one request, so exporting many rehearsals
+ * doesn't ask the server once per rehearsal
+ */
+async function withParticipants(
+  rehearsals: RehearsalWithProject[],
+  template: CalendarExportTemplate
+): Promise<RehearsalWithProject[]> {
+  const missing = rehearsals.filter(rehearsal => !rehearsal.participants);
+  if (missing.length === 0 || !showsParticipants(template)) {
+    return rehearsals;
+  }
+
+  let participants: Record<string, string[]> = {};
+  try {
+    const response = await rehearsalsAPI.getParticipants(missing.map(rehearsal => rehearsal.id));
+    participants = response.data.participants || {};
+  } catch (error) {
+    // Export without participants rather than retrying per rehearsal
+    logger.warn('[CalendarSync] Failed to load participants:', error);
+  }
+
+  return rehearsals.map(rehearsal =>
+    rehearsal.participants ? rehearsal : { ...rehearsal, participants: participants[rehearsal.id] || [] }
+  );
+}
+
+/**
+ * Build the title, notes and alarms of the event from the export template
+ */
+function buildEventDetails(
+  template: CalendarExportTemplate,
+  values: TemplateValues
+): Pick<Calendar.Event, 'title' | 'notes' | 'alarms'> {
+  return {
+    title: renderEventTitle(template.titleTemplate, values),
+    notes: renderEventTemplate(template.notesTemplate, values),
+    alarms: template.alarmOffsets.map(offset => ({
+      relativeOffset: -offset,
+      method: Calendar.AlarmMethod.ALERT,
+    })),
+  };
+}
 
 /**
  * Check if event exists in calendar
@@ -31,9 +136,11 @@ async function checkEventExists(eventId: string): Promise<boolean> {
 
 /**
  * Find duplicate event in calendar by matching properties
+ * Titles from earlier templates match too, so changing the template doesn't export rehearsals twice
  */
 async function findDuplicateEvent(
   rehearsal: RehearsalWithProject,
+  knownTitles: string[],
   calendarId: string,
   startDate: Date,
   endDate: Date
@@ -49,7 +156,7 @@ async function findDuplicateEvent(
 
     // Find event with matching properties
     const duplicateEvent = events.find(event => {
-      const titleMatch = event.title === `Rehearsal: ${rehearsal.projectName}`;
+      const titleMatch = knownTitles.includes(event.title);
       const startMatch = Math.abs(new Date(event.startDate).getTime() - startDate.getTime()) < 60000; // Within 1 minute
       const endMatch = Math.abs(new Date(event.endDate).getTime() - endDate.getTime()) < 60000;
       const locationMatch = event.location === (rehearsal.location || undefined);
@@ -85,9 +192,17 @@ export async function createCalendarEvent(
 
     const startDate = new Date(rehearsal.startsAt);
     const endDate = new Date(rehearsal.endsAt);
+    const template = await getExportTemplate();
+    const values = await getEventValues(rehearsal, template);
 
     // Check for duplicate events (prevents creating duplicates after AsyncStorage loss)
-    const duplicateEventId = await findDuplicateEvent(rehearsal, calendarId, startDate, endDate);
+    const duplicateEventId = await findDuplicateEvent(
+      rehearsal,
+      getKnownEventTitles(template, values),
+      calendarId,
+      startDate,
+      endDate
+    );
     if (duplicateEventId) {
       logger.info(`[CalendarSync] Using existing event ${duplicateEventId} instead of creating duplicate`);
       // Save mapping to existing event
@@ -96,17 +211,10 @@ export async function createCalendarEvent(
     }
 
     const eventDetails: Omit<Partial<Calendar.Event>, 'id' | 'organizer'> = {
-      title: `Rehearsal: ${rehearsal.projectName}`,
+      ...buildEventDetails(template, values),
       startDate,
       endDate,
       location: rehearsal.location || undefined,
-      notes: `Project: ${rehearsal.projectName}\n\nCreated via Rehearsal Calendar app`,
-      alarms: [
-        {
-          relativeOffset: -30, // 30 minutes before
-          method: Calendar.AlarmMethod.ALERT,
-        },
-      ],
       availability: Calendar.Availability.BUSY,
     };
 
@@ -137,12 +245,14 @@ export async function updateCalendarEvent(
       throw new Error('Calendar permission not granted');
     }
 
+    const template = await getExportTemplate();
+    const values = await getEventValues(rehearsal, template);
+
     const eventDetails: Partial<Calendar.Event> = {
-      title: `Rehearsal: ${rehearsal.projectName}`,
+      ...buildEventDetails(template, values),
       startDate: new Date(rehearsal.startsAt),
       endDate: new Date(rehearsal.endsAt),
       location: rehearsal.location || undefined,
-      notes: `Project: ${rehearsal.projectName}\n\nCreated via Rehearsal Calendar app`,
     };
 
     logger.info('[CalendarSync] Updating event:', eventId);
@@ -249,6 +359,19 @@ export async function unsyncRehearsal(rehearsalId: string): Promise<void> {
   }
 }
 
+/**
+ * Unsync several rehearsals (e.g. occurrences removed from a series)
+ * Continues on failure so one missing event doesn't keep the rest in calendar
+ */
+export async function unsyncRehearsals(rehearsalIds: string[]): Promise<void> {
+  const results = await Promise.allSettled(rehearsalIds.map(id => unsyncRehearsal(id)));
+  const failed = results.filter(r => r.status === 'rejected').length;
+
+  if (failed > 0) {
+    logger.warn(`[CalendarSync] Failed to unsync ${failed} of ${rehearsalIds.length} rehearsals`);
+  }
+}
+
 /**
  * Export all rehearsals to calendar
  * Returns: { success: number, failed: number, errors: string[] }
@@ -266,10 +389,11 @@ export async function syncAllRehearsals(
 
   const total = rehearsals.length;
   const BATCH_SIZE = 10; // Process 10 rehearsals in parallel
+  const template = await getExportTemplate();
 
   // Process in batches for better performance
   for (let i = 0; i < rehearsals.length; i += BATCH_SIZE) {
-    const batch = rehearsals.slice(i, i + BATCH_SIZE);
+    const batch = await withParticipants(rehearsals.slice(i, i + BATCH_SIZE), template);
 
     // Process batch in parallel
     const results = await Promise.allSettled(
@@ -367,3 +491,30 @@ export async function removeAllExportedEvents(
     throw error;
   }
 }
+
+/**
+ * Remove exported events of upcoming rehearsals in projects the user no longer belongs to
+ * (left or removed by an admin), of archived projects and of rehearsals that were deleted. Mappings are kept when the event can't be deleted,
+ * e.g. without calendar permission, so the next run retries them.
+ * Returns the number of events removed
+ */
+export async function removeOrphanedExportedEvents(): Promise<number> {
+  const response = await calendarSyncAPI.getOrphanedMappings();
+  const mappings: { internal_event_id: string | number; external_event_id: string }[] =
+    response.data.mappings || [];
+
+  if (mappings.length === 0) {
+    return 0;
+  }
+
+  const results = await Promise.allSettled(
+    mappings.map(async mapping => {
+      await deleteCalendarEvent(mapping.external_event_id);
+      await removeEventMapping(String(mapping.internal_event_id));
+    })
+  );
+  const removed = results.filter(r => r.status === 'fulfilled').length;
+
+  logger.info(`[CalendarSync] Removed ${removed} of ${mappings.length} events of former, archived or deleted projects`);
+  return removed;
+}
@@ -4,7 +4,8 @@
  * Exports all calendar sync functions organized by operation type:
  * - Permissions: requestCalendarPermissions, checkCalendarPermissions
  * - Management: getDeviceCalendars, getDefaultCalendar
- * - Export: syncRehearsalToCalendar, unsyncRehearsal, syncAllRehearsals, removeAllExportedEvents
+ * - Export: syncRehearsalToCalendar, unsyncRehearsal, unsyncRehearsals, syncAllRehearsals, removeAllExportedEvents,
+ *   removeOrphanedExportedEvents
  * - Import: importCalendarEventsToAvailability, removeAllImportedSlots
  */
 
@@ -27,8 +28,10 @@ export {
   deleteCalendarEvent,
   syncRehearsalToCalendar,
   unsyncRehearsal,
+  unsyncRehearsals,
   syncAllRehearsals,
   removeAllExportedEvents,
+  removeOrphanedExportedEvents,
 } from './export';
 
 // Import Functions (Calendar → App)
@@ -0,0 +1,193 @@
+/**
+ * Local Reminders Module
+ * Schedules on-device reminders before the rehearsals the user hasn't declined,
+ * independent of push notifications and calendar export
+ */
+
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { translations } from '../../i18n/translations';
+import { LANGUAGE_STORAGE_KEY } from '../../contexts/I18nContext';
+import { isoToTimeString } from '../utils/time';
+import { logger } from '../utils/logger';
+import {
+  ReminderRehearsal,
+  planReminders,
+  isReminderIdentifier,
+  normalizeReminderOffsets,
+  DEFAULT_REMINDER_OFFSETS,
+} from '../utils/reminders';
+
+const SETTINGS_KEY = 'reminderSettings';
+// Rehearsals of the last refresh, so changed settings apply without reloading the calendar
+const REHEARSALS_KEY = 'reminderRehearsals';
+
+export interface ReminderSettings {
+  // Minutes before the rehearsal, largest first; empty when reminders are off
+  offsets: number[];
+}
+
+// Changes run one at a time so an older refresh can't undo a newer one
+let queue: Promise<void> = Promise.resolve();
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  queue = queue.then(task).catch(error => {
+    logger.warn('[Reminders] Failed to update reminders:', error);
+  });
+  return queue;
+}
+
+/**
+ * Get the reminder offsets chosen on this device
+ */
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  try {
+    const settingsJson = await AsyncStorage.getItem(SETTINGS_KEY);
+    if (!settingsJson) {
+      return { offsets: [...DEFAULT_REMINDER_OFFSETS] };
+    }
+    return { offsets: normalizeReminderOffsets(JSON.parse(settingsJson).offsets) };
+  } catch (error) {
+    logger.warn('[Reminders] Failed to read settings:', error);
+    return { offsets: [...DEFAULT_REMINDER_OFFSETS] };
+  }
+}
+
+/**
+ * Save the reminder offsets and reschedule the known rehearsals with them
+ */
+export async function saveReminderSettings(settings: ReminderSettings): Promise<void> {
+  const offsets = normalizeReminderOffsets(settings.offsets);
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify({ offsets }));
+  return enqueue(async () => {
+    await applyReminders(await getKnownRehearsals());
+  });
+}
+
+/**
+ * Schedule reminders for freshly loaded rehearsals and drop the ones no longer needed
+ * @param rehearsals - Upcoming rehearsals the user hasn't declined
+ * @param projectId - Project the list was loaded for; null when it covers all projects
+ */
+export function syncRehearsalReminders(rehearsals: ReminderRehearsal[], projectId: string | null): Promise<void> {
+  return enqueue(async () => {
+    const known = projectId === null
+      ? rehearsals
+      : [...(await getKnownRehearsals()).filter(r => r.projectId !== projectId), ...rehearsals];
+    await AsyncStorage.setItem(REHEARSALS_KEY, JSON.stringify(known));
+    await applyReminders(known);
+  });
+}
+
+/**
+ * Cancel the reminders of deleted rehearsals
+ */
+export function cancelRehearsalReminders(rehearsalIds: string[]): Promise<void> {
+  return enqueue(async () => {
+    const known = (await getKnownRehearsals()).filter(r => !rehearsalIds.includes(r.id));
+    await AsyncStorage.setItem(REHEARSALS_KEY, JSON.stringify(known));
+    await applyReminders(known);
+  });
+}
+
+/**
+ * Cancel every rehearsal reminder on this device (before signing out)
+ */
+export function cancelAllRehearsalReminders(): Promise<void> {
+  return enqueue(async () => {
+    await AsyncStorage.removeItem(REHEARSALS_KEY);
+    await applyReminders([]);
+  });
+}
+
+async function getKnownRehearsals(): Promise<ReminderRehearsal[]> {
+  const rehearsalsJson = await AsyncStorage.getItem(REHEARSALS_KEY);
+  return rehearsalsJson ? JSON.parse(rehearsalsJson) : [];
+}
+
+/**
+ * Make the scheduled reminders match the rehearsals and settings
+ * Reminders that are already scheduled with the same time and text are left alone.
+ */
+async function applyReminders(rehearsals: ReminderRehearsal[]): Promise<void> {
+  const { offsets } = await getReminderSettings();
+  const planned = planReminders(rehearsals, offsets);
+  const plannedIds = new Set(planned.map(reminder => reminder.identifier));
+
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync())
+    .filter(request => isReminderIdentifier(request.identifier));
+
+  // Declined, deleted and moved rehearsals, or offsets that were switched off
+  for (const request of scheduled) {
+    if (!plannedIds.has(request.identifier)) {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+
+  if (planned.length === 0) {
+    return;
+  }
+
+  const language = (await AsyncStorage.getItem(LANGUAGE_STORAGE_KEY)) === 'en' ? 'en' : 'ru';
+  const t = translations[language];
+
+  const changed = planned
+    .map(reminder => ({
+      reminder,
+      title: reminder.rehearsal.projectName || t.reminders.notificationTitle,
+      body: t.reminders.notificationBody(
+        t.reminders.offset(reminder.offsetMinutes),
+        isoToTimeString(reminder.rehearsal.startsAt),
+        reminder.rehearsal.location
+      ),
+    }))
+    .filter(({ reminder, title, body }) => {
+      const existing = scheduled.find(request => request.identifier === reminder.identifier);
+      return !existing
+        || existing.content.title !== title
+        || existing.content.body !== body
+        || existing.content.data?.fireAt !== reminder.fireAt.toISOString();
+    });
+
+  if (changed.length === 0 || !(await canNotify())) {
+    return;
+  }
+
+  for (const { reminder, title, body } of changed) {
+    // Scheduling under the same identifier replaces the old reminder
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.identifier,
+      content: {
+        title,
+        body,
+        data: {
+          type: 'rehearsal_reminder',
+          projectId: reminder.rehearsal.projectId,
+          rehearsalId: reminder.rehearsal.id,
+          fireAt: reminder.fireAt.toISOString(),
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+      },
+    });
+  }
+
+  logger.info(`[Reminders] Scheduled ${changed.length} reminder(s)`);
+}
+
+/**
+ * Local notifications need the same permission as pushes; ask once if it was never asked
+ */
+async function canNotify(): Promise<boolean> {
+  let { status, canAskAgain } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted' && canAskAgain) {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') {
+    logger.info('[Reminders] Permission not granted');
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,82 @@
+/**
+ * Push Notifications Module
+ * Registers this device's Expo push token with the server
+ */
+
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { notificationsAPI } from './api';
+import { logger } from '../utils/logger';
+
+const PUSH_TOKEN_KEY = 'pushToken';
+
+// Expo delivers to the "default" channel unless a message names another one
+const ANDROID_CHANNEL_ID = 'default';
+
+/**
+ * Show notifications while the app is open, too
+ */
+export function configurePushNotifications() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+/**
+ * Ask for permission and register this device for push notifications
+ * Returns the Expo push token, or null if permission was denied or the device can't receive pushes
+ */
+export async function registerForPushNotifications(): Promise<string | null> {
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Rehearsals',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      logger.info('[Push] Permission not granted');
+      return null;
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    await notificationsAPI.registerPushToken(token, Platform.OS);
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    logger.info('[Push] Registered device for push notifications');
+    return token;
+  } catch (error) {
+    // Simulators and builds without push credentials end up here
+    logger.warn('[Push] Failed to register for push notifications:', error);
+    return null;
+  }
+}
+
+/**
+ * Stop pushing to this device (before signing out)
+ */
+export async function unregisterPushNotifications(): Promise<void> {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) {
+      return;
+    }
+    await notificationsAPI.unregisterPushToken(token);
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+  } catch (error) {
+    logger.warn('[Push] Failed to unregister push token:', error);
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { Calendar } from 'expo-calendar';
+import { RehearsalScene } from './index';
 
 /**
  * Calendar event mapping (rehearsal → calendar event)
@@ -30,6 +31,16 @@ export interface CalendarSyncSettings {
   lastImportTime: string | null; // ISO timestamp
 }
 
+/**
+ * How exported rehearsals look in the device calendar
+ */
+export interface CalendarExportTemplate {
+  titleTemplate: string;
+  notesTemplate: string;
+  alarmOffsets: number[];            // Minutes before the start; empty for no alarms
+  previousTitleTemplates: string[];  // Earlier title templates, to recognise events exported with them
+}
+
 /**
  * Sync status
  */
@@ -52,6 +63,9 @@ export interface RehearsalWithProject {
   location?: string;
   title?: string;
   description?: string;
+  scenes?: RehearsalScene[];
+  participants?: string[];  // Names; loaded on export when a template needs them
+  seriesId?: string | null;
 }
 
 /**
@@ -1,5 +1,5 @@
-// RSVP system: 'yes' = accepted, 'no' = declined, null = no response yet
-export type RSVPStatus = 'yes' | 'no' | null;
+// RSVP system: 'yes' = accepted, 'no' = declined, 'maybe' = undecided (optional reason in notes), null = no response yet
+export type RSVPStatus = 'yes' | 'no' | 'maybe' | null;
 
 export interface UserResponse {
     status: RSVPStatus;
@@ -10,7 +10,9 @@ export interface UserResponse {
 export interface ResponseStats {
     total: number;
     confirmed: number; // Number of 'yes' responses
+    maybe: number;     // Number of undecided ('maybe') responses
     invited: number;   // Number of members without response
+    overdue: number;   // Invited members who haven't answered by the respond-by deadline
 }
 
 /**
@@ -18,6 +20,42 @@ export interface ResponseStats {
  */
 export type ISOTimestamp = string;
 
+/**
+ * Recurrence rule for a rehearsal series
+ * weekdays: 0 = Sunday ... 6 = Saturday (used by 'custom' frequency)
+ * Exactly one of `until` (YYYY-MM-DD, inclusive) or `count` ends the series
+ */
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'custom';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    weekdays?: number[];
+    until?: string;
+    count?: number;
+}
+
+// Which occurrences of a series an edit/delete applies to
+export type SeriesScope = 'occurrence' | 'following' | 'series';
+
+/**
+ * Scene of a project (scene/character breakdown)
+ * memberIds are user IDs of members appearing in the scene
+ */
+export interface Scene {
+    id: string;
+    projectId: string;
+    name: string;
+    description?: string | null;
+    position?: number;
+    memberIds: string[];
+}
+
+// Scene reference attached to a rehearsal
+export interface RehearsalScene {
+    id: string;
+    name: string;
+}
+
 export interface Rehearsal {
     id: string;
     // New TIMESTAMPTZ format (ISO 8601)
@@ -33,10 +71,15 @@ export interface Rehearsal {
     projectId?: string;
     projectName?: string;
     scene?: string;
+    scenes?: RehearsalScene[];
     actorNameSnapshot?: string[];
+    // Recurring series data
+    seriesId?: string | null;
+    isSeriesException?: boolean;
     createdAt?: string | Date;
     updatedAt?: string | Date;
     // RSVP data
+    respondBy?: ISOTimestamp | null; // Deadline to answer, null when not set
     myResponse?: UserResponse;
     responseStats?: ResponseStats;
 }
@@ -44,7 +87,7 @@ export interface Rehearsal {
 export interface ProjectMember {
     id: string;
     userId: string;
-    role: 'owner' | 'admin' | 'member';
+    role: ProjectRole;
     characterName?: string;
     status: 'active' | 'invited' | 'declined' | 'left';
     joinedAt?: string;
@@ -54,13 +97,166 @@ export interface ProjectMember {
     avatarUrl?: string;
 }
 
+// Attendance marked by admins once a rehearsal has started
+export type AttendanceStatus = 'present' | 'late' | 'absent';
+
+export interface AttendanceMark {
+    status: AttendanceStatus;
+    lateMinutes: number | null; // Only for 'late'
+    markedBy: string | null;
+    markedAt: ISOTimestamp | null;
+}
+
+export interface AttendanceSummary {
+    present: number;
+    late: number;
+    absent: number;
+    total: number;                 // Marked rehearsals
+    rate: number | null;           // Share attended (present or late), 0-1, null without marks
+    avgLateMinutes: number | null;
+}
+
+export interface RehearsalAttendanceParticipant {
+    userId: string;
+    firstName: string;
+    lastName?: string;
+    email?: string;
+    response: RSVPStatus;
+    attendance: AttendanceMark | null; // null = not marked yet
+}
+
+export interface MemberAttendanceRecord extends AttendanceMark {
+    rehearsalId: string;
+    startsAt: ISOTimestamp;
+    title?: string;
+    location?: string | null;
+}
+
+export interface MemberAttendance {
+    userId: string;
+    firstName: string;
+    lastName?: string;
+    characterName?: string | null;
+    summary: AttendanceSummary;
+    recent: MemberAttendanceRecord[]; // Most recent first
+}
+
+// Project attendance and workload report for a date range (rates are 0-1, null without data)
+export interface ReportMemberRow {
+    userId: string;
+    firstName: string;
+    lastName: string | null;
+    characterName: string | null;
+    rehearsals: number;      // Rehearsals invited to
+    scheduledHours: number;
+    rsvp: {
+        yes: number;
+        maybe: number;
+        noResponse: number;
+        yesRate: number | null;
+        maybeRate: number | null;
+        noResponseRate: number | null;
+    };
+    attendance: AttendanceSummary & { attendedHours: number | null };
+}
+
+export interface ProjectReport {
+    from: ISOTimestamp;
+    to: ISOTimestamp;
+    totals: {
+        rehearsals: number;
+        hours: number;
+        invitations: number;
+        yesRate: number | null;
+        maybeRate: number | null;
+        noResponseRate: number | null;
+        attendance: AttendanceSummary;
+    };
+    members: ReportMemberRow[];
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface DayWorkingHours {
+    start: string; // HH:mm
+    end: string; // HH:mm
+}
+
+// Rehearsal window per weekday: null = no rehearsals that day, missing = default 09:00-23:00
+export type WorkingHours = Partial<Record<Weekday, DayWorkingHours | null>>;
+
+// Member roles; 'member' is the default role of invite links and can only view and RSVP, like 'actor'
+export type ProjectRole = 'owner' | 'admin' | 'director' | 'stage_manager' | 'actor' | 'member';
+
+// Permissions granted by a role (matrix in server/utils/permissions.js)
+export type ProjectPermission =
+    | 'schedule_rehearsals'
+    | 'track_attendance'
+    | 'view_reports'
+    | 'manage_project'
+    | 'manage_members';
+
+// Why an invite link can or can no longer be used
+export type InviteStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+// One of the project's invite links (admins only)
+export interface ProjectInvite {
+    id: string;
+    code: string;
+    label: string | null;
+    role: ProjectRole;          // Role given on joining
+    maxUses: number | null;     // null = unlimited
+    useCount: number;           // Members joined through the link
+    expiresAt: ISOTimestamp | null; // null = never expires
+    requiresApproval: boolean;  // Joining creates a join request for admins to approve
+    createdAt: ISOTimestamp;
+    status: InviteStatus;
+    inviteUrl: string;
+}
+
+// A device the user is signed in on
+export interface UserSession {
+    id: string;
+    deviceName: string | null;
+    createdAt: ISOTimestamp;
+    lastUsedAt: ISOTimestamp;
+    current: boolean;           // The session making the request
+}
+
+// Entry of the notification inbox (same text as the push that was sent with it)
+export interface InboxNotification {
+    id: string;
+    type: string;
+    title: string;              // Project name
+    body: string;
+    data: Record<string, unknown>;  // { type, projectId, rehearsalId? }, see getNotificationTarget()
+    readAt: ISOTimestamp | null;
+    createdAt: ISOTimestamp;
+}
+
+// Someone who joined through an approval link and waits for an admin (member status 'invited')
+export interface JoinRequest {
+    userId: string;
+    role: ProjectRole;          // Role given on approval
+    requestedAt: ISOTimestamp;
+    inviteLabel: string | null;
+    firstName: string;
+    lastName?: string;
+    email?: string;
+    avatarUrl?: string;
+}
+
 export interface Project {
     id: string;
     chat_id: string;
     name: string;
     description?: string;
     timezone?: string;
+    workingHours?: WorkingHours | null;
     is_admin?: boolean;
+    role?: ProjectRole;
+    permissions?: ProjectPermission[];
+    archivedAt?: string | null;  // Archived projects are read-only and hidden from the calendar
     createdAt?: string | Date;
     updatedAt?: string | Date;
     created_at?: string;
@@ -0,0 +1,11 @@
+// rehearsalapp://reset-password/<token> or https://<host>/reset-password/<token>, optionally with a trailing slash, query or hash
+const RESET_PASSWORD_URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/(?:[^/?#]*\/)*?reset-password\/([a-f0-9]+)\/?(?:[?#].*)?$/i;
+
+/**
+ * Extract the token from a password reset link
+ * @returns Token from the link, or null if the URL is not a reset link
+ */
+export function parseResetPasswordToken(url: string | null | undefined): string | null {
+  const match = (url ?? '').trim().match(RESET_PASSWORD_URL_PATTERN);
+  return match ? match[1] : null;
+}
@@ -1,4 +1,5 @@
-import { timeToMinutes, minutesToTime } from './time';
+import { timeToMinutes, minutesToTime, parseDateString } from './time';
+import type { DayWorkingHours, Weekday, WorkingHours } from '../types';
 
 export interface TimeRange {
   start: string;
@@ -6,11 +7,25 @@ export interface TimeRange {
   type?: 'available' | 'busy' | 'tentative';
   title?: string;
   notes?: string;
+  // Whole block as ISO timestamps; start/end are clipped to the day for overnight and multi-day blocks
+  startsAt?: string;
+  endsAt?: string;
+  isAllDay?: boolean;
+  source?: string;
+  rehearsalId?: string; // Set when the block is a booked rehearsal, in any project
 }
 
+// Default rehearsal window for projects without configured working hours
 export const WORKDAY_START = '09:00';
 export const WORKDAY_END = '23:00';
 
+export const DEFAULT_WORKDAY: DayWorkingHours = { start: WORKDAY_START, end: WORKDAY_END };
+
+// Indexed by Date.getDay()
+const WEEKDAYS_BY_INDEX: Weekday[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+];
+
 const DAY_END = 23 * 60 + 59;
 
 // Re-export for backward compatibility
@@ -25,9 +40,27 @@ const maxTime = (a: string, b: string): string =>
 
 const timeLt = (a: string, b: string): boolean => toMinutes(a) < toMinutes(b);
 
-export function clampToWorkday(range: { start: string; end: string }) {
-  const start = maxTime(range.start, WORKDAY_START);
-  const end = minTime(range.end, WORKDAY_END);
+/**
+ * Rehearsal window of a project for the given date (YYYY-MM-DD)
+ * Returns null when the project has no rehearsals on that weekday
+ */
+export function getWorkdayHours(
+  workingHours: WorkingHours | null | undefined,
+  date: string
+): DayWorkingHours | null {
+  if (!workingHours) return DEFAULT_WORKDAY;
+  const weekday = WEEKDAYS_BY_INDEX[parseDateString(date).getDay()];
+  const hours = workingHours[weekday];
+  if (hours === undefined) return DEFAULT_WORKDAY;
+  return hours;
+}
+
+export function clampToWorkday(
+  range: { start: string; end: string },
+  workday: DayWorkingHours = DEFAULT_WORKDAY
+) {
+  const start = maxTime(range.start, workday.start);
+  const end = minTime(range.end, workday.end);
   return timeLt(start, end) ? { start, end } : null;
 }
 
@@ -50,13 +83,16 @@ export const mergeBusyRanges = (ranges: TimeRange[]): TimeRange[] => {
   return merged.map(r => ({ start: toTimeString(r.start), end: toTimeString(r.end) }));
 };
 
-export const busyToFreeGaps = (ranges: TimeRange[]): TimeRange[] => {
+export const busyToFreeGaps = (
+  ranges: TimeRange[],
+  workday: DayWorkingHours = DEFAULT_WORKDAY
+): TimeRange[] => {
   const merged = mergeBusyRanges(ranges)
-    .map(clampToWorkday)
+    .map(r => clampToWorkday(r, workday))
     .filter((r): r is TimeRange => Boolean(r));
-  if (merged.length === 0) return [{ start: WORKDAY_START, end: WORKDAY_END }];
+  if (merged.length === 0) return [{ start: workday.start, end: workday.end }];
   const result: TimeRange[] = [];
-  let prevEnd = toMinutes(WORKDAY_START);
+  let prevEnd = toMinutes(workday.start);
   merged.forEach(r => {
     const start = toMinutes(r.start);
     if (start > prevEnd) {
@@ -64,7 +100,7 @@ export const busyToFreeGaps = (ranges: TimeRange[]): TimeRange[] => {
     }
     prevEnd = Math.max(prevEnd, toMinutes(r.end));
   });
-  const workdayEnd = toMinutes(WORKDAY_END);
+  const workdayEnd = toMinutes(workday.end);
   if (prevEnd < workdayEnd) {
     result.push({ start: toTimeString(prevEnd), end: toTimeString(workdayEnd) });
   }
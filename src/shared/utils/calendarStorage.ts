@@ -4,13 +4,15 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { EventMapping, CalendarSyncSettings, ImportedEventMap } from '../types/calendar';
+import { EventMapping, CalendarSyncSettings, ImportedEventMap, CalendarExportTemplate } from '../types/calendar';
+import { DEFAULT_EXPORT_TEMPLATE, MAX_PREVIOUS_TITLE_TEMPLATES, normalizeAlarmOffsets } from './eventTemplate';
 
 // Storage keys
 const KEYS = {
   EXPORT_MAPPINGS: 'calendar-export-mappings',
   IMPORT_TRACKING: 'calendar-import-tracking',
   SYNC_SETTINGS: 'calendar-sync-settings',
+  EXPORT_TEMPLATE: 'calendar-export-template',
 };
 
 /**
@@ -188,6 +190,64 @@ export async function updateLastExportTime(): Promise<void> {
   }
 }
 
+/**
+ * ============================================================================
+ * Export Template (title, notes and alarms of exported events)
+ * ============================================================================
+ */
+
+/**
+ * Get the export template
+ */
+export async function getExportTemplate(): Promise<CalendarExportTemplate> {
+  try {
+    const templateJson = await AsyncStorage.getItem(KEYS.EXPORT_TEMPLATE);
+    if (!templateJson) {
+      return { ...DEFAULT_EXPORT_TEMPLATE };
+    }
+
+    const template = JSON.parse(templateJson);
+    return {
+      titleTemplate: template.titleTemplate || DEFAULT_EXPORT_TEMPLATE.titleTemplate,
+      notesTemplate: template.notesTemplate ?? DEFAULT_EXPORT_TEMPLATE.notesTemplate,
+      alarmOffsets: normalizeAlarmOffsets(template.alarmOffsets),
+      previousTitleTemplates: template.previousTitleTemplates || [],
+    };
+  } catch (error) {
+    console.error('[CalendarStorage] Failed to get export template:', error);
+    return { ...DEFAULT_EXPORT_TEMPLATE };
+  }
+}
+
+/**
+ * Save the export template
+ * A replaced title template is remembered so events exported with it are still found as duplicates
+ */
+export async function saveExportTemplate(
+  template: Omit<CalendarExportTemplate, 'previousTitleTemplates'>
+): Promise<void> {
+  try {
+    const current = await getExportTemplate();
+    const titleTemplate = template.titleTemplate.trim() || DEFAULT_EXPORT_TEMPLATE.titleTemplate;
+
+    const previousTitleTemplates = titleTemplate === current.titleTemplate
+      ? current.previousTitleTemplates
+      : [current.titleTemplate, ...current.previousTitleTemplates]
+          .filter((t, i, all) => t !== titleTemplate && all.indexOf(t) === i)
+          .slice(0, MAX_PREVIOUS_TITLE_TEMPLATES);
+
+    await AsyncStorage.setItem(KEYS.EXPORT_TEMPLATE, JSON.stringify({
+      titleTemplate,
+      notesTemplate: template.notesTemplate,
+      alarmOffsets: normalizeAlarmOffsets(template.alarmOffsets),
+      previousTitleTemplates,
+    }));
+  } catch (error) {
+    console.error('[CalendarStorage] Failed to save export template:', error);
+    throw error;
+  }
+}
+
 /**
  * Check if rehearsal is synced
  */
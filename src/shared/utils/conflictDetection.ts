@@ -1,49 +1,132 @@
 import { TimeRange } from './availability';
 import { ProjectMember } from '../types';
-import { timeToMinutes } from './time';
+import { dateTimeToISO, isoToDateString, isoToTimeString, timeToMinutes } from './time';
+import type { Translations } from '../../i18n/translations';
+
+/**
+ * How serious a conflict is, from mildest to most severe:
+ * - tentative: the member marked the time as "maybe busy"
+ * - busy: the member is busy (personal block or imported calendar event)
+ * - rehearsal: the member is already booked for another rehearsal, in any project
+ */
+export type ConflictSeverity = 'tentative' | 'busy' | 'rehearsal';
+
+const SEVERITY_RANK: Record<ConflictSeverity, number> = {
+  tentative: 1,
+  busy: 2,
+  rehearsal: 3,
+};
+
+export interface SlotConflict {
+  slot: TimeRange;
+  severity: ConflictSeverity;
+  // Whole busy block (may span several days)
+  startsAt: string;
+  endsAt: string;
+  // Part of the block that overlaps the rehearsal
+  overlapStartsAt: string;
+  overlapEndsAt: string;
+}
+
+export interface MemberConflict {
+  member: ProjectMember;
+  severity: ConflictSeverity; // Most severe of the member's conflicts
+  conflictingSlots: SlotConflict[];
+}
 
 export interface ConflictInfo {
   hasConflicts: boolean;
-  busyMembers: Array<{
-    member: ProjectMember;
-    conflictingSlots: TimeRange[];
-  }>;
+  severity: ConflictSeverity | null; // Most severe conflict overall
+  busyMembers: MemberConflict[];
+}
+
+export interface ConflictCheckOptions {
+  // Rehearsal being edited: its own booked slots are not conflicts
+  excludeRehearsalId?: string;
+}
+
+/**
+ * Classify an availability block, or null if it doesn't block scheduling
+ */
+export function getConflictSeverity(slot: TimeRange): ConflictSeverity | null {
+  if (slot.rehearsalId || slot.source === 'rehearsal') {
+    return 'rehearsal';
+  }
+  if (slot.type === 'busy') {
+    return 'busy';
+  }
+  if (slot.type === 'tentative') {
+    return 'tentative';
+  }
+  return null;
+}
+
+/**
+ * Pick the more severe of two severities
+ */
+export function maxSeverity(a: ConflictSeverity | null, b: ConflictSeverity): ConflictSeverity {
+  return a && SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+}
+
+/**
+ * Resolve a block to [start, end] in milliseconds
+ * Uses the ISO timestamps when present; older HH:mm-only ranges are placed
+ * on the given local date, ending on the next day when they wrap past midnight
+ */
+function getSlotBounds(slot: TimeRange, fallbackDate: string): { start: number; end: number } | null {
+  if (slot.startsAt && slot.endsAt) {
+    const start = Date.parse(slot.startsAt);
+    const end = Date.parse(slot.endsAt);
+    return isNaN(start) || isNaN(end) ? null : { start, end };
+  }
+
+  if (!slot.start || !slot.end) {
+    return null;
+  }
+
+  const start = Date.parse(dateTimeToISO(fallbackDate, slot.start));
+  let end = Date.parse(dateTimeToISO(fallbackDate, slot.end));
+  if (timeToMinutes(slot.end) <= timeToMinutes(slot.start)) {
+    end += 24 * 60 * 60 * 1000;
+  }
+  return { start, end };
 }
 
 /**
- * Check if two time ranges overlap
+ * Identity of a block; the same block is listed under every date it touches
  */
-function timeRangesOverlap(
-  range1Start: string,
-  range1End: string,
-  range2Start: string,
-  range2End: string
-): boolean {
-  const start1 = timeToMinutes(range1Start);
-  const end1 = timeToMinutes(range1End);
-  const start2 = timeToMinutes(range2Start);
-  const end2 = timeToMinutes(range2End);
-
-  // Ranges overlap if one starts before the other ends
-  return start1 < end2 && end1 > start2;
+function slotKey(slot: TimeRange): string {
+  return slot.startsAt && slot.endsAt
+    ? `${slot.startsAt}|${slot.endsAt}|${slot.type}|${slot.rehearsalId ?? ''}`
+    : `${slot.start}|${slot.end}|${slot.type}|${slot.rehearsalId ?? ''}`;
 }
 
 /**
  * Check for scheduling conflicts with busy participants
  *
+ * Compares absolute timestamps, so overnight and multi-day blocks and rehearsals are handled,
+ * and so are blocks recorded in the member's own timezone. Availability is per user, so
+ * rehearsals booked in every project the member belongs to are taken into account.
+ *
  * @param selectedMembers - Members selected for the rehearsal
- * @param memberAvailability - Availability data for each member (busy/available slots)
- * @param rehearsalStart - Rehearsal start time (HH:MM)
- * @param rehearsalEnd - Rehearsal end time (HH:MM)
- * @returns Conflict information including which members are busy
+ * @param memberAvailability - Availability blocks for each member
+ * @param rehearsalStartsAt - Rehearsal start (ISO 8601)
+ * @param rehearsalEndsAt - Rehearsal end (ISO 8601)
+ * @param options - Rehearsal to ignore when editing
+ * @returns Conflict information including which members are busy and how severely
  */
 export function checkSchedulingConflicts(
   selectedMembers: ProjectMember[],
   memberAvailability: Record<string, { timeRanges: TimeRange[] }>,
-  rehearsalStart: string,
-  rehearsalEnd: string
+  rehearsalStartsAt: string,
+  rehearsalEndsAt: string,
+  options: ConflictCheckOptions = {}
 ): ConflictInfo {
-  const busyMembers: ConflictInfo['busyMembers'] = [];
+  const busyMembers: MemberConflict[] = [];
+  const rehearsalStart = Date.parse(rehearsalStartsAt);
+  const rehearsalEnd = Date.parse(rehearsalEndsAt);
+  const fallbackDate = isoToDateString(rehearsalStartsAt);
+  let overallSeverity: ConflictSeverity | null = null;
 
   for (const member of selectedMembers) {
     const availability = memberAvailability[member.userId];
@@ -51,49 +134,99 @@ export function checkSchedulingConflicts(
       continue;
     }
 
-    // Find conflicting busy slots
-    const conflictingSlots = availability.timeRanges.filter(slot => {
-      // Only check 'busy' slots (ignore 'available' or 'tentative')
-      if (slot.type !== 'busy') {
-        return false;
-      }
+    const seen = new Set<string>();
+    const conflictingSlots: SlotConflict[] = [];
+    let memberSeverity: ConflictSeverity | null = null;
+
+    for (const slot of availability.timeRanges) {
+      const severity = getConflictSeverity(slot);
+      if (!severity) continue;
+      if (options.excludeRehearsalId && slot.rehearsalId === options.excludeRehearsalId) continue;
+
+      const key = slotKey(slot);
+      if (seen.has(key)) continue;
+      seen.add(key);
 
-      return timeRangesOverlap(rehearsalStart, rehearsalEnd, slot.start, slot.end);
-    });
+      const bounds = getSlotBounds(slot, fallbackDate);
+      // Ranges overlap if one starts before the other ends
+      if (!bounds || !(bounds.start < rehearsalEnd && bounds.end > rehearsalStart)) continue;
+
+      conflictingSlots.push({
+        slot,
+        severity,
+        startsAt: new Date(bounds.start).toISOString(),
+        endsAt: new Date(bounds.end).toISOString(),
+        overlapStartsAt: new Date(Math.max(bounds.start, rehearsalStart)).toISOString(),
+        overlapEndsAt: new Date(Math.min(bounds.end, rehearsalEnd)).toISOString(),
+      });
+      memberSeverity = maxSeverity(memberSeverity, severity);
+    }
 
-    if (conflictingSlots.length > 0) {
+    if (memberSeverity && conflictingSlots.length > 0) {
+      conflictingSlots.sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
       busyMembers.push({
         member,
+        severity: memberSeverity,
         conflictingSlots,
       });
+      overallSeverity = maxSeverity(overallSeverity, memberSeverity);
     }
   }
 
   return {
     hasConflicts: busyMembers.length > 0,
+    severity: overallSeverity,
     busyMembers,
   };
 }
 
+const SEVERITY_LABEL_KEYS = {
+  tentative: 'conflictTentative',
+  busy: 'conflictBusy',
+  rehearsal: 'conflictRehearsal',
+} as const;
+
+/**
+ * Local time of a timestamp, with its date when it falls on another day than the rehearsal
+ */
+function formatConflictTime(iso: string, rehearsalDate: string, t: Translations): string {
+  const date = isoToDateString(iso);
+  const time = isoToTimeString(iso);
+  return date === rehearsalDate ? time : t.rehearsals.conflictDateTime(date, time);
+}
+
+/**
+ * One busy block: kind, title, time range and how much of the rehearsal it takes
+ * e.g. "Busy «Work», 17:00–19:00 (overlaps by 1 hour)"
+ */
+function formatSlotConflict(conflict: SlotConflict, t: Translations): string {
+  const rehearsalDate = isoToDateString(conflict.overlapStartsAt);
+  const kind = t.rehearsals[SEVERITY_LABEL_KEYS[conflict.severity]];
+  // Booked rehearsals are all titled "Rehearsal", the kind already says it
+  const title = conflict.severity !== 'rehearsal' && conflict.slot.title ? ` «${conflict.slot.title}»` : '';
+  const range = conflict.slot.isAllDay
+    ? t.rehearsals.conflictAllDay
+    : `${formatConflictTime(conflict.startsAt, rehearsalDate, t)}–${formatConflictTime(conflict.endsAt, rehearsalDate, t)}`;
+  const overlapMinutes = Math.round(
+    (Date.parse(conflict.overlapEndsAt) - Date.parse(conflict.overlapStartsAt)) / 60000
+  );
+
+  return `${kind}${title}, ${range} (${t.rehearsals.conflictOverlap(overlapMinutes)})`;
+}
+
 /**
- * Format conflict information into a user-friendly message
+ * Format conflict information into a user-friendly message, one line per member
  */
-export function formatConflictMessage(conflictInfo: ConflictInfo): string {
+export function formatConflictMessage(conflictInfo: ConflictInfo, t: Translations): string {
   if (!conflictInfo.hasConflicts) {
     return '';
   }
 
-  const memberNames = conflictInfo.busyMembers
-    .map(({ member }) => {
-      const firstName = member.firstName || 'Участник';
-      const lastName = member.lastName || '';
-      return `${firstName} ${lastName}`.trim();
-    })
-    .join(', ');
-
-  if (conflictInfo.busyMembers.length === 1) {
-    return `${memberNames} занят(а) в это время`;
-  }
+  const memberLines = conflictInfo.busyMembers.map(({ member, conflictingSlots }) => {
+    const name = `${member.firstName || t.rehearsals.unnamedMember} ${member.lastName || ''}`.trim();
+    const details = conflictingSlots.map(conflict => formatSlotConflict(conflict, t)).join('; ');
+    return `• ${name}: ${details}`;
+  });
 
-  return `${memberNames} заняты в это время`;
+  return [t.rehearsals.conflictMembers(conflictInfo.busyMembers.length), ...memberLines].join('\n');
 }
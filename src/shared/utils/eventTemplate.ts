@@ -0,0 +1,112 @@
+/**
+ * Templates for the title and notes of exported calendar events
+ * Placeholders are written in braces, e.g. "Rehearsal: {project}"
+ */
+
+import { RehearsalWithProject, CalendarExportTemplate } from '../types/calendar';
+
+export const TEMPLATE_PLACEHOLDERS = ['project', 'title', 'scene', 'location', 'participants', 'description', 'series'] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+/**
+ * The title every export used before templates; duplicates are still looked up with it
+ */
+export const LEGACY_TITLE_TEMPLATE = 'Rehearsal: {project}';
+
+export const DEFAULT_EXPORT_TEMPLATE: CalendarExportTemplate = {
+  titleTemplate: LEGACY_TITLE_TEMPLATE,
+  notesTemplate: 'Project: {project}\n{title}\n{description}\nScenes: {scene}\n{series}\n\nCreated via Rehearsal Calendar app',
+  alarmOffsets: [30],
+  previousTitleTemplates: [],
+};
+
+/**
+ * Alarm presets offered for exported events, in minutes before the rehearsal starts
+ */
+export const ALARM_OFFSET_OPTIONS = [5, 15, 30, 60, 120, 1440];
+
+// Enough to recognise events exported under the last few title templates
+export const MAX_PREVIOUS_TITLE_TEMPLATES = 10;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const isPlaceholder = (name: string): name is TemplatePlaceholder =>
+  (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+
+/**
+ * Values of the placeholders for a rehearsal
+ * @param seriesLabel - Text of {series} for occurrences of a series, in the app language
+ */
+export function getTemplateValues(rehearsal: RehearsalWithProject, seriesLabel = ''): TemplateValues {
+  return {
+    project: rehearsal.projectName || '',
+    title: rehearsal.title || '',
+    scene: (rehearsal.scenes || []).map(scene => scene.name).join(', '),
+    location: rehearsal.location || '',
+    participants: (rehearsal.participants || []).join(', '),
+    description: rehearsal.description || '',
+    series: rehearsal.seriesId ? seriesLabel : '',
+  };
+}
+
+/**
+ * Fill in a template
+ * Unknown placeholders are kept as typed. A line whose placeholders are all empty is left out,
+ * so "Scenes: {scene}" disappears for rehearsals without scenes.
+ */
+export function renderEventTemplate(template: string, values: TemplateValues): string {
+  return template
+    .split('\n')
+    .flatMap(line => {
+      let placeholders = 0;
+      let filled = 0;
+      const rendered = line.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        if (!isPlaceholder(name)) {
+          return match;
+        }
+        placeholders++;
+        if (values[name]) {
+          filled++;
+        }
+        return values[name];
+      });
+      return placeholders > 0 && filled === 0 ? [] : [rendered];
+    })
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Event title from a title template, falling back to the legacy title when it comes out empty
+ */
+export function renderEventTitle(template: string, values: TemplateValues): string {
+  return renderEventTemplate(template, values) || renderEventTemplate(LEGACY_TITLE_TEMPLATE, values);
+}
+
+/**
+ * Whether any of the templates uses a placeholder
+ */
+export function usesPlaceholder(templates: string[], placeholder: TemplatePlaceholder): boolean {
+  return templates.some(template => template.includes(`{${placeholder}}`));
+}
+
+/**
+ * Titles an already exported event of the rehearsal may have: under the current, earlier and legacy templates
+ */
+export function getKnownEventTitles(template: CalendarExportTemplate, values: TemplateValues): string[] {
+  const templates = [template.titleTemplate, ...template.previousTitleTemplates, LEGACY_TITLE_TEMPLATE];
+  return [...new Set(templates.map(t => renderEventTitle(t, values)))];
+}
+
+/**
+ * Keep the known alarm presets only, soonest to the start first
+ */
+export function normalizeAlarmOffsets(offsets: unknown): number[] {
+  if (!Array.isArray(offsets)) {
+    return [...DEFAULT_EXPORT_TEMPLATE.alarmOffsets];
+  }
+  return ALARM_OFFSET_OPTIONS.filter(option => offsets.includes(option));
+}
@@ -0,0 +1,21 @@
+// Codes are hex strings (crypto.randomBytes on the server)
+const CODE_PATTERN = /^[a-f0-9]+$/i;
+// rehearsalapp://invite/<code> or https://<host>/invite/<code>, optionally with a trailing slash, query or hash
+const INVITE_URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/(?:[^/?#]*\/)*?invite\/([a-f0-9]+)\/?(?:[?#].*)?$/i;
+
+/**
+ * Extract an invite code from what the user scanned or pasted
+ * Accepts a bare code as well as app and web invite links.
+ * @returns Lowercase invite code, or null if the input is not an invite
+ */
+export function parseInviteCode(input: string | null | undefined): string | null {
+  const value = (input ?? '').trim();
+  if (!value) {
+    return null;
+  }
+  if (CODE_PATTERN.test(value)) {
+    return value.toLowerCase();
+  }
+  const match = value.match(INVITE_URL_PATTERN);
+  return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Where a tapped push notification or inbox entry leads
+ * The server sends { type, projectId, rehearsalId? } as the notification data; local reminders carry the same
+ */
+
+export type NotificationType =
+  | 'rehearsal_created'
+  | 'rehearsal_updated'
+  | 'rehearsal_cancelled'
+  | 'rsvp_received'
+  | 'rsvp_reminder'
+  | 'join_request'
+  | 'role_changed'
+  | 'rehearsal_reminder';
+
+export interface NotificationTarget {
+  type: NotificationType;
+  projectId: string;
+  // Missing for cancelled rehearsals (there is nothing left to open) and for project events
+  rehearsalId: string | null;
+}
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'rehearsal_created',
+  'rehearsal_updated',
+  'rehearsal_cancelled',
+  'rsvp_received',
+  'rsvp_reminder',
+  'join_request',
+  'role_changed',
+  'rehearsal_reminder',
+];
+
+// Events about the project itself rather than a rehearsal
+const PROJECT_NOTIFICATION_TYPES: NotificationType[] = ['join_request', 'role_changed'];
+
+/**
+ * Read the target of a notification from its data
+ * @returns null for notifications the app doesn't know
+ */
+export const getNotificationTarget = (data: unknown): NotificationTarget | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const { type, projectId, rehearsalId } = data as Record<string, unknown>;
+  if (!NOTIFICATION_TYPES.includes(type as NotificationType) || projectId === undefined || projectId === null) {
+    return null;
+  }
+
+  return {
+    type: type as NotificationType,
+    projectId: String(projectId),
+    rehearsalId: rehearsalId !== undefined && rehearsalId !== null ? String(rehearsalId) : null,
+  };
+};
+
+/**
+ * Screen of the main tabs a notification opens, as params for navigate('MainTabs', ...)
+ * Join requests and role changes open their project; everything else opens the calendar,
+ * with the rehearsal's details when there is one.
+ */
+export const getNotificationRoute = (target: NotificationTarget) => {
+  if (PROJECT_NOTIFICATION_TYPES.includes(target.type)) {
+    return {
+      screen: 'Projects',
+      // Keep the project list underneath so back works
+      params: { screen: 'ProjectDetail', params: { projectId: target.projectId }, initial: false },
+    };
+  }
+
+  return {
+    screen: 'Calendar',
+    params: {
+      screen: 'CalendarMain',
+      params: target.rehearsalId ? { rehearsalId: target.rehearsalId } : undefined,
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { Project, ProjectPermission } from '../types';
+
+/**
+ * Whether the current user may do something in a project.
+ * Projects cached before roles existed have no permission list, so owners/admins keep full rights.
+ */
+export function hasProjectPermission(
+  project: Pick<Project, 'is_admin' | 'permissions'> | null | undefined,
+  permission: ProjectPermission
+): boolean {
+  if (!project) {
+    return false;
+  }
+  if (project.permissions) {
+    return project.permissions.includes(permission);
+  }
+  return Boolean(project.is_admin);
+}
+
+/**
+ * Projects where the current user can create and edit rehearsals
+ */
+export function canScheduleIn(project: Pick<Project, 'is_admin' | 'permissions'> | null | undefined): boolean {
+  return hasProjectPermission(project, 'schedule_rehearsals');
+}
+
+/**
+ * Whether the current user can open a project's settings.
+ * Archived projects carry read-only permissions, but their owners and admins can still restore or delete them.
+ */
+export function canEditProjectSettings(
+  project: Pick<Project, 'is_admin' | 'permissions' | 'archivedAt'> | null | undefined
+): boolean {
+  if (project?.archivedAt) {
+    return Boolean(project.is_admin);
+  }
+  return hasProjectPermission(project, 'manage_project');
+}
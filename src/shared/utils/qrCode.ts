@@ -0,0 +1,445 @@
+/**
+ * QR code encoder (ISO/IEC 18004) for invite links
+ * Byte mode with error correction level M, versions 1–10:
+ * enough for any invite URL (up to 213 bytes) without pulling in a library.
+ */
+
+// Per version 1–10 at level M
+const ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+export const MAX_QR_VERSION = 10;
+
+// Level M in the format information
+const ECC_FORMAT_BITS = 0;
+
+const BYTE_MODE = 0x4;
+
+// Penalty weights used to pick the mask
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+/**
+ * Encode text as a QR code
+ * @param text - Text to encode, stored as UTF-8
+ * @param mask - Force a mask pattern (0–7) instead of picking the one with the lowest penalty
+ * @returns Square matrix of modules, `modules[y][x]` is true for dark; no quiet zone
+ */
+export function encodeQrCode(text: string, mask?: number): boolean[][] {
+  const bytes = toUtf8(text);
+  const version = pickVersion(bytes.length);
+  const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+
+  const size = version * 4 + 17;
+  const modules = createMatrix(size);
+  const isFunction = createMatrix(size);
+
+  drawFunctionPatterns(modules, isFunction, version);
+  drawCodewords(modules, isFunction, codewords);
+
+  let chosenMask = mask;
+  if (chosenMask === undefined) {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      applyMask(modules, isFunction, candidate);
+      drawFormatBits(modules, isFunction, candidate);
+      const penalty = getPenaltyScore(modules);
+      if (penalty < minPenalty) {
+        chosenMask = candidate;
+        minPenalty = penalty;
+      }
+      // Masking is its own inverse
+      applyMask(modules, isFunction, candidate);
+    }
+  }
+
+  if (chosenMask === undefined || !Number.isInteger(chosenMask) || chosenMask < 0 || chosenMask > 7) {
+    throw new Error('QR mask must be between 0 and 7');
+  }
+
+  applyMask(modules, isFunction, chosenMask);
+  drawFormatBits(modules, isFunction, chosenMask);
+  return modules;
+}
+
+function toUtf8(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+function createMatrix(size: number): boolean[][] {
+  return Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+// Modules left for data and error correction once function patterns are drawn
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number): number {
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[version - 1] * NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+}
+
+function getCharCountBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+function pickVersion(byteLength: number): number {
+  for (let version = 1; version <= MAX_QR_VERSION; version++) {
+    const dataBits = 4 + getCharCountBits(version) + byteLength * 8;
+    if (dataBits <= getNumDataCodewords(version) * 8) {
+      return version;
+    }
+  }
+  throw new Error('Text is too long for a QR code');
+}
+
+function encodeData(bytes: number[], version: number): number[] {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  appendBits(BYTE_MODE, 4);
+  appendBits(bytes.length, getCharCountBits(version));
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  // Terminator, then pad to a whole byte and fill with alternating pad bytes
+  const capacityBits = getNumDataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    let byte = 0;
+    for (let j = 0; j < 8; j++) {
+      byte = (byte << 1) | bits[i + j];
+    }
+    codewords.push(byte);
+  }
+  return codewords;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Split data into blocks, add error correction to each and interleave them
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    offset += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    if (i < numShortBlocks) {
+      // Placeholder so every block has the same length; skipped when interleaving
+      blockData.push(0);
+    }
+    blocks.push(blockData.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+function drawFunctionPatterns(modules: boolean[][], isFunction: boolean[][], version: number): void {
+  const size = modules.length;
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([centerX, centerY]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((centerX, i) => {
+    positions.forEach((centerY, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas; the real bits are drawn once the mask is known
+  drawFormatBits(modules, isFunction, 0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+}
+
+function drawFormatBits(modules: boolean[][], isFunction: boolean[][], mask: number): void {
+  const size = modules.length;
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  const data = (ECC_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  // Copy next to the top left finder
+  for (let i = 0; i <= 5; i++) {
+    setFunction(8, i, getBit(bits, i));
+  }
+  setFunction(8, 7, getBit(bits, 6));
+  setFunction(8, 8, getBit(bits, 7));
+  setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) {
+    setFunction(14 - i, 8, getBit(bits, i));
+  }
+
+  // Copy split between the other two finders
+  for (let i = 0; i < 8; i++) {
+    setFunction(size - 1 - i, 8, getBit(bits, i));
+  }
+  for (let i = 8; i < 15; i++) {
+    setFunction(8, size - 15 + i, getBit(bits, i));
+  }
+  // Dark module
+  setFunction(8, size - 8, true);
+}
+
+// Place codewords in the zigzag order, two columns at a time from the bottom right
+function drawCodewords(modules: boolean[][], isFunction: boolean[][], codewords: number[]): void {
+  const size = modules.length;
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      // Skip the vertical timing pattern
+      right = 5;
+    }
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(modules: boolean[][], isFunction: boolean[][], mask: number): void {
+  const size = modules.length;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let invert: boolean;
+      switch (mask) {
+        case 0: invert = (x + y) % 2 === 0; break;
+        case 1: invert = y % 2 === 0; break;
+        case 2: invert = x % 3 === 0; break;
+        case 3: invert = (x + y) % 3 === 0; break;
+        case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+        case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+        case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+      }
+      if (invert && !isFunction[y][x]) {
+        modules[y][x] = !modules[y][x];
+      }
+    }
+  }
+}
+
+function getLinePenalty(line: boolean[]): number {
+  let penalty = 0;
+
+  // Runs of five or more modules of the same colour
+  let runLength = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++;
+    } else {
+      if (runLength >= 5) {
+        penalty += PENALTY_N1 + (runLength - 5);
+      }
+      runLength = 1;
+    }
+  }
+
+  // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+  for (let i = 0; i + FINDER_LIKE.length <= line.length; i++) {
+    if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) {
+      continue;
+    }
+    const lightBefore = i >= 4 && [1, 2, 3, 4].every(k => !line[i - k]);
+    const end = i + FINDER_LIKE.length;
+    const lightAfter = end + 4 <= line.length && [0, 1, 2, 3].every(k => !line[end + k]);
+    if (lightBefore || lightAfter) {
+      penalty += PENALTY_N3;
+    }
+  }
+
+  return penalty;
+}
+
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  for (let i = 0; i < size; i++) {
+    penalty += getLinePenalty(modules[i]);
+    penalty += getLinePenalty(modules.map(row => row[i]));
+  }
+
+  // 2x2 blocks of the same colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += PENALTY_N2;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  penalty += Math.max(0, k) * PENALTY_N4;
+
+  return penalty;
+}
@@ -0,0 +1,120 @@
+import { Rehearsal, RSVPStatus } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Reminder presets offered in the profile, in minutes before the rehearsal starts
+ */
+export const REMINDER_OFFSET_OPTIONS = [15, 30, 60, 120, 1440, 2880];
+
+/**
+ * Reminders until the user picks their own: a day and two hours before
+ */
+export const DEFAULT_REMINDER_OFFSETS = [1440, 120];
+
+/**
+ * iOS keeps at most 64 pending local notifications per app, so only the soonest reminders are scheduled
+ */
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+const IDENTIFIER_PREFIX = 'rehearsal-reminder:';
+
+/**
+ * What a reminder needs to know about its rehearsal
+ */
+export interface ReminderRehearsal {
+  id: string;
+  projectId: string;
+  projectName?: string;
+  location?: string;
+  startsAt: string;
+}
+
+export interface PlannedReminder {
+  identifier: string;
+  offsetMinutes: number;
+  fireAt: Date;
+  rehearsal: ReminderRehearsal;
+}
+
+/**
+ * Identifier of the local notification for a rehearsal and offset (scheduling it again replaces it)
+ */
+export function getReminderIdentifier(rehearsalId: string, offsetMinutes: number): string {
+  return `${IDENTIFIER_PREFIX}${rehearsalId}:${offsetMinutes}`;
+}
+
+/**
+ * Whether a scheduled notification is one of our rehearsal reminders
+ */
+export function isReminderIdentifier(identifier: string): boolean {
+  return identifier.startsWith(IDENTIFIER_PREFIX);
+}
+
+/**
+ * Keep the known presets only, largest offset first
+ * Stored settings from older versions or bad writes fall back to the defaults.
+ */
+export function normalizeReminderOffsets(offsets: unknown): number[] {
+  if (!Array.isArray(offsets)) {
+    return [...DEFAULT_REMINDER_OFFSETS];
+  }
+  return REMINDER_OFFSET_OPTIONS
+    .filter(option => offsets.includes(option))
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Rehearsals to remind about: upcoming ones the user hasn't declined
+ * Unliking sends 'no', which drops the rehearsal and so cancels its reminders.
+ * Invitations are stored as 'no' too, so only rehearsals without an invitation count as unanswered.
+ */
+export function getReminderRehearsals(
+  rehearsals: Rehearsal[],
+  responses: Record<string, RSVPStatus>,
+  now: Date = new Date()
+): ReminderRehearsal[] {
+  return rehearsals
+    .filter(r => r.projectId && Date.parse(r.startsAt) > now.getTime() && responses[r.id] !== 'no')
+    .map(r => ({
+      id: r.id,
+      projectId: r.projectId as string,
+      projectName: r.projectName,
+      location: r.location,
+      startsAt: r.startsAt,
+    }));
+}
+
+/**
+ * Reminders for every rehearsal and offset that are still ahead, soonest first
+ * @returns At most MAX_SCHEDULED_REMINDERS reminders
+ */
+export function planReminders(
+  rehearsals: ReminderRehearsal[],
+  offsets: number[],
+  now: Date = new Date()
+): PlannedReminder[] {
+  const planned: PlannedReminder[] = [];
+
+  for (const rehearsal of rehearsals) {
+    const startsAt = Date.parse(rehearsal.startsAt);
+    if (isNaN(startsAt)) {
+      continue;
+    }
+    for (const offsetMinutes of offsets) {
+      const fireAt = new Date(startsAt - offsetMinutes * MINUTE_MS);
+      if (fireAt.getTime() > now.getTime()) {
+        planned.push({
+          identifier: getReminderIdentifier(rehearsal.id, offsetMinutes),
+          offsetMinutes,
+          fireAt,
+          rehearsal,
+        });
+      }
+    }
+  }
+
+  return planned
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+}
@@ -0,0 +1,52 @@
+import { RSVPStatus } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Respond-by presets offered when scheduling, in hours before the rehearsal starts
+ */
+export const RESPOND_BY_LEAD_HOURS = [24, 48, 72, 168];
+
+/**
+ * Only 'yes' and 'maybe' are answers: invitations start as 'no' and unliking sends 'no' again
+ */
+export function hasAnswered(response: RSVPStatus | undefined): boolean {
+  return response === 'yes' || response === 'maybe';
+}
+
+/**
+ * Whether the respond-by deadline has passed without an answer
+ */
+export function isRsvpOverdue(
+  respondBy: string | null | undefined,
+  response: RSVPStatus | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!respondBy || hasAnswered(response)) {
+    return false;
+  }
+  const deadline = Date.parse(respondBy);
+  return !isNaN(deadline) && deadline <= now.getTime();
+}
+
+/**
+ * Deadline that lies the given number of hours before the rehearsal starts
+ * @returns ISO timestamp, or null when no lead time is chosen
+ */
+export function respondByFromLeadHours(startsAt: string, leadHours: number | null): string | null {
+  if (leadHours === null) {
+    return null;
+  }
+  return new Date(Date.parse(startsAt) - leadHours * HOUR_MS).toISOString();
+}
+
+/**
+ * Lead time of an existing deadline, in whole hours before the rehearsal starts
+ */
+export function leadHoursFromRespondBy(startsAt: string, respondBy: string | null | undefined): number | null {
+  if (!respondBy) {
+    return null;
+  }
+  const lead = Date.parse(startsAt) - Date.parse(respondBy);
+  return isNaN(lead) ? null : Math.max(0, Math.round(lead / HOUR_MS));
+}